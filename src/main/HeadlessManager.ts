@@ -1,11 +1,17 @@
 import { EventEmitter } from 'events';
 import { AIEngine } from './ai/AIEngine';
+import { UsageLedger } from './ai/usage/UsageLedger';
+import { ContinuousImprovement } from './ai/training/ContinuousImprovement';
+import { RequestCancelledError } from './ai/RequestCancellation';
+import { ToolRegistry } from './ai/tools/ToolRegistry';
+import { createStoryTools } from './ai/tools/StoryTools';
+import { PrivacyAuditLogger } from './security/PrivacyAuditLogger';
 import { DatabaseManager } from './database/DatabaseManager';
 import { PluginManager } from './plugin/PluginManager';
 import { ConfigManager } from './config/ConfigManager';
 import { APIServer } from './api/APIServer';
 import { GRPCServer } from './api/GRPCServer';
-import { Story, Scene, Character } from '../shared/types/Story';
+import { Story, Scene, Character, SearchOptions, SearchResult } from '../shared/types/Story';
 
 export interface HeadlessConfig {
   enableAPI: boolean;
@@ -23,7 +29,7 @@ export interface HeadlessConfig {
 export interface HeadlessOperation {
   id: string;
   type: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   startTime: Date;
   endTime?: Date;
   result?: any;
@@ -35,6 +41,7 @@ export interface HeadlessMetrics {
   operationsTotal: number;
   operationsCompleted: number;
   operationsFailed: number;
+  operationsCancelled: number;
   averageOperationTime: number;
   activeOperations: number;
   uptime: number;
@@ -54,6 +61,7 @@ export class HeadlessManager extends EventEmitter {
   private dbManager: DatabaseManager;
   private pluginManager: PluginManager;
   private configManager: ConfigManager;
+  private auditLogger?: PrivacyAuditLogger;
   private apiServer?: APIServer;
   private grpcServer?: GRPCServer;
   private operations: Map<string, HeadlessOperation> = new Map();
@@ -61,6 +69,7 @@ export class HeadlessManager extends EventEmitter {
   private isRunning = false;
   private startTime: Date;
   private operationQueue: HeadlessOperation[] = [];
+  private operationControllers: Map<string, AbortController> = new Map();
   private activeOperations = 0;
 
   constructor(config: Partial<HeadlessConfig> = {}) {
@@ -96,6 +105,19 @@ export class HeadlessManager extends EventEmitter {
       await this.configManager.initialize();
       await this.dbManager.initialize();
       await this.aiEngine.initialize();
+      // Comparison choices feed model improvement; training is only started by hand
+      this.aiEngine.setContinuousImprovement(new ContinuousImprovement({ autoTriggerEnabled: false }));
+      // Story tools for providers with tool calling; every call is audit logged
+      this.auditLogger = new PrivacyAuditLogger();
+      const tools = new ToolRegistry(this.auditLogger);
+      createStoryTools({
+        loadStory: storyId => this.dbManager.loadStory(storyId),
+        search: (query, options) => this.aiEngine.retrieve(query, options)
+      }).forEach(tool => tools.register(tool));
+      this.aiEngine.setTools(tools);
+      // Names and contact details redacted from cloud requests are logged there too
+      this.aiEngine.setPrivacyAuditLogger(this.auditLogger);
+      this.aiEngine.setStoryLoader(storyId => this.dbManager.loadStory(storyId));
       await this.pluginManager.initialize();
 
       // Start API servers
@@ -155,6 +177,7 @@ export class HeadlessManager extends EventEmitter {
       await this.pluginManager.shutdown?.();
       await this.aiEngine.shutdown?.();
       await this.dbManager.shutdown?.();
+      this.auditLogger?.destroy();
 
       this.emit('shutdown');
       this.log('info', 'Headless mode shutdown complete');
@@ -178,6 +201,7 @@ export class HeadlessManager extends EventEmitter {
     };
 
     this.operations.set(operation.id, operation);
+    this.operationControllers.set(operation.id, new AbortController());
     this.operationQueue.push(operation);
     this.metrics.operationsTotal++;
 
@@ -194,7 +218,7 @@ export class HeadlessManager extends EventEmitter {
 
         if (currentOp.status === 'completed') {
           resolve(currentOp.result);
-        } else if (currentOp.status === 'failed') {
+        } else if (currentOp.status === 'failed' || currentOp.status === 'cancelled') {
           reject(currentOp.error);
         } else {
           // Check timeout
@@ -204,6 +228,8 @@ export class HeadlessManager extends EventEmitter {
             currentOp.error = new Error('Operation timeout');
             currentOp.endTime = new Date();
             this.metrics.operationsFailed++;
+            // Stop the work as well, so it does not keep holding a slot
+            this.operationControllers.get(currentOp.id)?.abort();
             reject(currentOp.error);
           } else {
             setTimeout(checkOperation, 100);
@@ -241,18 +267,26 @@ export class HeadlessManager extends EventEmitter {
   }
 
   /**
-   * Cancel an operation
+   * Cancel a pending or running operation. Running AI operations are aborted,
+   * which stops the provider request and frees the operation's slot.
    */
   async cancelOperation(operationId: string): Promise<boolean> {
     const operation = this.operations.get(operationId);
-    if (!operation || operation.status !== 'pending') {
+    if (!operation || (operation.status !== 'pending' && operation.status !== 'running')) {
       return false;
     }
 
-    operation.status = 'failed';
-    operation.error = new Error('Operation cancelled');
+    this.operationControllers.get(operationId)?.abort();
+    if (operation.status === 'pending') {
+      // Never started, so processOperation will not clean up after it
+      this.operationQueue = this.operationQueue.filter(queued => queued.id !== operationId);
+      this.operationControllers.delete(operationId);
+    }
+
+    operation.status = 'cancelled';
+    operation.error = new RequestCancelledError('Operation cancelled');
     operation.endTime = new Date();
-    this.metrics.operationsFailed++;
+    this.metrics.operationsCancelled++;
 
     this.emit('operationCancelled', operation);
     return true;
@@ -308,6 +342,7 @@ export class HeadlessManager extends EventEmitter {
     this.configManager = new ConfigManager();
     this.dbManager = new DatabaseManager(this.configManager);
     this.aiEngine = new AIEngine(this.configManager);
+    this.aiEngine.setUsageLedger(new UsageLedger(this.dbManager, this.configManager));
     this.pluginManager = new PluginManager(this.aiEngine, this.dbManager, this.configManager);
 
     // Initialize API servers if enabled
@@ -395,7 +430,11 @@ export class HeadlessManager extends EventEmitter {
     this.emit('operationStarted', operation);
 
     try {
-      const result = await this.executeOperationType(operation);
+      const signal = this.operationControllers.get(operation.id)?.signal;
+      const result = await this.executeOperationType(operation, signal);
+
+      // Cancelled or timed out while it ran; the outcome is already recorded
+      if (operation.endTime) return;
       
       operation.status = 'completed';
       operation.result = result;
@@ -405,6 +444,8 @@ export class HeadlessManager extends EventEmitter {
       this.emit('operationCompleted', operation);
       
     } catch (error) {
+      if (operation.endTime) return;
+
       operation.status = 'failed';
       operation.error = error as Error;
       operation.endTime = new Date();
@@ -415,19 +456,20 @@ export class HeadlessManager extends EventEmitter {
       
     } finally {
       this.activeOperations--;
+      this.operationControllers.delete(operation.id);
     }
   }
 
-  private async executeOperationType(operation: HeadlessOperation): Promise<any> {
+  private async executeOperationType(operation: HeadlessOperation, signal?: AbortSignal): Promise<any> {
     const { type, metadata } = operation;
     const { params } = metadata;
 
     switch (type) {
       case 'generateText':
-        return this.aiEngine.generateText(params.prompt, params.options);
+        return this.aiEngine.generateText(params.prompt, params.options, undefined, signal);
 
       case 'analyzeStory':
-        return this.aiEngine.analyzeStory(params.story);
+        return this.aiEngine.analyzeStory(params.story, signal);
 
       case 'analyzeScene':
         return this.aiEngine.analyzeScene(params.scene);
@@ -442,7 +484,7 @@ export class HeadlessManager extends EventEmitter {
         return this.dbManager.getStory(params.id);
 
       case 'searchStories':
-        return this.dbManager.searchStories(params.query);
+        return this.dbManager.searchStories(params.query, params.options);
 
       case 'activatePlugin':
         return this.pluginManager.activatePlugin(params.pluginId);
@@ -504,6 +546,7 @@ export class HeadlessManager extends EventEmitter {
       operationsTotal: 0,
       operationsCompleted: 0,
       operationsFailed: 0,
+      operationsCancelled: 0,
       averageOperationTime: 0,
       activeOperations: 0,
       uptime: 0,
@@ -554,8 +597,8 @@ export class HeadlessManager extends EventEmitter {
     return this.executeOperation('getStory', { id });
   }
 
-  public async searchStories(query: string): Promise<Story[]> {
-    return this.executeOperation('searchStories', { query });
+  public async searchStories(query: string, options?: SearchOptions): Promise<SearchResult> {
+    return this.executeOperation('searchStories', { query, options });
   }
 
   public async activatePlugin(pluginId: string): Promise<void> {
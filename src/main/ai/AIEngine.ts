@@ -1,8 +1,39 @@
-import { AIProvider, AIRequest, AIResponse, StoryContext, StoryAnalysis, AIRequestType } from '../../shared/types/AI';
-import { Character } from '../../shared/types/Story';
+import {
+  AIProvider,
+  AIRequest,
+  AIResponse,
+  AIStreamChunk,
+  ComparisonResult,
+  InfillInput,
+  InfillSuggestion,
+  ProviderComparison,
+  StoryContext,
+  StoryAnalysis,
+  AIRequestType,
+  RetrievalOptions,
+  RetrievedPassage,
+  RoutingExplanation,
+  StructuredAnalysisResults,
+  StructuredAnalysisType,
+  ToolExecutor,
+  VoicedDialogue,
+  VoicedDialogueOptions
+} from '../../shared/types/AI';
+import { Character, Story } from '../../shared/types/Story';
 import { ConfigManager } from '../config/ConfigManager';
 import { AIProviderRegistry } from './providers/AIProviderRegistry';
 import { AIRouter } from './AIRouter';
+import { RetrievalIndex } from './retrieval/RetrievalIndex';
+import { UsageLedger } from './usage/UsageLedger';
+import { isRequestCancelled, rethrowIfCancelled, throwIfCancelled } from './RequestCancellation';
+import { StructuredOutput, StructuredOutputError, StructuredRetry } from './structured/StructuredOutput';
+import { DIALOGUE_OUTPUT, DIALOGUE_REWRITE_OUTPUT, VoiceDialogue } from './dialogue/VoiceDialogue';
+import { Infill } from './infill/Infill';
+import { ANALYSIS_RESULTS } from './structured/AnalysisSchemas';
+import { ContinuousImprovement } from './training/ContinuousImprovement';
+import { CloudRedactor } from './privacy/CloudRedactor';
+import { PrivacyAuditLogger } from '../security/PrivacyAuditLogger';
+import { IdGenerator } from '../../shared/utils/StoryUtils';
 import { EventEmitter } from 'events';
 
 // AI Engine events
@@ -11,12 +42,25 @@ export interface AIEngineEvents {
   'provider-removed': (providerId: string) => void;
   'request-completed': (request: AIRequest, response: AIResponse, provider: AIProvider) => void;
   'request-failed': (request: AIRequest, error: Error) => void;
+  'request-cancelled': (request: AIRequest) => void;
 }
 
+const MAX_COMPARED_PROVIDERS = 4;
+const MAX_STORED_COMPARISONS = 50;
+const CHOSEN_RATING = 5;
+const PASSED_OVER_RATING = 2;
+const DEFAULT_MIN_VOICE_MATCH = 0.6;
+const DEFAULT_DIALOGUE_REGENERATIONS = 2;
+
 export class AIEngine extends EventEmitter {
   private providerRegistry: AIProviderRegistry;
   private router: AIRouter;
   private configManager: ConfigManager;
+  private retrievalIndex: RetrievalIndex | null = null;
+  private usageLedger: UsageLedger | null = null;
+  private continuousImprovement: ContinuousImprovement | null = null;
+  private cloudRedactor: CloudRedactor;
+  private comparisons = new Map<string, ProviderComparison>();
   private initialized = false;
 
   constructor(configManager?: ConfigManager) {
@@ -24,6 +68,8 @@ export class AIEngine extends EventEmitter {
     this.configManager = configManager || new ConfigManager();
     this.providerRegistry = new AIProviderRegistry(this.configManager);
     this.router = new AIRouter(this.providerRegistry, this.configManager);
+    this.cloudRedactor = new CloudRedactor(this.configManager);
+    this.router.setCloudRedactor(this.cloudRedactor);
     
     this.setupEventHandlers();
   }
@@ -51,94 +97,430 @@ export class AIEngine extends EventEmitter {
     console.log('Providers loaded via registry initialization');
   }
 
-  // High-level AI interface methods that delegate to the router
+  // High-level AI interface methods that delegate to the router, which
+  // retries and falls back to other providers when one fails
   async routeRequest(request: AIRequest): Promise<AIResponse> {
     this.ensureInitialized();
-    const provider = await this.router.routeRequest(request);
-    const response = await this.executeRequest(provider, request);
-    this.emit('request-completed', request, response, provider);
-    return response;
-  }
-
-  private async executeRequest(provider: AIProvider, request: AIRequest): Promise<AIResponse> {
-    switch (request.type) {
-      case 'prose_generation':
-      case 'dialogue_generation':
-        return provider.generateText(request.content, request.context);
-      case 'story_analysis':
-      case 'plot_hole_detection':
-      case 'pacing_analysis':
-      case 'consistency_check':
-      case 'manuscript_analysis':
-        const analysis = await provider.analyzeStory(request.content);
-        return {
-          content: JSON.stringify(analysis),
-          confidence: analysis.overallScore / 100,
-          metadata: {
-            model: provider.name,
-            provider: provider.name,
-            tokensUsed: 0,
-            responseTime: 0
-          }
-        };
-      case 'character_analysis':
-        const traits = JSON.parse(request.content);
-        const character = await provider.generateCharacter(traits);
-        return {
-          content: JSON.stringify(character),
-          confidence: 0.8,
-          metadata: {
-            model: provider.name,
-            provider: provider.name,
-            tokensUsed: 0,
-            responseTime: 0
-          }
-        };
-      default:
-        return provider.generateText(request.content, request.context);
+    try {
+      const citations = await this.retrieveForRequest(request);
+      const response = await this.router.executeRequest(this.prepareRequest(request, citations));
+      if (citations.length > 0) {
+        response.citations = citations;
+      }
+      this.emitCompleted(request, response);
+      return response;
+    } catch (error) {
+      this.reportCancellation(request, error);
+      throw error;
+    }
+  }
+
+  // 'request-completed' names the provider that answered, which may not be
+  // the first one tried
+  private emitCompleted(request: AIRequest, response: AIResponse): void {
+    const provider = this.providerRegistry.getProvider(response.metadata.provider);
+    if (provider) {
+      this.emit('request-completed', request, response, provider);
+    }
+  }
+
+  // Emits 'request-cancelled' and rethrows when the error is a cancellation
+  private reportCancellation(request: AIRequest, error: unknown): void {
+    if (isRequestCancelled(error, request.signal)) {
+      this.emit('request-cancelled', request);
+      rethrowIfCancelled(error, request.signal);
     }
   }
 
-  // Convenience methods for common operations
-  async generateText(prompt: string, context: StoryContext, options?: Partial<AIRequest['options']>): Promise<AIResponse> {
+  // Convenience methods for common operations. Each takes an optional signal
+  // that cancels the request.
+  async generateText(
+    prompt: string,
+    context: StoryContext,
+    options?: Partial<AIRequest['options']>,
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
     const request: AIRequest = {
       type: 'prose_generation',
       content: prompt,
       context,
-      options: options || undefined
+      options: options || undefined,
+      signal
     };
     return this.routeRequest(request);
   }
 
-  async analyzeStory(content: string): Promise<StoryAnalysis> {
+  // Streams generated text as it is produced. 'request-completed' is emitted
+  // with the assembled response once the stream finishes.
+  async *generateTextStream(
+    prompt: string,
+    context: StoryContext,
+    options?: Partial<AIRequest['options']>,
+    signal?: AbortSignal
+  ): AsyncGenerator<AIStreamChunk> {
+    this.ensureInitialized();
     const request: AIRequest = {
-      type: 'story_analysis',
+      type: 'prose_generation',
+      content: prompt,
+      context,
+      options: options || undefined,
+      signal
+    };
+
+    try {
+      yield* this.streamRequest(request);
+    } catch (error) {
+      this.reportCancellation(request, error);
+      throw error;
+    }
+  }
+
+  // Text for the cursor position, between the prefix and suffix around it. The
+  // suggestion keeps to the tense and point of view of the surrounding text and
+  // is spaced so it can be inserted as is.
+  async generateInfill(
+    input: InfillInput,
+    context: StoryContext,
+    options?: Partial<AIRequest['options']>,
+    signal?: AbortSignal
+  ): Promise<InfillSuggestion> {
+    const infill = Infill.window(input);
+    const narration = Infill.detectNarration(`${infill.prefix} ${infill.suffix}`);
+    const response = await this.routeRequest({
+      type: 'infill',
+      content: Infill.buildPrompt(infill, narration),
+      context,
+      options: { ...options, maxTokens: infill.maxTokens },
+      infill,
+      signal
+    });
+
+    return {
+      text: Infill.clean(response.content, infill),
+      native: response.metadata.infill === 'native',
+      provider: response.metadata.provider,
+      model: response.metadata.model,
+      ...narration
+    };
+  }
+
+  private async *streamRequest(request: AIRequest): AsyncGenerator<AIStreamChunk> {
+    const citations = await this.retrieveForRequest(request);
+
+    let content = '';
+    for await (const chunk of this.router.executeStream(this.prepareRequest(request, citations))) {
+      content += chunk.content;
+      yield chunk;
+
+      if (chunk.done) {
+        const response: AIResponse = {
+          content,
+          text: content,
+          confidence: 0.8,
+          metadata: {
+            model: chunk.metadata?.model || 'unknown',
+            provider: chunk.metadata?.provider || 'unknown',
+            tokensUsed: chunk.metadata?.tokensUsed || 0,
+            responseTime: chunk.metadata?.responseTime || 0
+          },
+          citations: citations.length > 0 ? citations : undefined
+        };
+        this.emitCompleted(request, response);
+      }
+    }
+  }
+
+  // Token and cost accounting, done by the router for every request
+  setUsageLedger(usageLedger: UsageLedger | null): void {
+    this.usageLedger = usageLedger;
+    this.router.setUsageLedger(usageLedger);
+  }
+
+  getUsageLedger(): UsageLedger | null {
+    return this.usageLedger;
+  }
+
+  // Redactions made for cloud providers are recorded here once set
+  setPrivacyAuditLogger(auditLogger: Pick<PrivacyAuditLogger, 'logDataTransmission'> | null): void {
+    this.cloudRedactor.setAuditLogger(auditLogger);
+  }
+
+  // Lets cloud redaction cover every character of a story, not only those in
+  // the request context
+  setStoryLoader(loadStory: ((storyId: string) => Promise<Story | null>) | null): void {
+    this.cloudRedactor.setStoryLoader(loadStory);
+  }
+
+  // Receives the provider a user picks in a comparison as preference feedback
+  setContinuousImprovement(continuousImprovement: ContinuousImprovement | null): void {
+    this.continuousImprovement = continuousImprovement;
+  }
+
+  // Side-by-side comparison: sends one request to each named provider at once.
+  // A provider that fails gets an error in its result instead of failing the
+  // comparison. Usage is recorded per provider like any other request.
+  async compareProviders(request: AIRequest, providerNames: string[]): Promise<ProviderComparison> {
+    this.ensureInitialized();
+
+    const names = Array.from(new Set(providerNames));
+    if (names.length < 2 || names.length > MAX_COMPARED_PROVIDERS) {
+      throw new Error(`Comparisons need between 2 and ${MAX_COMPARED_PROVIDERS} providers, got ${names.length}`);
+    }
+    const providers = names.map(name => {
+      const provider = this.providerRegistry.getProvider(name);
+      if (!provider) {
+        throw new Error(`Provider ${name} not found`);
+      }
+      return provider;
+    });
+
+    const citations = await this.retrieveForRequest(request);
+    const prepared = this.prepareRequest(request, citations);
+    let results: ComparisonResult[];
+    try {
+      throwIfCancelled(request.signal);
+      results = await Promise.all(providers.map(provider => this.compareOne(provider, prepared)));
+      throwIfCancelled(request.signal);
+    } catch (error) {
+      this.reportCancellation(request, error);
+      throw error;
+    }
+    if (citations.length > 0) {
+      results.forEach(result => result.response && (result.response.citations = citations));
+    }
+
+    const comparison: ProviderComparison = {
+      id: IdGenerator.generateComparisonId(),
+      requestType: request.type,
+      prompt: request.content,
+      createdAt: new Date(),
+      results
+    };
+    this.comparisons.set(comparison.id, comparison);
+    if (this.comparisons.size > MAX_STORED_COMPARISONS) {
+      this.comparisons.delete(this.comparisons.keys().next().value as string);
+    }
+    return comparison;
+  }
+
+  getComparison(comparisonId: string): ProviderComparison | undefined {
+    return this.comparisons.get(comparisonId);
+  }
+
+  // Records which answer the user kept. The chosen provider is rated highly and
+  // the others that answered poorly, so feedback analysis sees the preference.
+  // Returns the IDs of the feedback entries.
+  async recordComparisonChoice(
+    comparisonId: string,
+    providerName: string,
+    options: { userId?: string; comment?: string } = {}
+  ): Promise<string[]> {
+    const comparison = this.comparisons.get(comparisonId);
+    if (!comparison) {
+      throw new Error(`Comparison ${comparisonId} not found`);
+    }
+    const chosen = comparison.results.find(result => result.provider === providerName);
+    if (!chosen || !chosen.response) {
+      throw new Error(`Provider ${providerName} has no answer in comparison ${comparisonId}`);
+    }
+
+    comparison.chosenProvider = providerName;
+    if (!this.continuousImprovement) {
+      console.warn('No feedback pipeline is set, the comparison choice is not recorded as feedback');
+      return [];
+    }
+
+    const answered = comparison.results.filter(result => result.response);
+    const feedbackIds: string[] = [];
+    for (const result of answered) {
+      const isChosen = result === chosen;
+      feedbackIds.push(await this.continuousImprovement.collectFeedback({
+        modelId: result.model || result.provider,
+        userId: options.userId || 'local',
+        rating: isChosen ? CHOSEN_RATING : PASSED_OVER_RATING,
+        comment: isChosen ? options.comment : undefined,
+        category: 'comparison',
+        taskType: comparison.requestType,
+        metadata: {
+          comparisonId,
+          provider: result.provider,
+          chosen: isChosen,
+          comparedWith: answered.filter(other => other !== result).map(other => other.provider)
+        }
+      }));
+    }
+    return feedbackIds;
+  }
+
+  private async compareOne(provider: AIProvider, request: AIRequest): Promise<ComparisonResult> {
+    const result: ComparisonResult = { provider: provider.name, providerType: provider.type, latency: 0 };
+    const startTime = Date.now();
+    try {
+      const { response, usage } = await this.router.executeOn(provider, request);
+      result.latency = Date.now() - startTime;
+      result.response = response;
+      result.model = response.metadata?.model;
+      result.outputTokens = response.metadata?.tokensUsed || undefined;
+      if (usage) {
+        result.model = usage.model;
+        result.inputTokens = usage.inputTokens;
+        result.outputTokens = usage.outputTokens;
+        result.cost = usage.cost;
+      }
+    } catch (error) {
+      rethrowIfCancelled(error, request.signal);
+      result.latency = Date.now() - startTime;
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+    return result;
+  }
+
+  // Retrieval over the manuscript. Requests with options.retrieval set get the
+  // top passages attached to their context and returned as citations.
+  setRetrievalIndex(index: RetrievalIndex | null): void {
+    this.retrievalIndex = index;
+  }
+
+  async retrieve(query: string, options: RetrievalOptions = {}): Promise<RetrievedPassage[]> {
+    if (!this.retrievalIndex) {
+      return [];
+    }
+    return this.retrievalIndex.query(query, options);
+  }
+
+  // Passages for the request's prompt, leaving out the scene being written since it is already in the prompt
+  private async retrieveForRequest(request: AIRequest): Promise<RetrievedPassage[]> {
+    const retrieval = request.options?.retrieval;
+    if (!retrieval || !this.retrievalIndex) {
+      return [];
+    }
+
+    const currentScene = request.context?.currentScene;
+    try {
+      return await this.retrieve(request.content, {
+        ...retrieval,
+        storyId: retrieval.storyId || request.context?.storyId,
+        excludeSceneIds: [...(retrieval.excludeSceneIds || []), ...(currentScene ? [currentScene] : [])]
+      });
+    } catch (error) {
+      console.warn('Retrieval failed, sending the request without passages:', error);
+      return [];
+    }
+  }
+
+  // Tools offered to the model by providers that support tool calling. They
+  // are handed to each provider as it serves a request, so providers
+  // registered after this call get them too.
+  setTools(tools: ToolExecutor | null): void {
+    this.router.setTools(tools);
+  }
+
+  // Copies the request with what providers need to build the prompt: the
+  // request type, which selects the prompt template, and any retrieved passages
+  private prepareRequest(request: AIRequest, passages: RetrievedPassage[]): AIRequest {
+    const context: StoryContext = { ...request.context, requestType: request.type };
+    if (passages.length > 0) {
+      context.retrievedPassages = passages;
+    }
+    return { ...request, context };
+  }
+
+  async analyzeStory(content: string, signal?: AbortSignal): Promise<StoryAnalysis> {
+    return this.analyze('story_analysis', content, signal);
+  }
+
+  // Runs an analysis request and returns its typed result. Providers validate
+  // and repair their own replies; results are checked again here because not
+  // every provider builds its analysis from model output. Throws
+  // StructuredOutputError listing each mismatch when the result is malformed.
+  async analyze<T extends StructuredAnalysisType>(
+    type: T,
+    content: string,
+    signal?: AbortSignal
+  ): Promise<StructuredAnalysisResults[T]> {
+    const request: AIRequest = {
+      type,
       content,
-      context: { characters: [], genre: [], targetAudience: '' }
+      context: { characters: [], genre: [], targetAudience: '' },
+      signal
     };
     const response = await this.routeRequest(request);
-    
-    // Try to parse as JSON, fallback to mock structure if needed
-    try {
-      return JSON.parse(response.content);
-    } catch {
-      // Return mock structure for development
-      return {
-        structure: { identifiedStructure: 'unknown', completedBeats: [], missingBeats: [], suggestions: [], confidence: 0.5 },
-        characters: { consistencyScore: 0.5, voiceConsistency: 0.5, developmentProgress: 0.5, relationshipHealth: [], suggestions: [] },
-        pacing: { overallPacing: 'good', tensionCurve: [], recommendations: [] },
-        consistency: { overallScore: 0.5, plotHoles: [], characterInconsistencies: [], worldBuildingIssues: [] },
-        overallScore: 0.5,
-        recommendations: []
-      };
+
+    const definition = ANALYSIS_RESULTS[type];
+    const analysis = StructuredOutput.extractJSON(response.content);
+    const result = StructuredOutput.repair(analysis && definition.select(analysis), definition.schema);
+    const issues = StructuredOutput.validate(result, definition.schema);
+    if (issues.length > 0) {
+      throw new StructuredOutputError(type, issues, response.content, 1);
     }
+    return result;
+  }
+
+  // Dialogue with each speaker conditioned on their voice profile and traits.
+  // Every line is scored against its speaker's profile; a speaker whose lines
+  // average below minVoiceMatch has just those lines rewritten, for up to
+  // maxRegenerations rounds. A rewrite is kept only when it scores higher.
+  async generateDialogue(
+    prompt: string,
+    characters: Character[],
+    context: Partial<StoryContext> = {},
+    options: VoicedDialogueOptions = {},
+    signal?: AbortSignal
+  ): Promise<VoicedDialogue> {
+    const minVoiceMatch = options.minVoiceMatch ?? DEFAULT_MIN_VOICE_MATCH;
+    const maxRegenerations = options.maxRegenerations ?? DEFAULT_DIALOGUE_REGENERATIONS;
+    const ask = (content: string) => async (retry?: StructuredRetry) => {
+      const response = await this.routeRequest({
+        type: 'dialogue_generation',
+        content: retry ? `${content}\n\nYour previous reply:\n${retry.previous}\n\n${retry.feedback}` : content,
+        context: { genre: [], targetAudience: '', ...context, characters },
+        signal
+      });
+      return response.content;
+    };
+
+    const draft = await StructuredOutput.generate<{ lines: Array<{ speaker: string; text: string }> }>(
+      DIALOGUE_OUTPUT, ask(VoiceDialogue.buildPrompt(prompt, characters)), { signal }
+    );
+    const lines = draft.lines.map(line => VoiceDialogue.toLine(line.speaker, line.text, characters));
+
+    const regenerated = new Set<string>();
+    let rounds = 0;
+    for (; rounds < maxRegenerations; rounds++) {
+      const drifting = VoiceDialogue.driftingSpeakers(lines, characters, minVoiceMatch);
+      if (drifting.length === 0) {
+        break;
+      }
+
+      for (const character of drifting) {
+        const indexes = lines.flatMap((line, index) => line.characterId === character.id ? [index] : []);
+        const rewrite = await StructuredOutput.generate<{ lines: Array<{ index: number; text: string }> }>(
+          DIALOGUE_REWRITE_OUTPUT, ask(VoiceDialogue.buildRewritePrompt(lines, character, indexes)), { signal }
+        );
+        for (const { index, text } of rewrite.lines) {
+          // Rewrites are numbered from 1, as in the prompt
+          const current = lines[index - 1];
+          if (!current || current.characterId !== character.id) {
+            continue;
+          }
+          const line = VoiceDialogue.toLine(current.speaker, text, characters);
+          if ((line.voiceMatch ?? 0) > (current.voiceMatch ?? 0)) {
+            lines[index - 1] = { ...line, regenerated: true };
+            regenerated.add(character.name);
+          }
+        }
+      }
+    }
+
+    return { lines, regeneratedSpeakers: Array.from(regenerated), rounds };
   }
 
-  async generateCharacter(traits: any): Promise<Character> {
+  async generateCharacter(traits: any, signal?: AbortSignal): Promise<Character> {
     const request: AIRequest = {
       type: 'character_analysis',
       content: JSON.stringify(traits),
-      context: { characters: [], genre: [], targetAudience: '' }
+      context: { characters: [], genre: [], targetAudience: '' },
+      signal
     };
     const response = await this.routeRequest(request);
     
@@ -226,6 +608,12 @@ export class AIEngine extends EventEmitter {
     return this.router.recommendProvider(requestType);
   }
 
+  // Which routing rule a request would match and the providers it would try, without sending it
+  async explainRouting(request: AIRequest): Promise<RoutingExplanation> {
+    this.ensureInitialized();
+    return this.router.explainRouting(this.prepareRequest(request, []));
+  }
+
   // Health monitoring
   async healthCheck(): Promise<{ [providerName: string]: boolean }> {
     this.ensureInitialized();
@@ -2,31 +2,57 @@ import {
   AIProvider, 
   AIRequest, 
   AIResponse, 
-  AIRequestType
+  AIRequestType,
+  AIStreamChunk,
+  ProviderHealthState,
+  RoutingConfig,
+  RoutingExplanation,
+  RoutingFacts,
+  RoutingRule,
+  RuleEvaluation,
+  ToolExecutor,
+  UsageRecord
 } from '../../shared/types/AI';
 import { AIProviderRegistry } from './providers/AIProviderRegistry';
 import { ConfigManager } from '../config/ConfigManager';
-
-export interface RoutingRule {
-  requestType: AIRequestType;
-  preferredProviderType?: 'cowriter' | 'local' | 'cloud';
-  preferredProvider?: string;
-  fallbackStrategy: 'priority' | 'load_balance' | 'performance';
-  requireOffline?: boolean;
+import { BudgetExceededError, UsageLedger } from './usage/UsageLedger';
+import { cancellableDelay, isRequestCancelled, rethrowIfCancelled, throwIfCancelled } from './RequestCancellation';
+import { DEFAULT_ROUTING_RULES, RoutingRules } from './routing/RoutingRules';
+import { TokenizerRegistry } from './inference/TokenizerRegistry';
+import { RateLimitError } from './health/RateLimiter';
+import { Infill } from './infill/Infill';
+import { CloudRedactor, Redaction } from './privacy/CloudRedactor';
+
+export type { RoutingConfig, RoutingRule } from '../../shared/types/AI';
+
+// Consecutive failures after which a provider counts as unhealthy for routing rules
+const UNHEALTHY_AFTER_FAILURES = 3;
+
+// Longest a retry waits for a rate limit to reset when no other provider can take it
+const MAX_RATE_LIMIT_DELAY = 60000;
+
+interface RoutePlan {
+  facts: RoutingFacts;
+  evaluations: RuleEvaluation[];
+  rule: RoutingRule | null;
+  providers: AIProvider[]; // in the order they are tried
+  notes: string[];
 }
 
-export interface RoutingConfig {
-  defaultStrategy: 'priority' | 'load_balance' | 'performance';
-  rules: RoutingRule[];
-  enableFallback: boolean;
-  maxRetries: number;
-  retryDelay: number; // milliseconds
+// What one attempt on one provider produced. usage is null without a ledger.
+export interface ProviderAttempt {
+  response: AIResponse;
+  usage: UsageRecord | null;
 }
 
 export class AIRouter {
   private providerRegistry: AIProviderRegistry;
   private configManager: ConfigManager;
   private routingConfig: RoutingConfig;
+  private usageLedger: UsageLedger | null = null;
+  private cloudRedactor: CloudRedactor | null = null;
+  private tools: ToolExecutor | null = null;
+  private consecutiveFailures = new Map<string, number>();
 
   constructor(providerRegistry: AIProviderRegistry, configManager: ConfigManager) {
     this.providerRegistry = providerRegistry;
@@ -45,88 +71,25 @@ export class AIRouter {
       enableFallback: config.enableFallback !== false,
       maxRetries: config.maxRetries || 3,
       retryDelay: config.retryDelay || 1000,
-      rules: config.rules || this.getDefaultRoutingRules()
+      rules: config.rules || DEFAULT_ROUTING_RULES.map(rule => ({ ...rule }))
     };
   }
 
-  private getDefaultRoutingRules(): RoutingRule[] {
-    return [
-      // Co-writer AI handles core creative tasks
-      {
-        requestType: 'outline',
-        preferredProviderType: 'cowriter',
-        fallbackStrategy: 'priority',
-        requireOffline: false
-      },
-      {
-        requestType: 'character_analysis',
-        preferredProviderType: 'cowriter',
-        fallbackStrategy: 'priority',
-        requireOffline: false
-      },
-      {
-        requestType: 'scene_structure',
-        preferredProviderType: 'cowriter',
-        fallbackStrategy: 'priority',
-        requireOffline: false
-      },
-      {
-        requestType: 'story_analysis',
-        preferredProviderType: 'cowriter',
-        fallbackStrategy: 'priority',
-        requireOffline: false
-      },
-      {
-        requestType: 'plot_hole_detection',
-        preferredProviderType: 'cowriter',
-        fallbackStrategy: 'priority',
-        requireOffline: false
-      },
-      {
-        requestType: 'pacing_analysis',
-        preferredProviderType: 'cowriter',
-        fallbackStrategy: 'priority',
-        requireOffline: false
-      },
-      {
-        requestType: 'consistency_check',
-        preferredProviderType: 'cowriter',
-        fallbackStrategy: 'priority',
-        requireOffline: false
-      },
-      {
-        requestType: 'manuscript_analysis',
-        preferredProviderType: 'cowriter',
-        fallbackStrategy: 'priority',
-        requireOffline: false
-      },
-      
-      // Cloud AI for complex generation tasks
-      {
-        requestType: 'prose_generation',
-        preferredProviderType: 'cloud',
-        fallbackStrategy: 'performance',
-        requireOffline: false
-      },
-      {
-        requestType: 'dialogue_generation',
-        preferredProviderType: 'cloud',
-        fallbackStrategy: 'performance',
-        requireOffline: false
-      },
-      {
-        requestType: 'research',
-        preferredProviderType: 'cloud',
-        fallbackStrategy: 'priority',
-        requireOffline: false
-      },
-      {
-        requestType: 'brainstorming',
-        preferredProviderType: 'cloud',
-        fallbackStrategy: 'load_balance',
-        requireOffline: false
-      }
-    ];
+  // Requests are recorded in the ledger and checked against its budgets once set
+  setUsageLedger(usageLedger: UsageLedger | null): void {
+    this.usageLedger = usageLedger;
+  }
+
+  // Requests to cloud providers are redacted, and responses restored, once set
+  setCloudRedactor(cloudRedactor: CloudRedactor | null): void {
+    this.cloudRedactor = cloudRedactor;
+  }
+
+  // Tools offered to the model by providers that support tool calling. They
+  // are handed to each provider as it serves a request, so providers
+  // registered after this call get them too.
+  setTools(tools: ToolExecutor | null): void {
+    this.tools = tools;
   }
 
   async routeRequest(request: AIRequest): Promise<AIProvider> {
@@ -137,49 +100,173 @@ export class AIRouter {
     return provider;
   }
 
-  private async selectProvider(request: AIRequest): Promise<AIProvider | null> {
-    // Find applicable routing rule
-    const rule = this.findRoutingRule(request.type);
-    
-    // Get available providers
-    let candidates = this.providerRegistry.getAvailableProviders();
-    
-    // Apply request-level filters
-    candidates = this.applyRequestFilters(candidates, request, rule);
-    
-    if (candidates.length === 0) {
+  // Dry run of routing: which rule matches the request, why the rules before
+  // it did not, and the providers that would be tried. Nothing is sent.
+  async explainRouting(request: AIRequest): Promise<RoutingExplanation> {
+    const plan = await this.planRoute(request);
+    return {
+      facts: plan.facts,
+      evaluations: plan.evaluations,
+      matchedRule: plan.rule,
+      candidates: plan.providers.map(provider => provider.name),
+      notes: plan.notes
+    };
+  }
+
+  // Rules with a fallback chain walk it on each retry; otherwise the best
+  // remaining provider is chosen every time
+  private async selectProvider(request: AIRequest, attempt = 0): Promise<AIProvider | null> {
+    const { rule, providers } = await this.planRoute(request);
+    if (providers.length === 0) {
       return null;
     }
+    if (rule?.fallbackChain?.length) {
+      return providers[Math.min(attempt, providers.length - 1)];
+    }
+    return providers[0];
+  }
 
-    // Simple priority-based selection for now
-    candidates.sort((a, b) => b.priority - a.priority);
-    return candidates[0];
+  private async planRoute(request: AIRequest): Promise<RoutePlan> {
+    const facts = this.collectFacts(request, await this.getBudgetRemaining(request));
+    const { matched, evaluations } = RoutingRules.evaluate(this.routingConfig.rules, facts);
+    const notes: string[] = [];
+    const filtered = this.applyRequestFilters(this.providerRegistry.getAvailableProviders(), request, matched, notes);
+    const providers = this.deferThrottled(filtered, notes);
+    return { facts, evaluations, rule: matched, providers, notes };
+  }
+
+  // Moves providers that are at their rate limits behind the rest, so another
+  // provider is tried first. They stay in the list as a last resort, where
+  // the request waits for capacity.
+  private deferThrottled(providers: AIProvider[], notes: string[]): AIProvider[] {
+    const throttled = providers.filter(provider => provider.getRateLimitState?.()?.throttled);
+    if (throttled.length === 0 || throttled.length === providers.length) {
+      return providers;
+    }
+
+    for (const provider of throttled) {
+      const retryAt = provider.getRateLimitState?.()?.retryAt;
+      notes.push(`${provider.name} is rate limited${retryAt ? ` until ${retryAt.toISOString()}` : ''} and is tried last`);
+    }
+    return [...providers.filter(provider => !throttled.includes(provider)), ...throttled];
+  }
+
+  // The fixed retry delay, except after a 429: no wait when the retry goes to
+  // a provider with capacity, otherwise until the limit resets
+  private async getRetryDelay(error: unknown, request: AIRequest, attempt: number): Promise<number> {
+    if (!(error instanceof RateLimitError)) {
+      return this.routingConfig.retryDelay;
+    }
+
+    const next = await this.selectProvider(request, attempt);
+    const state = next?.getRateLimitState?.();
+    if (next && !state?.throttled) {
+      return 0;
+    }
+    const retryAt = state?.retryAt || error.retryAt;
+    return retryAt ? Math.min(Math.max(0, retryAt.getTime() - Date.now()), MAX_RATE_LIMIT_DELAY) : this.routingConfig.retryDelay;
+  }
+
+  private collectFacts(request: AIRequest, budgetRemaining: number | null): RoutingFacts {
+    const context = request.context || ({} as AIRequest['context']);
+    const text = [request.content, context.assembledContext?.text].filter(Boolean).join('\n');
+
+    return {
+      requestType: request.type,
+      estimatedTokens: TokenizerRegistry.countTokens(text),
+      storyTags: context.storyTags || [],
+      contentRating: context.contentRating,
+      time: RoutingRules.timeOf(new Date()),
+      budgetRemaining,
+      providerHealth: this.getProviderHealth()
+    };
+  }
+
+  // The ledger is only read when a rule looks at the budget
+  private async getBudgetRemaining(request: AIRequest): Promise<number | null> {
+    const needed = this.routingConfig.rules.some(rule => rule.enabled !== false && rule.when?.budgetRemainingBelow !== undefined);
+    if (!needed || !this.usageLedger) {
+      return null;
+    }
+
+    const statuses = await this.usageLedger.getBudgetStatuses(request.context?.storyId, true);
+    return statuses.length > 0 ? Math.min(...statuses.map(status => status.remaining)) : null;
+  }
+
+  getProviderHealth(): Record<string, ProviderHealthState> {
+    const health: Record<string, ProviderHealthState> = {};
+    for (const provider of this.providerRegistry.getAvailableProviders()) {
+      const failures = this.consecutiveFailures.get(provider.name) || 0;
+      health[provider.name] = failures >= UNHEALTHY_AFTER_FAILURES ? 'unhealthy'
+        : provider.getRateLimitState?.()?.throttled ? 'throttled'
+        : failures > 0 ? 'degraded'
+        : 'healthy';
+    }
+    return health;
+  }
+
+  // Feeds the provider health that routing rules can match on. Cancelled,
+  // over-budget and rate-limited requests say nothing about the provider.
+  recordOutcome(provider: AIProvider, request: AIRequest, error?: unknown): void {
+    if (!error) {
+      this.consecutiveFailures.delete(provider.name);
+    } else if (!(error instanceof BudgetExceededError) && !(error instanceof RateLimitError) && !isRequestCancelled(error, request.signal)) {
+      this.consecutiveFailures.set(provider.name, (this.consecutiveFailures.get(provider.name) || 0) + 1);
+    }
   }
 
   private findRoutingRule(requestType: AIRequestType): RoutingRule | null {
-    return this.routingConfig.rules.find(rule => rule.requestType === requestType) || null;
+    const facts = this.collectFacts({
+      type: requestType,
+      content: '',
+      context: { characters: [], genre: [], targetAudience: '' }
+    }, null);
+    return RoutingRules.evaluate(this.routingConfig.rules, facts).matched;
   }
 
   private applyRequestFilters(
     providers: AIProvider[], 
     request: AIRequest, 
-    rule: RoutingRule | null
+    rule: RoutingRule | null,
+    notes: string[] = []
   ): AIProvider[] {
     let filtered = providers;
 
+    // Filter by offline requirement. This is applied first so that no
+    // preference, including the request's own, can send a request to the cloud.
+    const offlineReason = request.options?.requireOffline ? 'the request requires offline providers'
+      : rule?.requireOffline ? 'the matched rule requires offline providers'
+      : !this.configManager.isCloudAIAllowed() ? 'cloud AI is disabled in settings'
+      : null;
+    
+    if (offlineReason) {
+      filtered = filtered.filter(p => p.type !== 'cloud');
+      notes.push(`Cloud providers excluded: ${offlineReason}`);
+    }
+
     // Filter by preferred provider (request level)
     if (request.options?.preferredProvider) {
       const preferred = filtered.find(p => p.name === request.options!.preferredProvider);
-      if (preferred) return [preferred];
+      if (preferred) {
+        notes.push(`Request asked for ${preferred.name}`);
+        return [preferred];
+      }
+      notes.push(`Requested provider ${request.options.preferredProvider} is not available`);
     }
 
-    // Filter by offline requirement
-    const requireOffline = request.options?.requireOffline || 
-                          rule?.requireOffline || 
-                          !this.configManager.isCloudAIAllowed();
-    
-    if (requireOffline) {
-      filtered = filtered.filter(p => p.type !== 'cloud');
+    // An explicit fallback chain is the complete list of providers to try
+    if (rule?.fallbackChain?.length) {
+      const names = [rule.preferredProvider, ...rule.fallbackChain].filter((name): name is string => !!name);
+      const chain: AIProvider[] = [];
+      for (const name of names) {
+        const provider = filtered.find(p => p.name === name);
+        if (!provider) {
+          notes.push(`${name} is in the fallback chain but not available`);
+        } else if (!chain.includes(provider)) {
+          chain.push(provider);
+        }
+      }
+      return chain;
     }
 
     // Filter by preferred provider type (rule level)
@@ -187,6 +274,8 @@ export class AIRouter {
       const typeFiltered = filtered.filter(p => p.type === rule.preferredProviderType);
       if (typeFiltered.length > 0) {
         filtered = typeFiltered;
+      } else {
+        notes.push(`No ${rule.preferredProviderType} provider is available`);
       }
     }
 
@@ -195,10 +284,13 @@ export class AIRouter {
       const nameFiltered = filtered.filter(p => p.name === rule.preferredProvider);
       if (nameFiltered.length > 0) {
         filtered = nameFiltered;
+      } else {
+        notes.push(`Preferred provider ${rule.preferredProvider} is not available`);
       }
     }
 
-    return filtered;
+    // Simple priority-based selection for now
+    return [...filtered].sort((a, b) => b.priority - a.priority);
   }
 
   async executeRequest(request: AIRequest): Promise<AIResponse> {
@@ -208,55 +300,155 @@ export class AIRouter {
 
     while (attempts < maxAttempts) {
       try {
-        const provider = await this.selectProvider(request);
+        throwIfCancelled(request.signal);
+        const provider = await this.selectProvider(request, attempts);
         if (!provider) {
           throw new Error(`No suitable provider available for request type: ${request.type}`);
         }
 
-        // Execute request directly on provider
-        switch (request.type) {
-          case 'prose_generation':
-          case 'dialogue_generation':
-            return provider.generateText(request.content, request.context);
-          case 'story_analysis':
-          case 'plot_hole_detection':
-          case 'pacing_analysis':
-          case 'consistency_check':
-          case 'manuscript_analysis':
-            const analysis = await provider.analyzeStory(request.content);
-            return {
-              content: JSON.stringify(analysis),
-              confidence: analysis.overallScore / 100,
-              metadata: {
-                model: provider.name,
-                provider: provider.name,
-                tokensUsed: 0,
-                responseTime: 0
-              }
-            };
-          case 'character_analysis':
-            const traits = JSON.parse(request.content);
-            const character = await provider.generateCharacter(traits);
-            return {
-              content: JSON.stringify(character),
-              confidence: 0.8,
-              metadata: {
-                model: provider.name,
-                provider: provider.name,
-                tokensUsed: 0,
-                responseTime: 0
-              }
-            };
-          default:
-            return provider.generateText(request.content, request.context);
+        return (await this.executeOn(provider, request)).response;
+      } catch (error) {
+        // Retrying cannot help until the budget resets or is raised, and a
+        // cancelled request is not retried at all
+        if (error instanceof BudgetExceededError) throw error;
+        rethrowIfCancelled(error, request.signal);
+
+        lastError = error instanceof Error ? error : new Error(String(error));
+        attempts++;
+
+        if (attempts < maxAttempts && this.routingConfig.enableFallback) {
+          const delay = await this.getRetryDelay(error, request, attempts);
+          console.warn(`Request attempt ${attempts} failed, retrying in ${delay}ms:`, error);
+          await cancellableDelay(delay, request.signal);
         }
+      }
+    }
+
+    throw lastError || new Error('All retry attempts failed');
+  }
+
+  // A single attempt on the given provider, without retries or fallback: the
+  // budget check, redaction, tools, provider health and usage accounting
+  async executeOn(provider: AIProvider, request: AIRequest): Promise<ProviderAttempt> {
+    try {
+      await this.usageLedger?.assertWithinBudget(provider, request);
+
+      const redaction = await this.redact(provider, request);
+      provider.setTools?.(redaction.wrapTools(this.tools));
+      const response = redaction.restoreResponse(await this.executeOnProvider(provider, redaction.request));
+      this.recordOutcome(provider, request);
+      const usage = await this.usageLedger?.record(provider, request, response) ?? null;
+      return { response, usage };
+    } catch (error) {
+      this.recordOutcome(provider, request, error);
+      throw error;
+    }
+  }
+
+  private redact(provider: AIProvider, request: AIRequest): Promise<Redaction> {
+    return this.cloudRedactor ? this.cloudRedactor.redact(provider, request) : Promise.resolve(Redaction.none(request));
+  }
+
+  private async executeOnProvider(provider: AIProvider, request: AIRequest): Promise<AIResponse> {
+    switch (request.type) {
+      case 'prose_generation':
+      case 'dialogue_generation':
+        return provider.generateText(request.content, request.context, request.signal);
+      case 'infill':
+        return Infill.execute(provider, request);
+      case 'story_analysis':
+      case 'plot_hole_detection':
+      case 'pacing_analysis':
+      case 'consistency_check':
+      case 'manuscript_analysis':
+        const analysis = await provider.analyzeStory(request.content, request.signal);
+        return {
+          content: JSON.stringify(analysis),
+          confidence: analysis.overallScore / 100,
+          metadata: {
+            model: provider.name,
+            provider: provider.name,
+            tokensUsed: 0,
+            responseTime: 0
+          }
+        };
+      case 'character_analysis':
+        const traits = JSON.parse(request.content);
+        const character = await provider.generateCharacter(traits, request.signal);
+        return {
+          content: JSON.stringify(character),
+          confidence: 0.8,
+          metadata: {
+            model: provider.name,
+            provider: provider.name,
+            tokensUsed: 0,
+            responseTime: 0
+          }
+        };
+      default:
+        return provider.generateText(request.content, request.context, request.signal);
+    }
+  }
+
+  // Streams generated text from the selected provider. Failures before the
+  // first chunk are retried like executeRequest; after that the error goes to
+  // the caller, because retrying would repeat text it has already received.
+  async *executeStream(request: AIRequest): AsyncGenerator<AIStreamChunk> {
+    // Analysis results are structured JSON, so they arrive as a single chunk
+    if (this.isStructuredRequest(request.type)) {
+      yield* this.streamFromResponse(this.executeRequest(request));
+      return;
+    }
+
+    let lastError: Error | null = null;
+    let attempts = 0;
+    const maxAttempts = this.routingConfig.maxRetries + 1;
+
+    while (attempts < maxAttempts) {
+      let started = false;
+      let provider: AIProvider | null = null;
+
+      try {
+        throwIfCancelled(request.signal);
+        provider = await this.selectProvider(request, attempts);
+        if (!provider) {
+          throw new Error(`No suitable provider available for request type: ${request.type}`);
+        }
+
+        await this.usageLedger?.assertWithinBudget(provider, request);
+
+        const redaction = await this.redact(provider, request);
+        provider.setTools?.(redaction.wrapTools(this.tools));
+        const sent = redaction.request;
+        const stream = redaction.restoreStream(provider.generateTextStream
+          ? provider.generateTextStream(sent.content, sent.context, sent.signal)
+          : this.streamFromResponse(provider.generateText(sent.content, sent.context, sent.signal)));
+
+        let content = '';
+        for await (const chunk of stream) {
+          // Stops streams from providers that do not watch the signal themselves
+          throwIfCancelled(request.signal);
+          started = true;
+          content += chunk.content;
+          if (chunk.done) {
+            this.recordOutcome(provider, request);
+            await this.recordStream(provider, request, content, chunk);
+          }
+          yield chunk;
+        }
+        return;
       } catch (error) {
+        if (provider) this.recordOutcome(provider, request, error);
+        rethrowIfCancelled(error, request.signal);
+        if (started || error instanceof BudgetExceededError) throw error;
+
         lastError = error instanceof Error ? error : new Error(String(error));
         attempts++;
 
         if (attempts < maxAttempts && this.routingConfig.enableFallback) {
-          console.warn(`Request attempt ${attempts} failed, retrying in ${this.routingConfig.retryDelay}ms:`, error);
-          await this.delay(this.routingConfig.retryDelay);
+          const delay = await this.getRetryDelay(error, request, attempts);
+          console.warn(`Stream attempt ${attempts} failed, retrying in ${delay}ms:`, error);
+          await cancellableDelay(delay, request.signal);
         }
       }
     }
@@ -264,8 +456,41 @@ export class AIRouter {
     throw lastError || new Error('All retry attempts failed');
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async recordStream(provider: AIProvider, request: AIRequest, content: string, finalChunk: AIStreamChunk): Promise<void> {
+    if (!this.usageLedger) {
+      return;
+    }
+
+    await this.usageLedger.record(provider, request, {
+      content,
+      text: content,
+      confidence: 0,
+      metadata: {
+        model: provider.name,
+        provider: provider.name,
+        tokensUsed: 0,
+        responseTime: 0,
+        ...finalChunk.metadata
+      }
+    });
+  }
+
+  private isStructuredRequest(requestType: AIRequestType): boolean {
+    return [
+      'story_analysis',
+      'plot_hole_detection',
+      'pacing_analysis',
+      'consistency_check',
+      'manuscript_analysis',
+      'character_analysis'
+    ].includes(requestType);
+  }
+
+  // Adapts a finished response to the streaming interface
+  private async *streamFromResponse(pending: Promise<AIResponse>): AsyncGenerator<AIStreamChunk> {
+    const response = await pending;
+    yield { content: response.content, done: false };
+    yield { content: '', done: true, metadata: response.metadata };
   }
 
   getAvailableProviders(): AIProvider[] {
@@ -287,24 +512,31 @@ export class AIRouter {
     console.log('Routing configuration updated');
   }
 
-  addRoutingRule(rule: RoutingRule): void {
-    // Remove existing rule for the same request type
-    this.routingConfig.rules = this.routingConfig.rules.filter(
-      r => r.requestType !== rule.requestType
-    );
+  // Rules are evaluated in order, so a conditional rule meant to override a
+  // request type's usual routing needs a position ahead of that type's rule.
+  // A rule replaces the one with the same id, or without ids, the unconditional
+  // rule for the same request type.
+  addRoutingRule(rule: RoutingRule, position?: number): void {
+    const replaces = (existing: RoutingRule) => rule.id
+      ? existing.id === rule.id
+      : !existing.id && !rule.when && !existing.when && existing.requestType === rule.requestType;
+
+    this.routingConfig.rules = this.routingConfig.rules.filter(r => !replaces(r));
     
     // Add new rule
-    this.routingConfig.rules.push(rule);
+    const index = position === undefined ? this.routingConfig.rules.length : Math.max(0, Math.min(position, this.routingConfig.rules.length));
+    this.routingConfig.rules.splice(index, 0, rule);
     this.configManager.set('aiRouting', this.routingConfig);
-    console.log(`Added routing rule for ${rule.requestType}`);
+    console.log(`Added routing rule ${rule.id || `for ${rule.requestType || 'all requests'}`}`);
   }
 
-  removeRoutingRule(requestType: AIRequestType): void {
+  // Removes the rule with this id, or every rule for this request type
+  removeRoutingRule(idOrRequestType: string): void {
     this.routingConfig.rules = this.routingConfig.rules.filter(
-      r => r.requestType !== requestType
+      r => r.id !== idOrRequestType && r.requestType !== idOrRequestType
     );
     this.configManager.set('aiRouting', this.routingConfig);
-    console.log(`Removed routing rule for ${requestType}`);
+    console.log(`Removed routing rule for ${idOrRequestType}`);
   }
 
   getRoutingConfig(): RoutingConfig {
@@ -412,15 +644,16 @@ export class AIRouter {
       };
     }
 
-    // Simple priority-based selection
-    candidates.sort((a, b) => b.priority - a.priority);
     const recommended = candidates[0];
 
     const alternatives = candidates
       .filter(p => p.name !== recommended?.name)
       .map(p => p.name);
 
-    let reasoning = `Selected using priority strategy`;
+    let reasoning = rule?.fallbackChain?.length ? `Selected from the fallback chain` : `Selected using priority strategy`;
+    if (rule?.id) {
+      reasoning += `, rule: ${rule.id}`;
+    }
     if (rule?.preferredProviderType) {
       reasoning += `, preferred type: ${rule.preferredProviderType}`;
     }
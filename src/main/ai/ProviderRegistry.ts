@@ -4,9 +4,15 @@ import {
   AIResponse, 
   AIRequestType, 
   ProviderConfig,
-  AICapability
+  AICapability,
+  CircuitBreakerOptions,
+  CircuitBreakerSnapshot,
+  RateLimitState
 } from '../../shared/types/AI';
 import { ConfigManager } from '../config/ConfigManager';
+import { RequestCancelledError, isRequestCancelled, throwIfCancelled } from './RequestCancellation';
+import { CircuitBreaker, CircuitOpenError } from './health/CircuitBreaker';
+import { RateLimitError } from './health/RateLimiter';
 
 export interface ProviderRegistration {
   provider: AIProvider;
@@ -22,18 +28,25 @@ export interface ProviderMetrics {
   totalRequests: number;
   successfulRequests: number;
   failedRequests: number;
+  cancelledRequests: number; // cancelled by the caller; not counted as failures
+  rateLimitedRequests: number; // refused by the provider's rate limits; not counted as failures
   averageResponseTime: number;
   lastRequestTime?: Date;
+  circuit?: CircuitBreakerSnapshot; // filled in when metrics are read
+  rateLimit?: RateLimitState; // filled in when metrics are read
 }
 
 export class ProviderRegistry {
   private providers: Map<string, ProviderRegistration> = new Map();
   private metrics: Map<string, ProviderMetrics> = new Map();
+  private breakers: Map<string, CircuitBreaker> = new Map();
   private configManager: ConfigManager;
+  private circuitBreakerOptions: Partial<CircuitBreakerOptions>;
   private healthCheckInterval?: NodeJS.Timeout;
 
-  constructor(configManager: ConfigManager) {
+  constructor(configManager: ConfigManager, circuitBreakerOptions: Partial<CircuitBreakerOptions> = {}) {
     this.configManager = configManager;
+    this.circuitBreakerOptions = circuitBreakerOptions;
   }
 
   async initialize(): Promise<void> {
@@ -99,8 +112,11 @@ export class ProviderRegistry {
         totalRequests: 0,
         successfulRequests: 0,
         failedRequests: 0,
+        cancelledRequests: 0,
+        rateLimitedRequests: 0,
         averageResponseTime: 0
       });
+      this.breakers.set(provider.name, new CircuitBreaker(provider.name, this.circuitBreakerOptions));
 
       // Perform initial health check
       await this.checkProviderHealth(provider.name);
@@ -123,6 +139,7 @@ export class ProviderRegistry {
       
       this.providers.delete(providerName);
       this.metrics.delete(providerName);
+      this.breakers.delete(providerName);
       
       console.log(`Unregistered provider: ${providerName}`);
     }
@@ -133,9 +150,10 @@ export class ProviderRegistry {
     return registration?.enabled ? registration.provider : null;
   }
 
+  // Providers with an open circuit are left out until their cool-down ends
   getAvailableProviders(): AIProvider[] {
     return Array.from(this.providers.values())
-      .filter(reg => reg.enabled && reg.provider.isAvailable())
+      .filter(reg => reg.enabled && reg.provider.isAvailable() && this.isCallPermitted(reg.provider.name))
       .map(reg => reg.provider);
   }
 
@@ -153,6 +171,7 @@ export class ProviderRegistry {
     const registration = this.providers.get(providerName);
     if (registration) {
       registration.enabled = true;
+      this.breakers.get(providerName)?.reset();
       await this.checkProviderHealth(providerName);
       console.log(`Enabled provider: ${providerName}`);
     }
@@ -181,6 +200,12 @@ export class ProviderRegistry {
 
     const provider = registration.provider;
     const metrics = this.metrics.get(providerName)!;
+    const breaker = this.breakers.get(providerName)!;
+
+    // Fail at once rather than waiting for another timeout
+    if (!breaker.tryAcquire()) {
+      throw new CircuitOpenError(providerName, breaker.snapshot().retryAt);
+    }
     
     const startTime = Date.now();
     
@@ -188,6 +213,7 @@ export class ProviderRegistry {
       // Update metrics
       metrics.totalRequests++;
       metrics.lastRequestTime = new Date();
+      throwIfCancelled(request.signal);
 
       // Execute the request based on type
       let response: AIResponse;
@@ -195,13 +221,13 @@ export class ProviderRegistry {
       switch (request.type) {
         case 'prose_generation':
         case 'dialogue_generation':
-          response = await provider.generateText(request.content, request.context);
+          response = await provider.generateText(request.content, request.context, request.signal);
           break;
         case 'story_analysis':
         case 'plot_hole_detection':
         case 'pacing_analysis':
         case 'consistency_check':
-          const analysis = await provider.analyzeStory(request.content);
+          const analysis = await provider.analyzeStory(request.content, request.signal);
           response = {
             content: JSON.stringify(analysis),
             confidence: analysis.overallScore / 100,
@@ -216,7 +242,7 @@ export class ProviderRegistry {
         case 'character_analysis':
           // Extract character traits from request content
           const traits = JSON.parse(request.content);
-          const character = await provider.generateCharacter(traits);
+          const character = await provider.generateCharacter(traits, request.signal);
           response = {
             content: JSON.stringify(character),
             confidence: 0.8,
@@ -230,7 +256,7 @@ export class ProviderRegistry {
           break;
         default:
           // Default to text generation for other types
-          response = await provider.generateText(request.content, request.context);
+          response = await provider.generateText(request.content, request.context, request.signal);
       }
 
       // Update success metrics
@@ -242,9 +268,27 @@ export class ProviderRegistry {
 
       // Reset error count on successful request
       registration.errorCount = 0;
+      breaker.recordSuccess(responseTime);
+      this.updateHealthFromCircuit(registration);
 
       return response;
     } catch (error) {
+      // A cancelled request says nothing about the provider's health
+      if (isRequestCancelled(error, request.signal)) {
+        breaker.release();
+        metrics.cancelledRequests++;
+        console.log(`Provider ${providerName} request cancelled`);
+        throw error instanceof RequestCancelledError ? error : new RequestCancelledError();
+      }
+
+      // A rate-limited provider is busy, not broken
+      if (error instanceof RateLimitError) {
+        breaker.release();
+        metrics.rateLimitedRequests++;
+        console.warn(`Provider ${providerName} request rate limited:`, error.message);
+        throw error;
+      }
+
       // Update failure metrics
       metrics.failedRequests++;
       registration.errorCount++;
@@ -256,6 +300,8 @@ export class ProviderRegistry {
       } else if (registration.errorCount >= 1) {
         registration.healthStatus = 'degraded';
       }
+      breaker.recordFailure();
+      this.updateHealthFromCircuit(registration);
 
       console.error(`Provider ${providerName} request failed:`, error);
       throw error;
@@ -266,6 +312,16 @@ export class ProviderRegistry {
     const registration = this.providers.get(providerName);
     if (!registration) return;
 
+    // An open circuit is left alone until its cool-down ends; the check
+    // after that is the probe that decides whether it closes
+    const breaker = this.breakers.get(providerName);
+    if (breaker && registration.provider.isAvailable() && !breaker.tryAcquire()) {
+      registration.healthStatus = 'unhealthy';
+      registration.lastHealthCheck = new Date();
+      return;
+    }
+
+    const startTime = Date.now();
     try {
       const isAvailable = registration.provider.isAvailable();
       
@@ -279,13 +335,17 @@ export class ProviderRegistry {
         if (testResponse && testResponse.content) {
           registration.healthStatus = 'healthy';
           registration.errorCount = 0;
+          breaker?.recordSuccess(Date.now() - startTime);
         } else {
           registration.healthStatus = 'degraded';
+          breaker?.release();
         }
+        if (breaker) this.updateHealthFromCircuit(registration);
       } else {
         registration.healthStatus = 'unhealthy';
       }
     } catch (error) {
+      breaker?.recordFailure();
       registration.healthStatus = 'unhealthy';
       registration.lastError = error instanceof Error ? error.message : String(error);
       console.warn(`Health check failed for provider ${providerName}:`, error);
@@ -294,6 +354,24 @@ export class ProviderRegistry {
     registration.lastHealthCheck = new Date();
   }
 
+  // An open circuit overrides the error-count health; a half-open one is at best degraded
+  private updateHealthFromCircuit(registration: ProviderRegistration): void {
+    const state = this.breakers.get(registration.provider.name)?.getState();
+    if (state === 'open') {
+      registration.healthStatus = 'unhealthy';
+    } else if (state === 'half-open' && registration.healthStatus === 'healthy') {
+      registration.healthStatus = 'degraded';
+    }
+  }
+
+  isCallPermitted(providerName: string): boolean {
+    return this.breakers.get(providerName)?.isCallPermitted() ?? true;
+  }
+
+  getCircuitState(providerName: string): CircuitBreakerSnapshot | null {
+    return this.breakers.get(providerName)?.snapshot() || null;
+  }
+
   private startHealthChecking(): void {
     // Check provider health every 5 minutes
     this.healthCheckInterval = setInterval(async () => {
@@ -308,7 +386,15 @@ export class ProviderRegistry {
   }
 
   getProviderMetrics(providerName: string): ProviderMetrics | null {
-    return this.metrics.get(providerName) || null;
+    const metrics = this.metrics.get(providerName);
+    if (!metrics) {
+      return null;
+    }
+    return {
+      ...metrics,
+      circuit: this.getCircuitState(providerName) || undefined,
+      rateLimit: this.providers.get(providerName)?.provider.getRateLimitState?.()
+    };
   }
 
   getAllProviderStatuses(): Map<string, ProviderRegistration> {
@@ -316,7 +402,7 @@ export class ProviderRegistry {
   }
 
   getAllProviderMetrics(): Map<string, ProviderMetrics> {
-    return new Map(this.metrics);
+    return new Map(Array.from(this.metrics.keys()).map(name => [name, this.getProviderMetrics(name)!]));
   }
 
   async shutdown(): Promise<void> {
@@ -338,6 +424,7 @@ export class ProviderRegistry {
     
     this.providers.clear();
     this.metrics.clear();
+    this.breakers.clear();
     
     console.log('Provider registry shutdown complete');
   }
@@ -423,6 +510,9 @@ export class PerformanceBasedStrategy implements ProviderSelectionStrategy {
       candidates = candidates.filter(p => p.type !== 'cloud');
     }
 
+    // Providers whose circuit is open would only fail fast
+    candidates = candidates.filter(p => metrics.get(p.name)?.circuit?.state !== 'open');
+
     if (candidates.length === 0) return null;
 
     // Select provider with best success rate and response time
@@ -442,13 +532,22 @@ export class PerformanceBasedStrategy implements ProviderSelectionStrategy {
 
   private calculatePerformanceScore(provider: AIProvider, metrics: Map<string, ProviderMetrics>): number {
     const metric = metrics.get(provider.name);
+
+    // A provider still on probation, or one that would have to queue for its
+    // rate limits, is only chosen when nothing else is left
+    if (metric?.circuit?.state === 'half-open' || metric?.rateLimit?.throttled) {
+      return -1;
+    }
+
     if (!metric || metric.totalRequests === 0) {
       return provider.priority; // Fallback to priority for new providers
     }
 
     const successRate = metric.successfulRequests / metric.totalRequests;
     const responseTimeScore = Math.max(0, 1 - (metric.averageResponseTime / 10000)); // Normalize to 0-1
-    
-    return (successRate * 0.7 + responseTimeScore * 0.3) * 100 + provider.priority;
+    const score = (successRate * 0.7 + responseTimeScore * 0.3) * 100 + provider.priority;
+
+    // Recent failures count against a provider before they show in its lifetime success rate
+    return score * (1 - (metric.circuit?.failureRate || 0) / 2);
   }
 }
\ No newline at end of file
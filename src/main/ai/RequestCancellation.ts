@@ -0,0 +1,62 @@
+// Cancellation for AI requests. Callers put an AbortSignal on the request; it
+// is checked between routing steps and passed to each provider's HTTP call.
+
+export class RequestCancelledError extends Error {
+  constructor(message = 'Request cancelled') {
+    super(message);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+// True for RequestCancelledError, and for any error raised once the signal
+// has aborted (a fetch AbortError, or a stream read cut off part way through)
+export function isRequestCancelled(error: unknown, signal?: AbortSignal): boolean {
+  return error instanceof RequestCancelledError || Boolean(signal?.aborted);
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new RequestCancelledError();
+  }
+}
+
+// For catch blocks: rethrows cancellations as RequestCancelledError and
+// ignores any other error
+export function rethrowIfCancelled(error: unknown, signal?: AbortSignal): void {
+  if (isRequestCancelled(error, signal)) {
+    throw error instanceof RequestCancelledError ? error : new RequestCancelledError();
+  }
+}
+
+// Aborts the controller when the caller's signal aborts, so a request with its
+// own timeout controller also stops when the caller cancels
+export function linkAbortSignal(controller: AbortController, signal?: AbortSignal): void {
+  if (!signal) {
+    return;
+  }
+  if (signal.aborted) {
+    controller.abort();
+    return;
+  }
+  signal.addEventListener('abort', () => controller.abort(), { once: true });
+}
+
+// Waits like setTimeout, but rejects with RequestCancelledError as soon as the signal aborts
+export function cancellableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,5 +1,6 @@
 import { AIEngine } from '../AIEngine';
 import { ConfigManager } from '../../config/ConfigManager';
+import { RateLimitError } from '../health/RateLimiter';
 import { AIProvider, AIRequest, StoryContext, ProviderConfig, AICapability } from '../../../shared/types/AI';
 
 // Mock provider for testing
@@ -270,6 +271,247 @@ describe('AIEngine', () => {
     });
   });
 
+  describe('failover', () => {
+    const context: StoryContext = { characters: [], genre: [], targetAudience: '' };
+    let primary: MockProvider;
+    let backup: MockProvider;
+
+    beforeEach(async () => {
+      await engine.initialize();
+      primary = Object.assign(new MockProvider(), { name: 'primary', priority: 10 });
+      backup = Object.assign(new MockProvider(), { name: 'backup', priority: 1 });
+      const providers = [primary, backup];
+      jest.spyOn((engine as any).providerRegistry, 'getAvailableProviders').mockReturnValue(providers);
+      jest.spyOn((engine as any).providerRegistry, 'getProvider').mockImplementation((name: any) => providers.find(p => p.name === name));
+    });
+
+    it('should answer from the next provider in the fallback chain when the preferred one fails', async () => {
+      (engine as any).router.updateRoutingConfig({ retryDelay: 1 });
+      (engine as any).router.addRoutingRule({
+        id: 'prose-chain',
+        requestType: 'prose_generation',
+        preferredProvider: 'primary',
+        fallbackChain: ['backup'],
+        fallbackStrategy: 'priority'
+      }, 0);
+      const primaryCall = jest.spyOn(primary, 'generateText').mockRejectedValue(new Error('Model crashed'));
+      const completed = jest.fn();
+      engine.on('request-completed', completed);
+
+      const response = await engine.generateText('Open on the harbour', context);
+
+      expect(primaryCall).toHaveBeenCalledTimes(1);
+      expect(response.metadata.provider).toBe('backup');
+      expect(completed).toHaveBeenCalledWith(expect.objectContaining({ content: 'Open on the harbour' }), response, backup);
+    });
+
+    it('should move to another provider at once when one is rate limited', async () => {
+      (engine as any).router.updateRoutingConfig({ retryDelay: 60000 });
+      const retryAt = new Date(Date.now() + 30000);
+      jest.spyOn(primary, 'generateText').mockImplementationOnce(async () => {
+        (primary as any).getRateLimitState = () => ({ throttled: true, retryAt, queued: 0 });
+        throw new RateLimitError('primary', retryAt);
+      });
+
+      const response = await engine.generateText('Open on the harbour', context);
+
+      expect(response.metadata.provider).toBe('backup');
+      expect((engine as any).router.getProviderHealth()['primary']).toBe('throttled');
+    });
+  });
+
+  describe('retrieval', () => {
+    const passage = (id: string, sceneId: string) => ({
+      id, storyId: 'story-1', type: 'scene' as const, label: id, text: 'The lamp sputtered.', score: 1, sceneId
+    });
+    let query: jest.Mock;
+    let provider: MockProvider;
+
+    beforeEach(async () => {
+      await engine.initialize();
+      provider = new MockProvider();
+      jest.spyOn((engine as any).providerRegistry, 'getAvailableProviders').mockReturnValue([provider]);
+      query = jest.fn().mockResolvedValue([passage('scene:s-1:0', 's-1')]);
+      engine.setRetrievalIndex({ query } as any);
+    });
+
+    it('should attach passages and citations when a request asks for retrieval', async () => {
+      const generateText = jest.spyOn(provider, 'generateText');
+      const context: StoryContext = { storyId: 'story-1', currentScene: 's-3', characters: [], genre: [], targetAudience: '' };
+
+      const response = await engine.generateText('the lamp', context, { retrieval: { topK: 3 } });
+
+      expect(query).toHaveBeenCalledWith('the lamp', { topK: 3, storyId: 'story-1', excludeSceneIds: ['s-3'] });
+      expect(generateText.mock.calls[0][1].retrievedPassages).toEqual([passage('scene:s-1:0', 's-1')]);
+      expect(response.citations).toEqual([passage('scene:s-1:0', 's-1')]);
+      expect(context.retrievedPassages).toBeUndefined();
+    });
+
+    it('should not retrieve unless asked', async () => {
+      const response = await engine.generateText('the lamp', { characters: [], genre: [], targetAudience: '' });
+
+      expect(query).not.toHaveBeenCalled();
+      expect(response.citations).toBeUndefined();
+    });
+  });
+
+  describe('provider comparison', () => {
+    const request: AIRequest = {
+      type: 'prose_generation',
+      content: 'Open on the harbour',
+      context: { characters: [], genre: [], targetAudience: '' }
+    };
+    let providers: { [name: string]: MockProvider };
+
+    beforeEach(async () => {
+      await engine.initialize();
+      providers = {};
+      for (const name of ['local-a', 'cloud-b', 'broken-c']) {
+        providers[name] = Object.assign(new MockProvider(), { name });
+      }
+      jest.spyOn(providers['broken-c'], 'generateText').mockRejectedValue(new Error('Model crashed'));
+      jest.spyOn((engine as any).providerRegistry, 'getProvider').mockImplementation((name: any) => providers[name]);
+    });
+
+    it('should return every answer in provider order, with failures reported per provider', async () => {
+      const comparison = await engine.compareProviders(request, ['cloud-b', 'broken-c', 'local-a']);
+
+      expect(comparison.results.map(result => [result.provider, result.response?.content, result.error])).toEqual([
+        ['cloud-b', 'Generated: Open on the harbour', undefined],
+        ['broken-c', undefined, 'Model crashed'],
+        ['local-a', 'Generated: Open on the harbour', undefined]
+      ]);
+      expect(comparison.results[0]).toMatchObject({ model: 'test-model', outputTokens: 10 });
+      expect(engine.getComparison(comparison.id)).toBe(comparison);
+    });
+
+    it('should take token counts and cost from the usage ledger', async () => {
+      const record = jest.fn().mockResolvedValue({ model: 'gpt-4o', inputTokens: 120, outputTokens: 80, cost: 0.0011 });
+      engine.setUsageLedger({ record, assertWithinBudget: jest.fn() } as any);
+
+      const comparison = await engine.compareProviders(request, ['local-a', 'cloud-b']);
+
+      expect(record).toHaveBeenCalledTimes(2);
+      expect(comparison.results[1]).toMatchObject({ model: 'gpt-4o', inputTokens: 120, outputTokens: 80, cost: 0.0011 });
+    });
+
+    it('should refuse too few or unknown providers', async () => {
+      await expect(engine.compareProviders(request, ['local-a', 'local-a'])).rejects.toThrow('between 2 and 4 providers');
+      await expect(engine.compareProviders(request, ['local-a', 'missing'])).rejects.toThrow('Provider missing not found');
+    });
+
+    it('should record the chosen answer as preference feedback', async () => {
+      const collectFeedback = jest.fn().mockResolvedValueOnce('fb-1').mockResolvedValueOnce('fb-2');
+      engine.setContinuousImprovement({ collectFeedback } as any);
+      const comparison = await engine.compareProviders(request, ['local-a', 'cloud-b', 'broken-c']);
+
+      const feedbackIds = await engine.recordComparisonChoice(comparison.id, 'cloud-b', { comment: 'Tighter' });
+
+      expect(feedbackIds).toEqual(['fb-1', 'fb-2']);
+      expect(collectFeedback.mock.calls.map(([feedback]) => [feedback.metadata.provider, feedback.rating, feedback.comment]))
+        .toEqual([['local-a', 2, undefined], ['cloud-b', 5, 'Tighter']]);
+      expect(collectFeedback.mock.calls[1][0]).toMatchObject({
+        category: 'comparison',
+        taskType: 'prose_generation',
+        metadata: { comparisonId: comparison.id, chosen: true, comparedWith: ['local-a'] }
+      });
+      expect(engine.getComparison(comparison.id)?.chosenProvider).toBe('cloud-b');
+      await expect(engine.recordComparisonChoice(comparison.id, 'broken-c')).rejects.toThrow('has no answer');
+    });
+  });
+
+  describe('infill', () => {
+    beforeEach(async () => {
+      await engine.initialize();
+    });
+
+    it('should send the text around the cursor and return a suggestion ready to insert', async () => {
+      const routeRequest = jest.spyOn(engine, 'routeRequest').mockResolvedValue({
+        content: 'She turned the key and pushed the door open.',
+        text: '',
+        confidence: 0.8,
+        metadata: { model: 'llama3', provider: 'Ollama', tokensUsed: 12, responseTime: 40, infill: 'emulated' }
+      });
+      const prefix = 'She turned the key. The lock was stiff, and she leaned on it. She turned the key and';
+
+      const suggestion = await engine.generateInfill(
+        { prefix, suffix: ' The room beyond was dark.' },
+        { characters: [], genre: [], targetAudience: '' }
+      );
+
+      expect(suggestion).toEqual({
+        text: ' pushed the door open.',
+        native: false,
+        provider: 'Ollama',
+        model: 'llama3',
+        tense: 'past',
+        pov: 'third'
+      });
+      const request = routeRequest.mock.calls[0][0];
+      expect(request).toMatchObject({
+        type: 'infill',
+        infill: { prefix, suffix: ' The room beyond was dark.', maxTokens: 60 },
+        options: { maxTokens: 60 }
+      });
+      expect(request.content).toContain('- Keep to the past tense, third-person point of view used in the passage.');
+    });
+  });
+
+  describe('voiced dialogue', () => {
+    const voice = (formalityLevel: number, vocabulary: string[]) => ({
+      vocabulary, speechPatterns: [], commonPhrases: [], formalityLevel, emotionalRange: []
+    });
+    const traits = { personality: [], motivations: [], fears: [], strengths: [], weaknesses: [], quirks: [] };
+    const characters = [
+      { id: 'char-1', name: 'Lord Ashby', traits, voiceProfile: voice(9, ['indeed']) },
+      { id: 'char-2', name: 'Kit', traits, voiceProfile: voice(2, ['mate']) }
+    ] as any[];
+    const reply = (value: any) => ({ content: JSON.stringify(value) } as any);
+    let routeRequest: jest.SpyInstance;
+
+    beforeEach(async () => {
+      await engine.initialize();
+      routeRequest = jest.spyOn(engine, 'routeRequest');
+    });
+
+    it('should attribute and score each line, rewriting only the speaker who drifted', async () => {
+      routeRequest
+        .mockResolvedValueOnce(reply({ lines: [
+          { speaker: 'kit', text: "Oi mate, we're late." },
+          { speaker: 'Lord Ashby', text: "Yeah, gonna grab my stuff." }
+        ] }))
+        .mockResolvedValueOnce(reply({ lines: [{ index: 2, text: 'Indeed, I shall retrieve my belongings presently.' }] }));
+
+      const dialogue = await engine.generateDialogue('They leave the inn', characters, { genre: ['fantasy'] });
+
+      expect(dialogue.lines.map(line => [line.speaker, line.characterId, line.text, !!line.regenerated])).toEqual([
+        ['Kit', 'char-2', "Oi mate, we're late.", false],
+        ['Lord Ashby', 'char-1', 'Indeed, I shall retrieve my belongings presently.', true]
+      ]);
+      expect(dialogue.lines.every(line => line.voiceMatch! >= 0.6)).toBe(true);
+      expect(dialogue).toMatchObject({ regeneratedSpeakers: ['Lord Ashby'], rounds: 1 });
+      expect(routeRequest.mock.calls[0][0]).toMatchObject({
+        type: 'dialogue_generation',
+        context: { characters, genre: ['fantasy'] }
+      });
+      expect(routeRequest.mock.calls[1][0].content).toContain('Lines to rewrite: 2');
+    });
+
+    it('should keep the original line when a rewrite scores no better, and stop after maxRegenerations', async () => {
+      const drifting = { lines: [{ speaker: 'Lord Ashby', text: 'Yeah, gonna grab my stuff.' }] };
+      routeRequest
+        .mockResolvedValueOnce(reply(drifting))
+        .mockResolvedValue(reply({ lines: [{ index: 1, text: 'Yeah nah, gonna grab stuff.' }] }));
+
+      const dialogue = await engine.generateDialogue('They leave the inn', characters, {}, { maxRegenerations: 1 });
+
+      expect(dialogue.lines[0]).toMatchObject({ text: 'Yeah, gonna grab my stuff.' });
+      expect(dialogue.lines[0].regenerated).toBeUndefined();
+      expect(dialogue).toMatchObject({ regeneratedSpeakers: [], rounds: 1 });
+      expect(routeRequest).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('provider management', () => {
     beforeEach(async () => {
       await engine.initialize();
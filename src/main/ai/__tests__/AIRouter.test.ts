@@ -1,5 +1,9 @@
 import { AIRouter, RoutingRule } from '../AIRouter';
 import { ProviderRegistry } from '../ProviderRegistry';
+import { BudgetExceededError } from '../usage/UsageLedger';
+import { RequestCancelledError } from '../RequestCancellation';
+import { RateLimitError } from '../health/RateLimiter';
+import { CloudRedactor } from '../privacy/CloudRedactor';
 import { ConfigManager } from '../../config/ConfigManager';
 import { AIProvider, AIRequest, ProviderConfig, AICapability } from '../../../shared/types/AI';
 
@@ -421,6 +425,344 @@ describe('AIRouter', () => {
     });
   });
 
+  describe('streaming', () => {
+    const request: AIRequest = {
+      type: 'prose_generation',
+      content: 'Test story',
+      context: { characters: [], genre: [], targetAudience: '' }
+    };
+
+    const collect = async (stream: AsyncIterable<any>) => {
+      const chunks: any[] = [];
+      for await (const chunk of stream) chunks.push(chunk);
+      return chunks;
+    };
+
+    beforeEach(() => {
+      router.updateRoutingConfig({ retryDelay: 1 });
+    });
+
+    it('should adapt providers without streaming support to a single chunk', async () => {
+      const chunks = await collect(router.executeStream(request));
+
+      expect(chunks).toHaveLength(2);
+      expect(chunks[0]).toEqual({ content: 'Cloud: Test story', done: false });
+      expect(chunks[1]).toMatchObject({ content: '', done: true, metadata: { provider: 'OpenAI GPT-4' } });
+    });
+
+    it('should forward chunks from streaming providers', async () => {
+      (cloudProvider as any).generateTextStream = async function* () {
+        yield { content: 'Once', done: false };
+        yield { content: ' upon', done: false };
+        yield { content: '', done: true };
+      };
+
+      const chunks = await collect(router.executeStream(request));
+
+      expect(chunks.map(chunk => chunk.content).join('')).toBe('Once upon');
+      expect(chunks[chunks.length - 1].done).toBe(true);
+    });
+
+    it('should retry when a stream fails before the first chunk', async () => {
+      let calls = 0;
+      (cloudProvider as any).generateTextStream = async function* () {
+        calls++;
+        if (calls === 1) throw new Error('connection refused');
+        yield { content: 'Recovered', done: false };
+        yield { content: '', done: true };
+      };
+
+      const chunks = await collect(router.executeStream(request));
+
+      expect(calls).toBe(2);
+      expect(chunks[0].content).toBe('Recovered');
+    });
+
+    it('should not retry once chunks have been emitted', async () => {
+      let calls = 0;
+      (cloudProvider as any).generateTextStream = async function* () {
+        calls++;
+        yield { content: 'Partial', done: false };
+        throw new Error('connection reset');
+      };
+
+      const received: string[] = [];
+      await expect((async () => {
+        for await (const chunk of router.executeStream(request)) received.push(chunk.content);
+      })()).rejects.toThrow('connection reset');
+
+      expect(calls).toBe(1);
+      expect(received).toEqual(['Partial']);
+    });
+  });
+
+  describe('cloud redaction', () => {
+    const request: AIRequest = {
+      type: 'prose_generation',
+      content: 'Margaret wrote to margaret@example.com',
+      context: { characters: [], genre: [], targetAudience: '' }
+    };
+
+    beforeEach(() => {
+      const privacy = { redactCloudRequests: true, redactedNames: ['Margaret'] };
+      router.setCloudRedactor(new CloudRedactor({ get: () => privacy } as any));
+    });
+
+    it('should send placeholders to cloud providers and restore them in the response', async () => {
+      const generateText = jest.spyOn(cloudProvider, 'generateText');
+
+      const response = await router.executeRequest(request);
+
+      expect(generateText.mock.calls[0][0]).toBe('[PERSON_1] wrote to [EMAIL_1]');
+      expect(response.content).toBe('Cloud: Margaret wrote to margaret@example.com');
+    });
+
+    it('should restore placeholders in streamed chunks', async () => {
+      let prompt = '';
+      (cloudProvider as any).generateTextStream = async function* (content: string) {
+        prompt = content;
+        yield { content: 'Dear [PERS', done: false };
+        yield { content: 'ON_1],', done: false };
+        yield { content: '', done: true };
+      };
+
+      const chunks: string[] = [];
+      for await (const chunk of router.executeStream(request)) chunks.push(chunk.content);
+
+      expect(prompt).toBe('[PERSON_1] wrote to [EMAIL_1]');
+      expect(chunks.join('')).toBe('Dear Margaret,');
+    });
+  });
+
+  describe('usage accounting', () => {
+    const request: AIRequest = {
+      type: 'prose_generation',
+      content: 'Test story',
+      context: { storyId: 'story-1', characters: [], genre: [], targetAudience: '' }
+    };
+
+    let ledger: { assertWithinBudget: jest.Mock; record: jest.Mock };
+
+    beforeEach(() => {
+      ledger = {
+        assertWithinBudget: jest.fn().mockResolvedValue(undefined),
+        record: jest.fn().mockResolvedValue(null)
+      };
+      router.setUsageLedger(ledger as any);
+      router.updateRoutingConfig({ retryDelay: 1 });
+    });
+
+    it('should record every executed request', async () => {
+      const response = await router.executeRequest(request);
+
+      expect(ledger.assertWithinBudget).toHaveBeenCalledWith(cloudProvider, request);
+      expect(ledger.record).toHaveBeenCalledWith(cloudProvider, request, response);
+    });
+
+    it('should record streamed requests once they finish', async () => {
+      (cloudProvider as any).generateTextStream = async function* () {
+        yield { content: 'Once', done: false };
+        yield { content: ' upon', done: false };
+        yield { content: '', done: true, metadata: { promptTokens: 12, completionTokens: 2 } };
+      };
+
+      for await (const _chunk of router.executeStream(request)) { /* drain */ }
+
+      expect(ledger.record).toHaveBeenCalledTimes(1);
+      expect(ledger.record.mock.calls[0][2]).toMatchObject({
+        content: 'Once upon',
+        metadata: { promptTokens: 12, completionTokens: 2 }
+      });
+    });
+
+    it('should not retry requests blocked by a budget', async () => {
+      const blocked = new BudgetExceededError({
+        budget: { id: 'day', period: 'daily', limit: 1, hardCap: true },
+        spent: 1,
+        remaining: 0,
+        state: 'exceeded'
+      });
+      ledger.assertWithinBudget.mockRejectedValue(blocked);
+
+      await expect(router.executeRequest(request)).rejects.toBe(blocked);
+      await expect(router.executeStream(request).next()).rejects.toBe(blocked);
+      expect(ledger.assertWithinBudget).toHaveBeenCalledTimes(2);
+      expect(ledger.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancellation', () => {
+    const request = (signal: AbortSignal): AIRequest => ({
+      type: 'prose_generation',
+      content: 'Test story',
+      context: { characters: [], genre: [], targetAudience: '' },
+      signal
+    });
+
+    it('should not start a request whose signal has already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const generateText = jest.spyOn(cloudProvider, 'generateText');
+
+      await expect(router.executeRequest(request(controller.signal))).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(generateText).not.toHaveBeenCalled();
+    });
+
+    it('should not retry a request cancelled mid-call', async () => {
+      const controller = new AbortController();
+      const generateText = jest.spyOn(cloudProvider, 'generateText').mockImplementation(async () => {
+        controller.abort();
+        throw new Error('The operation was aborted');
+      });
+
+      await expect(router.executeRequest(request(controller.signal))).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(generateText).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting between retries once cancelled', async () => {
+      router.updateRoutingConfig({ retryDelay: 60000 });
+      const controller = new AbortController();
+      const generateText = jest.spyOn(cloudProvider, 'generateText').mockRejectedValue(new Error('connection refused'));
+
+      const pending = router.executeRequest(request(controller.signal));
+      await new Promise(resolve => setTimeout(resolve, 10));
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(generateText).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass the signal to the provider and stop a stream part way', async () => {
+      const controller = new AbortController();
+      let received: AbortSignal | undefined;
+      (cloudProvider as any).generateTextStream = async function* (_prompt: string, _context: any, signal?: AbortSignal) {
+        received = signal;
+        yield { content: 'Once', done: false };
+        yield { content: ' upon', done: false };
+        yield { content: '', done: true };
+      };
+
+      const chunks: string[] = [];
+      await expect((async () => {
+        for await (const chunk of router.executeStream(request(controller.signal))) {
+          chunks.push(chunk.content);
+          controller.abort();
+        }
+      })()).rejects.toBeInstanceOf(RequestCancelledError);
+
+      expect(received).toBe(controller.signal);
+      expect(chunks).toEqual(['Once']);
+    });
+  });
+
+  describe('conditional routing', () => {
+    const request = (overrides: Partial<AIRequest['context']> = {}, options?: AIRequest['options']): AIRequest => ({
+      type: 'prose_generation',
+      content: 'Test story',
+      context: { characters: [], genre: [], targetAudience: '', ...overrides },
+      options
+    });
+
+    beforeEach(() => {
+      router.updateRoutingConfig({ retryDelay: 1 });
+    });
+
+    it('should keep private stories off cloud providers, even when a request asks for one', async () => {
+      router.addRoutingRule({ id: 'private', when: { storyTags: ['private'] }, requireOffline: true, fallbackStrategy: 'priority' }, 0);
+
+      expect((await router.routeRequest(request())).name).toBe('OpenAI GPT-4');
+      expect((await router.routeRequest(request({ storyTags: ['private'] }))).name).toBe('SoYume Co-writer');
+      expect((await router.routeRequest(request({ storyTags: ['private'] }, { preferredProvider: 'OpenAI GPT-4' }))).name)
+        .toBe('SoYume Co-writer');
+    });
+
+    it('should walk the fallback chain on retries', async () => {
+      router.addRoutingRule({
+        id: 'prose-chain',
+        requestType: 'prose_generation',
+        preferredProvider: 'OpenAI GPT-4',
+        fallbackChain: ['SoYume Co-writer'],
+        fallbackStrategy: 'priority'
+      }, 0);
+      const cloudCall = jest.spyOn(cloudProvider, 'generateText').mockRejectedValue(new Error('rate limited'));
+
+      const response = await router.executeRequest(request());
+
+      expect(cloudCall).toHaveBeenCalledTimes(1);
+      expect(response.content).toBe('Cowriter: Test story');
+    });
+
+    it('should route on provider health and explain the decision without calling a provider', async () => {
+      router.addRoutingRule({
+        id: 'cloud-down',
+        when: { providerHealth: { provider: 'OpenAI GPT-4', states: ['degraded', 'unhealthy'] } },
+        preferredProviderType: 'cowriter',
+        fallbackStrategy: 'priority'
+      }, 0);
+      jest.spyOn(cloudProvider, 'generateText').mockRejectedValueOnce(new Error('timeout'));
+      router.updateRoutingConfig({ maxRetries: 0 });
+      await expect(router.executeRequest(request())).rejects.toThrow('timeout');
+
+      const cowriterCall = jest.spyOn(cowriterProvider, 'generateText');
+      const explanation = await router.explainRouting(request());
+
+      expect(explanation.facts.providerHealth['OpenAI GPT-4']).toBe('degraded');
+      expect(explanation.matchedRule?.id).toBe('cloud-down');
+      expect(explanation.evaluations).toHaveLength(1);
+      expect(explanation.candidates).toEqual(['SoYume Co-writer']);
+      expect(cowriterCall).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rate limits', () => {
+    const request: AIRequest = {
+      type: 'prose_generation',
+      content: 'Test story',
+      context: { characters: [], genre: [], targetAudience: '' }
+    };
+    const throttle = (provider: any, retryAt: Date) => {
+      provider.getRateLimitState = () => ({ throttled: true, retryAt, queued: 0 });
+    };
+
+    it('should try a throttled provider after the others and report it as throttled', async () => {
+      router.addRoutingRule({ id: 'any-provider', requestType: 'prose_generation', fallbackStrategy: 'priority' }, 0);
+      throttle(cowriterProvider, new Date(Date.now() + 30000));
+
+      const explanation = await router.explainRouting(request);
+
+      expect(explanation.candidates[0]).not.toBe('SoYume Co-writer');
+      expect(explanation.candidates[explanation.candidates.length - 1]).toBe('SoYume Co-writer');
+      expect(explanation.facts.providerHealth['SoYume Co-writer']).toBe('throttled');
+      expect(explanation.notes.some(note => note.startsWith('SoYume Co-writer is rate limited'))).toBe(true);
+    });
+
+    it('should retry on another provider at once after a 429', async () => {
+      router.addRoutingRule({ id: 'any-provider', requestType: 'prose_generation', fallbackStrategy: 'priority' }, 0);
+      router.updateRoutingConfig({ retryDelay: 60000 });
+      jest.spyOn(cowriterProvider, 'generateText').mockImplementationOnce(async () => {
+        throttle(cowriterProvider, new Date(Date.now() + 30000));
+        throw new RateLimitError('SoYume Co-writer', new Date(Date.now() + 30000));
+      });
+
+      const response = await router.executeRequest(request);
+
+      expect(response.metadata.provider).toBe('OpenAI GPT-4');
+      expect(router.getProviderHealth()['SoYume Co-writer']).toBe('throttled');
+    });
+
+    it('should wait for the limit to reset instead of the fixed delay when no other provider can take the retry', async () => {
+      router.updateRoutingConfig({ retryDelay: 60000 });
+      const cloudCall = jest.spyOn(cloudProvider, 'generateText').mockImplementationOnce(async () => {
+        throttle(cloudProvider, new Date(Date.now() + 20));
+        throw new RateLimitError('OpenAI GPT-4', new Date(Date.now() + 20));
+      });
+
+      await router.executeRequest(request);
+
+      expect(cloudCall).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('provider priority management', () => {
     it('should update provider priority', () => {
       const originalPriority = cowriterProvider.priority;
@@ -193,6 +193,18 @@ describe('BaseProvider', () => {
 
       expect(longTokens).toBeGreaterThan(shortTokens);
     });
+
+    it('should stream the full response as one chunk by default', async () => {
+      const chunks: any[] = [];
+      for await (const chunk of provider.generateTextStream('test prompt', { characters: [], genre: [], targetAudience: '' })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toHaveLength(2);
+      expect(chunks[0]).toEqual({ content: 'Generated: test prompt', done: false });
+      expect(chunks[1].done).toBe(true);
+      expect(chunks[1].metadata).toHaveProperty('provider', 'Test Provider');
+    });
   });
 
   describe('configuration validation', () => {
@@ -292,6 +304,58 @@ describe('BaseProvider', () => {
       expect(info.config).not.toHaveProperty('token');
     });
   });
+
+  describe('tool calling', () => {
+    const context: StoryContext = { storyId: 'story-1', characters: [], genre: [], targetAudience: '' };
+    const tools = {
+      definitions: () => [{ name: 'get_scene', description: 'Fetch a scene', parameters: { type: 'object' as const } }],
+      execute: jest.fn(async (call: any) => ({ callId: call.id, name: call.name, content: `scene ${call.arguments.scene}` }))
+    };
+
+    beforeEach(() => {
+      tools.execute.mockClear();
+      provider.setTools(tools);
+    });
+
+    it('should only offer tools for requests about a story', () => {
+      expect(provider['toolsFor'](context)).toHaveLength(1);
+      expect(provider['toolsFor']({ ...context, storyId: undefined })).toEqual([]);
+    });
+
+    it('should run the tools the model calls and send back their results', async () => {
+      const replies = [
+        { calls: [{ id: 'a', name: 'get_scene', arguments: { scene: '1' } }, { id: 'b', name: 'get_scene', arguments: { scene: '2' } }] },
+        { calls: [], text: 'done' }
+      ];
+      const send = jest.fn(async (_messages: string[], _final: boolean) => replies.shift()!);
+
+      const { response, responses, toolCalls } = await provider['runToolLoop'](['prompt'], context, {
+        send,
+        toolCalls: reply => reply.calls,
+        followUp: (_reply, results) => results.map(result => `${result.callId}: ${result.content}`)
+      });
+
+      expect(response.text).toBe('done');
+      expect(responses).toHaveLength(2);
+      expect(toolCalls.map(call => call.id)).toEqual(['a', 'b']);
+      expect(tools.execute).toHaveBeenCalledWith(toolCalls[0], context, 'Test Provider');
+      expect(send).toHaveBeenLastCalledWith(['prompt', 'a: scene 1', 'b: scene 2'], false);
+    });
+
+    it('should make the model answer once the round limit is reached', async () => {
+      const send = jest.fn(async (_messages: string[], _final: boolean) => ({ calls: [{ id: 'a', name: 'get_scene', arguments: { scene: '1' } }] }));
+
+      const { toolCalls } = await provider['runToolLoop'](['prompt'], context, {
+        send,
+        toolCalls: reply => reply.calls,
+        followUp: () => ['result']
+      });
+
+      expect(toolCalls).toHaveLength(4);
+      expect(send).toHaveBeenCalledTimes(5);
+      expect(send.mock.calls[4][1]).toBe(true);
+    });
+  });
 });
 
 describe('BaseCloudProvider', () => {
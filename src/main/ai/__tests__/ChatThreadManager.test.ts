@@ -0,0 +1,197 @@
+import { ChatThreadManager } from '../chat/ChatThreadManager';
+import { AIRequest, AIResponse, ChatMessage, ChatThread, ChatThreadQuery } from '../../../shared/types/AI';
+
+// In-memory stand-in for the DatabaseManager chat methods
+class FakeChatStore {
+  threads = new Map<string, ChatThread>();
+  messages: ChatMessage[] = [];
+
+  async saveChatThread(thread: ChatThread): Promise<void> {
+    this.threads.set(thread.id, { ...thread });
+  }
+
+  async getChatThreads(query: ChatThreadQuery = {}): Promise<ChatThread[]> {
+    const threads = await Promise.all([...this.threads.keys()].map(id => this.getChatThread(id)));
+    return (threads as ChatThread[]).filter(thread =>
+      (!query.storyId || thread.storyId === query.storyId) &&
+      (!query.sceneId || thread.sceneId === query.sceneId)
+    );
+  }
+
+  async getChatThread(threadId: string): Promise<ChatThread | null> {
+    const thread = this.threads.get(threadId);
+    return thread
+      ? { ...thread, messageCount: this.messages.filter(message => message.threadId === threadId).length }
+      : null;
+  }
+
+  async deleteChatThread(threadId: string): Promise<boolean> {
+    this.messages = this.messages.filter(message => message.threadId !== threadId);
+    return this.threads.delete(threadId);
+  }
+
+  async addChatMessages(messages: ChatMessage[]): Promise<void> {
+    this.messages.push(...messages);
+  }
+
+  async getChatMessages(threadId: string, afterSequence = 0): Promise<ChatMessage[]> {
+    return this.messages.filter(message => message.threadId === threadId && message.sequence > afterSequence);
+  }
+}
+
+const response = (content: string, provider = 'Ollama', model = 'llama3.1:8b'): AIResponse => ({
+  content,
+  confidence: 0.8,
+  metadata: { model, provider, tokensUsed: 20, responseTime: 5 }
+});
+
+describe('ChatThreadManager', () => {
+  let store: FakeChatStore;
+  let routeRequest: jest.Mock<Promise<AIResponse>, [AIRequest]>;
+  let manager: ChatThreadManager;
+
+  beforeEach(() => {
+    store = new FakeChatStore();
+    routeRequest = jest.fn(async (request: AIRequest) => response(`Reply ${routeRequest.mock.calls.length}`));
+    manager = new ChatThreadManager(store, { routeRequest }, { historyTokens: 120, keepRecentMessages: 2 });
+  });
+
+  it('should store both sides of the conversation and title the thread from the first message', async () => {
+    const thread = await manager.createThread({ storyId: 'story-1', chapterId: 'chapter-1', sceneId: 'scene-1' });
+
+    const result = await manager.sendMessage(thread.id, 'How should the storm scene open?\nIt feels slow.', {
+      characters: [], genre: ['fantasy'], targetAudience: 'adult'
+    });
+
+    expect(result.thread).toMatchObject({ title: 'How should the storm scene open?', messageCount: 2 });
+    expect(result.userMessage).toMatchObject({ sequence: 1, role: 'user', content: 'How should the storm scene open?\nIt feels slow.' });
+    expect(result.reply).toMatchObject({ sequence: 2, role: 'assistant', content: 'Reply 1', provider: 'Ollama', model: 'llama3.1:8b' });
+    expect(routeRequest).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'assistant_chat',
+      context: expect.objectContaining({ storyId: 'story-1', currentChapter: 'chapter-1', currentScene: 'scene-1', genre: ['fantasy'] })
+    }));
+
+    const resumed = await manager.resumeThread(thread.id);
+    expect(resumed.thread.title).toBe('How should the storm scene open?');
+    expect(resumed.messages.map(message => message.content)).toEqual(['How should the storm scene open?\nIt feels slow.', 'Reply 1']);
+  });
+
+  it('should send pinned facts and earlier messages with each message', async () => {
+    const thread = await manager.createThread({ storyId: 'story-1' }, 'Names');
+    await manager.pinFact(thread.id, 'Mara is left-handed');
+    const pinned = await manager.pinFact(thread.id, 'The ship is called Gull');
+    await manager.sendMessage(thread.id, 'Hi');
+
+    await manager.sendMessage(thread.id, 'What is the ship called?');
+
+    expect(routeRequest.mock.calls[1][0].content).toBe([
+      'Pinned facts:\n- Mara is left-handed\n- The ship is called Gull',
+      'Recent messages:\nWriter: Hi\n\nAssistant: Reply 1',
+      'Writer: What is the ship called?'
+    ].join('\n\n'));
+
+    const unpinned = await manager.unpinFact(thread.id, pinned.pinnedFacts[0].id);
+    expect(unpinned.pinnedFacts.map(fact => fact.text)).toEqual(['The ship is called Gull']);
+  });
+
+  it('should keep the conversation going when the router switches providers', async () => {
+    const thread = await manager.createThread({ storyId: 'story-1' });
+    routeRequest
+      .mockResolvedValueOnce(response('From the cloud', 'OpenAI', 'gpt-4o'))
+      .mockResolvedValueOnce(response('From the local model'));
+
+    await manager.sendMessage(thread.id, 'First');
+    const second = await manager.sendMessage(thread.id, 'Second');
+
+    expect(routeRequest.mock.calls[1][0].content).toContain('Assistant: From the cloud');
+    const { messages } = await manager.resumeThread(thread.id);
+    expect(messages.map(message => message.provider)).toEqual([undefined, 'OpenAI', undefined, 'Ollama']);
+    expect(second.reply.sequence).toBe(4);
+  });
+
+  it('should summarize older messages once the prompt passes the history limit', async () => {
+    const thread = await manager.createThread({ storyId: 'story-1' });
+    const long = 'The lighthouse keeper counts the ships every evening and writes their names in a ledger. '.repeat(4);
+    await manager.sendMessage(thread.id, long);
+    await manager.sendMessage(thread.id, long);
+    routeRequest.mockResolvedValueOnce(response('  The writer described the lighthouse keeper twice.  '));
+
+    const result = await manager.sendMessage(thread.id, 'Now what?');
+
+    expect(result.summarized).toBe(true);
+    expect(routeRequest.mock.calls[2][0]).toMatchObject({ type: 'assistant_chat', options: { maxTokens: 400 } });
+    expect(routeRequest.mock.calls[2][0].content).toContain(`Messages:\nWriter: ${long}\n\nAssistant: Reply 1`);
+    expect(result.thread).toMatchObject({ summary: 'The writer described the lighthouse keeper twice.', summarizedThrough: 2 });
+
+    const prompt = routeRequest.mock.calls[3][0].content;
+    expect(prompt).toContain('Summary of the conversation so far:\nThe writer described the lighthouse keeper twice.');
+    expect(prompt).not.toContain('Reply 1');
+    expect(prompt).toContain('Assistant: Reply 2');
+    expect(result.reply.sequence).toBe(6);
+    expect((await store.getChatThread(thread.id))!.summarizedThrough).toBe(2);
+  });
+
+  it('should store nothing when the request fails', async () => {
+    const thread = await manager.createThread({ storyId: 'story-1' });
+    routeRequest.mockRejectedValueOnce(new Error('Request cancelled'));
+
+    await expect(manager.sendMessage(thread.id, 'Hello')).rejects.toThrow('Request cancelled');
+    await expect(manager.sendMessage(thread.id, '   ')).rejects.toThrow('Message is empty');
+    await expect(manager.sendMessage('missing', 'Hello')).rejects.toThrow('Chat thread not found: missing');
+
+    expect(store.messages).toEqual([]);
+    expect((await manager.getThread(thread.id))!.title).toBe('');
+  });
+
+  it('should fork a thread up to a message without changing the original', async () => {
+    const thread = await manager.createThread({ storyId: 'story-1', sceneId: 'scene-1' }, 'Ending');
+    await manager.pinFact(thread.id, 'Mara survives');
+    const first = await manager.sendMessage(thread.id, 'Happy ending?');
+    await manager.sendMessage(thread.id, 'Sad ending?');
+
+    const fork = await manager.forkThread(thread.id, first.reply.id);
+
+    expect(fork.thread).toMatchObject({
+      storyId: 'story-1',
+      sceneId: 'scene-1',
+      title: 'Ending (fork)',
+      messageCount: 2,
+      forkedFrom: { threadId: thread.id, messageId: first.reply.id }
+    });
+    expect(fork.thread.id).not.toBe(thread.id);
+    expect(fork.thread.pinnedFacts.map(fact => fact.text)).toEqual(['Mara survives']);
+    expect(fork.messages.map(message => [message.sequence, message.content])).toEqual([[1, 'Happy ending?'], [2, 'Reply 1']]);
+    expect(fork.messages.every(message => message.threadId === fork.thread.id)).toBe(true);
+
+    const continued = await manager.sendMessage(fork.thread.id, 'Bittersweet then?');
+    expect(continued.userMessage.sequence).toBe(3);
+    expect((await manager.resumeThread(thread.id)).messages).toHaveLength(4);
+
+    await expect(manager.forkThread(thread.id, 'nope')).rejects.toThrow(`Message nope is not in chat thread ${thread.id}`);
+  });
+
+  it('should drop a summary that covers messages after the fork point', async () => {
+    const thread = await manager.createThread({ storyId: 'story-1' });
+    const first = await manager.sendMessage(thread.id, 'One');
+    await manager.sendMessage(thread.id, 'Two');
+    await store.saveChatThread({ ...(await manager.getThread(thread.id))!, summary: 'Both questions', summarizedThrough: 4 });
+
+    const early = await manager.forkThread(thread.id, first.userMessage.id, 'Early');
+    const whole = await manager.forkThread(thread.id);
+
+    expect(early.thread).toMatchObject({ title: 'Early', summary: undefined, summarizedThrough: 0, messageCount: 1 });
+    expect(whole.thread).toMatchObject({ summary: 'Both questions', summarizedThrough: 4, messageCount: 4 });
+  });
+
+  it('should list, rename and delete threads', async () => {
+    const story = await manager.createThread({ storyId: 'story-1' }, 'Whole story');
+    const scene = await manager.createThread({ storyId: 'story-1', sceneId: 'scene-1' }, 'Scene');
+    await manager.createThread({ storyId: 'story-2' });
+
+    expect((await manager.listThreads({ storyId: 'story-1' })).map(thread => thread.id)).toEqual([story.id, scene.id]);
+    expect((await manager.renameThread(scene.id, '  Harbor scene ')).title).toBe('Harbor scene');
+    expect(await manager.deleteThread(story.id)).toBe(true);
+    expect(await manager.deleteThread(story.id)).toBe(false);
+    await expect(manager.createThread({ storyId: '' })).rejects.toThrow('A chat thread needs a story');
+  });
+});
@@ -0,0 +1,88 @@
+import { CircuitBreaker } from '../health/CircuitBreaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) {
+      expect(breaker.tryAcquire()).toBe(true);
+      breaker.recordFailure();
+    }
+  };
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker('test', {
+      windowSize: 10,
+      minimumCalls: 4,
+      failureRateThreshold: 0.5,
+      slowCallThreshold: 1000,
+      slowCallRateThreshold: 0.75,
+      cooldown: 100,
+      maxCooldown: 300
+    }, () => now);
+  });
+
+  it('should stay closed until enough calls are in the window', () => {
+    fail(3);
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.snapshot()).toMatchObject({ failureRate: 1, calls: 3 });
+  });
+
+  it('should open once the failure rate crosses its threshold and refuse calls', () => {
+    breaker.recordSuccess(50);
+    breaker.recordSuccess(50);
+    fail(2);
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.isCallPermitted()).toBe(false);
+    expect(breaker.snapshot().retryAt).toEqual(new Date(100));
+  });
+
+  it('should open when most calls are slow even if they succeed', () => {
+    [1500, 2000, 1200, 100].forEach(time => breaker.recordSuccess(time));
+
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('should let a single probe through after the cool-down and close when it succeeds', () => {
+    fail(4);
+    now = 100;
+
+    expect(breaker.isCallPermitted()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess(20);
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.snapshot()).toMatchObject({ openings: 0, calls: 0 });
+  });
+
+  it('should double the cool-down each time a probe fails, up to the maximum', () => {
+    fail(4);
+    const retryTimes: number[] = [breaker.snapshot().retryAt!.getTime()];
+
+    for (let i = 0; i < 3; i++) {
+      now = retryTimes[retryTimes.length - 1];
+      fail(1);
+      retryTimes.push(breaker.snapshot().retryAt!.getTime());
+    }
+
+    expect(retryTimes).toEqual([100, 300, 600, 900]);
+  });
+
+  it('should free the probe slot when a call is released', () => {
+    fail(4);
+    now = 100;
+    breaker.tryAcquire();
+
+    breaker.release();
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+});
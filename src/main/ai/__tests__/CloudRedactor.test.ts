@@ -0,0 +1,185 @@
+import { CloudRedactor } from '../privacy/CloudRedactor';
+import { ToolRegistry } from '../tools/ToolRegistry';
+import { createStoryTools } from '../tools/StoryTools';
+import { AIProvider, AIRequest, AIStreamChunk } from '../../../shared/types/AI';
+import { Character, Story } from '../../../shared/types/Story';
+
+const provider = (type: AIProvider['type']) => ({ name: `${type}-provider`, type } as AIProvider);
+
+const configManager = (privacy: Record<string, any>) => ({
+  get: jest.fn(() => ({ allowCloudAI: true, redactCloudRequests: true, redactedNames: [], ...privacy }))
+}) as any;
+
+const character = (name: string, extra: Partial<Character> = {}) => ({ id: `char-${name}`, name, ...extra } as Character);
+
+const request = (content: string, characters: Character[] = [], extra: Partial<AIRequest> = {}): AIRequest => ({
+  type: 'prose_generation',
+  content,
+  context: { storyId: 'story-1', characters, genre: ['memoir'], targetAudience: 'adult' },
+  ...extra
+});
+
+async function collect(stream: AsyncIterable<AIStreamChunk>): Promise<AIStreamChunk[]> {
+  const chunks: AIStreamChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('CloudRedactor', () => {
+  it('should replace names and contact details with stable placeholders for cloud providers', async () => {
+    const redactor = new CloudRedactor(configManager({ redactedNames: ['Margaret Hale'] }));
+    const characters = [character('Tom Wren', { aliases: ['Tommy'], description: 'Tommy grew up at 42 Wallaby Way.' })];
+
+    const redaction = await redactor.redact(provider('cloud'), request(
+      'Margaret Hale wrote to Tom (tom.wren@example.com, +44 20 7946 0958). Margaret never heard back from Tommy.',
+      characters
+    ));
+
+    expect(redaction.request.content).toBe(
+      '[PERSON_1] wrote to [PERSON_2] ([EMAIL_1], [PHONE_1]). [PERSON_3] never heard back from [PERSON_4].'
+    );
+    expect(redaction.request.context.characters[0]).toMatchObject({
+      id: 'char-Tom Wren',
+      name: '[PERSON_5]',
+      aliases: ['[PERSON_4]'],
+      description: '[PERSON_4] grew up at [ADDRESS_1].'
+    });
+    expect(redaction.substitutions).toEqual(expect.arrayContaining([
+      { kind: 'person', placeholder: '[PERSON_2]', occurrences: 1 },
+      { kind: 'email', placeholder: '[EMAIL_1]', occurrences: 1 },
+      { kind: 'address', placeholder: '[ADDRESS_1]', occurrences: 1 }
+    ]));
+
+    // The same person gets the same placeholder in later requests
+    const next = await redactor.redact(provider('cloud'), request('Margaret Hale again.'));
+    expect(next.request.content).toBe('[PERSON_1] again.');
+  });
+
+  it('should leave requests to local providers and disabled redaction untouched', async () => {
+    const enabled = new CloudRedactor(configManager({ redactedNames: ['Margaret'] }));
+    const disabled = new CloudRedactor(configManager({ redactCloudRequests: false, redactedNames: ['Margaret'] }));
+    const original = request('Margaret called 555-867-5309.');
+
+    expect((await enabled.redact(provider('local'), original)).request).toBe(original);
+    expect((await disabled.redact(provider('cloud'), original)).request).toBe(original);
+  });
+
+  it('should not mistake dates, years or parts of words for personal details', async () => {
+    const redactor = new CloudRedactor(configManager({ redactedNames: ['Ann'] }));
+
+    const redaction = await redactor.redact(provider('cloud'), request('From 1984-1990, on 2024-01-15, Anne and Ann met Annabel.'));
+
+    expect(redaction.request.content).toBe('From 1984-1990, on 2024-01-15, Anne and [PERSON_1] met Annabel.');
+  });
+
+  it('should restore placeholders in responses', async () => {
+    const redactor = new CloudRedactor(configManager({ redactedNames: ['Margaret Hale'] }));
+    const redaction = await redactor.redact(provider('cloud'), request('Write about Margaret Hale.'));
+
+    const response = redaction.restoreResponse({
+      content: '[PERSON_1] opened the letter. [PERSON_9] did not.',
+      confidence: 0.9,
+      metadata: { model: 'm', provider: 'cloud-provider', tokensUsed: 10, responseTime: 1 },
+      alternatives: ['[PERSON_1] sighed.']
+    });
+
+    expect(response.content).toBe('Margaret Hale opened the letter. [PERSON_9] did not.');
+    expect(response.alternatives).toEqual(['Margaret Hale sighed.']);
+  });
+
+  it('should restore placeholders split across stream chunks', async () => {
+    const redactor = new CloudRedactor(configManager({ redactedNames: ['Margaret'] }));
+    const redaction = await redactor.redact(provider('cloud'), request('Margaret'));
+
+    async function* stream(): AsyncGenerator<AIStreamChunk> {
+      for (const content of ['Then [PER', 'SON_1', '] smiled [at', ' last]. [']) {
+        yield { content, done: false };
+      }
+      yield { content: '', done: true, metadata: { tokensUsed: 5 } };
+    }
+    const chunks = await collect(redaction.restoreStream(stream()));
+
+    expect(chunks.map(chunk => chunk.content).join('')).toBe('Then Margaret smiled [at last]. [');
+    expect(chunks[1].content).toBe('');
+    expect(chunks[chunks.length - 1]).toMatchObject({ done: true, metadata: { tokensUsed: 5 } });
+  });
+
+  it('should log each substitution as a data transmission', async () => {
+    const auditLogger = { logDataTransmission: jest.fn().mockResolvedValue(undefined) };
+    const redactor = new CloudRedactor(configManager({ redactedNames: ['Margaret'] }), auditLogger);
+
+    await redactor.redact(provider('cloud'), request('Margaret and Margaret, reachable at m@example.org'));
+
+    expect(auditLogger.logDataTransmission).toHaveBeenCalledTimes(2);
+    expect(auditLogger.logDataTransmission).toHaveBeenCalledWith(expect.objectContaining({
+      category: 'ai-redaction',
+      action: 'redact',
+      resource: 'story:story-1',
+      destination: 'cloud-provider',
+      dataType: 'person',
+      thirdParty: true,
+      additionalDetails: { placeholder: '[PERSON_1]', occurrences: 2, requestType: 'prose_generation' }
+    }));
+    // Only placeholders reach the log, never the redacted text
+    expect(JSON.stringify(auditLogger.logDataTransmission.mock.calls)).not.toMatch(/Margaret|example\.org/);
+  });
+
+  it('should run tools on real names and redact their results, errors included', async () => {
+    const story = {
+      id: 'story-1',
+      characters: [
+        character('Margaret Hale', { description: 'Writes to tom.wren@example.com every week.' }),
+        character('Tom Wren')
+      ],
+      chapters: []
+    } as unknown as Story;
+    const loadStory = jest.fn(async () => story);
+    const tools = new ToolRegistry();
+    createStoryTools({ loadStory }).forEach(tool => tools.register(tool));
+    const auditLogger = { logDataTransmission: jest.fn().mockResolvedValue(undefined) };
+    const redactor = new CloudRedactor(configManager({}), auditLogger);
+    redactor.setStoryLoader(loadStory);
+
+    // Only Margaret is in the request, but the story loader makes Tom known too
+    const redaction = await redactor.redact(provider('cloud'), request('What does Margaret Hale want?', [story.characters[0]]));
+    expect(redaction.request.content).toBe('What does [PERSON_1] want?');
+    const cloudTools = redaction.wrapTools(tools)!;
+
+    const found = await cloudTools.execute(
+      { id: 'call-1', name: 'lookup_character', arguments: { name: '[PERSON_1]' } },
+      redaction.request.context,
+      'cloud-provider'
+    );
+    expect(found.isError).toBeUndefined();
+    expect(JSON.parse(found.content)).toMatchObject({ name: '[PERSON_1]', description: 'Writes to [EMAIL_1] every week.' });
+
+    const missing = await cloudTools.execute(
+      { id: 'call-2', name: 'lookup_character', arguments: { name: 'Nobody' } },
+      redaction.request.context,
+      'cloud-provider'
+    );
+    expect(missing).toMatchObject({ isError: true, content: 'Error: no character named "Nobody". Characters: [PERSON_1], [PERSON_2]' });
+    expect(JSON.stringify([found, missing])).not.toMatch(/Margaret|Hale|Tom|Wren|example\.com/);
+
+    // Placeholders first handed out in a tool result are restored in the answer
+    expect(redaction.restoreResponse({
+      content: '[PERSON_2] is waiting.',
+      confidence: 1,
+      metadata: { model: 'm', provider: 'cloud-provider', tokensUsed: 1, responseTime: 1 }
+    }).content).toBe('Tom Wren is waiting.');
+    expect(auditLogger.logDataTransmission).toHaveBeenCalledWith(expect.objectContaining({
+      dataType: 'person',
+      additionalDetails: expect.objectContaining({ placeholder: '[PERSON_2]', tool: 'lookup_character' })
+    }));
+  });
+
+  it('should leave tools alone for providers that are not redacted', async () => {
+    const tools = new ToolRegistry();
+    const redactor = new CloudRedactor(configManager({ redactCloudRequests: false }));
+
+    expect((await redactor.redact(provider('cloud'), request('Margaret'))).wrapTools(tools)).toBe(tools);
+    expect((await new CloudRedactor(configManager({})).redact(provider('local'), request('Margaret'))).wrapTools(tools)).toBe(tools);
+  });
+});
@@ -0,0 +1,208 @@
+import { ContextAssembler } from '../context/ContextAssembler';
+import { TokenizerRegistry } from '../inference/TokenizerRegistry';
+import { Chapter, Character, Scene, Story } from '../../../shared/types/Story';
+
+const character = (id: string, name: string, personality: string[], extra: Partial<Character> = {}): Character => ({
+  id,
+  name,
+  archetype: { primary: 'Mentor', description: '', commonTraits: [] },
+  traits: { personality, motivations: [], fears: [], strengths: [], weaknesses: [], quirks: [] },
+  relationships: [],
+  developmentArc: { startState: '', endState: '', keyMoments: [], completed: false },
+  voiceProfile: { vocabulary: [], speechPatterns: [], commonPhrases: [], formalityLevel: 5, emotionalRange: [] },
+  ...extra
+});
+
+const scene = (id: string, chapterId: string, order: number, characters: string[], content: string, extra: Partial<Scene> = {}): Scene => ({
+  id,
+  chapterId,
+  order,
+  characters,
+  content,
+  mood: 'tense',
+  purpose: { type: 'plot', description: '', objectives: [] },
+  setting: {
+    location: 'Lighthouse',
+    timeOfDay: 'night',
+    atmosphere: 'stormy',
+    sensoryDetails: { visual: [], auditory: [], tactile: [], olfactory: [], gustatory: [] }
+  },
+  ...extra
+});
+
+const chapter = (id: string, order: number, title: string, scenes: Scene[], content = ''): Chapter => ({
+  id,
+  storyId: 'story-1',
+  title,
+  order,
+  scenes,
+  content,
+  wordCount: 0
+});
+
+const buildStory = (): Story => ({
+  id: 'story-1',
+  title: 'The Keeper',
+  genre: [{ name: 'mystery', subgenres: [], conventions: [], tropes: [] }],
+  structure: { type: 'three-act', beats: [] },
+  characters: [
+    character('mira', 'Mira', ['stubborn', 'curious'], {
+      aliases: ['the Keeper'],
+      relationships: [{ characterId: 'tom', type: 'family' as any, intensity: 7, direction: 'mutual', status: 'revealed', description: 'estranged brother' }]
+    }),
+    character('tom', 'Tom', ['reckless']),
+    character('vera', 'Vera', ['cold'])
+  ],
+  chapters: [
+    chapter('ch-1', 1, 'Arrival', [
+      scene('s-1', 'ch-1', 1, ['mira'], 'Mira climbs the stairs.', { summary: 'Mira takes over the lighthouse.' })
+    ]),
+    chapter('ch-2', 2, 'The Letter', [], 'A letter arrives from the mainland. Tom is coming home. Vera warns Mira. The storm builds.'),
+    chapter('ch-3', 3, 'Storm', [
+      scene('s-3a', 'ch-3', 1, ['vera'], 'Vera watches from the cliffs.'),
+      scene('s-3b', 'ch-3', 2, ['mira', 'tom'], 'The lamp sputtered. Tom stood dripping in the doorway. "You came back," Mira said.', { title: 'Homecoming' })
+    ])
+  ],
+  metadata: { targetWordCount: 0, currentWordCount: 0, targetAudience: 'adult', contentRating: '', tags: [], notes: '' },
+  analysisCache: { lastAnalyzed: new Date(0) },
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  worldBuilding: {
+    locations: [
+      { name: 'Harbor', description: 'A fishing village below the cliffs.' },
+      { name: 'Lighthouse', description: 'Ninety steps to the lamp room.' }
+    ]
+  }
+});
+
+describe('ContextAssembler', () => {
+  let story: Story;
+
+  beforeEach(() => {
+    story = buildStory();
+  });
+
+  it('should include every section when the budget allows', () => {
+    const result = ContextAssembler.assemble(story, { maxTokens: 10000, styleGuide: 'Past tense, close third person.' });
+
+    expect(result.sections.map(section => [section.kind, section.id])).toEqual([
+      ['current_scene', 's-3b'],
+      ['characters', 'mira'],
+      ['characters', 'tom'],
+      ['chapter_summaries', 'ch-2'],
+      ['chapter_summaries', 'ch-1'],
+      ['world_building', 'Lighthouse'],
+      ['world_building', 'Harbor'],
+      ['style_guide', 'style_guide']
+    ]);
+    expect(result.sections.every(section => section.included && !section.truncated)).toBe(true);
+    expect(result.tokens).toBe(TokenizerRegistry.countTokens(result.text));
+    expect(result.budget).toBe(10000);
+  });
+
+  it('should lay out the text with the current scene last', () => {
+    const result = ContextAssembler.assemble(story, { maxTokens: 10000, styleGuide: 'Past tense.' });
+    const position = (needle: string) => result.text.indexOf(needle);
+
+    expect(position('Style guide:')).toBe(0);
+    expect(position('World: Lighthouse')).toBeLessThan(position('Character: Mira'));
+    expect(position('Earlier, in chapter 1')).toBeLessThan(position('Earlier, in chapter 2'));
+    expect(position('Current scene (Homecoming)')).toBeGreaterThan(position('Earlier, in chapter 2'));
+    expect(result.text.endsWith('"You came back," Mira said.')).toBe(true);
+  });
+
+  it('should only include sheets for characters present in the scene', () => {
+    const result = ContextAssembler.assemble(story, { maxTokens: 10000 });
+
+    expect(result.text).toContain('Character: Mira (also the Keeper)');
+    expect(result.text).toContain('Personality: stubborn, curious');
+    expect(result.text).toContain('Relationship with Tom: family (estranged brother)');
+    expect(result.text).not.toContain('Character: Vera');
+  });
+
+  it('should prefer supplied chapter summaries and fall back to the chapter text', () => {
+    const result = ContextAssembler.assemble(story, {
+      maxTokens: 10000,
+      chapterSummaries: { 'ch-2': 'Tom writes that he is coming home.' }
+    });
+
+    expect(result.text).toContain('Earlier, in chapter 2 (The Letter): Tom writes that he is coming home.');
+    expect(result.text).toContain('Earlier, in chapter 1 (Arrival): Mira takes over the lighthouse.');
+
+    const fallback = ContextAssembler.assemble(story, { maxTokens: 10000 });
+    expect(fallback.text).toContain('The Letter): A letter arrives from the mainland. Tom is coming home. Vera warns Mira.');
+    expect(fallback.text).not.toContain('The storm builds.');
+  });
+
+  it('should assemble for the selected chapter and scene', () => {
+    const result = ContextAssembler.assemble(story, { maxTokens: 10000, chapterId: 'ch-3', sceneId: 's-3a' });
+
+    expect(result.sections.find(section => section.kind === 'current_scene')!.id).toBe('s-3a');
+    expect(result.sections.filter(section => section.kind === 'characters').map(section => section.id)).toEqual(['vera']);
+  });
+
+  it('should cut the first section that does not fit and leave out the rest', () => {
+    const [sceneSection, miraSection] = ContextAssembler.assemble(story, { maxTokens: 10000 }).sections;
+    const budget = sceneSection.tokens + miraSection.tokens + 12;
+
+    const result = ContextAssembler.assemble(story, { maxTokens: budget, minSectionTokens: 8 });
+
+    expect(result.sections[0]).toMatchObject({ kind: 'current_scene', included: true, truncated: false });
+    expect(result.sections[1]).toMatchObject({ kind: 'characters', id: 'mira', included: true, truncated: false });
+    expect(result.sections[2]).toMatchObject({ kind: 'characters', id: 'tom', included: true, truncated: true });
+    expect(result.sections[2].tokens).toBeLessThan(result.sections[2].originalTokens);
+    expect(result.sections.slice(3).every(section => !section.included && section.tokens === 0)).toBe(true);
+    expect(result.tokens).toBeLessThanOrEqual(budget);
+  });
+
+  it('should drop rather than cut a section when little budget is left', () => {
+    const full = ContextAssembler.assemble(story, { maxTokens: 10000 });
+    const budget = full.sections[0].tokens + 10;
+
+    const result = ContextAssembler.assemble(story, { maxTokens: budget });
+
+    expect(result.sections[1]).toMatchObject({ included: false, truncated: false });
+    expect(result.text).not.toContain('Character:');
+  });
+
+  it('should keep the end of the current scene when cutting it', () => {
+    const result = ContextAssembler.assemble(story, { maxTokens: 24, minSectionTokens: 5 });
+
+    expect(result.sections[0]).toMatchObject({ kind: 'current_scene', included: true, truncated: true });
+    expect(result.text.startsWith('Current scene (Homecoming)')).toBe(true);
+    expect(result.text).toContain('…');
+    expect(result.text.endsWith('Mira said.')).toBe(true);
+    expect(result.text).not.toContain('The lamp sputtered');
+    expect(result.tokens).toBeLessThanOrEqual(24);
+  });
+
+  it('should respect custom priorities', () => {
+    const result = ContextAssembler.assemble(story, {
+      maxTokens: 10000,
+      priorities: ['style_guide', 'world_building'],
+      styleGuide: 'Short sentences.'
+    });
+
+    expect(result.sections.map(section => section.kind)).toEqual(['style_guide', 'world_building', 'world_building']);
+  });
+
+  it('should give the same result for the same input', () => {
+    const options = { maxTokens: 60, minSectionTokens: 8, styleGuide: 'Past tense.' };
+
+    expect(ContextAssembler.assemble(story, options)).toEqual(ContextAssembler.assemble(buildStory(), options));
+  });
+
+  it('should build a story context carrying the assembled context', () => {
+    const context = ContextAssembler.buildStoryContext(story, { maxTokens: 10000 });
+
+    expect(context).toMatchObject({
+      storyId: 'story-1',
+      currentChapter: 'ch-3',
+      currentScene: 's-3b',
+      genre: ['mystery'],
+      targetAudience: 'adult'
+    });
+    expect(context.characters.map(c => c.id)).toEqual(['mira', 'tom']);
+    expect(context.assembledContext!.text).toContain('Current scene (Homecoming)');
+  });
+});
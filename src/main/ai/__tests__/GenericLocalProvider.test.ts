@@ -0,0 +1,227 @@
+import { TextEncoder } from 'util';
+import { GenericLocalProvider } from '../providers/local/GenericLocalProvider';
+import { LMStudioProvider } from '../providers/local/LMStudioProvider';
+import { AIProviderRegistry } from '../providers/AIProviderRegistry';
+import { AIRouter } from '../AIRouter';
+import { StoryContext } from '../../../shared/types/AI';
+
+const jsonResponse = (data: any, status = 200) => ({
+  ok: status < 400,
+  status,
+  statusText: status < 400 ? 'OK' : 'Error',
+  json: () => Promise.resolve(data)
+});
+
+const sseResponse = (events: string[]) => {
+  const encoder = new TextEncoder();
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    body: {
+      async *[Symbol.asyncIterator]() {
+        for (const event of events) {
+          yield encoder.encode(`data: ${event}\n\n`);
+        }
+      }
+    }
+  };
+};
+
+const models = (...ids: string[]) => jsonResponse({ object: 'list', data: ids.map(id => ({ id, object: 'model' })) });
+
+const fetchMock = () => global.fetch as jest.Mock;
+
+const analysisReply = {
+  structure: { identifiedStructure: 'three-act', completedBeats: ['Inciting incident'], missingBeats: [], suggestions: [], confidence: 0.8 },
+  characters: { consistencyScore: 0.7, voiceConsistency: 0.8, developmentProgress: 0.6, relationshipHealth: [], suggestions: [] },
+  pacing: { overallPacing: 'good', tensionCurve: [{ tensionLevel: 6, type: 'rising' }], recommendations: [] },
+  consistency: { overallScore: 0.9, plotHoles: [], characterInconsistencies: [], worldBuildingIssues: [] },
+  overallScore: 0.7,
+  recommendations: ['Tighten act two']
+};
+
+describe('GenericLocalProvider', () => {
+  const context: StoryContext = { characters: [], genre: ['mystery'], targetAudience: 'adult' };
+
+  beforeEach(() => {
+    global.fetch = jest.fn();
+  });
+
+  describe('initialization', () => {
+    it('should discover models through /v1/models', async () => {
+      fetchMock().mockResolvedValueOnce(models('qwen2.5-7b-instruct', 'llama-3.2-3b'));
+      const provider = new GenericLocalProvider({ name: 'llama.cpp', config: { endpoint: 'http://localhost:8080' } });
+
+      await provider.initialize({});
+
+      expect(fetchMock()).toHaveBeenCalledWith('http://localhost:8080/v1/models', expect.objectContaining({ method: 'GET' }));
+      expect(provider.availableModels).toEqual(['qwen2.5-7b-instruct', 'llama-3.2-3b']);
+      expect(provider.getModel()).toBe('qwen2.5-7b-instruct');
+    });
+
+    it('should keep an API prefix given in the endpoint', async () => {
+      fetchMock().mockResolvedValueOnce(models('mistralai/Mistral-7B-Instruct-v0.3'));
+      const provider = new GenericLocalProvider({ name: 'vLLM', config: { endpoint: 'http://gpu-box:8000/openai/v1/' } });
+
+      await provider.initialize({});
+
+      expect(fetchMock().mock.calls[0][0]).toBe('http://gpu-box:8000/openai/v1/models');
+    });
+
+    it('should default to the llama.cpp port', async () => {
+      fetchMock().mockResolvedValueOnce(models('model'));
+      const provider = new GenericLocalProvider();
+
+      await provider.initialize({});
+
+      expect(fetchMock().mock.calls[0][0]).toBe('http://localhost:8080/v1/models');
+    });
+
+    it('should send the API key when one is configured', async () => {
+      fetchMock().mockResolvedValueOnce(models('model'));
+      const provider = new GenericLocalProvider({ config: { apiKey: 'secret' } });
+
+      await provider.initialize({});
+
+      expect(fetchMock().mock.calls[0][1].headers).toMatchObject({ Authorization: 'Bearer secret' });
+    });
+
+    it('should fail when the server is unreachable', async () => {
+      fetchMock().mockRejectedValueOnce(new Error('ECONNREFUSED'));
+      const provider = new GenericLocalProvider({ name: 'llama.cpp' });
+
+      await expect(provider.initialize({})).rejects.toThrow('Could not connect to llama.cpp');
+      expect(provider.isAvailable()).toBe(false);
+    });
+  });
+
+  describe('generation', () => {
+    let provider: GenericLocalProvider;
+
+    beforeEach(async () => {
+      fetchMock().mockResolvedValueOnce(models('qwen2.5-7b-instruct'));
+      provider = new GenericLocalProvider({ name: 'llama.cpp' });
+      await provider.initialize({ maxTokens: 256 });
+    });
+
+    it('should call the chat completions endpoint', async () => {
+      fetchMock().mockResolvedValueOnce(jsonResponse({
+        model: 'qwen2.5-7b-instruct',
+        choices: [{ message: { role: 'assistant', content: 'The door creaked open.' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 30, completion_tokens: 6, total_tokens: 36 }
+      }));
+
+      const response = await provider.generateText('Open the scene', context);
+
+      expect(fetchMock().mock.calls[1][0]).toBe('http://localhost:8080/v1/chat/completions');
+      const body = JSON.parse(fetchMock().mock.calls[1][1].body);
+      expect(body).toMatchObject({ model: 'qwen2.5-7b-instruct', max_tokens: 256 });
+      expect(body.messages[0].content).toContain('mystery');
+      expect(response.content).toBe('The door creaked open.');
+      expect(response.metadata).toMatchObject({ provider: 'llama.cpp', tokensUsed: 36 });
+    });
+
+    it('should stream server-sent chunks', async () => {
+      fetchMock().mockResolvedValueOnce(sseResponse([
+        JSON.stringify({ model: 'qwen2.5-7b-instruct', choices: [{ delta: { content: 'The door' } }] }),
+        JSON.stringify({ model: 'qwen2.5-7b-instruct', choices: [{ delta: { content: ' creaked' }, finish_reason: 'stop' }] }),
+        '[DONE]'
+      ]));
+
+      const chunks: any[] = [];
+      for await (const chunk of provider.generateTextStream('Open the scene', context)) {
+        chunks.push(chunk);
+      }
+
+      expect(JSON.parse(fetchMock().mock.calls[1][1].body).stream).toBe(true);
+      expect(chunks.map(chunk => chunk.content).join('')).toBe('The door creaked');
+      expect(chunks[chunks.length - 1]).toMatchObject({
+        done: true,
+        metadata: { provider: 'llama.cpp', model: 'qwen2.5-7b-instruct', finishReason: 'stop' }
+      });
+    });
+
+    it('should pull JSON out of wrapped analysis replies', async () => {
+      fetchMock().mockResolvedValueOnce(jsonResponse({
+        choices: [{ message: { role: 'assistant', content: `Here you go:\n\`\`\`json\n${JSON.stringify(analysisReply)}\n\`\`\`` } }]
+      }));
+
+      const analysis = await provider.analyzeStory('Once upon a time');
+
+      expect(JSON.parse(fetchMock().mock.calls[1][1].body).response_format.type).toBe('json_schema');
+      expect(analysis).toEqual(analysisReply);
+    });
+
+    it('should ask again when the analysis does not match the schema', async () => {
+      const { pacing, ...withoutPacing } = analysisReply;
+      fetchMock()
+        .mockResolvedValueOnce(jsonResponse({ choices: [{ message: { role: 'assistant', content: JSON.stringify(withoutPacing) } }] }))
+        .mockResolvedValueOnce(jsonResponse({ choices: [{ message: { role: 'assistant', content: JSON.stringify(analysisReply) } }] }));
+
+      const analysis = await provider.analyzeStory('Once upon a time');
+
+      const retry = JSON.parse(fetchMock().mock.calls[2][1].body).messages;
+      expect(retry[retry.length - 2]).toEqual({ role: 'assistant', content: JSON.stringify(withoutPacing) });
+      expect(retry[retry.length - 1].content).toContain('$.pacing is required');
+      expect(analysis.pacing.overallPacing).toBe('good');
+    });
+
+    it('should report server errors with their message', async () => {
+      fetchMock().mockResolvedValueOnce(jsonResponse({ error: { message: 'context length exceeded' } }, 400));
+
+      await expect(provider.generateText('Open the scene', context)).rejects.toThrow('llama.cpp error 400: context length exceeded');
+    });
+  });
+
+  it('should explain when no model is loaded', async () => {
+    fetchMock().mockResolvedValueOnce(models());
+    const provider = new LMStudioProvider();
+    await provider.initialize({});
+
+    await expect(provider.generateText('Hello', context)).rejects.toThrow('No model is loaded on LM Studio');
+  });
+
+  describe('LMStudioProvider', () => {
+    it('should connect to the LM Studio port by default', async () => {
+      fetchMock().mockResolvedValueOnce(models('lmstudio-community/gemma-2-9b'));
+      const provider = new LMStudioProvider();
+
+      await provider.initialize({});
+
+      expect(provider.name).toBe('LM Studio');
+      expect(fetchMock().mock.calls[0][0]).toBe('http://localhost:1234/v1/models');
+    });
+  });
+
+  describe('routing', () => {
+    it('should serve requests that require offline providers', async () => {
+      fetchMock().mockResolvedValue(models('qwen2.5-7b-instruct'));
+      const configManager: any = {
+        getEnabledProviders: () => [
+          { name: 'llama.cpp', type: 'local', enabled: true, priority: 5, config: {}, taskPreferences: {} },
+          { name: 'LM Studio', type: 'local', enabled: true, priority: 4, config: {}, taskPreferences: {} }
+        ],
+        get: () => undefined,
+        set: () => {},
+        isCloudAIAllowed: () => true
+      };
+
+      const registry = new AIProviderRegistry(configManager);
+      await registry.initialize();
+      const router = new AIRouter(registry, configManager);
+
+      const provider = await router.routeRequest({
+        type: 'prose_generation',
+        content: 'Write',
+        context,
+        options: { requireOffline: true }
+      } as any);
+
+      expect(registry.getProvider('llama.cpp')).toBeInstanceOf(GenericLocalProvider);
+      expect(registry.getProvider('LM Studio')).toBeInstanceOf(LMStudioProvider);
+      expect(provider.name).toBe('llama.cpp');
+      expect(provider.capabilities.every(capability => capability.offline)).toBe(true);
+    });
+  });
+});
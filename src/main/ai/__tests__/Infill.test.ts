@@ -0,0 +1,103 @@
+import { Infill } from '../infill/Infill';
+import { AIRequest } from '../../../shared/types/AI';
+
+describe('Infill', () => {
+  describe('narration', () => {
+    it('should detect past tense, third person and ignore dialogue', () => {
+      const text = 'She turned the key. The door was heavy, and he pushed it open. "I am here," she said. They waited.';
+
+      expect(Infill.detectNarration(text)).toEqual({ tense: 'past', pov: 'third' });
+    });
+
+    it('should detect present tense, first person', () => {
+      const text = 'I walk to the window. My breath fogs the glass and I wipe it clean. She is gone. The street is empty.';
+
+      expect(Infill.detectNarration(text)).toEqual({ tense: 'present', pov: 'first' });
+    });
+
+    it('should leave both unset for too little text', () => {
+      expect(Infill.detectNarration('Rain.')).toEqual({ tense: undefined, pov: undefined });
+    });
+  });
+
+  describe('prompt', () => {
+    it('should mark the cursor and ask for text that leads into the suffix', () => {
+      const prompt = Infill.buildPrompt(
+        { prefix: 'The ship came in. ', suffix: 'Nobody waved.', maxTokens: 40 },
+        { tense: 'past', pov: 'third' }
+      );
+
+      expect(prompt).toContain('at most 30 words that follow on from the text before the cursor and lead straight into the text after it');
+      expect(prompt).toContain('- Keep to the past tense, third-person point of view used in the passage.');
+      expect(prompt).toMatch(/Passage:\nThe ship came in\. \[CURSOR\]Nobody waved\.$/);
+    });
+
+    it('should ask for a continuation when the cursor is at the end', () => {
+      expect(Infill.buildPrompt({ prefix: 'The ship came in.', suffix: '' })).toContain('Continue the passage below from [CURSOR] with at most 45 words.');
+    });
+
+    it('should keep only the text nearest the cursor, at word boundaries', () => {
+      const window = Infill.window({ prefix: 'word '.repeat(2000), suffix: 'tail '.repeat(1000) });
+
+      expect(window.prefix.length).toBeLessThanOrEqual(6000);
+      expect(window.prefix.startsWith('word ')).toBe(true);
+      expect(window.suffix.length).toBeLessThanOrEqual(2000);
+      expect(window.suffix.endsWith('tail')).toBe(true);
+      expect(window.maxTokens).toBe(60);
+    });
+  });
+
+  describe('cleaning', () => {
+    const input = { prefix: 'The ship came in', suffix: ' across the harbour at dawn.' };
+
+    it('should space the suggestion against the text around the cursor', () => {
+      expect(Infill.clean('slowly', { prefix: 'The ship came in', suffix: 'and docked.' })).toBe(' slowly ');
+      expect(Infill.clean(' slowly\n', { prefix: 'The ship came in ', suffix: ', listing.' })).toBe('slowly');
+      expect(Infill.clean(', listing', input)).toBe(', listing');
+      expect(Infill.clean('Hello,', { prefix: 'She said, "', suffix: '' })).toBe('Hello,');
+    });
+
+    it('should drop an echo of the prefix and stop where the suffix begins', () => {
+      expect(Infill.clean('The ship came in slowly, sails torn, across the harbour at dawn.', input)).toBe(' slowly, sails torn,');
+      expect(Infill.clean('```\nslowly [CURSOR]\n```', input)).toBe(' slowly');
+    });
+
+    it('should return nothing for an empty reply', () => {
+      expect(Infill.clean('  \n', input)).toBe('');
+    });
+  });
+
+  describe('execution', () => {
+    const request: AIRequest = {
+      type: 'infill',
+      content: 'emulation prompt',
+      context: { characters: [], genre: [], targetAudience: '' },
+      infill: { prefix: 'a', suffix: 'b' }
+    };
+    const response = (content: string) => ({
+      content,
+      text: content,
+      confidence: 0.8,
+      metadata: { model: 'm', provider: 'p', tokensUsed: 1, responseTime: 1 }
+    });
+
+    it('should use native infill when the provider serves it', async () => {
+      const provider: any = { generateInfill: jest.fn().mockResolvedValue(response('x')), generateText: jest.fn() };
+
+      const result = await Infill.execute(provider, request);
+
+      expect(result.metadata.infill).toBe('native');
+      expect(provider.generateInfill).toHaveBeenCalledWith(request.infill, request.context, undefined);
+      expect(provider.generateText).not.toHaveBeenCalled();
+    });
+
+    it('should prompt for it when the provider has no native infill for its model', async () => {
+      const provider: any = { generateInfill: jest.fn().mockResolvedValue(null), generateText: jest.fn().mockResolvedValue(response('x')) };
+
+      const result = await Infill.execute(provider, request);
+
+      expect(result.metadata.infill).toBe('emulated');
+      expect(provider.generateText).toHaveBeenCalledWith('emulation prompt', request.context, undefined);
+    });
+  });
+});
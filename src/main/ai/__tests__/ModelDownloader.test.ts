@@ -0,0 +1,198 @@
+/**
+ * @jest-environment node
+ */
+jest.unmock('crypto');
+jest.unmock('fs');
+
+import * as http from 'http';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { AddressInfo } from 'net';
+import { ModelDownloader, ModelInfo, DownloadProgress } from '../setup/ModelDownloader';
+
+const MODEL_BYTES = Buffer.from(Array.from({ length: 256 * 1024 }, (_, i) => i % 251));
+const MODEL_SHA256 = createHash('sha256').update(MODEL_BYTES).digest('hex');
+
+// Static file server with Range support. Requests to /slow/ send the first
+// half and then hold the connection until release() is called.
+function startServer() {
+  const ranges: (string | undefined)[] = [];
+  const held: http.ServerResponse[] = [];
+  const server = http.createServer((request, response) => {
+    ranges.push(request.headers.range);
+    const match = /bytes=(\d+)-/.exec(request.headers.range || '');
+    const start = match ? Number(match[1]) : 0;
+    if (start >= MODEL_BYTES.length) {
+      response.writeHead(416, { 'Content-Range': `bytes */${MODEL_BYTES.length}` });
+      response.end();
+      return;
+    }
+
+    const body = MODEL_BYTES.subarray(start);
+    response.writeHead(match ? 206 : 200, {
+      'Content-Length': body.length,
+      ...(match ? { 'Content-Range': `bytes ${start}-${MODEL_BYTES.length - 1}/${MODEL_BYTES.length}` } : {})
+    });
+    if (request.url?.startsWith('/slow/') && start === 0) {
+      response.write(body.subarray(0, body.length / 2));
+      held.push(response);
+    } else {
+      response.end(body);
+    }
+  });
+
+  return new Promise<{ url: string; ranges: typeof ranges; release: () => void; close: () => Promise<void> }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        ranges,
+        release: () => held.splice(0).forEach(response => response.destroy()),
+        close: () => new Promise(done => server.close(() => done()))
+      });
+    });
+  });
+}
+
+const model = (name: string, downloadUrl: string, extra: Partial<ModelInfo> = {}): ModelInfo => ({
+  name,
+  displayName: name,
+  description: '',
+  size: '256KB',
+  sizeBytes: MODEL_BYTES.length,
+  provider: 'manual',
+  useCase: [],
+  difficulty: 'beginner',
+  requirements: { minRAM: '1GB', gpu: false, diskSpace: '1GB' },
+  downloadUrl,
+  ...extra
+});
+
+describe('ModelDownloader file downloads', () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let directory: string;
+  let downloader: ModelDownloader;
+
+  beforeAll(async () => {
+    server = await startServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'model-downloads-'));
+    downloader = new ModelDownloader({ modelsDirectory: directory, maxConcurrentDownloads: 1 });
+    server.ranges.length = 0;
+  });
+
+  afterEach(async () => {
+    downloader.cancelAllDownloads();
+    server.release();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should download, verify against the manifest and rename into place', async () => {
+    const manifestPath = path.join(directory, 'manifest.json');
+    await fs.writeFile(manifestPath, JSON.stringify({
+      models: [{ name: 'tiny', url: `${server.url}/files/tiny.gguf`, sha256: MODEL_SHA256.toUpperCase() }]
+    }));
+    await downloader.loadManifest(manifestPath);
+    const stages: string[] = [];
+    downloader.on('modelProgress', (progress: DownloadProgress) => stages.push(progress.stage));
+
+    const result = await downloader.downloadModel(model('tiny', ''), { type: 'manual' } as any);
+
+    expect(result).toMatchObject({ success: true, installPath: path.join(directory, 'tiny.gguf') });
+    expect(result.warnings).toEqual([]);
+    expect(await fs.readFile(path.join(directory, 'tiny.gguf'))).toEqual(MODEL_BYTES);
+    await expect(fs.stat(path.join(directory, 'tiny.gguf.part'))).rejects.toThrow();
+    expect(stages).toEqual(expect.arrayContaining(['preparing', 'downloading', 'verifying', 'complete']));
+  });
+
+  it('should resume a partial download with a Range request', async () => {
+    await fs.writeFile(path.join(directory, 'tiny.gguf.part'), MODEL_BYTES.subarray(0, 1000));
+
+    const result = await downloader.queueDownload(model('tiny', `${server.url}/files/tiny.gguf`, { sha256: MODEL_SHA256 }));
+
+    expect(result.success).toBe(true);
+    expect(server.ranges).toEqual(['bytes=1000-']);
+    expect(await fs.readFile(path.join(directory, 'tiny.gguf'))).toEqual(MODEL_BYTES);
+  });
+
+  it('should reject a corrupted download and discard it', async () => {
+    const result = await downloader.queueDownload(model('tiny', `${server.url}/files/tiny.gguf`, { sha256: 'a'.repeat(64) }));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Checksum mismatch for tiny');
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it('should refuse to start without enough free disk space', async () => {
+    const result = await downloader.queueDownload(model('huge', `${server.url}/files/huge.gguf`, { sizeBytes: Number.MAX_SAFE_INTEGER }));
+
+    expect(result).toMatchObject({ success: false, error: expect.stringContaining('Insufficient storage') });
+    expect(server.ranges).toEqual([]);
+  });
+
+  it('should run queued downloads one at a time and hold paused ones', async () => {
+    const first = downloader.queueDownload(model('first', `${server.url}/files/first.gguf`, { sha256: MODEL_SHA256 }));
+    const second = downloader.queueDownload(model('second', `${server.url}/files/second.gguf`, { sha256: MODEL_SHA256 }));
+
+    expect(downloader.getDownloadQueue().map(job => job.state)).toEqual(['downloading', 'queued']);
+    expect(downloader.pauseDownload('second')).toBe(true);
+
+    expect((await first).success).toBe(true);
+    expect(downloader.getDownloadQueue()).toEqual([expect.objectContaining({ modelName: 'second', state: 'paused' })]);
+
+    expect(downloader.resumeDownload('second')).toBe(true);
+    expect((await second).success).toBe(true);
+    expect(downloader.getDownloadQueue()).toEqual([]);
+  });
+
+  it('should pause a running download and resume where it stopped', async () => {
+    const started = new Promise<void>(resolve => downloader.on('modelProgress', (progress: DownloadProgress) => {
+      if (progress.stage === 'downloading') resolve();
+    }));
+    const paused = new Promise<void>(resolve => downloader.on('modelProgress', (progress: DownloadProgress) => {
+      if (progress.stage === 'paused') resolve();
+    }));
+    const result = downloader.queueDownload(model('tiny', `${server.url}/slow/tiny.gguf`, { sha256: MODEL_SHA256 }));
+
+    await started;
+    downloader.pauseDownload('tiny');
+    await paused;
+    const partial = (await fs.stat(path.join(directory, 'tiny.gguf.part'))).size;
+    expect(partial).toBeGreaterThan(0);
+    expect(partial).toBeLessThan(MODEL_BYTES.length);
+
+    downloader.resumeDownload('tiny');
+
+    expect((await result).success).toBe(true);
+    expect(server.ranges).toEqual([undefined, `bytes=${partial}-`]);
+    expect(await fs.readFile(path.join(directory, 'tiny.gguf'))).toEqual(MODEL_BYTES);
+  });
+
+  it('should cancel a paused download and remove its partial file', async () => {
+    await fs.writeFile(path.join(directory, 'tiny.gguf.part'), MODEL_BYTES.subarray(0, 1000));
+    const result = downloader.queueDownload(model('tiny', `${server.url}/slow/tiny.gguf`));
+    downloader.pauseDownload('tiny');
+    // Let the aborted request unwind before cancelling
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(downloader.cancelDownload('tiny')).toBe(true);
+
+    expect(await result).toMatchObject({ success: false, error: 'Download was cancelled' });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await expect(fs.stat(path.join(directory, 'tiny.gguf.part'))).rejects.toThrow();
+  });
+
+  it('should reject manifest entries without a checksum', async () => {
+    const manifestPath = path.join(directory, 'manifest.json');
+    await fs.writeFile(manifestPath, JSON.stringify({ models: [{ name: 'tiny', url: `${server.url}/files/tiny.gguf` }] }));
+
+    await expect(downloader.loadManifest(manifestPath)).rejects.toThrow('Invalid model manifest entry: tiny');
+  });
+});
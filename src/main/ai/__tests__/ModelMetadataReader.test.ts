@@ -0,0 +1,169 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ModelMetadataReader } from '../inference/ModelMetadataReader';
+import { inspectModel } from '../inference/ModelLoader';
+import { SystemChecker } from '../setup/SystemChecker';
+
+// Minimal GGUF v3 writer
+const u32 = (value: number) => { const buffer = Buffer.alloc(4); buffer.writeUInt32LE(value); return buffer; };
+const u64 = (value: number) => { const buffer = Buffer.alloc(8); buffer.writeBigUInt64LE(BigInt(value)); return buffer; };
+const f32 = (value: number) => { const buffer = Buffer.alloc(4); buffer.writeFloatLE(value); return buffer; };
+const ggufString = (value: string) => Buffer.concat([u64(Buffer.byteLength(value)), Buffer.from(value)]);
+const kv = (key: string, type: number, value: Buffer) => Buffer.concat([ggufString(key), u32(type), value]);
+const stringArray = (items: string[]) => Buffer.concat([u32(8), u64(items.length), ...items.map(ggufString)]);
+const tensor = (name: string, dims: number[], type: number) =>
+  Buffer.concat([ggufString(name), u32(dims.length), ...dims.map(u64), u32(type), u64(0)]);
+
+function buildGGUF(): Buffer {
+  const tokens = ['<unk>', '<s>', '</s>', ...Array.from({ length: 97 }, (_, i) => `tok${i}`)];
+  const kvs = [
+    kv('general.architecture', 8, ggufString('llama')),
+    kv('general.name', 8, ggufString('Tiny Llama')),
+    kv('general.file_type', 4, u32(15)),
+    kv('general.languages', 9, stringArray(['en'])),
+    kv('llama.context_length', 4, u32(4096)),
+    kv('llama.embedding_length', 4, u32(2048)),
+    kv('llama.block_count', 4, u32(22)),
+    kv('llama.attention.head_count', 4, u32(32)),
+    kv('llama.attention.head_count_kv', 4, u32(4)),
+    kv('tokenizer.ggml.model', 8, ggufString('llama')),
+    kv('tokenizer.ggml.tokens', 9, stringArray(tokens)),
+    kv('tokenizer.ggml.scores', 9, Buffer.concat([u32(6), u64(tokens.length), ...tokens.map((_, i) => f32(-i))])),
+    kv('tokenizer.ggml.bos_token_id', 4, u32(1)),
+    kv('tokenizer.ggml.eos_token_id', 4, u32(2))
+  ];
+  const tensors = [tensor('token_embd.weight', [2048, 100], 12), tensor('output.weight', [2048, 100], 14)];
+  return Buffer.concat([Buffer.from('GGUF'), u32(3), u64(tensors.length), u64(kvs.length), ...kvs, ...tensors]);
+}
+
+// Minimal protobuf writer for an ONNX ModelProto
+const varint = (value: number) => {
+  const bytes: number[] = [];
+  do {
+    bytes.push((value & 0x7f) | (value > 0x7f ? 0x80 : 0));
+    value = Math.floor(value / 128);
+  } while (value > 0);
+  return Buffer.from(bytes);
+};
+const field = (number: number, value: number | string | Buffer) =>
+  typeof value === 'number'
+    ? Buffer.concat([varint(number * 8), varint(value)])
+    : Buffer.concat([varint(number * 8 + 2), varint(Buffer.byteLength(value)), Buffer.from(value as any)]);
+
+function buildONNX(): Buffer {
+  const packedDims = Buffer.concat([varint(64), varint(32)]);
+  const graph = Buffer.concat([
+    field(1, Buffer.concat([field(1, 'input_ids'), field(4, 'MatMul')])),
+    field(2, 'main_graph'),
+    field(5, Buffer.concat([field(1, packedDims), field(2, 10), field(8, 'weight'), field(9, Buffer.alloc(64 * 32 * 2))])),
+    field(5, Buffer.concat([field(1, 64), field(2, 1), field(8, 'bias'), field(9, Buffer.alloc(64 * 4))])),
+    field(11, Buffer.concat([field(1, 'input_ids')]))
+  ]);
+  return Buffer.concat([
+    field(1, 8),
+    field(2, 'pytorch'),
+    field(3, '2.1.0'),
+    field(7, graph),
+    field(8, Buffer.concat([field(1, ''), field(2, 17)])),
+    field(14, Buffer.concat([field(1, 'name'), field(2, 'story-model')]))
+  ]);
+}
+
+describe('ModelMetadataReader', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'model-metadata-'));
+    await fs.writeFile(path.join(directory, 'tiny.gguf'), buildGGUF());
+    await fs.mkdir(path.join(directory, 'onnx'));
+    await fs.writeFile(path.join(directory, 'onnx', 'model.onnx'), buildONNX());
+    await fs.writeFile(path.join(directory, 'onnx', 'config.json'), JSON.stringify({
+      model_type: 'gpt2', n_positions: 1024, n_embd: 768, n_layer: 12, n_head: 12, vocab_size: 50257
+    }));
+    await fs.writeFile(path.join(directory, 'notes.txt'), 'not a model');
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should read GGUF metadata, tokenizer and tensor parameter count', async () => {
+    const info = await ModelMetadataReader.read(path.join(directory, 'tiny.gguf'));
+
+    expect(info).toMatchObject({
+      format: 'gguf',
+      name: 'Tiny Llama',
+      architecture: 'llama',
+      quantization: 'Q4_K_M',
+      contextLength: 4096,
+      embeddingLength: 2048,
+      blockCount: 22,
+      headCount: 32,
+      headCountKV: 4,
+      vocabSize: 100,
+      tokenizerModel: 'llama',
+      specialTokens: { bos: '<s>', eos: '</s>' },
+      languages: ['en'],
+      parameterCount: 409600
+    });
+    // Long arrays are counted, not kept
+    expect(info.metadata['tokenizer.ggml.scores']).toBeUndefined();
+  });
+
+  it('should read ONNX producer, initializers and the config beside the model', async () => {
+    const info = await ModelMetadataReader.read(path.join(directory, 'onnx', 'model.onnx'));
+
+    expect(info).toMatchObject({
+      format: 'onnx',
+      name: 'story-model',
+      architecture: 'gpt2',
+      quantization: 'fp16',
+      parameterCount: 64 * 32 + 64,
+      contextLength: 1024,
+      blockCount: 12,
+      vocabSize: 50257
+    });
+    expect(info.metadata).toMatchObject({ producer: 'pytorch', opsetVersion: 17, irVersion: 8, inputs: ['input_ids'] });
+  });
+
+  it('should reject files that are not models', async () => {
+    await expect(ModelMetadataReader.read(path.join(directory, 'notes.txt'))).rejects.toThrow('Unrecognised model format');
+    await expect(ModelMetadataReader.readONNX(path.join(directory, 'notes.txt'))).rejects.toThrow();
+    await expect(ModelMetadataReader.readGGUF(path.join(directory, 'onnx', 'model.onnx'))).rejects.toThrow('Not a GGUF file');
+  });
+
+  it('should estimate memory from the weights and a KV cache for the context', () => {
+    const info = { format: 'gguf' as const, path: 'm.gguf', fileSize: 1000, blockCount: 2, embeddingLength: 8, headCount: 4, headCountKV: 2, specialTokens: {}, metadata: {} };
+
+    // 2 (K and V) x 2 layers x 16 tokens x 8 x 0.5 (grouped KV heads) x 2 bytes = 512
+    expect(ModelMetadataReader.estimateMemory(info, 16)).toBe(Math.ceil((1000 + 512) * 1.1));
+    expect(ModelMetadataReader.formatParameterCount(7241732096)).toBe('7.2B');
+    expect(ModelMetadataReader.formatParameterCount(409600)).toBe('409.6K');
+  });
+
+  it('should describe a model for display, capped at the configured context window', async () => {
+    const metadata = await inspectModel(path.join(directory, 'tiny.gguf'), { contextWindow: 2048 });
+
+    expect(metadata).toMatchObject({
+      name: 'Tiny Llama',
+      parameters: '409.6K',
+      quantization: 'Q4_K_M',
+      contextWindow: 2048,
+      format: 'gguf',
+      tokenizer: 'llama'
+    });
+    expect(metadata.memoryRequired).toBeGreaterThan(metadata.fileSize!);
+  });
+
+  it('should check a model file against system memory for the setup wizard', async () => {
+    const checker = new SystemChecker();
+
+    const requirement = await checker.checkModelFile(path.join(directory, 'tiny.gguf'));
+    const unreadable = await checker.checkModelFile(path.join(directory, 'notes.txt'));
+
+    expect(requirement).toMatchObject({ name: 'Model Memory', status: 'pass' });
+    expect(requirement.details).toBe('llama, 409.6K parameters, Q4_K_M, 4096 token context, GGUF file');
+    expect(unreadable).toMatchObject({ status: 'unknown', message: expect.stringContaining('Unrecognised model format') });
+  });
+});
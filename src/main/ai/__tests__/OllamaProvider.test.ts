@@ -0,0 +1,357 @@
+import { TextEncoder } from 'util';
+import { OllamaProvider, ModelNotPulledError } from '../providers/local/OllamaProvider';
+import { AIProviderRegistry } from '../providers/AIProviderRegistry';
+import { AIRouter } from '../AIRouter';
+import { RequestCancelledError } from '../RequestCancellation';
+import { StructuredOutputError } from '../structured/StructuredOutput';
+import { StoryContext } from '../../../shared/types/AI';
+
+const jsonResponse = (data: any, status = 200) => ({
+  ok: status < 400,
+  status,
+  statusText: status === 404 ? 'Not Found' : 'OK',
+  json: () => Promise.resolve(data)
+});
+
+// Ollama streams one JSON object per line
+const streamResponse = (parts: any[]) => {
+  const encoder = new TextEncoder();
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    body: {
+      async *[Symbol.asyncIterator]() {
+        for (const part of parts) {
+          yield encoder.encode(JSON.stringify(part) + '\n');
+        }
+      }
+    }
+  };
+};
+
+const tags = (...names: string[]) => jsonResponse({
+  models: names.map(name => ({ name, size: 1, digest: 'abc', modified_at: '2024-01-01T00:00:00Z' }))
+});
+
+const notPulled = (model: string) => jsonResponse({ error: `model "${model}" not found, try pulling it first` }, 404);
+
+const requestBody = (call: number) => JSON.parse((global.fetch as jest.Mock).mock.calls[call][1].body);
+
+const analysisReply = {
+  structure: { identifiedStructure: 'three-act', completedBeats: ['Inciting incident'], missingBeats: [], suggestions: [], confidence: 0.8 },
+  characters: { consistencyScore: 0.7, voiceConsistency: 0.8, developmentProgress: 0.6, relationshipHealth: [], suggestions: [] },
+  pacing: { overallPacing: 'good', tensionCurve: [{ tensionLevel: 6, type: 'rising' }], recommendations: [] },
+  consistency: { overallScore: 0.9, plotHoles: [], characterInconsistencies: [], worldBuildingIssues: [] },
+  overallScore: 0.7,
+  recommendations: ['Tighten act two']
+};
+
+describe('OllamaProvider', () => {
+  const context: StoryContext = { characters: [], genre: ['fantasy'], targetAudience: 'adult' };
+  let provider: OllamaProvider;
+
+  beforeEach(() => {
+    global.fetch = jest.fn();
+    provider = new OllamaProvider({ name: 'Ollama', config: { endpoint: 'http://127.0.0.1:11500' } });
+  });
+
+  describe('initialization', () => {
+    it('should connect to the configured endpoint and list installed models', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(tags('mistral:7b', 'llama3.1:8b'));
+
+      await provider.initialize({});
+
+      expect(global.fetch).toHaveBeenCalledWith('http://127.0.0.1:11500/api/tags', expect.objectContaining({ method: 'GET' }));
+      expect(provider.isAvailable()).toBe(true);
+      expect(provider.installedModels).toEqual(['mistral:7b', 'llama3.1:8b']);
+      expect(provider.getModel()).toBe('mistral:7b');
+    });
+
+    it('should prefer the configured model', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(tags('mistral:7b', 'llama3.1:8b'));
+
+      await provider.initialize({ modelName: 'llama3.1:8b' });
+
+      expect(provider.getModel()).toBe('llama3.1:8b');
+    });
+
+    it('should fail when the service is not running', async () => {
+      (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+      await expect(provider.initialize({})).rejects.toThrow('Could not connect to Ollama at http://127.0.0.1:11500');
+      expect(provider.isAvailable()).toBe(false);
+    });
+  });
+
+  describe('generation', () => {
+    beforeEach(async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(tags('llama3.1:8b'));
+      await provider.initialize({ temperature: 0.5 });
+    });
+
+    it('should generate text through the chat endpoint', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({
+        model: 'llama3.1:8b',
+        message: { role: 'assistant', content: ' The tide turned. ' },
+        done: true,
+        done_reason: 'stop',
+        prompt_eval_count: 20,
+        eval_count: 12
+      }));
+
+      const response = await provider.generateText('Continue the scene', context);
+
+      expect((global.fetch as jest.Mock).mock.calls[1][0]).toBe('http://127.0.0.1:11500/api/chat');
+      const body = requestBody(1);
+      expect(body).toMatchObject({ model: 'llama3.1:8b', stream: false, options: { temperature: 0.5 } });
+      expect(body.messages[0].role).toBe('system');
+      expect(body.messages[0].content).toContain('fantasy');
+      expect(body.messages[body.messages.length - 1]).toEqual({ role: 'user', content: 'Continue the scene' });
+
+      expect(response.content).toBe('The tide turned.');
+      expect(response.metadata).toMatchObject({ model: 'llama3.1:8b', provider: 'Ollama', tokensUsed: 32 });
+    });
+
+    it('should abort the HTTP call when the request is cancelled', async () => {
+      (global.fetch as jest.Mock).mockImplementationOnce((_url: string, init: any) => new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => reject(new Error('The operation was aborted')));
+      }));
+      const controller = new AbortController();
+
+      const pending = provider.generateText('Continue the scene', context, controller.signal);
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+    });
+
+    it('should complete raw text through the generate endpoint', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({
+        model: 'llama3.1:8b',
+        response: 'and the bells rang.',
+        done: true,
+        eval_count: 5
+      }));
+
+      const response = await provider.complete('The ship came in');
+
+      expect((global.fetch as jest.Mock).mock.calls[1][0]).toBe('http://127.0.0.1:11500/api/generate');
+      expect(requestBody(1)).toMatchObject({ prompt: 'The ship came in', stream: false });
+      expect(response.content).toBe('and the bells rang.');
+    });
+
+    it('should infill natively with the generate endpoint\'s suffix', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({
+        model: 'llama3.1:8b',
+        response: ' and the bells rang',
+        done: true,
+        eval_count: 5
+      }));
+
+      const response = await provider.generateInfill({ prefix: 'The ship came in', suffix: ' across the harbour.', maxTokens: 30 }, context);
+
+      expect((global.fetch as jest.Mock).mock.calls[1][0]).toBe('http://127.0.0.1:11500/api/generate');
+      expect(requestBody(1)).toMatchObject({
+        prompt: 'The ship came in',
+        suffix: ' across the harbour.',
+        options: { num_predict: 30 }
+      });
+      expect(response?.content).toBe(' and the bells rang');
+    });
+
+    it('should leave infill to the caller for models without insert support', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ error: 'registry.ollama.ai/library/llama3.1:8b does not support insert' }, 400));
+
+      const input = { prefix: 'The ship came in', suffix: '' };
+      await expect(provider.generateInfill(input, context)).resolves.toBeNull();
+      await expect(provider.generateInfill(input, context)).resolves.toBeNull();
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should constrain story analysis to the analysis schema', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({
+        model: 'llama3.1:8b',
+        message: { role: 'assistant', content: JSON.stringify(analysisReply) },
+        done: true
+      }));
+
+      const result = await provider.analyzeStory('Once upon a time');
+
+      expect((global.fetch as jest.Mock).mock.calls[1][0]).toBe('http://127.0.0.1:11500/api/chat');
+      expect(requestBody(1).format).toMatchObject({ type: 'object', required: expect.arrayContaining(['structure', 'pacing']) });
+      expect(result).toEqual(analysisReply);
+    });
+
+    it('should fail with the validation issues once the retry budget is spent', async () => {
+      const reply = { ...analysisReply, pacing: { ...analysisReply.pacing, overallPacing: 'sluggish' } };
+      (global.fetch as jest.Mock).mockResolvedValue(jsonResponse({
+        model: 'llama3.1:8b',
+        message: { role: 'assistant', content: JSON.stringify(reply) },
+        done: true
+      }));
+
+      const error = await provider.analyzeStory('Once upon a time').catch(caught => caught);
+
+      expect(error).toBeInstanceOf(StructuredOutputError);
+      expect(error.attempts).toBe(3);
+      expect(error.issues).toEqual([
+        { path: '$.pacing.overallPacing', message: 'must be one of too-fast, good, too-slow, got "sluggish"' }
+      ]);
+    });
+
+    it('should stream message chunks until done', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(streamResponse([
+        { model: 'llama3.1:8b', message: { role: 'assistant', content: 'The' }, done: false },
+        { model: 'llama3.1:8b', message: { role: 'assistant', content: ' tide' }, done: false },
+        { model: 'llama3.1:8b', message: { role: 'assistant', content: '' }, done: true, done_reason: 'stop', prompt_eval_count: 4, eval_count: 2 }
+      ]));
+
+      const chunks: any[] = [];
+      for await (const chunk of provider.generateTextStream('Continue', context)) {
+        chunks.push(chunk);
+      }
+
+      expect(requestBody(1).stream).toBe(true);
+      expect(chunks.slice(0, 2)).toEqual([
+        { content: 'The', done: false },
+        { content: ' tide', done: false }
+      ]);
+      expect(chunks[2]).toMatchObject({
+        content: '',
+        done: true,
+        metadata: { model: 'llama3.1:8b', tokensUsed: 6, finishReason: 'stop' }
+      });
+    });
+
+    it('should surface errors reported mid-stream', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(streamResponse([
+        { model: 'llama3.1:8b', message: { role: 'assistant', content: 'The' }, done: false },
+        { error: 'out of memory' }
+      ]));
+
+      const consume = async () => {
+        for await (const _ of provider.generateTextStream('Continue', context)) {
+          // drain
+        }
+      };
+
+      await expect(consume()).rejects.toThrow('Ollama stream error: out of memory');
+    });
+  });
+
+  describe('missing models', () => {
+    it('should report models that have not been pulled', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(tags())
+        .mockResolvedValueOnce(notPulled('llama3'));
+      await provider.initialize({ modelName: 'llama3' });
+
+      const error = await provider.generateText('Hello', context).catch(e => e);
+
+      expect(error).toBeInstanceOf(ModelNotPulledError);
+      expect(error.modelName).toBe('llama3');
+    });
+
+    it('should pull the model and retry when autoPull is enabled', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(tags())
+        .mockResolvedValueOnce(notPulled('llama3'))
+        .mockResolvedValueOnce(streamResponse([{ status: 'pulling manifest' }, { status: 'success' }]))
+        .mockResolvedValueOnce(tags('llama3:latest'))
+        .mockResolvedValueOnce(jsonResponse({
+          model: 'llama3',
+          message: { role: 'assistant', content: 'Hello there, traveller.' },
+          done: true
+        }));
+      await provider.initialize({ modelName: 'llama3', parameters: { autoPull: true } });
+
+      const response = await provider.generateText('Hello', context);
+
+      expect((global.fetch as jest.Mock).mock.calls[2][0]).toBe('http://127.0.0.1:11500/api/pull');
+      expect(provider.hasModel('llama3')).toBe(true);
+      expect(response.content).toBe('Hello there, traveller.');
+    });
+
+    it('should report pull progress', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(tags())
+        .mockResolvedValueOnce(streamResponse([
+          { status: 'pulling manifest' },
+          { status: 'downloading', digest: 'sha256:1', total: 100, completed: 50 },
+          { status: 'success' }
+        ]))
+        .mockResolvedValueOnce(tags('mistral:7b'));
+      await provider.initialize({});
+
+      const progress: any[] = [];
+      await provider.pullModel('mistral:7b', update => progress.push(update));
+
+      expect(requestBody(1)).toEqual({ model: 'mistral:7b', stream: true });
+      expect(progress.map(update => update.status)).toEqual(['pulling manifest', 'downloading', 'success']);
+      expect(provider.installedModels).toEqual(['mistral:7b']);
+    });
+
+    it('should fail a pull the service reports as failed', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(tags())
+        .mockResolvedValueOnce(streamResponse([{ error: 'pull model manifest: file does not exist' }]));
+      await provider.initialize({});
+
+      await expect(provider.pullModel('nonexistent')).rejects.toThrow('Failed to pull Ollama model nonexistent');
+    });
+  });
+
+  describe('health check', () => {
+    beforeEach(async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(tags('llama3.1:8b'));
+      await provider.initialize({});
+    });
+
+    it('should pass while the service responds', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(tags('llama3.1:8b'));
+
+      expect(await provider.healthCheck()).toBe(true);
+    });
+
+    it('should mark the provider unavailable when the service stops', async () => {
+      (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+      expect(await provider.healthCheck()).toBe(false);
+      expect(provider.isAvailable()).toBe(false);
+    });
+  });
+
+  describe('registration', () => {
+    it('should be created by the registry and chosen for local routing rules', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(tags('llama3.1:8b'));
+      const configManager: any = {
+        getEnabledProviders: () => [{
+          name: 'Ollama',
+          type: 'local',
+          enabled: true,
+          priority: 5,
+          config: { endpoint: 'http://localhost:11434' },
+          taskPreferences: {}
+        }],
+        get: () => undefined,
+        set: () => {},
+        isCloudAIAllowed: () => false
+      };
+
+      const registry = new AIProviderRegistry(configManager);
+      await registry.initialize();
+      const router = new AIRouter(registry, configManager);
+      router.addRoutingRule({
+        requestType: 'brainstorming',
+        preferredProviderType: 'local',
+        fallbackStrategy: 'priority',
+        requireOffline: true
+      });
+
+      const selected = await router.routeRequest({ type: 'brainstorming', content: 'Ideas', context });
+
+      expect(registry.getProvider('Ollama')).toBeInstanceOf(OllamaProvider);
+      expect(selected).toBe(registry.getProvider('Ollama'));
+    });
+  });
+});
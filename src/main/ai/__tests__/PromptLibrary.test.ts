@@ -0,0 +1,203 @@
+import { PromptLibrary } from '../prompts/PromptLibrary';
+import { PromptTemplate, StoryContext } from '../../../shared/types/AI';
+
+// Stands in for ConfigManager, keeping saved templates in memory
+const createConfigStore = (saved: PromptTemplate[] = []) => {
+  let templates = saved;
+  return {
+    getPromptTemplates: jest.fn(() => templates),
+    setPromptTemplates: jest.fn((updated: PromptTemplate[]) => {
+      templates = [...updated];
+    })
+  };
+};
+
+const context: StoryContext = {
+  storyId: 'story-1',
+  characters: [{ name: 'Mira' } as any, { name: 'Tom' } as any],
+  genre: ['mystery', 'gothic'],
+  targetAudience: 'adult'
+};
+
+describe('PromptLibrary', () => {
+  let store: ReturnType<typeof createConfigStore>;
+
+  beforeEach(() => {
+    store = createConfigStore();
+    PromptLibrary.setConfigManager(store as any);
+  });
+
+  afterAll(() => {
+    PromptLibrary.setConfigManager(null);
+  });
+
+  describe('rendering', () => {
+    it('should fill variables, join lists and drop empty conditional blocks', () => {
+      const template = {
+        system: 'Genres: {{genre}}. Cast: {{characters|join:" & "}}.{{#if targetAudience}} For {{targetAudience}}.{{/if}}{{#if previousContext}} After: {{previousContext}}{{/if}}',
+        variables: [
+          { name: 'genre', type: 'list' as const },
+          { name: 'characters', type: 'list' as const },
+          { name: 'targetAudience', type: 'string' as const },
+          { name: 'previousContext', type: 'string' as const }
+        ]
+      };
+
+      const { system } = PromptLibrary.renderTemplate(template, PromptLibrary.variablesFromContext(context));
+
+      expect(system).toBe('Genres: mystery, gothic. Cast: Mira & Tom. For adult.');
+    });
+
+    it('should resolve nested conditional blocks', () => {
+      const template = {
+        user: '{{#if genre}}Genre{{#if targetAudience}} for {{targetAudience}}{{/if}}.{{/if}}',
+        variables: [{ name: 'genre', type: 'list' as const }, { name: 'targetAudience', type: 'string' as const }]
+      };
+
+      expect(PromptLibrary.renderTemplate(template, { genre: ['noir'], targetAudience: 'teens' }).user).toBe('Genre for teens.');
+      expect(PromptLibrary.renderTemplate(template, { genre: ['noir'] }).user).toBe('Genre.');
+      expect(PromptLibrary.renderTemplate(template, { genre: [], targetAudience: 'teens' }).user).toBe('');
+    });
+
+    it('should reject values of the wrong type', () => {
+      const template = { user: '{{genre}}', variables: [{ name: 'genre', type: 'list' as const }] };
+
+      expect(() => PromptLibrary.renderTemplate(template, { genre: 'mystery' })).toThrow('Prompt variable genre should be a list');
+    });
+
+    it('should render the built-in prose template like the providers did', () => {
+      const rendered = PromptLibrary.render('prose_generation', { ...PromptLibrary.variablesFromContext(context), prompt: 'Continue.' });
+
+      expect(rendered.system).toBe(
+        'You are a creative writing assistant specializing in storytelling and narrative craft. You are working with mystery and gothic genre(s). The target audience is adult. Provide creative, engaging, and well-crafted responses that maintain consistency with the established story elements.'
+      );
+      expect(rendered.user).toBe('Continue.');
+      expect(rendered.systemTemplate).toEqual({ id: 'prose_generation', version: 1, source: 'builtin' });
+      expect(rendered.missingVariables).toEqual([]);
+    });
+
+    it('should report required variables that have no value', () => {
+      expect(PromptLibrary.render('story_analysis', {}).missingVariables).toEqual(['content']);
+    });
+  });
+
+  describe('resolution', () => {
+    it('should prefer provider overrides by name, then by type', () => {
+      const anthropic = PromptLibrary.resolve('prose_generation', { name: 'Anthropic Claude', type: 'cloud' });
+      const lmStudio = PromptLibrary.resolve('story_analysis', { name: 'LM Studio', type: 'local' });
+      const openAI = PromptLibrary.resolve('story_analysis', { name: 'OpenAI', type: 'cloud' });
+
+      expect(anthropic.system!.id).toBe('prose_generation@anthropic');
+      expect(anthropic.user!.id).toBe('prose_generation');
+      expect(lmStudio.system!.id).toBe('story_analysis@local');
+      expect(openAI.system!.id).toBe('story_analysis');
+    });
+
+    it('should inherit missing parts from the parent request type', () => {
+      const dialogue = PromptLibrary.resolve('dialogue_generation', { name: 'Mistral AI', type: 'cloud' });
+      const plotHoles = PromptLibrary.resolve('plot_hole_detection');
+
+      expect(dialogue.user!.id).toBe('dialogue_generation');
+      expect(dialogue.system!.id).toBe('prose_generation@mistral');
+      expect(plotHoles.system!.id).toBe('story_analysis');
+      expect(plotHoles.user!.id).toBe('story_analysis');
+    });
+
+    it('should fill the character analysis prompt with the requested traits', () => {
+      const rendered = PromptLibrary.render('character_analysis', { traits: '{"role":"keeper"}' }, { name: 'OpenAI', type: 'cloud' });
+
+      expect(rendered.user).toContain('Create a detailed character based on these traits: {"role":"keeper"}');
+    });
+  });
+
+  describe('user versions', () => {
+    const draft = {
+      requestType: 'prose_generation' as const,
+      system: 'You write {{genre}} fiction.',
+      variables: [{ name: 'genre', type: 'list' as const }]
+    };
+
+    it('should save edits as new versions and use the latest one', () => {
+      const first = PromptLibrary.saveTemplate(draft);
+      const second = PromptLibrary.saveTemplate({ ...draft, system: 'You write {{genre}} novels.' });
+
+      expect(first).toMatchObject({ id: 'prose_generation', version: 2, source: 'user', basedOnVersion: 1, name: 'Prose generation' });
+      expect(second).toMatchObject({ version: 3, basedOnVersion: 2 });
+      expect(PromptLibrary.getVersions('prose_generation').map(template => template.version)).toEqual([1, 2, 3]);
+      expect(store.setPromptTemplates).toHaveBeenLastCalledWith([first, second]);
+
+      const rendered = PromptLibrary.render('prose_generation', { genre: ['noir'], prompt: 'Go on.' });
+      expect(rendered.system).toBe('You write noir novels.');
+      expect(rendered.systemTemplate).toEqual({ id: 'prose_generation', version: 3, source: 'user' });
+    });
+
+    it('should load saved versions from the config', () => {
+      PromptLibrary.saveTemplate({ ...draft, provider: 'OpenAI' });
+
+      PromptLibrary.setConfigManager(createConfigStore(store.getPromptTemplates()) as any);
+
+      expect(PromptLibrary.getTemplate('prose_generation@openai')).toMatchObject({ version: 1, provider: 'openai' });
+      expect(PromptLibrary.resolve('outline', { name: 'OpenAI' }).system!.id).toBe('prose_generation@openai');
+    });
+
+    it('should revert to an earlier version and reset to the built-in one', () => {
+      PromptLibrary.saveTemplate(draft);
+      PromptLibrary.saveTemplate({ ...draft, system: 'Changed.', variables: [] });
+
+      const reverted = PromptLibrary.revertTemplate('prose_generation', 2);
+      expect(reverted).toMatchObject({ version: 4, system: draft.system });
+
+      PromptLibrary.resetTemplate('prose_generation');
+      expect(PromptLibrary.getTemplate('prose_generation')).toMatchObject({ version: 1, source: 'builtin' });
+      expect(store.getPromptTemplates()).toEqual([]);
+
+      expect(() => PromptLibrary.revertTemplate('prose_generation', 7)).toThrow('Prompt template prose_generation has no version 7');
+    });
+
+    it('should refuse to save invalid templates', () => {
+      expect(() => PromptLibrary.saveTemplate({
+        requestType: 'outline',
+        user: '{{#if genre}}{{prompt}} {{unknown}}',
+        variables: [{ name: 'genre', type: 'list' }, { name: 'prompt', type: 'string' }]
+      })).toThrow('Invalid prompt template: Variable unknown is used but not declared; Unclosed {{#if}} in user part');
+      expect(store.setPromptTemplates).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validation and preview', () => {
+    it('should catch unknown tags, stray closing tags and joins on non-lists', () => {
+      const problems = PromptLibrary.validate({
+        user: '{{> partial}}{{/if}}{{prompt|join:", "}}',
+        variables: [{ name: 'prompt', type: 'string' }, { name: 'prompt', type: 'text' as any }]
+      });
+
+      expect(problems).toEqual([
+        'Variable prompt is declared twice',
+        'Variable prompt has unknown type "text"',
+        'Unknown tag {{> partial}} in user part',
+        'Unexpected {{/if}} in user part',
+        'Variable prompt is not a list and cannot be joined'
+      ]);
+    });
+
+    it('should accept every built-in template', () => {
+      for (const template of PromptLibrary.getBuiltInTemplates()) {
+        expect(PromptLibrary.validate(template)).toEqual([]);
+      }
+    });
+
+    it('should preview a draft against a story context', () => {
+      const preview = PromptLibrary.preview(
+        { user: 'Write {{genre|join:"/"}} dialogue for {{characters}}: {{prompt}}', variables: PromptLibrary.getStandardVariables() },
+        context,
+        { prompt: 'an argument' }
+      );
+
+      expect(preview).toEqual({ system: '', user: 'Write mystery/gothic dialogue for Mira, Tom: an argument', problems: [] });
+      expect(PromptLibrary.preview({ user: '{{#if genre}}', variables: [] }, context).problems).toEqual([
+        'Variable genre is used but not declared',
+        'Unclosed {{#if}} in user part'
+      ]);
+    });
+  });
+});
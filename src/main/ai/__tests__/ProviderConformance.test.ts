@@ -0,0 +1,139 @@
+/**
+ * @jest-environment node
+ */
+import * as path from 'path';
+import { BaseProvider } from '../providers/BaseProvider';
+import { HttpCassette } from '../providers/HttpCassette';
+import { RateLimitError } from '../health/RateLimiter';
+import { OpenAIProvider } from '../providers/cloud/OpenAIProvider';
+import { AnthropicProvider } from '../providers/cloud/AnthropicProvider';
+import { MistralProvider } from '../providers/cloud/MistralProvider';
+import { MoonshotProvider } from '../providers/cloud/MoonshotProvider';
+import { OpenRouterProvider } from '../providers/cloud/OpenRouterProvider';
+import { AIStreamChunk, StoryContext } from '../../../shared/types/AI';
+
+// Every cloud provider runs the same behavioural suite against the cassettes
+// in ./cassettes/<provider>. Set SOYUME_CASSETTES=record and the API key
+// variables to re-record generate and stream; error, rate-limit and timeout
+// cassettes are edited by hand.
+const providers: Array<{ id: string; create: () => BaseProvider; apiKey?: string; errorMessage: string }> = [
+  { id: 'openai', create: () => new OpenAIProvider(), apiKey: process.env.OPENAI_API_KEY, errorMessage: 'Incorrect API key provided' },
+  { id: 'anthropic', create: () => new AnthropicProvider(), apiKey: process.env.ANTHROPIC_API_KEY, errorMessage: 'invalid x-api-key' },
+  { id: 'mistral', create: () => new MistralProvider(), apiKey: process.env.MISTRAL_API_KEY, errorMessage: 'Unauthorized' },
+  { id: 'moonshot', create: () => new MoonshotProvider(), apiKey: process.env.MOONSHOT_API_KEY, errorMessage: 'Invalid Authentication' },
+  { id: 'openrouter', create: () => new OpenRouterProvider(), apiKey: process.env.OPENROUTER_API_KEY, errorMessage: 'No auth credentials found' }
+];
+
+const PROMPT = 'Describe the lighthouse at dusk.';
+const EXPECTED_TEXT = 'The lighthouse keeper counted the ships that never came back.';
+
+const context: StoryContext = { characters: [], genre: ['literary'], targetAudience: 'adult' };
+
+describe.each(providers)('$id provider conformance', ({ id, create, apiKey, errorMessage }) => {
+  let cassette: HttpCassette;
+  let provider: BaseProvider;
+
+  const useCassette = async (scenario: string, config: Record<string, any> = {}) => {
+    cassette = await HttpCassette.load(path.join(__dirname, 'cassettes', id, `${scenario}.json`));
+    provider = create();
+    provider.setHttpTransport(cassette.fetch);
+    await provider.initialize({ apiKey: apiKey || 'test-api-key', ...config });
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await cassette.save();
+    jest.restoreAllMocks();
+  });
+
+  it('should generate text', async () => {
+    await useCassette('generate');
+
+    const response = await provider.generateText(PROMPT, context);
+
+    expect(response.content).toBe(EXPECTED_TEXT);
+    expect(response.metadata).toMatchObject({ provider: provider.name, tokensUsed: expect.any(Number) });
+    expect(response.metadata.responseTime).toBeGreaterThanOrEqual(0);
+    const request = cassette.requests[cassette.requests.length - 1];
+    expect(request.method).toBe('POST');
+    expect(JSON.stringify(request.body.messages)).toContain(PROMPT);
+    expect(Object.keys(request.headers!)).not.toEqual(expect.arrayContaining(['authorization']));
+    expect(cassette.remaining()).toEqual([]);
+  });
+
+  it('should stream server-sent events', async () => {
+    await useCassette('stream');
+
+    const chunks: AIStreamChunk[] = [];
+    for await (const chunk of provider.generateTextStream(PROMPT, context)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.filter(chunk => !chunk.done).map(chunk => chunk.content).join('')).toBe(EXPECTED_TEXT);
+    expect(chunks[chunks.length - 1]).toMatchObject({ done: true, metadata: expect.objectContaining({ tokensUsed: 66 }) });
+    expect(cassette.requests[cassette.requests.length - 1].body.stream).toBe(true);
+  });
+
+  it('should surface API error payloads', async () => {
+    await useCassette('error');
+
+    await expect(provider.generateText(PROMPT, context)).rejects.toMatchObject({
+      message: expect.stringContaining(errorMessage),
+      code: expect.any(String)
+    });
+  });
+
+  it('should turn a 429 into a rate-limit error with the Retry-After time', async () => {
+    await useCassette('rate-limit');
+    const before = Date.now();
+
+    const error = await provider.generateText(PROMPT, context).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAt.getTime()).toBeGreaterThanOrEqual(before + 19000);
+    expect(provider.getRateLimitState()).toMatchObject({ throttled: true });
+  });
+
+  it('should time out a request that gets no response', async () => {
+    await useCassette('timeout', { timeout: 50 });
+
+    await expect(provider.generateText(PROMPT, context)).rejects.toMatchObject({ code: 'TIMEOUT', message: 'Request timeout' });
+  });
+});
+
+describe('HttpCassette', () => {
+  it('should fail on requests the cassette does not expect', async () => {
+    const cassette = new HttpCassette('inline.json', 'replay', [
+      { request: { method: 'POST', url: 'https://api.example.com/v1/a' }, response: { status: 200, body: {} } }
+    ]);
+
+    await expect(cassette.fetch('https://api.example.com/v1/b', { method: 'POST' }))
+      .rejects.toThrow('Cassette inline.json expected POST https://api.example.com/v1/a but got POST https://api.example.com/v1/b');
+    await expect(cassette.fetch('https://api.example.com/v1/a', { method: 'POST' })).resolves.toMatchObject({ status: 200 });
+    await expect(cassette.fetch('https://api.example.com/v1/a', { method: 'POST' })).rejects.toThrow('has no recorded response');
+  });
+
+  it('should record responses without credentials', async () => {
+    const realFetch = jest.fn(async () => new Response(JSON.stringify({ ok: true }), {
+      status: 200,
+      headers: { 'content-type': 'application/json', 'set-cookie': 'session=1' }
+    }));
+    const cassette = new HttpCassette('recorded.json', 'record', [], realFetch);
+
+    const response = await cassette.fetch('https://api.example.com/v1/a', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer secret', 'x-api-key': 'secret', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prompt: 'hi' })
+    });
+
+    expect(await response.json()).toEqual({ ok: true });
+    expect(cassette.remaining()).toEqual([{
+      request: { method: 'POST', url: 'https://api.example.com/v1/a', headers: { 'content-type': 'application/json' }, body: { prompt: 'hi' } },
+      response: { status: 200, statusText: '', headers: { 'content-type': 'application/json' }, body: { ok: true } }
+    }]);
+  });
+});
@@ -1,4 +1,6 @@
-import { ProviderRegistry, ProviderRegistration, ProviderMetrics } from '../ProviderRegistry';
+import { ProviderRegistry, ProviderRegistration, ProviderMetrics, PerformanceBasedStrategy } from '../ProviderRegistry';
+import { CircuitOpenError } from '../health/CircuitBreaker';
+import { RequestCancelledError } from '../RequestCancellation';
 import { ConfigManager } from '../../config/ConfigManager';
 import { AIProvider, ProviderConfig, AICapability } from '../../../shared/types/AI';
 
@@ -268,6 +270,24 @@ describe('ProviderRegistry', () => {
       expect(metrics?.failedRequests).toBe(0);
     });
 
+    it('should count cancelled requests apart from failures', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const request = {
+        type: 'prose_generation' as const,
+        content: 'Test prompt',
+        context: { characters: [], genre: [], targetAudience: '' },
+        signal: controller.signal
+      };
+
+      await expect(registry.executeRequest(mockProvider.name, request))
+        .rejects.toBeInstanceOf(RequestCancelledError);
+
+      const metrics = registry.getProviderMetrics(mockProvider.name);
+      expect(metrics?.cancelledRequests).toBe(1);
+      expect(metrics?.failedRequests).toBe(0);
+    });
+
     it('should handle request failure', async () => {
       await registry.disableProvider(mockProvider.name);
       
@@ -305,6 +325,54 @@ describe('ProviderRegistry', () => {
     });
   });
 
+  describe('circuit breaker', () => {
+    const request = {
+      type: 'prose_generation' as const,
+      content: 'Test prompt',
+      context: { characters: [], genre: [], targetAudience: '' }
+    };
+
+    beforeEach(async () => {
+      registry = new ProviderRegistry(configManager, { minimumCalls: 2, failureRateThreshold: 0.5, cooldown: 60000 });
+      await registry.initialize();
+      await registry.registerProvider(mockProvider, {});
+    });
+
+    it('should stop sending requests to a failing provider', async () => {
+      const generateText = jest.spyOn(mockProvider, 'generateText').mockRejectedValue(new Error('503 Service Unavailable'));
+
+      await expect(registry.executeRequest(mockProvider.name, request)).rejects.toThrow('503');
+      await expect(registry.executeRequest(mockProvider.name, request)).rejects.toBeInstanceOf(CircuitOpenError);
+
+      expect(generateText).toHaveBeenCalledTimes(1);
+      expect(registry.getAvailableProviders()).toEqual([]);
+      expect(registry.getProviderStatus(mockProvider.name)?.healthStatus).toBe('unhealthy');
+      expect(registry.getProviderMetrics(mockProvider.name)?.circuit).toMatchObject({ state: 'open', openings: 1 });
+    });
+
+    it('should close the circuit when the provider is enabled again', async () => {
+      jest.spyOn(mockProvider, 'generateText').mockRejectedValueOnce(new Error('timeout'));
+      await expect(registry.executeRequest(mockProvider.name, request)).rejects.toThrow('timeout');
+
+      await registry.enableProvider(mockProvider.name);
+
+      expect(registry.getCircuitState(mockProvider.name)?.state).toBe('closed');
+      await expect(registry.executeRequest(mockProvider.name, request)).resolves.toBeDefined();
+    });
+
+    it('should leave providers with an open circuit out of performance-based selection', () => {
+      const other = { ...mockProvider, name: 'Other Provider', priority: 1 } as any;
+      const metrics = new Map<string, ProviderMetrics>([
+        [mockProvider.name, { totalRequests: 10, successfulRequests: 10, failedRequests: 0, cancelledRequests: 0, rateLimitedRequests: 0, averageResponseTime: 100, circuit: { state: 'open', failureRate: 0, slowCallRate: 0, calls: 0, openings: 1 } }],
+        [other.name, { totalRequests: 10, successfulRequests: 5, failedRequests: 5, cancelledRequests: 0, rateLimitedRequests: 0, averageResponseTime: 3000 }]
+      ]);
+
+      const selected = new PerformanceBasedStrategy().selectProvider([mockProvider, other], request, metrics);
+
+      expect(selected?.name).toBe('Other Provider');
+    });
+  });
+
   describe('provider management', () => {
     beforeEach(async () => {
       await registry.initialize();
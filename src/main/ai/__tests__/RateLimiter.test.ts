@@ -0,0 +1,128 @@
+import { RateLimiter, RateLimitError, TokenBucket } from '../health/RateLimiter';
+import { RequestCancelledError } from '../RequestCancellation';
+
+const headers = (values: Record<string, string>) => ({
+  get: (name: string) => values[name.toLowerCase()] ?? null
+});
+
+describe('RateLimiter', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+  });
+
+  describe('TokenBucket', () => {
+    it('should refill continuously up to its capacity', () => {
+      const bucket = TokenBucket.perMinute(60, () => now);
+      bucket.take(60);
+
+      expect(bucket.waitTime(1)).toBe(1000);
+      now += 2500;
+      expect(bucket.remaining()).toBe(2);
+      now += 600000;
+      expect(bucket.remaining()).toBe(60);
+    });
+
+    it('should only make requests larger than the bucket wait for a full bucket', () => {
+      const bucket = TokenBucket.perMinute(1000, () => now);
+      bucket.take(500);
+
+      expect(bucket.waitTime(5000)).toBe(30000);
+    });
+  });
+
+  describe('headers', () => {
+    it('should read OpenAI-style durations and Retry-After seconds', () => {
+      expect(RateLimiter.parseHeaders(headers({
+        'retry-after': '20',
+        'x-ratelimit-remaining-requests': '0',
+        'x-ratelimit-reset-requests': '1m30s',
+        'x-ratelimit-remaining-tokens': '1200',
+        'x-ratelimit-reset-tokens': '250ms'
+      }), now)).toEqual({
+        retryAt: now + 20000,
+        requestsRemaining: 0,
+        requestsResetAt: now + 90000,
+        tokensRemaining: 1200,
+        tokensResetAt: now + 250
+      });
+    });
+
+    it('should read Anthropic reset dates and HTTP-date Retry-After', () => {
+      const parsed = RateLimiter.parseHeaders(headers({
+        'retry-after': 'Wed, 21 Oct 2015 07:28:00 GMT',
+        'anthropic-ratelimit-tokens-remaining': '0',
+        'anthropic-ratelimit-tokens-reset': '2015-10-21T07:29:00Z'
+      }), now);
+
+      expect(parsed.retryAt).toBe(Date.parse('2015-10-21T07:28:00Z'));
+      expect(parsed.tokensRemaining).toBe(0);
+      expect(parsed.tokensResetAt).toBe(Date.parse('2015-10-21T07:29:00Z'));
+      expect(parsed.requestsRemaining).toBeUndefined();
+    });
+  });
+
+  describe('limits', () => {
+    it('should be throttled until Retry-After passes after a 429', () => {
+      const limiter = new RateLimiter('OpenAI', {}, () => now);
+
+      const error = limiter.rateLimited(headers({ 'retry-after': '10' }));
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.retryAt).toEqual(new Date(now + 10000));
+      expect(limiter.getState()).toMatchObject({ throttled: true, retryAt: new Date(now + 10000) });
+      now += 10000;
+      expect(limiter.getState().throttled).toBe(false);
+    });
+
+    it('should wait for the reported reset once the API has no requests left', () => {
+      const limiter = new RateLimiter('OpenAI', {}, () => now);
+
+      limiter.update(headers({ 'x-ratelimit-remaining-requests': '1', 'x-ratelimit-reset-requests': '5s' }));
+      expect(limiter.getState()).toMatchObject({ throttled: false, requestsRemaining: 1 });
+
+      limiter.update(headers({ 'x-ratelimit-remaining-requests': '0' }));
+      expect(limiter.getState()).toMatchObject({ throttled: true, retryAt: new Date(now + 5000) });
+    });
+
+    it('should refuse a request that would wait longer than maxQueueWait', async () => {
+      const limiter = new RateLimiter('Mistral', { requestsPerMinute: 1, maxQueueWait: 1000 }, () => now);
+      await limiter.acquire(10);
+
+      await expect(limiter.acquire(10)).rejects.toEqual(new RateLimitError('Mistral', new Date(now + 60000)));
+      expect(limiter.getState()).toMatchObject({ throttled: true, requestsRemaining: 0, queued: 0 });
+    });
+
+    it('should queue requests until the token bucket has room', async () => {
+      jest.useFakeTimers({ now });
+      try {
+        const limiter = new RateLimiter('Anthropic', { tokensPerMinute: 6000 });
+        await limiter.acquire(6000);
+
+        let sent = false;
+        const pending = limiter.acquire(3000).then(() => { sent = true; });
+        await jest.advanceTimersByTimeAsync(29000);
+        expect(sent).toBe(false);
+        expect(limiter.getState().queued).toBe(1);
+
+        await jest.advanceTimersByTimeAsync(1000);
+        await pending;
+        expect(sent).toBe(true);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should stop waiting when the request is cancelled', async () => {
+      const limiter = new RateLimiter('OpenAI', { requestsPerMinute: 1 }, () => now);
+      const controller = new AbortController();
+      await limiter.acquire(1);
+
+      const pending = limiter.acquire(1, controller.signal);
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+    });
+  });
+});
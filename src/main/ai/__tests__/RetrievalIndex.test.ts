@@ -0,0 +1,296 @@
+import { RetrievalIndex } from '../retrieval/RetrievalIndex';
+import {
+  EmbeddingBackend,
+  OllamaEmbeddingBackend,
+  OpenAICompatibleEmbeddingBackend,
+  createEmbeddingBackend
+} from '../retrieval/EmbeddingBackend';
+import { Chapter, Character, Scene, Story } from '../../../shared/types/Story';
+
+const character = (id: string, name: string, personality: string[], description?: string): Character => ({
+  id,
+  name,
+  description,
+  archetype: { primary: 'Mentor', description: '', commonTraits: [] },
+  traits: { personality, motivations: [], fears: [], strengths: [], weaknesses: [], quirks: [] },
+  relationships: [],
+  developmentArc: { startState: '', endState: '', keyMoments: [], completed: false },
+  voiceProfile: { vocabulary: [], speechPatterns: [], commonPhrases: [], formalityLevel: 5, emotionalRange: [] }
+});
+
+const scene = (id: string, chapterId: string, order: number, content: string, title?: string): Scene => ({
+  id,
+  chapterId,
+  order,
+  title,
+  characters: [],
+  content,
+  mood: 'tense',
+  purpose: { type: 'plot', description: '', objectives: [] },
+  setting: {
+    location: 'Lighthouse',
+    timeOfDay: 'night',
+    atmosphere: 'stormy',
+    sensoryDetails: { visual: [], auditory: [], tactile: [], olfactory: [], gustatory: [] }
+  }
+});
+
+const chapter = (id: string, order: number, title: string, scenes: Scene[], content = ''): Chapter => ({
+  id,
+  storyId: 'story-1',
+  title,
+  order,
+  scenes,
+  content,
+  wordCount: 0
+});
+
+const buildStory = (id = 'story-1', homecoming = 'The lamp sputtered. Tom stood dripping in the doorway.'): Story => ({
+  id,
+  title: 'The Keeper',
+  genre: [{ name: 'mystery', subgenres: [], conventions: [], tropes: [] }],
+  structure: { type: 'three-act', beats: [] },
+  characters: [
+    character('mira', 'Mira', ['stubborn', 'curious'], 'Keeper of the north light, afraid of open water.'),
+    character('tom', 'Tom', ['reckless'])
+  ],
+  chapters: [
+    chapter('ch-1', 1, 'Arrival', [
+      scene('s-1', 'ch-1', 1, 'Mira climbs the ninety stairs to the lamp room and winds the clockwork.', 'The Stairs')
+    ]),
+    chapter('ch-2', 2, 'The Letter', [], 'A letter arrives from the mainland. The seal is broken.'),
+    chapter('ch-3', 3, 'Storm', [
+      scene('s-3a', 'ch-3', 1, 'Vera watches the harbor from the cliffs.'),
+      scene('s-3b', 'ch-3', 2, homecoming, 'Homecoming')
+    ])
+  ],
+  metadata: { targetWordCount: 0, currentWordCount: 0, targetAudience: 'adult', contentRating: '', tags: [], notes: '' },
+  analysisCache: { lastAnalyzed: new Date(0) },
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  setting: 'A remote island off a northern coast.',
+  worldBuilding: {
+    locations: [{ name: 'Harbor', description: 'A fishing village below the cliffs.' }],
+    items: [{ name: 'Brass key', description: 'Opens the lamp room.' }]
+  }
+});
+
+// Places each text on one of a few fixed topics, so similarity is predictable
+const TOPICS: Array<[RegExp, number]> = [[/lamp|light/i, 0], [/letter|mail|post/i, 1], [/sea|water|harbor/i, 2]];
+
+class FakeEmbeddingBackend implements EmbeddingBackend {
+  readonly name = 'fake';
+  available = true;
+  embedded: string[] = [];
+
+  async isAvailable(): Promise<boolean> {
+    return this.available;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.embedded.push(...texts);
+    return texts.map(text => {
+      const vector = [0, 0, 0, 0.01];
+      for (const [pattern, dimension] of TOPICS) {
+        if (pattern.test(text)) vector[dimension] = 1;
+      }
+      return vector;
+    });
+  }
+}
+
+describe('RetrievalIndex', () => {
+  let index: RetrievalIndex;
+
+  beforeEach(() => {
+    index = new RetrievalIndex();
+  });
+
+  describe('lexical retrieval', () => {
+    beforeEach(() => {
+      index.indexStory(buildStory());
+    });
+
+    it('should index scenes, scene-less chapters, characters and world entries', async () => {
+      expect(index.size).toBe(9);
+      expect(index.mode).toBe('lexical');
+
+      const [passage] = await index.query('ninety stairs');
+      expect(passage).toMatchObject({
+        id: 'scene:s-1:0',
+        storyId: 'story-1',
+        type: 'scene',
+        label: 'Chapter 1 (Arrival), The Stairs',
+        chapterId: 'ch-1',
+        sceneId: 's-1'
+      });
+      expect(passage.score).toBeGreaterThan(0);
+    });
+
+    it('should find character profiles and world building entries', async () => {
+      expect((await index.query('afraid of water'))[0]).toMatchObject({ id: 'character:mira', characterId: 'mira' });
+      expect((await index.query('brass key'))[0]).toMatchObject({ type: 'world', label: 'World: Brass key' });
+      expect((await index.query('letter from the mainland'))[0]).toMatchObject({ id: 'chapter:ch-2:0', chapterId: 'ch-2' });
+    });
+
+    it('should apply the story, type and scene filters and the result limit', async () => {
+      index.indexStory(buildStory('story-2'));
+
+      const results = await index.query('lamp', { storyId: 'story-2', types: ['scene'], excludeSceneIds: ['s-3b'], topK: 1 });
+
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ storyId: 'story-2', type: 'scene', sceneId: 's-1' });
+      expect(await index.query('lamp', { storyId: 'story-3' })).toEqual([]);
+    });
+
+    it('should follow edits and removals', async () => {
+      index.indexStory(buildStory('story-1', 'Tom never came back.'));
+      expect((await index.query('sputtered')).length).toBe(0);
+      expect((await index.query('never came back'))[0].sceneId).toBe('s-3b');
+
+      index.removeStory('story-1');
+      expect(index.size).toBe(0);
+      expect(await index.query('Mira')).toEqual([]);
+    });
+
+    it('should split long scenes into passages at paragraph breaks', async () => {
+      const paragraph = (word: string) => `${word} `.repeat(300).trim();
+      const story = buildStory('story-1', [paragraph('gull'), paragraph('tide'), paragraph('rope')].join('\n\n'));
+      index.indexStory(story);
+
+      const [passage] = await index.query('tide', { types: ['scene'] });
+
+      expect(passage.id).toBe('scene:s-3b:1');
+      expect(passage.text).toBe(paragraph('tide'));
+    });
+  });
+
+  describe('hybrid retrieval', () => {
+    let backend: FakeEmbeddingBackend;
+
+    beforeEach(async () => {
+      backend = new FakeEmbeddingBackend();
+      index = new RetrievalIndex(backend);
+      index.indexStory(buildStory());
+      await index.whenIdle();
+    });
+
+    it('should find passages that share no words with the query', async () => {
+      expect(index.mode).toBe('hybrid');
+
+      const results = await index.query('correspondence by post', { types: ['chapter', 'scene'] });
+
+      expect(results[0].id).toBe('chapter:ch-2:0');
+    });
+
+    it('should only embed passages that changed', async () => {
+      backend.embedded = [];
+
+      await index.indexStory(buildStory('story-1', 'Tom never came back.'));
+
+      expect(backend.embedded).toEqual(['Chapter 3 (Storm), Homecoming\nTom never came back.']);
+    });
+
+    it('should fall back to lexical ranking when the query cannot be embedded', async () => {
+      jest.spyOn(backend, 'embed').mockRejectedValueOnce(new Error('service stopped'));
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const [passage] = await index.query('ninety stairs');
+
+      expect(passage.id).toBe('scene:s-1:0');
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('using lexical retrieval'), expect.any(Error));
+      warn.mockRestore();
+    });
+
+    it('should stay lexical while the backend is unavailable and pick it up later', async () => {
+      const offline = new FakeEmbeddingBackend();
+      offline.available = false;
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await index.setEmbeddingBackend(offline);
+      expect(index.mode).toBe('lexical');
+      expect(warn).toHaveBeenCalledWith('Embedding backend fake is not available, using lexical retrieval');
+
+      offline.available = true;
+      await index.indexStory(buildStory());
+      expect(index.mode).toBe('hybrid');
+      expect(offline.embedded).toHaveLength(index.size);
+      warn.mockRestore();
+    });
+  });
+
+  it('should format passages for a prompt with numbered citations', () => {
+    const text = RetrievalIndex.formatPassages([
+      { id: 'scene:s-1:0', storyId: 'story-1', type: 'scene', label: 'Chapter 1 (Arrival)', text: 'Mira climbs.', score: 1, sceneId: 's-1' },
+      { id: 'character:tom', storyId: 'story-1', type: 'character', label: 'Character: Tom', text: 'Tom\nPersonality: reckless', score: 0.5 }
+    ]);
+
+    expect(text).toBe(
+      'Relevant passages from the manuscript:\n\n[1] Chapter 1 (Arrival)\nMira climbs.\n\n[2] Character: Tom\nTom\nPersonality: reckless'
+    );
+  });
+});
+
+describe('Embedding backends', () => {
+  const mockFetch = jest.fn();
+
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    mockFetch.mockReset();
+  });
+
+  it('should embed through the Ollama embed endpoint', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ embeddings: [[1, 2], [3, 4]] }) });
+    const backend = new OllamaEmbeddingBackend('nomic-embed-text');
+
+    expect(await backend.embed(['a', 'b'])).toEqual([[1, 2], [3, 4]]);
+    expect(mockFetch).toHaveBeenCalledWith('http://localhost:11434/api/embed', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ model: 'nomic-embed-text', input: ['a', 'b'] })
+    }));
+  });
+
+  it('should report an Ollama embedding model as available only once it is pulled', async () => {
+    const backend = new OllamaEmbeddingBackend('nomic-embed-text');
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ models: [{ name: 'nomic-embed-text:latest' }] }) });
+    expect(await backend.isAvailable()).toBe(true);
+
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ models: [{ name: 'llama3.1:8b' }] }) });
+    expect(await backend.isAvailable()).toBe(false);
+
+    mockFetch.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+    expect(await backend.isAvailable()).toBe(false);
+  });
+
+  it('should order OpenAI-compatible embeddings by index', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ data: [{ index: 1, embedding: [3, 4] }, { index: 0, embedding: [1, 2] }] })
+    });
+    const backend = new OpenAICompatibleEmbeddingBackend('nomic-embed', 'http://localhost:1234/v1/');
+
+    expect(await backend.embed(['a', 'b'])).toEqual([[1, 2], [3, 4]]);
+    expect(mockFetch.mock.calls[0][0]).toBe('http://localhost:1234/v1/embeddings');
+  });
+
+  it('should only create a backend for local providers with an embedding model', () => {
+    const provider = (name: string, type: 'local' | 'cloud', parameters: any, priority = 5) => ({
+      name,
+      type,
+      enabled: true,
+      priority,
+      taskPreferences: {},
+      config: { endpoint: 'http://127.0.0.1:11434/api', parameters }
+    });
+
+    expect(createEmbeddingBackend([provider('openai', 'cloud', { embeddingModel: 'text-embedding-3-small' })])).toBeNull();
+    expect(createEmbeddingBackend([provider('Ollama', 'local', {})])).toBeNull();
+
+    const backend = createEmbeddingBackend([
+      provider('LM Studio', 'local', { embeddingModel: 'nomic-embed' }, 3),
+      provider('Ollama', 'local', { embeddingModel: 'nomic-embed-text' }, 8)
+    ]);
+    expect(backend).toBeInstanceOf(OllamaEmbeddingBackend);
+    expect(backend!.name).toBe('ollama:nomic-embed-text');
+  });
+});
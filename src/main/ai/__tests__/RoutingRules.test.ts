@@ -0,0 +1,92 @@
+import { RoutingRules } from '../routing/RoutingRules';
+import { RoutingFacts, RoutingRule } from '../../../shared/types/AI';
+
+const facts = (overrides: Partial<RoutingFacts> = {}): RoutingFacts => ({
+  requestType: 'prose_generation',
+  estimatedTokens: 500,
+  storyTags: [],
+  time: '14:00',
+  budgetRemaining: null,
+  providerHealth: { 'Local Llama': 'healthy', 'OpenAI GPT-4': 'healthy' },
+  ...overrides
+});
+
+describe('RoutingRules', () => {
+  describe('evaluation', () => {
+    it('should use the first matching rule and report why earlier rules did not match', () => {
+      const rules: RoutingRule[] = [
+        { id: 'private', when: { storyTags: ['private'] }, requireOffline: true, fallbackStrategy: 'priority' },
+        { id: 'long', when: { minTokens: 2000 }, preferredProvider: 'Claude', fallbackStrategy: 'priority' },
+        { id: 'prose', requestType: 'prose_generation', preferredProviderType: 'cloud', fallbackStrategy: 'priority' }
+      ];
+
+      const { matched, evaluations } = RoutingRules.evaluate(rules, facts({ storyTags: ['Draft'] }));
+
+      expect(matched?.id).toBe('prose');
+      expect(evaluations.map(evaluation => [evaluation.rule.id, evaluation.matched, evaluation.reasons])).toEqual([
+        ['private', false, ['story has none of the tags private']],
+        ['long', false, ['~500 tokens is under 2000']],
+        ['prose', true, ['request type is prose_generation']]
+      ]);
+    });
+
+    it('should skip disabled rules and rules for other request types', () => {
+      const rules: RoutingRule[] = [
+        { id: 'off', enabled: false, fallbackStrategy: 'priority' },
+        { id: 'outline', requestType: 'outline', fallbackStrategy: 'priority' }
+      ];
+
+      const { matched, evaluations } = RoutingRules.evaluate(rules, facts());
+
+      expect(matched).toBeNull();
+      expect(evaluations[0].reasons).toEqual(['rule is disabled']);
+      expect(evaluations[1].reasons).toEqual(['request type is prose_generation, not outline']);
+    });
+
+    it('should match tags and content ratings regardless of case', () => {
+      const rule: RoutingRule = { when: { storyTags: ['Private'], contentRatings: ['mature'] }, fallbackStrategy: 'priority' };
+
+      expect(RoutingRules.check(rule, facts({ storyTags: ['private'], contentRating: 'Mature' })).matched).toBe(true);
+      expect(RoutingRules.check(rule, facts({ storyTags: ['private'] })).reasons)
+        .toEqual(['content rating is not set, not one of mature']);
+    });
+  });
+
+  describe('conditions', () => {
+    it('should match time windows that wrap past midnight', () => {
+      const rule: RoutingRule = { when: { timeWindow: { start: '22:00', end: '06:00' } }, fallbackStrategy: 'priority' };
+
+      expect(RoutingRules.check(rule, facts({ time: '23:30' })).matched).toBe(true);
+      expect(RoutingRules.check(rule, facts({ time: '05:59' })).matched).toBe(true);
+      expect(RoutingRules.check(rule, facts({ time: '06:00' })).matched).toBe(false);
+    });
+
+    it('should only match low budgets when a budget covers the request', () => {
+      const rule: RoutingRule = { when: { budgetRemainingBelow: 1 }, fallbackStrategy: 'priority' };
+
+      expect(RoutingRules.check(rule, facts({ budgetRemaining: 0.4 })).matched).toBe(true);
+      expect(RoutingRules.check(rule, facts({ budgetRemaining: 3 })).matched).toBe(false);
+      expect(RoutingRules.check(rule, facts()).reasons).toEqual(['no budget covers the request']);
+    });
+
+    it('should treat providers that are not available as unhealthy', () => {
+      const rule: RoutingRule = { when: { providerHealth: { provider: 'Claude', states: ['unhealthy'] } }, fallbackStrategy: 'priority' };
+
+      expect(RoutingRules.check(rule, facts()).matched).toBe(true);
+      expect(RoutingRules.check(rule, facts({ providerHealth: { Claude: 'degraded' } })).reasons)
+        .toEqual(['Claude is degraded, not unhealthy']);
+    });
+  });
+
+  it('should report rules that can never work as intended', () => {
+    expect(RoutingRules.validate({
+      when: { minTokens: 4000, maxTokens: 1000, timeWindow: { start: '9:00', end: '17:00' } },
+      fallbackChain: ['Ollama', ''],
+      fallbackStrategy: 'priority'
+    })).toEqual([
+      'minTokens is larger than maxTokens',
+      'timeWindow.start must be HH:MM, got "9:00"',
+      'fallbackChain contains an empty provider name'
+    ]);
+  });
+});
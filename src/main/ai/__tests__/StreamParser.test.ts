@@ -0,0 +1,123 @@
+import { TextEncoder } from 'util';
+import { StreamParser } from '../providers/StreamParser';
+
+// Builds a fetch-like response body that delivers the given network chunks
+function createBody(chunks: string[]): AsyncIterable<Uint8Array> {
+  const encoder = new TextEncoder();
+  return {
+    async *[Symbol.asyncIterator]() {
+      for (const chunk of chunks) {
+        yield encoder.encode(chunk);
+      }
+    }
+  };
+}
+
+async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of stream) items.push(item);
+  return items;
+}
+
+describe('StreamParser', () => {
+  describe('readLines', () => {
+    it('should join lines split across network chunks', async () => {
+      const lines = await collect(StreamParser.readLines(createBody(['first li', 'ne\r\nsecond\n', 'third'])));
+
+      expect(lines).toEqual(['first line', 'second', 'third']);
+    });
+
+    it('should decode multi-byte characters split across chunks', async () => {
+      const bytes = new TextEncoder().encode('café\n');
+      const body = {
+        async *[Symbol.asyncIterator]() {
+          yield bytes.slice(0, 4);
+          yield bytes.slice(4);
+        }
+      };
+
+      expect(await collect(StreamParser.readLines(body))).toEqual(['café']);
+    });
+
+    it('should reject a missing body', async () => {
+      await expect(collect(StreamParser.readLines(null))).rejects.toThrow('Response has no body to stream');
+    });
+  });
+
+  describe('readEvents', () => {
+    it('should parse event names, multi-line data and comments', async () => {
+      const events = await collect(StreamParser.readEvents(createBody([
+        ': keep-alive\n\n',
+        'event: message_start\ndata: {"a":1}\n\n',
+        'data: line one\ndata: line two\n\n'
+      ])));
+
+      expect(events).toEqual([
+        { event: 'message_start', data: '{"a":1}' },
+        { event: undefined, data: 'line one\nline two' }
+      ]);
+    });
+
+    it('should emit a final event without a trailing blank line', async () => {
+      const events = await collect(StreamParser.readEvents(createBody(['data: last'])));
+
+      expect(events).toEqual([{ event: undefined, data: 'last' }]);
+    });
+  });
+
+  describe('readChatCompletionChunks', () => {
+    const event = (payload: any) => `data: ${JSON.stringify(payload)}\n\n`;
+
+    it('should yield content deltas followed by a done chunk with usage', async () => {
+      const chunks = await collect(StreamParser.readChatCompletionChunks(createBody([
+        event({ model: 'gpt-4', choices: [{ delta: { role: 'assistant' } }] }),
+        event({ model: 'gpt-4', choices: [{ delta: { content: 'Once' } }] }),
+        event({ model: 'gpt-4', choices: [{ delta: { content: ' upon' }, finish_reason: 'stop' }] }),
+        event({ model: 'gpt-4', choices: [], usage: { total_tokens: 42 } }),
+        'data: [DONE]\n\n'
+      ]), 'OpenAI'));
+
+      expect(chunks).toEqual([
+        { content: 'Once', done: false },
+        { content: ' upon', done: false },
+        {
+          content: '',
+          done: true,
+          metadata: { model: 'gpt-4', provider: 'OpenAI', tokensUsed: 42, finishReason: 'stop' }
+        }
+      ]);
+    });
+
+    it('should ignore events after [DONE]', async () => {
+      const chunks = await collect(StreamParser.readChatCompletionChunks(createBody([
+        'data: [DONE]\n\n',
+        event({ choices: [{ delta: { content: 'late' } }] })
+      ]), 'OpenAI'));
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].done).toBe(true);
+    });
+
+    it('should skip malformed events', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const chunks = await collect(StreamParser.readChatCompletionChunks(createBody([
+        'data: {not json\n\n',
+        event({ choices: [{ delta: { content: 'ok' } }] })
+      ]), 'Mistral'));
+
+      expect(chunks[0]).toEqual({ content: 'ok', done: false });
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('should throw when the stream reports an error', async () => {
+      const stream = StreamParser.readChatCompletionChunks(createBody([
+        event({ choices: [{ delta: { content: 'Partial' } }] }),
+        event({ error: { message: 'Rate limit exceeded' } })
+      ]), 'OpenRouter');
+
+      await expect(collect(stream)).rejects.toThrow('Rate limit exceeded');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { StructuredOutput, StructuredOutputError } from '../structured/StructuredOutput';
+import { ANALYSIS_RESULTS, CONSISTENCY_REPORT_SCHEMA, PACING_ANALYSIS_SCHEMA, STORY_ANALYSIS_OUTPUT } from '../structured/AnalysisSchemas';
+import { RequestCancelledError } from '../RequestCancellation';
+
+const validAnalysis = {
+  structure: { identifiedStructure: 'three-act', completedBeats: [], missingBeats: ['Midpoint'], suggestions: [], confidence: 0.8 },
+  characters: { consistencyScore: 0.7, voiceConsistency: 0.8, developmentProgress: 0.6, relationshipHealth: [], suggestions: [] },
+  pacing: { overallPacing: 'too-slow', tensionCurve: [{ tensionLevel: 4, type: 'rising' }], recommendations: ['Cut the second flashback'] },
+  consistency: { overallScore: 0.9, plotHoles: [], characterInconsistencies: [], worldBuildingIssues: [] },
+  overallScore: 0.75,
+  recommendations: []
+};
+
+describe('StructuredOutput', () => {
+  describe('extracting JSON', () => {
+    it('should read replies wrapped in prose or code fences', () => {
+      expect(StructuredOutput.extractJSON('{"a": 1}')).toEqual({ a: 1 });
+      expect(StructuredOutput.extractJSON('Sure!\n```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+      expect(StructuredOutput.extractJSON('The analysis is {"a": {"b": 2}} as requested.')).toEqual({ a: { b: 2 } });
+    });
+
+    it('should tolerate trailing commas', () => {
+      expect(StructuredOutput.extractJSON('{"a": [1, 2,], "b": 3,}')).toEqual({ a: [1, 2], b: 3 });
+    });
+
+    it('should return undefined when there is no JSON', () => {
+      expect(StructuredOutput.extractJSON('The story is well paced.')).toBeUndefined();
+    });
+  });
+
+  describe('repair', () => {
+    it('should fix numbers, enum spelling and single items sent in place of lists', () => {
+      const repaired = StructuredOutput.repair({
+        overallPacing: 'Too Slow',
+        tensionCurve: { tensionLevel: '7', type: 'Climax' },
+        recommendations: 'Trim chapter three'
+      }, PACING_ANALYSIS_SCHEMA);
+
+      expect(repaired).toEqual({
+        overallPacing: 'too-slow',
+        tensionCurve: [{ tensionLevel: 7, type: 'climax' }],
+        recommendations: ['Trim chapter three']
+      });
+    });
+
+    it('should rescale scores given out of 100', () => {
+      const repaired = StructuredOutput.repair({ ...validAnalysis, overallScore: 82, structure: { ...validAnalysis.structure, confidence: '90%' } }, STORY_ANALYSIS_OUTPUT.schema);
+
+      expect(repaired.overallScore).toBeCloseTo(0.82);
+      expect(repaired.structure.confidence).toBeCloseTo(0.9);
+    });
+
+    it('should expand plain-text list entries into objects and fill defaults', () => {
+      const repaired = StructuredOutput.repair({
+        overallScore: 0.6,
+        plotHoles: ['The key is in two places at once']
+      }, CONSISTENCY_REPORT_SCHEMA);
+
+      expect(repaired.plotHoles).toEqual([{
+        description: 'The key is in two places at once',
+        severity: 'moderate',
+        location: { chapterId: '' },
+        suggestions: []
+      }]);
+      expect(repaired.characterInconsistencies).toEqual([]);
+      expect(StructuredOutput.validate(repaired, CONSISTENCY_REPORT_SCHEMA)).toEqual([]);
+    });
+  });
+
+  describe('validation', () => {
+    it('should report each mismatch with its path', () => {
+      const issues = StructuredOutput.validate({
+        ...validAnalysis,
+        characters: { ...validAnalysis.characters, voiceConsistency: undefined },
+        pacing: { ...validAnalysis.pacing, tensionCurve: [{ tensionLevel: 14, type: 'rising' }] }
+      }, STORY_ANALYSIS_OUTPUT.schema);
+
+      expect(issues).toEqual([
+        { path: '$.characters.voiceConsistency', message: 'is required' },
+        { path: '$.pacing.tensionCurve[0].tensionLevel', message: 'must be between 1 and 10, got 14' }
+      ]);
+    });
+
+    it('should accept extra keys providers add', () => {
+      expect(StructuredOutput.validate({ ...validAnalysis, literaryElements: { themes: [] } }, STORY_ANALYSIS_OUTPUT.schema)).toEqual([]);
+    });
+  });
+
+  describe('generation', () => {
+    it('should ask again with the issues until the reply validates', async () => {
+      const ask = jest.fn()
+        .mockResolvedValueOnce('I could not analyze this story.')
+        .mockResolvedValueOnce(JSON.stringify(validAnalysis));
+
+      const result = await StructuredOutput.generate(STORY_ANALYSIS_OUTPUT, ask);
+
+      expect(result).toEqual(validAnalysis);
+      expect(ask).toHaveBeenCalledTimes(2);
+      expect(ask.mock.calls[0][0]).toBeUndefined();
+      expect(ask.mock.calls[1][0]).toMatchObject({
+        attempt: 2,
+        previous: 'I could not analyze this story.',
+        feedback: expect.stringContaining('$ is not valid JSON')
+      });
+    });
+
+    it('should stop after the retry budget', async () => {
+      const ask = jest.fn().mockResolvedValue('{"overallScore": 0.5}');
+
+      const error = await StructuredOutput.generate(STORY_ANALYSIS_OUTPUT, ask, { maxRetries: 1 }).catch(caught => caught);
+
+      expect(ask).toHaveBeenCalledTimes(2);
+      expect(error).toBeInstanceOf(StructuredOutputError);
+      expect(error.raw).toBe('{"overallScore": 0.5}');
+      expect(error.issues.map((issue: any) => issue.path)).toEqual(['$.structure', '$.characters', '$.pacing', '$.consistency']);
+    });
+
+    it('should not ask again once the request is cancelled', async () => {
+      const controller = new AbortController();
+      const ask = jest.fn().mockImplementation(async () => {
+        controller.abort();
+        return 'not JSON';
+      });
+
+      await expect(StructuredOutput.generate(STORY_ANALYSIS_OUTPUT, ask, { signal: controller.signal }))
+        .rejects.toBeInstanceOf(RequestCancelledError);
+      expect(ask).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('analysis results', () => {
+    it('should cut the narrower result types from a story analysis', () => {
+      expect(ANALYSIS_RESULTS.pacing_analysis.select(validAnalysis as any)).toBe(validAnalysis.pacing);
+      expect(ANALYSIS_RESULTS.plot_hole_detection.select(validAnalysis as any)).toBe(validAnalysis.consistency);
+    });
+
+    it('should drop non-standard keywords from schemas sent to providers', () => {
+      const schema = StructuredOutput.toJSONSchema(CONSISTENCY_REPORT_SCHEMA);
+
+      expect(JSON.stringify(schema)).not.toContain('coerceFrom');
+      expect(schema.properties.plotHoles.items.required).toContain('description');
+    });
+  });
+});
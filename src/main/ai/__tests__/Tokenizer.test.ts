@@ -266,6 +266,80 @@ describe('Tokenizer', () => {
     });
   });
 
+  describe('Byte-level BPE', () => {
+    // Every byte spelled GPT-2 style, plus a handful of merges
+    const byteChars = (text: string) => Array.from(Buffer.from(text, 'utf-8'), b => byteSymbols[b]).join('');
+    const byteSymbols: string[] = [];
+    const visible = (b: number) => (b >= 0x21 && b <= 0x7e) || (b >= 0xa1 && b <= 0xac) || (b >= 0xae && b <= 0xff);
+    let shifted = 0;
+    for (let b = 0; b < 256; b++) {
+      byteSymbols[b] = String.fromCharCode(visible(b) ? b : 256 + shifted++);
+    }
+
+    const merges: Array<[string, string]> = [['Ġ', 't'], ['h', 'e'], ['Ġt', 'he'], ['Ġ', 'c'], ['a', 't']];
+    const vocab = new Map<string, number>(byteSymbols.map((symbol, id) => [symbol, id]));
+    ['Ġt', 'he', 'Ġthe', 'Ġc', 'at', '<|endoftext|>'].forEach((token, i) => vocab.set(token, 256 + i));
+
+    let tokenizer: BPETokenizer;
+
+    beforeEach(() => {
+      tokenizer = new BPETokenizer(config, merges, vocab);
+    });
+
+    it('should apply merges in rank order', () => {
+      expect(tokenizer.encode('the cat', false).tokenStrings).toEqual(['t', 'he', 'Ġc', 'at']);
+      expect(tokenizer.encode(' the', false).tokenStrings).toEqual(['Ġthe']);
+    });
+
+    it('should round-trip arbitrary text through bytes', () => {
+      const text = 'The cat said “héllo” 🐈\n\tthen left.';
+      const encoded = tokenizer.encode(text, false);
+
+      expect(tokenizer.decode(encoded.tokens)).toBe(text);
+      expect(encoded.tokenStrings).toContain(byteChars('🐈').slice(0, 1));
+    });
+
+    it('should keep special tokens in the text intact', () => {
+      const encoded = tokenizer.encode('the<|endoftext|>the', false);
+
+      expect(encoded.tokens).toEqual([116, 257, 261, 116, 257]);
+      expect(encoded.specialTokenMask).toEqual([0, 0, 1, 0, 0]);
+    });
+
+    it('should give special tokens missing from the vocabulary their own ids', () => {
+      const specialIds = Array.from(tokenizer.getSpecialTokens().values());
+
+      expect(tokenizer.getSpecialTokens().get('<|endoftext|>')).toBe(261);
+      expect(new Set(specialIds).size).toBe(specialIds.length);
+      expect(specialIds.filter(id => id !== 261).every(id => id > 261)).toBe(true);
+    });
+
+    it('should count tokens without special tokens or truncation', () => {
+      const shortTokenizer = new BPETokenizer({ ...config, maxLength: 4 }, merges, vocab);
+
+      expect(shortTokenizer.count('the cat the cat')).toBe(7);
+      expect(shortTokenizer.encode('the cat the cat').tokens).toHaveLength(4);
+    });
+  });
+
+  describe('SentencePiece BPE', () => {
+    const vocab = new Map<string, number>([
+      ['<unk>', 0], ['<s>', 1], ['</s>', 2], ['<0xC3>', 3], ['<0xA9>', 4],
+      ['▁', 5], ['c', 6], ['a', 7], ['f', 8], ['▁c', 9], ['af', 10], ['▁caf', 11]
+    ]);
+    const merges: Array<[string, string]> = [['▁', 'c'], ['a', 'f'], ['▁c', 'af']];
+    const sentencePieceConfig = { ...getDefaultTokenizerConfig(), unknownToken: '<unk>', bosToken: '<s>', eosToken: '</s>' };
+
+    it('should mark word starts and fall back to byte tokens', () => {
+      const tokenizer = new BPETokenizer(sentencePieceConfig, merges, vocab, { preTokenizer: 'metaspace' });
+      const encoded = tokenizer.encode('café caf');
+
+      expect(encoded.tokenStrings).toEqual(['<s>', '▁caf', '<0xC3>', '<0xA9>', '▁caf', '</s>']);
+      expect(encoded.tokens).toEqual([1, 11, 3, 4, 11, 2]);
+      expect(tokenizer.decode(encoded.tokens)).toBe('café caf');
+    });
+  });
+
   describe('Factory Functions', () => {
     it('should create word tokenizer', () => {
       const tokenizer = createTokenizer('word', config);
@@ -0,0 +1,145 @@
+jest.unmock('fs');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BPETokenizer, loadTokenizer } from '../inference/Tokenizer';
+import { TokenizerRegistry } from '../inference/TokenizerRegistry';
+
+// A byte-level vocabulary covering printable ASCII plus a few merged words
+const writeVocabFiles = (dir: string) => {
+  const vocab: Record<string, number> = {};
+  for (let b = 0x21; b <= 0x7e; b++) {
+    vocab[String.fromCharCode(b)] = b - 0x21;
+  }
+  vocab['Ġ'] = 94;
+  ['Ġt', 'he', 'Ġthe', 'Ġs', 'ea', 'Ġsea', '<|endoftext|>'].forEach((token, i) => (vocab[token] = 95 + i));
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'vocab.json'), JSON.stringify(vocab));
+  fs.writeFileSync(path.join(dir, 'merges.txt'), '#version: 0.2\nĠ t\nh e\nĠt he\nĠ s\ne a\nĠs ea\n');
+  return vocab;
+};
+
+describe('TokenizerRegistry', () => {
+  let tokenizerDir: string;
+
+  beforeEach(() => {
+    tokenizerDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tokenizers-'));
+    TokenizerRegistry.setTokenizerDirectory(tokenizerDir);
+  });
+
+  afterEach(() => {
+    TokenizerRegistry.setTokenizerDirectory(null);
+    fs.rmSync(tokenizerDir, { recursive: true, force: true });
+  });
+
+  describe('loading', () => {
+    it('should load vocab.json and merges.txt', () => {
+      const vocab = writeVocabFiles(path.join(tokenizerDir, 'gpt2'));
+
+      const tokenizer = loadTokenizer(path.join(tokenizerDir, 'gpt2'));
+      const encoded = tokenizer.encode('to the sea', false);
+
+      expect(encoded.tokenStrings).toEqual(['t', 'o', 'Ġthe', 'Ġsea']);
+      expect(encoded.tokens).toEqual([vocab['t'], vocab['o'], vocab['Ġthe'], vocab['Ġsea']]);
+      expect(tokenizer.decode(encoded.tokens)).toBe('to the sea');
+    });
+
+    it('should load a Hugging Face tokenizer.json', () => {
+      const dir = path.join(tokenizerDir, 'hf');
+      fs.mkdirSync(dir);
+      fs.writeFileSync(path.join(dir, 'tokenizer.json'), JSON.stringify({
+        added_tokens: [{ id: 0, content: '<unk>' }, { id: 1, content: '<s>' }, { id: 2, content: '</s>' }],
+        normalizer: { type: 'Sequence', normalizers: [{ type: 'Prepend', prepend: '▁' }, { type: 'Replace', content: '▁' }] },
+        pre_tokenizer: null,
+        decoder: { type: 'Sequence', decoders: [{ type: 'ByteFallback' }] },
+        model: {
+          type: 'BPE',
+          unk_token: '<unk>',
+          vocab: { '<unk>': 0, '<s>': 1, '</s>': 2, '▁': 3, 's': 4, 'e': 5, 'a': 6, '▁s': 7, 'ea': 8, '▁sea': 9 },
+          merges: ['▁ s', 'e a', '▁s ea']
+        }
+      }));
+
+      const tokenizer = BPETokenizer.fromTokenizerJSON(path.join(dir, 'tokenizer.json'));
+      const encoded = tokenizer.encode('sea sea');
+
+      expect(encoded.tokens).toEqual([1, 9, 9, 2]);
+      expect(tokenizer.decode(encoded.tokens)).toBe('sea sea');
+    });
+
+    it('should reject tokenizer.json files that are not BPE', () => {
+      const file = path.join(tokenizerDir, 'tokenizer.json');
+      fs.writeFileSync(file, JSON.stringify({ model: { type: 'Unigram', vocab: [] } }));
+
+      expect(() => BPETokenizer.fromTokenizerJSON(file)).toThrow('Unsupported tokenizer model type: Unigram');
+    });
+
+    it('should fail when a directory has no tokenizer files', () => {
+      expect(() => loadTokenizer(tokenizerDir)).toThrow(`No tokenizer files found in ${tokenizerDir}`);
+    });
+  });
+
+  describe('model families', () => {
+    it.each([
+      ['gpt-4o-mini', 'o200k'],
+      ['o3-mini', 'o200k'],
+      ['gpt-4-turbo', 'cl100k'],
+      ['gpt-3.5-turbo', 'cl100k'],
+      ['claude-3-sonnet-20240229', 'claude'],
+      ['anthropic/claude-3-opus', 'claude'],
+      ['llama3.1:8b', 'llama3'],
+      ['meta-llama/Llama-3.2-3B-Instruct', 'llama3'],
+      ['mistral:7b', 'mistral'],
+      ['open-mixtral-8x7b', 'mistral'],
+      ['qwen2.5-7b-instruct', 'qwen'],
+      ['moonshot-v1-8k', 'moonshot'],
+      ['some-custom-model', 'generic']
+    ])('should map %s to %s', (model, family) => {
+      expect(TokenizerRegistry.getFamily(model).id).toBe(family);
+    });
+
+    it('should fall back to the provider family when the model is unknown', () => {
+      expect(TokenizerRegistry.getFamily(undefined, 'Anthropic').id).toBe('claude');
+      expect(TokenizerRegistry.getFamily('house-model', 'Ollama').id).toBe('llama3');
+    });
+
+    it('should let registered families take precedence', () => {
+      TokenizerRegistry.registerFamily({ id: 'house', name: 'House', patterns: [/^house-/], charsPerToken: 2 });
+
+      expect(TokenizerRegistry.getFamily('house-model').id).toBe('house');
+      expect(TokenizerRegistry.countTokens('abcdef', 'house-model')).toBe(3);
+    });
+  });
+
+  describe('counting', () => {
+    it('should estimate from the family ratio when no vocabulary is installed', () => {
+      const text = 'a'.repeat(35);
+
+      expect(TokenizerRegistry.countTokens(text, 'claude-3-haiku')).toBe(10);
+      expect(TokenizerRegistry.countTokens(text, 'gpt-4')).toBe(9);
+      expect(TokenizerRegistry.hasExactCounts('gpt-4')).toBe(false);
+      expect(TokenizerRegistry.countTokens('', 'gpt-4')).toBe(0);
+    });
+
+    it('should count exactly with the installed vocabulary', () => {
+      writeVocabFiles(path.join(tokenizerDir, 'cl100k'));
+
+      expect(TokenizerRegistry.hasExactCounts('gpt-4')).toBe(true);
+      expect(TokenizerRegistry.countTokens('to the sea', 'gpt-4')).toBe(4);
+      expect(TokenizerRegistry.countTokens('to the sea', 'claude-3-haiku')).toBe(3);
+    });
+
+    it('should fall back to estimates when the vocabulary is broken', () => {
+      const dir = path.join(tokenizerDir, 'llama3');
+      fs.mkdirSync(dir);
+      fs.writeFileSync(path.join(dir, 'tokenizer.json'), '{ not json');
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(TokenizerRegistry.countTokens('abcdefgh', 'llama3.1:8b')).toBe(2);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Failed to load Llama 3 tokenizer'), expect.anything());
+      warn.mockRestore();
+    });
+  });
+});
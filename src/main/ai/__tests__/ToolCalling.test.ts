@@ -0,0 +1,161 @@
+import { ToolCalling } from '../tools/ToolCalling';
+import { ToolRegistry } from '../tools/ToolRegistry';
+import { createStoryTools } from '../tools/StoryTools';
+import { StoryContext } from '../../../shared/types/AI';
+import { Story } from '../../../shared/types/Story';
+
+const context: StoryContext = { storyId: 'story-1', characters: [], genre: [], targetAudience: '' };
+
+const story = {
+  id: 'story-1',
+  title: 'The Harbour',
+  characters: [
+    {
+      id: 'char-1',
+      name: 'Mara Quill',
+      aliases: ['the Captain'],
+      traits: { personality: ['stubborn'], motivations: [], fears: [], strengths: [], weaknesses: [], quirks: [] },
+      relationships: [{ characterId: 'char-2', type: 'rival', intensity: 6, direction: 'mutual', status: 'revealed', description: 'Old crewmates' }],
+      voiceProfile: { vocabulary: [], speechPatterns: [], commonPhrases: [], formalityLevel: 3, emotionalRange: [] }
+    },
+    { id: 'char-2', name: 'Tobin', relationships: [] }
+  ],
+  chapters: [
+    {
+      id: 'ch-1',
+      title: 'Landfall',
+      order: 1,
+      scenes: [
+        { id: 'scene-2', chapterId: 'ch-1', title: 'The Storm', order: 2, content: 'Rain hammered the deck.', characters: ['char-1'] },
+        { id: 'scene-1', chapterId: 'ch-1', title: 'Arrival', order: 1, content: 'The ship came in.', characters: ['char-1', 'char-2'] }
+      ]
+    }
+  ]
+} as unknown as Story;
+
+describe('ToolCalling', () => {
+  describe('ToolRegistry', () => {
+    const echo = {
+      name: 'echo',
+      description: 'Echo the text',
+      parameters: { type: 'object' as const, properties: { text: { type: 'string' as const } }, required: ['text'] },
+      run: jest.fn(async (args: Record<string, any>) => ({ echoed: args.text }))
+    };
+
+    it('should run a tool and log the call in the audit log', async () => {
+      const auditLogger = { logDataAccess: jest.fn().mockResolvedValue(undefined) };
+      const registry = new ToolRegistry(auditLogger).register(echo);
+
+      const result = await registry.execute({ id: 'call-1', name: 'echo', arguments: { text: 'hi' } }, context, 'OpenAI');
+
+      expect(result).toEqual({ callId: 'call-1', name: 'echo', content: JSON.stringify({ echoed: 'hi' }, null, 2) });
+      expect(auditLogger.logDataAccess).toHaveBeenCalledWith(expect.objectContaining({
+        category: 'ai-tool',
+        action: 'echo',
+        resource: 'story:story-1',
+        accessMethod: 'ai-tool-call',
+        additionalDetails: expect.objectContaining({ provider: 'OpenAI', arguments: { text: 'hi' } })
+      }));
+    });
+
+    it('should return unknown tools and invalid arguments to the model as errors', async () => {
+      const registry = new ToolRegistry().register(echo);
+
+      const unknown = await registry.execute({ id: 'call-1', name: 'delete_story', arguments: {} }, context, 'OpenAI');
+      const invalid = await registry.execute({ id: 'call-2', name: 'echo', arguments: {} }, context, 'OpenAI');
+
+      expect(unknown).toMatchObject({ isError: true, content: 'Error: unknown tool "delete_story". Available tools: echo' });
+      expect(invalid).toMatchObject({ isError: true, content: 'Error: invalid arguments: $.text is required' });
+    });
+
+    it('should still answer when the audit log fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const registry = new ToolRegistry({ logDataAccess: jest.fn().mockRejectedValue(new Error('disk full')) }).register(echo);
+
+      const result = await registry.execute({ id: 'call-1', name: 'echo', arguments: { text: 'hi' } }, context, 'OpenAI');
+
+      expect(result.isError).toBeUndefined();
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
+  describe('story tools', () => {
+    const registry = new ToolRegistry();
+    createStoryTools({
+      loadStory: async id => (id === 'story-1' ? story : null),
+      search: async (query, options) => [
+        { id: 'scene:scene-1:0', storyId: options.storyId!, type: 'scene', label: 'Landfall, Arrival', text: `About ${query}`, score: 1 }
+      ]
+    }).forEach(tool => registry.register(tool));
+    const call = (name: string, args: Record<string, any>) => registry.execute({ id: 'call', name, arguments: args }, context, 'Anthropic');
+
+    it('should look up a character by alias or first name', async () => {
+      const byAlias = JSON.parse((await call('lookup_character', { name: 'the captain' })).content);
+      const byFirstName = JSON.parse((await call('lookup_character', { name: 'Mara' })).content);
+
+      expect(byAlias.name).toBe('Mara Quill');
+      expect(byAlias.relationships).toEqual([{ with: 'Tobin', type: 'rival', status: 'revealed', description: 'Old crewmates' }]);
+      expect(byFirstName.name).toBe('Mara Quill');
+      expect((await call('lookup_character', { name: 'Nobody' })).content).toBe('Error: no character named "Nobody". Characters: Mara Quill, Tobin');
+    });
+
+    it('should fetch a scene by title with its chapter and character names', async () => {
+      const scene = JSON.parse((await call('get_scene', { scene: 'arrival' })).content);
+
+      expect(scene).toMatchObject({ id: 'scene-1', chapter: 'Landfall', characters: ['Mara Quill', 'Tobin'], content: 'The ship came in.' });
+    });
+
+    it('should search the manuscript in the open story', async () => {
+      expect((await call('search_manuscript', { query: 'the storm', limit: 2 })).content).toContain('Landfall, Arrival\nAbout the storm');
+    });
+
+    it('should need an open story', async () => {
+      const result = await registry.execute({ id: 'call', name: 'get_scene', arguments: { scene: 'Arrival' } }, { ...context, storyId: undefined }, 'Anthropic');
+
+      expect(result).toMatchObject({ isError: true, content: 'Error: no story is open' });
+    });
+  });
+
+  describe('formats', () => {
+    const tools = [{ name: 'get_scene', description: 'Fetch a scene', parameters: { type: 'object' as const, properties: { scene: { type: 'string' as const } }, required: ['scene'] } }];
+
+    it('should convert definitions for OpenAI-compatible and Anthropic APIs', () => {
+      expect(ToolCalling.toOpenAI(tools)).toEqual([{
+        type: 'function',
+        function: { name: 'get_scene', description: 'Fetch a scene', parameters: { type: 'object', properties: { scene: { type: 'string' } }, required: ['scene'] } }
+      }]);
+      expect(ToolCalling.toAnthropic(tools)[0]).toMatchObject({ name: 'get_scene', input_schema: { type: 'object' } });
+    });
+
+    it('should read calls from either format', () => {
+      expect(ToolCalling.fromOpenAI([
+        { id: 'a', type: 'function', function: { name: 'get_scene', arguments: '{"scene":"Arrival"}' } },
+        { id: 'b', type: 'function', function: { name: 'get_scene', arguments: '{not json' } }
+      ])).toEqual([
+        { id: 'a', name: 'get_scene', arguments: { scene: 'Arrival' } },
+        { id: 'b', name: 'get_scene', arguments: {} }
+      ]);
+      expect(ToolCalling.fromAnthropic([
+        { type: 'text', text: 'Let me check.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'get_scene', input: { scene: 'Arrival' } }
+      ])).toEqual([{ id: 'toolu_1', name: 'get_scene', arguments: { scene: 'Arrival' } }]);
+    });
+
+    it('should send results back in each format', () => {
+      const results = [{ callId: 'a', name: 'get_scene', content: 'Error: no scene', isError: true }];
+
+      expect(ToolCalling.openAIResults(results)).toEqual([{ role: 'tool', tool_call_id: 'a', name: 'get_scene', content: 'Error: no scene' }]);
+      expect(ToolCalling.anthropicResults(results)).toEqual({
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'a', content: 'Error: no scene', is_error: true }]
+      });
+    });
+
+    it('should only offer tools for writing requests about a story', () => {
+      expect(ToolCalling.appliesTo(context)).toBe(true);
+      expect(ToolCalling.appliesTo({ ...context, requestType: 'infill' })).toBe(false);
+      expect(ToolCalling.appliesTo({ ...context, storyId: undefined })).toBe(false);
+    });
+  });
+});
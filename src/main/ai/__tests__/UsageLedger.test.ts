@@ -0,0 +1,268 @@
+import { UsageLedger, BudgetExceededError } from '../usage/UsageLedger';
+import { findModelPrice } from '../usage/ModelPrices';
+import { AIRequest, AIResponse, UsageBudget, UsageQuery, UsageRecord } from '../../../shared/types/AI';
+import { UsageSettings } from '../../config/ConfigManager';
+
+// In-memory stand-in for the DatabaseManager usage methods
+class FakeUsageStore {
+  records: UsageRecord[] = [];
+
+  async recordUsage(record: UsageRecord): Promise<void> {
+    this.records.push(record);
+  }
+
+  async getUsageRecords(query: UsageQuery = {}): Promise<UsageRecord[]> {
+    return this.filter(query);
+  }
+
+  async getUsageTotals(query: UsageQuery = {}) {
+    return this.sum(this.filter(query));
+  }
+
+  async getUsageBreakdown(query: UsageQuery, groupBy: string) {
+    const groups = new Map<string, UsageRecord[]>();
+    for (const record of this.filter(query)) {
+      const key = (record as any)[groupBy] || '';
+      groups.set(key, [...(groups.get(key) || []), record]);
+    }
+    return [...groups].map(([key, records]) => ({ key, ...this.sum(records) }));
+  }
+
+  private filter(query: UsageQuery): UsageRecord[] {
+    return this.records.filter(record =>
+      (!query.from || record.timestamp >= new Date(query.from)) &&
+      (!query.storyId || record.storyId === query.storyId)
+    );
+  }
+
+  private sum(records: UsageRecord[]) {
+    return {
+      requests: records.length,
+      inputTokens: records.reduce((total, record) => total + record.inputTokens, 0),
+      outputTokens: records.reduce((total, record) => total + record.outputTokens, 0),
+      cost: records.reduce((total, record) => total + record.cost, 0)
+    };
+  }
+}
+
+const createConfig = (settings: Partial<UsageSettings> = {}) => {
+  let usage: UsageSettings = { budgets: [], prices: {}, ...settings };
+  return {
+    getUsageSettings: () => usage,
+    updateUsageSettings: jest.fn((updates: Partial<UsageSettings>) => {
+      usage = { ...usage, ...updates };
+    })
+  };
+};
+
+const cloud = { name: 'OpenAI', type: 'cloud' } as any;
+const local = { name: 'Ollama', type: 'local' } as any;
+
+const request = (storyId = 'story-1'): AIRequest => ({
+  type: 'prose_generation',
+  content: 'Continue the scene.',
+  context: { storyId, characters: [], genre: [], targetAudience: '' }
+});
+
+const response = (model: string, metadata: Record<string, any> = {}): AIResponse => ({
+  content: 'The lamp went out.',
+  text: 'The lamp went out.',
+  confidence: 0.9,
+  metadata: { model, provider: 'OpenAI', tokensUsed: 0, responseTime: 10, ...metadata } as any
+});
+
+describe('UsageLedger', () => {
+  let store: FakeUsageStore;
+  let config: ReturnType<typeof createConfig>;
+  let ledger: UsageLedger;
+
+  const useBudgets = (budgets: UsageBudget[]) => {
+    config = createConfig({ budgets });
+    ledger = new UsageLedger(store as any, config as any);
+  };
+
+  beforeEach(() => {
+    store = new FakeUsageStore();
+    useBudgets([]);
+  });
+
+  describe('recording', () => {
+    it('should record reported token counts and price them from the table', async () => {
+      const record = await ledger.record(cloud, request(), response('gpt-4o-mini-2024-07-18', {
+        promptTokens: 1_000_000,
+        completionTokens: 500_000
+      }));
+
+      expect(record).toMatchObject({
+        provider: 'OpenAI',
+        providerType: 'cloud',
+        model: 'gpt-4o-mini-2024-07-18',
+        requestType: 'prose_generation',
+        storyId: 'story-1',
+        inputTokens: 1_000_000,
+        outputTokens: 500_000,
+        estimated: false,
+        priced: true
+      });
+      expect(record!.cost).toBeCloseTo(0.15 + 0.3);
+      expect(store.records).toEqual([record]);
+    });
+
+    it('should read Anthropic style token counts', () => {
+      const record = ledger.createRecord(
+        { name: 'Anthropic Claude', type: 'cloud' } as any,
+        request(),
+        response('claude-3-5-sonnet-20241022', { inputTokens: 2000, outputTokens: 1000 })
+      );
+
+      expect(record).toMatchObject({ inputTokens: 2000, outputTokens: 1000, estimated: false });
+      expect(record.cost).toBeCloseTo((2000 * 3 + 1000 * 15) / 1_000_000);
+    });
+
+    it('should estimate token counts the provider did not report', () => {
+      const record = ledger.createRecord(cloud, request(), response('gpt-4o', { tokensUsed: 40 }));
+
+      expect(record.estimated).toBe(true);
+      expect(record.outputTokens).toBeGreaterThan(0);
+      expect(record.inputTokens + record.outputTokens).toBe(40);
+    });
+
+    it('should prefer price overrides and never charge for local models', () => {
+      config = createConfig({ prices: { 'GPT-4o': { input: 1, output: 1 } } });
+      ledger = new UsageLedger(store as any, config as any);
+
+      expect(ledger.calculateCost(cloud, 'gpt-4o', 1_000_000, 1_000_000)).toEqual({ cost: 2, priced: true });
+      expect(ledger.calculateCost(local, 'gpt-4o', 1_000_000, 1_000_000)).toEqual({ cost: 0, priced: true });
+    });
+
+    it('should record unknown cloud models at no cost and say so', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const record = await ledger.record(cloud, request(), response('mystery-model', { promptTokens: 10, completionTokens: 10 }));
+
+      expect(record).toMatchObject({ cost: 0, priced: false });
+      expect(warn).toHaveBeenCalledWith('No price known for model mystery-model, recording its usage at no cost');
+      warn.mockRestore();
+    });
+
+    it('should not fail the request when the ledger cannot be written', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(store, 'recordUsage').mockRejectedValueOnce(new Error('Database not initialized'));
+
+      await expect(ledger.record(cloud, request(), response('gpt-4o'))).resolves.toBeNull();
+      expect(warn).toHaveBeenCalledWith('Failed to record AI usage:', expect.any(Error));
+      warn.mockRestore();
+    });
+  });
+
+  describe('budgets', () => {
+    // gpt-4 costs $30 per million input tokens, so each of these costs $3
+    const spend = (storyId = 'story-1') =>
+      ledger.record(cloud, request(storyId), response('gpt-4', { promptTokens: 100_000, completionTokens: 0 }));
+
+    it('should report spending against daily, monthly and story budgets', async () => {
+      useBudgets([
+        { id: 'day', period: 'daily', limit: 10, hardCap: false },
+        { id: 'month', period: 'monthly', limit: 100, hardCap: false },
+        { id: 'book', period: 'story', storyId: 'story-1', limit: 5, hardCap: false },
+        { id: 'other', period: 'story', storyId: 'story-2', limit: 5, hardCap: false }
+      ]);
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await spend();
+      await spend('story-2');
+      await spend('story-2');
+
+      const statuses = await ledger.getBudgetStatuses('story-1');
+      expect(statuses.map(status => [status.budget.id, status.state])).toEqual([
+        ['day', 'warning'],
+        ['month', 'ok'],
+        ['book', 'ok']
+      ]);
+      expect(statuses[0].spent).toBeCloseTo(9);
+      expect(statuses[2].remaining).toBeCloseTo(2);
+      expect((await ledger.getBudgetStatuses()).find(status => status.budget.id === 'other')!.state).toBe('exceeded');
+      warn.mockRestore();
+    });
+
+    it('should warn once when a request crosses a threshold', async () => {
+      useBudgets([{ id: 'day', period: 'daily', limit: 10, warnAt: 0.5, hardCap: false }]);
+      const warnings: any[] = [];
+      ledger.on('budget-warning', status => warnings.push(status));
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await spend();
+      await spend();
+      await spend();
+      await spend();
+
+      expect(warnings.map(status => status.state)).toEqual(['warning', 'exceeded']);
+      expect(warn).toHaveBeenCalledWith('Daily budget: $6.00 of $10.00 spent');
+      warn.mockRestore();
+    });
+
+    it('should block cloud requests once a hard-capped budget is used up', async () => {
+      useBudgets([{ id: 'book', period: 'story', storyId: 'story-1', limit: 3, hardCap: true }]);
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await expect(ledger.assertWithinBudget(cloud, request())).resolves.toBeUndefined();
+      await spend();
+
+      await expect(ledger.assertWithinBudget(cloud, request())).rejects.toThrow(
+        'Story budget for story-1 of $3.00 has been reached ($3.00 spent); cloud requests are blocked'
+      );
+      await expect(ledger.assertWithinBudget(cloud, request())).rejects.toBeInstanceOf(BudgetExceededError);
+      await expect(ledger.assertWithinBudget(local, request())).resolves.toBeUndefined();
+      await expect(ledger.assertWithinBudget(cloud, request('story-2'))).resolves.toBeUndefined();
+      (console.warn as jest.Mock).mockRestore();
+    });
+
+    it('should only warn for soft budgets', async () => {
+      useBudgets([{ id: 'day', period: 'daily', limit: 1, hardCap: false }]);
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await spend();
+
+      await expect(ledger.assertWithinBudget(cloud, request())).resolves.toBeUndefined();
+      (console.warn as jest.Mock).mockRestore();
+    });
+
+    it('should validate and save budgets', () => {
+      expect(() => ledger.setBudgets([
+        { id: '', period: 'story', limit: 5, hardCap: true },
+        { id: '', period: 'daily', limit: -1, warnAt: 2, hardCap: false }
+      ])).toThrow(
+        'Invalid budgets: Budget 1 is a story budget without a story ID; Budget 2 needs a limit of zero or more; ' +
+        'Budget 2 warning threshold must be between 0 and 1'
+      );
+
+      const [saved] = ledger.setBudgets([{ period: 'monthly', limit: 20 } as UsageBudget]);
+
+      expect(saved).toMatchObject({ period: 'monthly', limit: 20, hardCap: false });
+      expect(saved.id).toMatch(/^budget-/);
+      expect(ledger.getBudgets()).toEqual([saved]);
+    });
+  });
+
+  it('should build reports with totals, groups and budgets', async () => {
+    useBudgets([{ id: 'day', period: 'daily', limit: 10, hardCap: false }]);
+    await ledger.record(cloud, request(), response('gpt-4o', { promptTokens: 100, completionTokens: 50 }));
+    await ledger.record(local, request(), response('llama3.1:8b', { promptTokens: 10, completionTokens: 5 }));
+
+    const report = await ledger.getReport({}, 'providerType' as any);
+
+    expect(report.totals).toMatchObject({ requests: 2, inputTokens: 110, outputTokens: 55 });
+    expect(report.groups.map(group => group.key)).toEqual(['cloud', 'local']);
+    expect(report.budgets).toHaveLength(1);
+  });
+});
+
+describe('findModelPrice', () => {
+  it('should match the most specific model first', () => {
+    expect(findModelPrice('gpt-4o-mini')).toEqual({ input: 0.15, output: 0.6 });
+    expect(findModelPrice('gpt-4o-2024-08-06')).toEqual({ input: 2.5, output: 10 });
+    expect(findModelPrice('anthropic/claude-3.5-haiku')).toEqual({ input: 0.8, output: 4 });
+    expect(findModelPrice('mistral-large-latest')).toEqual({ input: 2, output: 6 });
+    expect(findModelPrice('llama3.1:8b')).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { VoiceDialogue } from '../dialogue/VoiceDialogue';
+import { Character } from '../../../shared/types/Story';
+
+const character = (id: string, name: string, voiceProfile: Partial<Character['voiceProfile']>, extra: Partial<Character> = {}): Character => ({
+  id,
+  name,
+  traits: { personality: [], motivations: [], fears: [], strengths: [], weaknesses: [], quirks: [] },
+  voiceProfile: { vocabulary: [], speechPatterns: [], commonPhrases: [], formalityLevel: 0, emotionalRange: [], ...voiceProfile },
+  ...extra
+} as Character);
+
+describe('VoiceDialogue', () => {
+  const ashby = character('char-1', 'Lord Ashby', {
+    vocabulary: ['propriety', 'indeed'],
+    commonPhrases: ['I dare say'],
+    speechPatterns: ['long, elaborate sentences'],
+    formalityLevel: 9
+  }, {
+    aliases: ['Ashby'],
+    traits: { personality: ['proud'], motivations: ['restore the family name'], fears: [], strengths: [], weaknesses: [], quirks: ['polishes his monocle'] }
+  });
+  const kit = character('char-2', 'Kit', {
+    vocabulary: ['mate'],
+    speechPatterns: ['short, clipped sentences'],
+    formalityLevel: 2
+  });
+
+  describe('scoring', () => {
+    it('should score a line in the speaker\'s voice highly', () => {
+      const { score, notes } = VoiceDialogue.scoreLine(
+        'Indeed, I dare say the propriety of this arrangement must be considered with considerable care before we proceed any further.',
+        ashby
+      );
+
+      expect(score).toBeGreaterThan(0.8);
+      expect(notes).toEqual(['uses propriety, indeed, I dare say']);
+    });
+
+    it('should score a line that drifts from the voice low and say why', () => {
+      const { score, notes } = VoiceDialogue.scoreLine("Yeah, I'm gonna grab the stuff.", ashby);
+
+      expect(score).toBeLessThan(0.4);
+      expect(notes).toEqual([
+        'sounds casual (1/10) for a speaker at 9/10',
+        'uses none of their usual words or phrases',
+        'missing long sentences'
+      ]);
+    });
+
+    it('should estimate formality from contractions, slang and word choice', () => {
+      expect(VoiceDialogue.estimateFormality("Nah mate, we ain't doing that.")).toBeLessThanOrEqual(2);
+      expect(VoiceDialogue.estimateFormality('The committee shall therefore reconvene tomorrow.')).toBeGreaterThanOrEqual(8);
+    });
+
+    it('should leave the score unset when the profile has nothing to compare', () => {
+      expect(VoiceDialogue.scoreLine('Hello there.', character('char-3', 'Blank', {})).score).toBeUndefined();
+    });
+  });
+
+  describe('attribution', () => {
+    it('should match speakers by name or alias, ignoring case', () => {
+      expect(VoiceDialogue.findCharacter('ashby', [ashby, kit])).toBe(ashby);
+      expect(VoiceDialogue.toLine('KIT', 'Move it, mate.', [ashby, kit])).toMatchObject({ speaker: 'Kit', characterId: 'char-2' });
+      expect(VoiceDialogue.toLine('Narrator', 'Rain fell.', [ashby, kit])).toEqual({
+        speaker: 'Narrator',
+        text: 'Rain fell.',
+        notes: ['speaker is not one of the scene characters']
+      });
+    });
+
+    it('should find speakers whose lines average below the threshold', () => {
+      const lines = [
+        VoiceDialogue.toLine('Kit', "Yeah, move it mate.", [ashby, kit]),
+        VoiceDialogue.toLine('Ashby', "Yeah, I'm gonna grab the stuff.", [ashby, kit])
+      ];
+
+      expect(VoiceDialogue.driftingSpeakers(lines, [ashby, kit], 0.6)).toEqual([ashby]);
+    });
+  });
+
+  describe('prompts', () => {
+    it('should describe each character\'s voice and the output shape', () => {
+      const prompt = VoiceDialogue.buildPrompt('They argue over the carriage', [ashby, kit]);
+
+      expect(prompt).toContain('- Lord Ashby: formality 9/10 (formal); favours words like propriety, indeed; speech patterns: long, elaborate sentences; often says "I dare say"; personality: proud; wants: restore the family name; quirks: polishes his monocle');
+      expect(prompt).toContain('- Kit: formality 2/10 (casual)');
+      expect(prompt).toContain('"speaker"');
+    });
+
+    it('should number the lines to rewrite from 1', () => {
+      const lines = [
+        VoiceDialogue.toLine('Kit', 'Oi.', [ashby, kit]),
+        VoiceDialogue.toLine('Lord Ashby', 'Yeah whatever.', [ashby, kit])
+      ];
+
+      const prompt = VoiceDialogue.buildRewritePrompt(lines, ashby, [1]);
+
+      expect(prompt).toContain('1. Kit: Oi.\n2. Lord Ashby: Yeah whatever.');
+      expect(prompt).toContain('Lines to rewrite: 2');
+    });
+  });
+});
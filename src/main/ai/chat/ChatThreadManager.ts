@@ -0,0 +1,288 @@
+import {
+  AIRequest,
+  ChatMessage,
+  ChatPinnedFact,
+  ChatReply,
+  ChatThread,
+  ChatThreadQuery,
+  ChatThreadScope,
+  StoryContext
+} from '../../../shared/types/AI';
+import { IdGenerator } from '../../../shared/utils/StoryUtils';
+import { DatabaseManager } from '../../database/DatabaseManager';
+import { TokenizerRegistry } from '../inference/TokenizerRegistry';
+import { AIEngine } from '../AIEngine';
+
+export type ChatThreadStore = Pick<
+  DatabaseManager,
+  'saveChatThread' | 'getChatThreads' | 'getChatThread' | 'deleteChatThread' | 'addChatMessages' | 'getChatMessages'
+>;
+
+export interface ChatThreadOptions {
+  historyTokens?: number; // prompt size at which older messages are summarized
+  keepRecentMessages?: number; // messages always sent word for word
+  summaryTokens?: number;
+}
+
+const DEFAULT_HISTORY_TOKENS = 3000;
+const DEFAULT_KEEP_RECENT_MESSAGES = 6;
+const DEFAULT_SUMMARY_TOKENS = 400;
+const TITLE_LENGTH = 60;
+
+// Persistent assistant conversations about a story, chapter or scene. Each
+// message is sent as one prompt holding the pinned facts, the running summary
+// and the messages since, so the conversation carries over whichever provider
+// the router picks for the next message. When that prompt grows past
+// historyTokens, all but the most recent messages are folded into the summary.
+export class ChatThreadManager {
+  private historyTokens: number;
+  private keepRecentMessages: number;
+  private summaryTokens: number;
+
+  constructor(
+    private store: ChatThreadStore,
+    private aiEngine: Pick<AIEngine, 'routeRequest'>,
+    options: ChatThreadOptions = {}
+  ) {
+    this.historyTokens = options.historyTokens ?? DEFAULT_HISTORY_TOKENS;
+    this.keepRecentMessages = options.keepRecentMessages ?? DEFAULT_KEEP_RECENT_MESSAGES;
+    this.summaryTokens = options.summaryTokens ?? DEFAULT_SUMMARY_TOKENS;
+  }
+
+  async createThread(scope: ChatThreadScope, title = ''): Promise<ChatThread> {
+    if (!scope.storyId) {
+      throw new Error('A chat thread needs a story');
+    }
+    const now = new Date();
+    const thread: ChatThread = {
+      id: IdGenerator.generateChatThreadId(),
+      storyId: scope.storyId,
+      chapterId: scope.chapterId,
+      sceneId: scope.sceneId,
+      title,
+      summarizedThrough: 0,
+      pinnedFacts: [],
+      messageCount: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.store.saveChatThread(thread);
+    return thread;
+  }
+
+  listThreads(query: ChatThreadQuery = {}): Promise<ChatThread[]> {
+    return this.store.getChatThreads(query);
+  }
+
+  getThread(threadId: string): Promise<ChatThread | null> {
+    return this.store.getChatThread(threadId);
+  }
+
+  // The thread with its full history, for reopening it in the assistant panel
+  async resumeThread(threadId: string): Promise<{ thread: ChatThread; messages: ChatMessage[] }> {
+    const thread = await this.requireThread(threadId);
+    return { thread, messages: await this.store.getChatMessages(threadId) };
+  }
+
+  // Sends the writer's message with the thread's history and stores both it
+  // and the reply. Nothing is stored when the request fails.
+  async sendMessage(
+    threadId: string,
+    content: string,
+    context: Partial<StoryContext> = {},
+    signal?: AbortSignal
+  ): Promise<ChatReply> {
+    if (!content.trim()) {
+      throw new Error('Message is empty');
+    }
+    let thread = await this.requireThread(threadId);
+    const requestContext: StoryContext = {
+      characters: [],
+      genre: [],
+      targetAudience: '',
+      ...context,
+      storyId: thread.storyId,
+      currentChapter: thread.chapterId || context.currentChapter,
+      currentScene: thread.sceneId || context.currentScene
+    };
+
+    let history = await this.store.getChatMessages(threadId, thread.summarizedThrough);
+    let summarized = false;
+    if (this.needsSummary(thread, history, content)) {
+      const folded = history.slice(0, history.length - this.keepRecentMessages);
+      thread = await this.summarize(thread, folded, requestContext, signal);
+      history = history.slice(folded.length);
+      summarized = true;
+    }
+
+    const response = await this.aiEngine.routeRequest({
+      type: 'assistant_chat',
+      content: ChatThreadManager.buildPrompt(thread, history, content),
+      context: requestContext,
+      signal
+    });
+
+    const sequence = thread.messageCount;
+    const userMessage = this.createMessage(thread.id, sequence + 1, 'user', content);
+    const reply = this.createMessage(thread.id, sequence + 2, 'assistant', response.content);
+    reply.provider = response.metadata?.provider;
+    reply.model = response.metadata?.model;
+
+    await this.store.addChatMessages([userMessage, reply]);
+    const untitled = !thread.title;
+    thread = {
+      ...thread,
+      title: thread.title || ChatThreadManager.titleFrom(content),
+      messageCount: sequence + 2,
+      updatedAt: reply.createdAt
+    };
+    if (untitled) {
+      await this.store.saveChatThread(thread);
+    }
+
+    return { thread, userMessage, reply, summarized };
+  }
+
+  async pinFact(threadId: string, text: string): Promise<ChatThread> {
+    if (!text.trim()) {
+      throw new Error('Pinned fact is empty');
+    }
+    const thread = await this.requireThread(threadId);
+    const fact: ChatPinnedFact = { id: IdGenerator.generatePinnedFactId(threadId), text: text.trim(), createdAt: new Date() };
+    return this.update({ ...thread, pinnedFacts: [...thread.pinnedFacts, fact] });
+  }
+
+  async unpinFact(threadId: string, factId: string): Promise<ChatThread> {
+    const thread = await this.requireThread(threadId);
+    return this.update({ ...thread, pinnedFacts: thread.pinnedFacts.filter(fact => fact.id !== factId) });
+  }
+
+  async renameThread(threadId: string, title: string): Promise<ChatThread> {
+    const thread = await this.requireThread(threadId);
+    return this.update({ ...thread, title: title.trim() });
+  }
+
+  // Copies a thread up to and including a message, or whole, so the writer can
+  // take the conversation another way without losing the original. The summary
+  // is kept only when it does not cover messages after the fork point.
+  async forkThread(threadId: string, throughMessageId?: string, title?: string): Promise<{ thread: ChatThread; messages: ChatMessage[] }> {
+    const source = await this.requireThread(threadId);
+    const sourceMessages = await this.store.getChatMessages(threadId);
+    const through = throughMessageId
+      ? sourceMessages.find(message => message.id === throughMessageId)
+      : sourceMessages[sourceMessages.length - 1];
+    if (throughMessageId && !through) {
+      throw new Error(`Message ${throughMessageId} is not in chat thread ${threadId}`);
+    }
+
+    const copied = sourceMessages.filter(message => message.sequence <= (through?.sequence ?? 0));
+    const keepSummary = source.summarizedThrough <= (through?.sequence ?? 0);
+    const now = new Date();
+    const thread: ChatThread = {
+      ...source,
+      id: IdGenerator.generateChatThreadId(),
+      title: title ?? (source.title ? `${source.title} (fork)` : ''),
+      summary: keepSummary ? source.summary : undefined,
+      summarizedThrough: keepSummary ? source.summarizedThrough : 0,
+      pinnedFacts: source.pinnedFacts.map(fact => ({ ...fact })),
+      forkedFrom: through ? { threadId, messageId: through.id } : undefined,
+      messageCount: copied.length,
+      createdAt: now,
+      updatedAt: now
+    };
+    const messages = copied.map(message => ({
+      ...message,
+      id: IdGenerator.generateChatMessageId(thread.id),
+      threadId: thread.id
+    }));
+
+    await this.store.saveChatThread(thread);
+    if (messages.length > 0) {
+      await this.store.addChatMessages(messages);
+    }
+    return { thread, messages };
+  }
+
+  deleteThread(threadId: string): Promise<boolean> {
+    return this.store.deleteChatThread(threadId);
+  }
+
+  // The prompt for one message: pinned facts, the summary of earlier messages,
+  // the messages since, then the new message
+  static buildPrompt(thread: ChatThread, history: ChatMessage[], content: string): string {
+    const sections: string[] = [];
+    if (thread.pinnedFacts.length > 0) {
+      sections.push(`Pinned facts:\n${thread.pinnedFacts.map(fact => `- ${fact.text}`).join('\n')}`);
+    }
+    if (thread.summary) {
+      sections.push(`Summary of the conversation so far:\n${thread.summary}`);
+    }
+    if (history.length > 0) {
+      sections.push(`Recent messages:\n${ChatThreadManager.transcript(history)}`);
+    }
+    sections.push(`Writer: ${content}`);
+    return sections.join('\n\n');
+  }
+
+  static titleFrom(content: string): string {
+    const line = content.trim().split('\n')[0];
+    return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : line;
+  }
+
+  private static transcript(messages: ChatMessage[]): string {
+    return messages.map(message => `${message.role === 'user' ? 'Writer' : 'Assistant'}: ${message.content}`).join('\n\n');
+  }
+
+  private needsSummary(thread: ChatThread, history: ChatMessage[], content: string): boolean {
+    if (history.length <= this.keepRecentMessages) {
+      return false;
+    }
+    return TokenizerRegistry.countTokens(ChatThreadManager.buildPrompt(thread, history, content)) > this.historyTokens;
+  }
+
+  // Folds messages into the thread's summary and saves the thread
+  private async summarize(
+    thread: ChatThread,
+    messages: ChatMessage[],
+    context: StoryContext,
+    signal?: AbortSignal
+  ): Promise<ChatThread> {
+    const request: AIRequest = {
+      type: 'assistant_chat',
+      content: [
+        'Summarize this conversation between a writer and their writing assistant so the summary can stand in for it.',
+        'Keep decisions, ideas the writer kept or rejected, open questions and story details. Write plain prose, no more than 200 words.',
+        thread.summary ? `Earlier summary:\n${thread.summary}` : '',
+        `Messages:\n${ChatThreadManager.transcript(messages)}`
+      ].filter(Boolean).join('\n\n'),
+      context,
+      options: { maxTokens: this.summaryTokens },
+      signal
+    };
+    const response = await this.aiEngine.routeRequest(request);
+
+    return this.update({
+      ...thread,
+      summary: response.content.trim(),
+      summarizedThrough: messages[messages.length - 1].sequence
+    });
+  }
+
+  private async update(thread: ChatThread): Promise<ChatThread> {
+    const updated = { ...thread, updatedAt: new Date() };
+    await this.store.saveChatThread(updated);
+    return updated;
+  }
+
+  private createMessage(threadId: string, sequence: number, role: ChatMessage['role'], content: string): ChatMessage {
+    return { id: IdGenerator.generateChatMessageId(threadId), threadId, sequence, role, content, createdAt: new Date() };
+  }
+
+  private async requireThread(threadId: string): Promise<ChatThread> {
+    const thread = await this.store.getChatThread(threadId);
+    if (!thread) {
+      throw new Error(`Chat thread not found: ${threadId}`);
+    }
+    return thread;
+  }
+}
@@ -0,0 +1,336 @@
+import {
+  AssembledContext,
+  ContextAssemblyOptions,
+  ContextSectionKind,
+  ContextSectionReport,
+  StoryContext
+} from '../../../shared/types/AI';
+import { Chapter, Character, Scene, Story } from '../../../shared/types/Story';
+import { TokenizerRegistry } from '../inference/TokenizerRegistry';
+
+interface ContextCandidate {
+  kind: ContextSectionKind;
+  id: string;
+  label: string;
+  text: string;
+  // Which end survives truncation: the end of the current scene leads into the continuation
+  keep: 'start' | 'end';
+  // Orders sections of the same kind in the assembled text, e.g. chapter summaries oldest first
+  position: number;
+}
+
+const DEFAULT_PRIORITIES: ContextSectionKind[] = [
+  'current_scene',
+  'characters',
+  'chapter_summaries',
+  'world_building',
+  'style_guide'
+];
+
+// Reading order of the assembled text, so the current scene sits right before the prompt
+const LAYOUT_ORDER: ContextSectionKind[] = [
+  'style_guide',
+  'world_building',
+  'characters',
+  'chapter_summaries',
+  'current_scene'
+];
+
+const SECTION_SEPARATOR = '\n\n';
+const DEFAULT_MIN_SECTION_TOKENS = 32;
+const SUMMARY_FALLBACK_SENTENCES = 3;
+
+// Chooses which parts of a story fit in a model's context budget. Candidates are
+// taken in priority order; the first one that does not fit is cut down to the
+// remaining budget (when at least minSectionTokens remain) and everything after
+// it is left out. The same story and options always give the same result.
+export class ContextAssembler {
+  static assemble(story: Story, options: ContextAssemblyOptions): AssembledContext {
+    const priorities = options.priorities || DEFAULT_PRIORITIES;
+    const minSectionTokens = options.minSectionTokens ?? DEFAULT_MIN_SECTION_TOKENS;
+    const separatorTokens = TokenizerRegistry.countTokens(SECTION_SEPARATOR, options.model);
+
+    const candidates = this.collectCandidates(story, options)
+      .filter(candidate => priorities.includes(candidate.kind))
+      .sort((a, b) => priorities.indexOf(a.kind) - priorities.indexOf(b.kind));
+
+    const included: Array<{ candidate: ContextCandidate; text: string }> = [];
+    const sections: ContextSectionReport[] = [];
+    let remaining = options.maxTokens;
+
+    for (const candidate of candidates) {
+      const originalTokens = TokenizerRegistry.countTokens(candidate.text, options.model);
+      const cost = originalTokens + (included.length > 0 ? separatorTokens : 0);
+      const report: ContextSectionReport = {
+        kind: candidate.kind,
+        id: candidate.id,
+        label: candidate.label,
+        included: false,
+        truncated: false,
+        tokens: 0,
+        originalTokens
+      };
+      sections.push(report);
+
+      if (cost <= remaining) {
+        included.push({ candidate, text: candidate.text });
+        report.included = true;
+        report.tokens = originalTokens;
+        remaining -= cost;
+        continue;
+      }
+
+      const available = remaining - (included.length > 0 ? separatorTokens : 0);
+      if (available >= minSectionTokens) {
+        const text = this.truncate(candidate, available, options.model);
+        const tokens = TokenizerRegistry.countTokens(text, options.model);
+        if (tokens > 0) {
+          included.push({ candidate, text });
+          report.included = true;
+          report.truncated = true;
+          report.tokens = tokens;
+        }
+      }
+
+      // Nothing after a cut section gets in, even if it would fit
+      remaining = 0;
+    }
+
+    const text = included
+      .sort((a, b) =>
+        LAYOUT_ORDER.indexOf(a.candidate.kind) - LAYOUT_ORDER.indexOf(b.candidate.kind) ||
+        a.candidate.position - b.candidate.position
+      )
+      .map(entry => entry.text)
+      .join(SECTION_SEPARATOR);
+
+    return {
+      text,
+      tokens: TokenizerRegistry.countTokens(text, options.model),
+      budget: options.maxTokens,
+      sections
+    };
+  }
+
+  // StoryContext for a request, carrying the assembled context alongside the usual fields
+  static buildStoryContext(story: Story, options: ContextAssemblyOptions): StoryContext {
+    const chapter = this.findChapter(story, options.chapterId);
+    const scene = chapter ? this.findScene(chapter, options.sceneId) : undefined;
+
+    return {
+      storyId: story.id,
+      characters: this.findPresentCharacters(story, chapter, scene),
+      currentChapter: chapter?.id,
+      currentScene: scene?.id,
+      genre: (story.genre || []).map(genre => genre.name),
+      targetAudience: story.metadata?.targetAudience || '',
+      assembledContext: this.assemble(story, options)
+    };
+  }
+
+  private static collectCandidates(story: Story, options: ContextAssemblyOptions): ContextCandidate[] {
+    const chapter = this.findChapter(story, options.chapterId);
+    const scene = chapter ? this.findScene(chapter, options.sceneId) : undefined;
+    const candidates: ContextCandidate[] = [];
+
+    if (scene && scene.content) {
+      candidates.push({
+        kind: 'current_scene',
+        id: scene.id,
+        label: scene.title || 'Current scene',
+        text: this.formatScene(scene),
+        keep: 'end',
+        position: 0
+      });
+    }
+
+    const present = this.findPresentCharacters(story, chapter, scene);
+    for (const character of present) {
+      candidates.push({
+        kind: 'characters',
+        id: character.id,
+        label: character.name,
+        text: this.formatCharacter(character, present),
+        keep: 'start',
+        position: candidates.length
+      });
+    }
+
+    // Most recent chapters first, so older ones are the first to go
+    if (chapter) {
+      const earlier = (story.chapters || [])
+        .filter(candidate => candidate.order < chapter.order)
+        .sort((a, b) => b.order - a.order);
+
+      for (const earlierChapter of earlier) {
+        const summary = options.chapterSummaries?.[earlierChapter.id] || this.summarizeChapter(earlierChapter);
+        if (summary) {
+          candidates.push({
+            kind: 'chapter_summaries',
+            id: earlierChapter.id,
+            label: earlierChapter.title,
+            text: `Earlier, in chapter ${earlierChapter.order} (${earlierChapter.title}): ${summary}`,
+            keep: 'start',
+            position: earlierChapter.order
+          });
+        }
+      }
+    }
+
+    for (const entry of this.collectWorldEntries(story, scene)) {
+      candidates.push({
+        kind: 'world_building',
+        id: entry.name,
+        label: entry.name,
+        text: entry.description ? `World: ${entry.name}: ${entry.description}` : `World: ${entry.name}`,
+        keep: 'start',
+        position: candidates.length
+      });
+    }
+
+    if (options.styleGuide && options.styleGuide.trim()) {
+      candidates.push({
+        kind: 'style_guide',
+        id: 'style_guide',
+        label: 'Style guide',
+        text: `Style guide:\n${options.styleGuide.trim()}`,
+        keep: 'start',
+        position: 0
+      });
+    }
+
+    return candidates;
+  }
+
+  private static findChapter(story: Story, chapterId?: string): Chapter | undefined {
+    const chapters = story.chapters || [];
+    if (chapterId) {
+      return chapters.find(chapter => chapter.id === chapterId);
+    }
+    return [...chapters].sort((a, b) => a.order - b.order)[chapters.length - 1];
+  }
+
+  private static findScene(chapter: Chapter, sceneId?: string): Scene | undefined {
+    const scenes = chapter.scenes || [];
+    if (sceneId) {
+      return scenes.find(scene => scene.id === sceneId);
+    }
+    return [...scenes].sort((a, b) => a.order - b.order)[scenes.length - 1];
+  }
+
+  // Characters listed on the scene, or anywhere in the chapter when no scene is selected
+  private static findPresentCharacters(story: Story, chapter?: Chapter, scene?: Scene): Character[] {
+    const ids = scene
+      ? scene.characters || []
+      : (chapter?.scenes || []).flatMap(chapterScene => chapterScene.characters || []);
+    const unique = Array.from(new Set(ids));
+
+    return unique
+      .map(id => (story.characters || []).find(character => character.id === id))
+      .filter((character): character is Character => !!character);
+  }
+
+  private static collectWorldEntries(story: Story, scene?: Scene): Array<{ name: string; description?: string }> {
+    const entries = [
+      ...(story.worldBuilding?.locations || []),
+      ...(story.worldBuilding?.items || [])
+    ];
+    if (story.setting) {
+      entries.unshift({ name: 'Setting', description: story.setting });
+    }
+
+    // The scene's own location leads; the rest keep their story order
+    const location = scene?.setting?.location?.toLowerCase();
+    if (!location) {
+      return entries;
+    }
+    const here = entries.filter(entry => entry.name.toLowerCase() === location);
+    return [...here, ...entries.filter(entry => !here.includes(entry))];
+  }
+
+  private static formatScene(scene: Scene): string {
+    const details = [
+      scene.setting?.location,
+      scene.setting?.timeOfDay,
+      scene.setting?.atmosphere,
+      scene.mood ? `mood: ${scene.mood}` : undefined
+    ].filter(Boolean);
+
+    const heading = `Current scene${scene.title ? ` (${scene.title})` : ''}${details.length > 0 ? ` — ${details.join(', ')}` : ''}:`;
+    return `${heading}\n${scene.content.trim()}`;
+  }
+
+  private static formatCharacter(character: Character, present: Character[]): string {
+    const lines = [`Character: ${character.name}${character.aliases?.length ? ` (also ${character.aliases.join(', ')})` : ''}`];
+
+    if (character.archetype?.primary) {
+      lines.push(`Archetype: ${character.archetype.primary}`);
+    }
+    if (character.description) {
+      lines.push(`Description: ${character.description}`);
+    }
+
+    const traits = character.traits;
+    if (traits) {
+      const traitLines: Array<[string, string[]]> = [
+        ['Personality', traits.personality],
+        ['Motivations', traits.motivations],
+        ['Fears', traits.fears],
+        ['Quirks', traits.quirks]
+      ];
+      for (const [label, values] of traitLines) {
+        if (values && values.length > 0) {
+          lines.push(`${label}: ${values.join(', ')}`);
+        }
+      }
+    }
+
+    const voice = character.voiceProfile;
+    if (voice) {
+      const voiceDetails = [
+        ...(voice.speechPatterns || []),
+        ...(voice.commonPhrases || []).map(phrase => `"${phrase}"`)
+      ];
+      if (voiceDetails.length > 0) {
+        lines.push(`Voice: ${voiceDetails.join(', ')}`);
+      }
+    }
+
+    // Only relationships between characters who share the scene
+    for (const relationship of character.relationships || []) {
+      const other = present.find(candidate => candidate.id === relationship.characterId);
+      if (other) {
+        lines.push(`Relationship with ${other.name}: ${relationship.type}${relationship.description ? ` (${relationship.description})` : ''}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  // Scene summaries when the author wrote them, otherwise the chapter's opening sentences
+  private static summarizeChapter(chapter: Chapter): string {
+    const sceneSummaries = [...(chapter.scenes || [])]
+      .sort((a, b) => a.order - b.order)
+      .map(scene => scene.summary)
+      .filter(Boolean);
+    if (sceneSummaries.length > 0) {
+      return sceneSummaries.join(' ');
+    }
+
+    const content = (chapter.content || (chapter.scenes || []).map(scene => scene.content).join(' ')).trim();
+    const sentences = content.match(/[^.!?]+[.!?]+["'”’]?/g) || (content ? [content] : []);
+    return sentences.slice(0, SUMMARY_FALLBACK_SENTENCES).join(' ').replace(/\s+/g, ' ').trim();
+  }
+
+  private static truncate(candidate: ContextCandidate, maxTokens: number, model?: string): string {
+    if (candidate.keep === 'start') {
+      return TokenizerRegistry.truncateToTokens(candidate.text, maxTokens, model, 'start');
+    }
+
+    // Keep the heading so the model still knows what it is reading
+    const [heading, ...body] = candidate.text.split('\n');
+    const headingTokens = TokenizerRegistry.countTokens(`${heading}\n…`, model);
+    const tail = TokenizerRegistry.truncateToTokens(body.join('\n'), maxTokens - headingTokens, model, 'end');
+    return tail ? `${heading}\n…${tail}` : '';
+  }
+}
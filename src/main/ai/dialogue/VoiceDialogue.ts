@@ -0,0 +1,222 @@
+import { DialogueLine, StructuredOutputSpec } from '../../../shared/types/AI';
+import { Character } from '../../../shared/types/Story';
+import { StructuredOutput } from '../structured/StructuredOutput';
+
+export const DIALOGUE_OUTPUT: StructuredOutputSpec = {
+  name: 'dialogue',
+  schema: {
+    type: 'object',
+    properties: {
+      lines: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            speaker: { type: 'string' },
+            text: { type: 'string' }
+          },
+          required: ['speaker', 'text']
+        }
+      }
+    },
+    required: ['lines']
+  }
+};
+
+export const DIALOGUE_REWRITE_OUTPUT: StructuredOutputSpec = {
+  name: 'dialogue rewrite',
+  schema: {
+    type: 'object',
+    properties: {
+      lines: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            index: { type: 'integer', description: 'Line number from the dialogue' },
+            text: { type: 'string' }
+          },
+          required: ['index', 'text']
+        }
+      }
+    },
+    required: ['lines']
+  }
+};
+
+const SLANG = new Set([
+  'gonna', 'wanna', 'gotta', 'yeah', 'nah', "ain't", 'kinda', 'sorta', 'dunno', 'yep', 'nope',
+  'lemme', 'gimme', 'ya', "y'all", 'hey', 'okay', 'ok', 'dude', 'huh', 'cool', 'stuff'
+]);
+const FORMAL = new Set([
+  'indeed', 'shall', 'therefore', 'however', 'moreover', 'whom', 'perhaps', 'certainly', 'madam', 'sir',
+  'pardon', 'furthermore', 'nevertheless', 'thus', 'hence', 'kindly', 'permit', 'regrettably', 'whereas'
+]);
+const CONTRACTION = /\w'(t|re|ll|ve|m|d)$/i;
+
+// Recognised speech patterns: profile text matching the first pattern is
+// checked against the line with the test
+const SPEECH_PATTERN_CHECKS: Array<{ pattern: RegExp; label: string; test: (text: string, wordsPerSentence: number) => boolean }> = [
+  { pattern: /short|terse|clipped|brief|blunt/i, label: 'short sentences', test: (_, perSentence) => perSentence <= 8 },
+  { pattern: /long|rambl|verbose|elaborate|wordy/i, label: 'long sentences', test: (_, perSentence) => perSentence >= 15 },
+  { pattern: /question/i, label: 'questions', test: text => text.includes('?') },
+  { pattern: /exclaim|exclamation|shout/i, label: 'exclamations', test: text => text.includes('!') },
+  { pattern: /trail|ellips|hesita|stammer/i, label: 'trailing off', test: text => /\.\.\.|…|—/.test(text) }
+];
+
+// Share of the voice-match score from each kind of evidence
+const WEIGHTS = { formality: 0.5, vocabulary: 0.3, patterns: 0.2 };
+
+// Prompts for dialogue conditioned on each speaker's voice, and a heuristic
+// score of how well a line matches its speaker's VoiceProfile
+export class VoiceDialogue {
+  // How a character speaks, for the prompt
+  static voiceSheet(character: Character): string {
+    const voice = character.voiceProfile;
+    const traits = character.traits;
+    const parts = [
+      voice?.formalityLevel ? `formality ${voice.formalityLevel}/10 (${this.describeFormality(voice.formalityLevel)})` : '',
+      voice?.vocabulary?.length ? `favours words like ${voice.vocabulary.join(', ')}` : '',
+      voice?.speechPatterns?.length ? `speech patterns: ${voice.speechPatterns.join('; ')}` : '',
+      voice?.commonPhrases?.length ? `often says ${voice.commonPhrases.map(phrase => `"${phrase}"`).join(', ')}` : '',
+      voice?.emotionalRange?.length ? `emotional range: ${voice.emotionalRange.join(', ')}` : '',
+      traits?.personality?.length ? `personality: ${traits.personality.join(', ')}` : '',
+      traits?.motivations?.length ? `wants: ${traits.motivations.join(', ')}` : '',
+      traits?.quirks?.length ? `quirks: ${traits.quirks.join(', ')}` : ''
+    ].filter(Boolean);
+
+    return `- ${character.name}: ${parts.length > 0 ? parts.join('; ') : 'no voice notes'}`;
+  }
+
+  static buildPrompt(prompt: string, characters: Character[]): string {
+    return `${prompt}
+
+Write the dialogue so each character sounds like their voice notes:
+${characters.map(character => this.voiceSheet(character)).join('\n')}
+
+Use the character names exactly as given for each speaker.
+${StructuredOutput.instructions(DIALOGUE_OUTPUT)}`;
+  }
+
+  // Asks for new versions of the given lines only, keeping their place in the scene
+  static buildRewritePrompt(lines: DialogueLine[], character: Character, indexes: number[]): string {
+    return `Rewrite the numbered lines spoken by ${character.name} so they sound like ${character.name}. Keep what each line says and how it fits the scene; leave every other line as it is.
+
+Voice notes:
+${this.voiceSheet(character)}
+
+Dialogue:
+${lines.map((line, index) => `${index + 1}. ${line.speaker}: ${line.text}`).join('\n')}
+
+Lines to rewrite: ${indexes.map(index => index + 1).join(', ')}
+${StructuredOutput.instructions(DIALOGUE_REWRITE_OUTPUT)}`;
+  }
+
+  // Finds a speaker by name or alias, ignoring case
+  static findCharacter(speaker: string, characters: Character[]): Character | undefined {
+    const name = speaker.trim().toLowerCase();
+    return characters.find(character =>
+      character.name.toLowerCase() === name || (character.aliases || []).some(alias => alias.toLowerCase() === name)
+    );
+  }
+
+  // Attributes a generated line to its character and scores it against their voice
+  static toLine(speaker: string, text: string, characters: Character[]): DialogueLine {
+    const character = this.findCharacter(speaker, characters);
+    if (!character) {
+      return { speaker, text, notes: ['speaker is not one of the scene characters'] };
+    }
+    const { score, notes } = this.scoreLine(text, character);
+    return { speaker: character.name, characterId: character.id, text, voiceMatch: score, notes };
+  }
+
+  // Characters whose scored lines average below minVoiceMatch
+  static driftingSpeakers(lines: DialogueLine[], characters: Character[], minVoiceMatch: number): Character[] {
+    return characters.filter(character => {
+      const scores = lines
+        .filter(line => line.characterId === character.id && line.voiceMatch !== undefined)
+        .map(line => line.voiceMatch!);
+      return scores.length > 0 && scores.reduce((sum, score) => sum + score, 0) / scores.length < minVoiceMatch;
+    });
+  }
+
+  // 0-1 score of how well a line fits the speaker's voice profile: formality
+  // against the profile's level, use of their vocabulary and phrases, and
+  // the speech patterns that can be checked on text. The score is left unset
+  // when the profile gives nothing to compare against.
+  static scoreLine(text: string, character: Character): { score?: number; notes: string[] } {
+    const voice = character.voiceProfile;
+    const notes: string[] = [];
+    const scores: Array<{ weight: number; value: number }> = [];
+
+    if (voice?.formalityLevel) {
+      const estimate = this.estimateFormality(text);
+      const value = 1 - Math.abs(estimate - voice.formalityLevel) / 9;
+      scores.push({ weight: WEIGHTS.formality, value });
+      if (value < 0.7) {
+        notes.push(`sounds ${this.describeFormality(estimate)} (${estimate}/10) for a speaker at ${voice.formalityLevel}/10`);
+      }
+    }
+
+    const terms = [...(voice?.vocabulary || []), ...(voice?.commonPhrases || [])].filter(Boolean);
+    if (terms.length > 0) {
+      const used = terms.filter(term => this.containsTerm(text, term));
+      // A single line need not use the speaker's words, so not using them only costs half
+      scores.push({ weight: WEIGHTS.vocabulary, value: used.length > 0 ? 1 : 0.5 });
+      notes.push(used.length > 0 ? `uses ${used.join(', ')}` : 'uses none of their usual words or phrases');
+    }
+
+    const words = this.words(text);
+    const sentences = Math.max(1, text.split(/[.!?…]+/).filter(sentence => sentence.trim()).length);
+    const checks = SPEECH_PATTERN_CHECKS.filter(check => (voice?.speechPatterns || []).some(pattern => check.pattern.test(pattern)));
+    if (checks.length > 0) {
+      const missed = checks.filter(check => !check.test(text, words.length / sentences));
+      scores.push({ weight: WEIGHTS.patterns, value: 1 - missed.length / checks.length });
+      if (missed.length > 0) {
+        notes.push(`missing ${missed.map(check => check.label).join(', ')}`);
+      }
+    }
+
+    if (scores.length === 0) {
+      return { notes: ['no voice profile to compare against'] };
+    }
+    const total = scores.reduce((sum, part) => sum + part.weight, 0);
+    const score = scores.reduce((sum, part) => sum + part.weight * part.value, 0) / total;
+    return { score: Math.round(score * 100) / 100, notes };
+  }
+
+  // 1 (slangy, clipped) to 10 (formal), from contractions, slang and formal
+  // words, and word length
+  static estimateFormality(text: string): number {
+    const words = this.words(text);
+    if (words.length === 0) {
+      return 5;
+    }
+
+    const lower = words.map(word => word.toLowerCase());
+    const averageLength = lower.reduce((sum, word) => sum + word.replace(/'/g, '').length, 0) / lower.length;
+    const contractions = lower.filter(word => CONTRACTION.test(word)).length;
+    const slang = lower.filter(word => SLANG.has(word)).length;
+    const formal = lower.filter(word => FORMAL.has(word)).length;
+
+    const estimate = 5
+      + (averageLength - 4.2) * 1.5
+      + formal * 1.5
+      - slang * 2
+      - (contractions / lower.length) * 8;
+    return Math.max(1, Math.min(10, Math.round(estimate)));
+  }
+
+  private static describeFormality(level: number): string {
+    return level <= 3 ? 'casual' : level >= 8 ? 'formal' : 'conversational';
+  }
+
+  private static words(text: string): string[] {
+    return text.match(/[A-Za-z]+(?:'[A-Za-z]+)?/g) || [];
+  }
+
+  private static containsTerm(text: string, term: string): boolean {
+    const escaped = term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^A-Za-z])${escaped}($|[^A-Za-z])`, 'i').test(text);
+  }
+}
@@ -0,0 +1,180 @@
+import { CircuitBreakerOptions, CircuitBreakerSnapshot, CircuitState } from '../../../shared/types/AI';
+
+// Thrown instead of calling a provider whose circuit is open
+export class CircuitOpenError extends Error {
+  constructor(readonly providerName: string, readonly retryAt?: Date) {
+    super(`Provider ${providerName} is unavailable after repeated failures${retryAt ? `; retrying after ${retryAt.toISOString()}` : ''}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  windowSize: 20,
+  minimumCalls: 5,
+  failureRateThreshold: 0.5,
+  slowCallThreshold: 30000,
+  slowCallRateThreshold: 0.8,
+  cooldown: 30000,
+  maxCooldown: 10 * 60 * 1000
+};
+
+interface CallOutcome {
+  failed: boolean;
+  slow: boolean;
+}
+
+// Stops traffic to a provider that keeps failing or answering slowly.
+//
+// closed:    calls go through; the last windowSize outcomes are kept and the
+//            circuit opens once the failure or slow-call rate crosses its threshold
+// open:      calls are refused until the cool-down ends
+// half-open: a single probe call is let through; success closes the circuit,
+//            failure opens it again with twice the cool-down
+export class CircuitBreaker {
+  private readonly options: CircuitBreakerOptions;
+  private state: CircuitState = 'closed';
+  private outcomes: CallOutcome[] = [];
+  private openings = 0;
+  private openUntil = 0;
+  private probeInFlight = false;
+
+  constructor(
+    private readonly name: string,
+    options: Partial<CircuitBreakerOptions> = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  // Whether a call could go ahead now, without reserving it. For choosing between providers.
+  isCallPermitted(): boolean {
+    switch (this.state) {
+      case 'closed':
+        return true;
+      case 'open':
+        return this.now() >= this.openUntil;
+      case 'half-open':
+        return !this.probeInFlight;
+    }
+  }
+
+  // Reserves a call. Every call that returns true must end in recordSuccess,
+  // recordFailure or release, or a half-open circuit stays waiting on its probe.
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (this.now() < this.openUntil) {
+        return false;
+      }
+      this.state = 'half-open';
+      console.log(`Circuit for ${this.name} is half-open, sending a probe request`);
+    }
+
+    if (this.state === 'half-open') {
+      if (this.probeInFlight) {
+        return false;
+      }
+      this.probeInFlight = true;
+    }
+    return true;
+  }
+
+  // Ends a call that says nothing about the provider, such as one the caller cancelled
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  recordSuccess(responseTime: number): void {
+    const slow = responseTime >= this.options.slowCallThreshold;
+
+    if (this.state === 'half-open') {
+      this.probeInFlight = false;
+      if (slow) {
+        this.open(`probe took ${responseTime}ms`);
+      } else {
+        this.close();
+      }
+      return;
+    }
+
+    // Calls started before the circuit opened do not count
+    if (this.state === 'closed') {
+      this.addOutcome({ failed: false, slow });
+    }
+  }
+
+  recordFailure(): void {
+    if (this.state === 'half-open') {
+      this.probeInFlight = false;
+      this.open('probe failed');
+      return;
+    }
+
+    if (this.state === 'closed') {
+      this.addOutcome({ failed: true, slow: false });
+    }
+  }
+
+  reset(): void {
+    this.close();
+    this.probeInFlight = false;
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    return {
+      state: this.state,
+      failureRate: this.rate(outcome => outcome.failed),
+      slowCallRate: this.rate(outcome => outcome.slow),
+      calls: this.outcomes.length,
+      openings: this.openings,
+      retryAt: this.state === 'open' ? new Date(this.openUntil) : undefined
+    };
+  }
+
+  private addOutcome(outcome: CallOutcome): void {
+    this.outcomes.push(outcome);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+
+    if (this.outcomes.length < this.options.minimumCalls) {
+      return;
+    }
+
+    const failureRate = this.rate(call => call.failed);
+    const slowCallRate = this.rate(call => call.slow);
+    if (failureRate >= this.options.failureRateThreshold) {
+      this.open(`${Math.round(failureRate * 100)}% of recent requests failed`);
+    } else if (slowCallRate >= this.options.slowCallRateThreshold) {
+      this.open(`${Math.round(slowCallRate * 100)}% of recent requests took over ${this.options.slowCallThreshold}ms`);
+    }
+  }
+
+  private open(reason: string): void {
+    const cooldown = Math.min(this.options.cooldown * 2 ** this.openings, this.options.maxCooldown);
+    this.state = 'open';
+    this.openings++;
+    this.openUntil = this.now() + cooldown;
+    this.outcomes = [];
+    console.warn(`Circuit for ${this.name} opened for ${cooldown}ms: ${reason}`);
+  }
+
+  private close(): void {
+    if (this.state !== 'closed') {
+      console.log(`Circuit for ${this.name} closed`);
+    }
+    this.state = 'closed';
+    this.openings = 0;
+    this.outcomes = [];
+  }
+
+  private rate(predicate: (outcome: CallOutcome) => boolean): number {
+    if (this.outcomes.length === 0) {
+      return 0;
+    }
+    return this.outcomes.filter(predicate).length / this.outcomes.length;
+  }
+}
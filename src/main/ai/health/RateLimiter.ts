@@ -0,0 +1,249 @@
+import { RateLimitOptions, RateLimitState } from '../../../shared/types/AI';
+import { cancellableDelay, throwIfCancelled } from '../RequestCancellation';
+
+// Thrown when an API answers 429, or when a request would have to wait longer
+// than maxQueueWait for capacity
+export class RateLimitError extends Error {
+  readonly code = 'RATE_LIMIT';
+  readonly status = 429;
+
+  constructor(readonly providerName: string, readonly retryAt?: Date) {
+    super(`Provider ${providerName} is rate limited${retryAt ? ` until ${retryAt.toISOString()}` : ''}`);
+    this.name = 'RateLimitError';
+  }
+}
+
+export const DEFAULT_RATE_LIMIT_OPTIONS: RateLimitOptions = {
+  maxQueueWait: 30000
+};
+
+// Used after a 429 that says nothing about when to retry
+const DEFAULT_RETRY_AFTER = 5000;
+
+interface HeaderSource {
+  get(name: string): string | null;
+}
+
+// What an API said about its limits, from the headers of one response.
+// Times are epoch milliseconds.
+export interface RateLimitHeaders {
+  retryAt?: number;
+  requestsRemaining?: number;
+  requestsResetAt?: number;
+  tokensRemaining?: number;
+  tokensResetAt?: number;
+}
+
+// Refills continuously up to capacity, e.g. 60 requests a minute is one every second
+export class TokenBucket {
+  private available: number;
+  private lastRefill: number;
+
+  constructor(readonly capacity: number, private readonly perMs: number, private readonly now: () => number = Date.now) {
+    this.available = capacity;
+    this.lastRefill = now();
+  }
+
+  static perMinute(limit: number, now?: () => number): TokenBucket {
+    return new TokenBucket(limit, limit / 60000, now);
+  }
+
+  // Milliseconds until amount can be taken. Amounts over capacity only wait for a full bucket.
+  waitTime(amount: number): number {
+    this.refill();
+    const needed = Math.min(amount, this.capacity);
+    return this.available >= needed ? 0 : Math.ceil((needed - this.available) / this.perMs);
+  }
+
+  // Can go below zero, so a large request delays the ones after it
+  take(amount: number): void {
+    this.refill();
+    this.available -= amount;
+  }
+
+  remaining(): number {
+    this.refill();
+    return Math.max(0, Math.floor(this.available));
+  }
+
+  private refill(): void {
+    const now = this.now();
+    this.available = Math.min(this.capacity, this.available + (now - this.lastRefill) * this.perMs);
+    this.lastRefill = now;
+  }
+}
+
+// Keeps a provider under its API's rate limits. Requests wait in order for
+// capacity in the client-side request and token buckets and for any limit the
+// API reported (Retry-After, or remaining requests or tokens at zero) to reset.
+export class RateLimiter {
+  private readonly options: RateLimitOptions;
+  private readonly requestBucket: TokenBucket | null;
+  private readonly tokenBucket: TokenBucket | null;
+  private server: RateLimitHeaders = {};
+  private blockedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+  private queued = 0;
+
+  constructor(
+    private readonly name: string,
+    options: Partial<RateLimitOptions> = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.options = { ...DEFAULT_RATE_LIMIT_OPTIONS, ...options };
+    this.requestBucket = this.options.requestsPerMinute ? TokenBucket.perMinute(this.options.requestsPerMinute, now) : null;
+    this.tokenBucket = this.options.tokensPerMinute ? TokenBucket.perMinute(this.options.tokensPerMinute, now) : null;
+  }
+
+  // Waits until a request of about this many tokens can be sent, then counts it.
+  // Throws RateLimitError instead when that is more than maxQueueWait away.
+  async acquire(tokens: number, signal?: AbortSignal): Promise<void> {
+    this.queued++;
+    const turn = this.queue.then(() => this.waitForCapacity(tokens, this.now() + this.options.maxQueueWait, signal));
+    this.queue = turn.catch(() => undefined);
+    try {
+      await turn;
+    } finally {
+      this.queued--;
+    }
+  }
+
+  // Updates the limits from a response's headers
+  update(headers: HeaderSource): void {
+    const parsed = RateLimiter.parseHeaders(headers, this.now());
+    this.server = {
+      requestsRemaining: parsed.requestsRemaining ?? this.server.requestsRemaining,
+      requestsResetAt: parsed.requestsResetAt ?? this.server.requestsResetAt,
+      tokensRemaining: parsed.tokensRemaining ?? this.server.tokensRemaining,
+      tokensResetAt: parsed.tokensResetAt ?? this.server.tokensResetAt
+    };
+    if (parsed.retryAt) {
+      this.blockedUntil = Math.max(this.blockedUntil, parsed.retryAt);
+    }
+  }
+
+  // Records a 429 and returns the error to throw. Without a Retry-After header
+  // the earliest reported reset is used, or a short default pause.
+  rateLimited(headers: HeaderSource): RateLimitError {
+    this.update(headers);
+    const now = this.now();
+    if (this.blockedUntil <= now) {
+      const resets = [this.server.requestsResetAt, this.server.tokensResetAt].filter((time): time is number => !!time && time > now);
+      this.blockedUntil = resets.length > 0 ? Math.min(...resets) : now + DEFAULT_RETRY_AFTER;
+    }
+    console.warn(`${this.name} is rate limited for ${this.blockedUntil - now}ms`);
+    return new RateLimitError(this.name, new Date(this.blockedUntil));
+  }
+
+  getState(): RateLimitState {
+    const wait = this.waitTime(1);
+    const remaining = (client: number | undefined, server: number | undefined) =>
+      client === undefined ? server : server === undefined ? client : Math.min(client, server);
+
+    return {
+      throttled: wait > 0,
+      retryAt: wait > 0 ? new Date(this.now() + wait) : undefined,
+      requestsRemaining: remaining(this.requestBucket?.remaining(), this.activeServer('requests')),
+      tokensRemaining: remaining(this.tokenBucket?.remaining(), this.activeServer('tokens')),
+      queued: this.queued
+    };
+  }
+
+  // Reads Retry-After and the remaining/reset headers of OpenAI-compatible APIs
+  // (x-ratelimit-*) and Anthropic (anthropic-ratelimit-*)
+  static parseHeaders(headers: HeaderSource, now = Date.now()): RateLimitHeaders {
+    const first = (...names: string[]) => names.map(name => headers.get(name)).find(value => value !== null && value !== '') ?? undefined;
+    const count = (value?: string) => {
+      const parsed = value === undefined ? NaN : Number(value);
+      return Number.isFinite(parsed) ? parsed : undefined;
+    };
+
+    return {
+      retryAt: this.parseTime(first('retry-after-ms') ? `${first('retry-after-ms')}ms` : first('retry-after'), now),
+      requestsRemaining: count(first('x-ratelimit-remaining-requests', 'anthropic-ratelimit-requests-remaining', 'x-ratelimit-remaining')),
+      requestsResetAt: this.parseTime(first('x-ratelimit-reset-requests', 'anthropic-ratelimit-requests-reset', 'x-ratelimit-reset'), now),
+      tokensRemaining: count(first('x-ratelimit-remaining-tokens', 'anthropic-ratelimit-tokens-remaining')),
+      tokensResetAt: this.parseTime(first('x-ratelimit-reset-tokens', 'anthropic-ratelimit-tokens-reset'), now)
+    };
+  }
+
+  // Accepts seconds ("30"), durations ("1m30s", "250ms"), epoch seconds or
+  // milliseconds, and HTTP or ISO dates
+  private static parseTime(value: string | undefined, now: number): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+      const number = Number(trimmed);
+      if (number > 1e12) return number;
+      if (number > 1e9) return number * 1000;
+      return now + number * 1000;
+    }
+
+    const duration = trimmed.match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/);
+    if (duration && trimmed !== '') {
+      const [, hours = '0', minutes = '0', seconds = '0', ms = '0'] = duration;
+      return now + Math.ceil(Number(hours) * 3600000 + Number(minutes) * 60000 + Number(seconds) * 1000 + Number(ms));
+    }
+
+    const date = Date.parse(trimmed);
+    return Number.isNaN(date) ? undefined : date;
+  }
+
+  private async waitForCapacity(tokens: number, deadline: number, signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      throwIfCancelled(signal);
+      const wait = this.waitTime(tokens);
+      if (wait <= 0) {
+        this.take(tokens);
+        return;
+      }
+      if (this.now() + wait > deadline) {
+        throw new RateLimitError(this.name, new Date(this.now() + wait));
+      }
+      await cancellableDelay(wait, signal);
+    }
+  }
+
+  private waitTime(tokens: number): number {
+    const now = this.now();
+    const waits = [
+      this.blockedUntil - now,
+      this.requestBucket?.waitTime(1) ?? 0,
+      this.tokenBucket?.waitTime(tokens) ?? 0
+    ];
+
+    const requestsLeft = this.activeServer('requests');
+    if (requestsLeft !== undefined && requestsLeft < 1) {
+      waits.push(this.server.requestsResetAt! - now);
+    }
+    const tokensLeft = this.activeServer('tokens');
+    if (tokensLeft !== undefined && tokensLeft < tokens) {
+      waits.push(this.server.tokensResetAt! - now);
+    }
+    return Math.max(0, ...waits);
+  }
+
+  private take(tokens: number): void {
+    this.requestBucket?.take(1);
+    this.tokenBucket?.take(tokens);
+    if (this.activeServer('requests') !== undefined) {
+      this.server.requestsRemaining! -= 1;
+    }
+    if (this.activeServer('tokens') !== undefined) {
+      this.server.tokensRemaining! -= tokens;
+    }
+  }
+
+  // What the API last reported as remaining, until its reset time passes
+  private activeServer(kind: 'requests' | 'tokens'): number | undefined {
+    const remaining = kind === 'requests' ? this.server.requestsRemaining : this.server.tokensRemaining;
+    const resetAt = kind === 'requests' ? this.server.requestsResetAt : this.server.tokensResetAt;
+    if (remaining === undefined || !resetAt || resetAt <= this.now()) {
+      return undefined;
+    }
+    return remaining;
+  }
+}
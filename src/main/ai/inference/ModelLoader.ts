@@ -1,5 +1,570 @@
 import * as fs from 'fs/promises';
+import * as os from 'os';
 import * as path from 'path';
 import { EventEmitter } from 'events';
+import { ModelFileFormat, ModelFileInfo, ModelMetadataReader } from './ModelMetadataReader';
 
-// Model configuration interface\nexport interface ModelConfig {\n  modelPath: string;\n  quantization: '4bit' | '8bit' | 'fp16' | 'fp32';\n  maxTokens: number;\n  contextWindow: number;\n  temperature: number;\n  topP: number;\n  topK: number;\n  repeatPenalty: number;\n  threads?: number;\n  gpuLayers?: number;\n}\n\n// Model metadata\nexport interface ModelMetadata {\n  name: string;\n  version: string;\n  architecture: string;\n  parameters: string;\n  quantization: string;\n  contextWindow: number;\n  specialTokens: {\n    bos?: string;\n    eos?: string;\n    pad?: string;\n    unk?: string;\n  };\n  trainingData: {\n    cutoffDate?: string;\n    languages: string[];\n    domains: string[];\n  };\n}\n\n// Model loading events\nexport interface ModelLoaderEvents {\n  'loading-started': (modelPath: string) => void;\n  'loading-progress': (progress: number, stage: string) => void;\n  'loading-completed': (metadata: ModelMetadata) => void;\n  'loading-failed': (error: Error) => void;\n  'model-unloaded': (modelPath: string) => void;\n}\n\n// Abstract base class for model loaders\nexport abstract class BaseModelLoader extends EventEmitter {\n  protected config: ModelConfig;\n  protected metadata?: ModelMetadata;\n  protected loaded = false;\n  protected loading = false;\n\n  constructor(config: ModelConfig) {\n    super();\n    this.config = config;\n  }\n\n  abstract loadModel(): Promise<void>;\n  abstract unloadModel(): Promise<void>;\n  abstract isModelLoaded(): boolean;\n  abstract getModelInfo(): ModelMetadata | null;\n  abstract validateModel(modelPath: string): Promise<boolean>;\n\n  // Common validation logic\n  protected async validateModelPath(modelPath: string): Promise<void> {\n    try {\n      const stats = await fs.stat(modelPath);\n      if (!stats.isFile()) {\n        throw new Error(`Model path is not a file: ${modelPath}`);\n      }\n    } catch (error) {\n      throw new Error(`Model file not found: ${modelPath}`);\n    }\n  }\n\n  // Get model size in bytes\n  protected async getModelSize(modelPath: string): Promise<number> {\n    const stats = await fs.stat(modelPath);\n    return stats.size;\n  }\n\n  // Estimate memory requirements\n  protected estimateMemoryRequirement(modelSize: number, quantization: string): number {\n    const baseMultiplier = {\n      '4bit': 0.6,\n      '8bit': 1.1,\n      'fp16': 2.2,\n      'fp32': 4.4\n    }[quantization] || 2.2;\n\n    // Add overhead for context and processing\n    const overhead = 1.5;\n    return Math.ceil(modelSize * baseMultiplier * overhead);\n  }\n\n  // Check system memory\n  protected async checkSystemMemory(requiredMemory: number): Promise<boolean> {\n    // This would integrate with system memory checking\n    // For now, return true (will be implemented with actual system calls)\n    return true;\n  }\n\n  getConfig(): ModelConfig {\n    return { ...this.config };\n  }\n\n  updateConfig(newConfig: Partial<ModelConfig>): void {\n    this.config = { ...this.config, ...newConfig };\n  }\n\n  isLoaded(): boolean {\n    return this.loaded;\n  }\n\n  isLoading(): boolean {\n    return this.loading;\n  }\n}\n\n// ONNX.js model loader for web-based inference\nexport class ONNXModelLoader extends BaseModelLoader {\n  private session?: any; // onnxruntime.InferenceSession\n  private tokenizer?: any;\n\n  async loadModel(): Promise<void> {\n    if (this.loaded || this.loading) {\n      return;\n    }\n\n    this.loading = true;\n    this.emit('loading-started', this.config.modelPath);\n\n    try {\n      // Validate model file\n      await this.validateModelPath(this.config.modelPath);\n      this.emit('loading-progress', 10, 'Validating model file');\n\n      // Check if ONNX runtime is available\n      const ort = await this.loadONNXRuntime();\n      this.emit('loading-progress', 30, 'Loading ONNX runtime');\n\n      // Load the model\n      this.session = await ort.InferenceSession.create(this.config.modelPath, {\n        executionProviders: this.getExecutionProviders(),\n        graphOptimizationLevel: 'all',\n        enableCpuMemArena: true,\n        enableMemPattern: true\n      });\n      this.emit('loading-progress', 70, 'Loading model weights');\n\n      // Load tokenizer if available\n      await this.loadTokenizer();\n      this.emit('loading-progress', 90, 'Loading tokenizer');\n\n      // Extract model metadata\n      this.metadata = await this.extractModelMetadata();\n      this.emit('loading-progress', 100, 'Model loaded successfully');\n\n      this.loaded = true;\n      this.loading = false;\n      this.emit('loading-completed', this.metadata);\n\n      console.log(`ONNX model loaded: ${this.config.modelPath}`);\n    } catch (error) {\n      this.loading = false;\n      this.emit('loading-failed', error as Error);\n      throw error;\n    }\n  }\n\n  async unloadModel(): Promise<void> {\n    if (!this.loaded) return;\n\n    try {\n      if (this.session) {\n        await this.session.release();\n        this.session = undefined;\n      }\n      \n      this.tokenizer = undefined;\n      this.metadata = undefined;\n      this.loaded = false;\n      \n      this.emit('model-unloaded', this.config.modelPath);\n      console.log(`ONNX model unloaded: ${this.config.modelPath}`);\n    } catch (error) {\n      console.error('Error unloading ONNX model:', error);\n      throw error;\n    }\n  }\n\n  isModelLoaded(): boolean {\n    return this.loaded && !!this.session;\n  }\n\n  getModelInfo(): ModelMetadata | null {\n    return this.metadata || null;\n  }\n\n  async validateModel(modelPath: string): Promise<boolean> {\n    try {\n      await this.validateModelPath(modelPath);\n      \n      // Check if it's a valid ONNX model by trying to load metadata\n      const ort = await this.loadONNXRuntime();\n      const tempSession = await ort.InferenceSession.create(modelPath, {\n        executionProviders: ['cpu']\n      });\n      await tempSession.release();\n      \n      return true;\n    } catch (error) {\n      console.warn(`Model validation failed for ${modelPath}:`, error);\n      return false;\n    }\n  }\n\n  // Get inference session for running the model\n  getSession(): any {\n    if (!this.loaded || !this.session) {\n      throw new Error('Model not loaded');\n    }\n    return this.session;\n  }\n\n  // Get tokenizer instance\n  getTokenizer(): any {\n    return this.tokenizer;\n  }\n\n  private async loadONNXRuntime(): Promise<any> {\n    try {\n      // Dynamic import of ONNX runtime\n      // In a real implementation, this would be:\n      // const ort = await import('onnxruntime-node');\n      // For now, we'll mock it\n      return {\n        InferenceSession: {\n          create: async (modelPath: string, options: any) => ({\n            run: async (feeds: any) => ({}),\n            release: async () => {}\n          })\n        }\n      };\n    } catch (error) {\n      throw new Error('ONNX Runtime not available. Please install onnxruntime-node.');\n    }\n  }\n\n  private getExecutionProviders(): string[] {\n    const providers = ['cpu'];\n    \n    // Add GPU providers if available\n    if (this.config.gpuLayers && this.config.gpuLayers > 0) {\n      providers.unshift('cuda', 'dml'); // CUDA for NVIDIA, DirectML for others\n    }\n    \n    return providers;\n  }\n\n  private async loadTokenizer(): Promise<void> {\n    try {\n      const tokenizerPath = this.config.modelPath.replace(/\\.onnx$/, '_tokenizer.json');\n      const tokenizerExists = await fs.access(tokenizerPath).then(() => true).catch(() => false);\n      \n      if (tokenizerExists) {\n        const tokenizerData = await fs.readFile(tokenizerPath, 'utf-8');\n        this.tokenizer = JSON.parse(tokenizerData);\n      } else {\n        console.warn('Tokenizer file not found, using basic tokenization');\n        this.tokenizer = this.createBasicTokenizer();\n      }\n    } catch (error) {\n      console.warn('Failed to load tokenizer, using basic tokenization:', error);\n      this.tokenizer = this.createBasicTokenizer();\n    }\n  }\n\n  private createBasicTokenizer(): any {\n    return {\n      encode: (text: string) => {\n        // Basic word-level tokenization\n        return text.split(/\\s+/).map((word, index) => index);\n      },\n      decode: (tokens: number[]) => {\n        // Basic detokenization\n        return tokens.map(t => `token_${t}`).join(' ');\n      },\n      vocab_size: 50000\n    };\n  }\n\n  private async extractModelMetadata(): Promise<ModelMetadata> {\n    // Extract metadata from the loaded model\n    // In a real implementation, this would read from model metadata\n    return {\n      name: path.basename(this.config.modelPath, '.onnx'),\n      version: '1.0.0',\n      architecture: 'transformer',\n      parameters: 'Unknown',\n      quantization: this.config.quantization,\n      contextWindow: this.config.contextWindow,\n      specialTokens: {\n        bos: '<|startoftext|>',\n        eos: '<|endoftext|>',\n        pad: '<|pad|>',\n        unk: '<|unknown|>'\n      },\n      trainingData: {\n        cutoffDate: '2024-01-01',\n        languages: ['en'],\n        domains: ['creative_writing', 'literature']\n      }\n    };\n  }\n}\n\n// WebAssembly model loader for more efficient inference\nexport class WASMModelLoader extends BaseModelLoader {\n  private wasmModule?: any;\n  private modelInstance?: any;\n\n  async loadModel(): Promise<void> {\n    if (this.loaded || this.loading) {\n      return;\n    }\n\n    this.loading = true;\n    this.emit('loading-started', this.config.modelPath);\n\n    try {\n      await this.validateModelPath(this.config.modelPath);\n      this.emit('loading-progress', 20, 'Validating model file');\n\n      // Load WebAssembly module\n      this.wasmModule = await this.loadWASMModule();\n      this.emit('loading-progress', 50, 'Loading WebAssembly module');\n\n      // Initialize model instance\n      this.modelInstance = await this.initializeModel();\n      this.emit('loading-progress', 80, 'Initializing model');\n\n      // Extract metadata\n      this.metadata = await this.extractModelMetadata();\n      this.emit('loading-progress', 100, 'Model loaded successfully');\n\n      this.loaded = true;\n      this.loading = false;\n      this.emit('loading-completed', this.metadata);\n\n      console.log(`WASM model loaded: ${this.config.modelPath}`);\n    } catch (error) {\n      this.loading = false;\n      this.emit('loading-failed', error as Error);\n      throw error;\n    }\n  }\n\n  async unloadModel(): Promise<void> {\n    if (!this.loaded) return;\n\n    try {\n      if (this.modelInstance) {\n        // Clean up model instance\n        this.modelInstance = undefined;\n      }\n      \n      if (this.wasmModule) {\n        // Clean up WASM module\n        this.wasmModule = undefined;\n      }\n      \n      this.metadata = undefined;\n      this.loaded = false;\n      \n      this.emit('model-unloaded', this.config.modelPath);\n      console.log(`WASM model unloaded: ${this.config.modelPath}`);\n    } catch (error) {\n      console.error('Error unloading WASM model:', error);\n      throw error;\n    }\n  }\n\n  isModelLoaded(): boolean {\n    return this.loaded && !!this.modelInstance;\n  }\n\n  getModelInfo(): ModelMetadata | null {\n    return this.metadata || null;\n  }\n\n  async validateModel(modelPath: string): Promise<boolean> {\n    try {\n      await this.validateModelPath(modelPath);\n      // Additional WASM-specific validation would go here\n      return true;\n    } catch (error) {\n      console.warn(`WASM model validation failed for ${modelPath}:`, error);\n      return false;\n    }\n  }\n\n  getModelInstance(): any {\n    if (!this.loaded || !this.modelInstance) {\n      throw new Error('Model not loaded');\n    }\n    return this.modelInstance;\n  }\n\n  private async loadWASMModule(): Promise<any> {\n    // In a real implementation, this would load the actual WASM module\n    // For now, we'll return a mock\n    return {\n      createModel: () => ({\n        generate: (input: string) => `Generated: ${input}`,\n        analyze: (content: string) => ({ score: 0.8 })\n      })\n    };\n  }\n\n  private async initializeModel(): Promise<any> {\n    if (!this.wasmModule) {\n      throw new Error('WASM module not loaded');\n    }\n\n    // Initialize the model with configuration\n    return this.wasmModule.createModel({\n      modelPath: this.config.modelPath,\n      maxTokens: this.config.maxTokens,\n      temperature: this.config.temperature,\n      topP: this.config.topP,\n      threads: this.config.threads || 4\n    });\n  }\n\n  private async extractModelMetadata(): Promise<ModelMetadata> {\n    return {\n      name: path.basename(this.config.modelPath, '.bin'),\n      version: '1.0.0',\n      architecture: 'transformer',\n      parameters: 'Unknown',\n      quantization: this.config.quantization,\n      contextWindow: this.config.contextWindow,\n      specialTokens: {\n        bos: '<s>',\n        eos: '</s>',\n        pad: '<pad>',\n        unk: '<unk>'\n      },\n      trainingData: {\n        cutoffDate: '2024-01-01',\n        languages: ['en'],\n        domains: ['creative_writing']\n      }\n    };\n  }\n}\n\n// Factory function to create appropriate model loader\nexport function createModelLoader(config: ModelConfig, preferredBackend?: 'onnx' | 'wasm'): BaseModelLoader {\n  const backend = preferredBackend || detectBestBackend();\n  \n  switch (backend) {\n    case 'onnx':\n      return new ONNXModelLoader(config);\n    case 'wasm':\n      return new WASMModelLoader(config);\n    default:\n      throw new Error(`Unsupported backend: ${backend}`);\n  }\n}\n\n// Detect the best available backend\nfunction detectBestBackend(): 'onnx' | 'wasm' {\n  // In a real implementation, this would check for available backends\n  // For now, default to ONNX\n  return 'onnx';\n}\n\n// Utility functions\nexport function getDefaultModelConfig(): ModelConfig {\n  return {\n    modelPath: '',\n    quantization: '8bit',\n    maxTokens: 2048,\n    contextWindow: 4096,\n    temperature: 0.7,\n    topP: 0.9,\n    topK: 40,\n    repeatPenalty: 1.1,\n    threads: 4,\n    gpuLayers: 0\n  };\n}\n\nexport function validateModelConfig(config: Partial<ModelConfig>): string[] {\n  const errors: string[] = [];\n  \n  if (!config.modelPath) {\n    errors.push('Model path is required');\n  }\n  \n  if (config.maxTokens && config.maxTokens <= 0) {\n    errors.push('Max tokens must be positive');\n  }\n  \n  if (config.temperature && (config.temperature < 0 || config.temperature > 2)) {\n    errors.push('Temperature must be between 0 and 2');\n  }\n  \n  if (config.topP && (config.topP < 0 || config.topP > 1)) {\n    errors.push('Top-p must be between 0 and 1');\n  }\n  \n  return errors;\n}"
\ No newline at end of file
+// Model configuration interface
+export interface ModelConfig {
+  modelPath: string;
+  quantization: '4bit' | '8bit' | 'fp16' | 'fp32';
+  maxTokens: number;
+  contextWindow: number;
+  temperature: number;
+  topP: number;
+  topK: number;
+  repeatPenalty: number;
+  threads?: number;
+  gpuLayers?: number;
+}
+
+// Model metadata
+export interface ModelMetadata {
+  name: string;
+  version: string;
+  architecture: string;
+  parameters: string;
+  quantization: string;
+  contextWindow: number;
+  specialTokens: {
+    bos?: string;
+    eos?: string;
+    pad?: string;
+    unk?: string;
+  };
+  trainingData: {
+    cutoffDate?: string;
+    languages: string[];
+    domains: string[];
+  };
+  // Read from the model file when its format is known
+  format?: ModelFileFormat;
+  fileSize?: number;
+  parameterCount?: number;
+  vocabSize?: number;
+  tokenizer?: string;
+  memoryRequired?: number; // estimated bytes to run the model at the configured context window
+}
+
+// Model loading events
+export interface ModelLoaderEvents {
+  'loading-started': (modelPath: string) => void;
+  'loading-progress': (progress: number, stage: string) => void;
+  'loading-completed': (metadata: ModelMetadata) => void;
+  'loading-failed': (error: Error) => void;
+  'model-unloaded': (modelPath: string) => void;
+}
+
+// Abstract base class for model loaders
+export abstract class BaseModelLoader extends EventEmitter {
+  protected config: ModelConfig;
+  protected metadata?: ModelMetadata;
+  protected loaded = false;
+  protected loading = false;
+
+  constructor(config: ModelConfig) {
+    super();
+    this.config = config;
+  }
+
+  abstract loadModel(): Promise<void>;
+  abstract unloadModel(): Promise<void>;
+  abstract isModelLoaded(): boolean;
+  abstract getModelInfo(): ModelMetadata | null;
+  abstract validateModel(modelPath: string): Promise<boolean>;
+
+  // Common validation logic
+  protected async validateModelPath(modelPath: string): Promise<void> {
+    try {
+      const stats = await fs.stat(modelPath);
+      if (!stats.isFile()) {
+        throw new Error(`Model path is not a file: ${modelPath}`);
+      }
+    } catch (error) {
+      throw new Error(`Model file not found: ${modelPath}`);
+    }
+  }
+
+  // Get model size in bytes
+  protected async getModelSize(modelPath: string): Promise<number> {
+    const stats = await fs.stat(modelPath);
+    return stats.size;
+  }
+
+  // Estimate memory requirements
+  protected estimateMemoryRequirement(modelSize: number, quantization: string): number {
+    const baseMultiplier = {
+      '4bit': 0.6,
+      '8bit': 1.1,
+      'fp16': 2.2,
+      'fp32': 4.4
+    }[quantization] || 2.2;
+
+    // Add overhead for context and processing
+    const overhead = 1.5;
+    return Math.ceil(modelSize * baseMultiplier * overhead);
+  }
+
+  // Whether the machine has the memory to hold the model at all
+  protected async checkSystemMemory(requiredMemory: number): Promise<boolean> {
+    return requiredMemory <= os.totalmem();
+  }
+
+  // Metadata from the file, checked against system memory at the configured
+  // context window. Throws when the model cannot fit.
+  protected async inspectModelFile(info: ModelFileInfo): Promise<ModelMetadata> {
+    const metadata = modelMetadataFromFile(info, this.config);
+    if (!(await this.checkSystemMemory(metadata.memoryRequired!))) {
+      throw new Error(
+        `Not enough memory for ${path.basename(info.path)}: needs about ${formatGB(metadata.memoryRequired!)}, ` +
+        `this system has ${formatGB(os.totalmem())}`
+      );
+    }
+    return metadata;
+  }
+
+  getConfig(): ModelConfig {
+    return { ...this.config };
+  }
+
+  updateConfig(newConfig: Partial<ModelConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  isLoading(): boolean {
+    return this.loading;
+  }
+}
+
+// ONNX.js model loader for web-based inference
+export class ONNXModelLoader extends BaseModelLoader {
+  private session?: any; // onnxruntime.InferenceSession
+  private tokenizer?: any;
+  private fileMetadata?: ModelMetadata;
+
+  async loadModel(): Promise<void> {
+    if (this.loaded || this.loading) {
+      return;
+    }
+
+    this.loading = true;
+    this.emit('loading-started', this.config.modelPath);
+
+    try {
+      // Validate model file
+      await this.validateModelPath(this.config.modelPath);
+      this.emit('loading-progress', 10, 'Validating model file');
+
+      // Read the model's metadata and make sure it fits in memory before loading weights
+      this.fileMetadata = await this.inspectModelFile(await ModelMetadataReader.readONNX(this.config.modelPath));
+      this.emit('loading-progress', 20, 'Reading model metadata');
+
+      // Check if ONNX runtime is available
+      const ort = await this.loadONNXRuntime();
+      this.emit('loading-progress', 30, 'Loading ONNX runtime');
+
+      // Load the model
+      this.session = await ort.InferenceSession.create(this.config.modelPath, {
+        executionProviders: this.getExecutionProviders(),
+        graphOptimizationLevel: 'all',
+        enableCpuMemArena: true,
+        enableMemPattern: true
+      });
+      this.emit('loading-progress', 70, 'Loading model weights');
+
+      // Load tokenizer if available
+      await this.loadTokenizer();
+      this.emit('loading-progress', 90, 'Loading tokenizer');
+
+      // Extract model metadata
+      this.metadata = await this.extractModelMetadata();
+      this.emit('loading-progress', 100, 'Model loaded successfully');
+
+      this.loaded = true;
+      this.loading = false;
+      this.emit('loading-completed', this.metadata);
+
+      console.log(`ONNX model loaded: ${this.config.modelPath}`);
+    } catch (error) {
+      this.loading = false;
+      this.emit('loading-failed', error as Error);
+      throw error;
+    }
+  }
+
+  async unloadModel(): Promise<void> {
+    if (!this.loaded) return;
+
+    try {
+      if (this.session) {
+        await this.session.release();
+        this.session = undefined;
+      }
+      
+      this.tokenizer = undefined;
+      this.metadata = undefined;
+      this.fileMetadata = undefined;
+      this.loaded = false;
+      
+      this.emit('model-unloaded', this.config.modelPath);
+      console.log(`ONNX model unloaded: ${this.config.modelPath}`);
+    } catch (error) {
+      console.error('Error unloading ONNX model:', error);
+      throw error;
+    }
+  }
+
+  isModelLoaded(): boolean {
+    return this.loaded && !!this.session;
+  }
+
+  getModelInfo(): ModelMetadata | null {
+    return this.metadata || null;
+  }
+
+  async validateModel(modelPath: string): Promise<boolean> {
+    try {
+      await this.validateModelPath(modelPath);
+
+      // Parsing the header rejects files that are not ONNX models
+      await ModelMetadataReader.readONNX(modelPath);
+      const ort = await this.loadONNXRuntime();
+      const tempSession = await ort.InferenceSession.create(modelPath, {
+        executionProviders: ['cpu']
+      });
+      await tempSession.release();
+      
+      return true;
+    } catch (error) {
+      console.warn(`Model validation failed for ${modelPath}:`, error);
+      return false;
+    }
+  }
+
+  // Get inference session for running the model
+  getSession(): any {
+    if (!this.loaded || !this.session) {
+      throw new Error('Model not loaded');
+    }
+    return this.session;
+  }
+
+  // Get tokenizer instance
+  getTokenizer(): any {
+    return this.tokenizer;
+  }
+
+  private async loadONNXRuntime(): Promise<any> {
+    try {
+      // Dynamic import of ONNX runtime
+      // In a real implementation, this would be:
+      // const ort = await import('onnxruntime-node');
+      // For now, we'll mock it
+      return {
+        InferenceSession: {
+          create: async (modelPath: string, options: any) => ({
+            run: async (feeds: any) => ({}),
+            release: async () => {}
+          })
+        }
+      };
+    } catch (error) {
+      throw new Error('ONNX Runtime not available. Please install onnxruntime-node.');
+    }
+  }
+
+  private getExecutionProviders(): string[] {
+    const providers = ['cpu'];
+    
+    // Add GPU providers if available
+    if (this.config.gpuLayers && this.config.gpuLayers > 0) {
+      providers.unshift('cuda', 'dml'); // CUDA for NVIDIA, DirectML for others
+    }
+    
+    return providers;
+  }
+
+  private async loadTokenizer(): Promise<void> {
+    try {
+      const tokenizerPath = this.config.modelPath.replace(/\.onnx$/, '_tokenizer.json');
+      const tokenizerExists = await fs.access(tokenizerPath).then(() => true).catch(() => false);
+      
+      if (tokenizerExists) {
+        const tokenizerData = await fs.readFile(tokenizerPath, 'utf-8');
+        this.tokenizer = JSON.parse(tokenizerData);
+      } else {
+        console.warn('Tokenizer file not found, using basic tokenization');
+        this.tokenizer = this.createBasicTokenizer();
+      }
+    } catch (error) {
+      console.warn('Failed to load tokenizer, using basic tokenization:', error);
+      this.tokenizer = this.createBasicTokenizer();
+    }
+  }
+
+  private createBasicTokenizer(): any {
+    return {
+      encode: (text: string) => {
+        // Basic word-level tokenization
+        return text.split(/\s+/).map((word, index) => index);
+      },
+      decode: (tokens: number[]) => {
+        // Basic detokenization
+        return tokens.map(t => `token_${t}`).join(' ');
+      },
+      vocab_size: 50000
+    };
+  }
+
+  // File metadata, with special tokens from the tokenizer file when it names them
+  private async extractModelMetadata(): Promise<ModelMetadata> {
+    const metadata = this.fileMetadata!;
+    const added: Array<{ content: string; special?: boolean }> = this.tokenizer?.added_tokens || [];
+    const special = (pattern: RegExp) => added.find(token => token.special !== false && pattern.test(token.content))?.content;
+    return {
+      ...metadata,
+      specialTokens: {
+        bos: metadata.specialTokens.bos ?? special(/^<s>$|bos|startoftext|begin_of_text/i),
+        eos: metadata.specialTokens.eos ?? special(/^<\/s>$|eos|endoftext|end_of_text/i),
+        pad: metadata.specialTokens.pad ?? special(/pad/i),
+        unk: metadata.specialTokens.unk ?? special(/unk/i)
+      }
+    };
+  }
+}
+
+// WebAssembly model loader for more efficient inference
+export class WASMModelLoader extends BaseModelLoader {
+  private wasmModule?: any;
+  private modelInstance?: any;
+
+  async loadModel(): Promise<void> {
+    if (this.loaded || this.loading) {
+      return;
+    }
+
+    this.loading = true;
+    this.emit('loading-started', this.config.modelPath);
+
+    try {
+      await this.validateModelPath(this.config.modelPath);
+      this.emit('loading-progress', 20, 'Validating model file');
+
+      // Load WebAssembly module
+      this.wasmModule = await this.loadWASMModule();
+      this.emit('loading-progress', 50, 'Loading WebAssembly module');
+
+      // Initialize model instance
+      this.modelInstance = await this.initializeModel();
+      this.emit('loading-progress', 80, 'Initializing model');
+
+      // Extract metadata
+      this.metadata = await this.extractModelMetadata();
+      this.emit('loading-progress', 100, 'Model loaded successfully');
+
+      this.loaded = true;
+      this.loading = false;
+      this.emit('loading-completed', this.metadata);
+
+      console.log(`WASM model loaded: ${this.config.modelPath}`);
+    } catch (error) {
+      this.loading = false;
+      this.emit('loading-failed', error as Error);
+      throw error;
+    }
+  }
+
+  async unloadModel(): Promise<void> {
+    if (!this.loaded) return;
+
+    try {
+      if (this.modelInstance) {
+        // Clean up model instance
+        this.modelInstance = undefined;
+      }
+      
+      if (this.wasmModule) {
+        // Clean up WASM module
+        this.wasmModule = undefined;
+      }
+      
+      this.metadata = undefined;
+      this.loaded = false;
+      
+      this.emit('model-unloaded', this.config.modelPath);
+      console.log(`WASM model unloaded: ${this.config.modelPath}`);
+    } catch (error) {
+      console.error('Error unloading WASM model:', error);
+      throw error;
+    }
+  }
+
+  isModelLoaded(): boolean {
+    return this.loaded && !!this.modelInstance;
+  }
+
+  getModelInfo(): ModelMetadata | null {
+    return this.metadata || null;
+  }
+
+  async validateModel(modelPath: string): Promise<boolean> {
+    try {
+      await this.validateModelPath(modelPath);
+      // Additional WASM-specific validation would go here
+      return true;
+    } catch (error) {
+      console.warn(`WASM model validation failed for ${modelPath}:`, error);
+      return false;
+    }
+  }
+
+  getModelInstance(): any {
+    if (!this.loaded || !this.modelInstance) {
+      throw new Error('Model not loaded');
+    }
+    return this.modelInstance;
+  }
+
+  private async loadWASMModule(): Promise<any> {
+    // In a real implementation, this would load the actual WASM module
+    // For now, we'll return a mock
+    return {
+      createModel: () => ({
+        generate: (input: string) => `Generated: ${input}`,
+        analyze: (content: string) => ({ score: 0.8 })
+      })
+    };
+  }
+
+  private async initializeModel(): Promise<any> {
+    if (!this.wasmModule) {
+      throw new Error('WASM module not loaded');
+    }
+
+    // Initialize the model with configuration
+    return this.wasmModule.createModel({
+      modelPath: this.config.modelPath,
+      maxTokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+      topP: this.config.topP,
+      threads: this.config.threads || 4
+    });
+  }
+
+  // GGUF files describe themselves; other formats only have the configuration to go on
+  private async extractModelMetadata(): Promise<ModelMetadata> {
+    try {
+      return await this.inspectModelFile(await ModelMetadataReader.read(this.config.modelPath));
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Not enough memory')) {
+        throw error;
+      }
+      return {
+        name: path.basename(this.config.modelPath, path.extname(this.config.modelPath)),
+        version: 'unknown',
+        architecture: 'unknown',
+        parameters: 'Unknown',
+        quantization: this.config.quantization,
+        contextWindow: this.config.contextWindow,
+        specialTokens: {},
+        trainingData: { languages: [], domains: [] }
+      };
+    }
+  }
+}
+
+// Factory function to create appropriate model loader
+export function createModelLoader(config: ModelConfig, preferredBackend?: 'onnx' | 'wasm'): BaseModelLoader {
+  const backend = preferredBackend || detectBestBackend();
+  
+  switch (backend) {
+    case 'onnx':
+      return new ONNXModelLoader(config);
+    case 'wasm':
+      return new WASMModelLoader(config);
+    default:
+      throw new Error(`Unsupported backend: ${backend}`);
+  }
+}
+
+// Detect the best available backend
+function detectBestBackend(): 'onnx' | 'wasm' {
+  // In a real implementation, this would check for available backends
+  // For now, default to ONNX
+  return 'onnx';
+}
+
+// Reads a model file's metadata without loading it, for showing model details
+// and memory requirements. Throws for files that are not GGUF or ONNX models.
+export async function inspectModel(modelPath: string, config: Partial<ModelConfig> = {}): Promise<ModelMetadata> {
+  return modelMetadataFromFile(await ModelMetadataReader.read(modelPath), config);
+}
+
+// The configured context window is used when it is smaller than the model's own
+function modelMetadataFromFile(info: ModelFileInfo, config: Partial<ModelConfig>): ModelMetadata {
+  const contextWindow = info.contextLength && config.contextWindow
+    ? Math.min(info.contextLength, config.contextWindow)
+    : info.contextLength || config.contextWindow || 0;
+  return {
+    name: info.name || path.basename(info.path, path.extname(info.path)),
+    version: info.version || 'unknown',
+    architecture: info.architecture || 'unknown',
+    parameters: ModelMetadataReader.formatParameterCount(info.parameterCount),
+    quantization: info.quantization || config.quantization || 'unknown',
+    contextWindow,
+    specialTokens: info.specialTokens,
+    trainingData: { languages: info.languages || [], domains: [] },
+    format: info.format,
+    fileSize: info.fileSize,
+    parameterCount: info.parameterCount,
+    vocabSize: info.vocabSize,
+    tokenizer: info.tokenizerModel,
+    memoryRequired: ModelMetadataReader.estimateMemory(info, contextWindow || undefined)
+  };
+}
+
+function formatGB(bytes: number): string {
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)}GB`;
+}
+
+// Utility functions
+export function getDefaultModelConfig(): ModelConfig {
+  return {
+    modelPath: '',
+    quantization: '8bit',
+    maxTokens: 2048,
+    contextWindow: 4096,
+    temperature: 0.7,
+    topP: 0.9,
+    topK: 40,
+    repeatPenalty: 1.1,
+    threads: 4,
+    gpuLayers: 0
+  };
+}
+
+export function validateModelConfig(config: Partial<ModelConfig>): string[] {
+  const errors: string[] = [];
+  
+  if (!config.modelPath) {
+    errors.push('Model path is required');
+  }
+  
+  if (config.maxTokens && config.maxTokens <= 0) {
+    errors.push('Max tokens must be positive');
+  }
+  
+  if (config.temperature && (config.temperature < 0 || config.temperature > 2)) {
+    errors.push('Temperature must be between 0 and 2');
+  }
+  
+  if (config.topP && (config.topP < 0 || config.topP > 1)) {
+    errors.push('Top-p must be between 0 and 1');
+  }
+  
+  return errors;
+}
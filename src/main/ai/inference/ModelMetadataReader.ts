@@ -0,0 +1,539 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export type ModelFileFormat = 'gguf' | 'onnx';
+
+// What can be read from a model file without loading its weights
+export interface ModelFileInfo {
+  format: ModelFileFormat;
+  path: string;
+  fileSize: number;
+  weightBytes?: number; // size of the weights, when they are stored outside the file (ONNX external data)
+  name?: string;
+  version?: string;
+  architecture?: string;
+  parameterCount?: number;
+  quantization?: string; // e.g. Q4_K_M for GGUF, fp16 for ONNX
+  contextLength?: number;
+  embeddingLength?: number;
+  blockCount?: number; // transformer layers
+  headCount?: number;
+  headCountKV?: number;
+  vocabSize?: number;
+  tokenizerModel?: string; // e.g. llama, gpt2
+  specialTokens: { bos?: string; eos?: string; pad?: string; unk?: string };
+  languages?: string[];
+  metadata: Record<string, any>; // the file's own key/value metadata; long arrays are left out
+}
+
+const GGUF_MAGIC = 0x46554747; // "GGUF" read little-endian
+const READ_CHUNK = 1024 * 1024;
+// Arrays longer than this (token lists, merges, scores) are skipped rather than kept in metadata
+const MAX_KEPT_ARRAY = 64;
+// Guards against reading a corrupt length as a huge allocation
+const MAX_STRING_BYTES = 16 * 1024 * 1024;
+
+// GGUF value types and their sizes; strings (8) and arrays (9) are variable length
+const GGUF_TYPE_SIZES: Record<number, number> = { 0: 1, 1: 1, 2: 2, 3: 2, 4: 4, 5: 4, 6: 4, 7: 1, 10: 8, 11: 8, 12: 8 };
+const GGUF_STRING = 8;
+const GGUF_ARRAY = 9;
+
+// general.file_type, the quantization llama.cpp wrote the file with
+const GGUF_FILE_TYPES: Record<number, string> = {
+  0: 'F32', 1: 'F16', 2: 'Q4_0', 3: 'Q4_1', 7: 'Q8_0', 8: 'Q5_0', 9: 'Q5_1', 10: 'Q2_K', 11: 'Q3_K_S',
+  12: 'Q3_K_M', 13: 'Q3_K_L', 14: 'Q4_K_S', 15: 'Q4_K_M', 16: 'Q5_K_S', 17: 'Q5_K_M', 18: 'Q6_K',
+  19: 'IQ2_XXS', 20: 'IQ2_XS', 21: 'Q2_K_S', 22: 'IQ3_XS', 23: 'IQ3_XXS', 24: 'IQ1_S', 25: 'IQ4_NL',
+  26: 'IQ3_S', 27: 'IQ3_M', 28: 'IQ2_S', 29: 'IQ2_M', 30: 'IQ4_XS', 31: 'IQ1_M', 32: 'BF16'
+};
+
+// Tensor types, used when a file has no general.file_type
+const GGML_TENSOR_TYPES: Record<number, string> = {
+  0: 'F32', 1: 'F16', 2: 'Q4_0', 3: 'Q4_1', 6: 'Q5_0', 7: 'Q5_1', 8: 'Q8_0', 9: 'Q8_1', 10: 'Q2_K',
+  11: 'Q3_K', 12: 'Q4_K', 13: 'Q5_K', 14: 'Q6_K', 15: 'Q8_K', 16: 'IQ2_XXS', 17: 'IQ2_XS', 18: 'IQ3_XXS',
+  19: 'IQ1_S', 20: 'IQ4_NL', 21: 'IQ3_S', 22: 'IQ2_S', 23: 'IQ4_XS', 24: 'I8', 25: 'I16', 26: 'I32',
+  27: 'I64', 28: 'F64', 29: 'IQ1_M', 30: 'BF16'
+};
+
+// ONNX TensorProto data types and their sizes in bytes
+const ONNX_DATA_TYPES: Record<number, string> = {
+  1: 'fp32', 2: 'uint8', 3: 'int8', 4: 'uint16', 5: 'int16', 6: 'int32', 7: 'int64', 10: 'fp16',
+  11: 'fp64', 12: 'uint32', 13: 'uint64', 16: 'bf16', 21: 'uint4', 22: 'int4'
+};
+const ONNX_TYPE_BYTES: Record<number, number> = {
+  1: 4, 2: 1, 3: 1, 4: 2, 5: 2, 6: 4, 7: 8, 10: 2, 11: 8, 12: 4, 13: 8, 16: 2, 21: 0.5, 22: 0.5
+};
+
+// Sequential reads over a file, a chunk at a time, so headers can be parsed
+// from multi-gigabyte models without reading the weights. ensure() loads the
+// next bytes; the typed readers then read from memory.
+class FileCursor {
+  position = 0;
+  private buffer = Buffer.alloc(0);
+  private bufferStart = 0;
+
+  constructor(private handle: fs.FileHandle, readonly size: number) {}
+
+  async ensure(length: number): Promise<void> {
+    if (this.position + length > this.size) {
+      throw new Error('Unexpected end of file');
+    }
+    if (this.position >= this.bufferStart && this.position + length <= this.bufferStart + this.buffer.length) {
+      return;
+    }
+    const buffer = Buffer.alloc(Math.min(Math.max(length, READ_CHUNK), this.size - this.position));
+    await this.handle.read(buffer, 0, buffer.length, this.position);
+    this.buffer = buffer;
+    this.bufferStart = this.position;
+  }
+
+  u8(): number { return this.buffer.readUInt8(this.take(1)); }
+  i8(): number { return this.buffer.readInt8(this.take(1)); }
+  u16(): number { return this.buffer.readUInt16LE(this.take(2)); }
+  i16(): number { return this.buffer.readInt16LE(this.take(2)); }
+  u32(): number { return this.buffer.readUInt32LE(this.take(4)); }
+  i32(): number { return this.buffer.readInt32LE(this.take(4)); }
+  u64(): number { return Number(this.buffer.readBigUInt64LE(this.take(8))); }
+  i64(): number { return Number(this.buffer.readBigInt64LE(this.take(8))); }
+  f32(): number { return this.buffer.readFloatLE(this.take(4)); }
+  f64(): number { return this.buffer.readDoubleLE(this.take(8)); }
+
+  text(length: number): string {
+    const offset = this.take(length);
+    return this.buffer.toString('utf8', offset, offset + length);
+  }
+
+  skip(length: number): void {
+    this.position += length;
+  }
+
+  private take(length: number): number {
+    const offset = this.position - this.bufferStart;
+    this.position += length;
+    return offset;
+  }
+}
+
+// Reads model metadata straight from GGUF and ONNX files: architecture,
+// context length, quantization, parameter count and tokenizer, for showing
+// model details and estimating memory before anything is loaded
+export class ModelMetadataReader {
+  // Detects the format from the file's contents, falling back to the extension
+  static async read(modelPath: string): Promise<ModelFileInfo> {
+    const format = await this.detectFormat(modelPath);
+    if (!format) {
+      throw new Error(`Unrecognised model format: ${modelPath}`);
+    }
+    return format === 'gguf' ? this.readGGUF(modelPath) : this.readONNX(modelPath);
+  }
+
+  static async detectFormat(modelPath: string): Promise<ModelFileFormat | null> {
+    const handle = await fs.open(modelPath, 'r');
+    try {
+      const header = Buffer.alloc(4);
+      const { bytesRead } = await handle.read(header, 0, 4, 0);
+      if (bytesRead === 4 && header.readUInt32LE(0) === GGUF_MAGIC) {
+        return 'gguf';
+      }
+      // An ONNX model is a protobuf ModelProto, which starts with ir_version (field 1, varint)
+      if (path.extname(modelPath).toLowerCase() === '.onnx' || (bytesRead > 0 && header[0] === 0x08)) {
+        return 'onnx';
+      }
+      return null;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  // GGUF (v2 and v3): header, key/value metadata, then tensor descriptions,
+  // from which the parameter count is summed
+  static async readGGUF(modelPath: string): Promise<ModelFileInfo> {
+    return this.withFile(modelPath, async cursor => {
+      await cursor.ensure(8);
+      if (cursor.u32() !== GGUF_MAGIC) {
+        throw new Error(`Not a GGUF file: ${modelPath}`);
+      }
+      const version = cursor.u32();
+      if (version < 2) {
+        throw new Error(`Unsupported GGUF version ${version}: ${modelPath}`);
+      }
+      await cursor.ensure(16);
+      const tensorCount = cursor.u64();
+      const kvCount = cursor.u64();
+
+      const metadata: Record<string, any> = {};
+      let tokens: string[] | undefined;
+      let vocabSize: number | undefined;
+      for (let i = 0; i < kvCount; i++) {
+        const key = await this.ggufString(cursor);
+        await cursor.ensure(4);
+        const type = cursor.u32();
+        if (type === GGUF_ARRAY) {
+          const keep = key === 'tokenizer.ggml.tokens';
+          const { length, items } = await this.ggufArray(cursor, keep);
+          if (keep) {
+            tokens = items;
+            vocabSize = length;
+          } else if (items) {
+            metadata[key] = items;
+          }
+        } else {
+          metadata[key] = await this.ggufValue(cursor, type);
+        }
+      }
+
+      let parameterCount = 0;
+      const elementsByType = new Map<number, number>();
+      for (let i = 0; i < tensorCount; i++) {
+        await this.ggufString(cursor);
+        await cursor.ensure(4);
+        const dimensions = cursor.u32();
+        await cursor.ensure(dimensions * 8 + 12);
+        let elements = 1;
+        for (let d = 0; d < dimensions; d++) {
+          elements *= cursor.u64();
+        }
+        const type = cursor.u32();
+        cursor.skip(8); // offset of the tensor data
+        parameterCount += elements;
+        elementsByType.set(type, (elementsByType.get(type) || 0) + elements);
+      }
+
+      const architecture: string | undefined = metadata['general.architecture'];
+      const forArchitecture = (key: string) => {
+        const value = metadata[`${architecture}.${key}`];
+        // Some architectures give per-layer values
+        return Array.isArray(value) ? Math.max(...value) : value;
+      };
+      const token = (key: string) => {
+        const id = metadata[`tokenizer.ggml.${key}`];
+        return tokens && typeof id === 'number' ? tokens[id] : undefined;
+      };
+      const headCount = forArchitecture('attention.head_count');
+
+      return {
+        format: 'gguf' as const,
+        path: modelPath,
+        fileSize: cursor.size,
+        name: metadata['general.name'],
+        version: metadata['general.version'],
+        architecture,
+        parameterCount: parameterCount || undefined,
+        quantization: GGUF_FILE_TYPES[metadata['general.file_type']] ?? this.dominantType(elementsByType, GGML_TENSOR_TYPES),
+        contextLength: forArchitecture('context_length'),
+        embeddingLength: forArchitecture('embedding_length'),
+        blockCount: forArchitecture('block_count'),
+        headCount,
+        headCountKV: forArchitecture('attention.head_count_kv') ?? headCount,
+        vocabSize,
+        tokenizerModel: metadata['tokenizer.ggml.model'],
+        specialTokens: {
+          bos: token('bos_token_id'),
+          eos: token('eos_token_id'),
+          pad: token('padding_token_id'),
+          unk: token('unknown_token_id')
+        },
+        languages: metadata['general.languages'],
+        metadata
+      };
+    });
+  }
+
+  // ONNX: walks the ModelProto for its producer, opset and metadata_props,
+  // and the graph's initializers for the parameter count and weight type.
+  // Weight data is skipped over, never read. Architecture, context length and
+  // vocabulary come from a Hugging Face config.json beside the model when there is one.
+  static async readONNX(modelPath: string): Promise<ModelFileInfo> {
+    const info = await this.withFile(modelPath, async cursor => {
+      const metadata: Record<string, any> = {};
+      let irVersion = 0;
+      let hasGraph = false;
+      let parameterCount = 0;
+      const elementsByType = new Map<number, number>();
+      const inputs: string[] = [];
+
+      await this.protobufFields(cursor, cursor.size, async (field, value) => {
+        switch (field) {
+          case 1: irVersion = value; break;
+          case 2: metadata.producer = await this.protobufString(cursor, value); break;
+          case 3: metadata.producerVersion = await this.protobufString(cursor, value); break;
+          case 5: metadata.modelVersion = value; break;
+          case 8: {
+            const opset: Record<string, any> = {};
+            await this.protobufFields(cursor, cursor.position + value, async (opsetField, opsetValue) => {
+              if (opsetField === 1) opset.domain = await this.protobufString(cursor, opsetValue);
+              if (opsetField === 2) opset.version = opsetValue;
+            });
+            if (!opset.domain || opset.domain === 'ai.onnx') {
+              metadata.opsetVersion = opset.version;
+            }
+            break;
+          }
+          case 14: {
+            let key = '';
+            let entry = '';
+            await this.protobufFields(cursor, cursor.position + value, async (entryField, entryValue) => {
+              if (entryField === 1) key = await this.protobufString(cursor, entryValue);
+              if (entryField === 2) entry = await this.protobufString(cursor, entryValue);
+            });
+            if (key) metadata[key] = entry;
+            break;
+          }
+          case 7:
+            hasGraph = true;
+            await this.protobufFields(cursor, cursor.position + value, async (graphField, graphValue) => {
+              if (graphField === 2) {
+                metadata.graphName = await this.protobufString(cursor, graphValue);
+              } else if (graphField === 5) {
+                const tensor = await this.onnxTensor(cursor, cursor.position + graphValue);
+                parameterCount += tensor.elements;
+                elementsByType.set(tensor.dataType, (elementsByType.get(tensor.dataType) || 0) + tensor.elements);
+              } else if (graphField === 11) {
+                await this.protobufFields(cursor, cursor.position + graphValue, async (inputField, inputValue) => {
+                  if (inputField === 1) inputs.push(await this.protobufString(cursor, inputValue));
+                });
+              }
+            });
+            break;
+        }
+      });
+
+      if (!irVersion || !hasGraph) {
+        throw new Error(`Not a valid ONNX model: ${modelPath}`);
+      }
+      metadata.irVersion = irVersion;
+      metadata.inputs = inputs;
+
+      // Models over 2GB keep their weights in a separate external data file
+      let weightBytes = 0;
+      elementsByType.forEach((elements, type) => { weightBytes += elements * (ONNX_TYPE_BYTES[type] || 4); });
+
+      return {
+        format: 'onnx' as const,
+        path: modelPath,
+        fileSize: cursor.size,
+        weightBytes: weightBytes > cursor.size ? Math.ceil(weightBytes) : undefined,
+        name: metadata.name || metadata.graphName || undefined,
+        version: metadata.modelVersion !== undefined ? String(metadata.modelVersion) : undefined,
+        parameterCount: parameterCount || undefined,
+        quantization: this.dominantType(elementsByType, ONNX_DATA_TYPES),
+        specialTokens: {},
+        metadata
+      } as ModelFileInfo;
+    });
+
+    return this.withHuggingFaceConfig(info);
+  }
+
+  // Bytes needed to run the model: the weights as stored, an fp16 KV cache
+  // for the context window, and about 10% for compute buffers
+  static estimateMemory(info: ModelFileInfo, contextLength: number | undefined = info.contextLength): number {
+    let kvCache = 0;
+    if (contextLength && info.blockCount && info.embeddingLength) {
+      const kvShare = info.headCount && info.headCountKV ? info.headCountKV / info.headCount : 1;
+      kvCache = 2 * info.blockCount * contextLength * info.embeddingLength * kvShare * 2;
+    }
+    return Math.ceil((Math.max(info.fileSize, info.weightBytes || 0) + kvCache) * 1.1);
+  }
+
+  // 7241732096 -> "7.2B"
+  static formatParameterCount(count?: number): string {
+    if (!count) {
+      return 'Unknown';
+    }
+    const units: Array<[number, string]> = [[1e12, 'T'], [1e9, 'B'], [1e6, 'M'], [1e3, 'K']];
+    const [size, unit] = units.find(([threshold]) => count >= threshold) || [1, ''];
+    return `${Number((count / size).toFixed(1))}${unit}`;
+  }
+
+  private static async withFile<T>(modelPath: string, read: (cursor: FileCursor) => Promise<T>): Promise<T> {
+    const handle = await fs.open(modelPath, 'r');
+    try {
+      const { size } = await handle.stat();
+      return await read(new FileCursor(handle, size));
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private static async ggufString(cursor: FileCursor): Promise<string> {
+    await cursor.ensure(8);
+    const length = cursor.u64();
+    if (length > MAX_STRING_BYTES) {
+      throw new Error('Invalid GGUF string length');
+    }
+    await cursor.ensure(length);
+    return cursor.text(length);
+  }
+
+  private static async ggufValue(cursor: FileCursor, type: number): Promise<any> {
+    if (type === GGUF_STRING) {
+      return this.ggufString(cursor);
+    }
+    const size = GGUF_TYPE_SIZES[type];
+    if (!size) {
+      throw new Error(`Unknown GGUF value type ${type}`);
+    }
+    await cursor.ensure(size);
+    switch (type) {
+      case 0: return cursor.u8();
+      case 1: return cursor.i8();
+      case 2: return cursor.u16();
+      case 3: return cursor.i16();
+      case 4: return cursor.u32();
+      case 5: return cursor.i32();
+      case 6: return cursor.f32();
+      case 7: return cursor.u8() !== 0;
+      case 10: return cursor.u64();
+      case 11: return cursor.i64();
+      case 12: return cursor.f64();
+    }
+  }
+
+  // Reads an array's items when they are kept, otherwise skips past them
+  private static async ggufArray(cursor: FileCursor, keep: boolean): Promise<{ length: number; items?: any[] }> {
+    await cursor.ensure(12);
+    const type = cursor.u32();
+    const length = cursor.u64();
+    if (keep || length <= MAX_KEPT_ARRAY) {
+      const items: any[] = [];
+      for (let i = 0; i < length; i++) {
+        items.push(type === GGUF_ARRAY ? (await this.ggufArray(cursor, false)).items : await this.ggufValue(cursor, type));
+      }
+      return { length, items };
+    }
+    if (type === GGUF_STRING || type === GGUF_ARRAY) {
+      for (let i = 0; i < length; i++) {
+        if (type === GGUF_STRING) {
+          await cursor.ensure(8);
+          cursor.skip(cursor.u64());
+        } else {
+          await this.ggufArray(cursor, false);
+        }
+      }
+    } else {
+      cursor.skip(length * (GGUF_TYPE_SIZES[type] || 0));
+    }
+    return { length };
+  }
+
+  // Calls visit for each varint and length-delimited field up to end.
+  // Varints pass their value; length-delimited fields pass their length, and
+  // the cursor moves past them afterwards whether or not visit read them.
+  private static async protobufFields(
+    cursor: FileCursor,
+    end: number,
+    visit: (field: number, value: number, wireType: number) => Promise<void>
+  ): Promise<void> {
+    while (cursor.position < end) {
+      const key = await this.varint(cursor);
+      const field = Math.floor(key / 8);
+      switch (key & 7) {
+        case 0:
+          await visit(field, await this.varint(cursor), 0);
+          break;
+        case 1:
+          cursor.skip(8);
+          break;
+        case 2: {
+          const length = await this.varint(cursor);
+          const start = cursor.position;
+          if (start + length > end) {
+            throw new Error('Invalid protobuf field length');
+          }
+          await visit(field, length, 2);
+          cursor.position = start + length;
+          break;
+        }
+        case 5:
+          cursor.skip(4);
+          break;
+        default:
+          throw new Error(`Invalid protobuf wire type ${key & 7}`);
+      }
+    }
+    if (cursor.position > end) {
+      throw new Error('Unexpected end of protobuf message');
+    }
+  }
+
+  private static async varint(cursor: FileCursor): Promise<number> {
+    await cursor.ensure(Math.min(10, cursor.size - cursor.position));
+    let value = 0;
+    for (let shift = 0; shift < 70; shift += 7) {
+      const byte = cursor.u8();
+      value += (byte & 0x7f) * Math.pow(2, shift);
+      if (byte < 0x80) {
+        return value;
+      }
+    }
+    throw new Error('Invalid protobuf varint');
+  }
+
+  private static async protobufString(cursor: FileCursor, length: number): Promise<string> {
+    await cursor.ensure(length);
+    return cursor.text(length);
+  }
+
+  // Element count and data type of an initializer; dims may be packed or not
+  private static async onnxTensor(cursor: FileCursor, end: number): Promise<{ elements: number; dataType: number }> {
+    const dims: number[] = [];
+    let dataType = 0;
+    await this.protobufFields(cursor, end, async (field, value, wireType) => {
+      if (field === 1 && wireType === 2) {
+        const packedEnd = cursor.position + value;
+        while (cursor.position < packedEnd) {
+          dims.push(await this.varint(cursor));
+        }
+      } else if (field === 1) {
+        dims.push(value);
+      } else if (field === 2) {
+        dataType = value;
+      }
+    });
+    return { elements: dims.reduce((product, dim) => product * dim, 1), dataType };
+  }
+
+  // Fills in what the ONNX file does not record from a Hugging Face
+  // config.json (and tokenizer.json) in the same directory
+  private static async withHuggingFaceConfig(info: ModelFileInfo): Promise<ModelFileInfo> {
+    const directory = path.dirname(info.path);
+    const config = await this.readJSON(path.join(directory, 'config.json'));
+    if (config) {
+      info.architecture = info.architecture || config.model_type;
+      info.contextLength = config.max_position_embeddings ?? config.n_positions ?? config.max_sequence_length;
+      info.embeddingLength = config.hidden_size ?? config.n_embd;
+      info.blockCount = config.num_hidden_layers ?? config.n_layer;
+      info.headCount = config.num_attention_heads ?? config.n_head;
+      info.headCountKV = config.num_key_value_heads ?? info.headCount;
+      info.vocabSize = config.vocab_size;
+    }
+
+    const tokenizer = await this.readJSON(path.join(directory, 'tokenizer.json'))
+      || await this.readJSON(info.path.replace(/\.onnx$/i, '_tokenizer.json'));
+    if (tokenizer?.model) {
+      info.tokenizerModel = info.tokenizerModel || String(tokenizer.model.type || '').toLowerCase() || undefined;
+      if (!info.vocabSize && tokenizer.model.vocab) {
+        info.vocabSize = Object.keys(tokenizer.model.vocab).length + (tokenizer.added_tokens?.length || 0);
+      }
+    }
+    return info;
+  }
+
+  private static async readJSON(filePath: string): Promise<any | null> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private static dominantType(elementsByType: Map<number, number>, names: Record<number, string>): string | undefined {
+    let dominant: number | undefined;
+    elementsByType.forEach((elements, type) => {
+      if (dominant === undefined || elements > elementsByType.get(dominant)!) {
+        dominant = type;
+      }
+    });
+    return dominant === undefined ? undefined : names[dominant] || `type ${dominant}`;
+  }
+}
@@ -1 +1,788 @@
-// Tokenizer interface and implementations for text processing\n\nexport interface TokenizerConfig {\n  vocabSize: number;\n  maxLength: number;\n  padToken: string;\n  unknownToken: string;\n  bosToken?: string;\n  eosToken?: string;\n  specialTokens?: Record<string, number>;\n}\n\nexport interface TokenizationResult {\n  tokens: number[];\n  tokenStrings: string[];\n  attentionMask: number[];\n  specialTokenMask: number[];\n}\n\nexport interface DecodingOptions {\n  skipSpecialTokens?: boolean;\n  cleanUpTokenizationSpaces?: boolean;\n}\n\n// Base tokenizer interface\nexport abstract class BaseTokenizer {\n  protected config: TokenizerConfig;\n  protected vocab: Map<string, number> = new Map();\n  protected reverseVocab: Map<number, string> = new Map();\n  protected specialTokens: Map<string, number> = new Map();\n\n  constructor(config: TokenizerConfig) {\n    this.config = config;\n    this.initializeSpecialTokens();\n  }\n\n  abstract encode(text: string, addSpecialTokens?: boolean): TokenizationResult;\n  abstract decode(tokens: number[], options?: DecodingOptions): string;\n  abstract getTokenId(token: string): number;\n  abstract getToken(tokenId: number): string;\n\n  protected initializeSpecialTokens(): void {\n    this.specialTokens.set(this.config.padToken, 0);\n    this.specialTokens.set(this.config.unknownToken, 1);\n    \n    if (this.config.bosToken) {\n      this.specialTokens.set(this.config.bosToken, 2);\n    }\n    \n    if (this.config.eosToken) {\n      this.specialTokens.set(this.config.eosToken, 3);\n    }\n\n    if (this.config.specialTokens) {\n      for (const [token, id] of Object.entries(this.config.specialTokens)) {\n        this.specialTokens.set(token, id);\n      }\n    }\n  }\n\n  getVocabSize(): number {\n    return this.config.vocabSize;\n  }\n\n  getSpecialTokens(): Map<string, number> {\n    return new Map(this.specialTokens);\n  }\n\n  isSpecialToken(token: string): boolean {\n    return this.specialTokens.has(token);\n  }\n\n  padSequence(tokens: number[], maxLength?: number): number[] {\n    const targetLength = maxLength || this.config.maxLength;\n    const padTokenId = this.specialTokens.get(this.config.padToken) || 0;\n    \n    if (tokens.length >= targetLength) {\n      return tokens.slice(0, targetLength);\n    }\n    \n    const padded = [...tokens];\n    while (padded.length < targetLength) {\n      padded.push(padTokenId);\n    }\n    \n    return padded;\n  }\n\n  createAttentionMask(tokens: number[]): number[] {\n    const padTokenId = this.specialTokens.get(this.config.padToken) || 0;\n    return tokens.map(token => token === padTokenId ? 0 : 1);\n  }\n}\n\n// Simple word-level tokenizer for basic functionality\nexport class WordTokenizer extends BaseTokenizer {\n  private wordToId: Map<string, number> = new Map();\n  private idToWord: Map<number, string> = new Map();\n  private nextId = 100; // Start after special tokens\n\n  constructor(config: TokenizerConfig, vocabulary?: string[]) {\n    super(config);\n    \n    if (vocabulary) {\n      this.buildVocabulary(vocabulary);\n    }\n  }\n\n  encode(text: string, addSpecialTokens = true): TokenizationResult {\n    // Basic preprocessing\n    const cleanText = this.preprocessText(text);\n    const words = this.tokenizeText(cleanText);\n    \n    let tokens: number[] = [];\n    let tokenStrings: string[] = [];\n    \n    // Add BOS token if requested\n    if (addSpecialTokens && this.config.bosToken) {\n      const bosId = this.specialTokens.get(this.config.bosToken)!;\n      tokens.push(bosId);\n      tokenStrings.push(this.config.bosToken);\n    }\n    \n    // Convert words to token IDs\n    for (const word of words) {\n      const tokenId = this.getTokenId(word);\n      tokens.push(tokenId);\n      tokenStrings.push(word);\n    }\n    \n    // Add EOS token if requested\n    if (addSpecialTokens && this.config.eosToken) {\n      const eosId = this.specialTokens.get(this.config.eosToken)!;\n      tokens.push(eosId);\n      tokenStrings.push(this.config.eosToken);\n    }\n    \n    // Truncate if too long\n    if (tokens.length > this.config.maxLength) {\n      tokens = tokens.slice(0, this.config.maxLength);\n      tokenStrings = tokenStrings.slice(0, this.config.maxLength);\n    }\n    \n    const attentionMask = this.createAttentionMask(tokens);\n    const specialTokenMask = tokens.map(token => \n      Array.from(this.specialTokens.values()).includes(token) ? 1 : 0\n    );\n    \n    return {\n      tokens,\n      tokenStrings,\n      attentionMask,\n      specialTokenMask\n    };\n  }\n\n  decode(tokens: number[], options: DecodingOptions = {}): string {\n    const { skipSpecialTokens = true, cleanUpTokenizationSpaces = true } = options;\n    \n    let words: string[] = [];\n    \n    for (const tokenId of tokens) {\n      const token = this.getToken(tokenId);\n      \n      if (skipSpecialTokens && this.isSpecialTokenById(tokenId)) {\n        continue;\n      }\n      \n      words.push(token);\n    }\n    \n    let result = words.join(' ');\n    \n    if (cleanUpTokenizationSpaces) {\n      result = this.cleanupSpaces(result);\n    }\n    \n    return result;\n  }\n\n  getTokenId(token: string): number {\n    // Check special tokens first\n    if (this.specialTokens.has(token)) {\n      return this.specialTokens.get(token)!;\n    }\n    \n    // Check vocabulary\n    if (this.wordToId.has(token)) {\n      return this.wordToId.get(token)!;\n    }\n    \n    // Add to vocabulary if space available\n    if (this.wordToId.size < this.config.vocabSize - this.specialTokens.size) {\n      const id = this.nextId++;\n      this.wordToId.set(token, id);\n      this.idToWord.set(id, token);\n      return id;\n    }\n    \n    // Return unknown token ID\n    return this.specialTokens.get(this.config.unknownToken) || 1;\n  }\n\n  getToken(tokenId: number): string {\n    // Check special tokens\n    for (const [token, id] of this.specialTokens) {\n      if (id === tokenId) {\n        return token;\n      }\n    }\n    \n    // Check vocabulary\n    if (this.idToWord.has(tokenId)) {\n      return this.idToWord.get(tokenId)!;\n    }\n    \n    return this.config.unknownToken;\n  }\n\n  private buildVocabulary(vocabulary: string[]): void {\n    for (let i = 0; i < vocabulary.length && i < this.config.vocabSize; i++) {\n      const word = vocabulary[i];\n      const id = this.nextId++;\n      this.wordToId.set(word, id);\n      this.idToWord.set(id, word);\n    }\n  }\n\n  private preprocessText(text: string): string {\n    return text\n      .toLowerCase()\n      .replace(/[^a-zA-Z0-9\\s.,!?;:\"'()\\-]/g, '') // Keep basic punctuation\n      .replace(/\\s+/g, ' ')\n      .trim();\n  }\n\n  private tokenizeText(text: string): string[] {\n    // Simple word tokenization with punctuation handling\n    return text\n      .split(/\\s+/)\n      .flatMap(word => this.splitPunctuation(word))\n      .filter(token => token.length > 0);\n  }\n\n  private splitPunctuation(word: string): string[] {\n    const tokens: string[] = [];\n    let current = '';\n    \n    for (const char of word) {\n      if (/[.,!?;:\"'()\\-]/.test(char)) {\n        if (current) {\n          tokens.push(current);\n          current = '';\n        }\n        tokens.push(char);\n      } else {\n        current += char;\n      }\n    }\n    \n    if (current) {\n      tokens.push(current);\n    }\n    \n    return tokens;\n  }\n\n  private isSpecialTokenById(tokenId: number): boolean {\n    return Array.from(this.specialTokens.values()).includes(tokenId);\n  }\n\n  private cleanupSpaces(text: string): string {\n    return text\n      .replace(/\\s+([.,!?;:])/g, '$1') // Remove spaces before punctuation\n      .replace(/\\(\\s+/g, '(') // Remove spaces after opening parentheses\n      .replace(/\\s+\\)/g, ')') // Remove spaces before closing parentheses\n      .replace(/\\s+/g, ' ') // Normalize multiple spaces\n      .trim();\n  }\n}\n\n// BPE (Byte Pair Encoding) tokenizer for more advanced tokenization\nexport class BPETokenizer extends BaseTokenizer {\n  private merges: Map<string, number> = new Map();\n  private bpeRanks: Map<string, number> = new Map();\n  private cache: Map<string, string[]> = new Map();\n\n  constructor(config: TokenizerConfig, merges?: Array<[string, string]>, vocab?: Map<string, number>) {\n    super(config);\n    \n    if (merges) {\n      this.initializeMerges(merges);\n    }\n    \n    if (vocab) {\n      this.vocab = new Map(vocab);\n      this.reverseVocab = new Map(Array.from(vocab.entries()).map(([k, v]) => [v, k]));\n    }\n  }\n\n  encode(text: string, addSpecialTokens = true): TokenizationResult {\n    const preprocessed = this.preprocessText(text);\n    let tokens: string[] = [];\n    \n    // Add BOS token if requested\n    if (addSpecialTokens && this.config.bosToken) {\n      tokens.push(this.config.bosToken);\n    }\n    \n    // Apply BPE encoding\n    const words = preprocessed.split(/\\s+/);\n    for (const word of words) {\n      if (word.length > 0) {\n        const bpeTokens = this.bpeEncode(word);\n        tokens.push(...bpeTokens);\n      }\n    }\n    \n    // Add EOS token if requested\n    if (addSpecialTokens && this.config.eosToken) {\n      tokens.push(this.config.eosToken);\n    }\n    \n    // Convert to token IDs\n    const tokenIds = tokens.map(token => this.getTokenId(token));\n    \n    // Truncate if necessary\n    const maxLen = Math.min(tokenIds.length, this.config.maxLength);\n    const finalTokens = tokenIds.slice(0, maxLen);\n    const finalTokenStrings = tokens.slice(0, maxLen);\n    \n    const attentionMask = this.createAttentionMask(finalTokens);\n    const specialTokenMask = finalTokens.map(token => \n      Array.from(this.specialTokens.values()).includes(token) ? 1 : 0\n    );\n    \n    return {\n      tokens: finalTokens,\n      tokenStrings: finalTokenStrings,\n      attentionMask,\n      specialTokenMask\n    };\n  }\n\n  decode(tokens: number[], options: DecodingOptions = {}): string {\n    const { skipSpecialTokens = true, cleanUpTokenizationSpaces = true } = options;\n    \n    let tokenStrings: string[] = [];\n    \n    for (const tokenId of tokens) {\n      const token = this.getToken(tokenId);\n      \n      if (skipSpecialTokens && this.isSpecialTokenById(tokenId)) {\n        continue;\n      }\n      \n      tokenStrings.push(token);\n    }\n    \n    let result = tokenStrings.join('');\n    \n    if (cleanUpTokenizationSpaces) {\n      result = this.cleanupBPESpaces(result);\n    }\n    \n    return result;\n  }\n\n  getTokenId(token: string): number {\n    if (this.vocab.has(token)) {\n      return this.vocab.get(token)!;\n    }\n    \n    return this.specialTokens.get(this.config.unknownToken) || 1;\n  }\n\n  getToken(tokenId: number): string {\n    if (this.reverseVocab.has(tokenId)) {\n      return this.reverseVocab.get(tokenId)!;\n    }\n    \n    return this.config.unknownToken;\n  }\n\n  private initializeMerges(merges: Array<[string, string]>): void {\n    for (let i = 0; i < merges.length; i++) {\n      const [first, second] = merges[i];\n      const pair = `${first} ${second}`;\n      this.bpeRanks.set(pair, i);\n    }\n  }\n\n  private bpeEncode(word: string): string[] {\n    if (this.cache.has(word)) {\n      return this.cache.get(word)!;\n    }\n    \n    let pairs = this.getPairs(word.split(''));\n    \n    if (pairs.length === 0) {\n      this.cache.set(word, [word]);\n      return [word];\n    }\n    \n    while (true) {\n      const bigram = this.getMinPair(pairs);\n      if (!this.bpeRanks.has(bigram)) {\n        break;\n      }\n      \n      const [first, second] = bigram.split(' ');\n      let newWord: string[] = [];\n      let i = 0;\n      \n      while (i < word.length) {\n        const j = word.indexOf(first, i);\n        if (j === -1) {\n          newWord.push(...word.slice(i).split(''));\n          break;\n        }\n        \n        newWord.push(...word.slice(i, j).split(''));\n        i = j;\n        \n        if (word.slice(i, i + first.length) === first && \n            i + first.length < word.length && \n            word.slice(i + first.length, i + first.length + second.length) === second) {\n          newWord.push(first + second);\n          i += first.length + second.length;\n        } else {\n          newWord.push(word[i]);\n          i++;\n        }\n      }\n      \n      word = newWord.join('');\n      if (newWord.length === 1) {\n        break;\n      }\n      \n      pairs = this.getPairs(newWord);\n    }\n    \n    const result = word.split('');\n    this.cache.set(word, result);\n    return result;\n  }\n\n  private getPairs(word: string[]): string[] {\n    const pairs: string[] = [];\n    for (let i = 0; i < word.length - 1; i++) {\n      pairs.push(`${word[i]} ${word[i + 1]}`);\n    }\n    return pairs;\n  }\n\n  private getMinPair(pairs: string[]): string {\n    let minPair = pairs[0];\n    let minRank = this.bpeRanks.get(minPair) || Infinity;\n    \n    for (const pair of pairs) {\n      const rank = this.bpeRanks.get(pair) || Infinity;\n      if (rank < minRank) {\n        minRank = rank;\n        minPair = pair;\n      }\n    }\n    \n    return minPair;\n  }\n\n  private preprocessText(text: string): string {\n    // BPE typically works with raw text, minimal preprocessing\n    return text.replace(/\\s+/g, ' ').trim();\n  }\n\n  private isSpecialTokenById(tokenId: number): boolean {\n    return Array.from(this.specialTokens.values()).includes(tokenId);\n  }\n\n  private cleanupBPESpaces(text: string): string {\n    // BPE tokens often have special markers for spaces\n    return text\n      .replace(/Ġ/g, ' ') // GPT-style space marker\n      .replace(/▁/g, ' ') // SentencePiece space marker\n      .replace(/\\s+/g, ' ')\n      .trim();\n  }\n}\n\n// Factory function to create tokenizers\nexport function createTokenizer(\n  type: 'word' | 'bpe',\n  config: TokenizerConfig,\n  options?: {\n    vocabulary?: string[] | Map<string, number>;\n    merges?: Array<[string, string]>;\n  }\n): BaseTokenizer {\n  switch (type) {\n    case 'word':\n      return new WordTokenizer(config, options?.vocabulary as string[]);\n    case 'bpe':\n      return new BPETokenizer(\n        config,\n        options?.merges,\n        options?.vocabulary as Map<string, number>\n      );\n    default:\n      throw new Error(`Unsupported tokenizer type: ${type}`);\n  }\n}\n\n// Utility functions\nexport function getDefaultTokenizerConfig(): TokenizerConfig {\n  return {\n    vocabSize: 50000,\n    maxLength: 2048,\n    padToken: '<|pad|>',\n    unknownToken: '<|unk|>',\n    bosToken: '<|startoftext|>',\n    eosToken: '<|endoftext|>'\n  };\n}\n\nexport function estimateTokenCount(text: string, averageTokenLength = 4): number {\n  // Rough estimation: average English token is about 4 characters\n  return Math.ceil(text.length / averageTokenLength);\n}\n\nexport function truncateToTokenLimit(text: string, maxTokens: number, averageTokenLength = 4): string {\n  const maxChars = maxTokens * averageTokenLength;\n  if (text.length <= maxChars) {\n    return text;\n  }\n  \n  // Try to truncate at word boundary\n  const truncated = text.slice(0, maxChars);\n  const lastSpace = truncated.lastIndexOf(' ');\n  \n  if (lastSpace > maxChars * 0.8) {\n    return truncated.slice(0, lastSpace);\n  }\n  \n  return truncated;\n}"
\ No newline at end of file
+// Tokenizer interface and implementations for text processing
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextDecoder, TextEncoder } from 'util';
+
+export interface TokenizerConfig {
+  vocabSize: number;
+  maxLength: number;
+  padToken: string;
+  unknownToken: string;
+  bosToken?: string;
+  eosToken?: string;
+  specialTokens?: Record<string, number>;
+}
+
+export interface TokenizationResult {
+  tokens: number[];
+  tokenStrings: string[];
+  attentionMask: number[];
+  specialTokenMask: number[];
+}
+
+export interface DecodingOptions {
+  skipSpecialTokens?: boolean;
+  cleanUpTokenizationSpaces?: boolean;
+}
+
+// Base tokenizer interface
+export abstract class BaseTokenizer {
+  protected config: TokenizerConfig;
+  protected vocab: Map<string, number> = new Map();
+  protected reverseVocab: Map<number, string> = new Map();
+  protected specialTokens: Map<string, number> = new Map();
+
+  constructor(config: TokenizerConfig) {
+    this.config = config;
+    this.initializeSpecialTokens();
+  }
+
+  abstract encode(text: string, addSpecialTokens?: boolean): TokenizationResult;
+  abstract decode(tokens: number[], options?: DecodingOptions): string;
+  abstract getTokenId(token: string): number;
+  abstract getToken(tokenId: number): string;
+
+  protected initializeSpecialTokens(): void {
+    this.specialTokens.set(this.config.padToken, 0);
+    this.specialTokens.set(this.config.unknownToken, 1);
+    
+    if (this.config.bosToken) {
+      this.specialTokens.set(this.config.bosToken, 2);
+    }
+    
+    if (this.config.eosToken) {
+      this.specialTokens.set(this.config.eosToken, 3);
+    }
+
+    if (this.config.specialTokens) {
+      for (const [token, id] of Object.entries(this.config.specialTokens)) {
+        this.specialTokens.set(token, id);
+      }
+    }
+  }
+
+  getVocabSize(): number {
+    return this.config.vocabSize;
+  }
+
+  getSpecialTokens(): Map<string, number> {
+    return new Map(this.specialTokens);
+  }
+
+  isSpecialToken(token: string): boolean {
+    return this.specialTokens.has(token);
+  }
+
+  padSequence(tokens: number[], maxLength?: number): number[] {
+    const targetLength = maxLength || this.config.maxLength;
+    const padTokenId = this.specialTokens.get(this.config.padToken) || 0;
+    
+    if (tokens.length >= targetLength) {
+      return tokens.slice(0, targetLength);
+    }
+    
+    const padded = [...tokens];
+    while (padded.length < targetLength) {
+      padded.push(padTokenId);
+    }
+    
+    return padded;
+  }
+
+  createAttentionMask(tokens: number[]): number[] {
+    const padTokenId = this.specialTokens.get(this.config.padToken) || 0;
+    return tokens.map(token => token === padTokenId ? 0 : 1);
+  }
+
+  // Number of tokens the text encodes to, without special tokens
+  count(text: string): number {
+    return this.encode(text, false).tokens.length;
+  }
+}
+
+// Simple word-level tokenizer for basic functionality
+export class WordTokenizer extends BaseTokenizer {
+  private wordToId: Map<string, number> = new Map();
+  private idToWord: Map<number, string> = new Map();
+  private nextId = 100; // Start after special tokens
+
+  constructor(config: TokenizerConfig, vocabulary?: string[]) {
+    super(config);
+    
+    if (vocabulary) {
+      this.buildVocabulary(vocabulary);
+    }
+  }
+
+  encode(text: string, addSpecialTokens = true): TokenizationResult {
+    // Basic preprocessing
+    const cleanText = this.preprocessText(text);
+    const words = this.tokenizeText(cleanText);
+    
+    let tokens: number[] = [];
+    let tokenStrings: string[] = [];
+    
+    // Add BOS token if requested
+    if (addSpecialTokens && this.config.bosToken) {
+      const bosId = this.specialTokens.get(this.config.bosToken)!;
+      tokens.push(bosId);
+      tokenStrings.push(this.config.bosToken);
+    }
+    
+    // Convert words to token IDs
+    for (const word of words) {
+      const tokenId = this.getTokenId(word);
+      tokens.push(tokenId);
+      tokenStrings.push(word);
+    }
+    
+    // Add EOS token if requested
+    if (addSpecialTokens && this.config.eosToken) {
+      const eosId = this.specialTokens.get(this.config.eosToken)!;
+      tokens.push(eosId);
+      tokenStrings.push(this.config.eosToken);
+    }
+    
+    // Truncate if too long
+    if (tokens.length > this.config.maxLength) {
+      tokens = tokens.slice(0, this.config.maxLength);
+      tokenStrings = tokenStrings.slice(0, this.config.maxLength);
+    }
+    
+    const attentionMask = this.createAttentionMask(tokens);
+    const specialTokenMask = tokens.map(token => 
+      Array.from(this.specialTokens.values()).includes(token) ? 1 : 0
+    );
+    
+    return {
+      tokens,
+      tokenStrings,
+      attentionMask,
+      specialTokenMask
+    };
+  }
+
+  decode(tokens: number[], options: DecodingOptions = {}): string {
+    const { skipSpecialTokens = true, cleanUpTokenizationSpaces = true } = options;
+    
+    let words: string[] = [];
+    
+    for (const tokenId of tokens) {
+      const token = this.getToken(tokenId);
+      
+      if (skipSpecialTokens && this.isSpecialTokenById(tokenId)) {
+        continue;
+      }
+      
+      words.push(token);
+    }
+    
+    let result = words.join(' ');
+    
+    if (cleanUpTokenizationSpaces) {
+      result = this.cleanupSpaces(result);
+    }
+    
+    return result;
+  }
+
+  getTokenId(token: string): number {
+    // Check special tokens first
+    if (this.specialTokens.has(token)) {
+      return this.specialTokens.get(token)!;
+    }
+    
+    // Check vocabulary
+    if (this.wordToId.has(token)) {
+      return this.wordToId.get(token)!;
+    }
+    
+    // Add to vocabulary if space available
+    if (this.wordToId.size < this.config.vocabSize - this.specialTokens.size) {
+      const id = this.nextId++;
+      this.wordToId.set(token, id);
+      this.idToWord.set(id, token);
+      return id;
+    }
+    
+    // Return unknown token ID
+    return this.specialTokens.get(this.config.unknownToken) || 1;
+  }
+
+  getToken(tokenId: number): string {
+    // Check special tokens
+    for (const [token, id] of this.specialTokens) {
+      if (id === tokenId) {
+        return token;
+      }
+    }
+    
+    // Check vocabulary
+    if (this.idToWord.has(tokenId)) {
+      return this.idToWord.get(tokenId)!;
+    }
+    
+    return this.config.unknownToken;
+  }
+
+  private buildVocabulary(vocabulary: string[]): void {
+    for (let i = 0; i < vocabulary.length && i < this.config.vocabSize; i++) {
+      const word = vocabulary[i];
+      const id = this.nextId++;
+      this.wordToId.set(word, id);
+      this.idToWord.set(id, word);
+    }
+  }
+
+  private preprocessText(text: string): string {
+    return text
+      .replace(/[^a-zA-Z0-9\s.,!?;:"'()\-]/g, '') // Keep basic punctuation
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private tokenizeText(text: string): string[] {
+    // Simple word tokenization with punctuation handling
+    return text
+      .split(/\s+/)
+      .flatMap(word => this.splitPunctuation(word))
+      .filter(token => token.length > 0);
+  }
+
+  private splitPunctuation(word: string): string[] {
+    const tokens: string[] = [];
+    let current = '';
+    
+    for (const char of word) {
+      if (/[.,!?;:"'()\-]/.test(char)) {
+        if (current) {
+          tokens.push(current);
+          current = '';
+        }
+        tokens.push(char);
+      } else {
+        current += char;
+      }
+    }
+    
+    if (current) {
+      tokens.push(current);
+    }
+    
+    return tokens;
+  }
+
+  private isSpecialTokenById(tokenId: number): boolean {
+    return Array.from(this.specialTokens.values()).includes(tokenId);
+  }
+
+  private cleanupSpaces(text: string): string {
+    return text
+      .replace(/\s+([.,!?;:])/g, '$1') // Remove spaces before punctuation
+      .replace(/\(\s+/g, '(') // Remove spaces after opening parentheses
+      .replace(/\s+\)/g, ')') // Remove spaces before closing parentheses
+      .replace(/\s+/g, ' ') // Normalize multiple spaces
+      .trim();
+  }
+}
+
+export type BPEPreTokenizer = 'byte-level' | 'metaspace';
+
+export interface BPETokenizerOptions {
+  // 'byte-level' for GPT-2 style vocabularies, 'metaspace' for SentencePiece ones (Llama 2, Mistral, Gemma)
+  preTokenizer?: BPEPreTokenizer;
+  // Splits text into words before merging; must use the global flag
+  pattern?: RegExp;
+}
+
+// GPT-2 word splitting: contractions, letter runs, digit runs, punctuation runs and whitespace
+const DEFAULT_PRETOKENIZE_PATTERN = /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+
+const METASPACE = '▁';
+const BYTE_FALLBACK_TOKEN = /^<0x([0-9A-Fa-f]{2})>$/;
+const MAX_CACHE_ENTRIES = 10000;
+
+let byteEncoder: Map<number, string> | null = null;
+let byteDecoder: Map<string, number> | null = null;
+
+// Byte-level BPE vocabularies spell every byte as a printable character so merges never see whitespace or control codes
+function getByteEncoder(): Map<number, string> {
+  if (!byteEncoder) {
+    const bytes: number[] = [];
+    for (let b = 0x21; b <= 0x7e; b++) bytes.push(b);
+    for (let b = 0xa1; b <= 0xac; b++) bytes.push(b);
+    for (let b = 0xae; b <= 0xff; b++) bytes.push(b);
+
+    const chars = [...bytes];
+    let shifted = 0;
+    for (let b = 0; b < 256; b++) {
+      if (!bytes.includes(b)) {
+        bytes.push(b);
+        chars.push(256 + shifted++);
+      }
+    }
+
+    byteEncoder = new Map(bytes.map((b, i) => [b, String.fromCharCode(chars[i])]));
+  }
+  return byteEncoder;
+}
+
+function getByteDecoder(): Map<string, number> {
+  if (!byteDecoder) {
+    byteDecoder = new Map(Array.from(getByteEncoder().entries()).map(([b, ch]) => [ch, b]));
+  }
+  return byteDecoder;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// BPE (Byte Pair Encoding) tokenizer compatible with Hugging Face and tiktoken-style vocabularies
+export class BPETokenizer extends BaseTokenizer {
+  private bpeRanks: Map<string, number> = new Map();
+  private cache: Map<string, string[]> = new Map();
+  private specialTokensById: Map<number, string> = new Map();
+  private specialTokenPattern: RegExp | null = null;
+  private preTokenizer: BPEPreTokenizer;
+  private pattern: RegExp;
+  private encoder = new TextEncoder();
+  private decoder = new TextDecoder('utf-8');
+
+  constructor(
+    config: TokenizerConfig,
+    merges?: Array<[string, string]>,
+    vocab?: Map<string, number>,
+    options: BPETokenizerOptions = {}
+  ) {
+    super(config);
+    this.preTokenizer = options.preTokenizer || 'byte-level';
+    this.pattern = options.pattern || DEFAULT_PRETOKENIZE_PATTERN;
+
+    if (merges) {
+      this.initializeMerges(merges);
+    }
+
+    if (vocab) {
+      this.vocab = new Map(vocab);
+      this.reverseVocab = new Map(Array.from(vocab.entries()).map(([k, v]) => [v, k]));
+    }
+
+    this.alignSpecialTokens();
+  }
+
+  // Load a GPT-2 style vocab.json and merges.txt pair
+  static fromFiles(
+    vocabPath: string,
+    mergesPath: string,
+    config?: Partial<TokenizerConfig>,
+    options?: BPETokenizerOptions
+  ): BPETokenizer {
+    const vocab = new Map<string, number>(Object.entries(JSON.parse(fs.readFileSync(vocabPath, 'utf-8'))));
+    const merges = fs.readFileSync(mergesPath, 'utf-8')
+      .split(/\r?\n/)
+      .filter(line => line.trim() && !line.startsWith('#version'))
+      .map(line => line.split(' ') as [string, string]);
+
+    const defaults = getDefaultTokenizerConfig();
+    return new BPETokenizer({
+      ...defaults,
+      vocabSize: vocab.size,
+      bosToken: vocab.has(defaults.bosToken!) ? defaults.bosToken : undefined,
+      ...config
+    }, merges, vocab, options);
+  }
+
+  // Load a Hugging Face tokenizer.json with a BPE model
+  static fromTokenizerJSON(filePath: string, config?: Partial<TokenizerConfig>): BPETokenizer {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+
+    if (data.model?.type !== 'BPE') {
+      throw new Error(`Unsupported tokenizer model type: ${data.model?.type || 'unknown'}`);
+    }
+
+    const vocab = new Map<string, number>(Object.entries(data.model.vocab));
+    const merges: Array<[string, string]> = (data.model.merges || []).map((merge: string | [string, string]) =>
+      typeof merge === 'string' ? merge.split(' ') : merge
+    );
+
+    const addedTokens: Record<string, number> = {};
+    for (const token of data.added_tokens || []) {
+      addedTokens[token.content] = token.id;
+      vocab.set(token.content, token.id);
+    }
+    const findAdded = (pattern: RegExp) => Object.keys(addedTokens).find(token => pattern.test(token));
+
+    const layout = JSON.stringify([data.normalizer, data.pre_tokenizer, data.decoder]);
+    const preTokenizer: BPEPreTokenizer = !layout.includes('ByteLevel') && (layout.includes('Metaspace') || layout.includes(METASPACE))
+      ? 'metaspace'
+      : 'byte-level';
+
+    return new BPETokenizer({
+      vocabSize: vocab.size,
+      maxLength: getDefaultTokenizerConfig().maxLength,
+      padToken: findAdded(/pad/i) || '<|pad|>',
+      unknownToken: data.model.unk_token || findAdded(/^<unk>$|unk/i) || '<|unk|>',
+      bosToken: findAdded(/^<s>$|^<bos>$|begin_of_text|startoftext/),
+      eosToken: findAdded(/^<\/s>$|^<eos>$|end_of_text|endoftext|^<\|im_end\|>$/),
+      specialTokens: addedTokens,
+      ...config
+    }, merges, vocab, {
+      preTokenizer,
+      pattern: BPETokenizer.findSplitPattern(data.pre_tokenizer)
+    });
+  }
+
+  encode(text: string, addSpecialTokens = true): TokenizationResult {
+    let tokens: string[] = [];
+
+    // Add BOS token if requested
+    if (addSpecialTokens && this.config.bosToken) {
+      tokens.push(this.config.bosToken);
+    }
+
+    tokens.push(...this.tokenize(text));
+
+    // Add EOS token if requested
+    if (addSpecialTokens && this.config.eosToken) {
+      tokens.push(this.config.eosToken);
+    }
+
+    // Convert to token IDs
+    const tokenIds = tokens.map(token => this.getTokenId(token));
+
+    // Truncate if necessary
+    const maxLen = Math.min(tokenIds.length, this.config.maxLength);
+    const finalTokens = tokenIds.slice(0, maxLen);
+    const finalTokenStrings = tokens.slice(0, maxLen);
+
+    const attentionMask = this.createAttentionMask(finalTokens);
+    const specialTokenMask = finalTokens.map(token => this.specialTokensById.has(token) ? 1 : 0);
+
+    return {
+      tokens: finalTokens,
+      tokenStrings: finalTokenStrings,
+      attentionMask,
+      specialTokenMask
+    };
+  }
+
+  // Counts the whole text, ignoring maxLength
+  count(text: string): number {
+    return this.tokenize(text).length;
+  }
+
+  decode(tokens: number[], options: DecodingOptions = {}): string {
+    const { skipSpecialTokens = true, cleanUpTokenizationSpaces = false } = options;
+
+    const bytes: number[] = [];
+    const pieces: string[] = [];
+    const flush = () => {
+      if (bytes.length > 0) {
+        pieces.push(this.decoder.decode(new Uint8Array(bytes)));
+        bytes.length = 0;
+      }
+    };
+
+    for (const tokenId of tokens) {
+      if (this.specialTokensById.has(tokenId)) {
+        if (!skipSpecialTokens) {
+          flush();
+          pieces.push(this.specialTokensById.get(tokenId)!);
+        }
+        continue;
+      }
+
+      bytes.push(...this.tokenToBytes(this.getToken(tokenId)));
+    }
+    flush();
+
+    let result = pieces.join('');
+
+    // SentencePiece prepends a space marker to the first word
+    if (this.preTokenizer === 'metaspace' && result.startsWith(' ')) {
+      result = result.slice(1);
+    }
+
+    if (cleanUpTokenizationSpaces) {
+      result = this.cleanupBPESpaces(result);
+    }
+
+    return result;
+  }
+
+  getTokenId(token: string): number {
+    if (this.specialTokens.has(token)) {
+      return this.specialTokens.get(token)!;
+    }
+
+    if (this.vocab.has(token)) {
+      return this.vocab.get(token)!;
+    }
+
+    return this.specialTokens.get(this.config.unknownToken) ?? 1;
+  }
+
+  getToken(tokenId: number): string {
+    if (this.specialTokensById.has(tokenId)) {
+      return this.specialTokensById.get(tokenId)!;
+    }
+
+    if (this.reverseVocab.has(tokenId)) {
+      return this.reverseVocab.get(tokenId)!;
+    }
+
+    return this.config.unknownToken;
+  }
+
+  // Split text into vocabulary tokens, keeping special tokens that appear in the text intact
+  tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    const segments = this.specialTokenPattern ? text.split(this.specialTokenPattern) : [text];
+
+    for (const segment of segments) {
+      if (!segment) {
+        continue;
+      }
+
+      if (this.specialTokens.has(segment)) {
+        tokens.push(segment);
+        continue;
+      }
+
+      for (const word of this.preTokenize(segment)) {
+        for (const piece of this.bpeEncode(word)) {
+          tokens.push(...this.toVocabTokens(piece));
+        }
+      }
+    }
+
+    return tokens;
+  }
+
+  private static findSplitPattern(preTokenizer: any): RegExp | undefined {
+    const steps = preTokenizer?.type === 'Sequence' ? preTokenizer.pretokenizers : [preTokenizer];
+    const split = (steps || []).find((step: any) => step?.type === 'Split' && step.pattern?.Regex);
+    if (!split) {
+      return undefined;
+    }
+
+    try {
+      return new RegExp(split.pattern.Regex, 'gu');
+    } catch {
+      // Inline flags such as (?i:...) are not supported by every JavaScript engine
+      return undefined;
+    }
+  }
+
+  // Special tokens take their id from the vocabulary, or one past it when the vocabulary does not define them
+  private alignSpecialTokens(): void {
+    let nextId = 0;
+    for (const id of this.reverseVocab.keys()) {
+      nextId = Math.max(nextId, id + 1);
+    }
+
+    for (const [token, id] of this.specialTokens) {
+      if (this.vocab.has(token)) {
+        this.specialTokens.set(token, this.vocab.get(token)!);
+      } else if (this.reverseVocab.has(id)) {
+        this.specialTokens.set(token, nextId++);
+      }
+    }
+
+    this.specialTokensById = new Map(Array.from(this.specialTokens.entries()).map(([token, id]) => [id, token]));
+
+    const tokens = Array.from(this.specialTokens.keys())
+      .filter(token => token.length > 0)
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp);
+    this.specialTokenPattern = tokens.length > 0 ? new RegExp(`(${tokens.join('|')})`) : null;
+  }
+
+  private initializeMerges(merges: Array<[string, string]>): void {
+    for (let i = 0; i < merges.length; i++) {
+      const [first, second] = merges[i];
+      const pair = `${first} ${second}`;
+      if (!this.bpeRanks.has(pair)) {
+        this.bpeRanks.set(pair, i);
+      }
+    }
+  }
+
+  // Break text into words and spell them in the vocabulary's alphabet
+  private preTokenize(text: string): string[] {
+    if (this.preTokenizer === 'metaspace') {
+      const spelled = METASPACE + text.replace(/ /g, METASPACE);
+      return spelled.split(new RegExp(`(?=${METASPACE})`)).filter(word => word.length > 0);
+    }
+
+    const encoder = getByteEncoder();
+    const words = text.match(this.pattern) || [];
+    return words.map(word => Array.from(this.encoder.encode(word), b => encoder.get(b)!).join(''));
+  }
+
+  // Repeatedly merge the lowest-ranked adjacent pair until no known merge applies
+  private bpeEncode(word: string): string[] {
+    const cached = this.cache.get(word);
+    if (cached) {
+      return cached;
+    }
+
+    let parts = Array.from(word);
+
+    while (parts.length > 1) {
+      let bestIndex = -1;
+      let bestRank = Infinity;
+
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = this.bpeRanks.get(`${parts[i]} ${parts[i + 1]}`);
+        if (rank !== undefined && rank < bestRank) {
+          bestRank = rank;
+          bestIndex = i;
+        }
+      }
+
+      if (bestIndex === -1) {
+        break;
+      }
+
+      const first = parts[bestIndex];
+      const second = parts[bestIndex + 1];
+      const merged: string[] = [];
+
+      for (let i = 0; i < parts.length; i++) {
+        if (i < parts.length - 1 && parts[i] === first && parts[i + 1] === second) {
+          merged.push(first + second);
+          i++;
+        } else {
+          merged.push(parts[i]);
+        }
+      }
+
+      parts = merged;
+    }
+
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      this.cache.clear();
+    }
+    this.cache.set(word, parts);
+    return parts;
+  }
+
+  // SentencePiece vocabularies fall back to <0xNN> byte tokens for pieces they do not know
+  private toVocabTokens(piece: string): string[] {
+    if (this.vocab.has(piece) || this.preTokenizer !== 'metaspace') {
+      return [piece];
+    }
+
+    const byteTokens = Array.from(this.encoder.encode(piece.replace(new RegExp(METASPACE, 'g'), ' ')), b =>
+      `<0x${b.toString(16).toUpperCase().padStart(2, '0')}>`
+    );
+    return byteTokens.every(token => this.vocab.has(token)) ? byteTokens : [piece];
+  }
+
+  private tokenToBytes(token: string): number[] {
+    if (this.preTokenizer === 'metaspace') {
+      const byteToken = BYTE_FALLBACK_TOKEN.exec(token);
+      if (byteToken) {
+        return [parseInt(byteToken[1], 16)];
+      }
+      return Array.from(this.encoder.encode(token.replace(new RegExp(METASPACE, 'g'), ' ')));
+    }
+
+    const decoder = getByteDecoder();
+    const bytes: number[] = [];
+    for (const ch of token) {
+      const b = decoder.get(ch);
+      if (b !== undefined) {
+        bytes.push(b);
+      } else {
+        bytes.push(...this.encoder.encode(ch));
+      }
+    }
+    return bytes;
+  }
+
+  private cleanupBPESpaces(text: string): string {
+    // BPE tokens often have special markers for spaces
+    return text
+      .replace(/Ġ/g, ' ') // GPT-style space marker
+      .replace(/▁/g, ' ') // SentencePiece space marker
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
+
+// Factory function to create tokenizers
+export function createTokenizer(
+  type: 'word' | 'bpe',
+  config: TokenizerConfig,
+  options?: {
+    vocabulary?: string[] | Map<string, number>;
+    merges?: Array<[string, string]>;
+  }
+): BaseTokenizer {
+  switch (type) {
+    case 'word':
+      return new WordTokenizer(config, options?.vocabulary as string[]);
+    case 'bpe':
+      return new BPETokenizer(
+        config,
+        options?.merges,
+        options?.vocabulary as Map<string, number>
+      );
+    default:
+      throw new Error(`Unsupported tokenizer type: ${type}`);
+  }
+}
+
+// Load a BPE tokenizer from a directory holding either tokenizer.json or vocab.json and merges.txt
+export function loadTokenizer(directory: string, config?: Partial<TokenizerConfig>): BPETokenizer {
+  const tokenizerJSON = path.join(directory, 'tokenizer.json');
+  if (fs.existsSync(tokenizerJSON)) {
+    return BPETokenizer.fromTokenizerJSON(tokenizerJSON, config);
+  }
+
+  const vocabPath = path.join(directory, 'vocab.json');
+  const mergesPath = path.join(directory, 'merges.txt');
+  if (fs.existsSync(vocabPath) && fs.existsSync(mergesPath)) {
+    return BPETokenizer.fromFiles(vocabPath, mergesPath, config);
+  }
+
+  throw new Error(`No tokenizer files found in ${directory}`);
+}
+
+// Utility functions
+export function getDefaultTokenizerConfig(): TokenizerConfig {
+  return {
+    vocabSize: 50000,
+    maxLength: 2048,
+    padToken: '<|pad|>',
+    unknownToken: '<|unk|>',
+    bosToken: '<|startoftext|>',
+    eosToken: '<|endoftext|>'
+  };
+}
+
+export function estimateTokenCount(text: string, averageTokenLength = 4): number {
+  // Rough estimation: average English token is about 4 characters
+  return Math.ceil(text.length / averageTokenLength);
+}
+
+export function truncateToTokenLimit(text: string, maxTokens: number, averageTokenLength = 4): string {
+  const maxChars = maxTokens * averageTokenLength;
+  if (text.length <= maxChars) {
+    return text;
+  }
+  
+  // Try to truncate at word boundary
+  const truncated = text.slice(0, maxChars);
+  const lastSpace = truncated.lastIndexOf(' ');
+  
+  if (lastSpace > maxChars * 0.8) {
+    return truncated.slice(0, lastSpace);
+  }
+  
+  return truncated;
+}
@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BaseTokenizer, loadTokenizer } from './Tokenizer';
+
+export interface TokenizerFamily {
+  id: string;
+  name: string;
+  // Matched against model names such as "gpt-4o-mini" or "llama3.1:8b"
+  patterns: RegExp[];
+  // Used to estimate counts while the family's tokenizer files are not installed
+  charsPerToken: number;
+}
+
+const GENERIC_FAMILY: TokenizerFamily = { id: 'generic', name: 'Generic', patterns: [], charsPerToken: 4 };
+
+// Order matters: the first family with a matching pattern wins
+const DEFAULT_FAMILIES: TokenizerFamily[] = [
+  { id: 'o200k', name: 'OpenAI o200k', patterns: [/gpt-4o|gpt-4\.[15]|gpt-5|chatgpt-4o|(^|\/)o[134](-|$)/i], charsPerToken: 4.2 },
+  { id: 'cl100k', name: 'OpenAI cl100k', patterns: [/gpt-4|gpt-3\.5|text-embedding-(3|ada)/i], charsPerToken: 4 },
+  // Anthropic does not publish its tokenizer, so Claude counts are always estimates
+  { id: 'claude', name: 'Claude', patterns: [/claude/i], charsPerToken: 3.5 },
+  { id: 'llama3', name: 'Llama 3', patterns: [/llama-?3/i], charsPerToken: 4 },
+  { id: 'llama2', name: 'Llama 2', patterns: [/llama-?2|codellama|vicuna/i], charsPerToken: 3.6 },
+  { id: 'mistral', name: 'Mistral', patterns: [/mistral|mixtral|codestral|ministral|pixtral/i], charsPerToken: 3.6 },
+  { id: 'qwen', name: 'Qwen', patterns: [/qwen|qwq/i], charsPerToken: 3.8 },
+  { id: 'gemma', name: 'Gemma', patterns: [/gemma|gemini/i], charsPerToken: 4 },
+  { id: 'deepseek', name: 'DeepSeek', patterns: [/deepseek/i], charsPerToken: 3.8 },
+  { id: 'moonshot', name: 'Moonshot', patterns: [/moonshot|kimi/i], charsPerToken: 3.6 }
+];
+
+// Text without whitespace (e.g. CJK) is cut mid-run rather than losing whole lines
+const MAX_PARTIAL_WORD_LENGTH = 24;
+
+// Families assumed for a provider when its model name is unknown
+const PROVIDER_FAMILIES: Record<string, string> = {
+  openai: 'cl100k',
+  anthropic: 'claude',
+  mistral: 'mistral',
+  moonshot: 'moonshot',
+  ollama: 'llama3'
+};
+
+// Maps provider models to tokenizer families and loads their vocabularies from
+// <tokenizer directory>/<family id>/ (tokenizer.json, or vocab.json + merges.txt)
+export class TokenizerRegistry {
+  private static directory: string | null = null;
+  private static families: TokenizerFamily[] = [...DEFAULT_FAMILIES];
+  private static tokenizers: Map<string, BaseTokenizer | null> = new Map();
+
+  static setTokenizerDirectory(directory: string | null): void {
+    this.directory = directory;
+    this.tokenizers.clear();
+  }
+
+  static getTokenizerDirectory(): string | null {
+    return this.directory;
+  }
+
+  // Registered families take precedence over the built-in ones
+  static registerFamily(family: TokenizerFamily): void {
+    this.families = [family, ...this.families.filter(existing => existing.id !== family.id)];
+    this.tokenizers.delete(family.id);
+  }
+
+  static registerTokenizer(familyId: string, tokenizer: BaseTokenizer): void {
+    this.tokenizers.set(familyId, tokenizer);
+  }
+
+  static getFamilies(): TokenizerFamily[] {
+    return [...this.families];
+  }
+
+  static getFamily(model?: string, providerName?: string): TokenizerFamily {
+    if (model) {
+      const family = this.families.find(candidate => candidate.patterns.some(pattern => pattern.test(model)));
+      if (family) {
+        return family;
+      }
+    }
+
+    const providerFamily = providerName && PROVIDER_FAMILIES[providerName.toLowerCase()];
+    return this.families.find(family => family.id === providerFamily) || GENERIC_FAMILY;
+  }
+
+  static getTokenizer(model?: string, providerName?: string): BaseTokenizer | null {
+    return this.getFamilyTokenizer(this.getFamily(model, providerName));
+  }
+
+  // True when counts for the model come from its real vocabulary rather than an estimate
+  static hasExactCounts(model?: string, providerName?: string): boolean {
+    return this.getTokenizer(model, providerName) !== null;
+  }
+
+  static countTokens(text: string, model?: string, providerName?: string): number {
+    if (!text) {
+      return 0;
+    }
+
+    const family = this.getFamily(model, providerName);
+    const tokenizer = this.getFamilyTokenizer(family);
+    if (tokenizer) {
+      return tokenizer.count(text);
+    }
+
+    return Math.ceil(text.length / family.charsPerToken);
+  }
+
+  // Longest prefix (or suffix, when keeping the end) that fits in maxTokens, cut at a word boundary where possible
+  static truncateToTokens(
+    text: string,
+    maxTokens: number,
+    model?: string,
+    keep: 'start' | 'end' = 'start'
+  ): string {
+    if (maxTokens <= 0) {
+      return '';
+    }
+    if (this.countTokens(text, model) <= maxTokens) {
+      return text;
+    }
+
+    const slice = (length: number) => keep === 'start' ? text.slice(0, length) : text.slice(text.length - length);
+
+    let low = 0;
+    let high = text.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.countTokens(slice(mid), model) <= maxTokens) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    // Drop a partial word at the cut, but never more than a long word's worth of text
+    const fitted = slice(low);
+    if (keep === 'start') {
+      const cut = /\s/.test(text.charAt(low)) ? low : fitted.search(/\s+\S*$/);
+      return cut >= 0 && low - cut <= MAX_PARTIAL_WORD_LENGTH ? fitted.slice(0, cut).trimEnd() : fitted;
+    }
+
+    const cut = /\s/.test(text.charAt(text.length - low - 1)) ? 0 : fitted.search(/\s/);
+    return cut >= 0 && cut <= MAX_PARTIAL_WORD_LENGTH ? fitted.slice(cut).trimStart() : fitted;
+  }
+
+  private static getFamilyTokenizer(family: TokenizerFamily): BaseTokenizer | null {
+    if (this.tokenizers.has(family.id)) {
+      return this.tokenizers.get(family.id)!;
+    }
+
+    let tokenizer: BaseTokenizer | null = null;
+    const familyDir = this.directory ? path.join(this.directory, family.id) : null;
+
+    if (familyDir && fs.existsSync(familyDir)) {
+      try {
+        tokenizer = loadTokenizer(familyDir);
+        console.log(`Loaded ${family.name} tokenizer from ${familyDir}`);
+      } catch (error) {
+        console.warn(`Failed to load ${family.name} tokenizer from ${familyDir}:`, error);
+      }
+    }
+
+    // Cache misses too, so a missing vocabulary is only looked for once
+    this.tokenizers.set(family.id, tokenizer);
+    return tokenizer;
+  }
+}
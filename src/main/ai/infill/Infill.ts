@@ -0,0 +1,167 @@
+import { AIProvider, AIRequest, AIResponse, InfillInput, NarrativePOV, NarrativeTense } from '../../../shared/types/AI';
+
+// Only the text nearest the cursor is sent; inline suggestions have to be quick
+const MAX_PREFIX_CHARS = 6000;
+const MAX_SUFFIX_CHARS = 2000;
+export const DEFAULT_INFILL_TOKENS = 60;
+
+// Where to mark the cursor in emulated prompts
+const CURSOR = '[CURSOR]';
+
+// Echoes shorter than this are left alone, they may be a natural repeat
+const MIN_ECHO_CHARS = 12;
+
+const SUBJECTS = new Set(['i', 'we', 'you', 'he', 'she', 'it', 'they']);
+const FIRST_PERSON = new Set(['i', 'me', 'my', 'mine', 'myself', 'we', 'us', 'our', 'ours', 'ourselves']);
+const SECOND_PERSON = new Set(['you', 'your', 'yours', 'yourself', 'yourselves']);
+const THIRD_PERSON = new Set(['he', 'him', 'his', 'himself', 'she', 'her', 'hers', 'herself', 'they', 'them', 'their', 'theirs', 'themselves']);
+const PAST_VERBS = new Set([
+  'was', 'were', 'had', 'did', 'said', 'went', 'came', 'saw', 'felt', 'knew', 'thought', 'took', 'made', 'got',
+  'told', 'gave', 'found', 'left', 'ran', 'stood', 'sat', 'heard', 'held', 'kept', 'began', 'could', 'would'
+]);
+const PRESENT_VERBS = new Set([
+  'is', 'are', 'am', 'has', 'have', 'do', 'does', 'say', 'says', 'go', 'goes', 'come', 'comes', 'see', 'sees',
+  'feel', 'feels', 'know', 'knows', 'think', 'thinks', 'take', 'takes', 'make', 'makes', 'get', 'gets', 'can', 'will'
+]);
+
+// Fill-in-the-middle generation at the cursor. Providers with a native infill
+// API get the prefix and suffix as they are; everything else gets a prompt
+// that marks the cursor and asks for text that joins up with what follows.
+export class Infill {
+  // Cuts the prefix and suffix down to the text nearest the cursor, at word boundaries
+  static window(input: InfillInput): InfillInput {
+    let prefix = input.prefix;
+    if (prefix.length > MAX_PREFIX_CHARS) {
+      prefix = prefix.slice(-MAX_PREFIX_CHARS);
+      prefix = prefix.slice(prefix.search(/\s/) + 1);
+    }
+    let suffix = input.suffix;
+    if (suffix.length > MAX_SUFFIX_CHARS) {
+      suffix = suffix.slice(0, MAX_SUFFIX_CHARS);
+      suffix = suffix.slice(0, Math.max(0, suffix.search(/\s\S*$/)));
+    }
+    return { prefix, suffix, maxTokens: input.maxTokens ?? DEFAULT_INFILL_TOKENS };
+  }
+
+  // Tense and point of view of the narration, ignoring quoted dialogue.
+  // Either is left unset when the text gives too little to go on.
+  static detectNarration(text: string): { tense?: NarrativeTense; pov?: NarrativePOV } {
+    const narration = text.replace(/"[^"]*"|“[^”]*”/g, ' ');
+    const words = (narration.toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) || []);
+
+    const count = (set: Set<string>) => words.filter(word => set.has(word)).length;
+    const first = count(FIRST_PERSON);
+    const second = count(SECOND_PERSON);
+    const third = count(THIRD_PERSON);
+    // First-person narrators still talk about other people, so fewer
+    // first-person pronouns are enough to outweigh the third-person ones
+    const pov: NarrativePOV | undefined = first >= 2 && first * 3 >= third ? 'first'
+      : second >= 2 && second * 2 >= third ? 'second'
+      : third >= 2 ? 'third'
+      : undefined;
+
+    let past = 0;
+    let present = 0;
+    words.forEach((word, index) => {
+      if (PAST_VERBS.has(word)) {
+        past++;
+      } else if (PRESENT_VERBS.has(word)) {
+        present++;
+      } else if (index > 0 && SUBJECTS.has(words[index - 1])) {
+        // The verb after a subject pronoun: "she turned", "she turns", "I turn"
+        const singular = /^(he|she|it)$/.test(words[index - 1]);
+        if (/^[a-z]{2,}ed$/.test(word)) past++;
+        else if (singular ? /^[a-z]{2,}s$/.test(word) : /^[a-z]{3,}$/.test(word) && !/ly$/.test(word)) present++;
+      }
+    });
+    const tense: NarrativeTense | undefined = past + present < 3 ? undefined : present > past ? 'present' : 'past';
+
+    return { tense, pov };
+  }
+
+  // Instructions for providers without native infill
+  static buildPrompt(input: InfillInput, narration: { tense?: NarrativeTense; pov?: NarrativePOV } = {}): string {
+    const words = Math.max(5, Math.round((input.maxTokens ?? DEFAULT_INFILL_TOKENS) * 0.75));
+    const style = [
+      narration.tense ? `${narration.tense} tense` : '',
+      narration.pov ? `${narration.pov}-person point of view` : ''
+    ].filter(Boolean).join(', ');
+
+    const task = input.suffix.trim()
+      ? `Write the text that belongs at ${CURSOR} in the passage below: at most ${words} words that follow on from the text before the cursor and lead straight into the text after it.`
+      : `Continue the passage below from ${CURSOR} with at most ${words} words.`;
+
+    return `${task}
+- Do not repeat any of the text before or after the cursor.
+${style ? `- Keep to the ${style} used in the passage.\n` : ''}- Reply with the new text only: no quotation marks around it, no notes.
+
+Passage:
+${input.prefix}${CURSOR}${input.suffix}`;
+  }
+
+  // Turns a reply into text that can be inserted at the cursor: drops echoes
+  // of the surrounding text and fixes the spacing at both ends
+  static clean(text: string, input: InfillInput): string {
+    let result = text
+      .replace(/^```[a-z]*\n?|\n?```$/g, '')
+      .split(CURSOR).join('');
+
+    // The prefix repeated at the start of the reply
+    const start = result.trimStart();
+    for (let length = Math.min(start.length, 200); length >= MIN_ECHO_CHARS; length--) {
+      if (input.prefix.trimEnd().endsWith(start.slice(0, length).trimEnd())) {
+        result = start.slice(length);
+        break;
+      }
+    }
+
+    // The reply running on into the suffix
+    const suffix = input.suffix.trimStart();
+    if (suffix.length >= MIN_ECHO_CHARS) {
+      const head = suffix.slice(0, Math.min(suffix.length, 24));
+      const found = result.indexOf(head);
+      if (found >= 0) {
+        result = result.slice(0, found);
+      } else {
+        for (let length = Math.min(result.length, suffix.length, 200); length >= MIN_ECHO_CHARS; length--) {
+          if (result.endsWith(suffix.slice(0, length))) {
+            result = result.slice(0, -length);
+            break;
+          }
+        }
+      }
+    }
+
+    if (!result.trim()) {
+      return '';
+    }
+
+    // A space between the prefix and the new text unless one is there already,
+    // the prefix ends in an opening quote or bracket, or the new text starts
+    // with punctuation
+    result = /(^|\s)$/.test(input.prefix) ? result.trimStart() : result;
+    const opened = /(^|\s)["']$|[“(]$/.test(input.prefix);
+    if (input.prefix && !opened && !/\s$/.test(input.prefix) && /^[\w"“'(]/.test(result)) {
+      result = ` ${result}`;
+    }
+    // Likewise before the suffix, which keeps its own leading whitespace
+    result = result.trimEnd();
+    if (/^[\w"“(]/.test(input.suffix)) {
+      result = `${result} `;
+    }
+    return result;
+  }
+
+  // Runs an infill request: natively when the provider supports it for its
+  // current model, otherwise as a text request with the emulation prompt
+  static async execute(provider: AIProvider, request: AIRequest): Promise<AIResponse> {
+    if (request.infill && provider.generateInfill) {
+      const response = await provider.generateInfill(request.infill, request.context, request.signal);
+      if (response) {
+        return { ...response, metadata: { ...response.metadata, infill: 'native' } };
+      }
+    }
+    const response = await provider.generateText(request.content, request.context, request.signal);
+    return { ...response, metadata: { ...response.metadata, infill: 'emulated' } };
+  }
+}
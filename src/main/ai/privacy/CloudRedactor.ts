@@ -0,0 +1,299 @@
+import { AIProvider, AIRequest, AIResponse, AIStreamChunk, ToolExecutor } from '../../../shared/types/AI';
+import { Story } from '../../../shared/types/Story';
+import { ConfigManager, PrivacySettings } from '../../config/ConfigManager';
+import { PrivacyAuditLogger } from '../../security/PrivacyAuditLogger';
+
+export type RedactionKind = 'person' | 'email' | 'phone' | 'address';
+
+export interface RedactionSubstitution {
+  kind: RedactionKind;
+  placeholder: string;
+  occurrences: number;
+}
+
+const LABELS: Record<RedactionKind, string> = { person: 'PERSON', email: 'EMAIL', phone: 'PHONE', address: 'ADDRESS' };
+const PLACEHOLDER = /\[(PERSON|EMAIL|PHONE|ADDRESS)_\d+\]/g;
+// The start of a placeholder cut off at the end of a stream chunk
+const PARTIAL_PLACEHOLDER = /^\[[A-Z]*_?\d*$/;
+
+const EMAIL = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu;
+// House number, up to four capitalised words and a street type, e.g. "42 Wallaby Way"
+const ADDRESS = /\b\d{1,5}[A-Za-z]?\s+(?:[A-Z][\p{L}'.-]*\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Lane|Ln|Drive|Dr|Boulevard|Blvd|Court|Ct|Place|Pl|Way|Terrace|Close|Crescent|Square|Row|Hill)\b/gu;
+// Grouped digits with an optional country code; candidates are kept when they have 7 to 15 digits
+const PHONE = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,5}\)\s?|\b\d{2,5}[\s.-])\d{3,4}[\s.-]?\d{3,4}\b/g;
+// Parts of a name that are not redacted on their own
+const NAME_PARTS_KEPT = new Set(['The', 'Mr', 'Mrs', 'Ms', 'Dr', 'Miss', 'Sir', 'Lady', 'Lord', 'Aunt', 'Uncle', 'Of', 'Van', 'Von', 'De', 'Del', 'La', 'Le']);
+
+// Identifiers and enum-like fields carry no personal details
+const UNREDACTED_KEYS = /^(id|type|requestType)$|Id$/;
+
+// A request with names and contact details replaced by placeholders, and the
+// means to put them back into whatever the provider returns
+export class Redaction {
+  constructor(
+    readonly request: AIRequest,
+    readonly substitutions: RedactionSubstitution[],
+    private originals: Map<string, string> = new Map(),
+    private redactToolResult: ((text: string, tool: string) => Promise<string>) | null = null
+  ) {}
+
+  // The request as it was, for providers that are not redacted
+  static none(request: AIRequest): Redaction {
+    return new Redaction(request, []);
+  }
+
+  // Placeholders first handed out in tool results are restored too
+  restore(text: string): string {
+    if (this.originals.size === 0 || !text) {
+      return text;
+    }
+    return text.replace(PLACEHOLDER, placeholder => this.originals.get(placeholder) ?? placeholder);
+  }
+
+  restoreResponse(response: AIResponse): AIResponse {
+    if (this.originals.size === 0) {
+      return response;
+    }
+    return {
+      ...response,
+      content: this.restore(response.content),
+      text: response.text !== undefined ? this.restore(response.text) : undefined,
+      suggestions: response.suggestions?.map(text => this.restore(text)),
+      alternatives: response.alternatives?.map(text => this.restore(text))
+    };
+  }
+
+  // Holds back a placeholder split across chunks until the rest of it arrives
+  async *restoreStream(stream: AsyncIterable<AIStreamChunk>): AsyncGenerator<AIStreamChunk> {
+    if (this.originals.size === 0) {
+      yield* stream;
+      return;
+    }
+
+    let pending = '';
+    for await (const chunk of stream) {
+      let text = pending + chunk.content;
+      pending = '';
+      const open = text.lastIndexOf('[');
+      if (!chunk.done && open !== -1 && PARTIAL_PLACEHOLDER.test(text.slice(open))) {
+        pending = text.slice(open);
+        text = text.slice(0, open);
+      }
+      yield { ...chunk, content: this.restore(text) };
+    }
+    if (pending) {
+      yield { content: this.restore(pending), done: false };
+    }
+  }
+
+  // The tools for the provider's tool-call loop. Placeholders in the model's
+  // arguments are put back before a tool runs, and its result, errors
+  // included, is redacted before it goes back to the provider.
+  wrapTools(tools: ToolExecutor | null): ToolExecutor | null {
+    const redactToolResult = this.redactToolResult;
+    if (!tools || !redactToolResult) {
+      return tools;
+    }
+    return {
+      definitions: () => tools.definitions(),
+      execute: async (call, context, provider) => {
+        const result = await tools.execute(
+          { ...call, arguments: mapStrings(call.arguments, text => this.restore(text)) },
+          context,
+          provider
+        );
+        return { ...result, content: await redactToolResult(result.content, call.name) };
+      }
+    };
+  }
+}
+
+// Outbound redaction for cloud providers. With privacy.redactCloudRequests
+// set, character names and aliases (every character of the story when a story
+// loader is set), the configured real-world names, email
+// addresses, phone numbers and street addresses are swapped for placeholders
+// such as [PERSON_1] before a request leaves the machine, and swapped back in
+// the response. Placeholders stay the same for the life of the redactor so the
+// provider sees one stand-in per person across requests. Names are matched as
+// written, as whole words. Tool results are redacted the same way. Every
+// substitution is recorded in the privacy audit log, by placeholder only.
+export class CloudRedactor {
+  private placeholders = new Map<string, string>(); // original -> placeholder
+  private originals = new Map<string, string>(); // placeholder -> original
+  private counters: Record<RedactionKind, number> = { person: 0, email: 0, phone: 0, address: 0 };
+  private loadStory: ((storyId: string) => Promise<Story | null>) | null = null;
+
+  constructor(
+    private configManager: ConfigManager,
+    private auditLogger: Pick<PrivacyAuditLogger, 'logDataTransmission'> | null = null
+  ) {}
+
+  setAuditLogger(auditLogger: Pick<PrivacyAuditLogger, 'logDataTransmission'> | null): void {
+    this.auditLogger = auditLogger;
+  }
+
+  // Lets the redactor know every character of a story, including those not in
+  // the request context that a tool result may name
+  setStoryLoader(loadStory: ((storyId: string) => Promise<Story | null>) | null): void {
+    this.loadStory = loadStory;
+  }
+
+  isEnabled(): boolean {
+    const privacy = this.configManager.get('privacy') as PrivacySettings | undefined;
+    return Boolean(privacy?.redactCloudRequests);
+  }
+
+  async redact(provider: AIProvider, request: AIRequest): Promise<Redaction> {
+    if (provider.type !== 'cloud' || !this.isEnabled()) {
+      return Redaction.none(request);
+    }
+
+    const counts = new Map<string, number>();
+    const names = await this.namesFor(request);
+    const redactText = (text: string) => this.redactText(text, names, counts);
+    const redacted: AIRequest = {
+      ...request,
+      content: redactText(request.content),
+      context: request.context && mapStrings(request.context, redactText, UNREDACTED_KEYS),
+      infill: request.infill && mapStrings(request.infill, redactText, UNREDACTED_KEYS)
+    };
+
+    const substitutions = this.substitutionsFrom(counts);
+    await this.audit(provider, request, substitutions);
+
+    const redactToolResult = async (text: string, tool: string) => {
+      const resultCounts = new Map<string, number>();
+      const result = this.redactText(text, names, resultCounts);
+      await this.audit(provider, request, this.substitutionsFrom(resultCounts), tool);
+      return result;
+    };
+    return new Redaction(redacted, substitutions, this.originals, redactToolResult);
+  }
+
+  // Names to redact, longest first so full names win over their parts
+  private async namesFor(request: AIRequest): Promise<string[]> {
+    const privacy = this.configManager.get('privacy') as PrivacySettings | undefined;
+    const characters = [...(request.context?.characters || []), ...(await this.storyCharacters(request))];
+    const full = [
+      ...(privacy?.redactedNames || []),
+      ...characters.flatMap(character => [character.name, ...(character.aliases || [])])
+    ].map(name => (name || '').trim()).filter(name => name.length > 1);
+
+    const parts = full.flatMap(name => name.split(/\s+/))
+      .filter(part => part.length > 2 && /^\p{Lu}/u.test(part) && !NAME_PARTS_KEPT.has(part.replace(/\.$/, '')));
+
+    return Array.from(new Set([...full, ...parts])).sort((a, b) => b.length - a.length);
+  }
+
+  private async storyCharacters(request: AIRequest): Promise<Story['characters']> {
+    const storyId = request.context?.storyId;
+    if (!storyId || !this.loadStory) {
+      return [];
+    }
+    try {
+      return (await this.loadStory(storyId))?.characters || [];
+    } catch (error) {
+      console.warn(`Failed to load story ${storyId} for redaction:`, error);
+      return [];
+    }
+  }
+
+  private redactText(text: string, names: string[], counts: Map<string, number>): string {
+    if (!text) {
+      return text;
+    }
+    const substitute = (kind: RedactionKind) => (match: string) => {
+      const placeholder = this.placeholderFor(kind, match);
+      counts.set(placeholder, (counts.get(placeholder) || 0) + 1);
+      return placeholder;
+    };
+
+    let result = text
+      .replace(EMAIL, substitute('email'))
+      .replace(ADDRESS, substitute('address'))
+      .replace(PHONE, match => {
+        const digits = match.replace(/\D/g, '').length;
+        return digits >= 7 && digits <= 15 ? substitute('phone')(match) : match;
+      });
+
+    if (names.length > 0) {
+      const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${names.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'gu');
+      result = result.replace(pattern, substitute('person'));
+    }
+    return result;
+  }
+
+  private substitutionsFrom(counts: Map<string, number>): RedactionSubstitution[] {
+    return Array.from(counts, ([placeholder, occurrences]) => ({
+      kind: this.kindOf(placeholder),
+      placeholder,
+      occurrences
+    }));
+  }
+
+  private placeholderFor(kind: RedactionKind, original: string): string {
+    let placeholder = this.placeholders.get(original);
+    if (!placeholder) {
+      placeholder = `[${LABELS[kind]}_${++this.counters[kind]}]`;
+      this.placeholders.set(original, placeholder);
+      this.originals.set(placeholder, original);
+    }
+    return placeholder;
+  }
+
+  private kindOf(placeholder: string): RedactionKind {
+    const label = placeholder.slice(1, placeholder.lastIndexOf('_'));
+    return (Object.keys(LABELS) as RedactionKind[]).find(kind => LABELS[kind] === label)!;
+  }
+
+  private async audit(provider: AIProvider, request: AIRequest, substitutions: RedactionSubstitution[], tool?: string): Promise<void> {
+    if (!this.auditLogger) {
+      return;
+    }
+    for (const substitution of substitutions) {
+      try {
+        await this.auditLogger.logDataTransmission({
+          category: 'ai-redaction',
+          action: 'redact',
+          resource: request.context?.storyId ? `story:${request.context.storyId}` : 'story',
+          destination: provider.name,
+          protocol: 'https',
+          dataType: substitution.kind,
+          purpose: 'ai-assistance',
+          thirdParty: true,
+          additionalDetails: {
+            placeholder: substitution.placeholder,
+            occurrences: substitution.occurrences,
+            requestType: request.type,
+            ...(tool ? { tool } : {})
+          }
+        });
+      } catch (error) {
+        console.warn(`Failed to record redaction ${substitution.placeholder} in the audit log:`, error);
+      }
+    }
+  }
+}
+
+// Maps every string in plain objects and arrays, such as character profiles,
+// retrieved passages and tool arguments, leaving keys matching skipKeys alone
+function mapStrings<T>(value: T, map: (text: string) => string, skipKeys?: RegExp): T {
+  if (typeof value === 'string') {
+    return map(value) as any;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapStrings(item, map, skipKeys)) as any;
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const copy: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = skipKeys?.test(key) ? item : mapStrings(item, map, skipKeys);
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,372 @@
+import {
+  AIRequestType,
+  PromptTemplate,
+  PromptTemplateDraft,
+  PromptVariable,
+  PromptVariableType,
+  RenderedPrompt,
+  StoryContext
+} from '../../../shared/types/AI';
+import { ConfigManager } from '../../config/ConfigManager';
+import { DEFAULT_PROMPT_TEMPLATES, STANDARD_PROMPT_VARIABLES } from './DefaultPromptTemplates';
+
+// Identifies the provider a prompt is rendered for; AIProvider instances can be passed as is
+export interface PromptTarget {
+  name: string;
+  type?: string;
+}
+
+// Request types that fall back to another type's templates for parts they do not define
+const PARENT_TYPES: Partial<Record<AIRequestType, AIRequestType>> = {
+  plot_hole_detection: 'story_analysis',
+  pacing_analysis: 'story_analysis',
+  consistency_check: 'story_analysis',
+  manuscript_analysis: 'story_analysis',
+  dialogue_generation: 'prose_generation',
+  outline: 'prose_generation',
+  scene_structure: 'prose_generation',
+  research: 'prose_generation',
+  brainstorming: 'prose_generation',
+  infill: 'prose_generation',
+  assistant_chat: 'prose_generation'
+};
+
+const VARIABLE_TYPES: PromptVariableType[] = ['string', 'number', 'boolean', 'list'];
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const VALUE_TAG = /^(\w+)(?:\|join:"([^"]*)")?$/;
+const IF_TAG = /^#if (\w+)$/;
+// An {{#if}} block with no other {{#if}} inside it, so nested blocks resolve innermost first
+const INNERMOST_IF = /\{\{#if (\w+)\}\}((?:(?!\{\{#if )[\s\S])*?)\{\{\/if\}\}/;
+
+// Named, versioned prompt templates for each request type. Built-in templates
+// ship with the app; edits are saved as new user versions in the config, so
+// earlier versions can be restored and the built-in one is never lost.
+export class PromptLibrary {
+  private static configManager: ConfigManager | null = null;
+  private static userTemplates: PromptTemplate[] = [];
+
+  static setConfigManager(configManager: ConfigManager | null): void {
+    this.configManager = configManager;
+    this.userTemplates = configManager ? [...configManager.getPromptTemplates()] : [];
+  }
+
+  static getBuiltInTemplates(): PromptTemplate[] {
+    return DEFAULT_PROMPT_TEMPLATES.map(template => ({ ...template }));
+  }
+
+  // The active version of every template
+  static getTemplates(): PromptTemplate[] {
+    const ids = new Set([...DEFAULT_PROMPT_TEMPLATES, ...this.userTemplates].map(template => template.id));
+    return [...ids].map(id => this.getTemplate(id)!);
+  }
+
+  // The latest user version, otherwise the built-in template
+  static getTemplate(id: string): PromptTemplate | null {
+    const versions = this.getVersions(id);
+    const latestUser = versions.filter(template => template.source === 'user').pop();
+    return latestUser || versions.find(template => template.source === 'builtin') || null;
+  }
+
+  static getVersions(id: string): PromptTemplate[] {
+    return [...DEFAULT_PROMPT_TEMPLATES, ...this.userTemplates]
+      .filter(template => template.id === id)
+      .sort((a, b) => a.version - b.version)
+      .map(template => ({ ...template }));
+  }
+
+  // Finds the templates for the system and user parts of a prompt. Each part
+  // comes from the first template that defines it, trying the provider name,
+  // then the provider type, then the request type, and then the same for the
+  // parent type (e.g. plot_hole_detection falls back to story_analysis).
+  static resolve(requestType: AIRequestType, provider?: PromptTarget): { system?: PromptTemplate; user?: PromptTemplate } {
+    let system: PromptTemplate | undefined;
+    let user: PromptTemplate | undefined;
+
+    for (const id of this.resolutionOrder(requestType, provider)) {
+      const template = this.getTemplate(id);
+      if (!template) {
+        continue;
+      }
+      if (!system && template.system !== undefined) system = template;
+      if (!user && template.user !== undefined) user = template;
+      if (system && user) {
+        break;
+      }
+    }
+
+    return { system, user };
+  }
+
+  static render(requestType: AIRequestType, variables: Record<string, any>, provider?: PromptTarget): RenderedPrompt {
+    const { system, user } = this.resolve(requestType, provider);
+    const missingVariables = new Set<string>();
+
+    const renderPart = (template: PromptTemplate | undefined, part: 'system' | 'user'): string => {
+      if (!template) {
+        return '';
+      }
+      const text = template[part]!;
+      const declared = this.declaredVariables(template);
+      for (const name of this.referencedVariables(text)) {
+        if (declared.get(name)?.required && !this.hasValue(variables[name])) {
+          missingVariables.add(name);
+        }
+      }
+      return this.renderText(text, variables, declared);
+    };
+
+    return {
+      system: renderPart(system, 'system'),
+      user: renderPart(user, 'user'),
+      systemTemplate: system && { id: system.id, version: system.version, source: system.source },
+      userTemplate: user && { id: user.id, version: user.version, source: user.source },
+      missingVariables: [...missingVariables]
+    };
+  }
+
+  // Renders one template on its own, without inheriting missing parts
+  static renderTemplate(template: Pick<PromptTemplate, 'system' | 'user' | 'variables'>, variables: Record<string, any>): { system: string; user: string } {
+    const declared = this.declaredVariables(template);
+    return {
+      system: template.system ? this.renderText(template.system, variables, declared) : '',
+      user: template.user ? this.renderText(template.user, variables, declared) : ''
+    };
+  }
+
+  // Renders a template, saved or not, against a story context so edits can be checked before saving
+  static preview(
+    template: Pick<PromptTemplate, 'system' | 'user' | 'variables'>,
+    context: StoryContext,
+    extra: Record<string, any> = {}
+  ): { system: string; user: string; problems: string[] } {
+    const problems = this.validate(template);
+    if (problems.length > 0) {
+      return { system: '', user: '', problems };
+    }
+
+    const variables = { ...this.variablesFromContext(context), ...extra };
+    try {
+      return { ...this.renderTemplate(template, variables), problems: [] };
+    } catch (error) {
+      return { system: '', user: '', problems: [(error as Error).message] };
+    }
+  }
+
+  static variablesFromContext(context: StoryContext): Record<string, any> {
+    return {
+      storyId: context.storyId,
+      genre: context.genre || [],
+      targetAudience: context.targetAudience,
+      characters: (context.characters || []).map(character => character.name),
+      currentChapter: context.currentChapter,
+      currentScene: context.currentScene,
+      previousContext: context.previousContext
+    };
+  }
+
+  static getStandardVariables(): PromptVariable[] {
+    return STANDARD_PROMPT_VARIABLES.map(variable => ({ ...variable }));
+  }
+
+  // Saves a draft as the next version of its template
+  static saveTemplate(draft: PromptTemplateDraft): PromptTemplate {
+    const problems = this.validate(draft);
+    if (problems.length > 0) {
+      throw new Error(`Invalid prompt template: ${problems.join('; ')}`);
+    }
+
+    const id = draft.provider ? `${draft.requestType}@${draft.provider.toLowerCase()}` : draft.requestType;
+    const versions = this.getVersions(id);
+    const current = this.getTemplate(id);
+
+    const template: PromptTemplate = {
+      id,
+      requestType: draft.requestType,
+      provider: draft.provider?.toLowerCase(),
+      version: versions.length > 0 ? versions[versions.length - 1].version + 1 : 1,
+      name: draft.name || current?.name || id,
+      description: draft.description ?? current?.description,
+      system: draft.system,
+      user: draft.user,
+      variables: draft.variables.map(variable => ({ ...variable })),
+      source: 'user',
+      basedOnVersion: current?.version,
+      updatedAt: new Date().toISOString()
+    };
+
+    this.userTemplates.push(template);
+    this.persist();
+    return { ...template };
+  }
+
+  // Makes an earlier version active again by saving a copy of it as the newest version
+  static revertTemplate(id: string, version: number): PromptTemplate {
+    const target = this.getVersions(id).find(template => template.version === version);
+    if (!target) {
+      throw new Error(`Prompt template ${id} has no version ${version}`);
+    }
+
+    return this.saveTemplate({
+      requestType: target.requestType,
+      provider: target.provider,
+      name: target.name,
+      description: target.description,
+      system: target.system,
+      user: target.user,
+      variables: target.variables
+    });
+  }
+
+  // Drops all user versions, making the built-in template active again
+  static resetTemplate(id: string): void {
+    this.userTemplates = this.userTemplates.filter(template => template.id !== id);
+    this.persist();
+  }
+
+  static validate(template: Pick<PromptTemplate, 'system' | 'user' | 'variables'>): string[] {
+    const problems: string[] = [];
+    const variables = template.variables || [];
+
+    if (template.system === undefined && template.user === undefined) {
+      problems.push('Template needs a system or user part');
+    }
+
+    const names = new Set<string>();
+    for (const variable of variables) {
+      if (!/^\w+$/.test(variable.name || '')) {
+        problems.push(`Invalid variable name "${variable.name}"`);
+      }
+      if (names.has(variable.name)) {
+        problems.push(`Variable ${variable.name} is declared twice`);
+      }
+      if (!VARIABLE_TYPES.includes(variable.type)) {
+        problems.push(`Variable ${variable.name} has unknown type "${variable.type}"`);
+      }
+      names.add(variable.name);
+    }
+
+    const declared = this.declaredVariables(template);
+    for (const part of ['system', 'user'] as const) {
+      const text = template[part];
+      if (text === undefined) {
+        continue;
+      }
+
+      let depth = 0;
+      for (const match of text.matchAll(TAG_PATTERN)) {
+        const tag = match[1].trim();
+        const valueTag = tag.match(VALUE_TAG);
+        const ifTag = tag.match(IF_TAG);
+
+        if (tag === '/if') {
+          depth--;
+          if (depth < 0) {
+            problems.push(`Unexpected {{/if}} in ${part} part`);
+            depth = 0;
+          }
+        } else if (ifTag) {
+          depth++;
+          if (!declared.has(ifTag[1])) problems.push(`Variable ${ifTag[1]} is used but not declared`);
+        } else if (valueTag) {
+          const variable = declared.get(valueTag[1]);
+          if (!variable) {
+            problems.push(`Variable ${valueTag[1]} is used but not declared`);
+          } else if (valueTag[2] !== undefined && variable.type !== 'list') {
+            problems.push(`Variable ${valueTag[1]} is not a list and cannot be joined`);
+          }
+        } else {
+          problems.push(`Unknown tag {{${match[1]}}} in ${part} part`);
+        }
+      }
+      if (depth > 0) {
+        problems.push(`Unclosed {{#if}} in ${part} part`);
+      }
+    }
+
+    return [...new Set(problems)];
+  }
+
+  private static resolutionOrder(requestType: AIRequestType, provider?: PromptTarget): string[] {
+    const keys: string[] = [];
+    if (provider) {
+      const name = provider.name.toLowerCase();
+      // "Anthropic Claude" matches anthropic, "Mistral AI" matches mistral
+      keys.push(name, name.split(/\s+/)[0]);
+      if (provider.type) keys.push(provider.type);
+    }
+
+    const order: string[] = [];
+    for (let type: AIRequestType | undefined = requestType; type; type = PARENT_TYPES[type]) {
+      for (const key of keys) {
+        order.push(`${type}@${key}`);
+      }
+      order.push(type);
+    }
+    return [...new Set(order)];
+  }
+
+  private static renderText(text: string, variables: Record<string, any>, declared: Map<string, PromptVariable>): string {
+    for (const name of this.referencedVariables(text)) {
+      this.checkType(name, variables[name], declared.get(name));
+    }
+
+    let output = text;
+    let block = output.match(INNERMOST_IF);
+    while (block) {
+      const kept = this.hasValue(variables[block[1]]) ? block[2] : '';
+      output = output.replace(block[0], () => kept);
+      block = output.match(INNERMOST_IF);
+    }
+
+    return output.replace(TAG_PATTERN, (tag, body: string) => {
+      const valueTag = body.trim().match(VALUE_TAG);
+      if (!valueTag) {
+        return tag;
+      }
+      const value = variables[valueTag[1]];
+      if (value === undefined || value === null) {
+        return '';
+      }
+      return Array.isArray(value) ? value.join(valueTag[2] ?? ', ') : String(value);
+    });
+  }
+
+  private static checkType(name: string, value: any, variable?: PromptVariable): void {
+    if (!variable || value === undefined || value === null) {
+      return;
+    }
+
+    const matches = variable.type === 'list' ? Array.isArray(value) : typeof value === variable.type;
+    if (!matches) {
+      throw new Error(`Prompt variable ${name} should be a ${variable.type}`);
+    }
+  }
+
+  private static hasValue(value: any): boolean {
+    if (Array.isArray(value)) {
+      return value.length > 0;
+    }
+    return value !== undefined && value !== null && value !== '' && value !== false;
+  }
+
+  private static referencedVariables(text: string): string[] {
+    const names = new Set<string>();
+    for (const match of text.matchAll(TAG_PATTERN)) {
+      const tag = match[1].trim();
+      const name = (tag.match(IF_TAG) || tag.match(VALUE_TAG))?.[1];
+      if (name) names.add(name);
+    }
+    return [...names];
+  }
+
+  private static declaredVariables(template: Pick<PromptTemplate, 'variables'>): Map<string, PromptVariable> {
+    return new Map((template.variables || []).map(variable => [variable.name, variable]));
+  }
+
+  private static persist(): void {
+    if (this.configManager) {
+      this.configManager.setPromptTemplates(this.userTemplates);
+    }
+  }
+}
@@ -4,9 +4,29 @@ import {
   AICapability, 
   StoryContext, 
   AIResponse,
-  StoryAnalysis
+  AIStreamChunk,
+  StoryAnalysis,
+  HealthCheckResult,
+  RateLimitState,
+  ToolCall,
+  ToolDefinition,
+  ToolExecutor,
+  ToolResult
 } from '../../../shared/types/AI';
 import { Character } from '../../../shared/types/Story';
+import { TokenizerRegistry } from '../inference/TokenizerRegistry';
+import { RateLimiter } from '../health/RateLimiter';
+import { throwIfCancelled } from '../RequestCancellation';
+import { MAX_TOOL_ROUNDS, ToolCalling, ToolLoopAdapter } from '../tools/ToolCalling';
+import { HttpTransport } from './HttpCassette';
+
+// Error with a machine-readable code such as 'TIMEOUT' or 'INVALID_API_KEY'
+export class ProviderError extends Error {
+  constructor(message: string, readonly code: string, readonly details?: any) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
 
 // Base abstract class for all AI providers
 export abstract class BaseProvider implements AIProvider {
@@ -18,12 +38,21 @@ export abstract class BaseProvider implements AIProvider {
   protected config: ProviderConfig = {};
   protected initialized = false;
   protected available = false;
+  // Cloud APIs are rate limited; every HTTP call waits on this first
+  protected rateLimiter: RateLimiter | null = null;
+  // Story tools offered to the model, for providers whose API supports tool use
+  protected tools: ToolExecutor | null = null;
+  // Replaces fetch for HTTP calls, e.g. with a recorded cassette in conformance tests
+  protected transport: HttpTransport | null = null;
 
   async initialize(config: ProviderConfig): Promise<void> {
     this.config = { ...this.config, ...config };
+    if (this.type === 'cloud') {
+      this.rateLimiter = new RateLimiter(this.name, this.config.rateLimits);
+    }
     
     try {
-      await this.doInitialize();
+      await this.doInitialize(this.config);
       this.initialized = true;
       this.available = true;
       console.log(`${this.name} provider initialized successfully`);
@@ -35,11 +64,46 @@ export abstract class BaseProvider implements AIProvider {
     }
   }
 
-  protected abstract doInitialize(): Promise<void>;
+  protected abstract doInitialize(config: ProviderConfig): Promise<void>;
+
+  // Providers either override generateText, analyzeStory and generateCharacter
+  // or implement the do* hooks and leave response timing to the base class
+  async generateText(prompt: string, context: StoryContext, signal?: AbortSignal): Promise<AIResponse> {
+    const startTime = Date.now();
+    const response = await this.doGenerateText(prompt, context, signal);
+    if (response.metadata) {
+      response.metadata.responseTime = Date.now() - startTime;
+    }
+    return response;
+  }
+
+  protected async doGenerateText(prompt: string, context: StoryContext, signal?: AbortSignal): Promise<AIResponse> {
+    throw new Error(`${this.name} provider does not support text generation`);
+  }
+
+  // Providers without a native streaming API yield the finished response as
+  // a single chunk, so callers can always consume a stream
+  async *generateTextStream(prompt: string, context: StoryContext, signal?: AbortSignal): AsyncGenerator<AIStreamChunk> {
+    const response = await this.generateText(prompt, context, signal);
+    yield { content: response.content, done: false };
+    yield { content: '', done: true, metadata: response.metadata };
+  }
+
+  async analyzeStory(content: string, signal?: AbortSignal): Promise<StoryAnalysis> {
+    return this.doAnalyzeStory(content, signal);
+  }
+
+  protected async doAnalyzeStory(content: string, signal?: AbortSignal): Promise<StoryAnalysis> {
+    throw new Error(`${this.name} provider does not support story analysis`);
+  }
+
+  async generateCharacter(traits: any, signal?: AbortSignal): Promise<Character> {
+    return this.doGenerateCharacter(traits, signal);
+  }
 
-  abstract generateText(prompt: string, context: StoryContext): Promise<AIResponse>;
-  abstract analyzeStory(content: string): Promise<StoryAnalysis>;
-  abstract generateCharacter(traits: any): Promise<Character>;
+  protected async doGenerateCharacter(traits: any, signal?: AbortSignal): Promise<Character> {
+    throw new Error(`${this.name} provider does not support character generation`);
+  }
 
   isAvailable(): boolean {
     return this.initialized && this.available;
@@ -58,6 +122,18 @@ export abstract class BaseProvider implements AIProvider {
 
   protected abstract doShutdown(): Promise<void>;
 
+  protected createError(message: string, code: string, details?: any): ProviderError {
+    return new ProviderError(message, code, details);
+  }
+
+  setHttpTransport(transport: HttpTransport | null): void {
+    this.transport = transport;
+  }
+
+  protected httpFetch(url: string, init?: RequestInit): Promise<Response> {
+    return this.transport ? this.transport(url, init) : fetch(url, init);
+  }
+
   // Helper method to create standardized responses
   protected createResponse(
     content: string,
@@ -77,10 +153,76 @@ export abstract class BaseProvider implements AIProvider {
     };
   }
 
-  // Simple token estimation (rough approximation)
-  protected estimateTokens(text: string): number {
-    // Rough estimate: 1 token ≈ 4 characters for English text
-    return Math.ceil(text.length / 4);
+  // Token count from the model's tokenizer family; estimated when its vocabulary is not installed
+  protected estimateTokens(text: string, model: string | undefined = this.config.modelName): number {
+    return TokenizerRegistry.countTokens(text, model, this.name);
+  }
+
+  getRateLimitState(): RateLimitState | undefined {
+    return this.rateLimiter?.getState();
+  }
+
+  // Waits for rate-limit capacity for a request body. Its token cost is the
+  // prompt plus the completion it asks for, which is what APIs count against limits.
+  protected async waitForRateLimit(body: any, signal?: AbortSignal): Promise<void> {
+    if (!this.rateLimiter) {
+      return;
+    }
+    const prompt = JSON.stringify(body.messages ?? body.prompt ?? '') + (typeof body.system === 'string' ? body.system : '');
+    await this.rateLimiter.acquire(this.estimateTokens(prompt) + (body.max_tokens || 0), signal);
+  }
+
+  // Updates the rate limits from a response, and throws RateLimitError on a 429
+  protected checkRateLimit(response: Response): void {
+    if (!this.rateLimiter) {
+      return;
+    }
+    const headers = response.headers || { get: () => null };
+    if (response.status === 429) {
+      throw this.rateLimiter.rateLimited(headers);
+    }
+    this.rateLimiter.update(headers);
+  }
+
+  setTools(tools: ToolExecutor | null): void {
+    this.tools = tools;
+  }
+
+  // The tools to offer for a request; none when no tools are set or the request is not about a story
+  protected toolsFor(context: StoryContext): ToolDefinition[] {
+    return this.tools && ToolCalling.appliesTo(context) ? this.tools.definitions() : [];
+  }
+
+  // Sends the conversation, runs any tools the model calls and sends their
+  // results back, until the model answers without calling a tool. After
+  // MAX_TOOL_ROUNDS rounds the model is asked to answer without tools.
+  // responses holds every round's response, for totalling token usage.
+  protected async runToolLoop<TMessage, TResponse>(
+    messages: TMessage[],
+    context: StoryContext,
+    adapter: ToolLoopAdapter<TMessage, TResponse>,
+    signal?: AbortSignal
+  ): Promise<{ response: TResponse; responses: TResponse[]; toolCalls: ToolCall[] }> {
+    const conversation = [...messages];
+    const responses: TResponse[] = [];
+    const toolCalls: ToolCall[] = [];
+
+    for (let round = 0; ; round++) {
+      const response = await adapter.send(conversation, round === MAX_TOOL_ROUNDS);
+      responses.push(response);
+      const calls = round === MAX_TOOL_ROUNDS ? [] : adapter.toolCalls(response);
+      if (calls.length === 0 || !this.tools) {
+        return { response, responses, toolCalls };
+      }
+
+      const results: ToolResult[] = [];
+      for (const call of calls) {
+        throwIfCancelled(signal);
+        results.push(await this.tools.execute(call, context, this.name));
+        toolCalls.push(call);
+      }
+      conversation.push(...adapter.followUp(response, results));
+    }
   }
 
   // Helper method to validate configuration
@@ -116,7 +258,17 @@ export abstract class BaseProvider implements AIProvider {
     }
   }
 
-  protected abstract performHealthCheck(): Promise<void>;
+  // Providers that report health as a result rather than throwing implement doHealthCheck
+  protected async performHealthCheck(): Promise<void> {
+    const result = await this.doHealthCheck();
+    if (!result.healthy) {
+      throw new Error(result.error || `${this.name} health check failed`);
+    }
+  }
+
+  protected async doHealthCheck(): Promise<Omit<HealthCheckResult, 'responseTime'>> {
+    return { healthy: true };
+  }
 
   // Get provider information
   getInfo(): any {
@@ -172,8 +324,9 @@ export abstract class BaseCloudProvider extends BaseProvider {
     options: RequestInit = {}
   ): Promise<any> {
     const url = `${this.baseUrl}${endpoint}`;
+    await this.waitForRateLimit(data, options.signal ?? undefined);
     
-    const response = await fetch(url, {
+    const response = await this.httpFetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -184,6 +337,7 @@ export abstract class BaseCloudProvider extends BaseProvider {
       ...options
     });
 
+    this.checkRateLimit(response);
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
@@ -25,10 +25,13 @@ import {
   ConsistencyReport
 } from '../../../shared/types/Story';
 import { BaseProvider } from './BaseProvider';
+import { RequestCancelledError, throwIfCancelled } from '../RequestCancellation';
 import { StoryValidator } from '../../../shared/validation/StoryValidation';
 import { StoryUtils, CharacterUtils } from '../../../shared/utils/StoryUtils';
-import { BaseModelLoader, createModelLoader, ModelConfig, getDefaultModelConfig } from '../inference/ModelLoader';
+import { BaseModelLoader, createModelLoader, ModelConfig, getDefaultModelConfig, ONNXModelLoader, WASMModelLoader } from '../inference/ModelLoader';
 import { BaseTokenizer, createTokenizer, getDefaultTokenizerConfig } from '../inference/Tokenizer';
+import { RetrievalIndex } from '../retrieval/RetrievalIndex';
+import { PromptLibrary } from '../prompts/PromptLibrary';
 
 // SoYume Co-writer AI Provider - specialized for creative writing
 export class CowriterProvider extends BaseProvider implements CowriterAI {
@@ -214,7 +217,8 @@ export class CowriterProvider extends BaseProvider implements CowriterAI {
           model: modelHealthy,
           tokenizer: tokenizerHealthy,
           knowledgeBase: knowledgeHealthy,
-          functionality: functionalityHealthy
+          functionality: functionalityHealthy,
+          modelInfo: this.modelLoader?.getModelInfo() || null
         }
       };
     } catch (error) {
@@ -227,8 +231,9 @@ export class CowriterProvider extends BaseProvider implements CowriterAI {
 
   private async loadLocalModel(): Promise<void> {
     try {
-      // Create model loader
-      this.modelLoader = createModelLoader(this.modelConfig, 'onnx');
+      // GGUF models run on the WASM backend, everything else on ONNX
+      const backend = this.modelConfig.modelPath.toLowerCase().endsWith('.gguf') ? 'wasm' : 'onnx';
+      this.modelLoader = createModelLoader(this.modelConfig, backend);
       
       // Set up event handlers
       this.modelLoader.on('loading-progress', (progress, stage) => {
@@ -237,6 +242,12 @@ export class CowriterProvider extends BaseProvider implements CowriterAI {
       
       this.modelLoader.on('loading-completed', (metadata) => {
         console.log('Model loaded successfully:', metadata.name);
+        if (metadata.format) {
+          console.log(
+            `Model details: ${metadata.architecture}, ${metadata.parameters} parameters, ${metadata.quantization}, ` +
+            `${metadata.contextWindow} token context, about ${Math.ceil((metadata.memoryRequired || 0) / (1024 * 1024))}MB memory`
+          );
+        }
       });
       
       this.modelLoader.on('loading-failed', (error) => {
@@ -295,11 +306,12 @@ export class CowriterProvider extends BaseProvider implements CowriterAI {
   }
 
   // Core AI interface methods
-  async generateText(prompt: string, context: StoryContext): Promise<AIResponse> {
+  async generateText(prompt: string, context: StoryContext, signal?: AbortSignal): Promise<AIResponse> {
     const startTime = Date.now();
     
     try {
       let content: string;
+      throwIfCancelled(signal);
       
       if (this.modelLoader && this.modelLoader.isModelLoaded()) {
         // Use local AI model for generation
@@ -308,6 +320,8 @@ export class CowriterProvider extends BaseProvider implements CowriterAI {
         // Use rule-based generation as fallback
         content = await this.generateWithRules(prompt, context);
       }
+      // Generation runs in process, so a cancelled request just drops its result
+      throwIfCancelled(signal);
       
       const responseTime = Date.now() - startTime;
       
@@ -324,6 +338,7 @@ export class CowriterProvider extends BaseProvider implements CowriterAI {
         }
       };
     } catch (error) {
+      if (error instanceof RequestCancelledError) throw error;
       throw this.createError('Text generation failed', 'GENERATION_ERROR', error);
     }
   }
@@ -579,7 +594,9 @@ export class CowriterProvider extends BaseProvider implements CowriterAI {
       const modelInput = this.prepareModelInput(tokenized);
       
       // Run inference
-      const session = this.modelLoader.getSession();
+      const session = this.modelLoader instanceof WASMModelLoader
+        ? this.modelLoader.getModelInstance()
+        : (this.modelLoader as ONNXModelLoader).getSession();
       const outputs = await session.run(modelInput);
       
       // Process outputs and decode
@@ -598,24 +615,23 @@ export class CowriterProvider extends BaseProvider implements CowriterAI {
   }
 
   private buildContextualPrompt(prompt: string, context: StoryContext): string {
-    let contextualPrompt = '';
-    
-    // Add genre context
-    if (context.genre && context.genre.length > 0) {
-      contextualPrompt += `Genre: ${context.genre.join(', ')}\n`;
-    }
-    
-    // Add audience context
-    if (context.targetAudience) {
-      contextualPrompt += `Target Audience: ${context.targetAudience}\n`;
-    }
+    // Genre and audience header lines, and the prompt, come from the template for this request type
+    const rendered = PromptLibrary.render(context.requestType || 'prose_generation', { ...PromptLibrary.variablesFromContext(context), prompt }, this);
+    let contextualPrompt = rendered.system;
     
-    // Add character context
-    if (context.characters && context.characters.length > 0) {
+    // Add story context, falling back to character names when none was assembled
+    if (context.assembledContext?.text) {
+      contextualPrompt += `\n${context.assembledContext.text}\n`;
+    } else if (context.characters && context.characters.length > 0) {
       contextualPrompt += `Characters: ${context.characters.map(c => c.name).join(', ')}\n`;
     }
-    
-    contextualPrompt += `\nPrompt: ${prompt}\n\nResponse:`;
+
+    // Passages retrieved from elsewhere in the manuscript, numbered for citation
+    if (context.retrievedPassages && context.retrievedPassages.length > 0) {
+      contextualPrompt += `\n${RetrievalIndex.formatPassages(context.retrievedPassages)}\n`;
+    }
+
+    contextualPrompt += `\nPrompt: ${rendered.user}\n\nResponse:`;
     
     return contextualPrompt;
   }
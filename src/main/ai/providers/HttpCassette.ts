@@ -0,0 +1,194 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// Drop-in replacement for fetch, used by providers for their HTTP calls
+export type HttpTransport = (url: string, init?: RequestInit) => Promise<Response>;
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: any;
+}
+
+export interface RecordedResponse {
+  status: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  // JSON bodies are stored parsed so cassettes stay readable; anything else as text
+  body?: any;
+  text?: string;
+  // Body sent in these pieces, for server-sent event streams
+  chunks?: string[];
+  // Wait before responding, for timeout tests
+  delayMs?: number;
+  // Fail the request instead of responding, e.g. 'ECONNRESET'
+  networkError?: string;
+}
+
+export interface CassetteInteraction {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+export interface CassetteFile {
+  recordedAt?: string;
+  interactions: CassetteInteraction[];
+}
+
+// Headers that carry credentials are never written to a cassette
+const SECRET_HEADER = /authorization|api-key|token|cookie/i;
+
+// Records provider HTTP traffic to a JSON cassette, or replays a cassette
+// without touching the network. Replay hands out interactions in recorded
+// order and fails on any request the cassette does not expect.
+//
+// Cassettes are re-recorded against the real APIs by running the tests with
+// SOYUME_CASSETTES=record and the provider API keys in the environment.
+export class HttpCassette {
+  readonly requests: RecordedRequest[] = [];
+  private position = 0;
+
+  constructor(
+    readonly file: string,
+    readonly mode: CassetteMode,
+    private interactions: CassetteInteraction[] = [],
+    private realFetch: HttpTransport = (url, init) => fetch(url, init)
+  ) {}
+
+  static async load(file: string, mode: CassetteMode = HttpCassette.modeFromEnv()): Promise<HttpCassette> {
+    if (mode === 'record') {
+      return new HttpCassette(file, mode);
+    }
+
+    let data: CassetteFile;
+    try {
+      data = JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Cannot replay cassette ${file}: ${(error as Error).message}`);
+    }
+    return new HttpCassette(file, mode, data.interactions || []);
+  }
+
+  static modeFromEnv(): CassetteMode {
+    return process.env.SOYUME_CASSETTES === 'record' ? 'record' : 'replay';
+  }
+
+  readonly fetch: HttpTransport = async (url, init = {}) => {
+    const request = HttpCassette.describeRequest(url, init);
+    this.requests.push(request);
+    return this.mode === 'record' ? this.record(request, url, init) : this.replay(request, init.signal);
+  };
+
+  // Interactions that were recorded but never requested
+  remaining(): CassetteInteraction[] {
+    return this.interactions.slice(this.position);
+  }
+
+  async save(): Promise<void> {
+    if (this.mode !== 'record') {
+      return;
+    }
+    const data: CassetteFile = { recordedAt: new Date().toISOString(), interactions: this.interactions };
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.writeFile(this.file, JSON.stringify(data, null, 2) + '\n');
+  }
+
+  private async record(request: RecordedRequest, url: string, init: RequestInit): Promise<Response> {
+    const response = await this.realFetch(url, init);
+    // Streams are buffered while recording; replay sends them back in chunks
+    const text = await response.text();
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (!SECRET_HEADER.test(name)) headers[name] = value;
+    });
+
+    const recorded: RecordedResponse = { status: response.status, statusText: response.statusText, headers };
+    if ((headers['content-type'] || '').includes('json')) {
+      recorded.body = HttpCassette.parseJSON(text);
+    } else if ((headers['content-type'] || '').includes('event-stream')) {
+      recorded.chunks = text.split(/(?<=\n\n)/);
+    } else {
+      recorded.text = text;
+    }
+    this.interactions.push({ request, response: recorded });
+
+    return new Response(text, { status: response.status, statusText: response.statusText, headers: response.headers });
+  }
+
+  private async replay(request: RecordedRequest, signal?: AbortSignal | null): Promise<Response> {
+    const interaction = this.interactions[this.position];
+    if (!interaction) {
+      throw new Error(`Cassette ${this.file} has no recorded response for ${request.method} ${request.url}`);
+    }
+    if (interaction.request.method !== request.method || interaction.request.url !== request.url) {
+      throw new Error(
+        `Cassette ${this.file} expected ${interaction.request.method} ${interaction.request.url} ` +
+        `but got ${request.method} ${request.url}`
+      );
+    }
+    this.position++;
+
+    const recorded = interaction.response;
+    if (recorded.delayMs) {
+      await HttpCassette.wait(recorded.delayMs, signal);
+    }
+    if (recorded.networkError) {
+      throw new TypeError(`fetch failed: ${recorded.networkError}`);
+    }
+
+    const init = { status: recorded.status, statusText: recorded.statusText || '', headers: recorded.headers || {} };
+    if (recorded.chunks) {
+      const encoder = new TextEncoder();
+      const chunks = recorded.chunks;
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+          controller.close();
+        }
+      });
+      return new Response(stream, init);
+    }
+    const body = recorded.text ?? (recorded.body !== undefined ? JSON.stringify(recorded.body) : null);
+    return new Response(body, init);
+  }
+
+  private static describeRequest(url: string, init: RequestInit): RecordedRequest {
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, name) => {
+      if (!SECRET_HEADER.test(name)) headers[name] = value;
+    });
+    return {
+      method: (init.method || 'GET').toUpperCase(),
+      url,
+      headers,
+      body: typeof init.body === 'string' ? HttpCassette.parseJSON(init.body) : undefined
+    };
+  }
+
+  private static parseJSON(text: string): any {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  // Resolves after ms, or rejects like fetch does when the signal aborts first
+  private static wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const abortError = () => Object.assign(new Error('The operation was aborted'), { name: 'AbortError' });
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(abortError());
+      }, { once: true });
+    });
+  }
+}
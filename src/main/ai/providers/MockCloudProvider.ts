@@ -3,6 +3,7 @@ import {
   AICapability, 
   ProviderConfig, 
   AIResponse, 
+  AIStreamChunk,
   StoryContext, 
   StoryAnalysis,
   CharacterTraits
@@ -99,6 +100,35 @@ export class MockCloudProvider implements AIProvider {
     };
   }
 
+  async *generateTextStream(prompt: string, context: StoryContext): AsyncGenerator<AIStreamChunk> {
+    this.ensureInitialized();
+    
+    const startTime = Date.now();
+    
+    // Cloud APIs start streaming quickly
+    await this.delay(200 + Math.random() * 200);
+    
+    const response = this.generateCloudResponse(prompt, context);
+    
+    // Emit one word at a time, keeping whitespace with the word that follows it
+    for (const piece of response.match(/\s*\S+/g) || []) {
+      await this.delay(10 + Math.random() * 20);
+      yield { content: piece, done: false };
+    }
+    
+    yield {
+      content: '',
+      done: true,
+      metadata: {
+        model: this.config.modelName || this.getDefaultModel(),
+        provider: this.name,
+        tokensUsed: Math.floor(response.length / 3.5),
+        responseTime: Date.now() - startTime,
+        finishReason: 'stop'
+      }
+    };
+  }
+
   async analyzeStory(content: string): Promise<StoryAnalysis> {
     this.ensureInitialized();
     
@@ -3,6 +3,7 @@ import {
   AICapability, 
   ProviderConfig, 
   AIResponse, 
+  AIStreamChunk,
   StoryContext, 
   StoryAnalysis,
   CharacterTraits,
@@ -114,6 +115,35 @@ export class MockCowriterProvider implements CowriterAI {
     };
   }
 
+  async *generateTextStream(prompt: string, context: StoryContext): AsyncGenerator<AIStreamChunk> {
+    this.ensureInitialized();
+    
+    const startTime = Date.now();
+    
+    // Simulate time to first token
+    await this.delay(300 + Math.random() * 200);
+    
+    const response = this.generateContextualResponse(prompt, context);
+    
+    // Emit one word at a time, keeping whitespace with the word that follows it
+    for (const piece of response.match(/\s*\S+/g) || []) {
+      await this.delay(10 + Math.random() * 20);
+      yield { content: piece, done: false };
+    }
+    
+    yield {
+      content: '',
+      done: true,
+      metadata: {
+        model: this.config.modelName || 'soyume-cowriter-v1',
+        provider: this.name,
+        tokensUsed: Math.floor(response.length / 4),
+        responseTime: Date.now() - startTime,
+        finishReason: 'stop'
+      }
+    };
+  }
+
   async analyzeStory(content: string): Promise<StoryAnalysis> {
     this.ensureInitialized();
     
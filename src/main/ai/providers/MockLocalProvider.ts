@@ -3,6 +3,7 @@ import {
   AICapability, 
   ProviderConfig, 
   AIResponse, 
+  AIStreamChunk,
   StoryContext, 
   StoryAnalysis,
   CharacterTraits
@@ -76,6 +77,35 @@ export class MockLocalProvider implements AIProvider {
     };
   }
 
+  async *generateTextStream(prompt: string, context: StoryContext): AsyncGenerator<AIStreamChunk> {
+    this.ensureInitialized();
+    
+    const startTime = Date.now();
+    
+    // Local models take longer to produce the first token
+    await this.delay(400 + Math.random() * 400);
+    
+    const response = this.generateLocalResponse(prompt, context);
+    
+    // Emit one word at a time, keeping whitespace with the word that follows it
+    for (const piece of response.match(/\s*\S+/g) || []) {
+      await this.delay(10 + Math.random() * 20);
+      yield { content: piece, done: false };
+    }
+    
+    yield {
+      content: '',
+      done: true,
+      metadata: {
+        model: this.config.modelName || 'llama2:7b',
+        provider: this.name,
+        tokensUsed: Math.floor(response.length / 4),
+        responseTime: Date.now() - startTime,
+        finishReason: 'stop'
+      }
+    };
+  }
+
   async analyzeStory(content: string): Promise<StoryAnalysis> {
     this.ensureInitialized();
     
@@ -0,0 +1,128 @@
+import { TextDecoder } from 'util';
+import { AIStreamChunk } from '../../../shared/types/AI';
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+// Parsers for the streaming response formats used by provider HTTP APIs
+export class StreamParser {
+  // Yields decoded text from a fetch response body as it arrives
+  static async *readText(body: any): AsyncGenerator<string> {
+    if (!body) {
+      throw new Error('Response has no body to stream');
+    }
+
+    const decoder = new TextDecoder();
+    for await (const chunk of body as AsyncIterable<Uint8Array | string>) {
+      yield typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    }
+
+    const rest = decoder.decode();
+    if (rest) yield rest;
+  }
+
+  // Yields complete lines, buffering partial lines across network chunks
+  static async *readLines(body: any): AsyncGenerator<string> {
+    let buffer = '';
+
+    for await (const text of StreamParser.readText(body)) {
+      buffer += text;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || '';
+      yield* lines;
+    }
+
+    if (buffer) yield buffer;
+  }
+
+  // Server-sent events as described in the HTML spec: "event:" and "data:"
+  // fields, comment lines starting with ":" and a blank line ending each event
+  static async *readEvents(body: any): AsyncGenerator<ServerSentEvent> {
+    let event: string | undefined;
+    let data: string[] = [];
+
+    for await (const line of StreamParser.readLines(body)) {
+      if (line === '') {
+        if (data.length > 0) {
+          yield { event, data: data.join('\n') };
+        }
+        event = undefined;
+        data = [];
+        continue;
+      }
+
+      if (line.startsWith(':')) continue;
+
+      const separator = line.indexOf(':');
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+      if (field === 'event') event = value;
+      else if (field === 'data') data.push(value);
+    }
+
+    if (data.length > 0) {
+      yield { event, data: data.join('\n') };
+    }
+  }
+
+  // Newline-delimited JSON with one object per line, as streamed by Ollama
+  static async *readJSONLines(body: any): AsyncGenerator<any> {
+    for await (const line of StreamParser.readLines(body)) {
+      if (!line.trim()) continue;
+
+      try {
+        yield JSON.parse(line);
+      } catch {
+        console.warn('Skipping malformed JSON stream line:', line);
+      }
+    }
+  }
+
+  // OpenAI chat completion chunks. Mistral, Moonshot and OpenRouter use the
+  // same format, so all of them share this parser.
+  static async *readChatCompletionChunks(body: any, provider: string): AsyncGenerator<AIStreamChunk> {
+    let model: string | undefined;
+    let finishReason: string | undefined;
+    let usage: any;
+
+    for await (const { data } of StreamParser.readEvents(body)) {
+      if (data === '[DONE]') break;
+
+      let payload: any;
+      try {
+        payload = JSON.parse(data);
+      } catch {
+        console.warn(`Skipping malformed ${provider} stream event:`, data);
+        continue;
+      }
+
+      if (payload.error) {
+        throw new Error(payload.error.message || `${provider} stream error`);
+      }
+
+      const choice = payload.choices?.[0];
+      model = payload.model || model;
+      finishReason = choice?.finish_reason || finishReason;
+      usage = payload.usage || choice?.usage || usage;
+
+      const content = choice?.delta?.content;
+      if (content) {
+        yield { content, done: false };
+      }
+    }
+
+    yield {
+      content: '',
+      done: true,
+      metadata: {
+        model,
+        provider,
+        tokensUsed: usage?.total_tokens,
+        finishReason
+      }
+    };
+  }
+}
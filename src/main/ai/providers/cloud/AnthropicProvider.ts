@@ -3,6 +3,7 @@ import {
   AICapability, 
   StoryContext, 
   AIResponse,
+  AIStreamChunk,
   StoryAnalysis,
   ProviderConfig,
   ProviderMetadata,
@@ -10,11 +11,19 @@ import {
 } from '../../../../shared/types/AI';
 import { Character } from '../../../../shared/types/Story';
 import { BaseProvider } from '../BaseProvider';
+import { RequestCancelledError, linkAbortSignal } from '../../RequestCancellation';
+import { RateLimitError } from '../../health/RateLimiter';
+import { StreamParser } from '../StreamParser';
+import { RetrievalIndex } from '../../retrieval/RetrievalIndex';
+import { PromptLibrary } from '../../prompts/PromptLibrary';
+import { StructuredOutput, StructuredOutputError } from '../../structured/StructuredOutput';
+import { STORY_ANALYSIS_OUTPUT } from '../../structured/AnalysisSchemas';
+import { ToolCalling } from '../../tools/ToolCalling';
 
 // Anthropic API interfaces
 interface AnthropicMessage {
   role: 'user' | 'assistant';
-  content: string;
+  content: string | any[]; // content blocks when tools are in use
 }
 
 interface AnthropicRequest {
@@ -26,6 +35,8 @@ interface AnthropicRequest {
   top_k?: number;
   system?: string;
   stream?: boolean;
+  tools?: any[];
+  tool_choice?: { type: 'auto' | 'none' };
 }
 
 interface AnthropicResponse {
@@ -33,11 +44,14 @@ interface AnthropicResponse {
   type: 'message';
   role: 'assistant';
   content: Array<{
-    type: 'text';
+    type: 'text' | 'tool_use';
     text: string;
+    id?: string; // tool_use blocks carry the call instead of text
+    name?: string;
+    input?: Record<string, any>;
   }>;
   model: string;
-  stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence';
+  stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use';
   stop_sequence?: string;
   usage: {
     input_tokens: number;
@@ -201,9 +215,10 @@ export class AnthropicProvider extends BaseProvider implements AIProvider {
     }
   }
 
-  protected async doGenerateText(prompt: string, context: StoryContext): Promise<AIResponse> {
+  protected async doGenerateText(prompt: string, context: StoryContext, signal?: AbortSignal): Promise<AIResponse> {
     try {
       const { systemMessage, messages } = this.buildMessages(prompt, context);
+      const tools = this.toolsFor(context);
       
       const request: AnthropicRequest = {
         model: this.model,
@@ -215,13 +230,33 @@ export class AnthropicProvider extends BaseProvider implements AIProvider {
         system: systemMessage
       };
 
-      const response = await this.makeRequest(request);
+      // With tools the model may look things up in the story before answering
+      const { response, responses, toolCalls } = tools.length > 0
+        ? await this.runToolLoop(messages, context, {
+          send: (conversation, final) => this.makeRequest({
+            ...request,
+            messages: conversation,
+            tools: ToolCalling.toAnthropic(tools),
+            tool_choice: { type: final ? 'none' : 'auto' }
+          }, signal),
+          toolCalls: reply => ToolCalling.fromAnthropic(reply.content),
+          followUp: (reply, results): AnthropicMessage[] => [
+            { role: 'assistant', content: reply.content },
+            ToolCalling.anthropicResults(results)
+          ]
+        }, signal)
+        : { response: await this.makeRequest(request, signal), responses: [], toolCalls: [] };
+      const usage = responses.length > 1 ? ToolCalling.totalUsage(responses.map(reply => reply.usage)) : response.usage;
       
       if (!response.content || response.content.length === 0) {
         throw this.createError('No response generated', 'EMPTY_RESPONSE');
       }
 
-      const content = response.content[0].text.trim();
+      const content = response.content
+        .filter(block => block.type === 'text')
+        .map(block => block.text)
+        .join('')
+        .trim();
 
       return {
         content,
@@ -229,79 +264,83 @@ export class AnthropicProvider extends BaseProvider implements AIProvider {
         metadata: {
           model: response.model,
           provider: this.name,
-          tokensUsed: response.usage.input_tokens + response.usage.output_tokens,
+          tokensUsed: usage.input_tokens + usage.output_tokens,
           responseTime: 0, // Will be set by base class
           stopReason: response.stop_reason,
-          inputTokens: response.usage.input_tokens,
-          outputTokens: response.usage.output_tokens
-        }
+          inputTokens: usage.input_tokens,
+          outputTokens: usage.output_tokens
+        },
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined
       };
     } catch (error) {
       throw this.handleAPIError(error);
     }
   }
 
-  protected async doAnalyzeStory(content: string): Promise<StoryAnalysis> {
+  // Streams tokens using the Messages API server-sent events
+  async *generateTextStream(prompt: string, context: StoryContext, signal?: AbortSignal): AsyncGenerator<AIStreamChunk> {
     try {
-      const analysisPrompt = this.buildStoryAnalysisPrompt(content);
-      const systemMessage = `You are a literary expert and story analyst with deep knowledge of narrative structure, character development, and storytelling craft. 
-      
-Analyze stories with attention to:
-- Narrative structure and pacing
-- Character development and consistency
-- Thematic elements and symbolism
-- Literary techniques and style
-- Plot coherence and logic
-- Emotional resonance and impact
-
-Provide detailed, constructive feedback that helps writers improve their craft.`;
+      const { systemMessage, messages } = this.buildMessages(prompt, context);
 
       const request: AnthropicRequest = {
         model: this.model,
-        max_tokens: 3000,
-        messages: [{ role: 'user', content: analysisPrompt }],
-        temperature: 0.3, // Lower temperature for analysis
-        system: systemMessage
+        max_tokens: this.maxTokens,
+        messages,
+        temperature: this.temperature,
+        top_p: this.topP,
+        top_k: this.topK,
+        system: systemMessage,
+        stream: true
       };
 
-      const response = await this.makeRequest(request);
-      const analysisText = response.content[0].text;
-
-      // Try to parse as JSON, fallback to structured analysis
-      try {
-        return JSON.parse(analysisText);
-      } catch {
-        return this.parseAnalysisFromText(analysisText);
-      }
+      const response = await this.sendRequest(request, signal);
+      yield* this.readMessageStream(response.body);
     } catch (error) {
       throw this.handleAPIError(error);
     }
   }
 
-  protected async doGenerateCharacter(traits: any): Promise<Character> {
+  protected async doAnalyzeStory(content: string, signal?: AbortSignal): Promise<StoryAnalysis> {
     try {
-      const characterPrompt = this.buildCharacterPrompt(traits);
-      const systemMessage = `You are a character development expert specializing in creating psychologically complex, three-dimensional characters.
-
-Focus on:
-- Psychological depth and internal consistency
-- Realistic motivations and conflicts
-- Unique voice and personality
-- Character growth potential
-- Authentic human flaws and strengths
-- Compelling backstory elements
+      const analysisPrompt = PromptLibrary.render('story_analysis', { content }, this);
+      const systemMessage = analysisPrompt.system;
+      const messages: AnthropicMessage[] = [
+        { role: 'user', content: `${analysisPrompt.user}\n\n${StructuredOutput.instructions(STORY_ANALYSIS_OUTPUT)}` }
+      ];
+
+      return await StructuredOutput.generate<StoryAnalysis>(STORY_ANALYSIS_OUTPUT, async retry => {
+        // There is no JSON mode, so the reply is started with an opening brace instead
+        const request: AnthropicRequest = {
+          model: this.model,
+          max_tokens: 3000,
+          messages: [...StructuredOutput.conversation(messages, retry), { role: 'assistant', content: '{' }],
+          temperature: 0.3, // Lower temperature for analysis
+          system: systemMessage
+        };
+
+        const response = await this.makeRequest(request, signal);
+        const analysisText = response.content[0].text;
+        return analysisText.trimStart().startsWith('{') ? analysisText : `{${analysisText}`;
+      }, { signal });
+    } catch (error) {
+      throw this.handleAPIError(error);
+    }
+  }
 
-Create characters that feel like real people with rich inner lives.`;
+  protected async doGenerateCharacter(traits: any, signal?: AbortSignal): Promise<Character> {
+    try {
+      const characterPrompt = PromptLibrary.render('character_analysis', { traits: JSON.stringify(traits) }, this);
+      const systemMessage = characterPrompt.system;
 
       const request: AnthropicRequest = {
         model: this.model,
         max_tokens: 1500,
-        messages: [{ role: 'user', content: characterPrompt }],
+        messages: [{ role: 'user', content: characterPrompt.user }],
         temperature: 0.8, // Higher temperature for creativity
         system: systemMessage
       };
 
-      const response = await this.makeRequest(request);
+      const response = await this.makeRequest(request, signal);
       const characterText = response.content[0].text;
 
       // Try to parse as JSON, fallback to structured character
@@ -318,45 +357,31 @@ Create characters that feel like real people with rich inner lives.`;
 
   // Private helper methods
   private buildMessages(prompt: string, context: StoryContext): { systemMessage: string; messages: AnthropicMessage[] } {
-    const systemMessage = this.buildSystemMessage(context);
+    // System message and prompt come from the template for this request type
+    const rendered = PromptLibrary.render(context.requestType || 'prose_generation', { ...PromptLibrary.variablesFromContext(context), prompt }, this);
+    const systemMessage = rendered.system;
     const messages: AnthropicMessage[] = [];
 
-    // Add character context if available
-    if (context.characters && context.characters.length > 0) {
+    // Add the assembled story context, or character context when there is none
+    if (context.assembledContext?.text) {
+      messages.push({ role: 'user', content: `Story context:\n${context.assembledContext.text}` });
+      messages.push({ role: 'assistant', content: 'I have read the story context. How can I help with your creative writing?' });
+    } else if (context.characters && context.characters.length > 0) {
       const characterContext = this.buildCharacterContext(context.characters);
       messages.push({ role: 'user', content: `Character context: ${characterContext}` });
       messages.push({ role: 'assistant', content: 'I understand the character context. How can I help with your creative writing?' });
     }
 
-    // Main prompt
-    messages.push({ role: 'user', content: prompt });
-
-    return { systemMessage, messages };
-  }
-
-  private buildSystemMessage(context: StoryContext): string {
-    let systemMessage = `You are Claude, an AI assistant created by Anthropic to be helpful, harmless, and honest. You specialize in creative writing and storytelling.
-
-You are thoughtful, nuanced, and provide high-quality creative assistance. You understand narrative craft, character development, and literary techniques.`;
-
-    if (context.genre && context.genre.length > 0) {
-      systemMessage += ` You are currently working with ${context.genre.join(' and ')} genre(s), and you understand the conventions and expectations of these genres.`;
-    }
-
-    if (context.targetAudience) {
-      systemMessage += ` The target audience is ${context.targetAudience}, so adjust your language and content appropriately.`;
+    // Passages retrieved from elsewhere in the manuscript, numbered for citation
+    if (context.retrievedPassages && context.retrievedPassages.length > 0) {
+      messages.push({ role: 'user', content: RetrievalIndex.formatPassages(context.retrievedPassages) });
+      messages.push({ role: 'assistant', content: 'I have read the passages and will refer to them by number where relevant.' });
     }
 
-    systemMessage += `
-
-Provide creative, engaging, and well-crafted responses that:
-- Maintain consistency with established story elements
-- Show deep understanding of character psychology
-- Demonstrate knowledge of literary techniques
-- Offer constructive and specific feedback
-- Respect the creative vision while suggesting improvements`;
+    // Main prompt
+    messages.push({ role: 'user', content: rendered.user });
 
-    return systemMessage;
+    return { systemMessage, messages };
   }
 
   private buildCharacterContext(characters: Character[]): string {
@@ -367,113 +392,19 @@ Provide creative, engaging, and well-crafted responses that:
     }).join('\n');
   }
 
-  private buildStoryAnalysisPrompt(content: string): string {
-    return `Please provide a comprehensive literary analysis of the following story. I need the analysis in JSON format with this exact structure:
-
-{
-  "structure": {
-    "identifiedStructure": "three-act|hero-journey|save-the-cat|kishōtenketsu|other",
-    "completedBeats": ["list of completed story beats"],
-    "missingBeats": ["list of missing story beats"],
-    "suggestions": ["specific suggestions for structural improvement"],
-    "confidence": 0.0-1.0
-  },
-  "characters": {
-    "consistencyScore": 0.0-1.0,
-    "voiceConsistency": 0.0-1.0,
-    "developmentProgress": 0.0-1.0,
-    "relationshipHealth": ["analysis of character relationships"],
-    "suggestions": ["specific character development suggestions"]
-  },
-  "pacing": {
-    "overallPacing": "too-fast|good|too-slow",
-    "tensionCurve": ["description of how tension builds and releases"],
-    "recommendations": ["specific pacing recommendations"]
-  },
-  "consistency": {
-    "overallScore": 0.0-1.0,
-    "plotHoles": ["identified logical inconsistencies"],
-    "characterInconsistencies": ["character behavior inconsistencies"],
-    "worldBuildingIssues": ["world-building problems"]
-  },
-  "literaryElements": {
-    "themes": ["identified themes"],
-    "symbolism": ["symbolic elements"],
-    "style": "description of writing style",
-    "tone": "description of tone",
-    "pointOfView": "first-person|third-person-limited|third-person-omniscient|other"
-  },
-  "overallScore": 0.0-1.0,
-  "recommendations": ["prioritized list of overall recommendations"]
-}
-
-Please analyze this story with attention to literary craft, narrative structure, character development, and thematic depth:
-
-${content}`;
+  private async makeRequest(request: AnthropicRequest, signal?: AbortSignal): Promise<AnthropicResponse> {
+    const response = await this.sendRequest(request, signal);
+    return await response.json();
   }
 
-  private buildCharacterPrompt(traits: any): string {
-    return `Create a psychologically complex character based on these traits: ${JSON.stringify(traits)}
-
-Please return a detailed character profile in JSON format with this structure:
-
-{
-  "id": "unique-character-id",
-  "name": "character name",
-  "archetype": {
-    "primary": "hero|mentor|villain|ally|trickster|threshold-guardian|shapeshifter|shadow|other",
-    "description": "detailed archetype description",
-    "commonTraits": ["traits typical of this archetype"]
-  },
-  "traits": {
-    "personality": ["detailed personality traits"],
-    "motivations": ["deep psychological motivations"],
-    "fears": ["specific fears and anxieties"],
-    "strengths": ["character strengths and abilities"],
-    "weaknesses": ["realistic flaws and limitations"],
-    "quirks": ["unique mannerisms and habits"],
-    "values": ["core values and beliefs"],
-    "secrets": ["hidden aspects of character"]
-  },
-  "background": {
-    "childhood": "formative childhood experiences",
-    "education": "educational background",
-    "relationships": "key relationships that shaped them",
-    "trauma": "significant traumatic events",
-    "achievements": "major accomplishments"
-  },
-  "relationships": [],
-  "developmentArc": {
-    "startState": "character's initial psychological state",
-    "endState": "potential final psychological state",
-    "keyMoments": ["crucial moments for character growth"],
-    "internalConflict": "primary internal struggle",
-    "completed": false
-  },
-  "voiceProfile": {
-    "vocabulary": ["characteristic words and phrases"],
-    "speechPatterns": ["how they structure sentences"],
-    "commonPhrases": ["phrases they use frequently"],
-    "formalityLevel": 1-10,
-    "emotionalRange": ["how they express different emotions"],
-    "dialectMarkers": ["regional or social speech markers"]
-  },
-  "physicalDescription": {
-    "appearance": "physical description",
-    "mannerisms": "physical habits and gestures",
-    "clothing": "typical clothing style"
-  }
-}
-
-Focus on creating a character with psychological depth, internal consistency, and realistic complexity.`;
-  }
-
-  private async makeRequest(request: AnthropicRequest): Promise<AnthropicResponse> {
+  private async sendRequest(request: AnthropicRequest, signal?: AbortSignal): Promise<Response> {
+    await this.waitForRateLimit(request, signal);
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
+    linkAbortSignal(controller, signal);
 
     try {
-      const response = await fetch(`${this.baseURL}/messages`, {
+      const response = await this.httpFetch(`${this.baseURL}/messages`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -486,6 +417,7 @@ Focus on creating a character with psychological depth, internal consistency, an
       });
 
       clearTimeout(timeoutId);
+      this.checkRateLimit(response);
 
       if (!response.ok) {
         const errorData: { error: AnthropicError } = await response.json();
@@ -496,10 +428,13 @@ Focus on creating a character with psychological depth, internal consistency, an
         );
       }
 
-      return await response.json();
+      return response;
     } catch (error) {
       clearTimeout(timeoutId);
       
+      if (signal?.aborted) {
+        throw new RequestCancelledError();
+      }
       if (error instanceof Error && error.name === 'AbortError') {
         throw this.createError('Request timeout', 'TIMEOUT');
       }
@@ -508,7 +443,50 @@ Focus on creating a character with psychological depth, internal consistency, an
     }
   }
 
+  // Messages API stream events: text arrives in content_block_delta events,
+  // token usage in message_start and message_delta
+  private async *readMessageStream(body: any): AsyncGenerator<AIStreamChunk> {
+    let model: string | undefined;
+    let stopReason: string | undefined;
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const { event, data } of StreamParser.readEvents(body)) {
+      const payload = JSON.parse(data);
+      const type = event || payload.type;
+
+      if (type === 'error') {
+        throw new Error(payload.error?.message || 'Anthropic stream error');
+      } else if (type === 'message_start') {
+        model = payload.message?.model;
+        inputTokens = payload.message?.usage?.input_tokens || 0;
+      } else if (type === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+        yield { content: payload.delta.text, done: false };
+      } else if (type === 'message_delta') {
+        stopReason = payload.delta?.stop_reason || stopReason;
+        outputTokens = payload.usage?.output_tokens || outputTokens;
+      } else if (type === 'message_stop') {
+        break;
+      }
+    }
+
+    yield {
+      content: '',
+      done: true,
+      metadata: {
+        model,
+        provider: this.name,
+        tokensUsed: inputTokens + outputTokens,
+        finishReason: stopReason
+      }
+    };
+  }
+
   private handleAPIError(error: any): Error {
+    if (error instanceof RequestCancelledError || error instanceof StructuredOutputError || error instanceof RateLimitError) {
+      return error;
+    }
+
     if (error.code) {
       // Already a structured error
       return error;
@@ -577,58 +555,6 @@ Focus on creating a character with psychological depth, internal consistency, an
     return contextWindows[model] || 100000;
   }
 
-  private parseAnalysisFromText(text: string): StoryAnalysis {
-    // Enhanced fallback parsing for Claude's detailed responses
-    const analysis: StoryAnalysis = {
-      structure: {
-        identifiedStructure: 'unknown',
-        completedBeats: [],
-        missingBeats: [],
-        suggestions: [],
-        confidence: 0.6
-      },
-      characters: {
-        consistencyScore: 0.6,
-        voiceConsistency: 0.6,
-        developmentProgress: 0.6,
-        relationshipHealth: [],
-        suggestions: []
-      },
-      pacing: {
-        overallPacing: 'good',
-        tensionCurve: [],
-        recommendations: []
-      },
-      consistency: {
-        overallScore: 0.6,
-        plotHoles: [],
-        characterInconsistencies: [],
-        worldBuildingIssues: []
-      },
-      overallScore: 0.6,
-      recommendations: []
-    };
-
-    // Try to extract insights from the text
-    const lines = text.split('\n').filter(line => line.trim());
-    
-    for (const line of lines) {
-      const lowerLine = line.toLowerCase();
-      
-      if (lowerLine.includes('structure') || lowerLine.includes('plot')) {
-        analysis.structure.suggestions.push(line.trim());
-      } else if (lowerLine.includes('character')) {
-        analysis.characters.suggestions.push(line.trim());
-      } else if (lowerLine.includes('pacing') || lowerLine.includes('pace')) {
-        analysis.pacing.recommendations.push(line.trim());
-      } else if (lowerLine.includes('recommend') || lowerLine.includes('suggest')) {
-        analysis.recommendations.push(line.trim());
-      }
-    }
-
-    return analysis;
-  }
-
   private normalizeCharacter(data: any, originalTraits: any): Character {
     return {
       id: data.id || `char-${Date.now()}`,
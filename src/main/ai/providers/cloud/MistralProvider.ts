@@ -3,6 +3,7 @@ import {
   AICapability, 
   StoryContext, 
   AIResponse,
+  AIStreamChunk,
   StoryAnalysis,
   ProviderConfig,
   ProviderMetadata,
@@ -10,11 +11,22 @@ import {
 } from '../../../../shared/types/AI';
 import { Character } from '../../../../shared/types/Story';
 import { BaseProvider } from '../BaseProvider';
+import { RequestCancelledError, linkAbortSignal } from '../../RequestCancellation';
+import { RateLimitError } from '../../health/RateLimiter';
+import { StreamParser } from '../StreamParser';
+import { RetrievalIndex } from '../../retrieval/RetrievalIndex';
+import { PromptLibrary } from '../../prompts/PromptLibrary';
+import { StructuredOutput, StructuredOutputError } from '../../structured/StructuredOutput';
+import { STORY_ANALYSIS_OUTPUT } from '../../structured/AnalysisSchemas';
+import { ToolCalling } from '../../tools/ToolCalling';
 
 // Mistral API interfaces
 interface MistralMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+  tool_call_id?: string;
+  name?: string;
 }
 
 interface MistralRequest {
@@ -26,6 +38,9 @@ interface MistralRequest {
   random_seed?: number;
   stream?: boolean;
   safe_prompt?: boolean;
+  response_format?: { type: 'json_object' };
+  tools?: any[];
+  tool_choice?: 'auto' | 'none';
 }
 
 interface MistralResponse {
@@ -38,6 +53,7 @@ interface MistralResponse {
     message: {
       role: 'assistant';
       content: string;
+      tool_calls?: MistralMessage['tool_calls'];
     };
     finish_reason: 'stop' | 'length' | 'model_length';
   }>;
@@ -206,9 +222,10 @@ export class MistralProvider extends BaseProvider implements AIProvider {
     }
   }
 
-  protected async doGenerateText(prompt: string, context: StoryContext): Promise<AIResponse> {
+  protected async doGenerateText(prompt: string, context: StoryContext, signal?: AbortSignal): Promise<AIResponse> {
     try {
       const messages = this.buildMessages(prompt, context);
+      const tools = this.toolsFor(context);
       
       const request: MistralRequest = {
         model: this.model,
@@ -219,14 +236,30 @@ export class MistralProvider extends BaseProvider implements AIProvider {
         safe_prompt: this.safePrompt
       };
 
-      const response = await this.makeRequest(request);
+      // With tools the model may look things up in the story before answering
+      const { response, responses, toolCalls } = tools.length > 0
+        ? await this.runToolLoop(messages, context, {
+          send: (conversation, final) => this.makeRequest({
+            ...request,
+            messages: conversation,
+            tools: ToolCalling.toOpenAI(tools),
+            tool_choice: final ? 'none' : 'auto'
+          }, signal),
+          toolCalls: reply => ToolCalling.fromOpenAI(reply.choices?.[0]?.message.tool_calls),
+          followUp: (reply, results): MistralMessage[] => [
+            { role: 'assistant', content: reply.choices[0].message.content, tool_calls: reply.choices[0].message.tool_calls },
+            ...ToolCalling.openAIResults(results)
+          ]
+        }, signal)
+        : { response: await this.makeRequest(request, signal), responses: [], toolCalls: [] };
+      const usage = responses.length > 1 ? ToolCalling.totalUsage(responses.map(reply => reply.usage)) : response.usage;
       
       if (!response.choices || response.choices.length === 0) {
         throw this.createError('No response generated', 'EMPTY_RESPONSE');
       }
 
       const choice = response.choices[0];
-      const content = choice.message.content.trim();
+      const content = (choice.message.content || '').trim();
 
       return {
         content,
@@ -234,66 +267,85 @@ export class MistralProvider extends BaseProvider implements AIProvider {
         metadata: {
           model: response.model,
           provider: this.name,
-          tokensUsed: response.usage.total_tokens,
+          tokensUsed: usage.total_tokens,
           responseTime: 0, // Will be set by base class
           finishReason: choice.finish_reason,
-          promptTokens: response.usage.prompt_tokens,
-          completionTokens: response.usage.completion_tokens,
+          promptTokens: usage.prompt_tokens,
+          completionTokens: usage.completion_tokens,
           safePrompt: this.safePrompt
-        }
+        },
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined
       };
     } catch (error) {
       throw this.handleAPIError(error);
     }
   }
 
-  protected async doAnalyzeStory(content: string): Promise<StoryAnalysis> {
+  // Streams tokens using the chat completions server-sent events API
+  async *generateTextStream(prompt: string, context: StoryContext, signal?: AbortSignal): AsyncGenerator<AIStreamChunk> {
     try {
-      const analysisPrompt = this.buildStoryAnalysisPrompt(content);
+      const messages = this.buildMessages(prompt, context);
+
+      const request: MistralRequest = {
+        model: this.model,
+        messages,
+        max_tokens: this.maxTokens,
+        temperature: this.temperature,
+        top_p: this.topP,
+        safe_prompt: this.safePrompt,
+        stream: true
+      };
+
+      const response = await this.sendRequest(request, signal);
+      yield* StreamParser.readChatCompletionChunks(response.body, this.name);
+    } catch (error) {
+      throw this.handleAPIError(error);
+    }
+  }
+
+  protected async doAnalyzeStory(content: string, signal?: AbortSignal): Promise<StoryAnalysis> {
+    try {
+      const analysisPrompt = PromptLibrary.render('story_analysis', { content }, this);
       const messages: MistralMessage[] = [
         {
           role: 'system',
-          content: 'You are an expert literary analyst. Analyze the provided story and return a detailed JSON analysis focusing on narrative structure, character development, and storytelling craft.'
+          content: analysisPrompt.system
         },
         {
           role: 'user',
-          content: analysisPrompt
+          content: `${analysisPrompt.user}\n\n${StructuredOutput.instructions(STORY_ANALYSIS_OUTPUT)}`
         }
       ];
 
-      const request: MistralRequest = {
-        model: this.model,
-        messages,
-        max_tokens: 2048,
-        temperature: 0.3, // Lower temperature for analysis
-        safe_prompt: this.safePrompt
-      };
-
-      const response = await this.makeRequest(request);
-      const analysisText = response.choices[0].message.content;
-
-      // Try to parse as JSON, fallback to structured analysis
-      try {
-        return JSON.parse(analysisText);
-      } catch {
-        return this.parseAnalysisFromText(analysisText);
-      }
+      return await StructuredOutput.generate<StoryAnalysis>(STORY_ANALYSIS_OUTPUT, async retry => {
+        const request: MistralRequest = {
+          model: this.model,
+          messages: StructuredOutput.conversation(messages, retry),
+          max_tokens: 2048,
+          temperature: 0.3, // Lower temperature for analysis
+          safe_prompt: this.safePrompt,
+          response_format: { type: 'json_object' }
+        };
+
+        const response = await this.makeRequest(request, signal);
+        return response.choices[0].message.content;
+      }, { signal });
     } catch (error) {
       throw this.handleAPIError(error);
     }
   }
 
-  protected async doGenerateCharacter(traits: any): Promise<Character> {
+  protected async doGenerateCharacter(traits: any, signal?: AbortSignal): Promise<Character> {
     try {
-      const characterPrompt = this.buildCharacterPrompt(traits);
+      const characterPrompt = PromptLibrary.render('character_analysis', { traits: JSON.stringify(traits) }, this);
       const messages: MistralMessage[] = [
         {
           role: 'system',
-          content: 'You are a character development expert. Create a detailed, psychologically consistent character based on the provided traits. Return the result as JSON.'
+          content: characterPrompt.system
         },
         {
           role: 'user',
-          content: characterPrompt
+          content: characterPrompt.user
         }
       ];
 
@@ -305,7 +357,7 @@ export class MistralProvider extends BaseProvider implements AIProvider {
         safe_prompt: this.safePrompt
       };
 
-      const response = await this.makeRequest(request);
+      const response = await this.makeRequest(request, signal);
       const characterText = response.choices[0].message.content;
 
       // Try to parse as JSON, fallback to structured character
@@ -324,37 +376,27 @@ export class MistralProvider extends BaseProvider implements AIProvider {
   private buildMessages(prompt: string, context: StoryContext): MistralMessage[] {
     const messages: MistralMessage[] = [];
 
-    // System message with context
-    const systemMessage = this.buildSystemMessage(context);
-    messages.push({ role: 'system', content: systemMessage });
+    // System message and prompt come from the template for this request type
+    const rendered = PromptLibrary.render(context.requestType || 'prose_generation', { ...PromptLibrary.variablesFromContext(context), prompt }, this);
+    messages.push({ role: 'system', content: rendered.system });
 
-    // Add character context if available
-    if (context.characters && context.characters.length > 0) {
+    // Add the assembled story context, or character context when there is none
+    if (context.assembledContext?.text) {
+      messages.push({ role: 'user', content: `Story context:\n${context.assembledContext.text}` });
+    } else if (context.characters && context.characters.length > 0) {
       const characterContext = this.buildCharacterContext(context.characters);
       messages.push({ role: 'user', content: `Character context: ${characterContext}` });
     }
 
-    // Main prompt
-    messages.push({ role: 'user', content: prompt });
-
-    return messages;
-  }
-
-  private buildSystemMessage(context: StoryContext): string {
-    let systemMessage = 'You are a creative writing assistant specializing in storytelling, narrative craft, and character development.';
-
-    if (context.genre && context.genre.length > 0) {
-      systemMessage += ` You are working with ${context.genre.join(' and ')} genre(s).`;
-    }
-
-    if (context.targetAudience) {
-      systemMessage += ` The target audience is ${context.targetAudience}.`;
+    // Passages retrieved from elsewhere in the manuscript, numbered for citation
+    if (context.retrievedPassages && context.retrievedPassages.length > 0) {
+      messages.push({ role: 'user', content: RetrievalIndex.formatPassages(context.retrievedPassages) });
     }
 
-    // Add multilingual support note
-    systemMessage += ' You can work in multiple languages and understand cultural nuances. Provide creative, engaging, and well-crafted responses that maintain consistency with the established story elements.';
+    // Main prompt
+    messages.push({ role: 'user', content: rendered.user });
 
-    return systemMessage;
+    return messages;
   }
 
   private buildCharacterContext(characters: Character[]): string {
@@ -363,97 +405,19 @@ export class MistralProvider extends BaseProvider implements AIProvider {
     ).join('; ');
   }
 
-  private buildStoryAnalysisPrompt(content: string): string {
-    return `Please analyze the following story and provide a comprehensive analysis in JSON format. Focus on European literary traditions and narrative techniques.
-
-Required JSON structure:
-{
-  "structure": {
-    "identifiedStructure": "three-act|hero-journey|save-the-cat|freytag-pyramid|other",
-    "completedBeats": ["list of completed story beats"],
-    "missingBeats": ["list of missing story beats"],
-    "suggestions": ["suggestions for improvement"],
-    "confidence": 0.0-1.0
-  },
-  "characters": {
-    "consistencyScore": 0.0-1.0,
-    "voiceConsistency": 0.0-1.0,
-    "developmentProgress": 0.0-1.0,
-    "relationshipHealth": ["relationship analysis"],
-    "suggestions": ["character improvement suggestions"]
-  },
-  "pacing": {
-    "overallPacing": "too-fast|good|too-slow",
-    "tensionCurve": ["description of tension progression"],
-    "recommendations": ["pacing recommendations"]
-  },
-  "consistency": {
-    "overallScore": 0.0-1.0,
-    "plotHoles": ["identified plot holes"],
-    "characterInconsistencies": ["character inconsistencies"],
-    "worldBuildingIssues": ["world building issues"]
-  },
-  "style": {
-    "writingStyle": "description of writing style",
-    "tone": "description of tone",
-    "literaryDevices": ["identified literary devices"],
-    "culturalElements": ["cultural references and elements"]
-  },
-  "overallScore": 0.0-1.0,
-  "recommendations": ["overall recommendations"]
-}
-
-Story to analyze:
-${content}`;
-  }
-
-  private buildCharacterPrompt(traits: any): string {
-    return `Create a detailed character based on these traits: ${JSON.stringify(traits)}
-
-Please return a JSON object with this structure:
-{
-  "id": "unique-id",
-  "name": "character name",
-  "archetype": {
-    "primary": "hero|mentor|villain|ally|trickster|other",
-    "description": "archetype description",
-    "commonTraits": ["list of common traits"]
-  },
-  "traits": {
-    "personality": ["personality traits"],
-    "motivations": ["character motivations"],
-    "fears": ["character fears"],
-    "strengths": ["character strengths"],
-    "weaknesses": ["character weaknesses"],
-    "quirks": ["unique quirks"],
-    "culturalBackground": "cultural background if relevant"
-  },
-  "relationships": [],
-  "developmentArc": {
-    "startState": "initial character state",
-    "endState": "final character state",
-    "keyMoments": ["key development moments"],
-    "completed": false
-  },
-  "voiceProfile": {
-    "vocabulary": ["typical words/phrases"],
-    "speechPatterns": ["speech patterns"],
-    "commonPhrases": ["common phrases"],
-    "formalityLevel": 1-10,
-    "emotionalRange": ["emotional expressions"],
-    "languageStyle": "description of how they speak"
-  }
-}
-
-Focus on creating a character with psychological depth and cultural authenticity.`;
+  private async makeRequest(request: MistralRequest, signal?: AbortSignal): Promise<MistralResponse> {
+    const response = await this.sendRequest(request, signal);
+    return await response.json();
   }
 
-  private async makeRequest(request: MistralRequest): Promise<MistralResponse> {
+  private async sendRequest(request: MistralRequest, signal?: AbortSignal): Promise<Response> {
+    await this.waitForRateLimit(request, signal);
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
+    linkAbortSignal(controller, signal);
 
     try {
-      const response = await fetch(`${this.baseURL}/chat/completions`, {
+      const response = await this.httpFetch(`${this.baseURL}/chat/completions`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -465,20 +429,26 @@ Focus on creating a character with psychological depth and cultural authenticity
       });
 
       clearTimeout(timeoutId);
+      this.checkRateLimit(response);
 
       if (!response.ok) {
-        const errorData: { error: MistralError } = await response.json();
+        // Mistral sends the error fields at the top level, not under "error"
+        const errorData: { error?: MistralError } & Partial<MistralError> = await response.json();
+        const error = errorData.error || errorData;
         throw this.createError(
-          errorData.error.message,
-          errorData.error.code || 'API_ERROR',
-          { status: response.status, type: errorData.error.type }
+          error.message || `HTTP ${response.status}`,
+          error.code || 'API_ERROR',
+          { status: response.status, type: error.type }
         );
       }
 
-      return await response.json();
+      return response;
     } catch (error) {
       clearTimeout(timeoutId);
       
+      if (signal?.aborted) {
+        throw new RequestCancelledError();
+      }
       if (error instanceof Error && error.name === 'AbortError') {
         throw this.createError('Request timeout', 'TIMEOUT');
       }
@@ -488,6 +458,10 @@ Focus on creating a character with psychological depth and cultural authenticity
   }
 
   private handleAPIError(error: any): Error {
+    if (error instanceof RequestCancelledError || error instanceof StructuredOutputError || error instanceof RateLimitError) {
+      return error;
+    }
+
     if (error.code) {
       return error;
     }
@@ -553,37 +527,6 @@ Focus on creating a character with psychological depth and cultural authenticity
     return contextWindows[model] || 32768;
   }
 
-  private parseAnalysisFromText(text: string): StoryAnalysis {
-    return {
-      structure: {
-        identifiedStructure: 'unknown',
-        completedBeats: [],
-        missingBeats: [],
-        suggestions: [text.substring(0, 200) + '...'],
-        confidence: 0.5
-      },
-      characters: {
-        consistencyScore: 0.5,
-        voiceConsistency: 0.5,
-        developmentProgress: 0.5,
-        relationshipHealth: [],
-        suggestions: []
-      },
-      pacing: {
-        overallPacing: 'good',
-        tensionCurve: [],
-        recommendations: []
-      },
-      consistency: {
-        overallScore: 0.5,
-        plotHoles: [],
-        characterInconsistencies: [],
-        worldBuildingIssues: []
-      },
-      overallScore: 0.5,
-      recommendations: ['Analysis could not be fully parsed. Please try again.']
-    };
-  }
 
   private normalizeCharacter(data: any, originalTraits: any): Character {
     return {
@@ -3,6 +3,7 @@ import {
   AICapability, 
   StoryContext, 
   AIResponse,
+  AIStreamChunk,
   StoryAnalysis,
   ProviderConfig,
   ProviderMetadata,
@@ -10,6 +11,13 @@ import {
 } from '../../../../shared/types/AI';
 import { Character } from '../../../../shared/types/Story';
 import { BaseProvider } from '../BaseProvider';
+import { RequestCancelledError, linkAbortSignal } from '../../RequestCancellation';
+import { RateLimitError } from '../../health/RateLimiter';
+import { StreamParser } from '../StreamParser';
+import { RetrievalIndex } from '../../retrieval/RetrievalIndex';
+import { PromptLibrary } from '../../prompts/PromptLibrary';
+import { StructuredOutput, StructuredOutputError } from '../../structured/StructuredOutput';
+import { STORY_ANALYSIS_OUTPUT } from '../../structured/AnalysisSchemas';
 
 // Moonshot API interfaces (KIMI K2)
 interface MoonshotMessage {
@@ -26,6 +34,7 @@ interface MoonshotRequest {
   stream?: boolean;
   presence_penalty?: number;
   frequency_penalty?: number;
+  response_format?: { type: 'json_object' };
 }
 
 interface MoonshotResponse {
@@ -225,7 +234,7 @@ export class MoonshotProvider extends BaseProvider implements AIProvider {
     }
   }
 
-  protected async doGenerateText(prompt: string, context: StoryContext): Promise<AIResponse> {
+  protected async doGenerateText(prompt: string, context: StoryContext, signal?: AbortSignal): Promise<AIResponse> {
     try {
       const messages = this.buildMessages(prompt, context);
       
@@ -239,7 +248,7 @@ export class MoonshotProvider extends BaseProvider implements AIProvider {
         frequency_penalty: this.frequencyPenalty
       };
 
-      const response = await this.makeRequest(request);
+      const response = await this.makeRequest(request, signal);
       
       if (!response.choices || response.choices.length === 0) {
         throw this.createError('No response generated', 'EMPTY_RESPONSE');
@@ -267,52 +276,71 @@ export class MoonshotProvider extends BaseProvider implements AIProvider {
     }
   }
 
-  protected async doAnalyzeStory(content: string): Promise<StoryAnalysis> {
+  // Streams tokens using the chat completions server-sent events API
+  async *generateTextStream(prompt: string, context: StoryContext, signal?: AbortSignal): AsyncGenerator<AIStreamChunk> {
     try {
-      const analysisPrompt = this.buildStoryAnalysisPrompt(content);
+      const messages = this.buildMessages(prompt, context);
+
+      const request: MoonshotRequest = {
+        model: this.model,
+        messages,
+        max_tokens: this.maxTokens,
+        temperature: this.temperature,
+        top_p: this.topP,
+        presence_penalty: this.presencePenalty,
+        frequency_penalty: this.frequencyPenalty,
+        stream: true
+      };
+
+      const response = await this.sendRequest(request, signal);
+      yield* StreamParser.readChatCompletionChunks(response.body, this.name);
+    } catch (error) {
+      throw this.handleAPIError(error);
+    }
+  }
+
+  protected async doAnalyzeStory(content: string, signal?: AbortSignal): Promise<StoryAnalysis> {
+    try {
+      const analysisPrompt = PromptLibrary.render('story_analysis', { content }, this);
       const messages: MoonshotMessage[] = [
         {
           role: 'system',
-          content: 'You are an expert literary analyst with deep understanding of both Eastern and Western narrative traditions. Analyze the provided story with attention to cultural context, narrative structure, and character development. Return a detailed JSON analysis.'
+          content: analysisPrompt.system
         },
         {
           role: 'user',
-          content: analysisPrompt
+          content: `${analysisPrompt.user}\n\n${StructuredOutput.instructions(STORY_ANALYSIS_OUTPUT)}`
         }
       ];
 
-      const request: MoonshotRequest = {
-        model: this.model,
-        messages,
-        max_tokens: 3000, // Longer for detailed analysis
-        temperature: 0.3 // Lower temperature for analysis
-      };
-
-      const response = await this.makeRequest(request);
-      const analysisText = response.choices[0].message.content;
-
-      // Try to parse as JSON, fallback to structured analysis
-      try {
-        return JSON.parse(analysisText);
-      } catch {
-        return this.parseAnalysisFromText(analysisText);
-      }
+      return await StructuredOutput.generate<StoryAnalysis>(STORY_ANALYSIS_OUTPUT, async retry => {
+        const request: MoonshotRequest = {
+          model: this.model,
+          messages: StructuredOutput.conversation(messages, retry),
+          max_tokens: 3000, // Longer for detailed analysis
+          temperature: 0.3, // Lower temperature for analysis
+          response_format: { type: 'json_object' }
+        };
+
+        const response = await this.makeRequest(request, signal);
+        return response.choices[0].message.content;
+      }, { signal });
     } catch (error) {
       throw this.handleAPIError(error);
     }
   }
 
-  protected async doGenerateCharacter(traits: any): Promise<Character> {
+  protected async doGenerateCharacter(traits: any, signal?: AbortSignal): Promise<Character> {
     try {
-      const characterPrompt = this.buildCharacterPrompt(traits);
+      const characterPrompt = PromptLibrary.render('character_analysis', { traits: JSON.stringify(traits) }, this);
       const messages: MoonshotMessage[] = [
         {
           role: 'system',
-          content: 'You are a character development expert with deep understanding of cultural nuances and psychological complexity. Create a detailed character based on the provided traits, considering cultural background and authenticity. Return the result as JSON.'
+          content: characterPrompt.system
         },
         {
           role: 'user',
-          content: characterPrompt
+          content: characterPrompt.user
         }
       ];
 
@@ -323,7 +351,7 @@ export class MoonshotProvider extends BaseProvider implements AIProvider {
         temperature: 0.8 // Higher temperature for creativity
       };
 
-      const response = await this.makeRequest(request);
+      const response = await this.makeRequest(request, signal);
       const characterText = response.choices[0].message.content;
 
       // Try to parse as JSON, fallback to structured character
@@ -342,37 +370,27 @@ export class MoonshotProvider extends BaseProvider implements AIProvider {
   private buildMessages(prompt: string, context: StoryContext): MoonshotMessage[] {
     const messages: MoonshotMessage[] = [];
 
-    // System message with context
-    const systemMessage = this.buildSystemMessage(context);
-    messages.push({ role: 'system', content: systemMessage });
+    // System message and prompt come from the template for this request type
+    const rendered = PromptLibrary.render(context.requestType || 'prose_generation', { ...PromptLibrary.variablesFromContext(context), prompt }, this);
+    messages.push({ role: 'system', content: rendered.system });
 
-    // Add character context if available (KIMI can handle very long context)
-    if (context.characters && context.characters.length > 0) {
+    // Add the assembled story context, or character context when there is none (KIMI can handle very long context)
+    if (context.assembledContext?.text) {
+      messages.push({ role: 'user', content: `Story context:\n${context.assembledContext.text}` });
+    } else if (context.characters && context.characters.length > 0) {
       const characterContext = this.buildCharacterContext(context.characters);
       messages.push({ role: 'user', content: `Character context: ${characterContext}` });
     }
 
-    // Main prompt
-    messages.push({ role: 'user', content: prompt });
-
-    return messages;
-  }
-
-  private buildSystemMessage(context: StoryContext): string {
-    let systemMessage = 'You are KIMI, an AI assistant created by Moonshot AI. You specialize in creative writing and storytelling with deep understanding of cultural contexts and long-form narratives.';
-
-    if (context.genre && context.genre.length > 0) {
-      systemMessage += ` You are working with ${context.genre.join(' and ')} genre(s), understanding both Eastern and Western traditions in these genres.`;
-    }
-
-    if (context.targetAudience) {
-      systemMessage += ` The target audience is ${context.targetAudience}.`;
+    // Passages retrieved from elsewhere in the manuscript, numbered for citation
+    if (context.retrievedPassages && context.retrievedPassages.length > 0) {
+      messages.push({ role: 'user', content: RetrievalIndex.formatPassages(context.retrievedPassages) });
     }
 
-    // Emphasize KIMI's strengths
-    systemMessage += ' You excel at maintaining context across very long conversations and documents. You understand cultural nuances, especially in Asian contexts, and can work effectively in multiple languages. Provide creative, culturally sensitive, and well-crafted responses that maintain consistency with established story elements.';
+    // Main prompt
+    messages.push({ role: 'user', content: rendered.user });
 
-    return systemMessage;
+    return messages;
   }
 
   private buildCharacterContext(characters: Character[]): string {
@@ -389,137 +407,19 @@ export class MoonshotProvider extends BaseProvider implements AIProvider {
     }).join('\n\n');
   }
 
-  private buildStoryAnalysisPrompt(content: string): string {
-    return `Please provide a comprehensive literary analysis of the following story. Consider both Eastern and Western narrative traditions. I need the analysis in JSON format with this structure:
-
-{
-  "structure": {
-    "identifiedStructure": "three-act|hero-journey|save-the-cat|kishōtenketsu|four-act|other",
-    "completedBeats": ["list of completed story beats"],
-    "missingBeats": ["list of missing story beats"],
-    "suggestions": ["specific suggestions for structural improvement"],
-    "confidence": 0.0-1.0,
-    "culturalContext": "analysis of cultural narrative elements"
-  },
-  "characters": {
-    "consistencyScore": 0.0-1.0,
-    "voiceConsistency": 0.0-1.0,
-    "developmentProgress": 0.0-1.0,
-    "relationshipHealth": ["analysis of character relationships"],
-    "culturalAuthenticity": 0.0-1.0,
-    "suggestions": ["specific character development suggestions"]
-  },
-  "pacing": {
-    "overallPacing": "too-fast|good|too-slow",
-    "tensionCurve": ["description of how tension builds and releases"],
-    "culturalPacingNorms": "analysis of pacing relative to cultural expectations",
-    "recommendations": ["specific pacing recommendations"]
-  },
-  "consistency": {
-    "overallScore": 0.0-1.0,
-    "plotHoles": ["identified logical inconsistencies"],
-    "characterInconsistencies": ["character behavior inconsistencies"],
-    "worldBuildingIssues": ["world-building problems"],
-    "culturalInconsistencies": ["cultural or contextual inconsistencies"]
-  },
-  "culturalElements": {
-    "identifiedCulture": "primary cultural context",
-    "culturalAccuracy": 0.0-1.0,
-    "culturalDepth": 0.0-1.0,
-    "suggestions": ["suggestions for cultural enhancement"]
-  },
-  "themes": {
-    "primaryThemes": ["identified main themes"],
-    "culturalThemes": ["culture-specific themes"],
-    "universalThemes": ["universal human themes"],
-    "themeExecution": 0.0-1.0
-  },
-  "overallScore": 0.0-1.0,
-  "recommendations": ["prioritized list of overall recommendations"]
-}
-
-Please analyze this story with attention to cultural authenticity, narrative structure, character development, and thematic depth:
-
-${content}`;
-  }
-
-  private buildCharacterPrompt(traits: any): string {
-    return `Create a psychologically complex and culturally authentic character based on these traits: ${JSON.stringify(traits)}
-
-Please return a detailed character profile in JSON format with this structure:
-
-{
-  "id": "unique-character-id",
-  "name": "character name",
-  "archetype": {
-    "primary": "hero|mentor|villain|ally|trickster|threshold-guardian|shapeshifter|shadow|other",
-    "description": "detailed archetype description",
-    "commonTraits": ["traits typical of this archetype"],
-    "culturalVariant": "cultural interpretation of this archetype"
-  },
-  "traits": {
-    "personality": ["detailed personality traits"],
-    "motivations": ["deep psychological motivations"],
-    "fears": ["specific fears and anxieties"],
-    "strengths": ["character strengths and abilities"],
-    "weaknesses": ["realistic flaws and limitations"],
-    "quirks": ["unique mannerisms and habits"],
-    "values": ["core values and beliefs"],
-    "secrets": ["hidden aspects of character"],
-    "culturalTraits": ["culture-specific traits and behaviors"]
-  },
-  "background": {
-    "childhood": "formative childhood experiences",
-    "education": "educational background",
-    "family": "family structure and relationships",
-    "culturalBackground": "detailed cultural background",
-    "socialStatus": "social position and class",
-    "trauma": "significant traumatic events",
-    "achievements": "major accomplishments"
-  },
-  "relationships": [],
-  "developmentArc": {
-    "startState": "character's initial psychological state",
-    "endState": "potential final psychological state",
-    "keyMoments": ["crucial moments for character growth"],
-    "internalConflict": "primary internal struggle",
-    "culturalConflicts": ["conflicts related to cultural identity"],
-    "completed": false
-  },
-  "voiceProfile": {
-    "vocabulary": ["characteristic words and phrases"],
-    "speechPatterns": ["how they structure sentences"],
-    "commonPhrases": ["phrases they use frequently"],
-    "formalityLevel": 1-10,
-    "emotionalRange": ["how they express different emotions"],
-    "dialectMarkers": ["regional or social speech markers"],
-    "languageStyle": "description of their speaking style",
-    "culturalSpeechPatterns": ["culture-specific speech patterns"]
-  },
-  "physicalDescription": {
-    "appearance": "physical description",
-    "mannerisms": "physical habits and gestures",
-    "clothing": "typical clothing style",
-    "culturalMarkers": ["visible cultural identifiers"]
-  },
-  "culturalContext": {
-    "primaryCulture": "main cultural identity",
-    "culturalFluency": 0.0-1.0,
-    "culturalConflicts": ["internal cultural conflicts"],
-    "traditions": ["important cultural traditions they follow"],
-    "modernization": "relationship with modern vs traditional values"
-  }
-}
-
-Focus on creating a character with psychological depth, cultural authenticity, and realistic complexity. Consider how cultural background shapes personality, values, and behavior patterns.`;
+  private async makeRequest(request: MoonshotRequest, signal?: AbortSignal): Promise<MoonshotResponse> {
+    const response = await this.sendRequest(request, signal);
+    return await response.json();
   }
 
-  private async makeRequest(request: MoonshotRequest): Promise<MoonshotResponse> {
+  private async sendRequest(request: MoonshotRequest, signal?: AbortSignal): Promise<Response> {
+    await this.waitForRateLimit(request, signal);
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
+    linkAbortSignal(controller, signal);
 
     try {
-      const response = await fetch(`${this.baseURL}/chat/completions`, {
+      const response = await this.httpFetch(`${this.baseURL}/chat/completions`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -531,6 +431,7 @@ Focus on creating a character with psychological depth, cultural authenticity, a
       });
 
       clearTimeout(timeoutId);
+      this.checkRateLimit(response);
 
       if (!response.ok) {
         const errorData: MoonshotError = await response.json();
@@ -541,10 +442,13 @@ Focus on creating a character with psychological depth, cultural authenticity, a
         );
       }
 
-      return await response.json();
+      return response;
     } catch (error) {
       clearTimeout(timeoutId);
       
+      if (signal?.aborted) {
+        throw new RequestCancelledError();
+      }
       if (error instanceof Error && error.name === 'AbortError') {
         throw this.createError('Request timeout', 'TIMEOUT');
       }
@@ -554,6 +458,10 @@ Focus on creating a character with psychological depth, cultural authenticity, a
   }
 
   private handleAPIError(error: any): Error {
+    if (error instanceof RequestCancelledError || error instanceof StructuredOutputError || error instanceof RateLimitError) {
+      return error;
+    }
+
     if (error.code) {
       return error;
     }
@@ -618,57 +526,6 @@ Focus on creating a character with psychological depth, cultural authenticity, a
     return contextWindows[model] || 128000; // Default to 128k
   }
 
-  private parseAnalysisFromText(text: string): StoryAnalysis {
-    // Enhanced fallback parsing for KIMI's detailed responses
-    const analysis: StoryAnalysis = {
-      structure: {
-        identifiedStructure: 'unknown',
-        completedBeats: [],
-        missingBeats: [],
-        suggestions: [],
-        confidence: 0.6
-      },
-      characters: {
-        consistencyScore: 0.6,
-        voiceConsistency: 0.6,
-        developmentProgress: 0.6,
-        relationshipHealth: [],
-        suggestions: []
-      },
-      pacing: {
-        overallPacing: 'good',
-        tensionCurve: [],
-        recommendations: []
-      },
-      consistency: {
-        overallScore: 0.6,
-        plotHoles: [],
-        characterInconsistencies: [],
-        worldBuildingIssues: []
-      },
-      overallScore: 0.6,
-      recommendations: []
-    };
-
-    // Try to extract insights from the text
-    const lines = text.split('\n').filter(line => line.trim());
-    
-    for (const line of lines) {
-      const lowerLine = line.toLowerCase();
-      
-      if (lowerLine.includes('structure') || lowerLine.includes('结构')) {
-        analysis.structure.suggestions.push(line.trim());
-      } else if (lowerLine.includes('character') || lowerLine.includes('角色')) {
-        analysis.characters.suggestions.push(line.trim());
-      } else if (lowerLine.includes('pacing') || lowerLine.includes('节奏')) {
-        analysis.pacing.recommendations.push(line.trim());
-      } else if (lowerLine.includes('recommend') || lowerLine.includes('建议')) {
-        analysis.recommendations.push(line.trim());
-      }
-    }
-
-    return analysis;
-  }
 
   private normalizeCharacter(data: any, originalTraits: any): Character {
     return {
@@ -3,6 +3,7 @@ import {
   AICapability, 
   StoryContext, 
   AIResponse,
+  AIStreamChunk,
   StoryAnalysis,
   ProviderConfig,
   ProviderMetadata,
@@ -10,11 +11,22 @@ import {
 } from '../../../../shared/types/AI';
 import { Character } from '../../../../shared/types/Story';
 import { BaseProvider } from '../BaseProvider';
+import { RequestCancelledError, linkAbortSignal } from '../../RequestCancellation';
+import { RateLimitError } from '../../health/RateLimiter';
+import { StreamParser } from '../StreamParser';
+import { RetrievalIndex } from '../../retrieval/RetrievalIndex';
+import { PromptLibrary } from '../../prompts/PromptLibrary';
+import { StructuredOutput, StructuredOutputError } from '../../structured/StructuredOutput';
+import { STORY_ANALYSIS_OUTPUT } from '../../structured/AnalysisSchemas';
+import { ToolCalling } from '../../tools/ToolCalling';
 
 // OpenRouter API interfaces (similar to OpenAI but with model routing)
 interface OpenRouterMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+  tool_call_id?: string;
+  name?: string;
 }
 
 interface OpenRouterRequest {
@@ -27,6 +39,9 @@ interface OpenRouterRequest {
   presence_penalty?: number;
   stream?: boolean;
   transforms?: string[];
+  response_format?: { type: 'json_object' };
+  tools?: any[];
+  tool_choice?: 'auto' | 'none';
 }
 
 interface OpenRouterResponse {
@@ -39,6 +54,7 @@ interface OpenRouterResponse {
     message: {
       role: string;
       content: string;
+      tool_calls?: OpenRouterMessage['tool_calls'];
     };
     finish_reason: string;
   }>;
@@ -67,8 +83,8 @@ interface OpenRouterModel {
 interface OpenRouterError {
   error: {
     message: string;
-    type: string;
-    code?: string;
+    type?: string;
+    code?: string | number; // OpenRouter sends the HTTP status as the code
   };
 }
 
@@ -243,12 +259,13 @@ export class OpenRouterProvider extends BaseProvider implements AIProvider {
     }
   }
 
-  protected async doGenerateText(prompt: string, context: StoryContext): Promise<AIResponse> {
+  protected async doGenerateText(prompt: string, context: StoryContext, signal?: AbortSignal): Promise<AIResponse> {
     try {
       // Select best model for the task if auto-selection is enabled
       const selectedModel = this.selectBestModel('text_generation', context);
       
       const messages = this.buildMessages(prompt, context);
+      const tools = this.toolsFor(context);
       
       const request: OpenRouterRequest = {
         model: selectedModel,
@@ -260,14 +277,30 @@ export class OpenRouterProvider extends BaseProvider implements AIProvider {
         presence_penalty: 0.1
       };
 
-      const response = await this.makeRequest(request);
+      // With tools the model may look things up in the story before answering
+      const { response, responses, toolCalls } = tools.length > 0
+        ? await this.runToolLoop(messages, context, {
+          send: (conversation, final) => this.makeRequest({
+            ...request,
+            messages: conversation,
+            tools: ToolCalling.toOpenAI(tools),
+            tool_choice: final ? 'none' : 'auto'
+          }, signal),
+          toolCalls: reply => ToolCalling.fromOpenAI(reply.choices?.[0]?.message.tool_calls),
+          followUp: (reply, results): OpenRouterMessage[] => [
+            { role: 'assistant', content: reply.choices[0].message.content, tool_calls: reply.choices[0].message.tool_calls },
+            ...ToolCalling.openAIResults(results)
+          ]
+        }, signal)
+        : { response: await this.makeRequest(request, signal), responses: [], toolCalls: [] };
+      const usage = responses.length > 1 ? ToolCalling.totalUsage(responses.map(reply => reply.usage)) : response.usage;
       
       if (!response.choices || response.choices.length === 0) {
         throw this.createError('No response generated', 'EMPTY_RESPONSE');
       }
 
       const choice = response.choices[0];
-      const content = choice.message.content.trim();
+      const content = (choice.message.content || '').trim();
 
       return {
         content,
@@ -275,71 +308,92 @@ export class OpenRouterProvider extends BaseProvider implements AIProvider {
         metadata: {
           model: response.model,
           provider: this.name,
-          tokensUsed: response.usage.total_tokens,
+          tokensUsed: usage.total_tokens,
           responseTime: 0, // Will be set by base class
           finishReason: choice.finish_reason,
-          promptTokens: response.usage.prompt_tokens,
-          completionTokens: response.usage.completion_tokens,
+          promptTokens: usage.prompt_tokens,
+          completionTokens: usage.completion_tokens,
           selectedModel: selectedModel
-        }
+        },
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+      };
+    } catch (error) {
+      throw this.handleAPIError(error);
+    }
+  }
+
+  // Streams tokens using the chat completions server-sent events API
+  async *generateTextStream(prompt: string, context: StoryContext, signal?: AbortSignal): AsyncGenerator<AIStreamChunk> {
+    try {
+      const selectedModel = this.selectBestModel('text_generation', context);
+      const messages = this.buildMessages(prompt, context);
+
+      const request: OpenRouterRequest = {
+        model: selectedModel,
+        messages,
+        max_tokens: this.maxTokens,
+        temperature: this.temperature,
+        top_p: this.topP,
+        frequency_penalty: 0.1,
+        presence_penalty: 0.1,
+        stream: true
       };
+
+      const response = await this.sendRequest(request, signal);
+      yield* StreamParser.readChatCompletionChunks(response.body, this.name);
     } catch (error) {
       throw this.handleAPIError(error);
     }
   }
 
-  protected async doAnalyzeStory(content: string): Promise<StoryAnalysis> {
+  protected async doAnalyzeStory(content: string, signal?: AbortSignal): Promise<StoryAnalysis> {
     try {
       // Select best model for analysis (prefer Claude or GPT-4 for analysis)
       const selectedModel = this.selectBestModel('story_analysis');
       
-      const analysisPrompt = this.buildStoryAnalysisPrompt(content);
+      const analysisPrompt = PromptLibrary.render('story_analysis', { content }, this);
       const messages: OpenRouterMessage[] = [
         {
           role: 'system',
-          content: 'You are an expert story analyst. Analyze the provided story and return a detailed JSON analysis.'
+          content: analysisPrompt.system
         },
         {
           role: 'user',
-          content: analysisPrompt
+          content: `${analysisPrompt.user}\n\n${StructuredOutput.instructions(STORY_ANALYSIS_OUTPUT)}`
         }
       ];
 
-      const request: OpenRouterRequest = {
-        model: selectedModel,
-        messages,
-        max_tokens: 2048,
-        temperature: 0.3 // Lower temperature for analysis
-      };
-
-      const response = await this.makeRequest(request);
-      const analysisText = response.choices[0].message.content;
-
-      // Try to parse as JSON, fallback to structured analysis
-      try {
-        return JSON.parse(analysisText);
-      } catch {
-        return this.parseAnalysisFromText(analysisText);
-      }
+      return await StructuredOutput.generate<StoryAnalysis>(STORY_ANALYSIS_OUTPUT, async retry => {
+        const request: OpenRouterRequest = {
+          model: selectedModel,
+          messages: StructuredOutput.conversation(messages, retry),
+          max_tokens: 2048,
+          temperature: 0.3, // Lower temperature for analysis
+          response_format: { type: 'json_object' }
+        };
+
+        const response = await this.makeRequest(request, signal);
+        return response.choices[0].message.content;
+      }, { signal });
     } catch (error) {
       throw this.handleAPIError(error);
     }
   }
 
-  protected async doGenerateCharacter(traits: any): Promise<Character> {
+  protected async doGenerateCharacter(traits: any, signal?: AbortSignal): Promise<Character> {
     try {
       // Select best model for character generation
       const selectedModel = this.selectBestModel('character_generation');
       
-      const characterPrompt = this.buildCharacterPrompt(traits);
+      const characterPrompt = PromptLibrary.render('character_analysis', { traits: JSON.stringify(traits) }, this);
       const messages: OpenRouterMessage[] = [
         {
           role: 'system',
-          content: 'You are a character development expert. Create a detailed character based on the provided traits. Return the result as JSON.'
+          content: characterPrompt.system
         },
         {
           role: 'user',
-          content: characterPrompt
+          content: characterPrompt.user
         }
       ];
 
@@ -350,7 +404,7 @@ export class OpenRouterProvider extends BaseProvider implements AIProvider {
         temperature: 0.8 // Higher temperature for creativity
       };
 
-      const response = await this.makeRequest(request);
+      const response = await this.makeRequest(request, signal);
       const characterText = response.choices[0].message.content;
 
       // Try to parse as JSON, fallback to structured character
@@ -368,7 +422,7 @@ export class OpenRouterProvider extends BaseProvider implements AIProvider {
   // OpenRouter-specific methods
   private async loadAvailableModels(): Promise<void> {
     try {
-      const response = await fetch(`${this.baseURL}/models`, {
+      const response = await this.httpFetch(`${this.baseURL}/models`, {
         headers: {
           'Authorization': `Bearer ${this.apiKey}`,
           'User-Agent': `${this.appName}/1.0`,
@@ -462,36 +516,27 @@ export class OpenRouterProvider extends BaseProvider implements AIProvider {
   private buildMessages(prompt: string, context: StoryContext): OpenRouterMessage[] {
     const messages: OpenRouterMessage[] = [];
 
-    // System message with context
-    const systemMessage = this.buildSystemMessage(context);
-    messages.push({ role: 'system', content: systemMessage });
+    // System message and prompt come from the template for this request type
+    const rendered = PromptLibrary.render(context.requestType || 'prose_generation', { ...PromptLibrary.variablesFromContext(context), prompt }, this);
+    messages.push({ role: 'system', content: rendered.system });
 
-    // Add character context if available
-    if (context.characters && context.characters.length > 0) {
+    // Add the assembled story context, or character context when there is none
+    if (context.assembledContext?.text) {
+      messages.push({ role: 'user', content: `Story context:\n${context.assembledContext.text}` });
+    } else if (context.characters && context.characters.length > 0) {
       const characterContext = this.buildCharacterContext(context.characters);
       messages.push({ role: 'user', content: `Character context: ${characterContext}` });
     }
 
-    // Main prompt
-    messages.push({ role: 'user', content: prompt });
-
-    return messages;
-  }
-
-  private buildSystemMessage(context: StoryContext): string {
-    let systemMessage = 'You are a creative writing assistant specializing in storytelling and narrative craft.';
-
-    if (context.genre && context.genre.length > 0) {
-      systemMessage += ` You are working with ${context.genre.join(' and ')} genre(s).`;
-    }
-
-    if (context.targetAudience) {
-      systemMessage += ` The target audience is ${context.targetAudience}.`;
+    // Passages retrieved from elsewhere in the manuscript, numbered for citation
+    if (context.retrievedPassages && context.retrievedPassages.length > 0) {
+      messages.push({ role: 'user', content: RetrievalIndex.formatPassages(context.retrievedPassages) });
     }
 
-    systemMessage += ' Provide creative, engaging, and well-crafted responses that maintain consistency with the established story elements.';
+    // Main prompt
+    messages.push({ role: 'user', content: rendered.user });
 
-    return systemMessage;
+    return messages;
   }
 
   private buildCharacterContext(characters: Character[]): string {
@@ -500,85 +545,19 @@ export class OpenRouterProvider extends BaseProvider implements AIProvider {
     ).join('; ');
   }
 
-  private buildStoryAnalysisPrompt(content: string): string {
-    return `Please analyze the following story and provide a comprehensive analysis in JSON format with the following structure:
-{
-  "structure": {
-    "identifiedStructure": "three-act|hero-journey|save-the-cat|other",
-    "completedBeats": ["list of completed story beats"],
-    "missingBeats": ["list of missing story beats"],
-    "suggestions": ["suggestions for improvement"],
-    "confidence": 0.0-1.0
-  },
-  "characters": {
-    "consistencyScore": 0.0-1.0,
-    "voiceConsistency": 0.0-1.0,
-    "developmentProgress": 0.0-1.0,
-    "relationshipHealth": ["relationship analysis"],
-    "suggestions": ["character improvement suggestions"]
-  },
-  "pacing": {
-    "overallPacing": "too-fast|good|too-slow",
-    "tensionCurve": ["description of tension progression"],
-    "recommendations": ["pacing recommendations"]
-  },
-  "consistency": {
-    "overallScore": 0.0-1.0,
-    "plotHoles": ["identified plot holes"],
-    "characterInconsistencies": ["character inconsistencies"],
-    "worldBuildingIssues": ["world building issues"]
-  },
-  "overallScore": 0.0-1.0,
-  "recommendations": ["overall recommendations"]
-}
-
-Story to analyze:
-${content}`;
+  private async makeRequest(request: OpenRouterRequest, signal?: AbortSignal): Promise<OpenRouterResponse> {
+    const response = await this.sendRequest(request, signal);
+    return await response.json();
   }
 
-  private buildCharacterPrompt(traits: any): string {
-    return `Create a detailed character based on these traits: ${JSON.stringify(traits)}
-
-Please return a JSON object with this structure:
-{
-  "id": "unique-id",
-  "name": "character name",
-  "archetype": {
-    "primary": "hero|mentor|villain|ally|other",
-    "description": "archetype description",
-    "commonTraits": ["list of common traits"]
-  },
-  "traits": {
-    "personality": ["personality traits"],
-    "motivations": ["character motivations"],
-    "fears": ["character fears"],
-    "strengths": ["character strengths"],
-    "weaknesses": ["character weaknesses"],
-    "quirks": ["unique quirks"]
-  },
-  "relationships": [],
-  "developmentArc": {
-    "startState": "initial character state",
-    "endState": "final character state",
-    "keyMoments": ["key development moments"],
-    "completed": false
-  },
-  "voiceProfile": {
-    "vocabulary": ["typical words/phrases"],
-    "speechPatterns": ["speech patterns"],
-    "commonPhrases": ["common phrases"],
-    "formalityLevel": 1-10,
-    "emotionalRange": ["emotional expressions"]
-  }
-}`;
-  }
-
-  private async makeRequest(request: OpenRouterRequest): Promise<OpenRouterResponse> {
+  private async sendRequest(request: OpenRouterRequest, signal?: AbortSignal): Promise<Response> {
+    await this.waitForRateLimit(request, signal);
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
+    linkAbortSignal(controller, signal);
 
     try {
-      const response = await fetch(`${this.baseURL}/chat/completions`, {
+      const response = await this.httpFetch(`${this.baseURL}/chat/completions`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -592,20 +571,24 @@ Please return a JSON object with this structure:
       });
 
       clearTimeout(timeoutId);
+      this.checkRateLimit(response);
 
       if (!response.ok) {
         const errorData: OpenRouterError = await response.json();
         throw this.createError(
           errorData.error.message,
-          errorData.error.code || 'API_ERROR',
+          typeof errorData.error.code === 'string' ? errorData.error.code : 'API_ERROR',
           { status: response.status, type: errorData.error.type }
         );
       }
 
-      return await response.json();
+      return response;
     } catch (error) {
       clearTimeout(timeoutId);
       
+      if (signal?.aborted) {
+        throw new RequestCancelledError();
+      }
       if (error instanceof Error && error.name === 'AbortError') {
         throw this.createError('Request timeout', 'TIMEOUT');
       }
@@ -615,6 +598,10 @@ Please return a JSON object with this structure:
   }
 
   private handleAPIError(error: any): Error {
+    if (error instanceof RequestCancelledError || error instanceof StructuredOutputError || error instanceof RateLimitError) {
+      return error;
+    }
+
     if (error.code) {
       return error;
     }
@@ -663,37 +650,6 @@ Please return a JSON object with this structure:
     return Math.max(0.1, Math.min(1.0, confidence));
   }
 
-  private parseAnalysisFromText(text: string): StoryAnalysis {
-    return {
-      structure: {
-        identifiedStructure: 'unknown',
-        completedBeats: [],
-        missingBeats: [],
-        suggestions: [text.substring(0, 200) + '...'],
-        confidence: 0.5
-      },
-      characters: {
-        consistencyScore: 0.5,
-        voiceConsistency: 0.5,
-        developmentProgress: 0.5,
-        relationshipHealth: [],
-        suggestions: []
-      },
-      pacing: {
-        overallPacing: 'good',
-        tensionCurve: [],
-        recommendations: []
-      },
-      consistency: {
-        overallScore: 0.5,
-        plotHoles: [],
-        characterInconsistencies: [],
-        worldBuildingIssues: []
-      },
-      overallScore: 0.5,
-      recommendations: ['Analysis could not be fully parsed. Please try again.']
-    };
-  }
 
   private normalizeCharacter(data: any, originalTraits: any): Character {
     return {
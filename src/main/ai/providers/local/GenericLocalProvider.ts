@@ -0,0 +1,384 @@
+import {
+  AICapability,
+  AIResponse,
+  AIStreamChunk,
+  StoryContext,
+  StoryAnalysis
+} from '../../../../shared/types/AI';
+import { Character } from '../../../../shared/types/Story';
+import { BaseLocalProvider } from '../BaseProvider';
+import { StreamParser } from '../StreamParser';
+import { RetrievalIndex } from '../../retrieval/RetrievalIndex';
+import { PromptLibrary } from '../../prompts/PromptLibrary';
+import { StructuredOutput } from '../../structured/StructuredOutput';
+import { STORY_ANALYSIS_OUTPUT } from '../../structured/AnalysisSchemas';
+import { RequestCancelledError, linkAbortSignal } from '../../RequestCancellation';
+
+// OpenAI-compatible API interfaces, as served by LM Studio, llama.cpp and vLLM
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stream?: boolean;
+  response_format?: { type: 'json_schema'; json_schema: { name: string; schema: Record<string, any> } };
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices: Array<{
+    message: ChatMessage;
+    finish_reason?: string;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export interface LocalModelInfo {
+  id: string;
+  owned_by?: string;
+}
+
+// Talks to any server on the local machine or network that implements the
+// OpenAI chat completions protocol. The endpoint may include the API prefix
+// (e.g. http://localhost:8000/v1); "/v1" is assumed when it does not.
+export class GenericLocalProvider extends BaseLocalProvider {
+  name: string;
+  priority: number;
+
+  capabilities: AICapability[] = [
+    {
+      name: 'text_generation',
+      description: 'Generate creative text with a local model',
+      inputTypes: ['text', 'context'],
+      outputTypes: ['text'],
+      offline: true
+    },
+    {
+      name: 'dialogue_generation',
+      description: 'Generate dialogue between characters',
+      inputTypes: ['character_context', 'scene_context'],
+      outputTypes: ['dialogue'],
+      offline: true
+    },
+    {
+      name: 'story_analysis',
+      description: 'Analyze story structure and provide feedback',
+      inputTypes: ['story_text'],
+      outputTypes: ['analysis'],
+      offline: true
+    },
+    {
+      name: 'character_generation',
+      description: 'Create character profiles from traits',
+      inputTypes: ['character_traits'],
+      outputTypes: ['character_profile'],
+      offline: true
+    }
+  ];
+
+  availableModels: string[] = [];
+
+  protected host = 'localhost';
+  protected port = 8080;
+  protected apiPath = '/v1';
+
+  private model = '';
+  private requestTimeout = 120000; // Local models can take a while to load
+
+  // Accepts the provider entry from ConfigManager, as AIProviderRegistry does
+  constructor(preference: any = {}) {
+    super();
+    this.name = preference.name || 'Local Server';
+    this.priority = preference.priority ?? 5;
+    this.config = { ...(preference.config || {}) };
+  }
+
+  // llama.cpp's server listens on 8080 by default
+  protected getDefaultPort(): number {
+    return 8080;
+  }
+
+  protected async doInitialize(): Promise<void> {
+    if (this.config.endpoint) {
+      const endpoint = new URL(this.config.endpoint);
+      this.config.host = this.config.host || endpoint.hostname;
+      this.config.port = this.config.port || Number(endpoint.port) || undefined;
+      if (endpoint.pathname !== '/') {
+        this.apiPath = endpoint.pathname.replace(/\/+$/, '');
+      }
+    }
+
+    this.requestTimeout = this.config.timeout || this.requestTimeout;
+
+    await super.doInitialize();
+
+    this.model = this.config.modelName || this.availableModels[0] || '';
+    if (!this.model) {
+      console.warn(`${this.name} has no models loaded yet`);
+    }
+
+    console.log(`${this.name} provider connected at ${this.baseUrl} using model: ${this.model || 'none'}`);
+  }
+
+  protected async doShutdown(): Promise<void> {
+    // The server is managed outside the app, so there is nothing to stop
+    this.availableModels = [];
+  }
+
+  protected async testLocalConnection(): Promise<void> {
+    await this.listModels();
+  }
+
+  protected async isServiceRunning(): Promise<boolean> {
+    try {
+      await this.listModels();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async generateText(prompt: string, context: StoryContext, signal?: AbortSignal): Promise<AIResponse> {
+    const startTime = Date.now();
+    const response = await this.sendJSON<ChatCompletionResponse>(
+      '/chat/completions',
+      this.buildRequest(this.buildMessages(prompt, context)),
+      signal
+    );
+
+    const choice = response.choices?.[0];
+    if (!choice) {
+      throw new Error(`${this.name} returned no completion`);
+    }
+
+    const content = choice.message.content.trim();
+    return this.createResponse(content, choice.finish_reason === 'length' ? 0.6 : 0.75, {
+      model: response.model || this.model,
+      tokensUsed: response.usage?.total_tokens ?? this.estimateTokens(content, this.model),
+      responseTime: Date.now() - startTime,
+      finishReason: choice.finish_reason
+    });
+  }
+
+  async *generateTextStream(prompt: string, context: StoryContext, signal?: AbortSignal): AsyncGenerator<AIStreamChunk> {
+    const startTime = Date.now();
+    const request = { ...this.buildRequest(this.buildMessages(prompt, context)), stream: true };
+    const response = await this.sendRequest('/chat/completions', request, signal);
+
+    for await (const chunk of StreamParser.readChatCompletionChunks(response.body, this.name)) {
+      if (chunk.done) {
+        yield {
+          ...chunk,
+          metadata: {
+            ...chunk.metadata,
+            model: chunk.metadata?.model || this.model,
+            responseTime: Date.now() - startTime
+          }
+        };
+      } else {
+        yield chunk;
+      }
+    }
+  }
+
+  async analyzeStory(content: string, signal?: AbortSignal): Promise<StoryAnalysis> {
+    const prompt = PromptLibrary.render('story_analysis', { content }, this);
+    const messages: ChatMessage[] = [
+      { role: 'system', content: prompt.system },
+      { role: 'user', content: `${prompt.user}\n\n${StructuredOutput.instructions(STORY_ANALYSIS_OUTPUT)}` }
+    ];
+
+    // Servers without schema support ignore response_format; the reply is validated either way
+    return StructuredOutput.generate<StoryAnalysis>(STORY_ANALYSIS_OUTPUT, async retry => {
+      const request = this.buildRequest(StructuredOutput.conversation(messages, retry));
+      request.temperature = 0.3;
+      request.response_format = {
+        type: 'json_schema',
+        json_schema: { name: STORY_ANALYSIS_OUTPUT.name, schema: StructuredOutput.toJSONSchema(STORY_ANALYSIS_OUTPUT.schema) }
+      };
+
+      const response = await this.sendJSON<ChatCompletionResponse>('/chat/completions', request, signal);
+      return response.choices?.[0]?.message.content || '';
+    }, { signal });
+  }
+
+
+  async generateCharacter(traits: any, signal?: AbortSignal): Promise<Character> {
+    const prompt = PromptLibrary.render('character_analysis', { traits: JSON.stringify(traits) }, this);
+    const request = this.buildRequest([
+      {
+        role: 'system',
+        content: prompt.system
+      },
+      { role: 'user', content: prompt.user }
+    ]);
+    request.temperature = 0.8;
+
+    const response = await this.sendJSON<ChatCompletionResponse>('/chat/completions', request, signal);
+    const data = this.extractJSON(response.choices?.[0]?.message.content || '');
+    if (!data) {
+      console.warn(`${this.name} returned a character that is not valid JSON, using the requested traits`);
+    }
+
+    return this.normalizeCharacter(data || {}, traits);
+  }
+
+  // Models the server can serve. LM Studio only lists models that are loaded.
+  async listModels(): Promise<LocalModelInfo[]> {
+    const data = await this.sendJSON<{ data?: LocalModelInfo[] }>('/models');
+    const models = data.data || [];
+
+    this.availableModels = models.map(model => model.id);
+    return models;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  // Private helper methods
+  protected get baseUrl(): string {
+    return `http://${this.host}:${this.port}${this.apiPath}`;
+  }
+
+  private buildRequest(messages: ChatMessage[]): ChatCompletionRequest {
+    if (!this.model) {
+      throw new Error(`No model is loaded on ${this.name} at ${this.baseUrl}. Load a model in the server and try again.`);
+    }
+
+    return {
+      model: this.model,
+      messages,
+      max_tokens: this.config.maxTokens ?? 2048,
+      temperature: this.config.temperature ?? 0.7,
+      top_p: this.config.topP ?? 0.9
+    };
+  }
+
+  // The timeout only covers waiting for the response headers, so long
+  // streamed bodies are not cut off part way through. The caller's signal
+  // aborts the request at any point, including while the body streams.
+  private async sendRequest(endpoint: string, body?: any, signal?: AbortSignal): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
+    linkAbortSignal(controller, signal);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    // vLLM and llama.cpp can be started with --api-key
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${endpoint}`, {
+        method: body ? 'POST' : 'GET',
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+        signal: controller.signal
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`${this.name} request to ${endpoint} timed out after ${this.requestTimeout}ms`);
+      }
+      throw new Error(`Could not connect to ${this.name} at ${this.baseUrl}: ${error.message || error}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (!response.ok) {
+      let message = response.statusText;
+      try {
+        const data: any = await response.json();
+        message = data.error?.message || data.error || message;
+      } catch {
+        // Keep the status text when the body is not JSON
+      }
+      throw new Error(`${this.name} error ${response.status}: ${message}`);
+    }
+
+    return response;
+  }
+
+  private async sendJSON<T>(endpoint: string, body?: any, signal?: AbortSignal): Promise<T> {
+    const response = await this.sendRequest(endpoint, body, signal);
+    return response.json() as Promise<T>;
+  }
+
+  // Local models often wrap JSON in prose or code fences, so take the
+  // outermost object from the reply
+  private extractJSON(text: string): any {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end <= start) return null;
+
+    try {
+      return JSON.parse(text.slice(start, end + 1));
+    } catch {
+      return null;
+    }
+  }
+
+  private buildMessages(prompt: string, context: StoryContext): ChatMessage[] {
+    // System message and prompt come from the template for this request type
+    const rendered = PromptLibrary.render(context.requestType || 'prose_generation', { ...PromptLibrary.variablesFromContext(context), prompt }, this);
+    const messages: ChatMessage[] = [{ role: 'system', content: rendered.system }];
+
+    // An assembled story context already includes full character sheets
+    if (context.assembledContext?.text) {
+      messages.push({ role: 'user', content: `Story context:\n${context.assembledContext.text}` });
+    } else if (context.characters && context.characters.length > 0) {
+      const characterContext = context.characters
+        .map(char => `${char.name}: ${char.traits?.personality?.join(', ') || ''}`)
+        .join('; ');
+      messages.push({ role: 'user', content: `Character context: ${characterContext}` });
+    }
+
+    // Passages retrieved from elsewhere in the manuscript, numbered for citation
+    if (context.retrievedPassages && context.retrievedPassages.length > 0) {
+      messages.push({ role: 'user', content: RetrievalIndex.formatPassages(context.retrievedPassages) });
+    }
+
+    messages.push({ role: 'user', content: rendered.user });
+    return messages;
+  }
+
+
+  private normalizeCharacter(data: any, traits: any): Character {
+    return {
+      id: data.id || `char-${Date.now()}`,
+      name: data.name || traits.name || 'Generated Character',
+      archetype: data.archetype || { primary: 'unknown', description: '', commonTraits: [] },
+      traits: data.traits || {
+        personality: traits.personality || [],
+        motivations: traits.motivations || [],
+        fears: traits.fears || [],
+        strengths: traits.strengths || [],
+        weaknesses: traits.weaknesses || [],
+        quirks: traits.quirks || []
+      },
+      relationships: data.relationships || [],
+      developmentArc: { startState: '', endState: '', keyMoments: [], completed: false, ...data.developmentArc },
+      voiceProfile: data.voiceProfile || {
+        vocabulary: [],
+        speechPatterns: [],
+        commonPhrases: [],
+        formalityLevel: 5,
+        emotionalRange: []
+      }
+    };
+  }
+}
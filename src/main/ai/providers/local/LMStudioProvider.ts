@@ -0,0 +1,12 @@
+import { GenericLocalProvider } from './GenericLocalProvider';
+
+// LM Studio's local server speaks the OpenAI protocol on port 1234
+export class LMStudioProvider extends GenericLocalProvider {
+  constructor(preference: any = {}) {
+    super({ ...preference, name: preference.name || 'LM Studio' });
+  }
+
+  protected getDefaultPort(): number {
+    return 1234;
+  }
+}
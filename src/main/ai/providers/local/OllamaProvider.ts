@@ -0,0 +1,531 @@
+import {
+  AICapability,
+  AIResponse,
+  AIStreamChunk,
+  InfillInput,
+  StoryContext,
+  StoryAnalysis
+} from '../../../../shared/types/AI';
+import { Character } from '../../../../shared/types/Story';
+import { BaseLocalProvider } from '../BaseProvider';
+import { StreamParser } from '../StreamParser';
+import { RetrievalIndex } from '../../retrieval/RetrievalIndex';
+import { PromptLibrary } from '../../prompts/PromptLibrary';
+import { StructuredOutput } from '../../structured/StructuredOutput';
+import { STORY_ANALYSIS_OUTPUT } from '../../structured/AnalysisSchemas';
+import { RequestCancelledError, linkAbortSignal } from '../../RequestCancellation';
+
+// Ollama HTTP API interfaces (https://github.com/ollama/ollama/blob/main/docs/api.md)
+interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface OllamaOptions {
+  temperature?: number;
+  top_p?: number;
+  num_predict?: number;
+}
+
+interface OllamaChatRequest {
+  model: string;
+  messages: OllamaMessage[];
+  stream: boolean;
+  format?: 'json' | Record<string, any>; // a JSON schema constrains the reply to that shape
+  options?: OllamaOptions;
+}
+
+interface OllamaGenerateRequest {
+  model: string;
+  prompt: string;
+  suffix?: string; // fill-in-the-middle: the text goes between prompt and suffix
+  system?: string;
+  stream: boolean;
+  format?: 'json';
+  options?: OllamaOptions;
+}
+
+interface OllamaCompletionStats {
+  model: string;
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  total_duration?: number; // nanoseconds
+}
+
+interface OllamaChatResponse extends OllamaCompletionStats {
+  message: OllamaMessage;
+}
+
+interface OllamaGenerateResponse extends OllamaCompletionStats {
+  response: string;
+}
+
+export interface OllamaModel {
+  name: string;
+  size: number;
+  digest: string;
+  modified_at: string;
+  details?: {
+    family?: string;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+}
+
+export interface OllamaPullProgress {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+}
+
+// Thrown when a request names a model that has not been downloaded yet.
+// Pass modelName to OllamaProvider.pullModel to download it.
+export class ModelNotPulledError extends Error {
+  readonly modelName: string;
+
+  constructor(modelName: string) {
+    super(`Ollama model "${modelName}" has not been pulled. Download it with pullModel() or run: ollama pull ${modelName}`);
+    this.name = 'ModelNotPulledError';
+    this.modelName = modelName;
+  }
+}
+
+// Serves requests from models running in a local Ollama service. Generation
+// goes through the chat endpoint; raw completions and JSON analysis use the
+// generate endpoint. Set parameters.autoPull to download missing models on
+// first use instead of failing with ModelNotPulledError.
+export class OllamaProvider extends BaseLocalProvider {
+  name: string;
+  priority: number;
+
+  capabilities: AICapability[] = [
+    {
+      name: 'text_generation',
+      description: 'Generate creative text with a local model',
+      inputTypes: ['text', 'context'],
+      outputTypes: ['text'],
+      offline: true
+    },
+    {
+      name: 'dialogue_generation',
+      description: 'Generate dialogue between characters',
+      inputTypes: ['character_context', 'scene_context'],
+      outputTypes: ['dialogue'],
+      offline: true
+    },
+    {
+      name: 'story_analysis',
+      description: 'Analyze story structure and provide feedback',
+      inputTypes: ['story_text'],
+      outputTypes: ['analysis'],
+      offline: true
+    },
+    {
+      name: 'character_generation',
+      description: 'Create character profiles from traits',
+      inputTypes: ['character_traits'],
+      outputTypes: ['character_profile'],
+      offline: true
+    }
+  ];
+
+  installedModels: string[] = [];
+
+  protected host = 'localhost';
+  protected port = 11434;
+
+  private model = 'llama3.1:8b';
+  private requestTimeout = 120000; // Local models can take a while to load
+  // Models whose template has no fill-in-the-middle support
+  private modelsWithoutInfill = new Set<string>();
+
+  // Accepts the provider entry from ConfigManager, as AIProviderRegistry does
+  constructor(preference: any = {}) {
+    super();
+    this.name = preference.name || 'Ollama';
+    this.priority = preference.priority ?? 5;
+    this.config = { ...(preference.config || {}) };
+  }
+
+  protected getDefaultPort(): number {
+    return 11434;
+  }
+
+  protected async doInitialize(): Promise<void> {
+    // The setup wizard stores the service address as a single endpoint URL
+    if (this.config.endpoint) {
+      const endpoint = new URL(this.config.endpoint);
+      this.config.host = this.config.host || endpoint.hostname;
+      this.config.port = this.config.port || Number(endpoint.port) || undefined;
+    }
+
+    this.requestTimeout = this.config.timeout || this.requestTimeout;
+
+    await super.doInitialize();
+
+    this.model = this.config.modelName || this.installedModels[0] || this.model;
+    if (!this.hasModel(this.model)) {
+      console.warn(`Ollama model ${this.model} has not been pulled yet`);
+    }
+
+    console.log(`Ollama provider connected at ${this.baseUrl} using model: ${this.model}`);
+  }
+
+  protected async doShutdown(): Promise<void> {
+    // The Ollama service is managed outside the app, so there is nothing to stop
+    this.installedModels = [];
+  }
+
+  protected async testLocalConnection(): Promise<void> {
+    await this.listModels();
+  }
+
+  protected async isServiceRunning(): Promise<boolean> {
+    try {
+      const response = await this.sendRequest('/api/version');
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async generateText(prompt: string, context: StoryContext, signal?: AbortSignal): Promise<AIResponse> {
+    const startTime = Date.now();
+    const request = this.buildChatRequest(this.buildMessages(prompt, context), false);
+
+    const response = await this.withModel(() => this.sendJSON<OllamaChatResponse>('/api/chat', request, signal), signal);
+
+    const content = response.message?.content?.trim() || '';
+    return this.createResponse(content, this.calculateConfidence(response.done_reason, content), {
+      ...this.getUsageMetadata(response),
+      responseTime: Date.now() - startTime
+    });
+  }
+
+  async *generateTextStream(prompt: string, context: StoryContext, signal?: AbortSignal): AsyncGenerator<AIStreamChunk> {
+    const startTime = Date.now();
+    const request = this.buildChatRequest(this.buildMessages(prompt, context), true);
+    const response = await this.withModel(() => this.sendRequest('/api/chat', request, signal), signal);
+
+    for await (const part of StreamParser.readJSONLines(response.body)) {
+      if (part.error) {
+        throw new Error(`Ollama stream error: ${part.error}`);
+      }
+
+      if (part.message?.content) {
+        yield { content: part.message.content, done: false };
+      }
+
+      if (part.done) {
+        yield {
+          content: '',
+          done: true,
+          metadata: {
+            ...this.getUsageMetadata(part),
+            responseTime: Date.now() - startTime,
+            finishReason: part.done_reason
+          }
+        };
+        return;
+      }
+    }
+
+    throw new Error('Ollama stream ended before the response was complete');
+  }
+
+  // Raw completion without the chat template, for continuing existing text
+  async complete(prompt: string, system?: string): Promise<AIResponse> {
+    const startTime = Date.now();
+    const request: OllamaGenerateRequest = {
+      model: this.model,
+      prompt,
+      system,
+      stream: false,
+      options: this.getOptions()
+    };
+
+    const response = await this.withModel(() => this.sendJSON<OllamaGenerateResponse>('/api/generate', request));
+
+    return this.createResponse(response.response, this.calculateConfidence(response.done_reason, response.response), {
+      ...this.getUsageMetadata(response),
+      responseTime: Date.now() - startTime
+    });
+  }
+
+  // Native fill-in-the-middle through the generate endpoint's suffix. Ollama
+  // refuses it for models without an insert template; those are remembered
+  // and left to the caller to emulate.
+  async generateInfill(input: InfillInput, context: StoryContext, signal?: AbortSignal): Promise<AIResponse | null> {
+    if (this.modelsWithoutInfill.has(this.model)) {
+      return null;
+    }
+
+    const startTime = Date.now();
+    const request: OllamaGenerateRequest = {
+      model: this.model,
+      prompt: input.prefix,
+      suffix: input.suffix,
+      stream: false,
+      options: { ...this.getOptions(), num_predict: input.maxTokens ?? this.getOptions().num_predict }
+    };
+
+    let response: OllamaGenerateResponse;
+    try {
+      response = await this.withModel(() => this.sendJSON<OllamaGenerateResponse>('/api/generate', request, signal), signal);
+    } catch (error) {
+      if (!(error instanceof Error) || !/does not support insert/i.test(error.message)) {
+        throw error;
+      }
+      console.warn(`Ollama model ${this.model} does not support infill, falling back to prompting for it`);
+      this.modelsWithoutInfill.add(this.model);
+      return null;
+    }
+
+    return this.createResponse(response.response, this.calculateConfidence(response.done_reason, response.response), {
+      ...this.getUsageMetadata(response),
+      responseTime: Date.now() - startTime
+    });
+  }
+
+  async analyzeStory(content: string, signal?: AbortSignal): Promise<StoryAnalysis> {
+    const prompt = PromptLibrary.render('story_analysis', { content }, this);
+    const messages: OllamaMessage[] = [
+      { role: 'system', content: prompt.system },
+      { role: 'user', content: `${prompt.user}\n\n${StructuredOutput.instructions(STORY_ANALYSIS_OUTPUT)}` }
+    ];
+
+    return StructuredOutput.generate<StoryAnalysis>(STORY_ANALYSIS_OUTPUT, async retry => {
+      const request = this.buildChatRequest(StructuredOutput.conversation(messages, retry), false);
+      request.format = StructuredOutput.toJSONSchema(STORY_ANALYSIS_OUTPUT.schema);
+      request.options = { ...request.options, temperature: 0.3 };
+
+      const response = await this.withModel(() => this.sendJSON<OllamaChatResponse>('/api/chat', request, signal), signal);
+      return response.message.content;
+    }, { signal });
+  }
+
+
+  async generateCharacter(traits: any, signal?: AbortSignal): Promise<Character> {
+    const prompt = PromptLibrary.render('character_analysis', { traits: JSON.stringify(traits) }, this);
+    const request = this.buildChatRequest([
+      {
+        role: 'system',
+        content: prompt.system
+      },
+      { role: 'user', content: prompt.user }
+    ], false);
+    request.format = 'json';
+    request.options = { ...request.options, temperature: 0.8 };
+
+    const response = await this.withModel(() => this.sendJSON<OllamaChatResponse>('/api/chat', request, signal), signal);
+
+    let data: any = {};
+    try {
+      data = JSON.parse(response.message.content);
+    } catch {
+      console.warn('Ollama returned a character that is not valid JSON, using the requested traits');
+    }
+    return this.normalizeCharacter(data, traits);
+  }
+
+  // Model management
+  async listModels(): Promise<OllamaModel[]> {
+    const data = await this.sendJSON<{ models?: OllamaModel[] }>('/api/tags');
+    const models: OllamaModel[] = data.models || [];
+
+    this.installedModels = models.map(model => model.name);
+    return models;
+  }
+
+  // Downloads a model, reporting progress as the service streams it
+  async pullModel(
+    modelName: string,
+    onProgress?: (progress: OllamaPullProgress) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    console.log(`Pulling Ollama model: ${modelName}`);
+    const response = await this.sendRequest('/api/pull', { model: modelName, stream: true }, signal);
+
+    for await (const progress of StreamParser.readJSONLines(response.body)) {
+      if (progress.error) {
+        throw new Error(`Failed to pull Ollama model ${modelName}: ${progress.error}`);
+      }
+      onProgress?.(progress);
+    }
+
+    await this.listModels();
+    console.log(`Pulled Ollama model: ${modelName}`);
+  }
+
+  hasModel(modelName: string): boolean {
+    const withTag = modelName.includes(':') ? modelName : `${modelName}:latest`;
+    return this.installedModels.some(name => name === modelName || name === withTag);
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  // Private helper methods
+  private get baseUrl(): string {
+    return `http://${this.host}:${this.port}`;
+  }
+
+  // Runs a request against the current model, pulling the model and trying
+  // again once when it is missing and parameters.autoPull is set
+  private async withModel<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!(error instanceof ModelNotPulledError) || !this.config.parameters?.autoPull) {
+        throw error;
+      }
+
+      await this.pullModel(error.modelName, undefined, signal);
+      return operation();
+    }
+  }
+
+  // The timeout only covers waiting for the response headers, so streamed
+  // generations and model pulls are not cut off part way through. The
+  // caller's signal aborts the request at any point.
+  private async sendRequest(endpoint: string, body?: any, signal?: AbortSignal): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
+    linkAbortSignal(controller, signal);
+    let response: Response;
+
+    try {
+      response = await fetch(`${this.baseUrl}${endpoint}`, {
+        method: body ? 'POST' : 'GET',
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+        signal: controller.signal
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Ollama request to ${endpoint} timed out after ${this.requestTimeout}ms`);
+      }
+      throw new Error(`Could not connect to Ollama at ${this.baseUrl}: ${error.message || error}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (!response.ok) {
+      throw await this.readError(response, body?.model);
+    }
+
+    return response;
+  }
+
+  private async sendJSON<T>(endpoint: string, body?: any, signal?: AbortSignal): Promise<T> {
+    const response = await this.sendRequest(endpoint, body, signal);
+    return response.json() as Promise<T>;
+  }
+
+  private async readError(response: Response, model?: string): Promise<Error> {
+    let message = response.statusText;
+    try {
+      const data: any = await response.json();
+      message = data.error || message;
+    } catch {
+      // Keep the status text when the body is not JSON
+    }
+
+    // e.g. 404 {"error": "model \"llama3\" not found, try pulling it first"}
+    if (response.status === 404 && model && /not found/i.test(message)) {
+      return new ModelNotPulledError(model);
+    }
+
+    return new Error(`Ollama error ${response.status}: ${message}`);
+  }
+
+  private buildChatRequest(messages: OllamaMessage[], stream: boolean): OllamaChatRequest {
+    return {
+      model: this.model,
+      messages,
+      stream,
+      options: this.getOptions()
+    };
+  }
+
+  private getOptions(): OllamaOptions {
+    return {
+      temperature: this.config.temperature ?? 0.7,
+      top_p: this.config.topP ?? 0.9,
+      num_predict: this.config.maxTokens ?? 2048
+    };
+  }
+
+  private getUsageMetadata(response: OllamaCompletionStats): any {
+    return {
+      model: response.model || this.model,
+      provider: this.name,
+      tokensUsed: (response.prompt_eval_count || 0) + (response.eval_count || 0),
+      promptTokens: response.prompt_eval_count,
+      completionTokens: response.eval_count
+    };
+  }
+
+  private buildMessages(prompt: string, context: StoryContext): OllamaMessage[] {
+    // System message and prompt come from the template for this request type
+    const rendered = PromptLibrary.render(context.requestType || 'prose_generation', { ...PromptLibrary.variablesFromContext(context), prompt }, this);
+    const messages: OllamaMessage[] = [{ role: 'system', content: rendered.system }];
+
+    // An assembled story context already includes full character sheets
+    if (context.assembledContext?.text) {
+      messages.push({ role: 'user', content: `Story context:\n${context.assembledContext.text}` });
+    } else if (context.characters && context.characters.length > 0) {
+      const characterContext = context.characters
+        .map(char => `${char.name}: ${char.traits?.personality?.join(', ') || ''}`)
+        .join('; ');
+      messages.push({ role: 'user', content: `Character context: ${characterContext}` });
+    }
+
+    // Passages retrieved from elsewhere in the manuscript, numbered for citation
+    if (context.retrievedPassages && context.retrievedPassages.length > 0) {
+      messages.push({ role: 'user', content: RetrievalIndex.formatPassages(context.retrievedPassages) });
+    }
+
+    messages.push({ role: 'user', content: rendered.user });
+    return messages;
+  }
+
+  private calculateConfidence(doneReason: string | undefined, content: string): number {
+    let confidence = doneReason === 'length' ? 0.6 : 0.75;
+    if (content.length < 10) confidence *= 0.5;
+    return confidence;
+  }
+
+
+  private normalizeCharacter(data: any, traits: any): Character {
+    return {
+      id: data.id || `char-${Date.now()}`,
+      name: data.name || traits.name || 'Generated Character',
+      archetype: data.archetype || { primary: 'unknown', description: '', commonTraits: [] },
+      traits: data.traits || {
+        personality: traits.personality || [],
+        motivations: traits.motivations || [],
+        fears: traits.fears || [],
+        strengths: traits.strengths || [],
+        weaknesses: traits.weaknesses || [],
+        quirks: traits.quirks || []
+      },
+      relationships: data.relationships || [],
+      developmentArc: { startState: '', endState: '', keyMoments: [], completed: false, ...data.developmentArc },
+      voiceProfile: data.voiceProfile || {
+        vocabulary: [],
+        speechPatterns: [],
+        commonPhrases: [],
+        formalityLevel: 5,
+        emotionalRange: []
+      }
+    };
+  }
+}
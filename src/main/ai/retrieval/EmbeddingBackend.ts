@@ -0,0 +1,163 @@
+import { ProviderPreference } from '../../config/ConfigManager';
+
+// Turns text into vectors for the retrieval index. Backends are expected to run
+// locally; the index falls back to lexical search when none is available.
+export interface EmbeddingBackend {
+  // Identifies the vector space: vectors from different backends or models are never compared
+  readonly name: string;
+  isAvailable(): Promise<boolean>;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const DEFAULT_TIMEOUT = 60000;
+
+// Embeddings from a local Ollama service, e.g. nomic-embed-text or mxbai-embed-large
+export class OllamaEmbeddingBackend implements EmbeddingBackend {
+  readonly name: string;
+  private baseUrl: string;
+  private model: string;
+  private timeout: number;
+
+  constructor(model: string, baseUrl = 'http://localhost:11434', timeout = DEFAULT_TIMEOUT) {
+    this.model = model;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.timeout = timeout;
+    this.name = `ollama:${model}`;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const data = await this.sendRequest('/api/tags');
+      const withTag = this.model.includes(':') ? this.model : `${this.model}:latest`;
+      return (data.models || []).some((model: any) => model.name === this.model || model.name === withTag);
+    } catch {
+      return false;
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const data = await this.sendRequest('/api/embed', { model: this.model, input: texts });
+    if (!Array.isArray(data.embeddings) || data.embeddings.length !== texts.length) {
+      throw new Error(`Ollama returned ${data.embeddings?.length || 0} embeddings for ${texts.length} inputs`);
+    }
+    return data.embeddings;
+  }
+
+  private async sendRequest(endpoint: string, body?: any): Promise<any> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(`${this.baseUrl}${endpoint}`, {
+        method: body ? 'POST' : 'GET',
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        throw new Error(`Ollama embedding error ${response.status}: ${response.statusText}`);
+      }
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Ollama embedding request timed out after ${this.timeout}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+// Embeddings from a local server with an OpenAI-compatible /embeddings endpoint
+// (LM Studio, llama.cpp server, LocalAI, vLLM)
+export class OpenAICompatibleEmbeddingBackend implements EmbeddingBackend {
+  readonly name: string;
+  private baseUrl: string;
+  private model: string;
+  private apiKey?: string;
+  private timeout: number;
+
+  constructor(model: string, baseUrl: string, apiKey?: string, timeout = DEFAULT_TIMEOUT) {
+    this.model = model;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.timeout = timeout;
+    this.name = `openai-compatible:${this.baseUrl}:${model}`;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const vectors = await this.embed(['ping']);
+      return vectors.length === 1 && vectors[0].length > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+        },
+        body: JSON.stringify({ model: this.model, input: texts }),
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        throw new Error(`Embedding error ${response.status}: ${response.statusText}`);
+      }
+
+      const data: any = await response.json();
+      const items: Array<{ index: number; embedding: number[] }> = data.data || [];
+      if (items.length !== texts.length) {
+        throw new Error(`Server returned ${items.length} embeddings for ${texts.length} inputs`);
+      }
+      return [...items].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Embedding request to ${this.baseUrl} timed out after ${this.timeout}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+// Picks a backend from the configured providers: the first enabled local
+// provider with parameters.embeddingModel set. Cloud providers are never used,
+// so the manuscript does not leave the machine to be indexed.
+export function createEmbeddingBackend(providers: ProviderPreference[]): EmbeddingBackend | null {
+  const provider = providers
+    .filter(candidate => candidate.enabled && candidate.type === 'local' && candidate.config?.parameters?.embeddingModel)
+    .sort((a, b) => b.priority - a.priority)[0];
+  if (!provider) {
+    return null;
+  }
+
+  const config = provider.config;
+  const model: string = config.parameters!.embeddingModel;
+
+  if (/ollama/i.test(provider.name)) {
+    // The setup wizard stores the Ollama address as a single endpoint URL
+    const baseUrl = config.endpoint ? new URL(config.endpoint).origin : `http://${config.host || 'localhost'}:${config.port || 11434}`;
+    return new OllamaEmbeddingBackend(model, baseUrl, config.timeout);
+  }
+
+  const baseUrl = config.endpoint || `http://${config.host || 'localhost'}:${config.port || 1234}/v1`;
+  return new OpenAICompatibleEmbeddingBackend(model, baseUrl, config.apiKey, config.timeout);
+}
@@ -0,0 +1,430 @@
+import { RetrievalOptions, RetrievedPassage } from '../../../shared/types/AI';
+import { Character, Story } from '../../../shared/types/Story';
+import { SearchIndex } from '../../database/SearchIndex';
+import { TokenizerRegistry } from '../inference/TokenizerRegistry';
+import { EmbeddingBackend } from './EmbeddingBackend';
+
+interface IndexedChunk {
+  passage: Omit<RetrievedPassage, 'score'>;
+  // What is searched and embedded: the label places the text in the story
+  embedText: string;
+  signature: string;
+  termCounts: Map<string, number>;
+  length: number;
+  vector?: number[];
+}
+
+const CHUNK_TOKENS = 200;
+const DEFAULT_TOP_K = 5;
+const EMBED_BATCH_SIZE = 32;
+
+// BM25 tuning constants
+const K1 = 1.2;
+const B = 0.75;
+
+// Reciprocal rank fusion constant; larger values flatten the difference between ranks
+const RRF_K = 60;
+
+// In-memory passage index over scene text, character profiles and world
+// building entries, used to attach relevant passages to AI requests. Passages
+// are ranked by BM25 and, when an embedding backend is available, also by
+// vector similarity, with the two rankings fused. Like SearchIndex it is
+// rebuilt on startup and never written to disk, so decrypted text and its
+// embeddings stay in memory.
+export class RetrievalIndex {
+  private chunks = new Map<string, IndexedChunk>();
+  private storyChunks = new Map<string, Set<string>>();
+  private postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+  private backend: EmbeddingBackend | null = null;
+  private backendReady = false;
+  private warnedUnavailable = false;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(backend: EmbeddingBackend | null = null) {
+    if (backend) {
+      this.setEmbeddingBackend(backend);
+    }
+  }
+
+  get size(): number {
+    return this.chunks.size;
+  }
+
+  // 'lexical' until an embedding backend has answered
+  get mode(): 'hybrid' | 'lexical' {
+    return this.backendReady ? 'hybrid' : 'lexical';
+  }
+
+  // Vectors from the previous backend are dropped and every passage is embedded again
+  setEmbeddingBackend(backend: EmbeddingBackend | null): Promise<void> {
+    this.backend = backend;
+    this.backendReady = false;
+    this.warnedUnavailable = false;
+    for (const chunk of this.chunks.values()) {
+      chunk.vector = undefined;
+    }
+    return this.enqueue(() => this.refreshVectors());
+  }
+
+  // Resolves once queued embedding work has finished
+  whenIdle(): Promise<void> {
+    return this.pending;
+  }
+
+  clear(): void {
+    this.chunks.clear();
+    this.storyChunks.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  // Re-indexes one story. Lexical search sees the new text straight away;
+  // the returned promise resolves once changed passages have been embedded.
+  // Passages whose text and location are unchanged keep their vectors.
+  indexStory(story: Story): Promise<void> {
+    const chunks = this.buildChunks(story);
+    const previousIds = this.storyChunks.get(story.id) || new Set<string>();
+    const nextIds = new Set(chunks.map(chunk => chunk.passage.id));
+
+    // Text that only moved (e.g. a renumbered chunk) does not need embedding again
+    const reusable = new Map<string, number[]>();
+    for (const id of previousIds) {
+      const chunk = this.chunks.get(id);
+      if (chunk?.vector) reusable.set(chunk.embedText, chunk.vector);
+    }
+
+    for (const id of previousIds) {
+      if (!nextIds.has(id)) this.removeChunk(id);
+    }
+
+    for (const chunk of chunks) {
+      const existing = this.chunks.get(chunk.passage.id);
+      if (existing && existing.signature === chunk.signature) continue;
+      if (existing) this.removeChunk(chunk.passage.id);
+      chunk.vector = reusable.get(chunk.embedText);
+      this.addChunk(chunk);
+    }
+
+    this.storyChunks.set(story.id, nextIds);
+    return this.enqueue(() => this.refreshVectors());
+  }
+
+  removeStory(storyId: string): void {
+    for (const id of this.storyChunks.get(storyId) || []) {
+      this.removeChunk(id);
+    }
+    this.storyChunks.delete(storyId);
+  }
+
+  // Top passages for the query. Passages that have not been embedded yet
+  // still take part through the lexical ranking.
+  async query(text: string, options: RetrievalOptions = {}): Promise<RetrievedPassage[]> {
+    const candidates = Array.from(this.chunks.values()).filter(chunk => this.matchesFilters(chunk, options));
+    if (candidates.length === 0 || !text.trim()) {
+      return [];
+    }
+
+    const lexical = this.rankLexical(text, candidates);
+    const semantic = await this.rankSemantic(text, candidates);
+
+    let scores: Map<string, number>;
+    if (semantic) {
+      scores = new Map();
+      for (const ranking of [lexical, semantic]) {
+        ranking.forEach(([id], rank) => scores.set(id, (scores.get(id) || 0) + 1 / (RRF_K + rank + 1)));
+      }
+    } else {
+      scores = new Map(lexical);
+    }
+
+    const topK = options.topK && options.topK > 0 ? options.topK : DEFAULT_TOP_K;
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, topK)
+      .map(([id, score]) => ({ ...this.chunks.get(id)!.passage, score }));
+  }
+
+  // Prompt text for retrieved passages, numbered so the model can cite them
+  static formatPassages(passages: RetrievedPassage[]): string {
+    const entries = passages.map((passage, index) => `[${index + 1}] ${passage.label}\n${passage.text}`);
+    return `Relevant passages from the manuscript:\n\n${entries.join('\n\n')}`;
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.pending = this.pending.then(task).catch(error => {
+      console.warn('Failed to update retrieval index:', error);
+    });
+    return this.pending;
+  }
+
+  // Embeds every passage without a vector. An unavailable backend is checked
+  // again on the next update, so starting the embedding service later is enough.
+  private async refreshVectors(): Promise<void> {
+    const backend = this.backend;
+    if (!backend) {
+      return;
+    }
+
+    if (!this.backendReady) {
+      const available = await backend.isAvailable().catch(() => false);
+      if (this.backend !== backend) return;
+      if (!available) {
+        if (!this.warnedUnavailable) {
+          console.warn(`Embedding backend ${backend.name} is not available, using lexical retrieval`);
+          this.warnedUnavailable = true;
+        }
+        return;
+      }
+      this.backendReady = true;
+    }
+
+    const missing = Array.from(this.chunks.values()).filter(chunk => !chunk.vector);
+    for (let start = 0; start < missing.length; start += EMBED_BATCH_SIZE) {
+      const batch = missing.slice(start, start + EMBED_BATCH_SIZE);
+      let vectors: number[][];
+      try {
+        vectors = await backend.embed(batch.map(chunk => chunk.embedText));
+      } catch (error) {
+        console.warn(`Failed to embed ${missing.length - start} passages with ${backend.name}:`, error);
+        return;
+      }
+
+      // The backend may have been replaced while the batch was out
+      if (this.backend !== backend) return;
+      batch.forEach((chunk, index) => (chunk.vector = vectors[index]));
+    }
+  }
+
+  private matchesFilters(chunk: IndexedChunk, options: RetrievalOptions): boolean {
+    const { passage } = chunk;
+    if (options.storyId && passage.storyId !== options.storyId) return false;
+    if (options.types && options.types.length > 0 && !options.types.includes(passage.type)) return false;
+    if (passage.sceneId && options.excludeSceneIds?.includes(passage.sceneId)) return false;
+    return true;
+  }
+
+  private rankLexical(text: string, candidates: IndexedChunk[]): Array<[string, number]> {
+    const terms = Array.from(new Set(SearchIndex.tokenize(text).map(token => token.term)));
+    const averageLength = this.chunks.size > 0 ? this.totalLength / this.chunks.size : 1;
+    const candidateIds = new Set(candidates.map(chunk => chunk.passage.id));
+    const scores = new Map<string, number>();
+
+    for (const term of terms) {
+      const ids = this.postings.get(term);
+      if (!ids) continue;
+
+      const idf = Math.log(1 + (this.chunks.size - ids.size + 0.5) / (ids.size + 0.5));
+      for (const id of ids) {
+        if (!candidateIds.has(id)) continue;
+        const chunk = this.chunks.get(id)!;
+        const frequency = chunk.termCounts.get(term)!;
+        const score = idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * chunk.length / averageLength));
+        scores.set(id, (scores.get(id) || 0) + score);
+      }
+    }
+
+    return Array.from(scores.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  }
+
+  // Null when there is nothing to compare against, so the caller uses BM25 alone
+  private async rankSemantic(text: string, candidates: IndexedChunk[]): Promise<Array<[string, number]> | null> {
+    const backend = this.backend;
+    const embedded = candidates.filter(chunk => chunk.vector);
+    if (!backend || !this.backendReady || embedded.length === 0) {
+      return null;
+    }
+
+    let queryVector: number[];
+    try {
+      [queryVector] = await backend.embed([text]);
+    } catch (error) {
+      console.warn(`Failed to embed query with ${backend.name}, using lexical retrieval:`, error);
+      return null;
+    }
+
+    return embedded
+      .map(chunk => [chunk.passage.id, this.cosineSimilarity(queryVector, chunk.vector!)] as [string, number])
+      .filter(([, similarity]) => similarity > 0)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length) return 0;
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
+  private addChunk(chunk: IndexedChunk): void {
+    const id = chunk.passage.id;
+    this.chunks.set(id, chunk);
+    this.totalLength += chunk.length;
+
+    for (const term of chunk.termCounts.keys()) {
+      let ids = this.postings.get(term);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(term, ids);
+      }
+      ids.add(id);
+    }
+  }
+
+  private removeChunk(id: string): void {
+    const chunk = this.chunks.get(id);
+    if (!chunk) return;
+
+    for (const term of chunk.termCounts.keys()) {
+      const ids = this.postings.get(term);
+      ids?.delete(id);
+      if (ids && ids.size === 0) this.postings.delete(term);
+    }
+
+    this.totalLength -= chunk.length;
+    this.chunks.delete(id);
+  }
+
+  private buildChunks(story: Story): IndexedChunk[] {
+    const chunks: IndexedChunk[] = [];
+
+    const add = (passage: Omit<RetrievedPassage, 'score' | 'storyId'>) => {
+      const embedText = `${passage.label}\n${passage.text}`;
+      const tokens = SearchIndex.tokenize(embedText);
+      const termCounts = new Map<string, number>();
+      for (const token of tokens) {
+        termCounts.set(token.term, (termCounts.get(token.term) || 0) + 1);
+      }
+
+      const full = { ...passage, storyId: story.id };
+      chunks.push({
+        passage: full,
+        embedText,
+        signature: JSON.stringify(full),
+        termCounts,
+        length: tokens.length
+      });
+    };
+
+    const chapters = [...(story.chapters || [])].sort((a, b) => a.order - b.order);
+    for (const chapter of chapters) {
+      const chapterLabel = `Chapter ${chapter.order} (${chapter.title})`;
+      const scenes = [...(chapter.scenes || [])].sort((a, b) => a.order - b.order);
+
+      // Chapters written without scene breaks are indexed from the chapter text
+      if (scenes.length === 0) {
+        this.splitText(chapter.content || '').forEach((text, index) => add({
+          id: `chapter:${chapter.id}:${index}`,
+          type: 'chapter',
+          label: chapterLabel,
+          text,
+          chapterId: chapter.id
+        }));
+      }
+
+      for (const scene of scenes) {
+        this.splitText(scene.content || '').forEach((text, index) => add({
+          id: `scene:${scene.id}:${index}`,
+          type: 'scene',
+          label: `${chapterLabel}, ${scene.title || `scene ${scene.order}`}`,
+          text,
+          chapterId: chapter.id,
+          sceneId: scene.id
+        }));
+      }
+    }
+
+    for (const character of story.characters || []) {
+      add({
+        id: `character:${character.id}`,
+        type: 'character',
+        label: `Character: ${character.name}`,
+        text: this.formatCharacter(character),
+        characterId: character.id
+      });
+    }
+
+    if (story.setting) {
+      add({ id: `world:${story.id}:setting`, type: 'world', label: 'Setting', text: story.setting });
+    }
+    for (const [kind, entries] of [['location', story.worldBuilding?.locations], ['item', story.worldBuilding?.items]] as const) {
+      for (const entry of entries || []) {
+        add({
+          id: `world:${story.id}:${kind}:${entry.name}`,
+          type: 'world',
+          label: `World: ${entry.name}`,
+          text: entry.description || entry.name
+        });
+      }
+    }
+
+    return chunks;
+  }
+
+  private formatCharacter(character: Character): string {
+    const lines = [`${character.name}${character.aliases?.length ? ` (also ${character.aliases.join(', ')})` : ''}`];
+    if (character.description) {
+      lines.push(character.description);
+    }
+
+    const traits = character.traits;
+    if (traits) {
+      const traitLines: Array<[string, string[]]> = [
+        ['Personality', traits.personality],
+        ['Motivations', traits.motivations],
+        ['Fears', traits.fears],
+        ['Strengths', traits.strengths],
+        ['Weaknesses', traits.weaknesses]
+      ];
+      for (const [label, values] of traitLines) {
+        if (values && values.length > 0) {
+          lines.push(`${label}: ${values.join(', ')}`);
+        }
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  // Splits prose into passages of about CHUNK_TOKENS, at paragraph breaks
+  // where possible and at sentence ends inside long paragraphs
+  private splitText(text: string): string[] {
+    const paragraphs = text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+    const pieces = paragraphs.flatMap((paragraph, index) => {
+      const sentences = TokenizerRegistry.countTokens(paragraph) > CHUNK_TOKENS
+        ? paragraph.match(/[^.!?]+[.!?]+["'”’]?|[^.!?]+$/g) || [paragraph]
+        : [paragraph];
+      return sentences.map(sentence => ({ text: sentence.trim(), paragraph: index }));
+    });
+
+    const chunks: string[] = [];
+    let current = '';
+    let currentTokens = 0;
+    let currentParagraph = -1;
+    for (const piece of pieces) {
+      const tokens = TokenizerRegistry.countTokens(piece.text);
+      if (current && currentTokens + tokens > CHUNK_TOKENS) {
+        chunks.push(current);
+        current = '';
+        currentTokens = 0;
+      }
+      // Sentences of one paragraph are rejoined with a space
+      const separator = !current ? '' : piece.paragraph === currentParagraph ? ' ' : '\n\n';
+      current += separator + piece.text;
+      currentTokens += tokens;
+      currentParagraph = piece.paragraph;
+    }
+    if (current) {
+      chunks.push(current);
+    }
+
+    return chunks;
+  }
+}
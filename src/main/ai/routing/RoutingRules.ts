@@ -0,0 +1,241 @@
+import { RoutingConditions, RoutingFacts, RoutingRule, RuleEvaluation } from '../../../shared/types/AI';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Used until routing rules are saved: analysis and planning go to the co-writer
+// model, open-ended generation to cloud providers
+export const DEFAULT_ROUTING_RULES: RoutingRule[] = [
+  // Co-writer AI handles core creative tasks
+  {
+    requestType: 'outline',
+    preferredProviderType: 'cowriter',
+    fallbackStrategy: 'priority',
+    requireOffline: false
+  },
+  {
+    requestType: 'character_analysis',
+    preferredProviderType: 'cowriter',
+    fallbackStrategy: 'priority',
+    requireOffline: false
+  },
+  {
+    requestType: 'scene_structure',
+    preferredProviderType: 'cowriter',
+    fallbackStrategy: 'priority',
+    requireOffline: false
+  },
+  {
+    requestType: 'story_analysis',
+    preferredProviderType: 'cowriter',
+    fallbackStrategy: 'priority',
+    requireOffline: false
+  },
+  {
+    requestType: 'plot_hole_detection',
+    preferredProviderType: 'cowriter',
+    fallbackStrategy: 'priority',
+    requireOffline: false
+  },
+  {
+    requestType: 'pacing_analysis',
+    preferredProviderType: 'cowriter',
+    fallbackStrategy: 'priority',
+    requireOffline: false
+  },
+  {
+    requestType: 'consistency_check',
+    preferredProviderType: 'cowriter',
+    fallbackStrategy: 'priority',
+    requireOffline: false
+  },
+  {
+    requestType: 'manuscript_analysis',
+    preferredProviderType: 'cowriter',
+    fallbackStrategy: 'priority',
+    requireOffline: false
+  },
+  
+  // Cloud AI for complex generation tasks
+  {
+    requestType: 'prose_generation',
+    preferredProviderType: 'cloud',
+    fallbackStrategy: 'performance',
+    requireOffline: false
+  },
+  {
+    requestType: 'dialogue_generation',
+    preferredProviderType: 'cloud',
+    fallbackStrategy: 'performance',
+    requireOffline: false
+  },
+  {
+    requestType: 'research',
+    preferredProviderType: 'cloud',
+    fallbackStrategy: 'priority',
+    requireOffline: false
+  },
+  {
+    requestType: 'brainstorming',
+    preferredProviderType: 'cloud',
+    fallbackStrategy: 'load_balance',
+    requireOffline: false
+  },
+  {
+    requestType: 'assistant_chat',
+    preferredProviderType: 'cloud',
+    fallbackStrategy: 'performance',
+    requireOffline: false
+  },
+
+  // Inline suggestions are requested while the writer types, so the fastest wins
+  {
+    requestType: 'infill',
+    preferredProviderType: 'local',
+    fallbackStrategy: 'performance',
+    requireOffline: false
+  }
+];
+
+// Ordered evaluation of routing rules. Rules are checked in list order and the
+// first enabled rule whose request type and conditions all hold is used.
+export class RoutingRules {
+  static evaluate(rules: RoutingRule[], facts: RoutingFacts): { matched: RoutingRule | null; evaluations: RuleEvaluation[] } {
+    const evaluations: RuleEvaluation[] = [];
+
+    for (let index = 0; index < rules.length; index++) {
+      const rule = rules[index];
+      const evaluation = { index, rule, ...this.check(rule, facts) };
+      evaluations.push(evaluation);
+      if (evaluation.matched) {
+        return { matched: rule, evaluations };
+      }
+    }
+
+    return { matched: null, evaluations };
+  }
+
+  static check(rule: RoutingRule, facts: RoutingFacts): { matched: boolean; reasons: string[] } {
+    if (rule.enabled === false) {
+      return { matched: false, reasons: ['rule is disabled'] };
+    }
+    if (rule.requestType && rule.requestType !== facts.requestType) {
+      return { matched: false, reasons: [`request type is ${facts.requestType}, not ${rule.requestType}`] };
+    }
+
+    const reasons = rule.requestType ? [`request type is ${rule.requestType}`] : [];
+    for (const check of this.conditionChecks(rule.when || {}, facts)) {
+      if (!check.passed) {
+        return { matched: false, reasons: [check.reason] };
+      }
+      reasons.push(check.reason);
+    }
+
+    return { matched: true, reasons: reasons.length > 0 ? reasons : ['rule has no conditions'] };
+  }
+
+  // Problems that would stop a rule from working as intended, for settings editors
+  static validate(rule: RoutingRule): string[] {
+    const problems: string[] = [];
+    const when = rule.when || {};
+
+    if (when.minTokens !== undefined && when.maxTokens !== undefined && when.minTokens > when.maxTokens) {
+      problems.push('minTokens is larger than maxTokens');
+    }
+    if (when.timeWindow) {
+      for (const [key, value] of Object.entries(when.timeWindow)) {
+        if (!TIME_PATTERN.test(value)) {
+          problems.push(`timeWindow.${key} must be HH:MM, got "${value}"`);
+        }
+      }
+    }
+    if (when.budgetRemainingBelow !== undefined && when.budgetRemainingBelow < 0) {
+      problems.push('budgetRemainingBelow cannot be negative');
+    }
+    if (when.providerHealth && !when.providerHealth.provider) {
+      problems.push('providerHealth needs a provider name');
+    }
+    if (rule.fallbackChain && rule.fallbackChain.some(name => !name)) {
+      problems.push('fallbackChain contains an empty provider name');
+    }
+
+    return problems;
+  }
+
+  // HH:MM of a date in local time
+  static timeOf(date: Date): string {
+    return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+  }
+
+  private static conditionChecks(when: RoutingConditions, facts: RoutingFacts): Array<{ passed: boolean; reason: string }> {
+    const checks: Array<{ passed: boolean; reason: string }> = [];
+
+    if (when.minTokens !== undefined) {
+      checks.push({
+        passed: facts.estimatedTokens >= when.minTokens,
+        reason: `~${facts.estimatedTokens} tokens ${facts.estimatedTokens >= when.minTokens ? 'is at least' : 'is under'} ${when.minTokens}`
+      });
+    }
+    if (when.maxTokens !== undefined) {
+      checks.push({
+        passed: facts.estimatedTokens <= when.maxTokens,
+        reason: `~${facts.estimatedTokens} tokens ${facts.estimatedTokens <= when.maxTokens ? 'is at most' : 'is over'} ${when.maxTokens}`
+      });
+    }
+
+    if (when.storyTags && when.storyTags.length > 0) {
+      const wanted = when.storyTags.map(tag => tag.toLowerCase());
+      const found = facts.storyTags.filter(tag => wanted.includes(tag.toLowerCase()));
+      checks.push({
+        passed: found.length > 0,
+        reason: found.length > 0
+          ? `story is tagged ${found.join(', ')}`
+          : `story has none of the tags ${when.storyTags.join(', ')}`
+      });
+    }
+
+    if (when.contentRatings && when.contentRatings.length > 0) {
+      const rating = facts.contentRating;
+      const passed = !!rating && when.contentRatings.some(candidate => candidate.toLowerCase() === rating.toLowerCase());
+      checks.push({
+        passed,
+        reason: passed
+          ? `content rating is ${rating}`
+          : `content rating ${rating ? `is ${rating}` : 'is not set'}, not one of ${when.contentRatings.join(', ')}`
+      });
+    }
+
+    if (when.timeWindow) {
+      const { start, end } = when.timeWindow;
+      const passed = this.inTimeWindow(facts.time, start, end);
+      checks.push({ passed, reason: `${facts.time} is ${passed ? 'within' : 'outside'} ${start}-${end}` });
+    }
+
+    if (when.budgetRemainingBelow !== undefined) {
+      const remaining = facts.budgetRemaining;
+      const passed = remaining !== null && remaining < when.budgetRemainingBelow;
+      checks.push({
+        passed,
+        reason: remaining === null
+          ? 'no budget covers the request'
+          : `$${remaining.toFixed(2)} of budget left is ${passed ? 'below' : 'not below'} $${when.budgetRemainingBelow.toFixed(2)}`
+      });
+    }
+
+    if (when.providerHealth) {
+      const { provider, states } = when.providerHealth;
+      const state = facts.providerHealth[provider] || 'unhealthy';
+      const passed = states.includes(state);
+      checks.push({ passed, reason: `${provider} is ${state}${passed ? '' : `, not ${states.join(' or ')}`}` });
+    }
+
+    return checks;
+  }
+
+  // Windows whose end is before their start wrap past midnight (22:00-06:00)
+  private static inTimeWindow(time: string, start: string, end: string): boolean {
+    if (start <= end) {
+      return time >= start && time < end;
+    }
+    return time >= start || time < end;
+  }
+}
@@ -1,5 +1,10 @@
 import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import { LocalAIOption } from './SetupWizard';
+import { SystemChecker } from './SystemChecker';
 
 export interface ModelInfo {
   name: string;
@@ -16,12 +21,37 @@ export interface ModelInfo {
     diskSpace: string;
   };
   downloadUrl?: string;
+  sha256?: string;
+  fileName?: string;
   tags?: string[];
 }
 
+// Entry in a model manifest, which pins where a model file comes from and its checksum
+export interface ModelManifestEntry {
+  name: string;
+  url: string;
+  sha256: string;
+  sizeBytes?: number;
+  fileName?: string;
+}
+
+export type DownloadState = 'queued' | 'downloading' | 'paused';
+
+export interface QueuedDownload {
+  modelName: string;
+  state: DownloadState;
+  downloadedBytes: number;
+  totalBytes: number;
+}
+
+export interface ModelDownloaderOptions {
+  modelsDirectory?: string;
+  maxConcurrentDownloads?: number;
+}
+
 export interface DownloadProgress {
   modelName: string;
-  stage: 'preparing' | 'downloading' | 'extracting' | 'verifying' | 'complete' | 'failed';
+  stage: 'preparing' | 'downloading' | 'paused' | 'extracting' | 'verifying' | 'complete' | 'failed';
   progress: number; // 0-100
   downloadedBytes: number;
   totalBytes: number;
@@ -39,8 +69,33 @@ export interface DownloadResult {
   finalSize?: string;
 }
 
+interface DownloadJob {
+  model: ModelInfo;
+  url: string;
+  sha256?: string;
+  filePath: string;
+  state: DownloadState | 'cancelled';
+  controller?: AbortController;
+  downloadedBytes: number;
+  totalBytes: number;
+  result: Promise<DownloadResult>;
+  resolve: (result: DownloadResult) => void;
+}
+
+const PROGRESS_INTERVAL_MS = 250;
+
 export class ModelDownloader extends EventEmitter {
   private activeDownloads: Map<string, AbortController> = new Map();
+  private downloadJobs: Map<string, DownloadJob> = new Map();
+  private manifest: Map<string, ModelManifestEntry> = new Map();
+  private modelsDirectory: string;
+  private maxConcurrentDownloads: number;
+
+  constructor(options: ModelDownloaderOptions = {}) {
+    super();
+    this.modelsDirectory = options.modelsDirectory || './models';
+    this.maxConcurrentDownloads = options.maxConcurrentDownloads || 2;
+  }
 
   async downloadRecommendedModels(option: LocalAIOption): Promise<DownloadResult[]> {
     const recommendedModels = this.getRecommendedModels(option);
@@ -82,6 +137,11 @@ export class ModelDownloader extends EventEmitter {
     const warnings: string[] = [];
 
     try {
+      // Models with a file to fetch go through the download queue
+      if (model.downloadUrl || this.manifest.has(model.name)) {
+        return await this.queueDownload(model);
+      }
+
       switch (option.type) {
         case 'ollama':
           return await this.downloadOllamaModel(model);
@@ -236,6 +296,290 @@ export class ModelDownloader extends EventEmitter {
     }
   }
 
+  // Load a JSON manifest ({ "models": [...] }) from a file path or URL.
+  // Downloads of models it lists are verified against its checksums.
+  async loadManifest(source: string): Promise<ModelManifestEntry[]> {
+    let data: any;
+    if (/^https?:\/\//.test(source)) {
+      const response = await fetch(source);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch model manifest: ${response.status} ${response.statusText}`);
+      }
+      data = await response.json();
+    } else {
+      data = JSON.parse(await fs.readFile(source, 'utf-8'));
+    }
+
+    const entries: ModelManifestEntry[] = Array.isArray(data?.models) ? data.models : [];
+    for (const entry of entries) {
+      if (!entry.name || !entry.url || !/^[a-f0-9]{64}$/i.test(entry.sha256 || '')) {
+        throw new Error(`Invalid model manifest entry: ${entry.name || JSON.stringify(entry)} needs a name, url and SHA-256 checksum`);
+      }
+    }
+    entries.forEach(entry => this.manifest.set(entry.name, { ...entry, sha256: entry.sha256.toLowerCase() }));
+    return entries;
+  }
+
+  // Queue a model file download. Resolves when the download completes, fails
+  // or is cancelled; pausing leaves it pending until it is resumed.
+  queueDownload(model: ModelInfo): Promise<DownloadResult> {
+    const existing = this.downloadJobs.get(model.name);
+    if (existing) {
+      return existing.result;
+    }
+
+    const entry = this.manifest.get(model.name);
+    const url = entry?.url || model.downloadUrl;
+    if (!url) {
+      return Promise.resolve({
+        success: false,
+        modelName: model.name,
+        error: `No download URL for ${model.name}`,
+        warnings: []
+      });
+    }
+
+    const fileName = entry?.fileName || model.fileName || path.basename(new URL(url).pathname) || model.name;
+    let resolve!: (result: DownloadResult) => void;
+    const result = new Promise<DownloadResult>(done => { resolve = done; });
+    this.downloadJobs.set(model.name, {
+      model,
+      url,
+      sha256: (entry?.sha256 || model.sha256)?.toLowerCase(),
+      filePath: path.join(this.modelsDirectory, fileName),
+      state: 'queued',
+      downloadedBytes: 0,
+      totalBytes: entry?.sizeBytes || model.sizeBytes,
+      result,
+      resolve
+    });
+
+    this.pumpQueue();
+    return result;
+  }
+
+  // Stop a queued or running download, keeping what has been downloaded
+  pauseDownload(modelName: string): boolean {
+    const job = this.downloadJobs.get(modelName);
+    if (!job || (job.state !== 'queued' && job.state !== 'downloading')) {
+      return false;
+    }
+
+    job.state = 'paused';
+    job.controller?.abort();
+    return true;
+  }
+
+  resumeDownload(modelName: string): boolean {
+    const job = this.downloadJobs.get(modelName);
+    if (!job || job.state !== 'paused') {
+      return false;
+    }
+
+    job.state = 'queued';
+    this.pumpQueue();
+    return true;
+  }
+
+  getDownloadQueue(): QueuedDownload[] {
+    return Array.from(this.downloadJobs.values()).map(job => ({
+      modelName: job.model.name,
+      state: job.state as DownloadState,
+      downloadedBytes: job.downloadedBytes,
+      totalBytes: job.totalBytes
+    }));
+  }
+
+  private pumpQueue(): void {
+    const jobs = Array.from(this.downloadJobs.values());
+    const running = jobs.filter(job => job.controller).length;
+    // A paused job that is still shutting down keeps its slot until it has stopped
+    jobs
+      .filter(job => job.state === 'queued' && !job.controller)
+      .slice(0, Math.max(this.maxConcurrentDownloads - running, 0))
+      .forEach(job => this.startDownload(job));
+  }
+
+  private async startDownload(job: DownloadJob): Promise<void> {
+    const name = job.model.name;
+    const controller = new AbortController();
+    job.state = 'downloading';
+    job.controller = controller;
+    this.activeDownloads.set(name, controller);
+
+    let result: DownloadResult | null;
+    try {
+      result = await this.downloadFile(job, controller.signal);
+    } catch (error) {
+      // pauseDownload/cancelDownload set the state before aborting
+      const state = job.state as DownloadJob['state'];
+      if (state === 'paused') {
+        result = null;
+        this.emitFileProgress(job, 'paused', 'Download paused');
+      } else if (state === 'cancelled') {
+        await fs.rm(`${job.filePath}.part`, { force: true });
+        result = { success: false, modelName: name, error: 'Download was cancelled', warnings: [] };
+      } else {
+        result = { success: false, modelName: name, error: (error as Error).message, warnings: [] };
+        this.emitFileProgress(job, 'failed', (error as Error).message);
+      }
+    } finally {
+      job.controller = undefined;
+      if (this.activeDownloads.get(name) === controller) {
+        this.activeDownloads.delete(name);
+      }
+    }
+
+    if (result) {
+      this.downloadJobs.delete(name);
+      job.resolve(result);
+    }
+    this.pumpQueue();
+  }
+
+  // Download into <file>.part, resuming with an HTTP Range request when a
+  // partial file exists, then verify the checksum and rename it into place
+  private async downloadFile(job: DownloadJob, signal: AbortSignal): Promise<DownloadResult> {
+    const { model, filePath } = job;
+    const partPath = `${filePath}.part`;
+    const warnings: string[] = [];
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    if (await this.fileSize(filePath) !== null) {
+      if (!job.sha256 || await this.sha256Of(filePath) === job.sha256) {
+        return { success: true, modelName: model.name, warnings: ['Model is already downloaded'], installPath: filePath };
+      }
+      warnings.push('Existing model file failed verification and was downloaded again');
+    }
+
+    let offset = (await this.fileSize(partPath)) || 0;
+    const space = await new SystemChecker().checkFreeSpace(path.dirname(filePath), Math.max(job.totalBytes - offset, 0));
+    if (space.status === 'fail') {
+      throw new Error(space.message);
+    }
+    if (space.status === 'warning') {
+      warnings.push(space.message);
+    }
+
+    this.emitFileProgress(job, 'preparing', offset > 0 ? `Resuming ${model.displayName}...` : `Preparing to download ${model.displayName}...`);
+
+    const response = await fetch(job.url, {
+      headers: offset > 0 ? { Range: `bytes=${offset}-` } : {},
+      signal
+    });
+
+    // 416 means the partial file already has every byte; verification decides if it is good
+    if (!(response.status === 416 && offset > 0)) {
+      if (!response.ok) {
+        throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+      }
+      if (offset > 0 && response.status !== 206) {
+        warnings.push('Server does not support resuming; the download restarted');
+        offset = 0;
+      }
+
+      const contentLength = Number(response.headers.get('content-length')) || 0;
+      const rangeTotal = Number(response.headers.get('content-range')?.split('/')[1]) || 0;
+      job.totalBytes = rangeTotal || (contentLength ? offset + contentLength : job.totalBytes);
+      job.downloadedBytes = offset;
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new Error('No response body available');
+      }
+
+      const file = await fs.open(partPath, offset > 0 ? 'a' : 'w');
+      const startTime = Date.now();
+      let lastProgress = 0;
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          await file.write(value);
+          job.downloadedBytes += value.length;
+
+          if (Date.now() - lastProgress >= PROGRESS_INTERVAL_MS) {
+            lastProgress = Date.now();
+            const elapsed = (Date.now() - startTime) / 1000;
+            const sessionBytes = job.downloadedBytes - offset;
+            this.emitFileProgress(job, 'downloading', `Downloading ${model.displayName}`, {
+              speed: elapsed > 0 ? this.formatSpeed(sessionBytes / elapsed) : '0 B/s',
+              eta: this.calculateETA(sessionBytes, job.totalBytes - offset, elapsed)
+            });
+          }
+        }
+      } finally {
+        await file.close();
+      }
+    }
+
+    this.emitFileProgress(job, 'verifying', `Verifying ${model.displayName}...`);
+    if (job.sha256) {
+      const actual = await this.sha256Of(partPath);
+      if (actual !== job.sha256) {
+        await fs.rm(partPath, { force: true });
+        throw new Error(`Checksum mismatch for ${model.name}: expected ${job.sha256}, got ${actual}`);
+      }
+    } else {
+      warnings.push('No checksum available; the download was not verified');
+    }
+
+    if (signal.aborted) {
+      throw new Error('Download was stopped during verification');
+    }
+
+    // Only a complete, verified file ever appears under the final name
+    await fs.rename(partPath, filePath);
+    const finalBytes = (await this.fileSize(filePath)) || job.downloadedBytes;
+    job.downloadedBytes = job.totalBytes = finalBytes;
+    this.emitFileProgress(job, 'complete', 'Download completed successfully!');
+
+    return {
+      success: true,
+      modelName: model.name,
+      warnings,
+      installPath: filePath,
+      finalSize: `${(finalBytes / (1024 * 1024 * 1024)).toFixed(1)}GB`
+    };
+  }
+
+  private emitFileProgress(
+    job: DownloadJob,
+    stage: DownloadProgress['stage'],
+    message: string,
+    rate: { speed: string; eta: string } = { speed: '0 B/s', eta: stage === 'complete' ? '0s' : 'calculating...' }
+  ): void {
+    this.emit('modelProgress', {
+      modelName: job.model.name,
+      stage,
+      progress: job.totalBytes > 0 ? Math.min(100, Math.round((job.downloadedBytes / job.totalBytes) * 100)) : 0,
+      downloadedBytes: job.downloadedBytes,
+      totalBytes: job.totalBytes,
+      speed: rate.speed,
+      eta: rate.eta,
+      message
+    } as DownloadProgress);
+  }
+
+  private async fileSize(filePath: string): Promise<number | null> {
+    try {
+      return (await fs.stat(filePath)).size;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private sha256Of(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = createHash('sha256');
+      createReadStream(filePath)
+        .on('data', chunk => hash.update(chunk))
+        .on('error', reject)
+        .on('end', () => resolve(hash.digest('hex')));
+    });
+  }
+
   private async downloadLMStudioModel(model: ModelInfo): Promise<DownloadResult> {
     // LM Studio models are typically downloaded through the GUI
     // We can provide instructions instead of automated download
@@ -430,8 +774,20 @@ export class ModelDownloader extends EventEmitter {
   }
 
   cancelDownload(modelName: string): boolean {
+    const job = this.downloadJobs.get(modelName);
+    if (job && !job.controller) {
+      // Queued or paused: nothing is running, so settle it here
+      this.downloadJobs.delete(modelName);
+      fs.rm(`${job.filePath}.part`, { force: true }).catch(() => {});
+      job.resolve({ success: false, modelName, error: 'Download was cancelled', warnings: [] });
+      return true;
+    }
+
     const controller = this.activeDownloads.get(modelName);
     if (controller) {
+      if (job) {
+        job.state = 'cancelled';
+      }
       controller.abort();
       this.activeDownloads.delete(modelName);
       return true;
@@ -440,6 +796,9 @@ export class ModelDownloader extends EventEmitter {
   }
 
   cancelAllDownloads(): void {
+    for (const modelName of Array.from(this.downloadJobs.keys())) {
+      this.cancelDownload(modelName);
+    }
     for (const [modelName, controller] of this.activeDownloads) {
       controller.abort();
     }
@@ -1,5 +1,7 @@
 import { EventEmitter } from 'events';
 import { ConfigManager } from '../../config/ConfigManager';
+import { ModelMetadata } from '../inference/ModelLoader';
+import { SystemRequirement } from './SystemChecker';
 
 // Setup wizard interfaces
 export interface SetupStep {
@@ -206,6 +208,16 @@ export class SetupWizard extends EventEmitter {
     }
   }
 
+  // Model details and a memory check for a local model file, read from the
+  // file itself so nothing has to be loaded
+  async inspectModel(modelPath: string, contextWindow?: number): Promise<{ metadata: ModelMetadata | null; requirement: SystemRequirement }> {
+    const { SystemChecker } = await import('./SystemChecker');
+    const { inspectModel } = await import('../inference/ModelLoader');
+    const requirement = await new SystemChecker().checkModelFile(modelPath, contextWindow);
+    const metadata = requirement.status === 'unknown' ? null : await inspectModel(modelPath, { contextWindow });
+    return { metadata, requirement };
+  }
+
   // Step implementations will be added in separate files
   private async checkSystemRequirements(): Promise<any> {
     // Implementation in SystemChecker.ts
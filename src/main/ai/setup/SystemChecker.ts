@@ -2,6 +2,7 @@ import * as os from 'os';
 import * as fs from 'fs/promises';
 import { execSync } from 'child_process';
 import { LocalAIOption } from './SetupWizard';
+import { inspectModel } from '../inference/ModelLoader';
 
 export interface SystemRequirement {
   name: string;
@@ -444,4 +445,82 @@ export class SystemChecker {
       uptime: Math.round(os.uptime() / 3600) + ' hours'
     };
   }
+
+  // Check a downloaded GGUF/ONNX model against this machine's memory,
+  // using the metadata in the file rather than running it
+  async checkModelFile(modelPath: string, contextWindow?: number): Promise<SystemRequirement> {
+    try {
+      const metadata = await inspectModel(modelPath, { contextWindow });
+      const requiredGB = (metadata.memoryRequired || 0) / (1024 * 1024 * 1024);
+      const totalGB = os.totalmem() / (1024 * 1024 * 1024);
+
+      let status: 'pass' | 'fail' | 'warning' = 'pass';
+      let message = `${metadata.name} needs about ${requiredGB.toFixed(1)}GB of ${totalGB.toFixed(1)}GB RAM`;
+
+      if (requiredGB > totalGB) {
+        status = 'fail';
+        message = `Insufficient RAM for ${metadata.name}: needs about ${requiredGB.toFixed(1)}GB, ${totalGB.toFixed(1)}GB available`;
+      } else if (requiredGB > os.freemem() / (1024 * 1024 * 1024)) {
+        status = 'warning';
+        message = `${metadata.name} needs about ${requiredGB.toFixed(1)}GB, more than is free right now`;
+      }
+
+      return {
+        name: 'Model Memory',
+        required: true,
+        status,
+        message,
+        details: `${metadata.architecture}, ${metadata.parameters} parameters, ${metadata.quantization}, ` +
+          `${metadata.contextWindow} token context, ${metadata.format?.toUpperCase()} file`,
+        fixSuggestion: status === 'fail'
+          ? 'Choose a smaller or more heavily quantized model, or lower the context window'
+          : status === 'warning' ? 'Close other applications before loading the model' : undefined
+      };
+    } catch (error) {
+      return {
+        name: 'Model Memory',
+        required: true,
+        status: 'unknown',
+        message: `Could not read model file: ${(error as Error).message}`,
+        fixSuggestion: 'Check that the file is a complete GGUF or ONNX model'
+      };
+    }
+  }
+  // Free space check before writing a file of a known size, e.g. a model download
+  async checkFreeSpace(directory: string, requiredBytes: number): Promise<SystemRequirement> {
+    try {
+      const stats = await fs.statfs(directory);
+      const freeBytes = stats.bavail * stats.bsize;
+      const freeGB = (freeBytes / (1024 * 1024 * 1024)).toFixed(1);
+      const requiredGB = (requiredBytes / (1024 * 1024 * 1024)).toFixed(1);
+
+      let status: 'pass' | 'fail' | 'warning' = 'pass';
+      let message = `${freeGB}GB free in ${directory} (${requiredGB}GB needed)`;
+
+      if (freeBytes < requiredBytes) {
+        status = 'fail';
+        message = `Insufficient storage in ${directory}: ${freeGB}GB free, ${requiredGB}GB needed`;
+      } else if (freeBytes < requiredBytes * 1.1) {
+        status = 'warning';
+        message = `Storage in ${directory} will be nearly full: ${freeGB}GB free, ${requiredGB}GB needed`;
+      }
+
+      return {
+        name: 'Storage Space',
+        required: true,
+        status,
+        message,
+        details: `Free space: ${freeBytes} bytes, Required: ${requiredBytes} bytes`,
+        fixSuggestion: status === 'fail' ? 'Free up disk space or choose a different download location' : undefined
+      };
+    } catch (error) {
+      return {
+        name: 'Storage Space',
+        required: true,
+        status: 'unknown',
+        message: `Could not check available storage space in ${directory}`,
+        details: (error as Error).message
+      };
+    }
+  }
 }
\ No newline at end of file
@@ -277,9 +277,8 @@ export class OllamaConfigurator extends EventEmitter {
   }
 
   private async saveConfiguration(config: OllamaConfig): Promise<void> {
-    // Save to config manager
-    await this.configManager.updateAIProvider('ollama', {
-      type: 'local',
+    const provider = {
+      type: 'local' as const,
       name: 'Ollama',
       enabled: true,
       config: {
@@ -289,7 +288,16 @@ export class OllamaConfigurator extends EventEmitter {
         enableGPU: config.enableGPU,
         gpuLayers: config.gpuLayers
       }
-    });
+    };
+
+    // Save to config manager. The registry loads it on the next start and
+    // creates an OllamaProvider for it.
+    const existing = this.configManager.getAIProviders().find(p => p.name === provider.name);
+    if (existing) {
+      this.configManager.updateAIProvider(provider.name, provider);
+    } else {
+      this.configManager.addAIProvider({ ...provider, priority: 5, taskPreferences: {} });
+    }
 
     console.log('Ollama configuration saved successfully');
   }
@@ -0,0 +1,179 @@
+import {
+  OutputSchema,
+  StoryAnalysis,
+  StructuredAnalysisResults,
+  StructuredAnalysisType,
+  StructuredOutputSpec
+} from '../../../shared/types/AI';
+
+// JSON schemas for analysis results, following the types in shared/types/Story.ts.
+// Defaults cover parts a model may leave out without the result being wrong
+// (an empty list, an unknown location); scores and verdicts have none, so a
+// reply missing them is sent back to the model instead.
+
+const score: OutputSchema = { type: 'number', minimum: 0, maximum: 1 };
+const textList: OutputSchema = { type: 'array', items: { type: 'string' }, default: [] };
+
+const location: OutputSchema = {
+  type: 'object',
+  properties: {
+    chapterId: { type: 'string', default: '' },
+    sceneId: { type: 'string' }
+  },
+  required: ['chapterId']
+};
+
+export const STRUCTURE_ANALYSIS_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    identifiedStructure: { type: 'string', description: 'three-act, hero-journey, save-the-cat or other' },
+    completedBeats: textList,
+    missingBeats: textList,
+    suggestions: textList,
+    confidence: score
+  },
+  required: ['identifiedStructure', 'completedBeats', 'missingBeats', 'suggestions', 'confidence']
+};
+
+export const CHARACTER_ANALYSIS_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    consistencyScore: score,
+    voiceConsistency: score,
+    developmentProgress: score,
+    relationshipHealth: {
+      type: 'array',
+      default: [],
+      items: {
+        type: 'object',
+        coerceFrom: 'issues',
+        properties: {
+          characterIds: textList,
+          healthScore: score,
+          issues: textList,
+          suggestions: textList
+        },
+        required: ['characterIds', 'healthScore', 'issues', 'suggestions']
+      }
+    },
+    suggestions: textList
+  },
+  required: ['consistencyScore', 'voiceConsistency', 'developmentProgress', 'relationshipHealth', 'suggestions']
+};
+
+export const PACING_ANALYSIS_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    overallPacing: { type: 'string', enum: ['too-fast', 'good', 'too-slow'] },
+    tensionCurve: {
+      type: 'array',
+      default: [],
+      items: {
+        type: 'object',
+        properties: {
+          chapterId: { type: 'string' },
+          sceneId: { type: 'string' },
+          sceneIndex: { type: 'integer', minimum: 0 },
+          position: { type: 'number' },
+          tensionLevel: { type: 'number', minimum: 1, maximum: 10 },
+          emotionalIntensity: { type: 'number' },
+          actionLevel: { type: 'number' },
+          overallIntensity: { type: 'number' },
+          type: { type: 'string', enum: ['rising', 'falling', 'climax', 'resolution'] }
+        },
+        required: ['tensionLevel', 'type']
+      }
+    },
+    recommendations: textList
+  },
+  required: ['overallPacing', 'tensionCurve', 'recommendations']
+};
+
+export const CONSISTENCY_REPORT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    overallScore: score,
+    plotHoles: {
+      type: 'array',
+      default: [],
+      items: {
+        type: 'object',
+        coerceFrom: 'description',
+        properties: {
+          type: { type: 'string' },
+          description: { type: 'string' },
+          severity: { type: 'string', enum: ['minor', 'moderate', 'major'], default: 'moderate' },
+          location: { ...location, default: { chapterId: '' } },
+          suggestions: textList
+        },
+        required: ['description', 'severity', 'location', 'suggestions']
+      }
+    },
+    characterInconsistencies: {
+      type: 'array',
+      default: [],
+      items: {
+        type: 'object',
+        coerceFrom: 'issue',
+        properties: {
+          characterId: { type: 'string', default: '' },
+          issue: { type: 'string' },
+          locations: { type: 'array', items: location, default: [] },
+          suggestions: textList
+        },
+        required: ['characterId', 'issue', 'locations', 'suggestions']
+      }
+    },
+    worldBuildingIssues: {
+      type: 'array',
+      default: [],
+      items: {
+        type: 'object',
+        coerceFrom: 'description',
+        properties: {
+          type: { type: 'string', default: 'general' },
+          description: { type: 'string' },
+          locations: { type: 'array', items: location, default: [] },
+          suggestions: textList
+        },
+        required: ['type', 'description', 'locations', 'suggestions']
+      }
+    }
+  },
+  required: ['overallScore', 'plotHoles', 'characterInconsistencies', 'worldBuildingIssues']
+};
+
+export const STORY_ANALYSIS_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    structure: STRUCTURE_ANALYSIS_SCHEMA,
+    characters: CHARACTER_ANALYSIS_SCHEMA,
+    pacing: PACING_ANALYSIS_SCHEMA,
+    consistency: CONSISTENCY_REPORT_SCHEMA,
+    overallScore: score,
+    recommendations: textList
+  },
+  required: ['structure', 'characters', 'pacing', 'consistency', 'overallScore', 'recommendations']
+};
+
+// What providers are asked for. Every analysis type runs as a full story
+// analysis; the narrower types are cut from it by ANALYSIS_RESULTS.
+export const STORY_ANALYSIS_OUTPUT: StructuredOutputSpec = {
+  name: 'story_analysis',
+  schema: STORY_ANALYSIS_SCHEMA
+};
+
+type AnalysisResultDefinitions = {
+  [K in StructuredAnalysisType]: {
+    schema: OutputSchema;
+    select: (analysis: StoryAnalysis) => StructuredAnalysisResults[K];
+  };
+};
+
+export const ANALYSIS_RESULTS: AnalysisResultDefinitions = {
+  story_analysis: { schema: STORY_ANALYSIS_SCHEMA, select: analysis => analysis },
+  manuscript_analysis: { schema: STORY_ANALYSIS_SCHEMA, select: analysis => analysis },
+  plot_hole_detection: { schema: CONSISTENCY_REPORT_SCHEMA, select: analysis => analysis.consistency },
+  pacing_analysis: { schema: PACING_ANALYSIS_SCHEMA, select: analysis => analysis.pacing },
+  consistency_check: { schema: CONSISTENCY_REPORT_SCHEMA, select: analysis => analysis.consistency }
+};
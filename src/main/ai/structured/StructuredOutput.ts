@@ -0,0 +1,293 @@
+import { OutputSchema, SchemaIssue, StructuredOutputSpec } from '../../../shared/types/AI';
+import { throwIfCancelled } from '../RequestCancellation';
+
+// Thrown when a reply still does not match its schema once the retry budget is spent
+export class StructuredOutputError extends Error {
+  constructor(
+    readonly outputName: string,
+    readonly issues: SchemaIssue[],
+    readonly raw: string,
+    readonly attempts: number
+  ) {
+    super(`${outputName} output failed validation after ${attempts} attempt(s): ${StructuredOutput.describeIssues(issues, 3)}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+// What was wrong with the previous reply, for asking the model again
+export interface StructuredRetry {
+  attempt: number; // 2 for the first retry
+  previous: string;
+  feedback: string;
+}
+
+export interface StructuredOutputOptions {
+  maxRetries?: number;
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_STRUCTURED_RETRIES = 2;
+
+// Parses model replies into schema-checked values. Replies are pulled out of
+// surrounding prose or code fences, repaired where the intent is unambiguous
+// (numbers sent as strings, enum casing, a single item where a list is
+// expected) and validated; anything still wrong is sent back to the model.
+export class StructuredOutput {
+  static async generate<T>(
+    spec: StructuredOutputSpec,
+    ask: (retry?: StructuredRetry) => Promise<string>,
+    options: StructuredOutputOptions = {}
+  ): Promise<T> {
+    const maxRetries = options.maxRetries ?? DEFAULT_STRUCTURED_RETRIES;
+    let retry: StructuredRetry | undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      throwIfCancelled(options.signal);
+      const raw = await ask(retry);
+      const result = this.parse<T>(raw, spec.schema);
+      if (result.issues.length === 0) {
+        return result.value as T;
+      }
+
+      if (attempt > maxRetries) {
+        throw new StructuredOutputError(spec.name, result.issues, raw, attempt);
+      }
+
+      console.warn(`${spec.name} output failed validation, asking again: ${this.describeIssues(result.issues, 3)}`);
+      retry = { attempt: attempt + 1, previous: raw, feedback: this.retryPrompt(result.issues) };
+    }
+  }
+
+  static parse<T>(text: string, schema: OutputSchema): { value?: T; issues: SchemaIssue[] } {
+    const json = this.extractJSON(text);
+    if (json === undefined) {
+      return { issues: [{ path: '$', message: 'is not valid JSON' }] };
+    }
+
+    const value = this.repair(json, schema);
+    return { value, issues: this.validate(value, schema) };
+  }
+
+  // Finds the JSON value in a reply: the whole text, a fenced code block, or
+  // the outermost braces. Trailing commas are tolerated.
+  static extractJSON(text: string): any | undefined {
+    const trimmed = (text || '').trim();
+    const candidates = [trimmed];
+
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    if (fenced) {
+      candidates.push(fenced[1].trim());
+    }
+
+    const start = trimmed.indexOf('{');
+    const end = trimmed.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      candidates.push(trimmed.slice(start, end + 1));
+    }
+
+    for (const candidate of candidates) {
+      for (const source of [candidate, candidate.replace(/,(\s*[}\]])/g, '$1')]) {
+        try {
+          return JSON.parse(source);
+        } catch {
+          // Try the next candidate
+        }
+      }
+    }
+    return undefined;
+  }
+
+  static validate(value: any, schema: OutputSchema, path = '$'): SchemaIssue[] {
+    switch (schema.type) {
+      case 'object': {
+        if (!this.isPlainObject(value)) {
+          return [{ path, message: `must be an object, got ${this.describeType(value)}` }];
+        }
+
+        const issues: SchemaIssue[] = [];
+        for (const key of schema.required || []) {
+          if (value[key] === undefined || value[key] === null) {
+            issues.push({ path: `${path}.${key}`, message: 'is required' });
+          }
+        }
+        for (const [key, property] of Object.entries(schema.properties || {})) {
+          if (value[key] !== undefined && value[key] !== null) {
+            issues.push(...this.validate(value[key], property, `${path}.${key}`));
+          }
+        }
+        return issues;
+      }
+
+      case 'array': {
+        if (!Array.isArray(value)) {
+          return [{ path, message: `must be an array, got ${this.describeType(value)}` }];
+        }
+        if (!schema.items) {
+          return [];
+        }
+        return value.flatMap((item, index) => this.validate(item, schema.items!, `${path}[${index}]`));
+      }
+
+      case 'string':
+        if (typeof value !== 'string') {
+          return [{ path, message: `must be a string, got ${this.describeType(value)}` }];
+        }
+        if (schema.enum && !schema.enum.includes(value)) {
+          return [{ path, message: `must be one of ${schema.enum.join(', ')}, got "${value}"` }];
+        }
+        return [];
+
+      case 'number':
+      case 'integer':
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          return [{ path, message: `must be a number, got ${this.describeType(value)}` }];
+        }
+        if (schema.type === 'integer' && !Number.isInteger(value)) {
+          return [{ path, message: `must be a whole number, got ${value}` }];
+        }
+        if ((schema.minimum !== undefined && value < schema.minimum) || (schema.maximum !== undefined && value > schema.maximum)) {
+          return [{ path, message: `must be between ${schema.minimum ?? '-∞'} and ${schema.maximum ?? '∞'}, got ${value}` }];
+        }
+        return [];
+
+      case 'boolean':
+        return typeof value === 'boolean' ? [] : [{ path, message: `must be true or false, got ${this.describeType(value)}` }];
+
+      default:
+        return [];
+    }
+  }
+
+  // Fixes values whose intent is clear. Anything ambiguous is left for
+  // validate() to report, so the model can be asked again.
+  static repair(value: any, schema: OutputSchema): any {
+    switch (schema.type) {
+      case 'object': {
+        if (typeof value === 'string' && schema.coerceFrom) {
+          value = { [schema.coerceFrom]: value };
+        }
+        if (!this.isPlainObject(value)) {
+          return value;
+        }
+
+        const repaired: Record<string, any> = { ...value };
+        for (const [key, property] of Object.entries(schema.properties || {})) {
+          if (repaired[key] === undefined || repaired[key] === null) {
+            if (property.default !== undefined) {
+              repaired[key] = JSON.parse(JSON.stringify(property.default));
+            }
+          } else {
+            repaired[key] = this.repair(repaired[key], property);
+          }
+        }
+        return repaired;
+      }
+
+      case 'array': {
+        if (value === undefined || value === null) {
+          return value;
+        }
+        const items = Array.isArray(value) ? value : [value];
+        return schema.items ? items.map(item => this.repair(item, schema.items!)) : items;
+      }
+
+      case 'string':
+        if (typeof value === 'number' || typeof value === 'boolean') {
+          return String(value);
+        }
+        if (typeof value === 'string' && schema.enum && !schema.enum.includes(value)) {
+          const normalized = this.normalizeEnumValue(value);
+          return schema.enum.find(option => this.normalizeEnumValue(option) === normalized) ?? value;
+        }
+        return value;
+
+      case 'number':
+      case 'integer': {
+        let number = value;
+        if (typeof value === 'string') {
+          const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*(%)?$/);
+          if (!match) {
+            return value;
+          }
+          number = parseFloat(match[1]);
+          if (match[2] && schema.maximum !== undefined && schema.maximum <= 1) {
+            number /= 100;
+          }
+        }
+        if (typeof number !== 'number') {
+          return value;
+        }
+        // Scores on a 0-1 scale are often given out of 100
+        if (schema.maximum === 1 && number > 1 && number <= 100) {
+          number /= 100;
+        }
+        return schema.type === 'integer' ? Math.round(number) : number;
+      }
+
+      case 'boolean':
+        if (value === 'true' || value === 'false') {
+          return value === 'true';
+        }
+        return value;
+
+      default:
+        return value;
+    }
+  }
+
+  // Appended to prompts so every provider sees the exact shape, whatever the template says
+  static instructions(spec: StructuredOutputSpec): string {
+    return `Reply with a single JSON object and nothing else. It must match this JSON schema:\n${JSON.stringify(this.toJSONSchema(spec.schema))}`;
+  }
+
+  // The chat messages for an attempt: on a retry, the previous reply and what was wrong with it follow the original request
+  static conversation<M extends { role: string; content: any }>(messages: M[], retry?: StructuredRetry): M[] {
+    if (!retry) {
+      return messages;
+    }
+    return [
+      ...messages,
+      { role: 'assistant', content: retry.previous } as M,
+      { role: 'user', content: retry.feedback } as M
+    ];
+  }
+
+  static retryPrompt(issues: SchemaIssue[]): string {
+    return `Your previous reply did not match the required JSON schema:\n${issues.slice(0, 20).map(issue => `- ${issue.path} ${issue.message}`).join('\n')}\n\nReply again with only the corrected JSON object.`;
+  }
+
+  // The schema as standard JSON Schema, for providers with a native JSON mode
+  static toJSONSchema(schema: OutputSchema): Record<string, any> {
+    const { coerceFrom, properties, items, ...rest } = schema;
+    const converted: Record<string, any> = { ...rest };
+    if (properties) {
+      converted.properties = Object.fromEntries(
+        Object.entries(properties).map(([key, property]) => [key, this.toJSONSchema(property)])
+      );
+    }
+    if (items) {
+      converted.items = this.toJSONSchema(items);
+    }
+    return converted;
+  }
+
+  static describeIssues(issues: SchemaIssue[], limit = issues.length): string {
+    const described = issues.slice(0, limit).map(issue => `${issue.path} ${issue.message}`).join('; ');
+    return issues.length > limit ? `${described} (and ${issues.length - limit} more)` : described;
+  }
+
+  private static normalizeEnumValue(value: string): string {
+    return value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  }
+
+  private static isPlainObject(value: any): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static describeType(value: any): string {
+    if (value === undefined) return 'nothing';
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`.slice(0, 60);
+  }
+}
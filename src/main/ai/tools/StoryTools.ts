@@ -0,0 +1,164 @@
+import { RetrievalOptions, RetrievedPassage, StoryContext } from '../../../shared/types/AI';
+import { Character, Scene, Story } from '../../../shared/types/Story';
+import { PlotHoleDetector } from '../../story/PlotHoleDetector';
+import { RetrievalIndex } from '../retrieval/RetrievalIndex';
+import { Tool } from './ToolRegistry';
+
+const DEFAULT_SEARCH_RESULTS = 5;
+const MAX_SEARCH_RESULTS = 10;
+
+// Where the story tools read the project from
+export interface StoryToolSources {
+  loadStory(storyId: string): Promise<Story | null>;
+  // Manuscript search, usually AIEngine.retrieve over the retrieval index
+  search?(query: string, options: RetrievalOptions): Promise<RetrievedPassage[]>;
+}
+
+// Built-in tools that let the model look up the open story on demand
+// instead of having everything put in the prompt
+export function createStoryTools(sources: StoryToolSources): Tool[] {
+  const loadStory = async (context: StoryContext): Promise<Story> => {
+    if (!context.storyId) {
+      throw new Error('no story is open');
+    }
+    const story = await sources.loadStory(context.storyId);
+    if (!story) {
+      throw new Error(`story ${context.storyId} was not found`);
+    }
+    return story;
+  };
+
+  return [
+    {
+      name: 'lookup_character',
+      description: 'Look up a character in the story by name or alias: their traits, voice, relationships and arc.',
+      parameters: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Character name or alias' }
+        },
+        required: ['name']
+      },
+      run: async (args, context) => {
+        const story = await loadStory(context);
+        const character = findCharacter(args.name, story.characters || []);
+        if (!character) {
+          throw new Error(`no character named "${args.name}". Characters: ${(story.characters || []).map(c => c.name).join(', ') || 'none'}`);
+        }
+        return {
+          name: character.name,
+          aliases: character.aliases,
+          archetype: character.archetype,
+          description: character.description,
+          traits: character.traits,
+          voice: character.voiceProfile,
+          relationships: (character.relationships || []).map(relationship => ({
+            with: story.characters.find(other => other.id === relationship.characterId)?.name || relationship.characterId,
+            type: relationship.type,
+            status: relationship.status,
+            description: relationship.description
+          })),
+          arc: character.developmentArc
+            ? { start: character.developmentArc.startState, end: character.developmentArc.endState, completed: character.developmentArc.completed }
+            : undefined
+        };
+      }
+    },
+    {
+      name: 'get_scene',
+      description: 'Fetch the full text of a scene, with its chapter, setting and characters.',
+      parameters: {
+        type: 'object',
+        properties: {
+          scene: { type: 'string', description: 'Scene ID or title' }
+        },
+        required: ['scene']
+      },
+      run: async (args, context) => {
+        const story = await loadStory(context);
+        const scenes = scenesOf(story);
+        const wanted = String(args.scene).trim().toLowerCase();
+        const scene = scenes.find(candidate => candidate.id === args.scene || candidate.title?.toLowerCase() === wanted)
+          || scenes.find(candidate => candidate.title?.toLowerCase().includes(wanted));
+        if (!scene) {
+          throw new Error(`no scene with ID or title "${args.scene}"`);
+        }
+        return {
+          id: scene.id,
+          title: scene.title,
+          chapter: story.chapters?.find(chapter => chapter.id === scene.chapterId)?.title,
+          summary: scene.summary,
+          setting: scene.setting?.location,
+          characters: (scene.characters || []).map(id => story.characters.find(character => character.id === id)?.name || id),
+          content: scene.content
+        };
+      }
+    },
+    {
+      name: 'search_manuscript',
+      description: 'Search the manuscript for passages about a topic, event or detail. Returns the most relevant passages with where they appear.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'What to look for' },
+          limit: { type: 'integer', minimum: 1, maximum: MAX_SEARCH_RESULTS, description: `Number of passages, ${DEFAULT_SEARCH_RESULTS} by default` }
+        },
+        required: ['query']
+      },
+      run: async (args, context) => {
+        if (!sources.search) {
+          throw new Error('manuscript search is not available');
+        }
+        if (!context.storyId) {
+          throw new Error('no story is open');
+        }
+        const passages = await sources.search(args.query, {
+          storyId: context.storyId,
+          topK: Math.min(args.limit || DEFAULT_SEARCH_RESULTS, MAX_SEARCH_RESULTS)
+        });
+        return passages.length > 0 ? RetrievalIndex.formatPassages(passages) : 'No matching passages.';
+      }
+    },
+    {
+      name: 'list_plot_threads',
+      description: 'List the plot threads in the story with their status and importance.',
+      parameters: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['active', 'resolved', 'abandoned', 'forgotten'], description: 'Only threads with this status' }
+        }
+      },
+      run: async (args, context) => {
+        const story = await loadStory(context);
+        const analysis = await new PlotHoleDetector().analyzeStoryForPlotHoles({ ...story, scenes: scenesOf(story) });
+        const threads = analysis.plotThreads.filter(thread => !args.status || thread.status === args.status);
+        if (threads.length === 0) {
+          return 'No plot threads found.';
+        }
+        return threads.map(thread => ({
+          name: thread.name,
+          description: thread.description,
+          status: thread.status,
+          importance: thread.importance,
+          characters: thread.relatedCharacters.map(id => story.characters.find(character => character.id === id)?.name || id)
+        }));
+      }
+    }
+  ];
+}
+
+function findCharacter(name: string, characters: Character[]): Character | undefined {
+  const wanted = String(name).trim().toLowerCase();
+  const matches = (character: Character, test: (value: string) => boolean) =>
+    test(character.name.toLowerCase()) || (character.aliases || []).some(alias => test(alias.toLowerCase()));
+  return characters.find(character => matches(character, value => value === wanted))
+    || characters.find(character => matches(character, value => value.split(/\s+/).includes(wanted)));
+}
+
+// Scenes in reading order; stories saved without chapters keep them on the story
+function scenesOf(story: Story): Scene[] {
+  const inChapters = [...(story.chapters || [])]
+    .sort((a, b) => a.order - b.order)
+    .flatMap(chapter => [...(chapter.scenes || [])].sort((a, b) => a.order - b.order));
+  return inChapters.length > 0 ? inChapters : story.scenes || [];
+}
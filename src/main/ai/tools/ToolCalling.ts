@@ -0,0 +1,111 @@
+import { AIRequestType, StoryContext, ToolCall, ToolDefinition, ToolResult } from '../../../shared/types/AI';
+import { StructuredOutput } from '../structured/StructuredOutput';
+
+// Rounds of tool calls a request may make before the model has to answer
+export const MAX_TOOL_ROUNDS = 4;
+
+// Tools are offered for open-ended writing requests about a story. Analysis,
+// structured output and infill send everything they need in the prompt.
+const TOOL_REQUEST_TYPES: AIRequestType[] = [
+  'prose_generation',
+  'dialogue_generation',
+  'scene_structure',
+  'outline',
+  'brainstorming',
+  'research',
+  'assistant_chat'
+];
+
+// The parts of a tool-call loop that differ between provider APIs
+export interface ToolLoopAdapter<TMessage, TResponse> {
+  // final is set on the last round, which must be answered without calling
+  // a tool. The tools are still sent, as the conversation refers to them.
+  send(messages: TMessage[], final: boolean): Promise<TResponse>;
+  toolCalls(response: TResponse): ToolCall[];
+  // Messages that append the model's tool calls and their results to the conversation
+  followUp(response: TResponse, results: ToolResult[]): TMessage[];
+}
+
+// Converts provider-neutral tool definitions, calls and results to and from
+// the OpenAI-compatible (OpenAI, Mistral, OpenRouter) and Anthropic formats
+export class ToolCalling {
+  static appliesTo(context: StoryContext): boolean {
+    return !!context.storyId && TOOL_REQUEST_TYPES.includes(context.requestType || 'prose_generation');
+  }
+
+  static toOpenAI(tools: ToolDefinition[]): any[] {
+    return tools.map(tool => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: StructuredOutput.toJSONSchema(tool.parameters) }
+    }));
+  }
+
+  // Arguments arrive as a JSON string; unparseable arguments become an empty
+  // object so the registry reports the missing ones back to the model
+  static fromOpenAI(toolCalls: any[] | undefined): ToolCall[] {
+    return (toolCalls || [])
+      .filter(call => call.type === undefined || call.type === 'function')
+      .map(call => ({
+        id: call.id,
+        name: call.function?.name,
+        arguments: this.parseArguments(call.function?.arguments)
+      }));
+  }
+
+  // Mistral requires the tool name on result messages; OpenAI ignores it
+  static openAIResults(results: ToolResult[]): Array<{ role: 'tool'; tool_call_id: string; name: string; content: string }> {
+    return results.map(result => ({ role: 'tool', tool_call_id: result.callId, name: result.name, content: result.content }));
+  }
+
+  static toAnthropic(tools: ToolDefinition[]): any[] {
+    return tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: StructuredOutput.toJSONSchema(tool.parameters)
+    }));
+  }
+
+  static fromAnthropic(content: any[] | undefined): ToolCall[] {
+    return (content || [])
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({ id: block.id, name: block.name, arguments: block.input || {} }));
+  }
+
+  // Tool results go back to Anthropic as a user turn of tool_result blocks
+  static anthropicResults(results: ToolResult[]): { role: 'user'; content: any[] } {
+    return {
+      role: 'user',
+      content: results.map(result => ({
+        type: 'tool_result',
+        tool_use_id: result.callId,
+        content: result.content,
+        ...(result.isError ? { is_error: true } : {})
+      }))
+    };
+  }
+
+  // Adds up the token counts reported for each round of a tool-call loop
+  static totalUsage<T extends Record<string, any>>(usages: Array<T | undefined>): T {
+    const total: Record<string, number> = {};
+    for (const usage of usages) {
+      for (const [key, value] of Object.entries(usage || {})) {
+        if (typeof value === 'number') {
+          total[key] = (total[key] || 0) + value;
+        }
+      }
+    }
+    return total as T;
+  }
+
+  private static parseArguments(raw: any): Record<string, any> {
+    if (raw && typeof raw === 'object') {
+      return raw;
+    }
+    try {
+      const parsed = JSON.parse(raw || '{}');
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+}
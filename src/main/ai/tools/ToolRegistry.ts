@@ -0,0 +1,89 @@
+import { StoryContext, ToolCall, ToolDefinition, ToolExecutor, ToolResult } from '../../../shared/types/AI';
+import { PrivacyAuditLogger } from '../../security/PrivacyAuditLogger';
+import { StructuredOutput } from '../structured/StructuredOutput';
+
+// Tool results are cut to this length so one call cannot fill the context window
+const MAX_RESULT_CHARS = 8000;
+
+export interface Tool extends ToolDefinition {
+  // Returns text or a JSON-serialisable value; throwing reports the error to the model
+  run(args: Record<string, any>, context: StoryContext): Promise<any>;
+}
+
+// Tools the model can call. Arguments are validated against the tool's
+// schema, failures are returned to the model as error results rather than
+// thrown, and every call is recorded in the privacy audit log since it hands
+// project content to the provider.
+export class ToolRegistry implements ToolExecutor {
+  private tools: Map<string, Tool> = new Map();
+
+  constructor(private auditLogger: Pick<PrivacyAuditLogger, 'logDataAccess'> | null = null) {}
+
+  register(tool: Tool): this {
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  unregister(name: string): void {
+    this.tools.delete(name);
+  }
+
+  definitions(): ToolDefinition[] {
+    return Array.from(this.tools.values()).map(({ name, description, parameters }) => ({ name, description, parameters }));
+  }
+
+  async execute(call: ToolCall, context: StoryContext, provider: string): Promise<ToolResult> {
+    const result = await this.run(call, context);
+    await this.audit(call, context, provider, result);
+    return result;
+  }
+
+  private async run(call: ToolCall, context: StoryContext): Promise<ToolResult> {
+    const error = (message: string): ToolResult => ({ callId: call.id, name: call.name, content: `Error: ${message}`, isError: true });
+
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return error(`unknown tool "${call.name}". Available tools: ${Array.from(this.tools.keys()).join(', ')}`);
+    }
+
+    const issues = StructuredOutput.validate(call.arguments, tool.parameters);
+    if (issues.length > 0) {
+      return error(`invalid arguments: ${StructuredOutput.describeIssues(issues, 5)}`);
+    }
+
+    try {
+      const value = await tool.run(call.arguments, context);
+      let content = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+      if (content.length > MAX_RESULT_CHARS) {
+        content = `${content.slice(0, MAX_RESULT_CHARS)}\n[truncated]`;
+      }
+      return { callId: call.id, name: call.name, content };
+    } catch (runError) {
+      return error(runError instanceof Error ? runError.message : String(runError));
+    }
+  }
+
+  private async audit(call: ToolCall, context: StoryContext, provider: string, result: ToolResult): Promise<void> {
+    if (!this.auditLogger) {
+      return;
+    }
+    try {
+      await this.auditLogger.logDataAccess({
+        category: 'ai-tool',
+        action: call.name,
+        resource: context.storyId ? `story:${context.storyId}` : 'story',
+        dataType: 'story-content',
+        dataSize: result.isError ? 0 : result.content.length,
+        accessMethod: 'ai-tool-call',
+        purpose: 'ai-assistance',
+        additionalDetails: {
+          provider,
+          arguments: call.arguments,
+          error: result.isError ? result.content : undefined
+        }
+      });
+    } catch (error) {
+      console.warn(`Failed to record ${call.name} tool call in the audit log:`, error);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { ModelPrice } from '../../../shared/types/AI';
+
+export interface ModelPriceEntry extends ModelPrice {
+  // Matched against model names such as "gpt-4o-mini" or "anthropic/claude-3.5-sonnet"
+  pattern: RegExp;
+}
+
+// List prices in USD per million tokens. Order matters: the first matching
+// pattern wins, so smaller variants come before the family they belong to.
+// Prices change; users can override any model in the usage settings.
+export const DEFAULT_MODEL_PRICES: ModelPriceEntry[] = [
+  // OpenAI
+  { pattern: /gpt-4o-mini/i, input: 0.15, output: 0.6 },
+  { pattern: /gpt-4o/i, input: 2.5, output: 10 },
+  { pattern: /gpt-4\.1-nano/i, input: 0.1, output: 0.4 },
+  { pattern: /gpt-4\.1-mini/i, input: 0.4, output: 1.6 },
+  { pattern: /gpt-4\.1/i, input: 2, output: 8 },
+  { pattern: /gpt-4-turbo|gpt-4-\d{4}-preview/i, input: 10, output: 30 },
+  { pattern: /gpt-4/i, input: 30, output: 60 },
+  { pattern: /gpt-3\.5-turbo/i, input: 0.5, output: 1.5 },
+  { pattern: /(^|\/)o[34]-mini/i, input: 1.1, output: 4.4 },
+  { pattern: /(^|\/)o1-mini/i, input: 1.1, output: 4.4 },
+  { pattern: /(^|\/)o1/i, input: 15, output: 60 },
+
+  // Anthropic
+  { pattern: /claude-3[-.]5-haiku|claude-haiku-3[-.]5/i, input: 0.8, output: 4 },
+  { pattern: /claude-3-haiku/i, input: 0.25, output: 1.25 },
+  { pattern: /claude-.*opus/i, input: 15, output: 75 },
+  { pattern: /claude-.*sonnet/i, input: 3, output: 15 },
+
+  // Mistral
+  { pattern: /mistral-large/i, input: 2, output: 6 },
+  { pattern: /mistral-medium/i, input: 0.4, output: 2 },
+  { pattern: /mistral-small/i, input: 0.2, output: 0.6 },
+  { pattern: /codestral/i, input: 0.3, output: 0.9 },
+  { pattern: /mistral-nemo|open-mistral-nemo/i, input: 0.15, output: 0.15 },
+  { pattern: /mistral-tiny|open-mistral-7b/i, input: 0.25, output: 0.25 },
+
+  // Moonshot bills input and output at the same rate, per context window size
+  { pattern: /moonshot-v1-8k/i, input: 1.65, output: 1.65 },
+  { pattern: /moonshot-v1-32k/i, input: 3.3, output: 3.3 },
+  { pattern: /moonshot-v1-128k|moonshot-v1-auto/i, input: 8.3, output: 8.3 }
+];
+
+export function findModelPrice(model: string, overrides: Record<string, ModelPrice> = {}): ModelPrice | null {
+  const overrideKey = Object.keys(overrides).find(key => key.toLowerCase() === model.toLowerCase());
+  if (overrideKey) {
+    return overrides[overrideKey];
+  }
+
+  const entry = DEFAULT_MODEL_PRICES.find(candidate => candidate.pattern.test(model));
+  return entry ? { input: entry.input, output: entry.output } : null;
+}
@@ -0,0 +1,244 @@
+import { EventEmitter } from 'events';
+import {
+  AIProvider,
+  AIRequest,
+  AIResponse,
+  BudgetStatus,
+  UsageBudget,
+  UsageGroupBy,
+  UsageQuery,
+  UsageRecord,
+  UsageReport
+} from '../../../shared/types/AI';
+import { IdGenerator } from '../../../shared/utils/StoryUtils';
+import { ConfigManager } from '../../config/ConfigManager';
+import { DatabaseManager } from '../../database/DatabaseManager';
+import { TokenizerRegistry } from '../inference/TokenizerRegistry';
+import { findModelPrice } from './ModelPrices';
+
+const DEFAULT_WARN_AT = 0.8;
+
+export class BudgetExceededError extends Error {
+  readonly status: BudgetStatus;
+
+  constructor(status: BudgetStatus) {
+    super(`${UsageLedger.describeBudget(status.budget)} of $${status.budget.limit.toFixed(2)} has been reached ` +
+      `($${status.spent.toFixed(2)} spent); cloud requests are blocked`);
+    this.name = 'BudgetExceededError';
+    this.status = status;
+  }
+}
+
+// Records the tokens and cost of every routed request in the database, and
+// checks cloud spending against the daily, monthly and per-story budgets.
+// Emits 'budget-warning' (status) when a request takes a budget past its
+// warning threshold or its limit.
+export class UsageLedger extends EventEmitter {
+  private store: DatabaseManager;
+  private configManager: ConfigManager;
+
+  constructor(store: DatabaseManager, configManager: ConfigManager) {
+    super();
+    this.store = store;
+    this.configManager = configManager;
+  }
+
+  // Builds the ledger entry for a finished request. Token counts come from the
+  // response metadata when the provider reports them and are estimated with the
+  // model's tokenizer otherwise.
+  createRecord(provider: AIProvider, request: AIRequest, response: AIResponse): UsageRecord {
+    const metadata: any = response.metadata || {};
+    const model = metadata.model && metadata.model !== provider.name
+      ? metadata.model
+      : (provider as any).metadata?.modelInfo?.name || provider.name;
+
+    let inputTokens: number | undefined = metadata.promptTokens ?? metadata.inputTokens;
+    let outputTokens: number | undefined = metadata.completionTokens ?? metadata.outputTokens;
+    const estimated = inputTokens === undefined || outputTokens === undefined;
+
+    if (outputTokens === undefined) {
+      outputTokens = TokenizerRegistry.countTokens(response.content || '', model, provider.name);
+    }
+    if (inputTokens === undefined) {
+      inputTokens = metadata.tokensUsed > outputTokens
+        ? metadata.tokensUsed - outputTokens
+        : TokenizerRegistry.countTokens(this.getPromptText(request), model, provider.name);
+    }
+
+    const { cost, priced } = this.calculateCost(provider, model, inputTokens!, outputTokens);
+
+    return {
+      id: IdGenerator.generateUsageId(),
+      timestamp: new Date(),
+      provider: provider.name,
+      providerType: provider.type,
+      model,
+      requestType: request.type,
+      storyId: request.context?.storyId,
+      inputTokens: inputTokens!,
+      outputTokens,
+      cost,
+      estimated,
+      priced
+    };
+  }
+
+  // Local and Co-writer requests are free; cloud models are priced from the
+  // user's overrides, then the built-in price table
+  calculateCost(provider: Pick<AIProvider, 'type'>, model: string, inputTokens: number, outputTokens: number): { cost: number; priced: boolean } {
+    if (provider.type !== 'cloud') {
+      return { cost: 0, priced: true };
+    }
+
+    const price = findModelPrice(model, this.configManager.getUsageSettings().prices);
+    if (!price) {
+      return { cost: 0, priced: false };
+    }
+    return { cost: (inputTokens * price.input + outputTokens * price.output) / 1_000_000, priced: true };
+  }
+
+  // Stores the request in the ledger. Failures are logged rather than thrown,
+  // so accounting problems never lose the user a response.
+  async record(provider: AIProvider, request: AIRequest, response: AIResponse): Promise<UsageRecord | null> {
+    try {
+      const record = this.createRecord(provider, request, response);
+      if (!record.priced) {
+        console.warn(`No price known for model ${record.model}, recording its usage at no cost`);
+      }
+
+      await this.store.recordUsage(record);
+      if (record.cost > 0) {
+        await this.announceThresholds(record);
+      }
+      return record;
+    } catch (error) {
+      console.warn('Failed to record AI usage:', error);
+      return null;
+    }
+  }
+
+  // Throws BudgetExceededError when a hard-capped budget covering the request
+  // is used up. Only cloud requests are blocked.
+  async assertWithinBudget(provider: AIProvider, request: AIRequest): Promise<void> {
+    if (provider.type !== 'cloud') {
+      return;
+    }
+
+    const statuses = await this.getBudgetStatuses(request.context?.storyId, true);
+    const exceeded = statuses.find(status => status.budget.hardCap && status.state === 'exceeded');
+    if (exceeded) {
+      throw new BudgetExceededError(exceeded);
+    }
+  }
+
+  // Budgets covering a story: the daily and monthly budgets plus the story's own.
+  // Without a story ID, all budgets are returned unless onlyApplicable is set.
+  async getBudgetStatuses(storyId?: string, onlyApplicable = false): Promise<BudgetStatus[]> {
+    const budgets = this.getBudgets().filter(budget =>
+      budget.period !== 'story' || budget.storyId === storyId || (!storyId && !onlyApplicable)
+    );
+
+    const statuses: BudgetStatus[] = [];
+    for (const budget of budgets) {
+      const totals = await this.store.getUsageTotals(this.getBudgetQuery(budget));
+      statuses.push(this.getStatus(budget, totals.cost));
+    }
+    return statuses;
+  }
+
+  getBudgets(): UsageBudget[] {
+    return this.configManager.getUsageSettings().budgets;
+  }
+
+  // Replaces all budgets. Budgets without an ID are given one.
+  setBudgets(budgets: UsageBudget[]): UsageBudget[] {
+    const problems: string[] = [];
+    budgets.forEach((budget, index) => {
+      if (!['daily', 'monthly', 'story'].includes(budget.period)) {
+        problems.push(`Budget ${index + 1} has unknown period "${budget.period}"`);
+      }
+      if (budget.period === 'story' && !budget.storyId) {
+        problems.push(`Budget ${index + 1} is a story budget without a story ID`);
+      }
+      if (!(budget.limit >= 0)) {
+        problems.push(`Budget ${index + 1} needs a limit of zero or more`);
+      }
+      if (budget.warnAt !== undefined && (budget.warnAt < 0 || budget.warnAt > 1)) {
+        problems.push(`Budget ${index + 1} warning threshold must be between 0 and 1`);
+      }
+    });
+    if (problems.length > 0) {
+      throw new Error(`Invalid budgets: ${problems.join('; ')}`);
+    }
+
+    const saved = budgets.map(budget => ({
+      ...budget,
+      id: budget.id || `budget-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      hardCap: Boolean(budget.hardCap)
+    }));
+    this.configManager.updateUsageSettings({ budgets: saved });
+    return saved;
+  }
+
+  async getReport(query: UsageQuery = {}, groupBy?: UsageGroupBy): Promise<UsageReport> {
+    return {
+      query,
+      totals: await this.store.getUsageTotals(query),
+      groups: groupBy ? await this.store.getUsageBreakdown(query, groupBy) : [],
+      budgets: await this.getBudgetStatuses(query.storyId)
+    };
+  }
+
+  async getRecords(query: UsageQuery = {}): Promise<UsageRecord[]> {
+    return this.store.getUsageRecords(query);
+  }
+
+  static describeBudget(budget: UsageBudget): string {
+    if (budget.period === 'story') return `Story budget for ${budget.storyId}`;
+    return budget.period === 'daily' ? 'Daily budget' : 'Monthly budget';
+  }
+
+  private async announceThresholds(record: UsageRecord): Promise<void> {
+    for (const status of await this.getBudgetStatuses(record.storyId, true)) {
+      const previous = this.getStatus(status.budget, status.spent - record.cost);
+      if (status.state !== 'ok' && status.state !== previous.state) {
+        console.warn(
+          `${UsageLedger.describeBudget(status.budget)}: $${status.spent.toFixed(2)} of $${status.budget.limit.toFixed(2)} spent`
+        );
+        this.emit('budget-warning', status);
+      }
+    }
+  }
+
+  private getStatus(budget: UsageBudget, spent: number): BudgetStatus {
+    const warnAt = budget.warnAt ?? DEFAULT_WARN_AT;
+    let state: BudgetStatus['state'] = 'ok';
+    if (spent >= budget.limit) {
+      state = 'exceeded';
+    } else if (spent >= budget.limit * warnAt) {
+      state = 'warning';
+    }
+
+    return { budget, spent, remaining: Math.max(budget.limit - spent, 0), state };
+  }
+
+  // Days and months start at local midnight, matching the user's calendar
+  private getBudgetQuery(budget: UsageBudget, now = new Date()): UsageQuery {
+    if (budget.period === 'story') {
+      return { storyId: budget.storyId };
+    }
+    const from = budget.period === 'daily'
+      ? new Date(now.getFullYear(), now.getMonth(), now.getDate())
+      : new Date(now.getFullYear(), now.getMonth(), 1);
+    return { from };
+  }
+
+  private getPromptText(request: AIRequest): string {
+    const context = request.context;
+    return [
+      context?.assembledContext?.text,
+      ...(context?.retrievedPassages || []).map(passage => passage.text),
+      request.content
+    ].filter(Boolean).join('\n\n');
+  }
+}
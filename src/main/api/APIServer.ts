@@ -7,10 +7,15 @@ import { WebSocketServer, WebSocket } from 'ws';
 import * as jwt from 'jsonwebtoken';
 import * as crypto from 'crypto';
 import { AIEngine } from '../ai/AIEngine';
+import { BudgetExceededError } from '../ai/usage/UsageLedger';
+import { RequestCancelledError } from '../ai/RequestCancellation';
+import { StructuredOutputError } from '../ai/structured/StructuredOutput';
+import { ChatThreadManager } from '../ai/chat/ChatThreadManager';
 import { DatabaseManager } from '../database/DatabaseManager';
 import { PluginManager } from '../plugin/PluginManager';
 import { ConfigManager } from '../config/ConfigManager';
-import { Story, Scene, Character } from '../../shared/types/Story';
+import { Story, Scene, Character, RevisionEntityType, SearchField } from '../../shared/types/Story';
+import { AIRequestType, UsageGroupBy, UsageQuery } from '../../shared/types/AI';
 
 export interface APIConfig {
   port: number;
@@ -51,6 +56,7 @@ export interface WebSocketClient {
   apiKey?: APIKey;
   subscriptions: Set<string>;
   lastPing: Date;
+  activeRequests: Map<string, AbortController>; // generations in flight, by request ID
 }
 
 export class APIServer {
@@ -62,6 +68,7 @@ export class APIServer {
   private dbManager: DatabaseManager;
   private pluginManager: PluginManager;
   private configManager: ConfigManager;
+  private chatThreads: ChatThreadManager;
   private apiKeys: Map<string, APIKey> = new Map();
   private wsClients: Map<string, WebSocketClient> = new Map();
   private isRunning = false;
@@ -77,6 +84,7 @@ export class APIServer {
     this.dbManager = dbManager;
     this.pluginManager = pluginManager;
     this.configManager = configManager;
+    this.chatThreads = new ChatThreadManager(dbManager, aiEngine);
     
     this.config = {
       port: 3001,
@@ -195,6 +203,8 @@ export class APIServer {
         endpoints: {
           stories: '/api/stories',
           ai: '/api/ai',
+          usage: '/api/usage',
+          chat: '/api/chat',
           plugins: '/api/plugins',
           websocket: this.config.enableWebSocket ? `ws://${this.config.host}:${this.config.port}/ws` : null
         }
@@ -207,6 +217,12 @@ export class APIServer {
     // AI endpoints
     this.setupAIRoutes();
     
+    // Usage and budget endpoints
+    this.setupUsageRoutes();
+
+    // Assistant chat thread endpoints
+    this.setupChatRoutes();
+
     // Plugin endpoints
     this.setupPluginRoutes();
     
@@ -290,15 +306,104 @@ export class APIServer {
     });
 
     // Search stories
+    // Optional query string: fields=title,content,character,tag, limit and storyId
     router.get('/search/:query', async (req: APIRequest, res: Response) => {
       try {
-        const results = await this.dbManager.searchStories(req.params.query);
+        const fields = typeof req.query.fields === 'string'
+          ? req.query.fields.split(',').map(field => field.trim()).filter(Boolean) as SearchField[]
+          : undefined;
+        const results = await this.dbManager.searchStories(req.params.query, {
+          fields,
+          limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+          storyId: req.query.storyId as string | undefined
+        });
         res.json(results);
       } catch (error) {
         res.status(500).json({ error: 'Failed to search stories' });
       }
     });
 
+    // Revision history for chapters and scenes
+    const entityTypes: Record<string, RevisionEntityType> = { chapters: 'chapter', scenes: 'scene' };
+
+    router.get('/:id/:entityType(chapters|scenes)/:entityId/revisions', async (req: APIRequest, res: Response) => {
+      try {
+        const revisions = await this.dbManager.getRevisions(
+          entityTypes[req.params.entityType],
+          req.params.entityId
+        );
+        res.json(revisions.filter(revision => revision.storyId === req.params.id));
+      } catch (error) {
+        res.status(500).json({ error: 'Failed to fetch revisions' });
+      }
+    });
+
+    router.post('/:id/:entityType(chapters|scenes)/:entityId/snapshots', async (req: APIRequest, res: Response) => {
+      try {
+        const { label, author } = req.body;
+        if (!label) {
+          return res.status(400).json({ error: 'Snapshot label is required' });
+        }
+
+        // Checked before writing so a wrong story ID never adds a revision elsewhere
+        const entityType = entityTypes[req.params.entityType];
+        if (await this.dbManager.getEntityStoryId(entityType, req.params.entityId) !== req.params.id) {
+          return res.status(404).json({ error: `${entityType === 'chapter' ? 'Chapter' : 'Scene'} not found` });
+        }
+
+        const snapshot = await this.dbManager.createSnapshot(
+          entityType,
+          req.params.entityId,
+          label,
+          author || req.user?.id
+        );
+        res.status(201).json(snapshot);
+      } catch (error) {
+        res.status(500).json({ error: 'Failed to create snapshot' });
+      }
+    });
+
+    router.get('/:id/revisions/:revisionId', async (req: APIRequest, res: Response) => {
+      try {
+        const revision = await this.dbManager.getRevision(req.params.revisionId);
+        if (!revision || revision.storyId !== req.params.id) {
+          return res.status(404).json({ error: 'Revision not found' });
+        }
+        res.json(revision);
+      } catch (error) {
+        res.status(500).json({ error: 'Failed to fetch revision' });
+      }
+    });
+
+    router.get('/:id/revisions/:fromId/diff/:toId', async (req: APIRequest, res: Response) => {
+      try {
+        const from = await this.dbManager.getRevision(req.params.fromId);
+        const to = await this.dbManager.getRevision(req.params.toId);
+        if (!from || !to || from.storyId !== req.params.id || to.storyId !== req.params.id) {
+          return res.status(404).json({ error: 'Revision not found' });
+        }
+
+        const diff = await this.dbManager.diffRevisions(from.id, to.id);
+        res.json(diff);
+      } catch (error) {
+        res.status(500).json({ error: 'Failed to diff revisions' });
+      }
+    });
+
+    router.post('/:id/revisions/:revisionId/restore', async (req: APIRequest, res: Response) => {
+      try {
+        const revision = await this.dbManager.getRevision(req.params.revisionId);
+        if (!revision || revision.storyId !== req.params.id) {
+          return res.status(404).json({ error: 'Revision not found' });
+        }
+
+        const restored = await this.dbManager.restoreRevision(revision.id);
+        res.json(restored);
+      } catch (error) {
+        res.status(500).json({ error: 'Failed to restore revision' });
+      }
+    });
+
     this.app.use('/api/stories', router);
   }
 
@@ -309,9 +414,14 @@ export class APIServer {
     router.post('/generate', async (req: APIRequest, res: Response) => {
       try {
         const { prompt, options } = req.body;
-        const result = await this.aiEngine.generateText(prompt, options);
+        const result = await this.aiEngine.generateText(prompt, options, undefined, this.abortOnDisconnect(res));
         res.json({ result });
       } catch (error) {
+        // The client disconnected, so there is no one to answer
+        if (error instanceof RequestCancelledError) return;
+        if (error instanceof BudgetExceededError) {
+          return res.status(402).json({ error: error.message, budget: error.status });
+        }
         res.status(500).json({ error: 'Failed to generate text' });
       }
     });
@@ -320,9 +430,14 @@ export class APIServer {
     router.post('/analyze/story', async (req: APIRequest, res: Response) => {
       try {
         const story: Story = req.body;
-        const analysis = await this.aiEngine.analyzeStory(story);
+        const analysis = await this.aiEngine.analyzeStory(story, this.abortOnDisconnect(res));
         res.json(analysis);
       } catch (error) {
+        if (error instanceof RequestCancelledError) return;
+        // The model kept returning analysis that does not match the schema
+        if (error instanceof StructuredOutputError) {
+          return res.status(502).json({ error: error.message, issues: error.issues });
+        }
         res.status(500).json({ error: 'Failed to analyze story' });
       }
     });
@@ -370,9 +485,268 @@ export class APIServer {
       }
     });
 
+    // Explain routing: which rule a request would match and the providers it would try
+    router.post('/routing/explain', async (req: APIRequest, res: Response) => {
+      try {
+        const { type, content = '', context = {} } = req.body;
+        if (!type) {
+          return res.status(400).json({ error: 'Request type is required' });
+        }
+        const explanation = await this.aiEngine.explainRouting({
+          type,
+          content,
+          context: { characters: [], genre: [], targetAudience: '', ...context }
+        });
+        res.json(explanation);
+      } catch (error) {
+        res.status(500).json({ error: 'Failed to explain routing' });
+      }
+    });
+
+    // Text for the cursor position, given the text before and after it
+    router.post('/infill', async (req: APIRequest, res: Response) => {
+      try {
+        const { prefix, suffix = '', maxTokens, context = {}, options } = req.body;
+        if (typeof prefix !== 'string' || typeof suffix !== 'string') {
+          return res.status(400).json({ error: 'Prefix and suffix must be strings' });
+        }
+        const suggestion = await this.aiEngine.generateInfill(
+          { prefix, suffix, maxTokens },
+          { characters: [], genre: [], targetAudience: '', ...context },
+          options,
+          this.abortOnDisconnect(res)
+        );
+        res.json(suggestion);
+      } catch (error) {
+        if (error instanceof RequestCancelledError) return;
+        res.status(500).json({ error: (error as Error).message });
+      }
+    });
+
+    // Dialogue in each character's voice, with a voice-match score per line
+    router.post('/dialogue', async (req: APIRequest, res: Response) => {
+      try {
+        const { prompt, characters, context = {}, options } = req.body;
+        if (!prompt || !Array.isArray(characters) || characters.length === 0) {
+          return res.status(400).json({ error: 'Prompt and at least one character are required' });
+        }
+        const dialogue = await this.aiEngine.generateDialogue(prompt, characters, context, options, this.abortOnDisconnect(res));
+        res.json(dialogue);
+      } catch (error) {
+        if (error instanceof RequestCancelledError) return;
+        res.status(500).json({ error: (error as Error).message });
+      }
+    });
+
+    // Send one request to several providers and return their answers side by side
+    router.post('/compare', async (req: APIRequest, res: Response) => {
+      try {
+        const { type = 'prose_generation', content, context = {}, options, providers } = req.body;
+        if (!content || !Array.isArray(providers)) {
+          return res.status(400).json({ error: 'Content and a list of providers are required' });
+        }
+        const comparison = await this.aiEngine.compareProviders({
+          type,
+          content,
+          context: { characters: [], genre: [], targetAudience: '', ...context },
+          options,
+          signal: this.abortOnDisconnect(res)
+        }, providers);
+        res.json(comparison);
+      } catch (error) {
+        if (error instanceof RequestCancelledError) return;
+        res.status(400).json({ error: (error as Error).message });
+      }
+    });
+
+    // Record which answer of a comparison the user kept
+    router.post('/compare/:id/choice', async (req: APIRequest, res: Response) => {
+      try {
+        const { provider, comment } = req.body;
+        if (!provider) {
+          return res.status(400).json({ error: 'Provider is required' });
+        }
+        if (!this.aiEngine.getComparison(req.params.id)) {
+          return res.status(404).json({ error: 'Comparison not found' });
+        }
+        const feedbackIds = await this.aiEngine.recordComparisonChoice(req.params.id, provider, {
+          userId: req.user?.id,
+          comment
+        });
+        res.json({ feedbackIds });
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
+      }
+    });
+
     this.app.use('/api/ai', router);
   }
 
+  private setupUsageRoutes(): void {
+    const router = express.Router();
+    const groupings: UsageGroupBy[] = ['provider', 'model', 'story', 'requestType', 'day', 'month'];
+
+    // Filters shared by the report and record listings: from, to, storyId, provider, requestType and limit
+    const parseQuery = (req: APIRequest): UsageQuery => ({
+      from: req.query.from as string | undefined,
+      to: req.query.to as string | undefined,
+      storyId: req.query.storyId as string | undefined,
+      provider: req.query.provider as string | undefined,
+      requestType: req.query.requestType as AIRequestType | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined
+    });
+
+    router.use((req: APIRequest, res: Response, next: NextFunction) => {
+      if (!this.aiEngine.getUsageLedger()) {
+        return res.status(503).json({ error: 'Usage tracking is not enabled' });
+      }
+      next();
+    });
+
+    // Totals for the filtered period, optionally grouped, with budget status
+    router.get('/report', async (req: APIRequest, res: Response) => {
+      const groupBy = req.query.groupBy as UsageGroupBy | undefined;
+      if (groupBy && !groupings.includes(groupBy)) {
+        return res.status(400).json({ error: `groupBy must be one of ${groupings.join(', ')}` });
+      }
+
+      try {
+        res.json(await this.aiEngine.getUsageLedger()!.getReport(parseQuery(req), groupBy));
+      } catch (error) {
+        res.status(500).json({ error: 'Failed to build usage report' });
+      }
+    });
+
+    router.get('/records', async (req: APIRequest, res: Response) => {
+      try {
+        res.json(await this.aiEngine.getUsageLedger()!.getRecords(parseQuery(req)));
+      } catch (error) {
+        res.status(500).json({ error: 'Failed to fetch usage records' });
+      }
+    });
+
+    router.get('/budgets', async (req: APIRequest, res: Response) => {
+      try {
+        res.json(await this.aiEngine.getUsageLedger()!.getBudgetStatuses(req.query.storyId as string | undefined));
+      } catch (error) {
+        res.status(500).json({ error: 'Failed to fetch budgets' });
+      }
+    });
+
+    // Replaces all budgets
+    router.put('/budgets', async (req: APIRequest, res: Response) => {
+      if (!Array.isArray(req.body)) {
+        return res.status(400).json({ error: 'Expected an array of budgets' });
+      }
+
+      try {
+        res.json(this.aiEngine.getUsageLedger()!.setBudgets(req.body));
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid budgets' });
+      }
+    });
+
+    this.app.use('/api/usage', router);
+  }
+
+  private setupChatRoutes(): void {
+    const router = express.Router();
+
+    // Answers 404 for unknown threads before the handler runs
+    router.param('threadId', async (req: APIRequest, res: Response, next: NextFunction, threadId: string) => {
+      try {
+        if (!(await this.chatThreads.getThread(threadId))) {
+          res.status(404).json({ error: 'Chat thread not found' });
+          return;
+        }
+        next();
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // Threads of a story, optionally only those scoped to a chapter or scene
+    router.get('/threads', async (req: APIRequest, res: Response) => {
+      if (!req.query.storyId) {
+        return res.status(400).json({ error: 'storyId is required' });
+      }
+      res.json(await this.chatThreads.listThreads({
+        storyId: req.query.storyId as string,
+        chapterId: req.query.chapterId as string | undefined,
+        sceneId: req.query.sceneId as string | undefined
+      }));
+    });
+
+    router.post('/threads', async (req: APIRequest, res: Response) => {
+      try {
+        const { storyId, chapterId, sceneId, title } = req.body;
+        if (!storyId || !(await this.dbManager.loadStory(storyId))) {
+          return res.status(400).json({ error: 'An existing storyId is required' });
+        }
+        res.status(201).json(await this.chatThreads.createThread({ storyId, chapterId, sceneId }, title));
+      } catch (error) {
+        res.status(500).json({ error: 'Failed to create chat thread' });
+      }
+    });
+
+    // The thread with its messages
+    router.get('/threads/:threadId', async (req: APIRequest, res: Response) => {
+      res.json(await this.chatThreads.resumeThread(req.params.threadId));
+    });
+
+    router.patch('/threads/:threadId', async (req: APIRequest, res: Response) => {
+      if (typeof req.body.title !== 'string') {
+        return res.status(400).json({ error: 'Title must be a string' });
+      }
+      res.json(await this.chatThreads.renameThread(req.params.threadId, req.body.title));
+    });
+
+    router.delete('/threads/:threadId', async (req: APIRequest, res: Response) => {
+      await this.chatThreads.deleteThread(req.params.threadId);
+      res.status(204).end();
+    });
+
+    // Sends a message and returns it with the reply
+    router.post('/threads/:threadId/messages', async (req: APIRequest, res: Response) => {
+      try {
+        const { content, context } = req.body;
+        if (typeof content !== 'string' || !content.trim()) {
+          return res.status(400).json({ error: 'Content is required' });
+        }
+        res.json(await this.chatThreads.sendMessage(req.params.threadId, content, context, this.abortOnDisconnect(res)));
+      } catch (error) {
+        if (error instanceof RequestCancelledError) return;
+        if (error instanceof BudgetExceededError) {
+          return res.status(402).json({ error: error.message, budget: error.status });
+        }
+        res.status(500).json({ error: (error as Error).message });
+      }
+    });
+
+    router.post('/threads/:threadId/facts', async (req: APIRequest, res: Response) => {
+      if (typeof req.body.text !== 'string' || !req.body.text.trim()) {
+        return res.status(400).json({ error: 'Text is required' });
+      }
+      res.json(await this.chatThreads.pinFact(req.params.threadId, req.body.text));
+    });
+
+    router.delete('/threads/:threadId/facts/:factId', async (req: APIRequest, res: Response) => {
+      res.json(await this.chatThreads.unpinFact(req.params.threadId, req.params.factId));
+    });
+
+    // Copies the thread, whole or up to throughMessageId, into a new thread
+    router.post('/threads/:threadId/fork', async (req: APIRequest, res: Response) => {
+      try {
+        const { throughMessageId, title } = req.body;
+        res.status(201).json(await this.chatThreads.forkThread(req.params.threadId, throughMessageId, title));
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
+      }
+    });
+
+    this.app.use('/api/chat', router);
+  }
+
   private setupPluginRoutes(): void {
     const router = express.Router();
 
@@ -515,7 +889,8 @@ export class APIServer {
         id: clientId,
         ws,
         subscriptions: new Set(),
-        lastPing: new Date()
+        lastPing: new Date(),
+        activeRequests: new Map()
       };
 
       this.wsClients.set(clientId, client);
@@ -533,6 +908,7 @@ export class APIServer {
       });
 
       ws.on('close', () => {
+        client.activeRequests.forEach(controller => controller.abort());
         this.wsClients.delete(clientId);
       });
 
@@ -582,19 +958,50 @@ export class APIServer {
         
       case 'ai_generate':
         if (client.apiKey) {
+          // An ai_cancel message with the same request ID stops the generation
+          const controller = new AbortController();
+          const requestId = message.requestId ?? crypto.randomUUID();
+          client.activeRequests.get(requestId)?.abort();
+          client.activeRequests.set(requestId, controller);
+
           try {
-            const result = await this.aiEngine.generateText(message.prompt, message.options);
+            // Text is sent as ai_chunk messages while it is generated, followed
+            // by the usual ai_result carrying the complete text
+            const context = message.context || { characters: [], genre: [], targetAudience: '' };
+            let content = '';
+            let metadata: any;
+
+            for await (const chunk of this.aiEngine.generateTextStream(message.prompt, context, message.options, controller.signal)) {
+              if (client.ws.readyState !== WebSocket.OPEN) return;
+
+              if (chunk.done) {
+                metadata = chunk.metadata;
+              } else {
+                content += chunk.content;
+                client.ws.send(JSON.stringify({
+                  type: 'ai_chunk',
+                  requestId: message.requestId,
+                  content: chunk.content
+                }));
+              }
+            }
+
             client.ws.send(JSON.stringify({
               type: 'ai_result',
               requestId: message.requestId,
-              result
+              result: { content, metadata }
             }));
           } catch (error) {
-            client.ws.send(JSON.stringify({
-              type: 'error',
-              requestId: message.requestId,
-              message: 'Failed to generate text'
-            }));
+            if (client.ws.readyState !== WebSocket.OPEN) return;
+
+            client.ws.send(JSON.stringify(error instanceof RequestCancelledError
+              ? { type: 'ai_cancelled', requestId: message.requestId }
+              : { type: 'error', requestId: message.requestId, message: 'Failed to generate text' }
+            ));
+          } finally {
+            if (client.activeRequests.get(requestId) === controller) {
+              client.activeRequests.delete(requestId);
+            }
           }
         } else {
           client.ws.send(JSON.stringify({
@@ -604,6 +1011,19 @@ export class APIServer {
         }
         break;
         
+      case 'ai_cancel':
+        // The generation answers with ai_cancelled once it has stopped
+        if (!client.activeRequests.has(message.requestId)) {
+          client.ws.send(JSON.stringify({
+            type: 'error',
+            requestId: message.requestId,
+            message: 'No generation in progress with this request ID'
+          }));
+          break;
+        }
+        client.activeRequests.get(message.requestId)!.abort();
+        break;
+        
       default:
         client.ws.send(JSON.stringify({
           type: 'error',
@@ -630,6 +1050,17 @@ export class APIServer {
     }
   }
 
+  // A signal that aborts when the client closes the connection before the response is sent
+  private abortOnDisconnect(res: Response): AbortSignal {
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        controller.abort();
+      }
+    });
+    return controller.signal;
+  }
+
   private async authenticateAPIKey(req: APIRequest, res: Response, next: NextFunction): Promise<void> {
     const apiKey = req.headers['x-api-key'] as string || req.query.apiKey as string;
     
@@ -2,9 +2,10 @@ import * as grpc from '@grpc/grpc-js';
 import * as protoLoader from '@grpc/proto-loader';
 import * as path from 'path';
 import { AIEngine } from '../ai/AIEngine';
+import { RequestCancelledError } from '../ai/RequestCancellation';
 import { DatabaseManager } from '../database/DatabaseManager';
 import { PluginManager } from '../plugin/PluginManager';
-import { Story, Scene, Character } from '../../shared/types/Story';
+import { Story, Scene, Character, SearchField, SearchHit } from '../../shared/types/Story';
 
 export interface GRPCConfig {
   port: number;
@@ -245,11 +246,24 @@ export class GRPCServer {
     callback: grpc.sendUnaryData<any>
   ): Promise<void> {
     try {
-      const { query } = call.request;
-      const stories = await this.dbManager.searchStories(query);
-      const protoStories = stories.map(story => this.storyToProto(story));
-      
-      callback(null, { stories: protoStories });
+      const { query, limit, fields } = call.request;
+      const result = await this.dbManager.searchStories(query, {
+        fields: fields && fields.length > 0 ? fields as SearchField[] : undefined,
+        limit: limit || undefined
+      });
+
+      // Matching stories in rank order, alongside the individual hits
+      const storyIds = Array.from(new Set(result.hits.map(hit => hit.storyId)));
+      const stories = await Promise.all(storyIds.map(id => this.dbManager.loadStory(id)));
+      const protoStories = stories
+        .filter((story): story is Story => story !== null)
+        .map(story => this.storyToProto(story));
+
+      callback(null, {
+        stories: protoStories,
+        total_count: result.total,
+        hits: result.hits.map(hit => this.searchHitToProto(hit))
+      });
     } catch (error) {
       callback({
         code: grpc.status.INTERNAL,
@@ -265,10 +279,14 @@ export class GRPCServer {
   ): Promise<void> {
     try {
       const { prompt, options } = call.request;
-      const result = await this.aiEngine.generateText(prompt, options);
+      const result = await this.aiEngine.generateText(prompt, options, undefined, this.abortOnCancel(call));
       
       callback(null, { text: result });
     } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        callback({ code: grpc.status.CANCELLED, message: 'Generation cancelled' });
+        return;
+      }
       callback({
         code: grpc.status.INTERNAL,
         message: 'Failed to generate text'
@@ -282,10 +300,14 @@ export class GRPCServer {
   ): Promise<void> {
     try {
       const story = this.protoToStory(call.request.story);
-      const analysis = await this.aiEngine.analyzeStory(story);
+      const analysis = await this.aiEngine.analyzeStory(story, this.abortOnCancel(call));
       
       callback(null, { analysis });
     } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        callback({ code: grpc.status.CANCELLED, message: 'Analysis cancelled' });
+        return;
+      }
       callback({
         code: grpc.status.INTERNAL,
         message: 'Failed to analyze story'
@@ -344,32 +366,49 @@ export class GRPCServer {
     }
   }
 
-  private streamGeneration(call: grpc.ServerWritableStream<any, any>): void {
+  private async streamGeneration(call: grpc.ServerWritableStream<any, any>): Promise<void> {
     const { prompt, options } = call.request;
-    
-    // This would implement streaming text generation
-    // For now, we'll simulate it
-    const words = ['The', 'quick', 'brown', 'fox', 'jumps', 'over', 'the', 'lazy', 'dog'];
-    let index = 0;
-    
-    const interval = setInterval(() => {
-      if (index >= words.length) {
-        call.end();
-        clearInterval(interval);
-        return;
+    const context = { characters: [], genre: [], targetAudience: '' };
+    const startTime = Date.now();
+
+    try {
+      const stream = this.aiEngine.generateTextStream(prompt, context, {
+        maxTokens: options?.max_tokens || undefined,
+        temperature: options?.temperature || undefined
+      }, this.abortOnCancel(call));
+
+      for await (const chunk of stream) {
+        call.write({
+          token: chunk.content,
+          is_complete: chunk.done,
+          metadata: chunk.done ? {
+            tokens_used: chunk.metadata?.tokensUsed || 0,
+            processing_time: Date.now() - startTime,
+            model_used: chunk.metadata?.model || ''
+          } : undefined
+        });
       }
-      
-      call.write({
-        token: words[index],
-        isComplete: index === words.length - 1
+
+      call.end();
+    } catch (error) {
+      // The client cancelled the call, so there is no one to tell
+      if (error instanceof RequestCancelledError) return;
+      call.emit('error', {
+        code: grpc.status.INTERNAL,
+        message: 'Failed to stream generation'
       });
-      
-      index++;
-    }, 100);
-    
-    call.on('cancelled', () => {
-      clearInterval(interval);
-    });
+    }
+  }
+
+  // A signal that aborts when the client cancels the call or its deadline passes
+  private abortOnCancel(call: grpc.ServerUnaryCall<any, any> | grpc.ServerWritableStream<any, any>): AbortSignal {
+    const controller = new AbortController();
+    if (call.cancelled) {
+      controller.abort();
+    } else {
+      call.on('cancelled', () => controller.abort());
+    }
+    return controller.signal;
   }
 
   // Plugin Service Methods
@@ -513,6 +552,20 @@ export class GRPCServer {
   }
 
   // Helper methods for proto conversion
+  private searchHitToProto(hit: SearchHit): any {
+    return {
+      story_id: hit.storyId,
+      type: hit.type,
+      chapter_id: hit.chapterId || '',
+      scene_id: hit.sceneId || '',
+      character_id: hit.characterId || '',
+      field: hit.field,
+      score: hit.score,
+      snippet: hit.snippet,
+      highlights: hit.highlights
+    };
+  }
+
   private storyToProto(story: Story): any {
     return {
       id: story.id,
@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+jest.unmock('fs');
+jest.unmock('crypto');
+jest.unmock('better-sqlite3');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { APIServer } from '../APIServer';
+import { DatabaseManager } from '../../database/DatabaseManager';
+import { Chapter, Scene, Story } from '../../../shared/types/Story';
+
+const API_KEY = 'test-api-key';
+
+const scene = (id: string, chapterId: string, content: string): Scene => ({
+  id,
+  chapterId,
+  setting: {
+    location: 'Harbor',
+    timeOfDay: 'dusk',
+    atmosphere: 'tense',
+    sensoryDetails: { visual: [], auditory: [], tactile: [], olfactory: [], gustatory: [] }
+  },
+  characters: [],
+  mood: 'ominous',
+  purpose: { type: 'plot', description: '', objectives: [] },
+  content,
+  order: 1
+} as Scene);
+
+const story = (id: string, chapter: Chapter): Story => ({
+  id,
+  title: `Story ${id}`,
+  genre: [],
+  structure: { type: 'three-act', beats: [] },
+  characters: [],
+  chapters: [chapter],
+  metadata: { targetWordCount: 1000, currentWordCount: 0, targetAudience: 'adult', contentRating: 'PG', tags: [], notes: '' },
+  analysisCache: { lastAnalyzed: new Date() },
+  createdAt: new Date(),
+  updatedAt: new Date()
+} as Story);
+
+describe('APIServer', () => {
+  let userDataPath: string;
+  let dbManager: DatabaseManager;
+  let server: APIServer;
+  let baseUrl: string;
+
+  const post = (url: string, body: any) => fetch(`${baseUrl}${url}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-api-key': API_KEY },
+    body: JSON.stringify(body)
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    userDataPath = fs.mkdtempSync(path.join(os.tmpdir(), 'soyume-api-'));
+    (global as any).mockElectron.app.getPath.mockReturnValue(userDataPath);
+    dbManager = new DatabaseManager();
+    await dbManager.initialize();
+
+    const configManager = {
+      get: jest.fn((key: string, fallback?: any) =>
+        key === 'apiKeys' ? [{ id: 'key-1', name: 'Test', key: API_KEY, permissions: ['*'], createdAt: new Date(), isActive: true }] : fallback
+      ),
+      set: jest.fn()
+    } as any;
+    server = new APIServer({} as any, dbManager, {} as any, configManager, {
+      port: 0,
+      host: '127.0.0.1',
+      enableWebSocket: false,
+      enableRateLimit: false
+    });
+    await server.start();
+    const { port } = ((server as any).server.address() as AddressInfo);
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await dbManager.close();
+    fs.rmSync(userDataPath, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('snapshots', () => {
+    beforeEach(async () => {
+      await dbManager.saveStory(story('story-a', {
+        id: 'chapter-a', storyId: 'story-a', title: 'A', content: '', order: 1, wordCount: 0,
+        scenes: [scene('scene-a', 'chapter-a', 'The harbor at dusk.')]
+      }));
+      await dbManager.saveStory(story('story-b', {
+        id: 'chapter-b', storyId: 'story-b', title: 'B', content: '', order: 1, wordCount: 0, scenes: []
+      }));
+    });
+
+    it('should snapshot a scene of the story in the URL', async () => {
+      const response = await post('/api/stories/story-a/scenes/scene-a/snapshots', { label: 'Before edits' });
+
+      expect(response.status).toBe(201);
+      expect(await response.json()).toMatchObject({ storyId: 'story-a', entityId: 'scene-a', label: 'Before edits' });
+    });
+
+    it('should not write a revision when the scene belongs to another story', async () => {
+      const before = await dbManager.getRevisions('scene', 'scene-a');
+
+      const response = await post('/api/stories/story-b/scenes/scene-a/snapshots', { label: 'Wrong story' });
+
+      expect(response.status).toBe(404);
+      expect(await dbManager.getRevisions('scene', 'scene-a')).toEqual(before);
+    });
+
+    it('should answer 404 for a scene that does not exist', async () => {
+      const response = await post('/api/stories/story-a/scenes/missing/snapshots', { label: 'Nothing' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
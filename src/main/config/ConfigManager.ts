@@ -1,5 +1,6 @@
 import Store from 'electron-store';
-import { ProviderConfig } from '../../shared/types/AI';
+import { ModelPrice, PromptTemplate, ProviderConfig, RoutingConfig, UsageBudget } from '../../shared/types/AI';
+import { DEFAULT_ROUTING_RULES } from '../ai/routing/RoutingRules';
 
 export interface UserPreferences {
   accessibility: AccessibilitySettings;
@@ -7,6 +8,14 @@ export interface UserPreferences {
   interface: InterfaceSettings;
   privacy: PrivacySettings;
   workflow: WorkflowSettings;
+  promptTemplates: PromptTemplate[]; // User versions of prompt templates; built-ins are not stored
+  usage: UsageSettings;
+  aiRouting: RoutingConfig;
+}
+
+export interface UsageSettings {
+  budgets: UsageBudget[];
+  prices: Record<string, ModelPrice>; // Per-model prices that override the built-in price table
 }
 
 export interface AccessibilitySettings {
@@ -75,6 +84,8 @@ export interface PrivacySettings {
   allowCrashReports: boolean;
   dataRetentionDays: number;
   encryptLocalData: boolean;
+  redactCloudRequests: boolean; // replace names and contact details with placeholders before they reach a cloud provider
+  redactedNames: string[]; // real-world names to redact besides the story's characters
 }
 
 export interface WorkflowSettings {
@@ -143,7 +154,9 @@ export class ConfigManager {
             allowTelemetry: { type: 'boolean' },
             allowCrashReports: { type: 'boolean' },
             dataRetentionDays: { type: 'number', minimum: 1, maximum: 365 },
-            encryptLocalData: { type: 'boolean' }
+            encryptLocalData: { type: 'boolean' },
+            redactCloudRequests: { type: 'boolean' },
+            redactedNames: { type: 'array', items: { type: 'string' } }
           }
         },
         workflow: {
@@ -155,6 +168,70 @@ export class ConfigManager {
             showWritingTips: { type: 'boolean' },
             enableFocusMode: { type: 'boolean' }
           }
+        },
+        promptTemplates: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              requestType: { type: 'string' },
+              provider: { type: 'string' },
+              version: { type: 'number', minimum: 1 },
+              name: { type: 'string' },
+              system: { type: 'string' },
+              user: { type: 'string' },
+              variables: { type: 'array' },
+              source: { type: 'string', enum: ['builtin', 'user'] }
+            }
+          }
+        },
+        usage: {
+          type: 'object',
+          properties: {
+            budgets: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  period: { type: 'string', enum: ['daily', 'monthly', 'story'] },
+                  storyId: { type: 'string' },
+                  limit: { type: 'number', minimum: 0 },
+                  warnAt: { type: 'number', minimum: 0, maximum: 1 },
+                  hardCap: { type: 'boolean' }
+                }
+              }
+            },
+            prices: { type: 'object' }
+          }
+        },
+        aiRouting: {
+          type: 'object',
+          properties: {
+            defaultStrategy: { type: 'string', enum: ['priority', 'load_balance', 'performance'] },
+            enableFallback: { type: 'boolean' },
+            maxRetries: { type: 'number', minimum: 0 },
+            retryDelay: { type: 'number', minimum: 0 },
+            rules: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  description: { type: 'string' },
+                  enabled: { type: 'boolean' },
+                  requestType: { type: 'string' },
+                  when: { type: 'object' },
+                  preferredProviderType: { type: 'string', enum: ['cowriter', 'local', 'cloud'] },
+                  preferredProvider: { type: 'string' },
+                  fallbackChain: { type: 'array', items: { type: 'string' } },
+                  fallbackStrategy: { type: 'string', enum: ['priority', 'load_balance', 'performance'] },
+                  requireOffline: { type: 'boolean' }
+                }
+              }
+            }
+          }
         }
       }
     });
@@ -237,7 +314,9 @@ export class ConfigManager {
         allowTelemetry: false,
         allowCrashReports: true,
         dataRetentionDays: 90,
-        encryptLocalData: true
+        encryptLocalData: true,
+        redactCloudRequests: false,
+        redactedNames: []
       },
       workflow: {
         defaultStoryStructure: 'save-the-cat',
@@ -245,6 +324,18 @@ export class ConfigManager {
         enableRealTimeAnalysis: true,
         showWritingTips: true,
         enableFocusMode: false
+      },
+      promptTemplates: [],
+      usage: {
+        budgets: [],
+        prices: {}
+      },
+      aiRouting: {
+        defaultStrategy: 'priority',
+        enableFallback: true,
+        maxRetries: 3,
+        retryDelay: 1000,
+        rules: DEFAULT_ROUTING_RULES.map(rule => ({ ...rule }))
       }
     };
   }
@@ -307,6 +398,33 @@ export class ConfigManager {
     return providers[0] || null;
   }
 
+  // Prompt template helpers
+  getPromptTemplates(): PromptTemplate[] {
+    return this.get('promptTemplates') || [];
+  }
+
+  setPromptTemplates(templates: PromptTemplate[]): void {
+    this.set('promptTemplates', templates);
+  }
+
+  // Usage helpers
+  getUsageSettings(): UsageSettings {
+    return { budgets: [], prices: {}, ...this.get('usage') };
+  }
+
+  updateUsageSettings(updates: Partial<UsageSettings>): void {
+    this.set('usage', { ...this.getUsageSettings(), ...updates });
+  }
+
+  // Routing helpers
+  getRoutingConfig(): RoutingConfig {
+    return { ...this.defaultConfig.aiRouting, ...this.get('aiRouting') };
+  }
+
+  updateRoutingConfig(updates: Partial<RoutingConfig>): void {
+    this.set('aiRouting', { ...this.getRoutingConfig(), ...updates });
+  }
+
   // Accessibility helpers
   getAccessibilitySettings(): AccessibilitySettings {
     return this.get('accessibility');
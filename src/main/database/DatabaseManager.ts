@@ -1,51 +1,98 @@
 import * as path from 'path';
 import * as fs from 'fs';
 import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
 import { app } from 'electron';
-import { Story, Character, Chapter, Scene } from '../../shared/types/Story';
+import Database from 'better-sqlite3';
+import {
+  Story,
+  Character,
+  Chapter,
+  Scene,
+  Revision,
+  RevisionDiff,
+  RevisionEntityType,
+  SearchOptions,
+  SearchResult
+} from '../../shared/types/Story';
+import {
+  ChatMessage,
+  ChatThread,
+  ChatThreadQuery,
+  UsageGroupBy,
+  UsageQuery,
+  UsageRecord,
+  UsageTotals
+} from '../../shared/types/AI';
 import { StoryValidator, ValidationResult } from '../../shared/validation/StoryValidation';
-import { StoryUtils } from '../../shared/utils/StoryUtils';
-
-// Simple in-memory database for initial development
-// This will be replaced with a proper database in later iterations
-interface DatabaseStore {
-  stories: Map<string, any>;
-  characters: Map<string, any>;
-  chapters: Map<string, any>;
-  scenes: Map<string, any>;
-  settings: Map<string, any>;
-  analysisCache: Map<string, any>;
-}
+import { StoryUtils, ChapterUtils, IdGenerator } from '../../shared/utils/StoryUtils';
+import { TextDiff } from '../../shared/utils/TextDiff';
+import { MigrationRunner } from './MigrationRunner';
+import { SearchIndex } from './SearchIndex';
+import {
+  migrations,
+  pickDetails,
+  STORY_DETAIL_FIELDS,
+  CHARACTER_DETAIL_FIELDS,
+  SCENE_DETAIL_FIELDS
+} from './migrations';
+
+// Expressions usage summaries are grouped by. Timestamps are stored as UTC ISO
+// strings, so days and months are UTC days and months.
+const USAGE_GROUP_COLUMNS: Record<UsageGroupBy, string> = {
+  provider: 'provider',
+  model: 'model',
+  story: "COALESCE(story_id, '')",
+  requestType: 'request_type',
+  day: 'substr(created_at, 1, 10)',
+  month: 'substr(created_at, 1, 7)'
+};
 
-export class DatabaseManager {
-  private store: DatabaseStore;
+// Embedded SQLite store. Each entity lives in its own table so saving a story
+// only rewrites that story's rows; sensitive columns are encrypted per field.
+// Emits 'story-saved' (story) and 'story-deleted' (storyId) so indexes kept
+// outside the database can follow changes.
+export class DatabaseManager extends EventEmitter {
+  // Automatic revisions saved within this window of the previous one are
+  // merged into it, so autosave doesn't produce a revision per keystroke
+  static readonly REVISION_COALESCE_WINDOW_MS = 5 * 60 * 1000;
+
+  private db: Database.Database | null = null;
   private encryptionKey: Buffer;
-  private dataPath: string;
+  private dataDir: string;
+  private dbPath: string;
+  private searchIndex = new SearchIndex();
 
   constructor() {
+    super();
+
     // Create user data directory if it doesn't exist
     const userDataPath = app.getPath('userData');
-    const dbDir = path.join(userDataPath, 'data');
+    this.dataDir = path.join(userDataPath, 'data');
     
-    if (!fs.existsSync(dbDir)) {
-      fs.mkdirSync(dbDir, { recursive: true });
+    if (!fs.existsSync(this.dataDir)) {
+      fs.mkdirSync(this.dataDir, { recursive: true });
     }
 
-    this.dataPath = path.join(dbDir, 'soyume-data.json');
+    this.dbPath = path.join(this.dataDir, 'soyume.db');
     this.encryptionKey = this.getOrCreateEncryptionKey();
-    this.store = {
-      stories: new Map(),
-      characters: new Map(),
-      chapters: new Map(),
-      scenes: new Map(),
-      settings: new Map(),
-      analysisCache: new Map()
-    };
   }
 
   async initialize(): Promise<void> {
     try {
-      await this.loadFromFile();
+      this.db = new Database(this.dbPath);
+      this.db.pragma('journal_mode = WAL');
+      this.db.pragma('foreign_keys = ON');
+
+      const runner = new MigrationRunner(this.db, migrations);
+      runner.migrate({
+        dataDir: this.dataDir,
+        encrypt: (value: string) => this.encrypt(value),
+        decrypt: (value: string) => this.decrypt(value)
+      });
+
+      this.rebuildSearchIndex();
+
       console.log('Database initialized successfully');
     } catch (error) {
       console.error('Failed to initialize database:', error);
@@ -53,44 +100,11 @@ export class DatabaseManager {
     }
   }
 
-  private async loadFromFile(): Promise<void> {
-    try {
-      if (fs.existsSync(this.dataPath)) {
-        const encryptedData = fs.readFileSync(this.dataPath, 'utf8');
-        const decryptedData = this.decrypt(encryptedData);
-        const data = JSON.parse(decryptedData);
-        
-        // Convert plain objects back to Maps
-        this.store.stories = new Map(data.stories || []);
-        this.store.characters = new Map(data.characters || []);
-        this.store.chapters = new Map(data.chapters || []);
-        this.store.scenes = new Map(data.scenes || []);
-        this.store.settings = new Map(data.settings || []);
-        this.store.analysisCache = new Map(data.analysisCache || []);
-      }
-    } catch (error) {
-      console.warn('Could not load existing data, starting fresh:', error);
-    }
-  }
-
-  private async saveToFile(): Promise<void> {
-    try {
-      // Convert Maps to plain objects for serialization
-      const data = {
-        stories: Array.from(this.store.stories.entries()),
-        characters: Array.from(this.store.characters.entries()),
-        chapters: Array.from(this.store.chapters.entries()),
-        scenes: Array.from(this.store.scenes.entries()),
-        settings: Array.from(this.store.settings.entries()),
-        analysisCache: Array.from(this.store.analysisCache.entries())
-      };
-      
-      const serializedData = JSON.stringify(data);
-      const encryptedData = this.encrypt(serializedData);
-      fs.writeFileSync(this.dataPath, encryptedData, 'utf8');
-    } catch (error) {
-      console.error('Failed to save data to file:', error);
+  private getDb(): Database.Database {
+    if (!this.db) {
+      throw new Error('Database not initialized');
     }
+    return this.db;
   }
 
   // Encryption/Decryption methods
@@ -112,6 +126,14 @@ export class DatabaseManager {
     return decrypted;
   }
 
+  private encryptJson(value: any): string {
+    return this.encrypt(JSON.stringify(value));
+  }
+
+  private decryptJson(value: string | null): any {
+    return value ? JSON.parse(this.decrypt(value)) : undefined;
+  }
+
   private getOrCreateEncryptionKey(): Buffer {
     const keyPath = path.join(app.getPath('userData'), 'encryption.key');
     
@@ -136,30 +158,54 @@ export class DatabaseManager {
 
       // Update word count before saving
       const updatedStory = StoryUtils.updateWordCount(story);
+      const db = this.getDb();
 
-      // Store the story with encrypted sensitive data
-      const storyData = {
-        ...updatedStory,
-        genre: this.encrypt(JSON.stringify(updatedStory.genre)),
-        structure: this.encrypt(JSON.stringify(updatedStory.structure)),
-        metadata: this.encrypt(JSON.stringify(updatedStory.metadata)),
-        analysisCache: this.encrypt(JSON.stringify(updatedStory.analysisCache)),
-        updatedAt: new Date()
-      };
-
-      this.store.stories.set(updatedStory.id, storyData);
-
-      // Save characters
-      for (const character of updatedStory.characters) {
-        await this.saveCharacter(character);
-      }
+      const save = db.transaction(() => {
+        const existing = db.prepare('SELECT created_at FROM stories WHERE id = ?').get(updatedStory.id) as any;
+        const createdAt = existing?.created_at || (updatedStory.createdAt ? new Date(updatedStory.createdAt) : new Date()).toISOString();
 
-      // Save chapters
-      for (const chapter of updatedStory.chapters) {
-        await this.saveChapter(chapter);
-      }
+        db.prepare(`
+          INSERT INTO stories
+            (id, title, genre, structure, metadata, analysis_cache, details, word_count, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(id) DO UPDATE SET
+            title = excluded.title,
+            genre = excluded.genre,
+            structure = excluded.structure,
+            metadata = excluded.metadata,
+            analysis_cache = excluded.analysis_cache,
+            details = excluded.details,
+            word_count = excluded.word_count,
+            updated_at = excluded.updated_at
+        `).run(
+          updatedStory.id,
+          updatedStory.title,
+          this.encryptJson(updatedStory.genre),
+          this.encryptJson(updatedStory.structure),
+          this.encryptJson(updatedStory.metadata),
+          this.encryptJson(updatedStory.analysisCache),
+          this.encryptJson(pickDetails(updatedStory, STORY_DETAIL_FIELDS)),
+          updatedStory.metadata?.currentWordCount || 0,
+          createdAt,
+          new Date().toISOString()
+        );
+
+        // Save characters
+        for (const character of updatedStory.characters) {
+          this.saveCharacter(updatedStory.id, character);
+        }
 
-      await this.saveToFile();
+        // Save chapters
+        for (const chapter of updatedStory.chapters) {
+          this.saveChapter(updatedStory.id, chapter);
+        }
+
+        this.removeDeletedEntities(updatedStory);
+      });
+
+      save();
+      this.searchIndex.indexStory(updatedStory);
+      this.emit('story-saved', updatedStory);
       return validation;
     } catch (error) {
       console.error('Failed to save story:', error);
@@ -167,78 +213,127 @@ export class DatabaseManager {
     }
   }
 
+  // Drop rows for characters, chapters and scenes no longer part of the story,
+  // along with the revision history of removed chapters and scenes
+  private removeDeletedEntities(story: Story): void {
+    const db = this.getDb();
+    const characterIds = new Set(story.characters.map(character => character.id));
+    const chapterIds = new Set(story.chapters.map(chapter => chapter.id));
+    const sceneIds = new Set(story.chapters.flatMap(chapter => chapter.scenes.map(scene => scene.id)));
+
+    const deleteCharacter = db.prepare('DELETE FROM characters WHERE id = ?');
+    const deleteChapter = db.prepare('DELETE FROM chapters WHERE id = ?');
+    const deleteScene = db.prepare('DELETE FROM scenes WHERE id = ?');
+
+    const storedCharacters = db.prepare('SELECT id FROM characters WHERE story_id = ?').all(story.id) as any[];
+    for (const row of storedCharacters) {
+      if (!characterIds.has(row.id)) deleteCharacter.run(row.id);
+    }
+
+    const storedScenes = db.prepare('SELECT id FROM scenes WHERE story_id = ?').all(story.id) as any[];
+    for (const row of storedScenes) {
+      if (!sceneIds.has(row.id)) deleteScene.run(row.id);
+    }
+
+    const storedChapters = db.prepare('SELECT id FROM chapters WHERE story_id = ?').all(story.id) as any[];
+    for (const row of storedChapters) {
+      if (!chapterIds.has(row.id)) deleteChapter.run(row.id);
+    }
+
+    const deleteRevisions = db.prepare('DELETE FROM revisions WHERE entity_type = ? AND entity_id = ?');
+    const revisedEntities = db
+      .prepare('SELECT DISTINCT entity_type, entity_id FROM revisions WHERE story_id = ?')
+      .all(story.id) as any[];
+    for (const row of revisedEntities) {
+      const ids = row.entity_type === 'chapter' ? chapterIds : sceneIds;
+      if (!ids.has(row.entity_id)) deleteRevisions.run(row.entity_type, row.entity_id);
+    }
+  }
+
   async loadStory(storyId: string): Promise<Story | null> {
     try {
-      const storyData = this.store.stories.get(storyId);
+      const storyData = this.getDb().prepare('SELECT * FROM stories WHERE id = ?').get(storyId) as any;
       if (!storyData) return null;
 
-      // Load characters
-      const characters = await this.loadCharactersByStoryId(storyId);
-      
-      // Load chapters
-      const chapters = await this.loadChaptersByStoryId(storyId);
-
-      return {
-        id: storyData.id,
-        title: storyData.title,
-        genre: JSON.parse(this.decrypt(storyData.genre)),
-        structure: JSON.parse(this.decrypt(storyData.structure)),
-        characters,
-        chapters,
-        metadata: JSON.parse(this.decrypt(storyData.metadata)),
-        analysisCache: JSON.parse(this.decrypt(storyData.analysisCache)),
-        createdAt: new Date(storyData.createdAt),
-        updatedAt: new Date(storyData.updatedAt)
-      };
+      return this.rowToStory(storyData);
     } catch (error) {
       console.error('Failed to load story:', error);
       return null;
     }
   }
 
+  private rowToStory(storyData: any): Story {
+    // Load characters
+    const characters = this.loadCharactersByStoryId(storyData.id);
+    
+    // Load chapters
+    const chapters = this.loadChaptersByStoryId(storyData.id);
+
+    return {
+      ...this.decryptJson(storyData.details),
+      id: storyData.id,
+      title: storyData.title,
+      genre: this.decryptJson(storyData.genre),
+      structure: this.decryptJson(storyData.structure),
+      characters,
+      chapters,
+      metadata: this.decryptJson(storyData.metadata),
+      analysisCache: this.decryptJson(storyData.analysis_cache),
+      createdAt: new Date(storyData.created_at),
+      updatedAt: new Date(storyData.updated_at)
+    };
+  }
+
   async getAllStories(): Promise<Story[]> {
     try {
+      const rows = this.getDb().prepare('SELECT * FROM stories ORDER BY updated_at DESC').all() as any[];
       const stories: Story[] = [];
-      
-      for (const [storyId] of this.store.stories) {
-        const story = await this.loadStory(storyId);
-        if (story) stories.push(story);
+
+      for (const row of rows) {
+        try {
+          stories.push(this.rowToStory(row));
+        } catch (error) {
+          console.error(`Failed to load story ${row.id}:`, error);
+        }
       }
 
-      // Sort by updated date
-      return stories.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+      return stories;
     } catch (error) {
       console.error('Failed to get all stories:', error);
       return [];
     }
   }
 
-  async deleteStory(storyId: string): Promise<void> {
-    try {
-      this.store.stories.delete(storyId);
-      
-      // Delete related characters
-      for (const [charId, character] of this.store.characters) {
-        if (character.storyId === storyId) {
-          this.store.characters.delete(charId);
-        }
-      }
-      
-      // Delete related chapters and scenes
-      for (const [chapterId, chapter] of this.store.chapters) {
-        if (chapter.storyId === storyId) {
-          this.store.chapters.delete(chapterId);
-          
-          // Delete scenes in this chapter
-          for (const [sceneId, scene] of this.store.scenes) {
-            if (scene.chapterId === chapterId) {
-              this.store.scenes.delete(sceneId);
-            }
-          }
-        }
+  // Search operations
+  private rebuildSearchIndex(): void {
+    this.searchIndex.clear();
+    const rows = this.getDb().prepare('SELECT * FROM stories').all() as any[];
+
+    for (const row of rows) {
+      try {
+        this.searchIndex.indexStory(this.rowToStory(row));
+      } catch (error) {
+        console.error(`Failed to index story ${row.id}:`, error);
       }
+    }
+  }
 
-      await this.saveToFile();
+  async searchStories(query: string, options: SearchOptions = {}): Promise<SearchResult> {
+    try {
+      this.getDb(); // The index is only populated once the database is open
+      return this.searchIndex.search(query, options);
+    } catch (error) {
+      console.error('Failed to search stories:', error);
+      throw error;
+    }
+  }
+
+  async deleteStory(storyId: string): Promise<void> {
+    try {
+      // Characters, chapters, scenes and revisions are removed by ON DELETE CASCADE
+      this.getDb().prepare('DELETE FROM stories WHERE id = ?').run(storyId);
+      this.searchIndex.removeStory(storyId);
+      this.emit('story-deleted', storyId);
     } catch (error) {
       console.error('Failed to delete story:', error);
       throw error;
@@ -246,155 +341,723 @@ export class DatabaseManager {
   }
 
   // Character operations
-  private async saveCharacter(character: Character): Promise<void> {
+  private saveCharacter(storyId: string, character: Character): void {
     try {
-      const characterData = {
-        ...character,
-        storyId: character.id.split('-')[0], // Extract story ID from character ID
-        archetype: this.encrypt(JSON.stringify(character.archetype)),
-        traits: this.encrypt(JSON.stringify(character.traits)),
-        relationships: this.encrypt(JSON.stringify(character.relationships)),
-        developmentArc: this.encrypt(JSON.stringify(character.developmentArc)),
-        voiceProfile: this.encrypt(JSON.stringify(character.voiceProfile)),
-        updatedAt: new Date()
-      };
-
-      this.store.characters.set(character.id, characterData);
+      const details = pickDetails(character, CHARACTER_DETAIL_FIELDS);
+      const rowHash = this.rowHash([
+        storyId, character.name, character.archetype, character.traits, character.relationships,
+        character.developmentArc, character.voiceProfile, details
+      ]);
+      if (this.isRowUnchanged('characters', character.id, rowHash)) return;
+
+      this.getDb().prepare(`
+        INSERT INTO characters
+          (id, story_id, name, archetype, traits, relationships, development_arc, voice_profile, details, row_hash, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          story_id = excluded.story_id,
+          name = excluded.name,
+          archetype = excluded.archetype,
+          traits = excluded.traits,
+          relationships = excluded.relationships,
+          development_arc = excluded.development_arc,
+          voice_profile = excluded.voice_profile,
+          details = excluded.details,
+          row_hash = excluded.row_hash,
+          updated_at = excluded.updated_at
+      `).run(
+        character.id,
+        storyId,
+        character.name,
+        this.encryptJson(character.archetype),
+        this.encryptJson(character.traits),
+        this.encryptJson(character.relationships),
+        this.encryptJson(character.developmentArc),
+        this.encryptJson(character.voiceProfile),
+        this.encryptJson(details),
+        rowHash,
+        new Date().toISOString()
+      );
     } catch (error) {
       console.error('Failed to save character:', error);
       throw error;
     }
   }
 
-  private async loadCharactersByStoryId(storyId: string): Promise<Character[]> {
+  private loadCharactersByStoryId(storyId: string): Character[] {
+    const rows = this.getDb().prepare('SELECT * FROM characters WHERE story_id = ?').all(storyId) as any[];
+
+    return rows.map(characterData => ({
+      ...this.decryptJson(characterData.details),
+      id: characterData.id,
+      name: characterData.name,
+      archetype: this.decryptJson(characterData.archetype),
+      traits: this.decryptJson(characterData.traits),
+      relationships: this.decryptJson(characterData.relationships),
+      developmentArc: this.decryptJson(characterData.development_arc),
+      voiceProfile: this.decryptJson(characterData.voice_profile)
+    }));
+  }
+
+  // Chapter operations
+  private saveChapter(storyId: string, chapter: Chapter): void {
     try {
-      const characters: Character[] = [];
-      
-      for (const [, characterData] of this.store.characters) {
-        if (characterData.storyId === storyId) {
-          characters.push({
-            id: characterData.id,
-            name: characterData.name,
-            archetype: JSON.parse(this.decrypt(characterData.archetype)),
-            traits: JSON.parse(this.decrypt(characterData.traits)),
-            relationships: JSON.parse(this.decrypt(characterData.relationships)),
-            developmentArc: JSON.parse(this.decrypt(characterData.developmentArc)),
-            voiceProfile: JSON.parse(this.decrypt(characterData.voiceProfile))
-          });
-        }
+      const content = chapter.content || '';
+      const rowHash = this.rowHash([
+        storyId, chapter.title, content, chapter.order, chapter.wordCount || 0, chapter.analysis || null
+      ]);
+
+      // An upsert rather than INSERT OR REPLACE, which would delete the
+      // chapter's scenes through their ON DELETE CASCADE
+      if (!this.isRowUnchanged('chapters', chapter.id, rowHash)) {
+        this.getDb().prepare(`
+          INSERT INTO chapters
+            (id, story_id, title, content, sort_order, word_count, analysis, row_hash, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(id) DO UPDATE SET
+            story_id = excluded.story_id,
+            title = excluded.title,
+            content = excluded.content,
+            sort_order = excluded.sort_order,
+            word_count = excluded.word_count,
+            analysis = excluded.analysis,
+            row_hash = excluded.row_hash,
+            updated_at = excluded.updated_at
+        `).run(
+          chapter.id,
+          storyId,
+          chapter.title,
+          this.encrypt(content),
+          chapter.order,
+          chapter.wordCount || 0,
+          chapter.analysis ? this.encryptJson(chapter.analysis) : null,
+          rowHash,
+          new Date().toISOString()
+        );
+        this.recordRevision(storyId, 'chapter', chapter.id, content, 'auto');
       }
 
-      return characters;
+      // Save scenes
+      for (const scene of chapter.scenes) {
+        this.saveScene(storyId, chapter.id, scene);
+      }
     } catch (error) {
-      console.error('Failed to load characters:', error);
+      console.error('Failed to save chapter:', error);
+      throw error;
+    }
+  }
+
+  private loadChaptersByStoryId(storyId: string): Chapter[] {
+    const rows = this.getDb()
+      .prepare('SELECT * FROM chapters WHERE story_id = ? ORDER BY sort_order')
+      .all(storyId) as any[];
+
+    return rows.map(chapterData => ({
+      id: chapterData.id,
+      storyId: chapterData.story_id,
+      title: chapterData.title,
+      content: this.decrypt(chapterData.content),
+      scenes: this.loadScenesByChapterId(chapterData.id),
+      order: chapterData.sort_order,
+      wordCount: chapterData.word_count,
+      analysis: this.decryptJson(chapterData.analysis)
+    }));
+  }
+
+  // Scene operations
+  private saveScene(storyId: string, chapterId: string, scene: Scene): void {
+    try {
+      const content = scene.content || '';
+      const details = pickDetails(scene, SCENE_DETAIL_FIELDS);
+      const rowHash = this.rowHash([
+        chapterId, storyId, scene.setting, scene.characters, scene.mood, scene.purpose,
+        content, scene.analysis || null, details, scene.order
+      ]);
+      if (this.isRowUnchanged('scenes', scene.id, rowHash)) return;
+
+      this.getDb().prepare(`
+        INSERT INTO scenes
+          (id, chapter_id, story_id, setting, characters, mood, purpose, content, analysis, details, sort_order, row_hash, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          chapter_id = excluded.chapter_id,
+          story_id = excluded.story_id,
+          setting = excluded.setting,
+          characters = excluded.characters,
+          mood = excluded.mood,
+          purpose = excluded.purpose,
+          content = excluded.content,
+          analysis = excluded.analysis,
+          details = excluded.details,
+          sort_order = excluded.sort_order,
+          row_hash = excluded.row_hash,
+          updated_at = excluded.updated_at
+      `).run(
+        scene.id,
+        chapterId,
+        storyId,
+        this.encryptJson(scene.setting),
+        this.encryptJson(scene.characters),
+        this.encryptJson(scene.mood),
+        this.encryptJson(scene.purpose),
+        this.encrypt(content),
+        scene.analysis ? this.encryptJson(scene.analysis) : null,
+        this.encryptJson(details),
+        scene.order,
+        rowHash,
+        new Date().toISOString()
+      );
+      this.recordRevision(storyId, 'scene', scene.id, content, 'auto');
+    } catch (error) {
+      console.error('Failed to save scene:', error);
+      throw error;
+    }
+  }
+
+  private loadScenesByChapterId(chapterId: string): Scene[] {
+    const rows = this.getDb()
+      .prepare('SELECT * FROM scenes WHERE chapter_id = ? ORDER BY sort_order')
+      .all(chapterId) as any[];
+
+    return rows.map(sceneData => ({
+      ...this.decryptJson(sceneData.details),
+      id: sceneData.id,
+      chapterId: sceneData.chapter_id,
+      setting: this.decryptJson(sceneData.setting),
+      characters: this.decryptJson(sceneData.characters),
+      mood: this.decryptJson(sceneData.mood),
+      purpose: this.decryptJson(sceneData.purpose),
+      content: this.decrypt(sceneData.content),
+      order: sceneData.sort_order,
+      analysis: this.decryptJson(sceneData.analysis)
+    }));
+  }
+
+  // Revision operations
+  private hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  // Hash of a row's plaintext values. Encryption uses a random IV, so stored
+  // ciphertext cannot be compared to tell whether a row changed.
+  private rowHash(values: any[]): string {
+    return this.hashContent(JSON.stringify(values));
+  }
+
+  private isRowUnchanged(table: 'characters' | 'chapters' | 'scenes', id: string, rowHash: string): boolean {
+    const row = this.getDb().prepare(`SELECT row_hash FROM ${table} WHERE id = ?`).get(id) as any;
+    return row?.row_hash === rowHash;
+  }
+
+  // Records a revision of chapter or scene content. Automatic revisions are
+  // skipped when the content is unchanged and coalesced within a short window;
+  // snapshots and restores always get a new version.
+  private recordRevision(
+    storyId: string,
+    entityType: RevisionEntityType,
+    entityId: string,
+    content: string,
+    kind: Revision['kind'],
+    label?: string,
+    author?: string
+  ): string {
+    const db = this.getDb();
+    const contentHash = this.hashContent(content);
+    const latest = db.prepare(`
+      SELECT id, version, kind, content_hash, created_at FROM revisions
+      WHERE entity_type = ? AND entity_id = ?
+      ORDER BY version DESC LIMIT 1
+    `).get(entityType, entityId) as any;
+
+    if (kind === 'auto' && latest) {
+      if (latest.content_hash === contentHash) {
+        return latest.id;
+      }
+
+      const age = Date.now() - new Date(latest.created_at).getTime();
+      if (latest.kind === 'auto' && age < DatabaseManager.REVISION_COALESCE_WINDOW_MS) {
+        db.prepare('UPDATE revisions SET content = ?, content_hash = ?, word_count = ? WHERE id = ?').run(
+          this.encrypt(content),
+          contentHash,
+          ChapterUtils.calculateWordCount(content),
+          latest.id
+        );
+        return latest.id;
+      }
+    }
+
+    const id = IdGenerator.generateRevisionId(entityId);
+    db.prepare(`
+      INSERT INTO revisions
+        (id, story_id, entity_type, entity_id, version, kind, label, author, content, content_hash, word_count, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id,
+      storyId,
+      entityType,
+      entityId,
+      (latest?.version || 0) + 1,
+      kind,
+      label || null,
+      author || null,
+      this.encrypt(content),
+      contentHash,
+      ChapterUtils.calculateWordCount(content),
+      new Date().toISOString()
+    );
+    return id;
+  }
+
+  private rowToRevision(row: any, includeContent: boolean): Revision {
+    return {
+      id: row.id,
+      storyId: row.story_id,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      version: row.version,
+      kind: row.kind,
+      label: row.label || undefined,
+      author: row.author || undefined,
+      content: includeContent ? this.decrypt(row.content) : undefined,
+      wordCount: row.word_count,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private getEntityTable(entityType: RevisionEntityType): string {
+    if (entityType === 'chapter') return 'chapters';
+    if (entityType === 'scene') return 'scenes';
+    throw new Error(`Unknown revision entity type: ${entityType}`);
+  }
+
+  // Lists revisions newest first, without their content
+  async getRevisions(entityType: RevisionEntityType, entityId: string): Promise<Revision[]> {
+    try {
+      const rows = this.getDb().prepare(`
+        SELECT * FROM revisions WHERE entity_type = ? AND entity_id = ? ORDER BY version DESC
+      `).all(entityType, entityId) as any[];
+
+      return rows.map(row => this.rowToRevision(row, false));
+    } catch (error) {
+      console.error('Failed to get revisions:', error);
       return [];
     }
   }
 
-  // Chapter operations
-  private async saveChapter(chapter: Chapter): Promise<void> {
+  async getRevision(revisionId: string): Promise<Revision | null> {
     try {
-      const chapterData = {
-        ...chapter,
-        content: this.encrypt(chapter.content),
-        analysis: chapter.analysis ? this.encrypt(JSON.stringify(chapter.analysis)) : null,
-        updatedAt: new Date()
-      };
+      const row = this.getDb().prepare('SELECT * FROM revisions WHERE id = ?').get(revisionId) as any;
+      return row ? this.rowToRevision(row, true) : null;
+    } catch (error) {
+      console.error('Failed to get revision:', error);
+      return null;
+    }
+  }
 
-      this.store.chapters.set(chapter.id, chapterData);
+  // The story a chapter or scene belongs to, or null when there is no such entity
+  async getEntityStoryId(entityType: RevisionEntityType, entityId: string): Promise<string | null> {
+    try {
+      const row = this.getDb()
+        .prepare(`SELECT story_id FROM ${this.getEntityTable(entityType)} WHERE id = ?`)
+        .get(entityId) as any;
+      return row ? row.story_id : null;
+    } catch (error) {
+      console.error('Failed to get entity story:', error);
+      return null;
+    }
+  }
 
-      // Save scenes
-      for (const scene of chapter.scenes) {
-        await this.saveScene(scene);
+  // Saves the current content of a chapter or scene as a named revision
+  async createSnapshot(
+    entityType: RevisionEntityType,
+    entityId: string,
+    label: string,
+    author?: string
+  ): Promise<Revision> {
+    try {
+      const db = this.getDb();
+      const entity = db
+        .prepare(`SELECT story_id, content FROM ${this.getEntityTable(entityType)} WHERE id = ?`)
+        .get(entityId) as any;
+
+      if (!entity) {
+        throw new Error(`${entityType} not found: ${entityId}`);
       }
+
+      const revisionId = this.recordRevision(
+        entity.story_id,
+        entityType,
+        entityId,
+        this.decrypt(entity.content),
+        'snapshot',
+        label,
+        author
+      );
+      return (await this.getRevision(revisionId))!;
     } catch (error) {
-      console.error('Failed to save chapter:', error);
+      console.error('Failed to create snapshot:', error);
       throw error;
     }
   }
 
-  private async loadChaptersByStoryId(storyId: string): Promise<Chapter[]> {
+  async diffRevisions(fromRevisionId: string, toRevisionId: string): Promise<RevisionDiff> {
+    const from = await this.getRevision(fromRevisionId);
+    const to = await this.getRevision(toRevisionId);
+
+    if (!from || !to) {
+      throw new Error(`Revision not found: ${!from ? fromRevisionId : toRevisionId}`);
+    }
+
+    const segments = TextDiff.diffWords(from.content || '', to.content || '');
+    return {
+      fromRevisionId,
+      toRevisionId,
+      segments,
+      wordsAdded: TextDiff.countWords(segments, 'insert'),
+      wordsRemoved: TextDiff.countWords(segments, 'delete')
+    };
+  }
+
+  // Puts a revision's content back on its chapter or scene and records the
+  // restore as a new revision, so the restore itself can be undone
+  async restoreRevision(revisionId: string): Promise<Revision> {
     try {
-      const chapters: Chapter[] = [];
-
-      for (const [chapterId, chapterData] of this.store.chapters) {
-        if (chapterData.storyId === storyId) {
-          const scenes = await this.loadScenesByChapterId(chapterId);
-          
-          chapters.push({
-            id: chapterData.id,
-            storyId: chapterData.storyId,
-            title: chapterData.title,
-            content: this.decrypt(chapterData.content),
-            scenes,
-            order: chapterData.order,
-            wordCount: chapterData.wordCount,
-            analysis: chapterData.analysis ? JSON.parse(this.decrypt(chapterData.analysis)) : undefined
-          });
+      const db = this.getDb();
+      const revision = await this.getRevision(revisionId);
+      if (!revision) {
+        throw new Error(`Revision not found: ${revisionId}`);
+      }
+
+      const content = revision.content || '';
+      const now = new Date().toISOString();
+      let restoredId = '';
+
+      const restore = db.transaction(() => {
+        // The row hash no longer matches the row, so the next save rewrites it
+        const result = db
+          .prepare(`UPDATE ${this.getEntityTable(revision.entityType)} SET content = ?, row_hash = NULL, updated_at = ? WHERE id = ?`)
+          .run(this.encrypt(content), now, revision.entityId);
+
+        if (result.changes === 0) {
+          throw new Error(`${revision.entityType} not found: ${revision.entityId}`);
         }
+
+        db.prepare('UPDATE stories SET updated_at = ? WHERE id = ?').run(now, revision.storyId);
+        restoredId = this.recordRevision(
+          revision.storyId,
+          revision.entityType,
+          revision.entityId,
+          content,
+          'restore',
+          `Restored version ${revision.version}`
+        );
+      });
+
+      restore();
+
+      const story = await this.loadStory(revision.storyId);
+      if (story) {
+        this.searchIndex.indexStory(story);
+        this.emit('story-saved', story);
       }
 
-      // Sort by order
-      return chapters.sort((a, b) => a.order - b.order);
+      return (await this.getRevision(restoredId))!;
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+      throw error;
+    }
+  }
+
+  // Usage ledger operations
+  async recordUsage(record: UsageRecord): Promise<void> {
+    try {
+      this.getDb().prepare(`
+        INSERT INTO usage_records
+          (id, created_at, provider, provider_type, model, request_type, story_id,
+           input_tokens, output_tokens, cost, estimated, priced)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        record.id,
+        new Date(record.timestamp).toISOString(),
+        record.provider,
+        record.providerType,
+        record.model,
+        record.requestType,
+        record.storyId || null,
+        record.inputTokens,
+        record.outputTokens,
+        record.cost,
+        record.estimated ? 1 : 0,
+        record.priced ? 1 : 0
+      );
+    } catch (error) {
+      console.error('Failed to record usage:', error);
+      throw error;
+    }
+  }
+
+  // Lists matching usage records, newest first
+  async getUsageRecords(query: UsageQuery = {}): Promise<UsageRecord[]> {
+    try {
+      const { where, params } = this.buildUsageFilter(query);
+      const rows = this.getDb()
+        .prepare(`SELECT * FROM usage_records ${where} ORDER BY created_at DESC LIMIT ?`)
+        .all(...params, query.limit ?? -1) as any[];
+
+      return rows.map(row => ({
+        id: row.id,
+        timestamp: new Date(row.created_at),
+        provider: row.provider,
+        providerType: row.provider_type,
+        model: row.model,
+        requestType: row.request_type,
+        storyId: row.story_id || undefined,
+        inputTokens: row.input_tokens,
+        outputTokens: row.output_tokens,
+        cost: row.cost,
+        estimated: row.estimated === 1,
+        priced: row.priced === 1
+      }));
     } catch (error) {
-      console.error('Failed to load chapters:', error);
+      console.error('Failed to get usage records:', error);
       return [];
     }
   }
 
-  // Scene operations
-  private async saveScene(scene: Scene): Promise<void> {
+  async getUsageTotals(query: UsageQuery = {}): Promise<UsageTotals> {
+    const { where, params } = this.buildUsageFilter(query);
+    const row = this.getDb()
+      .prepare(`SELECT ${this.usageSums()} FROM usage_records ${where}`)
+      .get(...params) as any;
+    return this.rowToUsageTotals(row);
+  }
+
+  // Sums matching usage per provider, model, story, request type, day or month, most expensive first
+  async getUsageBreakdown(query: UsageQuery, groupBy: UsageGroupBy): Promise<Array<UsageTotals & { key: string }>> {
+    const { where, params } = this.buildUsageFilter(query);
+    const rows = this.getDb().prepare(`
+      SELECT ${USAGE_GROUP_COLUMNS[groupBy]} AS key, ${this.usageSums()}
+      FROM usage_records ${where}
+      GROUP BY key
+      ORDER BY cost DESC, key
+    `).all(...params) as any[];
+
+    return rows.map(row => ({ key: row.key, ...this.rowToUsageTotals(row) }));
+  }
+
+  private usageSums(): string {
+    return `COUNT(*) AS requests, COALESCE(SUM(input_tokens), 0) AS input_tokens,
+      COALESCE(SUM(output_tokens), 0) AS output_tokens, COALESCE(SUM(cost), 0) AS cost`;
+  }
+
+  private rowToUsageTotals(row: any): UsageTotals {
+    return {
+      requests: row.requests,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      cost: row.cost
+    };
+  }
+
+  private buildUsageFilter(query: UsageQuery): { where: string; params: any[] } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (query.from) {
+      conditions.push('created_at >= ?');
+      params.push(new Date(query.from).toISOString());
+    }
+    if (query.to) {
+      conditions.push('created_at < ?');
+      params.push(new Date(query.to).toISOString());
+    }
+    if (query.storyId) {
+      conditions.push('story_id = ?');
+      params.push(query.storyId);
+    }
+    if (query.provider) {
+      conditions.push('provider = ?');
+      params.push(query.provider);
+    }
+    if (query.requestType) {
+      conditions.push('request_type = ?');
+      params.push(query.requestType);
+    }
+
+    return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+  }
+
+  // Assistant chat operations
+  async saveChatThread(thread: ChatThread): Promise<void> {
     try {
-      const sceneData = {
-        ...scene,
-        setting: this.encrypt(JSON.stringify(scene.setting)),
-        characters: this.encrypt(JSON.stringify(scene.characters)),
-        mood: this.encrypt(JSON.stringify(scene.mood)),
-        purpose: this.encrypt(JSON.stringify(scene.purpose)),
-        content: this.encrypt(scene.content),
-        analysis: scene.analysis ? this.encrypt(JSON.stringify(scene.analysis)) : null,
-        updatedAt: new Date()
-      };
-
-      this.store.scenes.set(scene.id, sceneData);
+      // An upsert rather than INSERT OR REPLACE, which would delete the thread's messages
+      this.getDb().prepare(`
+        INSERT INTO chat_threads
+          (id, story_id, chapter_id, scene_id, title, summary, summarized_through, pinned_facts,
+           forked_from_thread_id, forked_from_message_id, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          chapter_id = excluded.chapter_id,
+          scene_id = excluded.scene_id,
+          title = excluded.title,
+          summary = excluded.summary,
+          summarized_through = excluded.summarized_through,
+          pinned_facts = excluded.pinned_facts,
+          updated_at = excluded.updated_at
+      `).run(
+        thread.id,
+        thread.storyId,
+        thread.chapterId || null,
+        thread.sceneId || null,
+        this.encrypt(thread.title),
+        thread.summary ? this.encrypt(thread.summary) : null,
+        thread.summarizedThrough,
+        this.encryptJson(thread.pinnedFacts),
+        thread.forkedFrom?.threadId || null,
+        thread.forkedFrom?.messageId || null,
+        thread.createdAt.toISOString(),
+        thread.updatedAt.toISOString()
+      );
     } catch (error) {
-      console.error('Failed to save scene:', error);
+      console.error('Failed to save chat thread:', error);
       throw error;
     }
   }
 
-  private async loadScenesByChapterId(chapterId: string): Promise<Scene[]> {
+  // Lists a story's threads, most recently active first. A chapter or scene
+  // filter matches threads scoped to exactly that chapter or scene.
+  async getChatThreads(query: ChatThreadQuery = {}): Promise<ChatThread[]> {
     try {
-      const scenes: Scene[] = [];
-
-      for (const [, sceneData] of this.store.scenes) {
-        if (sceneData.chapterId === chapterId) {
-          scenes.push({
-            id: sceneData.id,
-            chapterId: sceneData.chapterId,
-            setting: JSON.parse(this.decrypt(sceneData.setting)),
-            characters: JSON.parse(this.decrypt(sceneData.characters)),
-            mood: JSON.parse(this.decrypt(sceneData.mood)),
-            purpose: JSON.parse(this.decrypt(sceneData.purpose)),
-            content: this.decrypt(sceneData.content),
-            order: sceneData.order,
-            analysis: sceneData.analysis ? JSON.parse(this.decrypt(sceneData.analysis)) : undefined
-          });
-        }
+      const conditions: string[] = [];
+      const params: any[] = [];
+      if (query.storyId) {
+        conditions.push('story_id = ?');
+        params.push(query.storyId);
       }
+      if (query.chapterId) {
+        conditions.push('chapter_id = ?');
+        params.push(query.chapterId);
+      }
+      if (query.sceneId) {
+        conditions.push('scene_id = ?');
+        params.push(query.sceneId);
+      }
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
-      // Sort by order
-      return scenes.sort((a, b) => a.order - b.order);
+      const rows = this.getDb()
+        .prepare(`${this.chatThreadSelect()} ${where} ORDER BY updated_at DESC`)
+        .all(...params) as any[];
+      return rows.map(row => this.rowToChatThread(row));
     } catch (error) {
-      console.error('Failed to load scenes:', error);
+      console.error('Failed to get chat threads:', error);
       return [];
     }
   }
 
+  async getChatThread(threadId: string): Promise<ChatThread | null> {
+    try {
+      const row = this.getDb().prepare(`${this.chatThreadSelect()} WHERE id = ?`).get(threadId) as any;
+      return row ? this.rowToChatThread(row) : null;
+    } catch (error) {
+      console.error('Failed to get chat thread:', error);
+      return null;
+    }
+  }
+
+  // Returns false when there was no such thread. Messages go with it.
+  async deleteChatThread(threadId: string): Promise<boolean> {
+    try {
+      return this.getDb().prepare('DELETE FROM chat_threads WHERE id = ?').run(threadId).changes > 0;
+    } catch (error) {
+      console.error('Failed to delete chat thread:', error);
+      throw error;
+    }
+  }
+
+  // Appends messages and marks their thread as active, in one transaction
+  async addChatMessages(messages: ChatMessage[]): Promise<void> {
+    try {
+      const db = this.getDb();
+      const insert = db.prepare(`
+        INSERT INTO chat_messages (id, thread_id, sequence, role, content, provider, model, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      const touch = db.prepare('UPDATE chat_threads SET updated_at = ? WHERE id = ?');
+
+      db.transaction(() => {
+        for (const message of messages) {
+          insert.run(
+            message.id,
+            message.threadId,
+            message.sequence,
+            message.role,
+            this.encrypt(message.content),
+            message.provider || null,
+            message.model || null,
+            message.createdAt.toISOString()
+          );
+          touch.run(message.createdAt.toISOString(), message.threadId);
+        }
+      })();
+    } catch (error) {
+      console.error('Failed to add chat messages:', error);
+      throw error;
+    }
+  }
+
+  // Messages in thread order, optionally only those after a sequence number
+  async getChatMessages(threadId: string, afterSequence = 0): Promise<ChatMessage[]> {
+    try {
+      const rows = this.getDb()
+        .prepare('SELECT * FROM chat_messages WHERE thread_id = ? AND sequence > ? ORDER BY sequence')
+        .all(threadId, afterSequence) as any[];
+      return rows.map(row => ({
+        id: row.id,
+        threadId: row.thread_id,
+        sequence: row.sequence,
+        role: row.role,
+        content: this.decrypt(row.content),
+        provider: row.provider || undefined,
+        model: row.model || undefined,
+        createdAt: new Date(row.created_at)
+      }));
+    } catch (error) {
+      console.error('Failed to get chat messages:', error);
+      return [];
+    }
+  }
+
+  private chatThreadSelect(): string {
+    return `
+      SELECT chat_threads.*,
+        (SELECT COUNT(*) FROM chat_messages WHERE chat_messages.thread_id = chat_threads.id) AS message_count
+      FROM chat_threads
+    `;
+  }
+
+  private rowToChatThread(row: any): ChatThread {
+    return {
+      id: row.id,
+      storyId: row.story_id,
+      chapterId: row.chapter_id || undefined,
+      sceneId: row.scene_id || undefined,
+      title: this.decrypt(row.title),
+      summary: row.summary ? this.decrypt(row.summary) : undefined,
+      summarizedThrough: row.summarized_through,
+      pinnedFacts: (this.decryptJson(row.pinned_facts) || []).map((fact: any) => ({ ...fact, createdAt: new Date(fact.createdAt) })),
+      forkedFrom: row.forked_from_thread_id
+        ? { threadId: row.forked_from_thread_id, messageId: row.forked_from_message_id }
+        : undefined,
+      messageCount: row.message_count,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
   // Settings operations
   async getSetting(key: string): Promise<any> {
     try {
-      const settingData = this.store.settings.get(key);
+      const settingData = this.getDb().prepare('SELECT value FROM settings WHERE key = ?').get(key) as any;
       if (!settingData) return null;
       
       try {
@@ -411,14 +1074,10 @@ export class DatabaseManager {
   async setSetting(key: string, value: any): Promise<void> {
     try {
       const serializedValue = typeof value === 'string' ? value : JSON.stringify(value);
-      const settingData = {
-        key,
-        value: this.encrypt(serializedValue),
-        updatedAt: new Date()
-      };
-
-      this.store.settings.set(key, settingData);
-      await this.saveToFile();
+
+      this.getDb()
+        .prepare('INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, ?)')
+        .run(key, this.encrypt(serializedValue), new Date().toISOString());
     } catch (error) {
       console.error('Failed to set setting:', error);
       throw error;
@@ -429,17 +1088,18 @@ export class DatabaseManager {
   async getCachedAnalysis(contentHash: string, analysisType: string): Promise<any> {
     try {
       const cacheKey = `${contentHash}-${analysisType}`;
-      const cacheData = this.store.analysisCache.get(cacheKey);
+      const db = this.getDb();
+      const cacheData = db.prepare('SELECT * FROM analysis_cache WHERE cache_key = ?').get(cacheKey) as any;
       
       if (!cacheData) return null;
       
       // Check if expired
-      if (cacheData.expiresAt && new Date() > new Date(cacheData.expiresAt)) {
-        this.store.analysisCache.delete(cacheKey);
+      if (cacheData.expires_at && new Date() > new Date(cacheData.expires_at)) {
+        db.prepare('DELETE FROM analysis_cache WHERE cache_key = ?').run(cacheKey);
         return null;
       }
 
-      return JSON.parse(this.decrypt(cacheData.resultData));
+      return JSON.parse(this.decrypt(cacheData.result_data));
     } catch (error) {
       console.error('Failed to get cached analysis:', error);
       return null;
@@ -449,18 +1109,20 @@ export class DatabaseManager {
   async setCachedAnalysis(contentHash: string, analysisType: string, result: any, expiresIn?: number): Promise<void> {
     try {
       const cacheKey = `${contentHash}-${analysisType}`;
-      const expiresAt = expiresIn ? new Date(Date.now() + expiresIn * 1000) : null;
-      
-      const cacheData = {
+      const expiresAt = expiresIn ? new Date(Date.now() + expiresIn * 1000).toISOString() : null;
+
+      this.getDb().prepare(`
+        INSERT OR REPLACE INTO analysis_cache
+          (cache_key, content_hash, analysis_type, result_data, created_at, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(
+        cacheKey,
         contentHash,
         analysisType,
-        resultData: this.encrypt(JSON.stringify(result)),
-        createdAt: new Date(),
+        this.encrypt(JSON.stringify(result)),
+        new Date().toISOString(),
         expiresAt
-      };
-
-      this.store.analysisCache.set(cacheKey, cacheData);
-      await this.saveToFile();
+      );
     } catch (error) {
       console.error('Failed to set cached analysis:', error);
       throw error;
@@ -469,20 +1131,9 @@ export class DatabaseManager {
 
   async cleanExpiredCache(): Promise<void> {
     try {
-      const now = new Date();
-      const keysToDelete: string[] = [];
-
-      for (const [key, cacheData] of this.store.analysisCache) {
-        if (cacheData.expiresAt && now > new Date(cacheData.expiresAt)) {
-          keysToDelete.push(key);
-        }
-      }
-
-      keysToDelete.forEach(key => this.store.analysisCache.delete(key));
-      
-      if (keysToDelete.length > 0) {
-        await this.saveToFile();
-      }
+      this.getDb()
+        .prepare('DELETE FROM analysis_cache WHERE expires_at IS NOT NULL AND expires_at < ?')
+        .run(new Date().toISOString());
     } catch (error) {
       console.error('Failed to clean expired cache:', error);
     }
@@ -490,10 +1141,13 @@ export class DatabaseManager {
 
   async close(): Promise<void> {
     try {
-      await this.saveToFile();
+      if (this.db) {
+        this.db.close();
+        this.db = null;
+      }
       console.log('Database closed successfully');
     } catch (error) {
       console.error('Error closing database:', error);
     }
   }
-}
\ No newline at end of file
+}
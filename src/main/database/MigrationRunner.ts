@@ -0,0 +1,109 @@
+import Database from 'better-sqlite3';
+
+// Values passed to every migration so data migrations can reach files on disk
+// and read or write the same encrypted column format as DatabaseManager
+export interface MigrationContext {
+  dataDir: string;
+  encrypt: (value: string) => string;
+  decrypt: (value: string) => string;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database.Database, context: MigrationContext): void;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+}
+
+// Applies versioned schema migrations in order, each inside its own transaction.
+// Applied versions are recorded in the schema_migrations table.
+export class MigrationRunner {
+  private db: Database.Database;
+  private migrations: Migration[];
+
+  constructor(db: Database.Database, migrations: Migration[]) {
+    this.db = db;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+    this.validateMigrations();
+  }
+
+  private validateMigrations(): void {
+    const seen = new Set<number>();
+    for (const migration of this.migrations) {
+      if (!Number.isInteger(migration.version) || migration.version < 1) {
+        throw new Error(`Invalid migration version: ${migration.version} (${migration.name})`);
+      }
+      if (seen.has(migration.version)) {
+        throw new Error(`Duplicate migration version: ${migration.version}`);
+      }
+      seen.add(migration.version);
+    }
+  }
+
+  private ensureMigrationsTable(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+  }
+
+  getCurrentVersion(): number {
+    this.ensureMigrationsTable();
+    const row = this.db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as any;
+    return row?.version || 0;
+  }
+
+  getLatestVersion(): number {
+    return this.migrations.length > 0 ? this.migrations[this.migrations.length - 1].version : 0;
+  }
+
+  getPendingMigrations(): Migration[] {
+    const currentVersion = this.getCurrentVersion();
+    return this.migrations.filter(migration => migration.version > currentVersion);
+  }
+
+  migrate(context: MigrationContext): MigrationResult {
+    const fromVersion = this.getCurrentVersion();
+
+    if (fromVersion > this.getLatestVersion()) {
+      throw new Error(
+        `Database schema version ${fromVersion} is newer than this application supports (${this.getLatestVersion()})`
+      );
+    }
+
+    const applied: string[] = [];
+    const recordMigration = this.db.prepare(
+      'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)'
+    );
+
+    for (const migration of this.getPendingMigrations()) {
+      const apply = this.db.transaction(() => {
+        migration.up(this.db, context);
+        recordMigration.run(migration.version, migration.name, new Date().toISOString());
+      });
+
+      try {
+        apply();
+        applied.push(migration.name);
+        console.log(`Applied database migration ${migration.version}: ${migration.name}`);
+      } catch (error) {
+        console.error(`Database migration ${migration.version} (${migration.name}) failed:`, error);
+        throw error;
+      }
+    }
+
+    return {
+      fromVersion,
+      toVersion: applied.length > 0 ? this.getCurrentVersion() : fromVersion,
+      applied
+    };
+  }
+}
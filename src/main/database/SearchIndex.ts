@@ -0,0 +1,465 @@
+import { Story, SearchField, SearchHit, SearchOptions, SearchResult } from '../../shared/types/Story';
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedDocument {
+  key: string;
+  storyId: string;
+  type: SearchHit['type'];
+  location: Pick<SearchHit, 'chapterId' | 'chapterTitle' | 'sceneId' | 'sceneTitle' | 'characterId'>;
+  fields: Partial<Record<SearchField, string>>;
+  lengths: Partial<Record<SearchField, number>>;
+  signature: string;
+}
+
+interface QueryClause {
+  terms: string[]; // More than one term means a phrase
+  prefix: boolean;
+  fields: SearchField[];
+}
+
+interface FieldMatch {
+  score: number;
+  spans: Array<{ position: number; length: number }>; // Matched token ranges
+}
+
+type DocumentMatches = Map<string, Map<SearchField, FieldMatch>>;
+
+const ALL_FIELDS: SearchField[] = ['title', 'content', 'character', 'tag'];
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+  title: 'title',
+  content: 'content',
+  text: 'content',
+  character: 'character',
+  char: 'character',
+  name: 'character',
+  tag: 'tag',
+  tags: 'tag'
+};
+
+// Matches in short, descriptive fields count for more than body text
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 3,
+  character: 2,
+  tag: 2,
+  content: 1
+};
+
+// BM25 tuning constants
+const K1 = 1.2;
+const B = 0.75;
+const PREFIX_PENALTY = 0.8;
+const SNIPPET_CONTEXT_TOKENS = 12;
+const SNIPPET_MAX_TOKENS = 40;
+const DEFAULT_LIMIT = 20;
+
+// In-memory inverted index over story, chapter, scene and character text.
+// It is rebuilt from the database on startup and updated on every save, so
+// decrypted text never has to be written to disk alongside the encrypted rows.
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private storyDocuments = new Map<string, Set<string>>();
+  private storyTitles = new Map<string, string>();
+  private postings = new Map<string, Map<string, Map<SearchField, number[]>>>();
+  private fieldDocumentCounts = new Map<SearchField, number>();
+  private fieldTotalLengths = new Map<SearchField, number>();
+  private sortedTerms: string[] | null = null;
+
+  static tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    const pattern = /[\p{L}\p{N}_]+(?:['’][\p{L}\p{N}_]+)*/gu;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      tokens.push({
+        term: SearchIndex.normalize(match[0]),
+        start: match.index,
+        end: match.index + match[0].length
+      });
+    }
+
+    return tokens;
+  }
+
+  private static normalize(word: string): string {
+    // Possessives index under the bare word so "Mara" finds "Mara's"
+    return word.toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '').replace(/’/g, "'").replace(/'s$/, '');
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.storyDocuments.clear();
+    this.storyTitles.clear();
+    this.postings.clear();
+    this.fieldDocumentCounts.clear();
+    this.fieldTotalLengths.clear();
+    this.sortedTerms = null;
+  }
+
+  // Re-indexes one story. Documents whose text and location are unchanged
+  // since the last save are left alone.
+  indexStory(story: Story): void {
+    const documents = this.buildDocuments(story);
+    const previousKeys = this.storyDocuments.get(story.id) || new Set<string>();
+    const nextKeys = new Set(documents.map(document => document.key));
+
+    for (const key of previousKeys) {
+      if (!nextKeys.has(key)) this.removeDocument(key);
+    }
+
+    for (const document of documents) {
+      const existing = this.documents.get(document.key);
+      if (existing && existing.signature === document.signature) continue;
+      if (existing) this.removeDocument(document.key);
+      this.addDocument(document);
+    }
+
+    this.storyDocuments.set(story.id, nextKeys);
+    this.storyTitles.set(story.id, story.title);
+  }
+
+  removeStory(storyId: string): void {
+    for (const key of this.storyDocuments.get(storyId) || []) {
+      this.removeDocument(key);
+    }
+    this.storyDocuments.delete(storyId);
+    this.storyTitles.delete(storyId);
+  }
+
+  // Supports "quoted phrases", prefix* terms and field:term filters
+  // (title, content, character, tag). All terms must match.
+  search(query: string, options: SearchOptions = {}): SearchResult {
+    const clauses = this.parseQuery(query, options.fields && options.fields.length > 0 ? options.fields : ALL_FIELDS);
+    if (clauses.length === 0) {
+      return { query, total: 0, hits: [] };
+    }
+
+    let combined: DocumentMatches | null = null;
+    for (const clause of clauses) {
+      const matches = this.matchClause(clause, options.storyId);
+      combined = combined ? this.intersect(combined, matches) : matches;
+      if (combined.size === 0) break;
+    }
+
+    const ranked = Array.from(combined!.entries())
+      .map(([key, fields]) => ({
+        key,
+        fields,
+        score: Array.from(fields.values()).reduce((total, match) => total + match.score, 0)
+      }))
+      .sort((a, b) => b.score - a.score || a.key.localeCompare(b.key));
+
+    const limit = options.limit && options.limit > 0 ? options.limit : DEFAULT_LIMIT;
+    const hits = ranked.slice(0, limit).map(result => this.toHit(result.key, result.fields, result.score));
+
+    return { query, total: ranked.length, hits };
+  }
+
+  private buildDocuments(story: Story): IndexedDocument[] {
+    const documents: IndexedDocument[] = [];
+    const characterNames = new Map(story.characters.map(character => [character.id, character.name]));
+
+    const add = (
+      key: string,
+      type: SearchHit['type'],
+      location: IndexedDocument['location'],
+      fields: Partial<Record<SearchField, string | undefined>>
+    ) => {
+      const text: Partial<Record<SearchField, string>> = {};
+      for (const field of ALL_FIELDS) {
+        if (fields[field]) text[field] = fields[field];
+      }
+      documents.push({
+        key,
+        storyId: story.id,
+        type,
+        location,
+        fields: text,
+        lengths: {},
+        signature: JSON.stringify([location, text])
+      });
+    };
+
+    add(`story:${story.id}`, 'story', {}, {
+      title: story.title,
+      content: story.summary,
+      tag: (story.metadata?.tags || []).join('\n')
+    });
+
+    for (const character of story.characters) {
+      add(`character:${character.id}`, 'character', { characterId: character.id }, {
+        character: [character.name, ...(character.aliases || [])].join('\n'),
+        content: character.description
+      });
+    }
+
+    for (const chapter of story.chapters) {
+      add(`chapter:${chapter.id}`, 'chapter', { chapterId: chapter.id, chapterTitle: chapter.title }, {
+        title: chapter.title,
+        content: chapter.content
+      });
+
+      for (const scene of chapter.scenes) {
+        add(`scene:${scene.id}`, 'scene', {
+          chapterId: chapter.id,
+          chapterTitle: chapter.title,
+          sceneId: scene.id,
+          sceneTitle: scene.title
+        }, {
+          title: scene.title,
+          content: scene.content,
+          character: (scene.characters || []).map(id => characterNames.get(id)).filter(Boolean).join('\n')
+        });
+      }
+    }
+
+    return documents;
+  }
+
+  private addDocument(document: IndexedDocument): void {
+    for (const field of ALL_FIELDS) {
+      const text = document.fields[field];
+      if (!text) continue;
+
+      const tokens = SearchIndex.tokenize(text);
+      document.lengths[field] = tokens.length;
+      this.fieldDocumentCounts.set(field, (this.fieldDocumentCounts.get(field) || 0) + 1);
+      this.fieldTotalLengths.set(field, (this.fieldTotalLengths.get(field) || 0) + tokens.length);
+
+      tokens.forEach((token, position) => {
+        let documentsForTerm = this.postings.get(token.term);
+        if (!documentsForTerm) {
+          documentsForTerm = new Map();
+          this.postings.set(token.term, documentsForTerm);
+          this.sortedTerms = null;
+        }
+
+        let fieldsForDocument = documentsForTerm.get(document.key);
+        if (!fieldsForDocument) {
+          fieldsForDocument = new Map();
+          documentsForTerm.set(document.key, fieldsForDocument);
+        }
+
+        const positions = fieldsForDocument.get(field) || [];
+        positions.push(position);
+        fieldsForDocument.set(field, positions);
+      });
+    }
+
+    this.documents.set(document.key, document);
+  }
+
+  private removeDocument(key: string): void {
+    const document = this.documents.get(key);
+    if (!document) return;
+
+    for (const field of ALL_FIELDS) {
+      const text = document.fields[field];
+      if (!text) continue;
+
+      this.fieldDocumentCounts.set(field, (this.fieldDocumentCounts.get(field) || 1) - 1);
+      this.fieldTotalLengths.set(field, (this.fieldTotalLengths.get(field) || 0) - (document.lengths[field] || 0));
+
+      for (const token of SearchIndex.tokenize(text)) {
+        const documentsForTerm = this.postings.get(token.term);
+        if (!documentsForTerm) continue;
+
+        documentsForTerm.delete(key);
+        if (documentsForTerm.size === 0) {
+          this.postings.delete(token.term);
+          this.sortedTerms = null;
+        }
+      }
+    }
+
+    this.documents.delete(key);
+  }
+
+  private parseQuery(query: string, defaultFields: SearchField[]): QueryClause[] {
+    const clauses: QueryClause[] = [];
+    const pattern = /(?:([\p{L}]+):)?(?:"([^"]*)"?|(\S+))/gu;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(query)) !== null) {
+      const [whole, fieldName, phrase, word] = match;
+      const field = fieldName ? FIELD_ALIASES[fieldName.toLowerCase()] : undefined;
+      // Unknown prefixes such as "re:" are treated as ordinary words
+      const raw = fieldName && !field ? whole : (phrase !== undefined ? phrase : word);
+      const terms = SearchIndex.tokenize(raw).map(token => token.term);
+      if (terms.length === 0) continue;
+
+      clauses.push({
+        terms,
+        prefix: phrase === undefined && terms.length === 1 && raw.endsWith('*'),
+        fields: field ? [field] : defaultFields
+      });
+    }
+
+    return clauses;
+  }
+
+  private matchClause(clause: QueryClause, storyId?: string): DocumentMatches {
+    const results: DocumentMatches = new Map();
+
+    const record = (key: string, field: SearchField, score: number, positions: number[], length: number) => {
+      if (!clause.fields.includes(field) || positions.length === 0) return;
+      const document = this.documents.get(key);
+      if (!document || (storyId && document.storyId !== storyId)) return;
+
+      const fields = results.get(key) || new Map<SearchField, FieldMatch>();
+      const existing = fields.get(field) || { score: 0, spans: [] };
+      existing.score += score;
+      existing.spans.push(...positions.map(position => ({ position, length })));
+      fields.set(field, existing);
+      results.set(key, fields);
+    };
+
+    if (clause.terms.length === 1) {
+      const terms = clause.prefix ? this.expandPrefix(clause.terms[0]) : [clause.terms[0]];
+
+      for (const term of terms) {
+        const penalty = term === clause.terms[0] ? 1 : PREFIX_PENALTY;
+        for (const [key, fields] of this.postings.get(term) || []) {
+          for (const [field, positions] of fields) {
+            const idf = this.inverseDocumentFrequency(term, field);
+            record(key, field, penalty * this.scoreField(key, field, positions.length, idf), positions, 1);
+          }
+        }
+      }
+
+      return results;
+    }
+
+    // Phrase: every term must appear in order at consecutive positions
+    const [first, ...rest] = clause.terms;
+    for (const [key, fields] of this.postings.get(first) || []) {
+      for (const [field, positions] of fields) {
+        const starts = positions.filter(start => rest.every((term, offset) =>
+          this.postings.get(term)?.get(key)?.get(field)?.includes(start + offset + 1)
+        ));
+        if (starts.length === 0) continue;
+
+        const idf = clause.terms.reduce((total, term) => total + this.inverseDocumentFrequency(term, field), 0);
+        record(key, field, this.scoreField(key, field, starts.length, idf), starts, clause.terms.length);
+      }
+    }
+
+    return results;
+  }
+
+  private intersect(left: DocumentMatches, right: DocumentMatches): DocumentMatches {
+    const results: DocumentMatches = new Map();
+
+    for (const [key, leftFields] of left) {
+      const rightFields = right.get(key);
+      if (!rightFields) continue;
+
+      const fields = new Map<SearchField, FieldMatch>();
+      for (const [field, match] of [...leftFields, ...rightFields]) {
+        const existing = fields.get(field) || { score: 0, spans: [] };
+        existing.score += match.score;
+        existing.spans.push(...match.spans);
+        fields.set(field, existing);
+      }
+      results.set(key, fields);
+    }
+
+    return results;
+  }
+
+  private expandPrefix(prefix: string): string[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = Array.from(this.postings.keys()).sort();
+    }
+
+    // Binary search for the first term at or after the prefix
+    let low = 0;
+    let high = this.sortedTerms.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.sortedTerms[middle] < prefix) low = middle + 1;
+      else high = middle;
+    }
+
+    const terms: string[] = [];
+    for (let i = low; i < this.sortedTerms.length && this.sortedTerms[i].startsWith(prefix); i++) {
+      terms.push(this.sortedTerms[i]);
+    }
+    return terms;
+  }
+
+  private inverseDocumentFrequency(term: string, field: SearchField): number {
+    const total = this.fieldDocumentCounts.get(field) || 0;
+    let documentFrequency = 0;
+    for (const fields of (this.postings.get(term) || new Map()).values()) {
+      if (fields.has(field)) documentFrequency++;
+    }
+    return Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  private scoreField(key: string, field: SearchField, termFrequency: number, idf: number): number {
+    const length = this.documents.get(key)?.lengths[field] || 0;
+    const averageLength = (this.fieldTotalLengths.get(field) || 0) / (this.fieldDocumentCounts.get(field) || 1) || 1;
+    const normalization = K1 * (1 - B + B * (length / averageLength));
+    return FIELD_BOOSTS[field] * idf * (termFrequency * (K1 + 1)) / (termFrequency + normalization);
+  }
+
+  private toHit(key: string, fields: Map<SearchField, FieldMatch>, score: number): SearchHit {
+    const document = this.documents.get(key)!;
+    const [field, match] = Array.from(fields.entries()).sort((a, b) => b[1].score - a[1].score)[0];
+    const { snippet, highlights } = this.buildSnippet(document.fields[field] || '', match);
+
+    return {
+      storyId: document.storyId,
+      storyTitle: this.storyTitles.get(document.storyId) || '',
+      type: document.type,
+      ...document.location,
+      field,
+      score: Math.round(score * 1000) / 1000,
+      snippet,
+      highlights
+    };
+  }
+
+  private buildSnippet(text: string, match: FieldMatch): Pick<SearchHit, 'snippet' | 'highlights'> {
+    const tokens = SearchIndex.tokenize(text);
+    const spans = [...match.spans].sort((a, b) => a.position - b.position || b.length - a.length);
+
+    let firstToken = 0;
+    let lastToken = tokens.length;
+    if (tokens.length > SNIPPET_MAX_TOKENS) {
+      firstToken = Math.max(0, spans[0].position - SNIPPET_CONTEXT_TOKENS);
+      lastToken = Math.min(tokens.length, firstToken + SNIPPET_MAX_TOKENS);
+    }
+
+    const start = firstToken > 0 ? tokens[firstToken].start : 0;
+    const end = lastToken < tokens.length ? tokens[lastToken - 1].end : text.length;
+    const prefix = start > 0 ? '…' : '';
+    const snippet = prefix + text.slice(start, end).replace(/\s+/g, ' ') + (end < text.length ? '…' : '');
+
+    // Offsets are computed on the collapsed text so they line up with the snippet
+    const offset = (index: number) => prefix.length + text.slice(start, index).replace(/\s+/g, ' ').length;
+    const highlights: SearchHit['highlights'] = [];
+    let highlightedTo = firstToken;
+    for (const { position, length } of spans) {
+      // Skip overlapping matches and those cut off by the snippet window
+      if (position < highlightedTo || position + length > lastToken) continue;
+      highlights.push({
+        start: offset(tokens[position].start),
+        end: offset(tokens[position + length - 1].end)
+      });
+      highlightedTo = position + length;
+    }
+
+    return { snippet, highlights };
+  }
+}
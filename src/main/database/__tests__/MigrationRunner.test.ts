@@ -0,0 +1,88 @@
+jest.unmock('fs');
+jest.unmock('better-sqlite3');
+
+import Database from 'better-sqlite3';
+import { MigrationRunner, Migration, MigrationContext } from '../MigrationRunner';
+
+beforeAll(() => {
+  (global as any).suppressConsole();
+});
+
+describe('MigrationRunner', () => {
+  let db: Database.Database;
+  const context: MigrationContext = {
+    dataDir: '/mock/path/data',
+    encrypt: (value: string) => value,
+    decrypt: (value: string) => value
+  };
+
+  const createTable = (version: number, table: string): Migration => ({
+    version,
+    name: `create_${table}`,
+    up: (database) => database.exec(`CREATE TABLE ${table} (id TEXT PRIMARY KEY)`)
+  });
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should apply pending migrations in version order', () => {
+    const order: number[] = [];
+    const runner = new MigrationRunner(db, [
+      { ...createTable(2, 'second'), up: (database) => { order.push(2); database.exec('CREATE TABLE second (id TEXT)'); } },
+      { ...createTable(1, 'first'), up: (database) => { order.push(1); database.exec('CREATE TABLE first (id TEXT)'); } }
+    ]);
+
+    const result = runner.migrate(context);
+
+    expect(order).toEqual([1, 2]);
+    expect(result).toEqual({ fromVersion: 0, toVersion: 2, applied: ['create_first', 'create_second'] });
+    expect(runner.getCurrentVersion()).toBe(2);
+  });
+
+  it('should only apply migrations newer than the current version', () => {
+    new MigrationRunner(db, [createTable(1, 'first')]).migrate(context);
+
+    const runner = new MigrationRunner(db, [createTable(1, 'first'), createTable(2, 'second')]);
+    expect(runner.getPendingMigrations().map(m => m.version)).toEqual([2]);
+
+    const result = runner.migrate(context);
+    expect(result.applied).toEqual(['create_second']);
+  });
+
+  it('should roll back a failed migration and leave the version unchanged', () => {
+    const runner = new MigrationRunner(db, [
+      createTable(1, 'first'),
+      {
+        version: 2,
+        name: 'broken',
+        up: (database) => {
+          database.exec('CREATE TABLE partial (id TEXT)');
+          throw new Error('boom');
+        }
+      }
+    ]);
+
+    expect(() => runner.migrate(context)).toThrow('boom');
+    expect(runner.getCurrentVersion()).toBe(1);
+
+    const partial = db.prepare("SELECT name FROM sqlite_master WHERE name = 'partial'").get();
+    expect(partial).toBeUndefined();
+  });
+
+  it('should refuse to run against a newer schema', () => {
+    new MigrationRunner(db, [createTable(1, 'first'), createTable(2, 'second')]).migrate(context);
+
+    const runner = new MigrationRunner(db, [createTable(1, 'first')]);
+    expect(() => runner.migrate(context)).toThrow('newer than this application supports');
+  });
+
+  it('should reject duplicate migration versions', () => {
+    expect(() => new MigrationRunner(db, [createTable(1, 'a'), createTable(1, 'b')]))
+      .toThrow('Duplicate migration version: 1');
+  });
+});
@@ -0,0 +1,214 @@
+import { SearchIndex } from '../SearchIndex';
+import { Story, Chapter, Scene, Character } from '../../../shared/types/Story';
+
+describe('SearchIndex', () => {
+  let index: SearchIndex;
+
+  const createScene = (id: string, chapterId: string, content: string, characters: string[] = []): Scene => ({
+    id,
+    chapterId,
+    setting: {
+      location: 'Harbor',
+      timeOfDay: 'dusk',
+      atmosphere: 'tense',
+      sensoryDetails: { visual: [], auditory: [], tactile: [], olfactory: [], gustatory: [] }
+    },
+    characters,
+    mood: 'ominous',
+    purpose: { type: 'plot', description: '', objectives: [] },
+    content,
+    order: 1,
+    title: `Scene ${id}`
+  } as any);
+
+  const createChapter = (id: string, storyId: string, title: string, scenes: Scene[]): Chapter => ({
+    id,
+    storyId,
+    title,
+    content: '',
+    scenes,
+    order: 1,
+    wordCount: 0
+  });
+
+  const createCharacter = (id: string, name: string, description = ''): Character => ({
+    id,
+    name,
+    archetype: { primary: 'hero', description: '', commonTraits: [] },
+    traits: { personality: [], motivations: [], fears: [], strengths: [], weaknesses: [], quirks: [] },
+    relationships: [],
+    developmentArc: { startState: '', endState: '', keyMoments: [], completed: false },
+    voiceProfile: { vocabulary: [], speechPatterns: [], commonPhrases: [], formalityLevel: 5, emotionalRange: [] },
+    description
+  } as any);
+
+  const createStory = (id: string, title: string, chapters: Chapter[], characters: Character[] = [], tags: string[] = []): Story => ({
+    id,
+    title,
+    genre: [],
+    structure: { type: 'three-act', beats: [] },
+    characters,
+    chapters,
+    metadata: {
+      targetWordCount: 80000,
+      currentWordCount: 0,
+      targetAudience: 'adult',
+      contentRating: 'PG',
+      tags
+    },
+    analysisCache: {},
+    createdAt: new Date(),
+    updatedAt: new Date()
+  } as any);
+
+  const harbor = () => createStory('story-1', 'The Drowned Harbor', [
+    createChapter('chapter-1', 'story-1', 'Arrival', [
+      createScene('scene-1', 'chapter-1', 'The ship came in at dawn. Mara watched the grey ship from the pier.', ['char-1']),
+      createScene('scene-2', 'chapter-1', 'Storm clouds gathered over the harbor while the bells rang.')
+    ])
+  ], [createCharacter('char-1', 'Mara', 'A harbor pilot')], ['maritime', 'slow burn']);
+
+  const orchard = () => createStory('story-2', 'Orchard Winter', [
+    createChapter('chapter-2', 'story-2', 'Frost', [
+      createScene('scene-3', 'chapter-2', 'Snow fell on the orchard. Nobody mentioned the ship.')
+    ])
+  ]);
+
+  beforeEach(() => {
+    index = new SearchIndex();
+    index.indexStory(harbor());
+    index.indexStory(orchard());
+  });
+
+  it('should find documents containing every query term', () => {
+    const result = index.search('ship dawn');
+
+    expect(result.total).toBe(1);
+    expect(result.hits[0]).toMatchObject({
+      storyId: 'story-1',
+      storyTitle: 'The Drowned Harbor',
+      type: 'scene',
+      chapterId: 'chapter-1',
+      chapterTitle: 'Arrival',
+      sceneId: 'scene-1',
+      field: 'content'
+    });
+  });
+
+  it('should rank documents with more matches higher', () => {
+    const result = index.search('ship');
+
+    expect(result.hits.map(hit => hit.sceneId)).toEqual(['scene-1', 'scene-3']);
+    expect(result.hits[0].score).toBeGreaterThan(result.hits[1].score);
+  });
+
+  it('should match quoted phrases only in order', () => {
+    expect(index.search('"grey ship"').hits.map(hit => hit.sceneId)).toEqual(['scene-1']);
+    expect(index.search('"ship grey"').total).toBe(0);
+  });
+
+  it('should expand prefix terms', () => {
+    const result = index.search('harb*');
+
+    expect(result.hits.map(hit => hit.type)).toEqual(expect.arrayContaining(['story', 'scene', 'character']));
+  });
+
+  it('should ignore case, accents and possessives', () => {
+    index.indexStory(createStory('story-3', 'Café Nights', [
+      createChapter('chapter-3', 'story-3', 'Opening', [createScene('scene-4', 'chapter-3', "Mara's coat was wet.")])
+    ]));
+
+    expect(index.search('CAFE').hits[0].storyId).toBe('story-3');
+    expect(index.search('mara coat').hits[0].sceneId).toBe('scene-4');
+  });
+
+  describe('field filters', () => {
+    it('should restrict a term to the given field', () => {
+      expect(index.search('title:arrival').hits.map(hit => hit.type)).toEqual(['chapter']);
+      expect(index.search('tag:maritime').hits.map(hit => hit.type)).toEqual(['story']);
+      expect(index.search('tag:"slow burn"').total).toBe(1);
+    });
+
+    it('should match scenes by the names of characters in them', () => {
+      const result = index.search('character:mara ship');
+
+      expect(result.hits.map(hit => hit.sceneId)).toEqual(['scene-1']);
+    });
+
+    it('should apply default fields to unqualified terms', () => {
+      expect(index.search('harbor', { fields: ['title'] }).hits.map(hit => hit.type)).toEqual(['story']);
+    });
+
+    it('should treat unknown field names as plain text', () => {
+      expect(index.search('pier:').total).toBe(1);
+    });
+  });
+
+  it('should filter by story and respect the limit', () => {
+    expect(index.search('ship', { storyId: 'story-2' }).hits.map(hit => hit.storyId)).toEqual(['story-2']);
+
+    const limited = index.search('ship', { limit: 1 });
+    expect(limited.total).toBe(2);
+    expect(limited.hits).toHaveLength(1);
+  });
+
+  describe('snippets', () => {
+    it('should highlight matched terms within the snippet', () => {
+      const hit = index.search('"grey ship"').hits[0];
+      const highlighted = hit.highlights.map(range => hit.snippet.slice(range.start, range.end));
+
+      expect(highlighted).toEqual(['grey ship']);
+    });
+
+    it('should trim long text around the first match', () => {
+      const filler = Array.from({ length: 100 }, (_, i) => `word${i}`).join(' ');
+      index.indexStory(createStory('story-4', 'Long', [
+        createChapter('chapter-4', 'story-4', 'Long', [
+          createScene('scene-5', 'chapter-4', `${filler} lighthouse ${filler}`)
+        ])
+      ]));
+
+      const hit = index.search('lighthouse').hits[0];
+
+      expect(hit.snippet.startsWith('…')).toBe(true);
+      expect(hit.snippet.endsWith('…')).toBe(true);
+      expect(hit.snippet.slice(hit.highlights[0].start, hit.highlights[0].end)).toBe('lighthouse');
+    });
+  });
+
+  describe('incremental updates', () => {
+    it('should reflect edited content after re-indexing a story', () => {
+      const story = harbor();
+      story.chapters[0].scenes[1].content = 'Fog rolled over the harbor.';
+      index.indexStory(story);
+
+      expect(index.search('storm').total).toBe(0);
+      expect(index.search('fog').hits[0].sceneId).toBe('scene-2');
+    });
+
+    it('should drop removed scenes and stories', () => {
+      const story = harbor();
+      story.chapters[0].scenes.pop();
+      index.indexStory(story);
+      expect(index.search('bells').total).toBe(0);
+
+      index.removeStory('story-2');
+      expect(index.search('orchard').total).toBe(0);
+      expect(index.search('ship').hits.map(hit => hit.storyId)).toEqual(['story-1']);
+    });
+
+    it('should not change results when an unchanged story is re-indexed', () => {
+      const before = index.search('ship');
+      const size = index.size;
+
+      index.indexStory(harbor());
+
+      expect(index.size).toBe(size);
+      expect(index.search('ship')).toEqual(before);
+    });
+  });
+
+  it('should return no hits for an empty query', () => {
+    expect(index.search('  ')).toEqual({ query: '  ', total: 0, hits: [] });
+  });
+});
@@ -0,0 +1,430 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import Database from 'better-sqlite3';
+import { IdGenerator, ChapterUtils } from '../../shared/utils/StoryUtils';
+import { Migration, MigrationContext } from './MigrationRunner';
+
+// Optional entity properties that have no column of their own. They are kept
+// together as one encrypted JSON blob in each table's `details` column.
+export const STORY_DETAIL_FIELDS = [
+  'author',
+  'summary',
+  'status',
+  'favorite',
+  'lastModified',
+  'wordCount',
+  'targetWordCount',
+  'worldBuilding',
+  'setting'
+] as const;
+
+export const CHARACTER_DETAIL_FIELDS = ['aliases', 'description'] as const;
+
+export const SCENE_DETAIL_FIELDS = ['title', 'summary', 'isChapterBreak', 'sensoryDetails'] as const;
+
+export const LEGACY_DATA_FILE = 'soyume-data.json';
+
+export function pickDetails(source: any, fields: readonly string[]): Record<string, any> {
+  const details: Record<string, any> = {};
+  for (const field of fields) {
+    if (source[field] !== undefined) {
+      details[field] = source[field];
+    }
+  }
+  return details;
+}
+
+function toTimestamp(value: any): string {
+  const date = value ? new Date(value) : new Date();
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+const initialSchema: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up(db: Database.Database): void {
+    db.exec(`
+      CREATE TABLE stories (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        genre TEXT NOT NULL,
+        structure TEXT NOT NULL,
+        metadata TEXT NOT NULL,
+        analysis_cache TEXT NOT NULL,
+        details TEXT,
+        word_count INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_stories_updated_at ON stories(updated_at);
+
+      CREATE TABLE characters (
+        id TEXT PRIMARY KEY,
+        story_id TEXT NOT NULL REFERENCES stories(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        archetype TEXT NOT NULL,
+        traits TEXT NOT NULL,
+        relationships TEXT NOT NULL,
+        development_arc TEXT NOT NULL,
+        voice_profile TEXT NOT NULL,
+        details TEXT,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_characters_story_id ON characters(story_id);
+
+      CREATE TABLE chapters (
+        id TEXT PRIMARY KEY,
+        story_id TEXT NOT NULL REFERENCES stories(id) ON DELETE CASCADE,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        sort_order INTEGER NOT NULL,
+        word_count INTEGER NOT NULL DEFAULT 0,
+        analysis TEXT,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_chapters_story_id ON chapters(story_id, sort_order);
+
+      CREATE TABLE scenes (
+        id TEXT PRIMARY KEY,
+        chapter_id TEXT NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+        story_id TEXT NOT NULL REFERENCES stories(id) ON DELETE CASCADE,
+        setting TEXT NOT NULL,
+        characters TEXT NOT NULL,
+        mood TEXT NOT NULL,
+        purpose TEXT NOT NULL,
+        content TEXT NOT NULL,
+        analysis TEXT,
+        details TEXT,
+        sort_order INTEGER NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_scenes_chapter_id ON scenes(chapter_id, sort_order);
+      CREATE INDEX idx_scenes_story_id ON scenes(story_id);
+
+      CREATE TABLE settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE analysis_cache (
+        cache_key TEXT PRIMARY KEY,
+        content_hash TEXT NOT NULL,
+        analysis_type TEXT NOT NULL,
+        result_data TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT
+      );
+      CREATE INDEX idx_analysis_cache_expires_at ON analysis_cache(expires_at);
+    `);
+  }
+};
+
+// Imports the encrypted whole-file JSON store used before the SQL database.
+// Legacy rows already use the per-field encryption format, so encrypted
+// columns are copied across as-is. The legacy file is left in place as a backup.
+const importLegacyJsonStore: Migration = {
+  version: 2,
+  name: 'import_legacy_json_store',
+  up(db: Database.Database, context: MigrationContext): void {
+    const legacyPath = path.join(context.dataDir, LEGACY_DATA_FILE);
+    let data: any;
+
+    try {
+      if (!fs.existsSync(legacyPath)) return;
+      const encryptedData = fs.readFileSync(legacyPath, 'utf8');
+      data = JSON.parse(context.decrypt(encryptedData.toString()));
+    } catch (error) {
+      console.warn('Could not read legacy data file, skipping import:', error);
+      return;
+    }
+
+    const stories = new Map<string, any>(data.stories || []);
+    const characters = new Map<string, any>(data.characters || []);
+    const chapters = new Map<string, any>(data.chapters || []);
+    const scenes = new Map<string, any>(data.scenes || []);
+    const settings = new Map<string, any>(data.settings || []);
+    const analysisCache = new Map<string, any>(data.analysisCache || []);
+
+    const insertStory = db.prepare(`
+      INSERT OR REPLACE INTO stories
+        (id, title, genre, structure, metadata, analysis_cache, details, word_count, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertCharacter = db.prepare(`
+      INSERT OR REPLACE INTO characters
+        (id, story_id, name, archetype, traits, relationships, development_arc, voice_profile, details, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertChapter = db.prepare(`
+      INSERT OR REPLACE INTO chapters
+        (id, story_id, title, content, sort_order, word_count, analysis, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertScene = db.prepare(`
+      INSERT OR REPLACE INTO scenes
+        (id, chapter_id, story_id, setting, characters, mood, purpose, content, analysis, details, sort_order, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertSetting = db.prepare('INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, ?)');
+    const insertCache = db.prepare(`
+      INSERT OR REPLACE INTO analysis_cache
+        (cache_key, content_hash, analysis_type, result_data, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    // Legacy character rows derived storyId from the character ID, which was
+    // unreliable. Stories embedded their own character list, so prefer that.
+    const characterOwners = new Map<string, string>();
+
+    for (const [storyId, story] of stories) {
+      let wordCount = 0;
+      try {
+        wordCount = JSON.parse(context.decrypt(story.metadata)).currentWordCount || 0;
+      } catch {
+        // Word count is only an index column; the metadata itself is copied as-is
+      }
+
+      insertStory.run(
+        storyId,
+        story.title || 'Untitled',
+        story.genre,
+        story.structure,
+        story.metadata,
+        story.analysisCache,
+        context.encrypt(JSON.stringify(pickDetails(story, STORY_DETAIL_FIELDS))),
+        wordCount,
+        toTimestamp(story.createdAt),
+        toTimestamp(story.updatedAt)
+      );
+
+      for (const character of story.characters || []) {
+        characterOwners.set(character.id, storyId);
+      }
+    }
+
+    for (const [characterId, character] of characters) {
+      const storyId = characterOwners.get(characterId) ||
+        (stories.has(character.storyId) ? character.storyId : null);
+      if (!storyId) continue;
+
+      insertCharacter.run(
+        characterId,
+        storyId,
+        character.name || '',
+        character.archetype,
+        character.traits,
+        character.relationships,
+        character.developmentArc,
+        character.voiceProfile,
+        context.encrypt(JSON.stringify(pickDetails(character, CHARACTER_DETAIL_FIELDS))),
+        toTimestamp(character.updatedAt)
+      );
+    }
+
+    for (const [chapterId, chapter] of chapters) {
+      if (!stories.has(chapter.storyId)) continue;
+
+      insertChapter.run(
+        chapterId,
+        chapter.storyId,
+        chapter.title || '',
+        chapter.content,
+        chapter.order || 0,
+        chapter.wordCount || 0,
+        chapter.analysis || null,
+        toTimestamp(chapter.updatedAt)
+      );
+    }
+
+    for (const [sceneId, scene] of scenes) {
+      const chapter = chapters.get(scene.chapterId);
+      if (!chapter || !stories.has(chapter.storyId)) continue;
+
+      insertScene.run(
+        sceneId,
+        scene.chapterId,
+        chapter.storyId,
+        scene.setting,
+        scene.characters,
+        scene.mood,
+        scene.purpose,
+        scene.content,
+        scene.analysis || null,
+        context.encrypt(JSON.stringify(pickDetails(scene, SCENE_DETAIL_FIELDS))),
+        scene.order || 0,
+        toTimestamp(scene.updatedAt)
+      );
+    }
+
+    for (const [key, setting] of settings) {
+      insertSetting.run(key, setting.value, toTimestamp(setting.updatedAt));
+    }
+
+    for (const [cacheKey, entry] of analysisCache) {
+      insertCache.run(
+        cacheKey,
+        entry.contentHash,
+        entry.analysisType,
+        entry.resultData,
+        toTimestamp(entry.createdAt),
+        entry.expiresAt ? toTimestamp(entry.expiresAt) : null
+      );
+    }
+
+    console.log(
+      `Imported legacy data: ${stories.size} stories, ${chapters.size} chapters, ${scenes.size} scenes`
+    );
+  }
+};
+
+// Revision history for chapter and scene content. Existing content is seeded
+// as version 1 so the first edit after upgrading can be diffed and undone.
+const createRevisions: Migration = {
+  version: 3,
+  name: 'create_revisions',
+  up(db: Database.Database, context: MigrationContext): void {
+    db.exec(`
+      CREATE TABLE revisions (
+        id TEXT PRIMARY KEY,
+        story_id TEXT NOT NULL REFERENCES stories(id) ON DELETE CASCADE,
+        entity_type TEXT NOT NULL CHECK (entity_type IN ('chapter', 'scene')),
+        entity_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        kind TEXT NOT NULL CHECK (kind IN ('auto', 'snapshot', 'restore')),
+        label TEXT,
+        author TEXT,
+        content TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        word_count INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        UNIQUE (entity_type, entity_id, version)
+      );
+      CREATE INDEX idx_revisions_story_id ON revisions(story_id);
+    `);
+
+    const insertRevision = db.prepare(`
+      INSERT INTO revisions
+        (id, story_id, entity_type, entity_id, version, kind, content, content_hash, word_count, created_at)
+      VALUES (?, ?, ?, ?, 1, 'auto', ?, ?, ?, ?)
+    `);
+
+    const seed = (entityType: string, rows: any[]) => {
+      for (const row of rows) {
+        let content: string;
+        try {
+          content = context.decrypt(row.content);
+        } catch {
+          continue;
+        }
+
+        insertRevision.run(
+          IdGenerator.generateRevisionId(row.id),
+          row.story_id,
+          entityType,
+          row.id,
+          row.content,
+          crypto.createHash('sha256').update(content).digest('hex'),
+          ChapterUtils.calculateWordCount(content),
+          row.updated_at
+        );
+      }
+    };
+
+    seed('chapter', db.prepare('SELECT id, story_id, content, updated_at FROM chapters').all());
+    seed('scene', db.prepare('SELECT id, story_id, content, updated_at FROM scenes').all());
+  }
+};
+
+// Ledger of AI requests for cost reporting and budgets. story_id has no
+// foreign key so spending stays on record after a story is deleted.
+const createUsageLedger: Migration = {
+  version: 4,
+  name: 'create_usage_ledger',
+  up(db: Database.Database): void {
+    db.exec(`
+      CREATE TABLE usage_records (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        provider_type TEXT NOT NULL,
+        model TEXT NOT NULL,
+        request_type TEXT NOT NULL,
+        story_id TEXT,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cost REAL NOT NULL DEFAULT 0,
+        estimated INTEGER NOT NULL DEFAULT 0,
+        priced INTEGER NOT NULL DEFAULT 1
+      );
+      CREATE INDEX idx_usage_records_created_at ON usage_records(created_at);
+      CREATE INDEX idx_usage_records_story_id ON usage_records(story_id);
+    `);
+  }
+};
+
+// Assistant chat threads. Titles, summaries, pinned facts and message content
+// are encrypted like story text. Chapter and scene IDs have no foreign key so
+// a thread outlives the scene it was started from, falling back to the story.
+const createChatThreads: Migration = {
+  version: 5,
+  name: 'create_chat_threads',
+  up(db: Database.Database): void {
+    db.exec(`
+      CREATE TABLE chat_threads (
+        id TEXT PRIMARY KEY,
+        story_id TEXT NOT NULL REFERENCES stories(id) ON DELETE CASCADE,
+        chapter_id TEXT,
+        scene_id TEXT,
+        title TEXT NOT NULL,
+        summary TEXT,
+        summarized_through INTEGER NOT NULL DEFAULT 0,
+        pinned_facts TEXT NOT NULL,
+        forked_from_thread_id TEXT,
+        forked_from_message_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_chat_threads_story_id ON chat_threads(story_id, updated_at);
+
+      CREATE TABLE chat_messages (
+        id TEXT PRIMARY KEY,
+        thread_id TEXT NOT NULL REFERENCES chat_threads(id) ON DELETE CASCADE,
+        sequence INTEGER NOT NULL,
+        role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+        content TEXT NOT NULL,
+        provider TEXT,
+        model TEXT,
+        created_at TEXT NOT NULL,
+        UNIQUE (thread_id, sequence)
+      );
+    `);
+  }
+};
+
+// Hash of each character, chapter and scene row's plaintext, so saving a story
+// only rewrites the rows that changed. Existing rows start without one and are
+// rewritten on their next save.
+const addRowHashes: Migration = {
+  version: 6,
+  name: 'add_row_hashes',
+  up(db: Database.Database): void {
+    db.exec(`
+      ALTER TABLE characters ADD COLUMN row_hash TEXT;
+      ALTER TABLE chapters ADD COLUMN row_hash TEXT;
+      ALTER TABLE scenes ADD COLUMN row_hash TEXT;
+    `);
+  }
+};
+
+// Ordered list of all schema migrations. Append new migrations with the next
+// version number; never edit a migration that has already shipped.
+export const migrations: Migration[] = [
+  initialSchema,
+  importLegacyJsonStore,
+  createRevisions,
+  createUsageLedger,
+  createChatThreads,
+  addRowHashes
+];
@@ -1,5 +1,8 @@
 import { EventEmitter } from 'events';
 import { AIProvider } from '../ai/providers/BaseProvider';
+import { CircuitBreaker } from '../ai/health/CircuitBreaker';
+import { RateLimitError } from '../ai/health/RateLimiter';
+import { CircuitBreakerOptions, CircuitBreakerSnapshot } from '../../shared/types/AI';
 
 /**
  * Automatic fallback system between Co-writer AI, local AI, and cloud providers
@@ -9,6 +12,8 @@ export class FallbackManager extends EventEmitter {
   private providers: Map<string, AIProvider>;
   private fallbackChains: Map<string, FallbackChain>;
   private providerHealth: Map<string, ProviderHealthStatus>;
+  private breakers: Map<string, CircuitBreaker>;
+  private circuitBreakerOptions: Partial<CircuitBreakerOptions>;
   private currentProvider: string | null;
   private healthCheckInterval: NodeJS.Timeout | null;
 
@@ -18,6 +23,8 @@ export class FallbackManager extends EventEmitter {
     this.providers = new Map();
     this.fallbackChains = new Map();
     this.providerHealth = new Map();
+    this.breakers = new Map();
+    this.circuitBreakerOptions = options.circuitBreaker || {};
     this.currentProvider = null;
     this.healthCheckInterval = null;
     
@@ -37,6 +44,7 @@ export class FallbackManager extends EventEmitter {
       averageResponseTime: 0,
       availability: 0
     });
+    this.breakers.set(id, new CircuitBreaker(id, this.circuitBreakerOptions));
     
     this.emit('providerRegistered', { id, provider: provider.name });
   }
@@ -73,7 +81,15 @@ export class FallbackManager extends EventEmitter {
         continue;
       }
 
+      // Skip providers whose circuit is open without waiting on them
+      const breaker = this.breakers.get(providerId);
+      if (breaker && !breaker.tryAcquire()) {
+        this.emit('fallbackSkipped', { executionId, operation, providerId, circuit: breaker.snapshot() });
+        continue;
+      }
+
       attemptedProviders.push(providerId);
+      const attemptStart = Date.now();
 
       try {
         this.emit('fallbackAttempt', { 
@@ -86,7 +102,7 @@ export class FallbackManager extends EventEmitter {
         const result = await this.executeOperation(provider, operation, params, options);
         
         // Success - update provider health and return result
-        this.updateProviderHealth(providerId, true, Date.now() - startTime);
+        this.updateProviderHealth(providerId, true, Date.now() - attemptStart);
         this.currentProvider = providerId;
         
         const executionResult: FallbackExecutionResult<T> = {
@@ -103,7 +119,12 @@ export class FallbackManager extends EventEmitter {
 
       } catch (error) {
         lastError = error as Error;
-        this.updateProviderHealth(providerId, false, Date.now() - startTime);
+        // Being rate limited says nothing about the provider's health; the next one is tried
+        if (error instanceof RateLimitError) {
+          breaker?.release();
+        } else {
+          this.updateProviderHealth(providerId, false, Date.now() - attemptStart);
+        }
         
         this.emit('fallbackFailure', { 
           executionId, 
@@ -144,7 +165,7 @@ export class FallbackManager extends EventEmitter {
     // Find the first healthy provider in the chain
     for (const providerId of chain.providers) {
       const health = this.providerHealth.get(providerId);
-      if (health && health.status === ProviderStatus.HEALTHY) {
+      if (health && health.status === ProviderStatus.HEALTHY && this.isCallPermitted(providerId)) {
         return providerId;
       }
     }
@@ -152,7 +173,7 @@ export class FallbackManager extends EventEmitter {
     // If no healthy provider, return the first available one
     for (const providerId of chain.providers) {
       const health = this.providerHealth.get(providerId);
-      if (health && health.status !== ProviderStatus.FAILED) {
+      if (health && health.status !== ProviderStatus.FAILED && this.isCallPermitted(providerId)) {
         return providerId;
       }
     }
@@ -210,7 +231,14 @@ export class FallbackManager extends EventEmitter {
    * Get all provider health statuses
    */
   getProviderHealthStatuses(): Map<string, ProviderHealthStatus> {
-    return new Map(this.providerHealth);
+    return new Map(Array.from(this.providerHealth.entries()).map(([id, health]) => [
+      id,
+      { ...health, circuit: this.breakers.get(id)?.snapshot() }
+    ]));
+  }
+
+  private isCallPermitted(providerId: string): boolean {
+    return this.breakers.get(providerId)?.isCallPermitted() ?? true;
   }
 
   /**
@@ -379,6 +407,13 @@ export class FallbackManager extends EventEmitter {
   private async checkAllProvidersHealth(): Promise<void> {
     const healthCheckPromises = Array.from(this.providers.entries()).map(
       async ([id, provider]) => {
+        // Open circuits are not checked until their cool-down ends; the check
+        // after that is the probe that decides whether they close
+        const breaker = this.breakers.get(id);
+        if (breaker && !breaker.tryAcquire()) {
+          return;
+        }
+
         try {
           const startTime = Date.now();
           const isHealthy = await this.testProviderAvailability(provider);
@@ -421,8 +456,10 @@ export class FallbackManager extends EventEmitter {
     if (!health) return;
 
     const now = Date.now();
+    const breaker = this.breakers.get(providerId);
     
     if (success) {
+      breaker?.recordSuccess(responseTime);
       health.consecutiveFailures = 0;
       health.status = responseTime > 10000 ? ProviderStatus.DEGRADED : ProviderStatus.HEALTHY;
       
@@ -433,10 +470,16 @@ export class FallbackManager extends EventEmitter {
         health.averageResponseTime = (health.averageResponseTime * 0.8) + (responseTime * 0.2);
       }
     } else {
+      breaker?.recordFailure();
       health.consecutiveFailures++;
       health.status = health.consecutiveFailures >= 3 ? ProviderStatus.FAILED : ProviderStatus.DEGRADED;
     }
 
+    // An open circuit means failed until a probe succeeds
+    if (breaker?.getState() === 'open') {
+      health.status = ProviderStatus.FAILED;
+    }
+
     health.lastCheck = now;
     
     // Calculate availability (simplified)
@@ -493,6 +536,7 @@ export class FallbackManager extends EventEmitter {
 // Types and interfaces
 export interface FallbackManagerOptions {
   healthCheckInterval?: number;
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
 }
 
 export interface FallbackChain {
@@ -531,6 +575,7 @@ export interface ProviderHealthStatus {
   consecutiveFailures: number;
   averageResponseTime: number;
   availability: number;
+  circuit?: CircuitBreakerSnapshot;
 }
 
 export interface FallbackStatistics {
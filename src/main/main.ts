@@ -2,14 +2,33 @@ import { app, BrowserWindow, ipcMain } from 'electron';
 import * as path from 'path';
 import { DatabaseManager } from './database/DatabaseManager';
 import { ConfigManager } from './config/ConfigManager';
+import { AIEngine } from './ai/AIEngine';
+import { TokenizerRegistry } from './ai/inference/TokenizerRegistry';
+import { ContextAssembler } from './ai/context/ContextAssembler';
+import { RetrievalIndex } from './ai/retrieval/RetrievalIndex';
+import { createEmbeddingBackend } from './ai/retrieval/EmbeddingBackend';
+import { PromptLibrary } from './ai/prompts/PromptLibrary';
+import { UsageLedger } from './ai/usage/UsageLedger';
+import { ChatThreadManager } from './ai/chat/ChatThreadManager';
+import { Character, RevisionEntityType, SearchOptions } from '../shared/types/Story';
+import {
+  AIRequest,
+  AIRequestType,
+  ChatThreadQuery,
+  ChatThreadScope,
+  ContextAssemblyOptions,
+  InfillInput,
+  PromptTemplate,
+  PromptTemplateDraft,
+  RetrievalOptions,
+  StoryContext,
+  UsageBudget,
+  UsageGroupBy,
+  UsageQuery,
+  VoicedDialogueOptions
+} from '../shared/types/AI';
 
 // Mock classes for components that may not be fully implemented
-class MockAIEngine {
-  async initialize() {
-    console.log('AI Engine initialized (mock)');
-  }
-}
-
 class MockAccessibilityManager {
   async initialize() {
     console.log('Accessibility Manager initialized (mock)');
@@ -20,25 +39,57 @@ class SoYumeApp {
   private mainWindow: BrowserWindow | null = null;
   private databaseManager: DatabaseManager;
   private configManager: ConfigManager;
-  private aiEngine: MockAIEngine;
+  private aiEngine: AIEngine;
   private accessibilityManager: MockAccessibilityManager;
+  private retrievalIndex: RetrievalIndex;
+  private usageLedger: UsageLedger;
+  private chatThreads: ChatThreadManager;
+  // In-flight renderer requests by request ID, so 'ai:cancel' can abort them
+  private activeRequests = new Map<string, AbortController>();
 
   constructor() {
     this.databaseManager = new DatabaseManager();
     this.configManager = new ConfigManager();
-    this.aiEngine = new MockAIEngine();
+    this.aiEngine = new AIEngine(this.configManager);
     this.accessibilityManager = new MockAccessibilityManager();
+    this.retrievalIndex = new RetrievalIndex();
+    this.usageLedger = new UsageLedger(this.databaseManager, this.configManager);
+    this.aiEngine.setRetrievalIndex(this.retrievalIndex);
+    this.aiEngine.setUsageLedger(this.usageLedger);
+    this.aiEngine.setStoryLoader(storyId => this.databaseManager.loadStory(storyId));
+    this.chatThreads = new ChatThreadManager(this.databaseManager, this.aiEngine);
   }
 
   async initialize(): Promise<void> {
+    TokenizerRegistry.setTokenizerDirectory(path.join(app.getPath('userData'), 'tokenizers'));
     await this.databaseManager.initialize();
     await this.configManager.initialize();
+    PromptLibrary.setConfigManager(this.configManager);
     await this.aiEngine.initialize();
     await this.accessibilityManager.initialize();
+    await this.initializeRetrieval();
+
+    // Budget warnings are pushed to the renderer as they happen
+    this.usageLedger.on('budget-warning', status => {
+      this.mainWindow?.webContents.send('usage:budgetWarning', status);
+    });
     
     this.setupIpcHandlers();
   }
 
+  // Builds the retrieval index from every story and keeps it in step with saves.
+  // Embedding happens in the background; until then retrieval is lexical only.
+  private async initializeRetrieval(): Promise<void> {
+    this.retrievalIndex.setEmbeddingBackend(createEmbeddingBackend(this.configManager.getAIProviders()));
+
+    this.databaseManager.on('story-saved', story => this.retrievalIndex.indexStory(story));
+    this.databaseManager.on('story-deleted', storyId => this.retrievalIndex.removeStory(storyId));
+
+    for (const story of await this.databaseManager.getAllStories()) {
+      this.retrievalIndex.indexStory(story);
+    }
+  }
+
   createMainWindow(): void {
     this.mainWindow = new BrowserWindow({
       width: 1200,
@@ -75,16 +126,199 @@ class SoYumeApp {
     });
   }
 
+  private async trackRequest<T>(requestId: string | undefined, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    if (requestId) this.activeRequests.set(requestId, controller);
+    try {
+      return await run(controller.signal);
+    } finally {
+      if (requestId && this.activeRequests.get(requestId) === controller) {
+        this.activeRequests.delete(requestId);
+      }
+    }
+  }
+
   private setupIpcHandlers(): void {
     // AI Engine handlers
-    ipcMain.handle('ai:generateText', async (event, prompt: string, context: any) => {
-      return this.aiEngine.generateText(prompt, context);
+    ipcMain.handle('ai:generateText', async (event, prompt: string, context: any, requestId?: string) => {
+      return this.trackRequest(requestId, signal =>
+        this.aiEngine.generateText(prompt, context, undefined, signal)
+      );
+    });
+
+    // Streamed generation: chunks are pushed on 'ai:streamChunk' tagged with
+    // the renderer's stream ID, and the invoke resolves with the full text
+    ipcMain.handle('ai:generateStream', async (event, streamId: string, prompt: string, context: any) => {
+      return this.trackRequest(streamId, async signal => {
+        let content = '';
+        for await (const chunk of this.aiEngine.generateTextStream(prompt, context, undefined, signal)) {
+          if (event.sender.isDestroyed()) break;
+          content += chunk.content;
+          event.sender.send('ai:streamChunk', streamId, chunk);
+        }
+        return { content };
+      });
+    });
+
+    // Aborts a generation started with the given request or stream ID; the
+    // original invoke then rejects with a RequestCancelledError
+    ipcMain.handle('ai:cancel', async (event, requestId: string) => {
+      const controller = this.activeRequests.get(requestId);
+      if (!controller) return false;
+      controller.abort();
+      return true;
     });
 
     ipcMain.handle('ai:analyzeStory', async (event, content: string) => {
       return this.aiEngine.analyzeStory(content);
     });
 
+    ipcMain.handle('ai:countTokens', async (event, text: string, model?: string) => {
+      return {
+        tokens: TokenizerRegistry.countTokens(text, model),
+        family: TokenizerRegistry.getFamily(model).id,
+        exact: TokenizerRegistry.hasExactCounts(model)
+      };
+    });
+
+    // Returns the assembled text together with a report of every section considered
+    ipcMain.handle('ai:assembleContext', async (event, storyId: string, options: ContextAssemblyOptions) => {
+      const story = await this.databaseManager.loadStory(storyId);
+      if (!story) {
+        throw new Error(`Story not found: ${storyId}`);
+      }
+      return ContextAssembler.assemble(story, options);
+    });
+
+    ipcMain.handle('ai:retrieve', async (event, query: string, options?: RetrievalOptions) => {
+      return this.retrievalIndex.query(query, options);
+    });
+
+    // Inline suggestion for the cursor position. Typing on cancels the previous
+    // request through 'ai:cancel'.
+    ipcMain.handle('ai:infill', async (event, input: InfillInput, context: StoryContext, requestId?: string) => {
+      return this.trackRequest(requestId, signal =>
+        this.aiEngine.generateInfill(input, context, undefined, signal)
+      );
+    });
+
+    ipcMain.handle('ai:generateDialogue', async (event, prompt: string, characters: Character[], context: any, options?: VoicedDialogueOptions, requestId?: string) => {
+      return this.trackRequest(requestId, signal =>
+        this.aiEngine.generateDialogue(prompt, characters, context, options, signal)
+      );
+    });
+
+    // Side-by-side comparison. The request ID lets the renderer cancel every
+    // provider at once with 'ai:cancel'.
+    ipcMain.handle('ai:providers', async () => {
+      return this.aiEngine.getAvailableProviders().map((provider: any) => ({ name: provider.name, type: provider.type }));
+    });
+
+    ipcMain.handle('ai:compare', async (event, request: AIRequest, providers: string[], requestId?: string) => {
+      return this.trackRequest(requestId, signal =>
+        this.aiEngine.compareProviders({ ...request, signal }, providers)
+      );
+    });
+
+    ipcMain.handle('ai:chooseComparison', async (event, comparisonId: string, provider: string, comment?: string) => {
+      return this.aiEngine.recordComparisonChoice(comparisonId, provider, { comment });
+    });
+
+    // Prompt template handlers. Saving, reverting and resetting return the now active template.
+    ipcMain.handle('prompts:list', async () => {
+      return PromptLibrary.getTemplates();
+    });
+
+    ipcMain.handle('prompts:versions', async (event, id: string) => {
+      return PromptLibrary.getVersions(id);
+    });
+
+    ipcMain.handle('prompts:save', async (event, draft: PromptTemplateDraft) => {
+      return PromptLibrary.saveTemplate(draft);
+    });
+
+    ipcMain.handle('prompts:revert', async (event, id: string, version: number) => {
+      return PromptLibrary.revertTemplate(id, version);
+    });
+
+    ipcMain.handle('prompts:reset', async (event, id: string) => {
+      PromptLibrary.resetTemplate(id);
+      return PromptLibrary.getTemplate(id);
+    });
+
+    // Renders a draft, or the saved templates for a request type when no draft is given
+    ipcMain.handle('prompts:preview', async (
+      event,
+      requestType: AIRequestType,
+      context: StoryContext,
+      variables?: Record<string, any>,
+      draft?: Pick<PromptTemplate, 'system' | 'user' | 'variables'>,
+      provider?: { name: string; type?: string }
+    ) => {
+      if (draft) {
+        return PromptLibrary.preview(draft, context, variables);
+      }
+      const rendered = PromptLibrary.render(requestType, { ...PromptLibrary.variablesFromContext(context), ...variables }, provider);
+      return { ...rendered, problems: [] };
+    });
+
+    // Usage and budget handlers
+    ipcMain.handle('usage:report', async (event, query?: UsageQuery, groupBy?: UsageGroupBy) => {
+      return this.usageLedger.getReport(query, groupBy);
+    });
+
+    ipcMain.handle('usage:records', async (event, query?: UsageQuery) => {
+      return this.usageLedger.getRecords(query);
+    });
+
+    ipcMain.handle('usage:budgets', async (event, storyId?: string) => {
+      return this.usageLedger.getBudgetStatuses(storyId);
+    });
+
+    ipcMain.handle('usage:setBudgets', async (event, budgets: UsageBudget[]) => {
+      return this.usageLedger.setBudgets(budgets);
+    });
+
+    // Assistant chat thread handlers. Sending takes a request ID so the
+    // renderer can stop a reply with 'ai:cancel'.
+    ipcMain.handle('chat:list', async (event, query?: ChatThreadQuery) => {
+      return this.chatThreads.listThreads(query);
+    });
+
+    ipcMain.handle('chat:create', async (event, scope: ChatThreadScope, title?: string) => {
+      return this.chatThreads.createThread(scope, title);
+    });
+
+    ipcMain.handle('chat:resume', async (event, threadId: string) => {
+      return this.chatThreads.resumeThread(threadId);
+    });
+
+    ipcMain.handle('chat:send', async (event, threadId: string, content: string, context?: Partial<StoryContext>, requestId?: string) => {
+      return this.trackRequest(requestId, signal =>
+        this.chatThreads.sendMessage(threadId, content, context, signal)
+      );
+    });
+
+    ipcMain.handle('chat:pinFact', async (event, threadId: string, text: string) => {
+      return this.chatThreads.pinFact(threadId, text);
+    });
+
+    ipcMain.handle('chat:unpinFact', async (event, threadId: string, factId: string) => {
+      return this.chatThreads.unpinFact(threadId, factId);
+    });
+
+    ipcMain.handle('chat:rename', async (event, threadId: string, title: string) => {
+      return this.chatThreads.renameThread(threadId, title);
+    });
+
+    ipcMain.handle('chat:fork', async (event, threadId: string, throughMessageId?: string, title?: string) => {
+      return this.chatThreads.forkThread(threadId, throughMessageId, title);
+    });
+
+    ipcMain.handle('chat:delete', async (event, threadId: string) => {
+      return this.chatThreads.deleteThread(threadId);
+    });
+
     // Database handlers
     ipcMain.handle('db:saveStory', async (event, story: any) => {
       return this.databaseManager.saveStory(story);
@@ -94,6 +328,31 @@ class SoYumeApp {
       return this.databaseManager.loadStory(storyId);
     });
 
+    ipcMain.handle('db:searchStories', async (event, query: string, options?: SearchOptions) => {
+      return this.databaseManager.searchStories(query, options);
+    });
+
+    // Revision history handlers
+    ipcMain.handle('db:getRevisions', async (event, entityType: RevisionEntityType, entityId: string) => {
+      return this.databaseManager.getRevisions(entityType, entityId);
+    });
+
+    ipcMain.handle('db:getRevision', async (event, revisionId: string) => {
+      return this.databaseManager.getRevision(revisionId);
+    });
+
+    ipcMain.handle('db:createSnapshot', async (event, entityType: RevisionEntityType, entityId: string, label: string, author?: string) => {
+      return this.databaseManager.createSnapshot(entityType, entityId, label, author);
+    });
+
+    ipcMain.handle('db:diffRevisions', async (event, fromRevisionId: string, toRevisionId: string) => {
+      return this.databaseManager.diffRevisions(fromRevisionId, toRevisionId);
+    });
+
+    ipcMain.handle('db:restoreRevision', async (event, revisionId: string) => {
+      return this.databaseManager.restoreRevision(revisionId);
+    });
+
     // Configuration handlers
     ipcMain.handle('config:get', async (event, key: string) => {
       return this.configManager.get(key);
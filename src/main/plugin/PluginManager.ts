@@ -5,7 +5,7 @@ import * as fs from 'fs/promises';
 import { AIEngine } from '../ai/AIEngine';
 import { DatabaseManager } from '../database/DatabaseManager';
 import { ConfigManager } from '../config/ConfigManager';
-import { Story, Scene, Character } from '../../shared/types/Story';
+import { Story, Scene, Character, SearchOptions, SearchResult } from '../../shared/types/Story';
 
 export interface PluginManifest {
   id: string;
@@ -60,7 +60,7 @@ export interface PluginAPI {
     saveStory: (story: Story) => Promise<void>;
     deleteStory: (id: string) => Promise<void>;
     listStories: () => Promise<Story[]>;
-    searchStories: (query: string) => Promise<Story[]>;
+    searchStories: (query: string, options?: SearchOptions) => Promise<SearchResult>;
   };
   
   // UI Services
@@ -499,11 +499,11 @@ export class PluginManager extends EventEmitter {
           return this.dbManager.getAllStories();
         },
         
-        searchStories: async (query: string) => {
+        searchStories: async (query: string, options?: SearchOptions) => {
           if (!hasPermission('database', 'read')) {
             throw new Error('Plugin does not have permission to search stories');
           }
-          return this.dbManager.searchStories(query);
+          return this.dbManager.searchStories(query, options);
         }
       },
       
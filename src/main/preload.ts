@@ -5,10 +5,92 @@ import { contextBridge, ipcRenderer } from 'electron';
 contextBridge.exposeInMainWorld('electronAPI', {
   // AI Engine API
   ai: {
-    generateText: (prompt: string, context: any) => 
-      ipcRenderer.invoke('ai:generateText', prompt, context),
+    generateText: (prompt: string, context: any, requestId?: string) => 
+      ipcRenderer.invoke('ai:generateText', prompt, context, requestId),
+    generateStream: (prompt: string, context: any, onChunk: (chunk: any) => void, requestId?: string) => {
+      const streamId = requestId ?? `stream-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const listener = (event: any, id: string, chunk: any) => {
+        if (id === streamId) onChunk(chunk);
+      };
+      ipcRenderer.on('ai:streamChunk', listener);
+      return ipcRenderer.invoke('ai:generateStream', streamId, prompt, context)
+        .finally(() => ipcRenderer.removeListener('ai:streamChunk', listener));
+    },
+    cancel: (requestId: string) =>
+      ipcRenderer.invoke('ai:cancel', requestId),
     analyzeStory: (content: string) => 
       ipcRenderer.invoke('ai:analyzeStory', content),
+    countTokens: (text: string, model?: string) =>
+      ipcRenderer.invoke('ai:countTokens', text, model),
+    assembleContext: (storyId: string, options: any) =>
+      ipcRenderer.invoke('ai:assembleContext', storyId, options),
+    retrieve: (query: string, options?: any) =>
+      ipcRenderer.invoke('ai:retrieve', query, options),
+    infill: (input: { prefix: string; suffix: string; maxTokens?: number }, context: any, requestId?: string) =>
+      ipcRenderer.invoke('ai:infill', input, context, requestId),
+    generateDialogue: (prompt: string, characters: any[], context: any, options?: any, requestId?: string) =>
+      ipcRenderer.invoke('ai:generateDialogue', prompt, characters, context, options, requestId),
+    providers: () =>
+      ipcRenderer.invoke('ai:providers'),
+    compare: (request: any, providers: string[], requestId?: string) =>
+      ipcRenderer.invoke('ai:compare', request, providers, requestId),
+    chooseComparison: (comparisonId: string, provider: string, comment?: string) =>
+      ipcRenderer.invoke('ai:chooseComparison', comparisonId, provider, comment),
+  },
+
+  // Prompt template API
+  prompts: {
+    list: () =>
+      ipcRenderer.invoke('prompts:list'),
+    versions: (id: string) =>
+      ipcRenderer.invoke('prompts:versions', id),
+    save: (draft: any) =>
+      ipcRenderer.invoke('prompts:save', draft),
+    revert: (id: string, version: number) =>
+      ipcRenderer.invoke('prompts:revert', id, version),
+    reset: (id: string) =>
+      ipcRenderer.invoke('prompts:reset', id),
+    preview: (requestType: string, context: any, variables?: any, draft?: any, provider?: any) =>
+      ipcRenderer.invoke('prompts:preview', requestType, context, variables, draft, provider),
+  },
+
+  // Usage and budget API
+  usage: {
+    report: (query?: any, groupBy?: string) =>
+      ipcRenderer.invoke('usage:report', query, groupBy),
+    records: (query?: any) =>
+      ipcRenderer.invoke('usage:records', query),
+    budgets: (storyId?: string) =>
+      ipcRenderer.invoke('usage:budgets', storyId),
+    setBudgets: (budgets: any[]) =>
+      ipcRenderer.invoke('usage:setBudgets', budgets),
+    onBudgetWarning: (callback: (status: any) => void) => {
+      const listener = (event: any, status: any) => callback(status);
+      ipcRenderer.on('usage:budgetWarning', listener);
+      return () => ipcRenderer.removeListener('usage:budgetWarning', listener);
+    },
+  },
+
+  // Assistant chat thread API
+  chat: {
+    list: (query?: any) =>
+      ipcRenderer.invoke('chat:list', query),
+    create: (scope: any, title?: string) =>
+      ipcRenderer.invoke('chat:create', scope, title),
+    resume: (threadId: string) =>
+      ipcRenderer.invoke('chat:resume', threadId),
+    send: (threadId: string, content: string, context?: any, requestId?: string) =>
+      ipcRenderer.invoke('chat:send', threadId, content, context, requestId),
+    pinFact: (threadId: string, text: string) =>
+      ipcRenderer.invoke('chat:pinFact', threadId, text),
+    unpinFact: (threadId: string, factId: string) =>
+      ipcRenderer.invoke('chat:unpinFact', threadId, factId),
+    rename: (threadId: string, title: string) =>
+      ipcRenderer.invoke('chat:rename', threadId, title),
+    fork: (threadId: string, throughMessageId?: string, title?: string) =>
+      ipcRenderer.invoke('chat:fork', threadId, throughMessageId, title),
+    delete: (threadId: string) =>
+      ipcRenderer.invoke('chat:delete', threadId),
   },
 
   // Database API
@@ -17,6 +99,18 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('db:saveStory', story),
     loadStory: (storyId: string) => 
       ipcRenderer.invoke('db:loadStory', storyId),
+    searchStories: (query: string, options?: any) => 
+      ipcRenderer.invoke('db:searchStories', query, options),
+    getRevisions: (entityType: 'scene' | 'chapter', entityId: string) => 
+      ipcRenderer.invoke('db:getRevisions', entityType, entityId),
+    getRevision: (revisionId: string) => 
+      ipcRenderer.invoke('db:getRevision', revisionId),
+    createSnapshot: (entityType: 'scene' | 'chapter', entityId: string, label: string, author?: string) => 
+      ipcRenderer.invoke('db:createSnapshot', entityType, entityId, label, author),
+    diffRevisions: (fromRevisionId: string, toRevisionId: string) => 
+      ipcRenderer.invoke('db:diffRevisions', fromRevisionId, toRevisionId),
+    restoreRevision: (revisionId: string) => 
+      ipcRenderer.invoke('db:restoreRevision', revisionId),
   },
 
   // Configuration API
@@ -41,12 +135,54 @@ declare global {
   interface Window {
     electronAPI: {
       ai: {
-        generateText: (prompt: string, context: any) => Promise<any>;
+        generateText: (prompt: string, context: any, requestId?: string) => Promise<any>;
+        generateStream: (prompt: string, context: any, onChunk: (chunk: any) => void, requestId?: string) => Promise<any>;
+        cancel: (requestId: string) => Promise<boolean>;
         analyzeStory: (content: string) => Promise<any>;
+        countTokens: (text: string, model?: string) => Promise<{ tokens: number; family: string; exact: boolean }>;
+        assembleContext: (storyId: string, options: any) => Promise<any>;
+        retrieve: (query: string, options?: any) => Promise<any[]>;
+        infill: (input: { prefix: string; suffix: string; maxTokens?: number }, context: any, requestId?: string) => Promise<any>;
+        generateDialogue: (prompt: string, characters: any[], context: any, options?: any, requestId?: string) => Promise<any>;
+        providers: () => Promise<Array<{ name: string; type: string }>>;
+        compare: (request: any, providers: string[], requestId?: string) => Promise<any>;
+        chooseComparison: (comparisonId: string, provider: string, comment?: string) => Promise<string[]>;
+      };
+      prompts: {
+        list: () => Promise<any[]>;
+        versions: (id: string) => Promise<any[]>;
+        save: (draft: any) => Promise<any>;
+        revert: (id: string, version: number) => Promise<any>;
+        reset: (id: string) => Promise<any>;
+        preview: (requestType: string, context: any, variables?: any, draft?: any, provider?: any) => Promise<any>;
+      };
+      usage: {
+        report: (query?: any, groupBy?: string) => Promise<any>;
+        records: (query?: any) => Promise<any[]>;
+        budgets: (storyId?: string) => Promise<any[]>;
+        setBudgets: (budgets: any[]) => Promise<any[]>;
+        onBudgetWarning: (callback: (status: any) => void) => () => void;
+      };
+      chat: {
+        list: (query?: any) => Promise<any[]>;
+        create: (scope: any, title?: string) => Promise<any>;
+        resume: (threadId: string) => Promise<{ thread: any; messages: any[] }>;
+        send: (threadId: string, content: string, context?: any, requestId?: string) => Promise<any>;
+        pinFact: (threadId: string, text: string) => Promise<any>;
+        unpinFact: (threadId: string, factId: string) => Promise<any>;
+        rename: (threadId: string, title: string) => Promise<any>;
+        fork: (threadId: string, throughMessageId?: string, title?: string) => Promise<{ thread: any; messages: any[] }>;
+        delete: (threadId: string) => Promise<boolean>;
       };
       db: {
         saveStory: (story: any) => Promise<any>;
         loadStory: (storyId: string) => Promise<any>;
+        searchStories: (query: string, options?: any) => Promise<any>;
+        getRevisions: (entityType: 'scene' | 'chapter', entityId: string) => Promise<any[]>;
+        getRevision: (revisionId: string) => Promise<any>;
+        createSnapshot: (entityType: 'scene' | 'chapter', entityId: string, label: string, author?: string) => Promise<any>;
+        diffRevisions: (fromRevisionId: string, toRevisionId: string) => Promise<any>;
+        restoreRevision: (revisionId: string) => Promise<any>;
       };
       config: {
         get: (key: string) => Promise<any>;
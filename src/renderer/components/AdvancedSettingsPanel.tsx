@@ -2,7 +2,8 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { ConfigManager } from '../../main/config/ConfigManager';
 import { AccessibilityManager } from '../../main/accessibility/AccessibilityManager';
 import { AIProviderRegistry } from '../../main/ai/providers/AIProviderRegistry';
-import { AIProvider, AIProviderConfig, AIProviderType } from '../../shared/types/AI';
+import { RoutingRules } from '../../main/ai/routing/RoutingRules';
+import { AIProvider, AIProviderConfig, AIProviderType, AIRequestType, RoutingConditions, RoutingRule } from '../../shared/types/AI';
 
 interface AdvancedSettingsPanelProps {
   onClose: () => void;
@@ -154,6 +155,12 @@ export const AdvancedSettingsPanel: React.FC<AdvancedSettingsPanelProps> = ({
       icon: '🤖',
       component: AIProvidersSection
     },
+    {
+      id: 'routing',
+      title: 'Routing',
+      icon: '🔀',
+      component: RoutingSection
+    },
     {
       id: 'accessibility',
       title: 'Accessibility',
@@ -418,6 +425,275 @@ const AIProvidersSection: React.FC<{
   );
 };
 
+// Routing Section
+const REQUEST_TYPES: AIRequestType[] = [
+  'outline', 'character_analysis', 'scene_structure', 'prose_generation', 'dialogue_generation',
+  'story_analysis', 'plot_hole_detection', 'pacing_analysis', 'consistency_check',
+  'manuscript_analysis', 'research', 'brainstorming', 'infill', 'assistant_chat'
+];
+
+const splitList = (value: string): string[] | undefined => {
+  const items = value.split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+};
+
+const parseNumber = (value: string): number | undefined => value === '' ? undefined : Number(value);
+
+const RoutingSection: React.FC<{
+  settings: any;
+  onSettingChange: (section: string, key: string, value: any) => void;
+}> = ({ settings, onSettingChange }) => {
+  const routing = settings.aiRouting || {};
+  const rules: RoutingRule[] = routing.rules || [];
+
+  const setRules = (updated: RoutingRule[]) => onSettingChange('aiRouting', 'rules', updated);
+
+  const updateRule = (index: number, updates: Partial<RoutingRule>) => {
+    setRules(rules.map((rule, i) => i === index ? { ...rule, ...updates } : rule));
+  };
+
+  // Unset conditions are removed so they are not stored as empty values
+  const updateCondition = <K extends keyof RoutingConditions>(index: number, key: K, value: RoutingConditions[K] | undefined) => {
+    const when: RoutingConditions = { ...rules[index].when, [key]: value };
+    if (value === undefined) {
+      delete when[key];
+    }
+    updateRule(index, { when: Object.keys(when).length > 0 ? when : undefined });
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setRules(reordered);
+  };
+
+  const addRule = () => {
+    setRules([{ id: `rule-${Date.now()}`, enabled: true, fallbackStrategy: 'priority' }, ...rules]);
+  };
+
+  return (
+    <div className="settings-section">
+      <div className="section-header">
+        <h2>Request Routing</h2>
+        <p>Rules are checked from top to bottom and the first one that matches decides where a request goes</p>
+      </div>
+      
+      <div className="settings-groups">
+        <div className="settings-group">
+          <h3>Retries</h3>
+          
+          <div className="setting-item">
+            <label>Retry on Another Provider</label>
+            <input
+              type="checkbox"
+              checked={routing.enableFallback !== false}
+              onChange={(e) => onSettingChange('aiRouting', 'enableFallback', e.target.checked)}
+            />
+          </div>
+          
+          <div className="setting-item">
+            <label>Maximum Retries</label>
+            <input
+              type="number"
+              min="0"
+              max="10"
+              value={routing.maxRetries ?? 3}
+              onChange={(e) => onSettingChange('aiRouting', 'maxRetries', parseInt(e.target.value) || 0)}
+            />
+          </div>
+        </div>
+        
+        <div className="settings-group">
+          <h3>Rules</h3>
+          
+          <button className="btn-secondary" onClick={addRule}>
+            Add Rule
+          </button>
+          
+          {rules.map((rule, index) => {
+            const when = rule.when || {};
+            const problems = RoutingRules.validate(rule);
+
+            return (
+              <div key={rule.id || index} className={`routing-rule ${rule.enabled === false ? 'disabled' : ''}`}>
+                <div className="rule-header">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled !== false}
+                    onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+                    aria-label="Rule enabled"
+                  />
+                  <input
+                    type="text"
+                    value={rule.description || ''}
+                    onChange={(e) => updateRule(index, { description: e.target.value || undefined })}
+                    placeholder={rule.id || `Rule ${index + 1}`}
+                  />
+                  <button className="btn-secondary" onClick={() => moveRule(index, -1)} disabled={index === 0} aria-label="Move up">↑</button>
+                  <button className="btn-secondary" onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1} aria-label="Move down">↓</button>
+                  <button className="btn-danger" onClick={() => setRules(rules.filter((_, i) => i !== index))} aria-label="Remove rule">×</button>
+                </div>
+                
+                <div className="setting-item">
+                  <label>Request Type</label>
+                  <select
+                    value={rule.requestType || ''}
+                    onChange={(e) => updateRule(index, { requestType: (e.target.value || undefined) as AIRequestType | undefined })}
+                  >
+                    <option value="">Any</option>
+                    {REQUEST_TYPES.map(type => (
+                      <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
+                    ))}
+                  </select>
+                </div>
+                
+                <div className="setting-item">
+                  <label>Story Tags (any of)</label>
+                  <input
+                    type="text"
+                    value={(when.storyTags || []).join(', ')}
+                    onChange={(e) => updateCondition(index, 'storyTags', splitList(e.target.value))}
+                    placeholder="private, draft"
+                  />
+                </div>
+                
+                <div className="setting-item">
+                  <label>Content Ratings (any of)</label>
+                  <input
+                    type="text"
+                    value={(when.contentRatings || []).join(', ')}
+                    onChange={(e) => updateCondition(index, 'contentRatings', splitList(e.target.value))}
+                    placeholder="mature"
+                  />
+                </div>
+                
+                <div className="setting-item">
+                  <label>Estimated Tokens</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={when.minTokens ?? ''}
+                    onChange={(e) => updateCondition(index, 'minTokens', parseNumber(e.target.value))}
+                    placeholder="At least"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    value={when.maxTokens ?? ''}
+                    onChange={(e) => updateCondition(index, 'maxTokens', parseNumber(e.target.value))}
+                    placeholder="At most"
+                  />
+                </div>
+                
+                <div className="setting-item">
+                  <label>Time of Day</label>
+                  <input
+                    type="time"
+                    value={when.timeWindow?.start || ''}
+                    onChange={(e) => updateCondition(index, 'timeWindow', e.target.value ? { start: e.target.value, end: when.timeWindow?.end || e.target.value } : undefined)}
+                  />
+                  <input
+                    type="time"
+                    value={when.timeWindow?.end || ''}
+                    onChange={(e) => updateCondition(index, 'timeWindow', e.target.value ? { start: when.timeWindow?.start || e.target.value, end: e.target.value } : undefined)}
+                  />
+                </div>
+                
+                <div className="setting-item">
+                  <label>Budget Remaining Below ($)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={when.budgetRemainingBelow ?? ''}
+                    onChange={(e) => updateCondition(index, 'budgetRemainingBelow', parseNumber(e.target.value))}
+                  />
+                </div>
+                
+                <div className="setting-item">
+                  <label>When Provider Is</label>
+                  <input
+                    type="text"
+                    value={when.providerHealth?.provider || ''}
+                    onChange={(e) => updateCondition(index, 'providerHealth', e.target.value
+                      ? { provider: e.target.value, states: when.providerHealth?.states || ['unhealthy'] }
+                      : undefined)}
+                    placeholder="Provider name"
+                  />
+                  <select
+                    value={(when.providerHealth?.states || ['unhealthy']).join(',')}
+                    onChange={(e) => when.providerHealth && updateCondition(index, 'providerHealth', {
+                      provider: when.providerHealth.provider,
+                      states: e.target.value.split(',') as any
+                    })}
+                    disabled={!when.providerHealth}
+                  >
+                    <option value="unhealthy">Unhealthy</option>
+                    <option value="degraded,unhealthy">Degraded or unhealthy</option>
+                    <option value="throttled">Rate limited</option>
+                    <option value="degraded,throttled,unhealthy">Degraded, rate limited or unhealthy</option>
+                    <option value="healthy">Healthy</option>
+                  </select>
+                </div>
+                
+                <div className="setting-item">
+                  <label>Keep Offline</label>
+                  <input
+                    type="checkbox"
+                    checked={rule.requireOffline || false}
+                    onChange={(e) => updateRule(index, { requireOffline: e.target.checked })}
+                  />
+                </div>
+                
+                <div className="setting-item">
+                  <label>Preferred Provider Type</label>
+                  <select
+                    value={rule.preferredProviderType || ''}
+                    onChange={(e) => updateRule(index, { preferredProviderType: (e.target.value || undefined) as RoutingRule['preferredProviderType'] })}
+                  >
+                    <option value="">Any</option>
+                    <option value="cowriter">Co-writer</option>
+                    <option value="local">Local</option>
+                    <option value="cloud">Cloud</option>
+                  </select>
+                </div>
+                
+                <div className="setting-item">
+                  <label>Preferred Provider</label>
+                  <input
+                    type="text"
+                    value={rule.preferredProvider || ''}
+                    onChange={(e) => updateRule(index, { preferredProvider: e.target.value || undefined })}
+                    placeholder="Provider name"
+                  />
+                </div>
+                
+                <div className="setting-item">
+                  <label>Fallback Chain</label>
+                  <input
+                    type="text"
+                    value={(rule.fallbackChain || []).join(', ')}
+                    onChange={(e) => updateRule(index, { fallbackChain: splitList(e.target.value) })}
+                    placeholder="Tried in order; no other providers are used"
+                  />
+                </div>
+                
+                {problems.length > 0 && (
+                  <ul className="setting-errors">
+                    {problems.map(problem => <li key={problem}>{problem}</li>)}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
 // Accessibility Section
 const AccessibilitySection: React.FC<{
   settings: any;
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Empty, Input, List, Popconfirm, Select, Space, Spin, Tag, Tooltip, Typography, message } from 'antd';
+import { BranchesOutlined, DeleteOutlined, PlusOutlined, PushpinOutlined, SendOutlined, StopOutlined } from '@ant-design/icons';
+import { Scene, Story } from '../../shared/types/Story';
+import { ChatMessage, ChatThread } from '../../shared/types/AI';
+
+const { Text, Paragraph } = Typography;
+const { TextArea } = Input;
+
+interface AssistantChatPanelProps {
+  story: Story;
+  currentScene: Scene | null;
+}
+
+// Conversations with the assistant that are kept with the story. Threads
+// started here belong to the current scene; threads about the whole story are
+// listed alongside them.
+export const AssistantChatPanel: React.FC<AssistantChatPanelProps> = ({ story, currentScene }) => {
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [thread, setThread] = useState<ChatThread | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [fact, setFact] = useState('');
+  const [requestId, setRequestId] = useState<string | null>(null);
+
+  const loadThreads = async () => {
+    try {
+      const all: ChatThread[] = await window.electronAPI.chat.list({ storyId: story.id });
+      setThreads(all.filter(item => !item.sceneId || item.sceneId === currentScene?.id));
+    } catch (error) {
+      console.error('Failed to load chat threads:', error);
+    }
+  };
+
+  useEffect(() => {
+    setThread(null);
+    setMessages([]);
+    loadThreads();
+  }, [story.id, currentScene?.id]);
+
+  const openThread = async (threadId: string) => {
+    try {
+      const resumed = await window.electronAPI.chat.resume(threadId);
+      setThread(resumed.thread);
+      setMessages(resumed.messages);
+    } catch (error) {
+      message.error(`Failed to open conversation: ${(error as Error).message}`);
+    }
+  };
+
+  const newThread = async () => {
+    try {
+      const created = await window.electronAPI.chat.create({
+        storyId: story.id,
+        chapterId: currentScene?.chapterId,
+        sceneId: currentScene?.id
+      });
+      setThread(created);
+      setMessages([]);
+      loadThreads();
+    } catch (error) {
+      message.error(`Failed to start conversation: ${(error as Error).message}`);
+    }
+  };
+
+  const send = async () => {
+    if (!draft.trim()) return;
+    const target = thread || await window.electronAPI.chat.create({
+      storyId: story.id,
+      chapterId: currentScene?.chapterId,
+      sceneId: currentScene?.id
+    });
+    const id = `chat-${Date.now()}`;
+    setRequestId(id);
+    try {
+      const result = await window.electronAPI.chat.send(target.id, draft, {
+        characters: story.characters,
+        genre: story.genre?.map(genre => genre.name) || [],
+        targetAudience: story.metadata?.targetAudience || '',
+        storyTags: story.metadata?.tags,
+        contentRating: story.metadata?.contentRating
+      }, id);
+      setThread(result.thread);
+      setMessages(prev => [...prev, result.userMessage, result.reply]);
+      setDraft('');
+      if (result.summarized) {
+        message.info('Older messages were summarized to keep the conversation within the context limit');
+      }
+      loadThreads();
+    } catch (error) {
+      if ((error as Error).message?.includes('cancelled')) return;
+      message.error(`Message failed: ${(error as Error).message}`);
+    } finally {
+      setRequestId(null);
+    }
+  };
+
+  const cancel = () => {
+    if (requestId) {
+      window.electronAPI.ai.cancel(requestId);
+    }
+  };
+
+  const pinFact = async () => {
+    if (!thread || !fact.trim()) return;
+    try {
+      setThread(await window.electronAPI.chat.pinFact(thread.id, fact));
+      setFact('');
+    } catch (error) {
+      message.error(`Failed to pin fact: ${(error as Error).message}`);
+    }
+  };
+
+  const unpinFact = async (factId: string) => {
+    if (!thread) return;
+    try {
+      setThread(await window.electronAPI.chat.unpinFact(thread.id, factId));
+    } catch (error) {
+      message.error(`Failed to unpin fact: ${(error as Error).message}`);
+    }
+  };
+
+  const fork = async (throughMessageId?: string) => {
+    if (!thread) return;
+    try {
+      const forked = await window.electronAPI.chat.fork(thread.id, throughMessageId);
+      setThread(forked.thread);
+      setMessages(forked.messages);
+      loadThreads();
+    } catch (error) {
+      message.error(`Failed to fork conversation: ${(error as Error).message}`);
+    }
+  };
+
+  const remove = async () => {
+    if (!thread) return;
+    try {
+      await window.electronAPI.chat.delete(thread.id);
+      setThread(null);
+      setMessages([]);
+      loadThreads();
+    } catch (error) {
+      message.error(`Failed to delete conversation: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="assistant-chat-panel">
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Space style={{ width: '100%' }}>
+          <Select
+            placeholder="Conversations"
+            value={thread?.id}
+            onChange={openThread}
+            options={threads.map(item => ({
+              value: item.id,
+              label: `${item.title || 'Untitled'}${item.sceneId ? '' : ' (story)'}`
+            }))}
+            style={{ minWidth: 200 }}
+          />
+          <Tooltip title="New conversation">
+            <Button icon={<PlusOutlined />} onClick={newThread} />
+          </Tooltip>
+          <Tooltip title="Fork conversation">
+            <Button icon={<BranchesOutlined />} disabled={!thread} onClick={() => fork()} />
+          </Tooltip>
+          <Popconfirm title="Delete this conversation?" onConfirm={remove} disabled={!thread}>
+            <Button icon={<DeleteOutlined />} disabled={!thread} danger />
+          </Popconfirm>
+        </Space>
+
+        {thread && (
+          <Space direction="vertical" style={{ width: '100%' }}>
+            <Space size="small" wrap>
+              {thread.pinnedFacts.map(pinned => (
+                <Tag key={pinned.id} closable onClose={() => unpinFact(pinned.id)}>{pinned.text}</Tag>
+              ))}
+            </Space>
+            <Input
+              size="small"
+              prefix={<PushpinOutlined />}
+              placeholder="Pin a fact the assistant should always remember"
+              value={fact}
+              onChange={event => setFact(event.target.value)}
+              onPressEnter={pinFact}
+            />
+            {thread.summary && <Text type="secondary">Earlier messages are summarized.</Text>}
+          </Space>
+        )}
+
+        {messages.length === 0 ? (
+          <Empty description="Ask the assistant about this scene or story" />
+        ) : (
+          <List
+            size="small"
+            dataSource={messages}
+            style={{ maxHeight: 420, overflowY: 'auto' }}
+            renderItem={item => (
+              <List.Item
+                actions={[
+                  <Tooltip key="fork" title="Fork from here">
+                    <Button type="link" size="small" icon={<BranchesOutlined />} onClick={() => fork(item.id)} />
+                  </Tooltip>
+                ]}
+              >
+                <Space direction="vertical" size={0}>
+                  <Space size="small">
+                    <Text strong>{item.role === 'user' ? 'You' : 'Assistant'}</Text>
+                    {item.provider && <Tag>{item.provider}</Tag>}
+                  </Space>
+                  <Paragraph style={{ whiteSpace: 'pre-wrap', marginBottom: 0 }}>{item.content}</Paragraph>
+                </Space>
+              </List.Item>
+            )}
+          />
+        )}
+
+        {requestId && <Spin tip="Waiting for the assistant..." />}
+        <TextArea
+          rows={3}
+          placeholder="Message the assistant"
+          value={draft}
+          onChange={event => setDraft(event.target.value)}
+        />
+        <Space>
+          <Button
+            type="primary"
+            icon={<SendOutlined />}
+            loading={requestId !== null}
+            disabled={!draft.trim()}
+            onClick={send}
+          >
+            Send
+          </Button>
+          {requestId && <Button icon={<StopOutlined />} onClick={cancel}>Cancel</Button>}
+        </Space>
+      </Space>
+    </div>
+  );
+};
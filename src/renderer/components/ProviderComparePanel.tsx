@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Button, Card, Col, Empty, Input, Row, Select, Space, Spin, Tag, Typography, message } from 'antd';
+import { CheckOutlined, StopOutlined, SwapOutlined } from '@ant-design/icons';
+import { Scene, Story } from '../../shared/types/Story';
+import { AIRequestType, ComparisonResult, ProviderComparison } from '../../shared/types/AI';
+
+const { Text, Paragraph } = Typography;
+const { TextArea } = Input;
+
+const MAX_PROVIDERS = 4;
+
+interface ProviderComparePanelProps {
+  story: Story;
+  currentScene: Scene | null;
+  onApply: (text: string) => void;
+}
+
+// Sends one prompt to several providers and shows their answers side by side.
+// Keeping an answer records it as preference feedback for the chosen provider.
+export const ProviderComparePanel: React.FC<ProviderComparePanelProps> = ({
+  story,
+  currentScene,
+  onApply
+}) => {
+  const [providers, setProviders] = useState<Array<{ name: string; type: string }>>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [requestType, setRequestType] = useState<AIRequestType>('prose_generation');
+  const [prompt, setPrompt] = useState('');
+  const [comparison, setComparison] = useState<ProviderComparison | null>(null);
+  const [requestId, setRequestId] = useState<string | null>(null);
+  const [chosen, setChosen] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.ai.providers()
+      .then(available => {
+        setProviders(available);
+        setSelected(available.slice(0, 2).map(provider => provider.name));
+      })
+      .catch(error => console.error('Failed to load providers:', error));
+  }, []);
+
+  const runComparison = async () => {
+    const id = `compare-${Date.now()}`;
+    setRequestId(id);
+    setComparison(null);
+    setChosen(null);
+    try {
+      const result = await window.electronAPI.ai.compare({
+        type: requestType,
+        content: prompt,
+        context: {
+          storyId: story.id,
+          currentScene: currentScene?.id,
+          characters: story.characters,
+          genre: story.genre?.map(genre => genre.name) || [],
+          targetAudience: story.metadata?.targetAudience || '',
+          storyTags: story.metadata?.tags,
+          contentRating: story.metadata?.contentRating
+        }
+      }, selected, id);
+      setComparison(result);
+    } catch (error) {
+      if ((error as Error).message?.includes('cancelled')) return;
+      message.error(`Comparison failed: ${(error as Error).message}`);
+    } finally {
+      setRequestId(null);
+    }
+  };
+
+  const cancelComparison = () => {
+    if (requestId) {
+      window.electronAPI.ai.cancel(requestId);
+    }
+  };
+
+  const chooseResult = async (result: ComparisonResult) => {
+    if (!comparison || !result.response) return;
+    try {
+      await window.electronAPI.ai.chooseComparison(comparison.id, result.provider);
+      setChosen(result.provider);
+      onApply(result.response.content);
+      message.success(`Used the answer from ${result.provider}`);
+    } catch (error) {
+      message.error(`Failed to record choice: ${(error as Error).message}`);
+    }
+  };
+
+  const renderResult = (result: ComparisonResult) => (
+    <Card
+      size="small"
+      title={<Space><Text strong>{result.provider}</Text>{result.model && <Tag>{result.model}</Tag>}</Space>}
+      extra={chosen === result.provider && <Tag color="green">Chosen</Tag>}
+      actions={[
+        <Button
+          key="use"
+          type="link"
+          icon={<CheckOutlined />}
+          disabled={!result.response || chosen !== null}
+          onClick={() => chooseResult(result)}
+        >
+          Use this
+        </Button>
+      ]}
+    >
+      {result.error ? (
+        <Alert type="error" showIcon message={result.error} />
+      ) : (
+        <Paragraph style={{ whiteSpace: 'pre-wrap', maxHeight: 320, overflowY: 'auto' }}>
+          {result.response?.content}
+        </Paragraph>
+      )}
+      <Space size="small" wrap>
+        <Tag>{(result.latency / 1000).toFixed(1)}s</Tag>
+        {result.inputTokens !== undefined && <Tag>{result.inputTokens} in</Tag>}
+        {result.outputTokens !== undefined && <Tag>{result.outputTokens} out</Tag>}
+        {result.cost !== undefined && <Tag>${result.cost.toFixed(4)}</Tag>}
+      </Space>
+    </Card>
+  );
+
+  return (
+    <div className="provider-compare-panel">
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Select
+          mode="multiple"
+          placeholder="Providers to compare"
+          value={selected}
+          onChange={(values: string[]) => setSelected(values.slice(0, MAX_PROVIDERS))}
+          options={providers.map(provider => ({ value: provider.name, label: `${provider.name} (${provider.type})` }))}
+          style={{ width: '100%' }}
+        />
+        <Select
+          value={requestType}
+          onChange={setRequestType}
+          options={[
+            { value: 'prose_generation', label: 'Prose' },
+            { value: 'dialogue_generation', label: 'Dialogue' },
+            { value: 'brainstorming', label: 'Brainstorming' }
+          ]}
+        />
+        <TextArea
+          rows={4}
+          placeholder="What should the providers write?"
+          value={prompt}
+          onChange={event => setPrompt(event.target.value)}
+        />
+        <Space>
+          <Button
+            type="primary"
+            icon={<SwapOutlined />}
+            loading={requestId !== null}
+            disabled={!prompt.trim() || selected.length < 2}
+            onClick={runComparison}
+          >
+            Compare
+          </Button>
+          {requestId && <Button icon={<StopOutlined />} onClick={cancelComparison}>Cancel</Button>}
+        </Space>
+
+        {requestId && <Spin tip="Waiting for every provider..." />}
+        {!requestId && !comparison && <Empty description="Pick at least two providers and a prompt" />}
+        {comparison && (
+          <Row gutter={[8, 8]}>
+            {comparison.results.map(result => (
+              <Col key={result.provider} span={24 / Math.min(comparison.results.length, 2)}>
+                {renderResult(result)}
+              </Col>
+            ))}
+          </Row>
+        )}
+      </Space>
+    </div>
+  );
+};
@@ -56,7 +56,8 @@ import {
   LinkOutlined,
   PictureOutlined,
   SoundOutlined,
-  CommentOutlined
+  CommentOutlined,
+  SwapOutlined
 } from '@ant-design/icons';
 import { Story, Scene, Character, SceneAnalysis } from '../../shared/types/Story';
 import { SceneOutline } from './SceneOutline';
@@ -66,6 +67,8 @@ import { CharacterPanel } from './CharacterPanel';
 import { RichTextEditor } from './RichTextEditor';
 import { WritingGoals } from './WritingGoals';
 import { DistractionFreeMode } from './DistractionFreeMode';
+import { ProviderComparePanel } from './ProviderComparePanel';
+import { AssistantChatPanel } from './AssistantChatPanel';
 import './SceneEditor.css';
 
 const { Sider, Content } = Layout;
@@ -92,8 +95,19 @@ interface EditorSettings {
   distractionFree: boolean;
   typewriterMode: boolean;
   focusMode: boolean;
+  inlineSuggestions: boolean;
 }
 
+// Pause in typing before an inline suggestion is requested
+const INFILL_DELAY = 900;
+
+// Character offset of a 1-based line and column
+const offsetOf = (content: string, position: { line: number; column: number }): number => {
+  const lines = content.split('\n');
+  const lineStart = lines.slice(0, position.line - 1).reduce((sum, line) => sum + line.length + 1, 0);
+  return Math.min(content.length, lineStart + position.column - 1);
+};
+
 export const SceneEditor: React.FC<SceneEditorProps> = ({
   story,
   currentScene,
@@ -103,7 +117,7 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({
 }) => {
   const [leftSiderCollapsed, setLeftSiderCollapsed] = useState(false);
   const [rightSiderCollapsed, setRightSiderCollapsed] = useState(false);
-  const [activeRightPanel, setActiveRightPanel] = useState<'assistant' | 'analysis' | 'characters' | 'goals'>('assistant');
+  const [activeRightPanel, setActiveRightPanel] = useState<'assistant' | 'chat' | 'compare' | 'analysis' | 'characters' | 'goals'>('assistant');
   const [editorSettings, setEditorSettings] = useState<EditorSettings>({
     fontSize: 16,
     fontFamily: 'Georgia',
@@ -114,7 +128,8 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({
     autoSave: true,
     distractionFree: false,
     typewriterMode: false,
-    focusMode: false
+    focusMode: false,
+    inlineSuggestions: true
   });
   
   const [sceneAnalysis, setSceneAnalysis] = useState<SceneAnalysis | null>(null);
@@ -136,6 +151,13 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({
   const editorRef = useRef<any>(null);
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Inline suggestion shown as ghost text at the cursor
+  const [ghostText, setGhostText] = useState('');
+  const infillTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const infillRequestRef = useRef<string | null>(null);
+  // Rest of a suggestion accepted word by word, kept through the edit that inserts the word
+  const remainingGhostRef = useRef<string | null>(null);
+
   useEffect(() => {
     if (currentScene) {
       setEditorContent(currentScene.content || '');
@@ -161,6 +183,94 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({
     };
   }, [editorContent]);
 
+  // Each edit or cursor move drops the suggestion, cancels any request in
+  // flight, and asks again once typing pauses
+  useEffect(() => {
+    if (remainingGhostRef.current !== null) {
+      setGhostText(remainingGhostRef.current);
+      remainingGhostRef.current = null;
+      return;
+    }
+
+    setGhostText('');
+    cancelInfill();
+    if (editorSettings.inlineSuggestions && currentScene) {
+      infillTimeoutRef.current = setTimeout(requestInfill, INFILL_DELAY);
+    }
+
+    return () => {
+      if (infillTimeoutRef.current) {
+        clearTimeout(infillTimeoutRef.current);
+      }
+    };
+  }, [editorContent, cursorPosition, editorSettings.inlineSuggestions]);
+
+  const cancelInfill = () => {
+    if (infillRequestRef.current) {
+      window.electronAPI.ai.cancel(infillRequestRef.current);
+      infillRequestRef.current = null;
+    }
+  };
+
+  const requestInfill = async () => {
+    const offset = offsetOf(editorContent, cursorPosition);
+    const prefix = editorContent.slice(0, offset);
+    const suffix = editorContent.slice(offset);
+    // Not in the middle of a word, where a suggestion would split it
+    if (!prefix.trim() || (/\w$/.test(prefix) && /^\w/.test(suffix))) {
+      return;
+    }
+
+    const requestId = `infill-${Date.now()}`;
+    infillRequestRef.current = requestId;
+    try {
+      const suggestion = await window.electronAPI.ai.infill({ prefix, suffix }, {
+        storyId: story.id,
+        currentScene: currentScene?.id,
+        characters: story.characters,
+        genre: story.genre?.map(genre => genre.name) || [],
+        targetAudience: story.metadata?.targetAudience || '',
+        storyTags: story.metadata?.tags,
+        contentRating: story.metadata?.contentRating
+      }, requestId);
+      if (infillRequestRef.current === requestId) {
+        setGhostText(suggestion.text);
+      }
+    } catch (error) {
+      if (!(error as Error).message?.includes('cancelled')) {
+        console.warn('Inline suggestion failed:', error);
+      }
+    } finally {
+      if (infillRequestRef.current === requestId) {
+        infillRequestRef.current = null;
+      }
+    }
+  };
+
+  // Inserts the next word of the suggestion, or all of it
+  const acceptGhostText = (amount: 'word' | 'all') => {
+    const accepted = amount === 'all' ? ghostText : (ghostText.match(/^\s*\S+/)?.[0] || ghostText);
+    const remaining = ghostText.slice(accepted.length);
+    remainingGhostRef.current = remaining.trim() ? remaining : null;
+    editorRef.current?.insertText(accepted);
+  };
+
+  // Tab accepts the suggestion, Ctrl/Cmd+Right its next word, Escape dismisses it
+  const handleEditorKeyDown = (event: React.KeyboardEvent) => {
+    if (!ghostText) return;
+
+    if (event.key === 'Tab' && !event.shiftKey) {
+      event.preventDefault();
+      acceptGhostText('all');
+    } else if (event.key === 'ArrowRight' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      acceptGhostText('word');
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      setGhostText('');
+    }
+  };
+
   const updateWordCount = useCallback((content: string) => {
     const words = content.trim().split(/\s+/).filter(word => word.length > 0);
     const count = words.length;
@@ -407,6 +517,16 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({
       label: 'AI Assistant',
       icon: <BulbOutlined />,
     },
+    {
+      key: 'chat',
+      label: 'Chat',
+      icon: <CommentOutlined />,
+    },
+    {
+      key: 'compare',
+      label: 'Compare',
+      icon: <SwapOutlined />,
+    },
     {
       key: 'analysis',
       label: 'Analysis',
@@ -438,6 +558,23 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({
             }}
           />
         );
+      case 'chat':
+        return (
+          <AssistantChatPanel
+            story={story}
+            currentScene={currentScene}
+          />
+        );
+      case 'compare':
+        return (
+          <ProviderComparePanel
+            story={story}
+            currentScene={currentScene}
+            onApply={(text) => {
+              setEditorContent(prev => prev + text);
+            }}
+          />
+        );
       case 'analysis':
         return (
           <SceneAnalysisPanel
@@ -592,7 +729,7 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({
         </div>
 
         {/* Rich Text Editor */}
-        <div className="editor-container">
+        <div className="editor-container" onKeyDownCapture={handleEditorKeyDown}>
           {currentScene ? (
             <RichTextEditor
               ref={editorRef}
@@ -601,6 +738,7 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({
               settings={editorSettings}
               placeholder="Start writing your scene..."
               onCursorPositionChange={setCursorPosition}
+              ghostText={ghostText}
             />
           ) : (
             <div className="no-scene-selected">
@@ -629,6 +767,12 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({
           <div className="status-left">
             <Space>
               <Text type="secondary">Line {cursorPosition.line}, Column {cursorPosition.column}</Text>
+              {ghostText && (
+                <>
+                  <Divider type="vertical" />
+                  <Text type="secondary">Suggestion: Tab to accept, Ctrl+→ for one word, Esc to dismiss</Text>
+                </>
+              )}
               {editorSettings.autoSave && (
                 <>
                   <Divider type="vertical" />
@@ -767,6 +911,13 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({
                     onChange={(checked) => setEditorSettings(prev => ({ ...prev, autoSave: checked }))}
                   />
                 </div>
+                <div className="setting-switch">
+                  <Text>Inline Suggestions</Text>
+                  <Switch
+                    checked={editorSettings.inlineSuggestions}
+                    onChange={(checked) => setEditorSettings(prev => ({ ...prev, inlineSuggestions: checked }))}
+                  />
+                </div>
                 <div className="setting-switch">
                   <Text>Typewriter Mode</Text>
                   <Switch
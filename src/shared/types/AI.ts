@@ -20,14 +20,23 @@ export interface AIProvider {
   priority: number; // Higher priority for specialized tasks
   
   initialize(config: ProviderConfig): Promise<void>;
-  generateText(prompt: string, context: StoryContext): Promise<AIResponse>;
-  analyzeStory(story: Story): Promise<StoryAnalysis>;
+  // signal aborts the provider's HTTP call when the caller cancels the request
+  generateText(prompt: string, context: StoryContext, signal?: AbortSignal): Promise<AIResponse>;
+  generateTextStream?(prompt: string, context: StoryContext, signal?: AbortSignal): AsyncIterable<AIStreamChunk>;
+  analyzeStory(story: Story, signal?: AbortSignal): Promise<StoryAnalysis>;
   analyzeScene?(scene: Scene): Promise<any>;
   analyzeCharacter?(character: Character): Promise<any>;
   generateSuggestions?(context: any): Promise<any>;
-  generateCharacter(traits: CharacterTraits): Promise<Character>;
+  generateCharacter(traits: CharacterTraits, signal?: AbortSignal): Promise<Character>;
+  // Native fill-in-the-middle. Resolves null when the current model cannot
+  // infill, so the caller falls back to asking for it in the prompt.
+  generateInfill?(input: InfillInput, context: StoryContext, signal?: AbortSignal): Promise<AIResponse | null>;
+  // Providers whose API supports tool use offer these tools to the model
+  setTools?(tools: ToolExecutor | null): void;
   isAvailable(): Promise<boolean>;
   shutdown(): Promise<void>;
+  // Providers behind a rate-limited API report how close they are to their limits
+  getRateLimitState?(): RateLimitState | undefined;
 }
 
 export interface CowriterAI extends AIProvider {
@@ -49,12 +58,16 @@ export interface CowriterAI extends AIProvider {
 export interface ProviderConfig {
   apiKey?: string;
   endpoint?: string;
+  host?: string;
+  port?: number;
+  timeout?: number; // milliseconds
   modelName?: string;
   localPath?: string;
   parameters?: Record<string, any>;
   maxTokens?: number;
   temperature?: number;
   topP?: number;
+  rateLimits?: Partial<RateLimitOptions>;
 }
 
 export interface AICapability {
@@ -73,6 +86,109 @@ export interface StoryContext {
   genre: string[];
   targetAudience: string;
   previousContext?: string;
+  assembledContext?: AssembledContext;
+  retrievedPassages?: RetrievedPassage[];
+  requestType?: AIRequestType; // selects the prompt template; defaults to prose_generation
+  storyTags?: string[]; // matched by routing rules, e.g. keeping "private" stories off cloud providers
+  contentRating?: string;
+}
+
+// Story material the context assembler can place in a prompt, in default priority order
+export type ContextSectionKind = 'current_scene' | 'characters' | 'chapter_summaries' | 'world_building' | 'style_guide';
+
+export interface ContextAssemblyOptions {
+  maxTokens: number; // budget for the assembled context, not the whole prompt
+  model?: string; // counts tokens with this model's tokenizer family
+  chapterId?: string; // defaults to the last chapter
+  sceneId?: string; // defaults to the last scene of the chapter
+  priorities?: ContextSectionKind[];
+  chapterSummaries?: Record<string, string>; // rolling summaries keyed by chapter ID
+  styleGuide?: string;
+  minSectionTokens?: number; // sections are dropped rather than cut below this size
+}
+
+export interface ContextSectionReport {
+  kind: ContextSectionKind;
+  id: string; // scene, character or chapter ID, or world entry name
+  label: string;
+  included: boolean;
+  truncated: boolean;
+  tokens: number; // tokens that made it into the context
+  originalTokens: number;
+}
+
+export interface AssembledContext {
+  text: string;
+  tokens: number;
+  budget: number;
+  sections: ContextSectionReport[]; // every candidate section, included or not
+}
+
+// Manuscript material the retrieval index can return as a passage
+export type RetrievalSourceType = 'scene' | 'chapter' | 'character' | 'world';
+
+export interface RetrievalOptions {
+  storyId?: string; // defaults to the request context's story
+  topK?: number; // defaults to 5
+  types?: RetrievalSourceType[];
+  excludeSceneIds?: string[]; // e.g. the scene already in the prompt
+}
+
+export interface RetrievedPassage {
+  id: string; // chunk ID, e.g. "scene:<sceneId>:0"
+  storyId: string;
+  type: RetrievalSourceType;
+  label: string; // human-readable citation such as "Chapter 3 (Storm), Homecoming"
+  text: string;
+  score: number;
+  chapterId?: string;
+  sceneId?: string;
+  characterId?: string;
+}
+
+// Prompt templates. Template text uses {{variable}}, {{variable|join:" and "}}
+// and {{#if variable}}…{{/if}}; variables are filled from the StoryContext and the request.
+export type PromptVariableType = 'string' | 'number' | 'boolean' | 'list';
+
+export interface PromptVariable {
+  name: string;
+  type: PromptVariableType;
+  description?: string;
+  required?: boolean;
+}
+
+export interface PromptTemplate {
+  id: string; // the request type, plus @provider for overrides, e.g. "story_analysis@anthropic"
+  requestType: AIRequestType;
+  provider?: string; // provider name or type ('cowriter', 'local', 'cloud') the template applies to
+  version: number;
+  name: string;
+  description?: string;
+  system?: string; // parts left out are inherited, see PromptLibrary.resolve
+  user?: string;
+  variables: PromptVariable[];
+  source: 'builtin' | 'user';
+  basedOnVersion?: number; // built-in version a user copy started from
+  updatedAt?: string; // ISO date, set on user copies
+}
+
+export interface PromptTemplateDraft {
+  requestType: AIRequestType;
+  provider?: string;
+  name?: string;
+  description?: string;
+  system?: string;
+  user?: string;
+  variables: PromptVariable[];
+}
+
+export interface RenderedPrompt {
+  system: string;
+  user: string;
+  // Template and version each part came from
+  systemTemplate?: { id: string; version: number; source: PromptTemplate['source'] };
+  userTemplate?: { id: string; version: number; source: PromptTemplate['source'] };
+  missingVariables: string[]; // required variables that had no value
 }
 
 export interface AIResponse {
@@ -84,9 +200,85 @@ export interface AIResponse {
     provider: string;
     tokensUsed: number;
     responseTime: number;
+    infill?: 'native' | 'emulated'; // how an infill request was served
   };
   suggestions?: string[];
   alternatives?: string[];
+  citations?: RetrievedPassage[]; // passages the request was given, when retrieval was used
+  toolCalls?: ToolCall[]; // tools the model called while answering
+}
+
+// One piece of a streamed generation. Chunks carry the text added since the
+// previous chunk; the final chunk has done set and carries the metadata.
+export interface AIStreamChunk {
+  content: string;
+  done: boolean;
+  metadata?: Partial<AIResponse['metadata']> & {
+    finishReason?: string;
+  };
+}
+
+// Usage accounting. Every routed request is recorded with its token counts
+// and the cost computed from the price table.
+export interface ModelPrice {
+  input: number; // USD per million input tokens
+  output: number; // USD per million output tokens
+}
+
+export interface UsageRecord {
+  id: string;
+  timestamp: Date;
+  provider: string;
+  providerType: 'cowriter' | 'local' | 'cloud';
+  model: string;
+  requestType: AIRequestType;
+  storyId?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // USD
+  estimated: boolean; // token counts were estimated because the provider did not report them
+  priced: boolean; // false when a cloud model had no entry in the price table
+}
+
+export type UsageGroupBy = 'provider' | 'model' | 'story' | 'requestType' | 'day' | 'month';
+
+export interface UsageQuery {
+  from?: Date | string;
+  to?: Date | string; // exclusive
+  storyId?: string;
+  provider?: string;
+  requestType?: AIRequestType;
+  limit?: number; // for record listings
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface UsageBudget {
+  id: string;
+  period: 'daily' | 'monthly' | 'story'; // story budgets count all spending on one story
+  storyId?: string; // required for story budgets
+  limit: number; // USD
+  warnAt?: number; // fraction of the limit that triggers a warning, 0.8 by default
+  hardCap: boolean; // block cloud requests once the limit is reached
+}
+
+export interface BudgetStatus {
+  budget: UsageBudget;
+  spent: number;
+  remaining: number;
+  state: 'ok' | 'warning' | 'exceeded';
+}
+
+export interface UsageReport {
+  query: UsageQuery;
+  totals: UsageTotals;
+  groups: Array<UsageTotals & { key: string }>;
+  budgets: BudgetStatus[];
 }
 
 export interface StoryAnalysis {
@@ -98,6 +290,198 @@ export interface StoryAnalysis {
   recommendations: string[];
 }
 
+export type RoutingStrategy = 'priority' | 'load_balance' | 'performance';
+
+export type ProviderHealthState = 'healthy' | 'degraded' | 'throttled' | 'unhealthy';
+
+// Every condition that is set must hold for a rule to match
+export interface RoutingConditions {
+  minTokens?: number; // estimated tokens in the request content and assembled context
+  maxTokens?: number;
+  storyTags?: string[]; // the story has at least one of these tags
+  contentRatings?: string[];
+  timeWindow?: { start: string; end: string }; // local time as HH:MM; may wrap past midnight
+  budgetRemainingBelow?: number; // USD left in the tightest budget covering the request
+  providerHealth?: { provider: string; states: ProviderHealthState[] };
+}
+
+export interface RoutingRule {
+  id?: string;
+  description?: string;
+  enabled?: boolean; // defaults to true
+  requestType?: AIRequestType; // matches every request type when omitted
+  when?: RoutingConditions;
+  preferredProviderType?: 'cowriter' | 'local' | 'cloud';
+  preferredProvider?: string;
+  fallbackChain?: string[]; // providers tried in this order after the preferred one; no others are used
+  fallbackStrategy: RoutingStrategy;
+  requireOffline?: boolean;
+}
+
+export interface RoutingConfig {
+  defaultStrategy: RoutingStrategy;
+  rules: RoutingRule[]; // evaluated in order; the first match wins
+  enableFallback: boolean;
+  maxRetries: number;
+  retryDelay: number; // milliseconds
+}
+
+// What routing rules are matched against
+export interface RoutingFacts {
+  requestType: AIRequestType;
+  estimatedTokens: number;
+  storyTags: string[];
+  contentRating?: string;
+  time: string; // HH:MM
+  budgetRemaining: number | null; // null when no budget covers the request
+  providerHealth: Record<string, ProviderHealthState>;
+}
+
+export interface RuleEvaluation {
+  index: number;
+  rule: RoutingRule;
+  matched: boolean;
+  reasons: string[]; // each condition checked, or the first one that failed
+}
+
+export interface RoutingExplanation {
+  facts: RoutingFacts;
+  evaluations: RuleEvaluation[]; // rules checked in order, up to the one that matched
+  matchedRule: RoutingRule | null;
+  candidates: string[]; // providers in the order they would be tried
+  notes: string[]; // filters that narrowed the candidates
+}
+
+// Dialogue written in each character's voice. Lines are scored against the
+// speaker's VoiceProfile; a speaker whose lines drift is rewritten.
+export interface DialogueLine {
+  speaker: string;
+  characterId?: string; // unset when the speaker is not one of the given characters
+  text: string;
+  voiceMatch?: number; // 0-1; unset for speakers without a voice profile
+  notes: string[]; // why the score is what it is
+  regenerated?: boolean;
+}
+
+export interface VoicedDialogue {
+  lines: DialogueLine[];
+  regeneratedSpeakers: string[];
+  rounds: number; // rewrite rounds used
+}
+
+export interface VoicedDialogueOptions {
+  minVoiceMatch?: number; // a speaker's average below this is rewritten; default 0.6
+  maxRegenerations?: number; // rewrite rounds; default 2
+}
+
+// One provider's answer in a side-by-side comparison
+export interface ComparisonResult {
+  provider: string;
+  providerType?: AIProvider['type'];
+  model?: string;
+  response?: AIResponse;
+  error?: string; // set instead of response when the provider failed
+  latency: number; // milliseconds
+  inputTokens?: number;
+  outputTokens?: number;
+  cost?: number; // USD; known when a usage ledger records the request
+}
+
+export interface ProviderComparison {
+  id: string;
+  requestType: AIRequestType;
+  prompt: string;
+  createdAt: Date;
+  results: ComparisonResult[]; // in the order the providers were given
+  chosenProvider?: string;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  windowSize: number; // most recent calls the failure and slow-call rates are taken over
+  minimumCalls: number; // calls needed in the window before the rates can open the circuit
+  failureRateThreshold: number; // 0-1
+  slowCallThreshold: number; // milliseconds; slower successful calls count toward the slow-call rate
+  slowCallRateThreshold: number; // 0-1
+  cooldown: number; // milliseconds the circuit stays open the first time
+  maxCooldown: number; // cap for the cool-down, which doubles each time a probe fails
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  failureRate: number;
+  slowCallRate: number;
+  calls: number; // calls in the window
+  openings: number; // times opened since the circuit last closed
+  retryAt?: Date; // when an open circuit lets a probe call through
+}
+
+// Client-side limits for a rate-limited API. Unset limits are only learned
+// from the rate-limit headers the API returns.
+export interface RateLimitOptions {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  maxQueueWait: number; // milliseconds a request may wait for capacity before failing
+}
+
+// Result of a provider's own health probe
+export interface HealthCheckResult {
+  healthy: boolean;
+  responseTime: number;
+  error?: string;
+  details?: Record<string, any>;
+}
+
+export interface RateLimitState {
+  throttled: boolean; // no request can be sent right now
+  retryAt?: Date; // when the next request can be sent, while throttled
+  requestsRemaining?: number;
+  tokensRemaining?: number;
+  queued: number; // requests waiting for capacity
+}
+
+// Subset of JSON Schema used to validate structured model output. coerceFrom
+// names the property a bare string is moved into when an object is expected.
+export interface OutputSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, OutputSchema>;
+  required?: string[];
+  items?: OutputSchema;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+  default?: any;
+  coerceFrom?: string;
+}
+
+export interface StructuredOutputSpec {
+  name: string;
+  schema: OutputSchema;
+}
+
+export interface SchemaIssue {
+  path: string; // e.g. $.pacing.tensionCurve[2].tensionLevel
+  message: string;
+}
+
+// Analysis request types with a typed, schema-validated result
+export type StructuredAnalysisType =
+  | 'story_analysis'
+  | 'manuscript_analysis'
+  | 'plot_hole_detection'
+  | 'pacing_analysis'
+  | 'consistency_check';
+
+export interface StructuredAnalysisResults {
+  story_analysis: StoryAnalysis;
+  manuscript_analysis: StoryAnalysis;
+  plot_hole_detection: ConsistencyReport;
+  pacing_analysis: PacingAnalysis;
+  consistency_check: ConsistencyReport;
+}
+
 // CharacterTraits, StoryStructure, and StructureBeat are imported from Story.ts to avoid duplicates
 
 export interface Outline {
@@ -191,7 +575,102 @@ export interface AIRequest {
     maxTokens?: number;
     temperature?: number;
     requireOffline?: boolean;
+    retrieval?: RetrievalOptions; // attach relevant passages from the manuscript
   };
+  infill?: InfillInput; // text around the cursor, for 'infill' requests
+  signal?: AbortSignal; // cancels the request, stopping retries and the provider's HTTP call
+}
+
+// Infill: text is generated at the cursor, between prefix and suffix
+export interface InfillInput {
+  prefix: string;
+  suffix: string;
+  maxTokens?: number;
+}
+
+export type NarrativeTense = 'past' | 'present';
+export type NarrativePOV = 'first' | 'second' | 'third';
+
+export interface InfillSuggestion {
+  text: string; // ready to insert at the cursor, including any joining space
+  native: boolean; // the provider's fill-in-the-middle API was used
+  provider: string;
+  model?: string;
+  tense?: NarrativeTense; // detected from the surrounding text and asked for
+  pov?: NarrativePOV;
+}
+
+// Tool calling. Tools are defined once here and converted to each provider's
+// function-calling format; the model calls them to look things up in the story.
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: OutputSchema; // an object schema of the arguments
+}
+
+export interface ToolCall {
+  id: string; // the provider's id for the call, echoed back with the result
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface ToolResult {
+  callId: string;
+  name: string;
+  content: string; // sent back to the model as text
+  isError?: boolean;
+}
+
+export interface ToolExecutor {
+  definitions(): ToolDefinition[];
+  // provider is the name of the provider whose model made the call
+  execute(call: ToolCall, context: StoryContext, provider: string): Promise<ToolResult>;
+}
+
+// Assistant chat. A thread belongs to a story and can be narrowed to a
+// chapter or scene; its messages are kept in the database.
+export interface ChatThreadScope {
+  storyId: string;
+  chapterId?: string;
+  sceneId?: string;
+}
+
+export interface ChatPinnedFact {
+  id: string;
+  text: string;
+  createdAt: Date;
+}
+
+export interface ChatThread extends ChatThreadScope {
+  id: string;
+  title: string;
+  summary?: string; // stands in for the messages that no longer fit in the prompt
+  summarizedThrough: number; // sequence of the last message folded into the summary, 0 for none
+  pinnedFacts: ChatPinnedFact[]; // sent with every message of the thread
+  forkedFrom?: { threadId: string; messageId: string };
+  messageCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ChatMessage {
+  id: string;
+  threadId: string;
+  sequence: number; // position in the thread, from 1
+  role: 'user' | 'assistant';
+  content: string;
+  provider?: string; // the provider that wrote an assistant message
+  model?: string;
+  createdAt: Date;
+}
+
+export type ChatThreadQuery = Partial<ChatThreadScope>;
+
+export interface ChatReply {
+  thread: ChatThread;
+  userMessage: ChatMessage;
+  reply: ChatMessage;
+  summarized: boolean; // earlier messages were folded into the summary to make room
 }
 
 export type AIRequestType = 
@@ -206,7 +685,9 @@ export type AIRequestType =
   | 'consistency_check'
   | 'manuscript_analysis'
   | 'research'
-  | 'brainstorming';
+  | 'brainstorming'
+  | 'infill'
+  | 'assistant_chat';
 
 // Provider-specific interfaces
 export interface OpenAIProvider extends AIProvider {
@@ -502,4 +502,63 @@ export interface SceneGenerationResult {
   confidence: number;
   suggestions: string[];
   atmosphereResult?: any;
-}
\ No newline at end of file
+}
+// Revision history types
+export type RevisionEntityType = 'scene' | 'chapter';
+
+export interface Revision {
+  id: string;
+  storyId: string;
+  entityType: RevisionEntityType;
+  entityId: string;
+  version: number;
+  kind: 'auto' | 'snapshot' | 'restore';
+  label?: string;
+  author?: string;
+  content?: string; // Omitted when revisions are listed
+  wordCount: number;
+  createdAt: Date;
+}
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface RevisionDiff {
+  fromRevisionId: string;
+  toRevisionId: string;
+  segments: DiffSegment[];
+  wordsAdded: number;
+  wordsRemoved: number;
+}
+
+// Full-text search types
+export type SearchField = 'title' | 'content' | 'character' | 'tag';
+
+export interface SearchOptions {
+  fields?: SearchField[]; // Restricts unqualified query terms; defaults to all fields
+  storyId?: string;
+  limit?: number;
+}
+
+export interface SearchHit {
+  storyId: string;
+  storyTitle: string;
+  type: 'story' | 'chapter' | 'scene' | 'character';
+  chapterId?: string;
+  chapterTitle?: string;
+  sceneId?: string;
+  sceneTitle?: string;
+  characterId?: string;
+  field: SearchField;
+  score: number;
+  snippet: string;
+  highlights: Array<{ start: number; end: number }>; // Offsets into snippet
+}
+
+export interface SearchResult {
+  query: string;
+  total: number;
+  hits: SearchHit[];
+}
@@ -27,6 +27,30 @@ export class IdGenerator {
   static generateSceneId(chapterId: string): string {
     return `${chapterId}-scene-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
+
+  static generateRevisionId(entityId: string): string {
+    return `${entityId}-rev-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  static generateUsageId(): string {
+    return `usage-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  static generateComparisonId(): string {
+    return `compare-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  static generateChatThreadId(): string {
+    return `chat-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  static generateChatMessageId(threadId: string): string {
+    return `${threadId}-msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  static generatePinnedFactId(threadId: string): string {
+    return `${threadId}-fact-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
 }
 
 // Story creation and manipulation utilities
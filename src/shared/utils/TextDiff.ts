@@ -0,0 +1,130 @@
+import { DiffSegment } from '../types/Story';
+
+// Word-level text diffing used by revision history
+export class TextDiff {
+  // Beyond this many edits a full Myers trace gets expensive, so the changed
+  // region is reported as one replacement instead
+  static readonly MAX_EDIT_DISTANCE = 2000;
+
+  // Splits text into words, runs of whitespace and single punctuation marks
+  static tokenize(text: string): string[] {
+    return text.match(/\s+|[\p{L}\p{N}_'’-]+|[^\s\p{L}\p{N}_]/gu) || [];
+  }
+
+  static countWords(segments: DiffSegment[], type: DiffSegment['type']): number {
+    return segments
+      .filter(segment => segment.type === type)
+      .reduce((total, segment) => total + (segment.text.match(/[\p{L}\p{N}]+/gu) || []).length, 0);
+  }
+
+  static diffWords(oldText: string, newText: string): DiffSegment[] {
+    const oldTokens = this.tokenize(oldText);
+    const newTokens = this.tokenize(newText);
+
+    // Trim the common prefix and suffix so the edit script only covers the changed region
+    let prefix = 0;
+    while (prefix < oldTokens.length && prefix < newTokens.length && oldTokens[prefix] === newTokens[prefix]) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    while (
+      suffix < oldTokens.length - prefix &&
+      suffix < newTokens.length - prefix &&
+      oldTokens[oldTokens.length - 1 - suffix] === newTokens[newTokens.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const segments: DiffSegment[] = [];
+    this.pushSegment(segments, 'equal', oldTokens.slice(0, prefix));
+
+    const oldMiddle = oldTokens.slice(prefix, oldTokens.length - suffix);
+    const newMiddle = newTokens.slice(prefix, newTokens.length - suffix);
+    for (const [type, tokens] of this.diffTokens(oldMiddle, newMiddle)) {
+      this.pushSegment(segments, type, tokens);
+    }
+
+    this.pushSegment(segments, 'equal', oldTokens.slice(oldTokens.length - suffix));
+    return segments;
+  }
+
+  // Myers' O(ND) shortest edit script over token arrays
+  private static diffTokens(a: string[], b: string[]): Array<[DiffSegment['type'], string[]]> {
+    if (a.length === 0 || b.length === 0) {
+      return [['delete', a], ['insert', b]];
+    }
+
+    const max = Math.min(a.length + b.length, this.MAX_EDIT_DISTANCE);
+    const offset = max + 1;
+    const v = new Array<number>(2 * max + 3).fill(0);
+    const trace: number[][] = [];
+
+    let found = false;
+    for (let d = 0; d <= max && !found; d++) {
+      trace.push(v.slice());
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+        let y = x - k;
+        while (x < a.length && y < b.length && a[x] === b[y]) {
+          x++;
+          y++;
+        }
+        v[offset + k] = x;
+        if (x >= a.length && y >= b.length) {
+          found = true;
+          break;
+        }
+      }
+    }
+
+    if (!found) {
+      return [['delete', a], ['insert', b]];
+    }
+
+    // Walk the trace backwards to recover the edit script
+    const operations: Array<[DiffSegment['type'], string]> = [];
+    let x = a.length;
+    let y = b.length;
+    for (let d = trace.length - 1; d >= 0; d--) {
+      const previous = trace[d];
+      const k = x - y;
+      const prevK = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1]) ? k + 1 : k - 1;
+      const prevX = previous[offset + prevK];
+      const prevY = prevX - prevK;
+
+      while (x > prevX && y > prevY) {
+        operations.push(['equal', a[x - 1]]);
+        x--;
+        y--;
+      }
+
+      if (d > 0) {
+        if (x === prevX) {
+          operations.push(['insert', b[y - 1]]);
+        } else {
+          operations.push(['delete', a[x - 1]]);
+        }
+      }
+
+      x = prevX;
+      y = prevY;
+    }
+
+    return operations.reverse().map(([type, token]) => [type, [token]]);
+  }
+
+  private static pushSegment(segments: DiffSegment[], type: DiffSegment['type'], tokens: string[]): void {
+    if (tokens.length === 0) return;
+
+    const text = tokens.join('');
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  }
+}
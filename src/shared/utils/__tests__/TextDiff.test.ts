@@ -0,0 +1,73 @@
+import { TextDiff } from '../TextDiff';
+import { DiffSegment } from '../../types/Story';
+
+// Rebuilds either side of a diff from its segments
+function apply(segments: DiffSegment[], side: 'old' | 'new'): string {
+  const skip = side === 'old' ? 'insert' : 'delete';
+  return segments.filter(segment => segment.type !== skip).map(segment => segment.text).join('');
+}
+
+describe('TextDiff', () => {
+  describe('tokenize', () => {
+    it('should split words, whitespace and punctuation', () => {
+      expect(TextDiff.tokenize("She didn't stop, not yet.")).toEqual([
+        'She', ' ', "didn't", ' ', 'stop', ',', ' ', 'not', ' ', 'yet', '.'
+      ]);
+    });
+
+    it('should keep non-Latin words intact', () => {
+      expect(TextDiff.tokenize('夢 café')).toEqual(['夢', ' ', 'café']);
+    });
+  });
+
+  describe('diffWords', () => {
+    it('should return a single equal segment for identical text', () => {
+      expect(TextDiff.diffWords('The rain fell.', 'The rain fell.')).toEqual([
+        { type: 'equal', text: 'The rain fell.' }
+      ]);
+    });
+
+    it('should report replaced words', () => {
+      const segments = TextDiff.diffWords('The rain fell softly.', 'The snow fell softly.');
+
+      expect(segments).toEqual([
+        { type: 'equal', text: 'The ' },
+        { type: 'delete', text: 'rain' },
+        { type: 'insert', text: 'snow' },
+        { type: 'equal', text: ' fell softly.' }
+      ]);
+    });
+
+    it('should handle insertions and deletions against empty text', () => {
+      expect(TextDiff.diffWords('', 'New scene')).toEqual([{ type: 'insert', text: 'New scene' }]);
+      expect(TextDiff.diffWords('Old scene', '')).toEqual([{ type: 'delete', text: 'Old scene' }]);
+    });
+
+    it('should reproduce both texts from the segments', () => {
+      const oldText = 'Mara crossed the bridge at dawn. The river below was loud and cold.';
+      const newText = 'At dawn Mara crossed the old bridge. The river below was cold, and very loud.';
+      const segments = TextDiff.diffWords(oldText, newText);
+
+      expect(apply(segments, 'old')).toBe(oldText);
+      expect(apply(segments, 'new')).toBe(newText);
+    });
+
+    it('should fall back to a replacement when the texts differ too much', () => {
+      const oldText = Array.from({ length: 1500 }, (_, i) => `a${i}`).join(' ');
+      const newText = Array.from({ length: 1500 }, (_, i) => `b${i}`).join(' ');
+      const segments = TextDiff.diffWords(oldText, newText);
+
+      expect(apply(segments, 'old')).toBe(oldText);
+      expect(apply(segments, 'new')).toBe(newText);
+    });
+  });
+
+  describe('countWords', () => {
+    it('should count words in segments of a given type', () => {
+      const segments = TextDiff.diffWords('one two three', 'one four five three');
+
+      expect(TextDiff.countWords(segments, 'insert')).toBe(2);
+      expect(TextDiff.countWords(segments, 'delete')).toBe(1);
+    });
+  });
+});
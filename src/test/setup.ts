@@ -33,7 +33,7 @@ const mockElectron = {
   }
 };
 
-// Mock database (no longer using better-sqlite3)
+// Mock better-sqlite3 database
 const mockDatabase = {
   prepare: jest.fn(() => ({
     run: jest.fn(),
@@ -42,6 +42,7 @@ const mockDatabase = {
   })),
   exec: jest.fn(),
   pragma: jest.fn(),
+  transaction: jest.fn((fn: (...args: any[]) => any) => (...args: any[]) => fn(...args)),
   close: jest.fn()
 };
 
@@ -77,6 +78,7 @@ const mockFs = {
 // Apply mocks
 jest.mock('electron', () => mockElectron);
 jest.mock('electron-store', () => mockStore);
+jest.mock('better-sqlite3', () => jest.fn(() => mockDatabase));
 jest.mock('crypto', () => mockCrypto);
 jest.mock('fs', () => mockFs);
 